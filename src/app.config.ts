@@ -8,7 +8,9 @@ import { providePrimeNG } from 'primeng/config';
 import { appRoutes } from './app.routes';
 import { authInterceptor } from './app/core/interceptors/auth.interceptor';
 import { errorInterceptor } from './app/core/interceptors/error.interceptor';
+import { keepaliveInterceptor } from './app/core/interceptors/keepalive.interceptor';
 import { loadingInterceptor } from './app/core/interceptors/loading.interceptor';
+import { offlineInterceptor } from './app/core/interceptors/offline.interceptor';
 import { provideServiceWorker } from '@angular/service-worker';
 import { registerLocaleData } from '@angular/common';
 import localeEs from '@angular/common/locales/es';
@@ -26,9 +28,13 @@ export const appConfig: ApplicationConfig = {
         provideHttpClient(
             withFetch(),
             withInterceptors([
+                // Primero: marca con keepalive los borrados que se envían al cerrar la pestaña
+                keepaliveInterceptor,
                 loadingInterceptor,
                 authInterceptor,
-                errorInterceptor
+                errorInterceptor,
+                // Último: encola los movimientos sin conexión antes de que lleguen al toast de error
+                offlineInterceptor
             ])
         ),
         provideAnimationsAsync(),
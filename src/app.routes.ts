@@ -64,6 +64,30 @@ export const appRoutes: Routes = [
                 path: 'traspasos-programados',
                 loadChildren: () => import('./app/features/traspasos-programados/traspasos-programados.routes')
             },
+            {
+                path: 'importar',
+                loadChildren: () => import('./app/features/importar/importar.routes')
+            },
+            {
+                path: 'presupuestos',
+                loadChildren: () => import('./app/features/presupuestos/presupuestos.routes')
+            },
+            {
+                path: 'metas',
+                loadChildren: () => import('./app/features/metas-ahorro/metas-ahorro.routes')
+            },
+            {
+                path: 'compartidos',
+                loadChildren: () => import('./app/features/compartidos/compartidos.routes')
+            },
+            {
+                path: 'reglas',
+                loadChildren: () => import('./app/features/reglas/reglas.routes')
+            },
+            {
+                path: 'vistas',
+                loadChildren: () => import('./app/features/vistas/vistas.routes')
+            },
             {
                 path: 'auth/my-profile',
                 loadComponent: () => import('./app/features/auth/pages/my-profile.page').then((m) => m.MyProfilePage)
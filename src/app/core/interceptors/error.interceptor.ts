@@ -1,4 +1,4 @@
-import { HttpErrorResponse, HttpInterceptorFn } from '@angular/common/http';
+import { HttpContextToken, HttpErrorResponse, HttpInterceptorFn } from '@angular/common/http';
 import { inject } from '@angular/core';
 import { MessageService } from 'primeng/api';
 import { catchError, throwError } from 'rxjs';
@@ -14,13 +14,16 @@ interface ApiResult {
   };
 }
 
+// Peticiones cuyo error gestiona quien llama (sin toast global); va en el contexto para no salir como cabecera
+export const SKIP_GLOBAL_ERROR = new HttpContextToken<boolean>(() => false);
+
 export const errorInterceptor: HttpInterceptorFn = (req, next) => {
     const messageService = inject(MessageService);
 
     return next(req).pipe(
         catchError((error: HttpErrorResponse) => {
-            // 1. Permitir saltar el manejo global si enviamos un header específico
-            if (req.headers.has('X-Skip-Global-Error')) {
+            // 1. Permitir saltar el manejo global si la petición lo pide en su contexto
+            if (req.context.get(SKIP_GLOBAL_ERROR)) {
                 return throwError(() => error);
             }
 
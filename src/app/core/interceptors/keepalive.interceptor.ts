@@ -0,0 +1,11 @@
+import { HttpInterceptorFn } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { UndoStore } from '../stores/undo.store';
+
+/**
+ * Interceptor para las peticiones lanzadas al cerrar la pestaña (borrados pendientes de deshacer)
+ * Con keepalive el navegador las termina de enviar aunque la página se descargue
+ */
+export const keepaliveInterceptor: HttpInterceptorFn = (req, next) => {
+    return inject(UndoStore).cerrando() ? next(req.clone({ keepalive: true })) : next(req);
+};
@@ -0,0 +1,58 @@
+import { HttpErrorResponse, HttpInterceptorFn, HttpRequest, HttpResponse } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { catchError, from, map, throwError } from 'rxjs';
+import { environment } from '../../../environments/environment';
+import { EntidadOutbox, MetodoOutbox } from '../models/outbox.model';
+import { OutboxStore, REENVIO_OUTBOX } from '../stores/outbox.store';
+import { esIdOffline } from '@/shared/utils/outbox.util';
+
+// Altas sobre la colección y cambios/borrados sobre un registro concreto
+const RUTA_MOVIMIENTO = /^\/(gastos|ingresos|traspasos)(?:\/([^/]+))?$/;
+
+/**
+ * Interceptor para capturar movimientos sin conexión
+ * Debe ir el último: si la petición se encola, el resto de interceptores reciben una respuesta correcta
+ */
+export const offlineInterceptor: HttpInterceptorFn = (req, next) => {
+    const entidad = entidadEncolable(req);
+    if (!entidad || req.context.get(REENVIO_OUTBOX)) {
+        return next(req);
+    }
+
+    const outboxStore = inject(OutboxStore);
+    const encolar = () =>
+        from(outboxStore.encolar(entidad, req.method as MetodoOutbox, req.url, req.body)).pipe(map((id) => respuestaEncolada(req, id)));
+
+    // Sin red, o sobre un movimiento que todavía solo existe en la cola: directamente al outbox
+    if (!outboxStore.online() || esIdOffline(req.url.substring(req.url.lastIndexOf('/') + 1))) {
+        return encolar();
+    }
+
+    return next(req).pipe(
+        catchError((error) => {
+            if (error instanceof HttpErrorResponse && error.status === 0) {
+                return encolar();
+            }
+            return throwError(() => error);
+        })
+    );
+};
+
+function entidadEncolable(req: HttpRequest<unknown>): EntidadOutbox | null {
+    if (!req.url.startsWith(environment.apiUrl)) return null;
+
+    const match = RUTA_MOVIMIENTO.exec(req.url.substring(environment.apiUrl.length));
+    if (!match) return null;
+
+    const conId = !!match[2];
+    const valido = (req.method === 'POST' && !conId) || ((req.method === 'PUT' || req.method === 'DELETE') && conId);
+    return valido ? (match[1] as EntidadOutbox) : null;
+}
+
+// Respuesta con la forma de Result<string> para que los servicios sigan funcionando igual
+function respuestaEncolada(req: HttpRequest<unknown>, id: string): HttpResponse<unknown> {
+    if (req.method === 'DELETE') {
+        return new HttpResponse({ status: 204, url: req.url });
+    }
+    return new HttpResponse({ status: 202, url: req.url, body: { value: id, isSuccess: true, isFailure: false } });
+}
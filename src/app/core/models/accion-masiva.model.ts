@@ -0,0 +1,30 @@
+import { CatalogRef } from './common.model';
+
+/**
+ * Cambio aplicado a la vez a varios movimientos seleccionados (gastos/ingresos)
+ * `dias` desplaza la fecha hacia delante (positivo) o hacia atrás (negativo)
+ */
+export type CambioMasivo =
+    | { tipo: 'concepto'; concepto: CatalogRef; categoria: CatalogRef }
+    | { tipo: 'cuenta'; cuenta: CatalogRef }
+    | { tipo: 'persona'; persona: CatalogRef }
+    | { tipo: 'fecha'; dias: number };
+
+export type TipoCambioMasivo = CambioMasivo['tipo'];
+
+// Avance de una acción masiva en curso
+export interface ProgresoMasivo {
+    hechos: number;
+    total: number;
+}
+
+export interface FalloMasivo {
+    id: string;
+    error: string;
+}
+
+// Resultado por fila: los fallidos se revierten en el store y se muestran en el informe
+export interface ResultadoMasivo {
+    correctos: string[];
+    fallidos: FalloMasivo[];
+}
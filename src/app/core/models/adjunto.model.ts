@@ -0,0 +1,23 @@
+export type TipoMovimientoAdjunto = 'gastos' | 'ingresos';
+
+/**
+ * Fichero adjunto a un movimiento (ticket, factura...): imagen o PDF
+ */
+export interface Adjunto {
+    id: string;
+    nombre: string;
+    tipoContenido: string;
+    tamano: number;
+    url: string;
+    // Solo imágenes: versión reducida generada por el backend
+    miniaturaUrl?: string | null;
+}
+
+// Cambios de adjuntos hechos en el formulario; se aplican después de guardar el movimiento
+export interface CambiosAdjuntos {
+    nuevos: File[];
+    eliminados: Adjunto[];
+}
+
+// Resultado de un formulario de movimiento con sus cambios de adjuntos pendientes
+export type ConAdjuntos<T> = T & { cambiosAdjuntos?: CambiosAdjuntos };
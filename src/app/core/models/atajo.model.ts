@@ -0,0 +1,33 @@
+export interface AtajoTeclado {
+    // Teclas que se pulsan a la vez, tal como se muestran
+    teclas: string[];
+    descripcion: string;
+}
+
+export interface GrupoAtajos {
+    grupo: string;
+    atajos: AtajoTeclado[];
+}
+
+// Atajos disponibles, tal como se listan en la ayuda (?)
+export const ATAJOS_TECLADO: GrupoAtajos[] = [
+    {
+        grupo: 'General',
+        atajos: [
+            { teclas: ['Ctrl', 'K'], descripcion: 'Abrir la paleta de comandos' },
+            { teclas: ['?'], descripcion: 'Mostrar esta ayuda' },
+            { teclas: ['Esc'], descripcion: 'Cerrar el diálogo o panel abierto' }
+        ]
+    },
+    {
+        grupo: 'Listados de gastos, ingresos y traspasos',
+        atajos: [{ teclas: ['N'], descripcion: 'Nuevo movimiento' }]
+    },
+    {
+        grupo: 'Formularios de movimientos',
+        atajos: [
+            { teclas: ['Ctrl', 'Enter'], descripcion: 'Guardar' },
+            { teclas: ['Ctrl', 'Shift', 'Enter'], descripcion: 'Guardar y empezar otro con los mismos datos comunes (cuenta, forma de pago, persona...)' }
+        ]
+    }
+];
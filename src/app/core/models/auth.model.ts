@@ -5,6 +5,8 @@ export interface Usuario {
     apellidos?: string | null;
     rol?: string;
     avatar?: string | null;
+    // Moneda en la que se muestran totales y conversiones (EUR si no se ha elegido)
+    monedaBase?: string | null;
 }
 
 export interface LoginCredentials {
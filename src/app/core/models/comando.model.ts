@@ -0,0 +1,18 @@
+// Secciones de la paleta de comandos, en el orden en que se muestran
+export const GRUPOS_COMANDO = ['Acciones', 'Navegación', 'Movimientos', 'Cuentas', 'Conceptos', 'Categorías'] as const;
+
+export type GrupoComando = (typeof GRUPOS_COMANDO)[number];
+
+export interface Comando {
+    id: string;
+    grupo: GrupoComando;
+    etiqueta: string;
+    detalle?: string;
+    icono: string;
+    // Texto extra por el que también se encuentra (sinónimos, sección del menú...)
+    palabrasClave?: string;
+    ejecutar: () => void;
+}
+
+// Acciones que se piden desde fuera de la página que las resuelve (paleta, atajos)
+export type AccionRapida = 'nuevo-gasto' | 'nuevo-ingreso' | 'nuevo-traspaso';
@@ -26,6 +26,7 @@ export interface PaginatedList<T> {
     totalCount: number; // En C# suele ser TotalCount, si usas 'total' cámbialo aquí
     hasNextPage: boolean; // Opcional, si tu backend lo devuelve
     hasPreviousPage: boolean; // Opcional
+    totalImporte?: number; // Suma de importes de todo el conjunto filtrado (listados de movimientos)
 }
 
 // Define la estructura del error que viene en el JSON
@@ -44,3 +45,9 @@ export interface Result<T> {
     isFailure: boolean;
     error: ApiError; // Ahora es un objeto estructurado, no un string
 }
+
+// Referencia ligera a un elemento de catálogo (concepto, cuenta, proveedor...)
+export interface CatalogRef {
+    id: string;
+    nombre: string;
+}
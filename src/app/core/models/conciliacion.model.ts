@@ -0,0 +1,19 @@
+/**
+ * Conciliación de una cuenta con el saldo real del banco a una fecha
+ */
+export interface Conciliacion {
+    id: string;
+    cuentaId: string;
+    fecha: string;
+    // Saldo del extracto del banco a esa fecha, en la moneda de la cuenta
+    saldoBanco: number;
+}
+
+export interface ConciliacionCreate {
+    fecha: string;
+    saldoBanco: number;
+    // Movimientos que se marcan como conciliados
+    gastoIds: string[];
+    ingresoIds: string[];
+    traspasoIds: string[];
+}
@@ -2,6 +2,22 @@ export interface Cuenta {
     id: string;
     nombre: string;
     saldo: number;
+    // Código ISO 4217; las cuentas antiguas sin moneda están en EUR
+    moneda?: string;
     fechaCreacion: Date;
     usuarioId: string;
-}
\ No newline at end of file
+}
+export type TipoMovimientoCuenta = 'gasto' | 'ingreso' | 'traspaso-entrada' | 'traspaso-salida';
+
+/**
+ * Gasto, ingreso o traspaso visto desde una cuenta
+ */
+export interface MovimientoCuenta {
+    id: string;
+    tipo: TipoMovimientoCuenta;
+    fecha: string;
+    descripcion: string;
+    // Con signo y en la moneda de la cuenta: negativo si sale dinero
+    importe: number;
+    conciliado?: boolean;
+}
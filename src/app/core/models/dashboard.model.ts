@@ -21,6 +21,7 @@ export interface CuentaResumen {
     id: string;
     nombre: string;
     saldo: number;
+    moneda?: string;
 }
 
 export interface CategoriaGasto {
@@ -39,6 +40,7 @@ export interface MovimientoResumen {
     concepto: string;
     categoria: string;
     cuenta: string;
+    moneda?: string;
 }
 
 export interface ComparativaMensual {
@@ -0,0 +1,32 @@
+// Parámetros de la detección de movimientos duplicados
+export interface DuplicateDetectionOptions {
+    // Días de margen (±) respecto a la fecha del movimiento nuevo
+    toleranciaDias: number;
+    // Similitud mínima (0-1) entre concepto/descripción para considerarlo duplicado
+    similitudMinima: number;
+}
+
+export interface PosibleDuplicado<T> {
+    movimiento: T;
+    diasDiferencia: number;
+    similitud: number;
+}
+
+// Datos normalizados que se comparan entre dos movimientos
+export interface MovimientoComparable {
+    fecha: string;
+    importe: number;
+    // Clave de cuenta: cuentaId en gastos/ingresos, origen>destino en traspasos
+    cuentaKey: string;
+    textos: (string | null | undefined)[];
+}
+
+// Vista genérica para la comparación lado a lado en los formularios
+export interface DuplicadoVista {
+    titulo: string;
+    fecha: string;
+    importe: number;
+    cuenta: string;
+    descripcion?: string;
+    detalles?: { label: string; value: string }[];
+}
@@ -0,0 +1,29 @@
+export type ExportFormat = 'csv' | 'xlsx' | 'ofx';
+
+// Tipo de celda para dar formato correcto en CSV/XLSX
+export type ExportColumnType = 'text' | 'number' | 'date';
+
+export interface ExportColumn<T> {
+    header: string;
+    type?: ExportColumnType;
+    value: (row: T) => string | number | null | undefined;
+}
+
+export interface ExportOptions {
+    format: ExportFormat;
+    // Solo CSV: ';' para Excel en español (usa coma decimal)
+    delimiter?: ',' | ';';
+}
+
+// Transacción normalizada para OFX (importe negativo = cargo)
+export interface OfxTransaction {
+    id: string;
+    fecha: string;
+    importe: number;
+    nombre: string;
+    memo?: string;
+    cuentaId: string;
+    cuentaNombre: string;
+    // Moneda de la cuenta; sin ella, EUR como las cuentas antiguas
+    moneda?: string;
+}
@@ -0,0 +1,65 @@
+import { CatalogRef } from './common.model';
+
+export type ModoReparto = 'porcentaje' | 'fijo';
+
+// valor = porcentaje (0-100) o importe fijo según el modo del reparto
+export interface ParticipanteGasto {
+    personaId: string;
+    personaNombre: string;
+    valor: number;
+}
+
+/**
+ * Reparto de un gasto compartido: la persona del gasto es quien lo ha pagado
+ */
+export interface RepartoGasto {
+    modo: ModoReparto;
+    participantes: ParticipanteGasto[];
+}
+
+export type TipoMovimientoLiquidacion = 'traspaso' | 'ingreso';
+
+// Pago entre personas que salda (parte de) la deuda de gastos compartidos
+export interface Liquidacion {
+    id: string;
+    fecha: string;
+    importe: number;
+    deudorId: string;
+    deudorNombre: string;
+    acreedorId: string;
+    acreedorNombre: string;
+    tipoMovimiento: TipoMovimientoLiquidacion;
+    movimientoId: string;
+    // Moneda de la cuenta con la que se pagó; sin ella, EUR como las cuentas antiguas
+    moneda?: string;
+}
+
+export interface LiquidacionCreate {
+    fecha: string;
+    importe: number;
+    deudorId: string;
+    acreedorId: string;
+    tipoMovimiento: TipoMovimientoLiquidacion;
+    movimientoId: string;
+    // Moneda de la cuenta con la que se pagó; sin ella, EUR como las cuentas antiguas
+    moneda?: string;
+}
+
+export interface CuotaGasto {
+    persona: CatalogRef;
+    importe: number;
+}
+
+// saldo > 0: le deben dinero; saldo < 0: debe dinero
+export interface SaldoPersona {
+    persona: CatalogRef;
+    pagado: number;
+    consumido: number;
+    saldo: number;
+}
+
+export interface TransferenciaSugerida {
+    deudor: CatalogRef;
+    acreedor: CatalogRef;
+    importe: number;
+}
@@ -1,3 +1,6 @@
+import { Adjunto } from './adjunto.model';
+import { RepartoGasto } from './gasto-compartido.model';
+
 export interface Gasto {
     id: string;
     importe: number;
@@ -13,9 +16,39 @@ export interface Gasto {
     personaNombre: string;
     cuentaId: string;
     cuentaNombre: string;
+    // Moneda de la cuenta del gasto
+    moneda?: string;
     formaPagoId: string;
     formaPagoNombre: string;
     usuarioId: string;
+    // Conciliado con el extracto del banco: no se edita desde los listados
+    conciliado?: boolean;
+    // Reparto del importe entre varias categorías o personas (gasto dividido)
+    lineas?: GastoLinea[];
+    // Reparto del coste entre personas (gasto compartido)
+    compartido?: RepartoGasto | null;
+    adjuntos?: Adjunto[];
+}
+
+/**
+ * Línea de un gasto dividido: las líneas suman el importe total del gasto
+ */
+export interface GastoLinea {
+    id?: string;
+    importe: number;
+    conceptoId: string;
+    conceptoNombre: string;
+    categoriaId: string;
+    categoriaNombre: string;
+    personaId: string;
+    personaNombre: string;
+}
+
+export interface GastoLineaCreate {
+    importe: number;
+    conceptoId: string;
+    categoriaId: string;
+    personaId: string;
 }
 
 export interface ResumenGastos {
@@ -35,4 +68,6 @@ export interface GastoCreate {
     personaId: string;
     cuentaId: string;
     formaPagoId: string;
+    lineas?: GastoLineaCreate[];
+    compartido?: RepartoGasto | null;
 }
@@ -0,0 +1,71 @@
+import { CatalogRef } from './common.model';
+
+export type ImportFormat = 'csv' | 'ofx' | 'norma43';
+
+export type TipoMovimientoImportado = 'gasto' | 'ingreso';
+
+// Movimiento normalizado leído de un extracto (importe con signo: negativo = cargo)
+export interface MovimientoBancario {
+    fecha: string;
+    importe: number;
+    descripcion: string;
+    referencia?: string;
+}
+
+// Índices de columna del CSV (null = no mapeada)
+export interface CsvColumnMapping {
+    fecha: number | null;
+    descripcion: number | null;
+    importe: number | null;
+    // Alternativa a 'importe' cuando el banco separa cargos y abonos
+    cargo: number | null;
+    abono: number | null;
+}
+
+export interface CsvParseOptions {
+    delimiter: string;
+    hasHeader: boolean;
+    mapping: CsvColumnMapping;
+}
+
+// Fila del paso de vista previa
+export interface FilaImportacion {
+    id: string;
+    seleccionada: boolean;
+    tipo: TipoMovimientoImportado;
+    fecha: string;
+    importe: number;
+    descripcion: string;
+    concepto: CatalogRef | null;
+    categoria: CatalogRef | null;
+    cuenta: CatalogRef | null;
+    proveedor: CatalogRef | null;
+    cliente: CatalogRef | null;
+    persona: CatalogRef | null;
+    formaPago: CatalogRef | null;
+    errores: string[];
+    estado: 'pendiente' | 'importada' | 'error';
+    // undefined = sin comprobar, null = comprobado sin coincidencias
+    duplicado?: MovimientoExistente | null;
+}
+
+// Resumen del movimiento ya registrado que coincide con una fila
+export interface MovimientoExistente {
+    id: string;
+    fecha: string;
+    importe: number;
+    nombre: string;
+}
+
+// Valores que se aplican a todas las filas que no tengan uno asignado
+export interface ValoresPorDefectoImportacion {
+    concepto: CatalogRef | null;
+    categoria: CatalogRef | null;
+    cuenta: CatalogRef | null;
+    proveedor: CatalogRef | null;
+    cliente: CatalogRef | null;
+    persona: CatalogRef | null;
+    formaPago: CatalogRef | null;
+}
+
+export type CampoCatalogoImportacion = keyof ValoresPorDefectoImportacion;
@@ -1,3 +1,5 @@
+import { Adjunto } from './adjunto.model';
+
 export interface Ingreso {
     id: string;
     importe: number;
@@ -13,9 +15,14 @@ export interface Ingreso {
     personaNombre: string;
     cuentaId: string;
     cuentaNombre: string;
+    // Moneda de la cuenta del ingreso
+    moneda?: string;
     formaPagoId: string;
     formaPagoNombre: string;
     usuarioId: string;
+    // Conciliado con el extracto del banco: no se edita desde los listados
+    conciliado?: boolean;
+    adjuntos?: Adjunto[];
 }
 
 export interface ResumenIngresos {
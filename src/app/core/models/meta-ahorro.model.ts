@@ -0,0 +1,59 @@
+import { Frecuencia, TraspasoProgramado } from './traspaso-programado.model';
+
+/**
+ * Meta de ahorro ligada a una cuenta
+ * El progreso se mide con el saldo de la cuenta
+ */
+export interface MetaAhorro {
+    id: string;
+    nombre: string;
+    importeObjetivo: number;
+    fechaObjetivo: string;
+    cuentaId: string;
+    cuentaNombre: string;
+    // Traspaso programado que alimenta la meta (aportación periódica)
+    traspasoProgramadoId: string | null;
+    fechaCreacion?: Date | null;
+    usuarioId?: string;
+}
+
+export interface MetaAhorroCreate {
+    nombre: string;
+    importeObjetivo: number;
+    fechaObjetivo: string;
+    cuentaId: string;
+    traspasoProgramadoId: string | null;
+}
+
+// Aportación periódica que se convierte en un traspaso programado hacia la cuenta de la meta
+export interface AportacionMeta {
+    cuentaOrigenId: string;
+    cuentaOrigenNombre: string;
+    importe: number;
+    frecuencia: Frecuencia;
+    fechaEjecucion: string;
+}
+
+// Meta tal y como la emite el formulario
+export interface MetaAhorroFormResult extends Partial<MetaAhorro> {
+    aportacion: AportacionMeta | null;
+}
+
+export interface ProgresoMeta {
+    meta: MetaAhorro;
+    saldoActual: number;
+    restante: number;
+    porcentaje: number;
+    completada: boolean;
+    mesesRestantes: number;
+    // Lo que hay que ahorrar cada mes desde hoy para llegar a la fecha objetivo
+    aportacionMensualNecesaria: number;
+    // Equivalente mensual de la aportación periódica, si la hay
+    aportacionMensualProgramada: number | null;
+    aportacion: TraspasoProgramado | null;
+    // Balance medio mensual del histórico (ingresos - gastos)
+    ahorroMensualMedio: number;
+    // null si al ritmo actual no se alcanza nunca
+    fechaEstimada: Date | null;
+    enPlazo: boolean;
+}
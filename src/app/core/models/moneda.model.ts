@@ -0,0 +1,36 @@
+/**
+ * Código ISO 4217 de una moneda ("EUR", "USD", "GBP")
+ */
+export type CodigoMoneda = string;
+
+// Moneda de las cuentas sin moneda y de los usuarios que no han elegido una en su perfil
+export const MONEDA_POR_DEFECTO: CodigoMoneda = 'EUR';
+
+export interface Moneda {
+    codigo: CodigoMoneda;
+    nombre: string;
+}
+
+export const MONEDAS: Moneda[] = [
+    { codigo: 'EUR', nombre: 'Euro' },
+    { codigo: 'USD', nombre: 'Dólar estadounidense' },
+    { codigo: 'GBP', nombre: 'Libra esterlina' },
+    { codigo: 'CHF', nombre: 'Franco suizo' },
+    { codigo: 'JPY', nombre: 'Yen japonés' },
+    { codigo: 'MXN', nombre: 'Peso mexicano' }
+];
+
+/**
+ * Tipo de cambio mantenido a mano: 1 `monedaOrigen` = `tasa` `monedaDestino`
+ * Sirve también en sentido inverso (1 / tasa)
+ */
+export interface TipoCambio {
+    id: string;
+    monedaOrigen: CodigoMoneda;
+    monedaDestino: CodigoMoneda;
+    tasa: number;
+    // yyyy-MM-dd de la última actualización
+    fecha: string;
+}
+
+export type TipoCambioCreate = Omit<TipoCambio, 'id'>;
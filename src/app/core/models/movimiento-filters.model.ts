@@ -0,0 +1,47 @@
+import { CatalogRef } from './common.model';
+
+// Filtros adicionales para los listados de movimientos (gastos/ingresos)
+export interface MovimientoFilters {
+    fechaInicio?: string;
+    fechaFin?: string;
+    categoriaIds?: string[];
+    cuentaIds?: string[];
+    proveedorIds?: string[];
+    clienteIds?: string[];
+    personaIds?: string[];
+    formaPagoIds?: string[];
+    importeMin?: number;
+    importeMax?: number;
+    conDescripcion?: boolean;
+    conciliado?: boolean;
+}
+
+export type PresetFecha = 'este-mes' | 'mes-pasado' | 'ultimo-trimestre' | 'anio-fiscal';
+
+/**
+ * Selección del panel de filtros avanzados
+ * Guarda las referencias completas para poder pintar los chips con el nombre
+ */
+export interface FiltrosAvanzados {
+    preset: PresetFecha | null;
+    fechaInicio: string | null;
+    fechaFin: string | null;
+    categorias: CatalogRef[];
+    cuentas: CatalogRef[];
+    proveedores: CatalogRef[];
+    clientes: CatalogRef[];
+    personas: CatalogRef[];
+    formasPago: CatalogRef[];
+    importeMin: number | null;
+    importeMax: number | null;
+    conDescripcion: boolean;
+}
+
+export type CampoCatalogoFiltro = 'categorias' | 'cuentas' | 'proveedores' | 'clientes' | 'personas' | 'formasPago';
+
+// Chip de filtro activo; `id` identifica el elemento dentro de un filtro de catálogo
+export interface ChipFiltro {
+    campo: CampoCatalogoFiltro | 'fechas' | 'importe' | 'conDescripcion';
+    etiqueta: string;
+    id?: string;
+}
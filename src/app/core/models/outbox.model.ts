@@ -0,0 +1,25 @@
+export type EntidadOutbox = 'gastos' | 'ingresos' | 'traspasos';
+
+export type MetodoOutbox = 'POST' | 'PUT' | 'DELETE';
+
+// pendiente = se reintentará; conflicto/error = necesita que el usuario lo revise
+export type EstadoOperacionOutbox = 'pendiente' | 'conflicto' | 'error';
+
+/**
+ * Operación de escritura guardada sin conexión para enviarla más tarde
+ */
+export interface OperacionOutbox {
+    id?: number; // Autoincremental de IndexedDB: define el orden de envío
+    entidad: EntidadOutbox;
+    metodo: MetodoOutbox;
+    url: string;
+    body: unknown;
+    // POST: id temporal devuelto a la app; PUT/DELETE: id del registro afectado
+    registroId: string;
+    creadoEn: number;
+    intentos: number;
+    estado: EstadoOperacionOutbox;
+    mensaje?: string;
+}
+
+export type EstadoSync = 'sincronizado' | 'pendiente' | 'sincronizando' | 'sin-conexion' | 'conflicto';
@@ -0,0 +1,37 @@
+import { Gasto } from './gasto.model';
+import { Ingreso } from './ingreso.model';
+
+export type TipoPlantilla = 'gasto' | 'ingreso';
+
+// Campos del movimiento que se copian a la plantilla; cada id va con su nombre para mostrarlo sin cargar catálogos
+export const CAMPOS_PLANTILLA = [
+    'conceptoId',
+    'conceptoNombre',
+    'categoriaId',
+    'categoriaNombre',
+    'proveedorId',
+    'proveedorNombre',
+    'clienteId',
+    'clienteNombre',
+    'personaId',
+    'personaNombre',
+    'cuentaId',
+    'cuentaNombre',
+    'formaPagoId',
+    'formaPagoNombre'
+] as const;
+
+export type DatosPlantilla = Partial<Pick<Gasto & Ingreso, (typeof CAMPOS_PLANTILLA)[number]>>;
+
+/**
+ * Plantilla de gasto o ingreso para crear movimientos repetidos con un clic
+ * Sin importe, el movimiento se abre en el formulario para completarlo
+ */
+export interface PlantillaMovimiento extends DatosPlantilla {
+    id: string;
+    nombre: string;
+    tipo: TipoPlantilla;
+    importe: number | null;
+}
+
+export type PlantillaMovimientoCreate = Omit<PlantillaMovimiento, 'id'>;
@@ -0,0 +1,31 @@
+/**
+ * Límite de gasto mensual para una categoría
+ * Sin cuenta el límite se aplica al total de la categoría en todas las cuentas
+ */
+export interface Presupuesto {
+    id: string;
+    categoriaId: string;
+    categoriaNombre: string;
+    cuentaId: string | null;
+    cuentaNombre: string | null;
+    limiteMensual: number;
+    fechaCreacion?: Date | null;
+    usuarioId?: string;
+}
+
+export interface PresupuestoCreate {
+    categoriaId: string;
+    cuentaId: string | null;
+    limiteMensual: number;
+}
+
+export type EstadoPresupuesto = 'ok' | 'warning' | 'danger';
+
+// Situación de un presupuesto en el mes actual
+export interface ProgresoPresupuesto {
+    presupuesto: Presupuesto;
+    gastado: number;
+    restante: number;
+    porcentaje: number;
+    estado: EstadoPresupuesto;
+}
@@ -0,0 +1,59 @@
+import { CatalogRef } from './common.model';
+
+export type ModoCondicionTexto = 'contiene' | 'regex';
+
+export type AmbitoRegla = 'gasto' | 'ingreso' | 'ambos';
+
+// Todas las condiciones informadas deben cumplirse (AND)
+export interface ReglaCondiciones {
+    ambito: AmbitoRegla;
+    texto: string | null;
+    modoTexto: ModoCondicionTexto;
+    importeMin: number | null;
+    importeMax: number | null;
+    cuenta: CatalogRef | null;
+}
+
+// Campos que la regla rellena cuando se cumple (null = no se toca)
+export interface ReglaAcciones {
+    concepto: CatalogRef | null;
+    categoria: CatalogRef | null;
+    proveedor: CatalogRef | null;
+    cliente: CatalogRef | null;
+    persona: CatalogRef | null;
+    formaPago: CatalogRef | null;
+}
+
+export type CampoAccionRegla = keyof ReglaAcciones;
+
+export interface Regla {
+    id: string;
+    nombre: string;
+    activa: boolean;
+    condiciones: ReglaCondiciones;
+    acciones: ReglaAcciones;
+}
+
+// Datos mínimos de un movimiento para evaluar las reglas
+export interface MovimientoEvaluable {
+    tipo: 'gasto' | 'ingreso';
+    importe: number;
+    descripcion?: string | null;
+    conceptoNombre?: string | null;
+    cuentaId?: string | null;
+}
+
+export interface ResultadoReglas {
+    acciones: Partial<ReglaAcciones>;
+    // Regla que ha fijado cada campo (para informar al usuario)
+    origen: Partial<Record<CampoAccionRegla, Regla>>;
+}
+
+// Movimiento ya registrado usado en la vista previa "Probar regla"
+export interface MovimientoReciente extends MovimientoEvaluable {
+    id: string;
+    fecha: string;
+    cuentaNombre: string;
+    categoriaNombre: string;
+    terceroNombre: string;
+}
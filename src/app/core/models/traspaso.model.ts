@@ -4,16 +4,26 @@ export interface Traspaso {
     cuentaOrigenNombre: string;
     cuentaDestinoId: string;
     cuentaDestinoNombre: string;
+    // Importe en la moneda de la cuenta de origen
     importe: number;
+    monedaOrigen?: string;
+    monedaDestino?: string;
+    // Solo entre cuentas de distinta moneda: lo que llega a la cuenta de destino y la tasa aplicada
+    importeDestino?: number | null;
+    tipoCambio?: number | null;
     fecha: string;
     descripcion?: string;
     usuarioId: string;
+    // Conciliado con el extracto del banco: no se edita desde los listados
+    conciliado?: boolean;
 }
 
 export interface TraspasoCreate {
     cuentaOrigenId: string;
     cuentaDestinoId: string;
     importe: number;
+    importeDestino?: number | null;
+    tipoCambio?: number | null;
     fecha: string;
     descripcion?: string;
 }
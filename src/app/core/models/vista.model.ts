@@ -0,0 +1,20 @@
+import { FiltrosAvanzados } from './movimiento-filters.model';
+
+export type PaginaVista = 'gastos' | 'ingresos' | 'traspasos';
+
+/**
+ * Vista guardada de un listado de movimientos: filtros, búsqueda, orden y columnas visibles
+ */
+export interface VistaGuardada {
+    id: string;
+    nombre: string;
+    pagina: PaginaVista;
+    filtros: Partial<FiltrosAvanzados> | null;
+    search: string;
+    sortColumn: string;
+    sortOrder: 'asc' | 'desc';
+    // null = columnas por defecto de la tabla
+    columnas: string[] | null;
+}
+
+export type VistaGuardadaCreate = Omit<VistaGuardada, 'id'>;
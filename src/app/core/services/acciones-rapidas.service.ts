@@ -0,0 +1,35 @@
+import { EffectRef, Injectable, effect, inject, signal, untracked } from '@angular/core';
+import { AccionRapida } from '@/core/models/comando.model';
+
+/**
+ * Acciones pedidas desde la paleta de comandos para la página que las resuelve
+ * La acción queda pendiente hasta que la página correspondiente la recoge (aunque se cree después de pedirla)
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class AccionesRapidasService {
+    readonly pendiente = signal<AccionRapida | null>(null);
+
+    solicitar(accion: AccionRapida): void {
+        this.pendiente.set(accion);
+    }
+
+    completar(): void {
+        this.pendiente.set(null);
+    }
+}
+
+/**
+ * Ejecuta `ejecutar` cada vez que se pide `accion`; debe llamarse en el contexto de inyección de la página
+ */
+export function injectAccionRapida(accion: AccionRapida, ejecutar: () => void): EffectRef {
+    const service = inject(AccionesRapidasService);
+    return effect(() => {
+        if (service.pendiente() !== accion) return;
+        untracked(() => {
+            service.completar();
+            ejecutar();
+        });
+    });
+}
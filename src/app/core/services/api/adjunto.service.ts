@@ -0,0 +1,39 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { environment } from '../../../../environments/environment';
+import { Result } from '@/core/models/common.model';
+import { Adjunto, TipoMovimientoAdjunto } from '@/core/models/adjunto.model';
+
+@Injectable({
+    providedIn: 'root'
+})
+export class AdjuntoService {
+    private http = inject(HttpClient);
+    private apiUrl = environment.apiUrl;
+
+    /**
+     * Subir un adjunto a un gasto o ingreso (multipart, igual que el avatar)
+     */
+    upload(tipo: TipoMovimientoAdjunto, movimientoId: string, file: File): Observable<Adjunto> {
+        const formData = new FormData();
+        formData.append('file', file);
+
+        return this.http.post<Result<Adjunto>>(`${this.apiUrl}/${tipo}/${movimientoId}/adjuntos`, formData).pipe(map((res) => res.value));
+    }
+
+    /**
+     * Eliminar un adjunto de un movimiento
+     */
+    delete(tipo: TipoMovimientoAdjunto, movimientoId: string, adjuntoId: string): Observable<void> {
+        return this.http.delete<void>(`${this.apiUrl}/${tipo}/${movimientoId}/adjuntos/${adjuntoId}`).pipe(map(() => undefined));
+    }
+
+    /**
+     * Descargar el contenido como Blob: la URL del fichero requiere la cookie de sesión
+     */
+    getContenido(url: string): Observable<Blob> {
+        return this.http.get(url, { responseType: 'blob' });
+    }
+}
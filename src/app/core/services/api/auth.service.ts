@@ -134,7 +134,7 @@ export class AuthService {
         }
     }
 
-    updateProfile(data: { nombre: string; apellido?: string }): Observable<void> {
+    updateProfile(data: { nombre: string; apellido?: string; monedaBase?: string | null }): Observable<void> {
         return this.http.put<Result<void>>(`${this.apiUrl}/profile`, data).pipe(map(() => undefined));
     }
 
@@ -0,0 +1,32 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient, HttpContext } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { environment } from '../../../../environments/environment';
+import { Result } from '@/core/models/common.model';
+import { Conciliacion, ConciliacionCreate } from '@/core/models/conciliacion.model';
+import { SKIP_GLOBAL_ERROR } from '@/core/interceptors/error.interceptor';
+
+@Injectable({
+    providedIn: 'root'
+})
+export class ConciliacionService {
+    private http = inject(HttpClient);
+    private apiUrl = `${environment.apiUrl}/cuentas`;
+
+    /**
+     * Última conciliación de la cuenta; null si nunca se ha conciliado
+     */
+    getUltima(cuentaId: string): Observable<Conciliacion | null> {
+        const context = new HttpContext().set(SKIP_GLOBAL_ERROR, true);
+        return this.http.get<Result<Conciliacion | null>>(`${this.apiUrl}/${cuentaId}/conciliaciones/ultima`, { context }).pipe(map((response) => response.value ?? null));
+    }
+
+    /**
+     * Registrar una conciliación
+     * El backend marca como conciliados los movimientos indicados
+     */
+    create(cuentaId: string, conciliacion: ConciliacionCreate): Observable<Result<string>> {
+        return this.http.post<Result<string>>(`${this.apiUrl}/${cuentaId}/conciliaciones`, conciliacion);
+    }
+}
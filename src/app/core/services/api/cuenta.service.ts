@@ -61,11 +61,18 @@ export class CuentaService {
         return this.http.get<Result<Cuenta[]>>(`${this.apiUrl}/recent`, { params });
     }
 
+    /**
+     * Obtener una cuenta con su saldo actual
+     */
+    getById(id: string): Observable<Cuenta> {
+        return this.http.get<Result<Cuenta>>(`${this.apiUrl}/${id}`).pipe(map((response) => response.value));
+    }
+
     /**
      * Crear una nueva cuenta
      */
-    create(nombre: string, saldo: number): Observable<Result<string>> {
-        return this.http.post<Result<string>>(this.apiUrl, { nombre, saldo });
+    create(nombre: string, saldo: number, moneda?: string): Observable<Result<string>> {
+        return this.http.post<Result<string>>(this.apiUrl, { nombre, saldo, moneda });
     }
 
     /**
@@ -16,12 +16,15 @@ export class DashboardService {
         fechaFin?: string;
         cuentaId?: string;
         categoriaId?: string;
+        // El servidor convierte los agregados a esta moneda con los tipos de cambio del usuario
+        monedaBase?: string;
     }, bypassCache: boolean = false): Observable<DashboardResumen> {
         let httpParams = new HttpParams();
         if (params?.fechaInicio) httpParams = httpParams.set('fechaInicio', params.fechaInicio);
         if (params?.fechaFin) httpParams = httpParams.set('fechaFin', params.fechaFin);
         if (params?.cuentaId) httpParams = httpParams.set('cuentaId', params.cuentaId);
         if (params?.categoriaId) httpParams = httpParams.set('categoriaId', params.categoriaId);
+        if (params?.monedaBase) httpParams = httpParams.set('monedaBase', params.monedaBase);
         
         // Agregar timestamp para evitar caché cuando se solicita
         if (bypassCache) {
@@ -5,6 +5,8 @@ import { shareReplay, map } from 'rxjs/operators';
 import { environment } from '../../../../environments/environment';
 import { Gasto, ResumenGastos, GastoCreate } from '../../models';
 import { PaginatedList, Result } from '@/core/models/common.model';
+import { MovimientoFilters } from '@/core/models/movimiento-filters.model';
+import { filtrosToParams } from '@/shared/utils/movimiento-filters.util';
 
 @Injectable({
     providedIn: 'root'
@@ -19,7 +21,7 @@ export class GastoService {
     /**
      * Obtener todos los gastos con paginación, búsqueda y ordenamiento
      */
-    getGastos(page: number = 1, pageSize: number = 10, searchTerm?: string, sortColumn?: string, sortOrder?: string, timestamp?: number): Observable<PaginatedList<Gasto>> {
+    getGastos(page: number = 1, pageSize: number = 10, searchTerm?: string, sortColumn?: string, sortOrder?: string, timestamp?: number, filters?: MovimientoFilters): Observable<PaginatedList<Gasto>> {
         let params = new HttpParams().set('page', page.toString()).set('pageSize', pageSize.toString());
 
         if (searchTerm) {
@@ -34,6 +36,7 @@ export class GastoService {
         if (timestamp) {
             params = params.set('_t', timestamp.toString());
         }
+        params = filtrosToParams(params, filters);
 
         // API devuelve Result<PaginatedList<Gasto>>, extraer data
         return this.http.get<Result<PaginatedList<Gasto>>>(`${this.apiUrl}`, { params }).pipe(map((response) => response.value));
@@ -65,6 +68,17 @@ export class GastoService {
         );
     }
 
+    /**
+     * Obtener los gastos compartidos entre personas (los que tienen reparto)
+     */
+    getGastosCompartidos(fechaInicio?: string, fechaFin?: string): Observable<Gasto[]> {
+        let params = new HttpParams().set('pageSize', '1000');
+        if (fechaInicio) params = params.set('fechaInicio', fechaInicio);
+        if (fechaFin) params = params.set('fechaFin', fechaFin);
+
+        return this.http.get<Result<PaginatedList<Gasto>>>(`${this.apiUrl}/compartidos`, { params }).pipe(map((response) => response.value.items));
+    }
+
     /**
      * Obtener resumen de gastos con cache
      */
@@ -5,6 +5,8 @@ import { shareReplay, map } from 'rxjs/operators';
 import { environment } from '../../../../environments/environment';
 import { Ingreso, ResumenIngresos, IngresoCreate } from '../../models';
 import { PaginatedList, Result } from '@/core/models/common.model';
+import { MovimientoFilters } from '@/core/models/movimiento-filters.model';
+import { filtrosToParams } from '@/shared/utils/movimiento-filters.util';
 
 @Injectable({
     providedIn: 'root'
@@ -24,7 +26,8 @@ export class IngresoService {
         pageSize: number = 10,
         searchTerm?: string,
         sortColumn?: string,
-        sortOrder?: string
+        sortOrder?: string,
+        filters?: MovimientoFilters
     ): Observable<PaginatedList<Ingreso>> {
         let params = new HttpParams()
             .set('page', page.toString())
@@ -39,6 +42,7 @@ export class IngresoService {
         if (sortOrder) {
             params = params.set('sortOrder', sortOrder);
         }
+        params = filtrosToParams(params, filters);
         
         // API devuelve Result<PaginatedList<Ingreso>>, extraer data
         return this.http.get<Result<PaginatedList<Ingreso>>>(`${this.apiUrl}`, { params })
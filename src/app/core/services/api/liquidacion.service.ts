@@ -0,0 +1,37 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { environment } from '../../../../environments/environment';
+import { Result } from '@/core/models/common.model';
+import { Liquidacion, LiquidacionCreate } from '@/core/models/gasto-compartido.model';
+
+@Injectable({
+    providedIn: 'root'
+})
+export class LiquidacionService {
+    private http = inject(HttpClient);
+    private apiUrl = `${environment.apiUrl}/liquidaciones`;
+
+    /**
+     * Obtener las liquidaciones de gastos compartidos registradas
+     */
+    getLiquidaciones(): Observable<Liquidacion[]> {
+        return this.http.get<Result<Liquidacion[]>>(this.apiUrl).pipe(map((response) => response.value ?? []));
+    }
+
+    /**
+     * Registrar una liquidación ya pagada con un traspaso o un ingreso
+     * El backend devuelve 201 con Result<string> donde value es el UUID creado
+     */
+    create(liquidacion: LiquidacionCreate): Observable<Result<string>> {
+        return this.http.post<Result<string>>(this.apiUrl, liquidacion);
+    }
+
+    /**
+     * Eliminar una liquidación (el movimiento asociado no se toca)
+     */
+    delete(id: string): Observable<Result<void>> {
+        return this.http.delete<Result<void>>(`${this.apiUrl}/${id}`);
+    }
+}
@@ -0,0 +1,44 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { environment } from '../../../../environments/environment';
+import { Result } from '@/core/models/common.model';
+import { MetaAhorro, MetaAhorroCreate } from '@/core/models/meta-ahorro.model';
+
+@Injectable({
+    providedIn: 'root'
+})
+export class MetaAhorroService {
+    private http = inject(HttpClient);
+    private apiUrl = `${environment.apiUrl}/metas-ahorro`;
+
+    /**
+     * Obtener todas las metas de ahorro del usuario
+     */
+    getMetas(): Observable<MetaAhorro[]> {
+        return this.http.get<Result<MetaAhorro[]>>(this.apiUrl).pipe(map((response) => response.value ?? []));
+    }
+
+    /**
+     * Crear una nueva meta
+     * El backend devuelve 201 con Result<string> donde value es el UUID creado
+     */
+    create(meta: MetaAhorroCreate): Observable<Result<string>> {
+        return this.http.post<Result<string>>(this.apiUrl, meta);
+    }
+
+    /**
+     * Actualizar una meta existente
+     */
+    update(id: string, meta: Partial<MetaAhorroCreate>): Observable<Result<string>> {
+        return this.http.put<Result<string>>(`${this.apiUrl}/${id}`, meta);
+    }
+
+    /**
+     * Eliminar una meta
+     */
+    delete(id: string): Observable<Result<void>> {
+        return this.http.delete<Result<void>>(`${this.apiUrl}/${id}`);
+    }
+}
@@ -0,0 +1,37 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient, HttpContext } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { environment } from '../../../../environments/environment';
+import { Result } from '@/core/models/common.model';
+import { PlantillaMovimiento, PlantillaMovimientoCreate } from '@/core/models/plantilla.model';
+import { SKIP_GLOBAL_ERROR } from '@/core/interceptors/error.interceptor';
+
+@Injectable({
+    providedIn: 'root'
+})
+export class PlantillaService {
+    private http = inject(HttpClient);
+    private apiUrl = `${environment.apiUrl}/plantillas`;
+
+    /**
+     * Obtener las plantillas de movimientos del usuario
+     * Sin toast global: si el backend no tiene plantillas, el store pasa a guardarlas en el navegador
+     */
+    getPlantillas(): Observable<PlantillaMovimiento[]> {
+        const context = new HttpContext().set(SKIP_GLOBAL_ERROR, true);
+        return this.http.get<Result<PlantillaMovimiento[]>>(this.apiUrl, { context }).pipe(map((response) => response.value ?? []));
+    }
+
+    /**
+     * Crear una plantilla
+     * El backend devuelve 201 con Result<string> donde value es el UUID creado
+     */
+    create(plantilla: PlantillaMovimientoCreate): Observable<Result<string>> {
+        return this.http.post<Result<string>>(this.apiUrl, plantilla);
+    }
+
+    delete(id: string): Observable<Result<void>> {
+        return this.http.delete<Result<void>>(`${this.apiUrl}/${id}`);
+    }
+}
@@ -0,0 +1,44 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { environment } from '../../../../environments/environment';
+import { Result } from '@/core/models/common.model';
+import { Presupuesto, PresupuestoCreate } from '@/core/models/presupuesto.model';
+
+@Injectable({
+    providedIn: 'root'
+})
+export class PresupuestoService {
+    private http = inject(HttpClient);
+    private apiUrl = `${environment.apiUrl}/presupuestos`;
+
+    /**
+     * Obtener todos los presupuestos del usuario (son pocos, no se paginan)
+     */
+    getPresupuestos(): Observable<Presupuesto[]> {
+        return this.http.get<Result<Presupuesto[]>>(this.apiUrl).pipe(map((response) => response.value ?? []));
+    }
+
+    /**
+     * Crear un nuevo presupuesto
+     * El backend devuelve 201 con Result<string> donde value es el UUID creado
+     */
+    create(presupuesto: PresupuestoCreate): Observable<Result<string>> {
+        return this.http.post<Result<string>>(this.apiUrl, presupuesto);
+    }
+
+    /**
+     * Actualizar un presupuesto existente
+     */
+    update(id: string, presupuesto: Partial<PresupuestoCreate>): Observable<Result<string>> {
+        return this.http.put<Result<string>>(`${this.apiUrl}/${id}`, presupuesto);
+    }
+
+    /**
+     * Eliminar un presupuesto
+     */
+    delete(id: string): Observable<Result<void>> {
+        return this.http.delete<Result<void>>(`${this.apiUrl}/${id}`);
+    }
+}
@@ -0,0 +1,41 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient, HttpContext } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { environment } from '../../../../environments/environment';
+import { Result } from '@/core/models/common.model';
+import { TipoCambio, TipoCambioCreate } from '@/core/models/moneda.model';
+import { SKIP_GLOBAL_ERROR } from '@/core/interceptors/error.interceptor';
+
+@Injectable({
+    providedIn: 'root'
+})
+export class TipoCambioService {
+    private http = inject(HttpClient);
+    private apiUrl = `${environment.apiUrl}/tipos-cambio`;
+
+    /**
+     * Obtener la tabla de tipos de cambio del usuario
+     * Sin toast global: si el backend no la tiene, el store pasa a guardarla en el navegador
+     */
+    getTiposCambio(): Observable<TipoCambio[]> {
+        const context = new HttpContext().set(SKIP_GLOBAL_ERROR, true);
+        return this.http.get<Result<TipoCambio[]>>(this.apiUrl, { context }).pipe(map((response) => response.value ?? []));
+    }
+
+    /**
+     * Crear un tipo de cambio
+     * El backend devuelve 201 con Result<string> donde value es el UUID creado
+     */
+    create(tipoCambio: TipoCambioCreate): Observable<Result<string>> {
+        return this.http.post<Result<string>>(this.apiUrl, tipoCambio);
+    }
+
+    update(id: string, tipoCambio: Partial<TipoCambioCreate>): Observable<Result<string>> {
+        return this.http.put<Result<string>>(`${this.apiUrl}/${id}`, tipoCambio);
+    }
+
+    delete(id: string): Observable<Result<void>> {
+        return this.http.delete<Result<void>>(`${this.apiUrl}/${id}`);
+    }
+}
@@ -4,6 +4,8 @@ import { map, Observable } from 'rxjs';
 
 import { PaginatedList, Result } from '@/core/models/common.model';
 import { Traspaso, TraspasoCreate } from '@/core/models/traspaso.model';
+import { MovimientoFilters } from '@/core/models/movimiento-filters.model';
+import { filtrosToParams } from '@/shared/utils/movimiento-filters.util';
 import { environment } from 'src/environments/environment';
 
 @Injectable({ providedIn: 'root' })
@@ -16,7 +18,8 @@ export class TraspasoService {
         pageSize: number = 10,
         searchTerm?: string,
         sortColumn?: string,
-        sortOrder?: string
+        sortOrder?: string,
+        filters?: MovimientoFilters
     ): Observable<PaginatedList<Traspaso>> {
         let params = new HttpParams()
             .set('page', page.toString())
@@ -31,6 +34,7 @@ export class TraspasoService {
         if (sortOrder) {
             params = params.set('sortOrder', sortOrder);
         }
+        params = filtrosToParams(params, filters);
 
         return this.http.get<Result<PaginatedList<Traspaso>>>(this.apiUrl, { params })
                     .pipe(map(response => response.value));
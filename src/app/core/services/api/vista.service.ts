@@ -0,0 +1,41 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient, HttpContext } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { environment } from '../../../../environments/environment';
+import { Result } from '@/core/models/common.model';
+import { VistaGuardada, VistaGuardadaCreate } from '@/core/models/vista.model';
+import { SKIP_GLOBAL_ERROR } from '@/core/interceptors/error.interceptor';
+
+@Injectable({
+    providedIn: 'root'
+})
+export class VistaService {
+    private http = inject(HttpClient);
+    private apiUrl = `${environment.apiUrl}/vistas`;
+
+    /**
+     * Obtener las vistas guardadas del usuario
+     * Sin toast global: si el backend no tiene vistas, el store pasa a guardarlas en el navegador
+     */
+    getVistas(): Observable<VistaGuardada[]> {
+        const context = new HttpContext().set(SKIP_GLOBAL_ERROR, true);
+        return this.http.get<Result<VistaGuardada[]>>(this.apiUrl, { context }).pipe(map((response) => response.value ?? []));
+    }
+
+    /**
+     * Crear una vista
+     * El backend devuelve 201 con Result<string> donde value es el UUID creado
+     */
+    create(vista: VistaGuardadaCreate): Observable<Result<string>> {
+        return this.http.post<Result<string>>(this.apiUrl, vista);
+    }
+
+    update(id: string, vista: Partial<VistaGuardadaCreate>): Observable<Result<string>> {
+        return this.http.put<Result<string>>(`${this.apiUrl}/${id}`, vista);
+    }
+
+    delete(id: string): Observable<Result<void>> {
+        return this.http.delete<Result<void>>(`${this.apiUrl}/${id}`);
+    }
+}
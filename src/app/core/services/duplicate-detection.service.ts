@@ -0,0 +1,131 @@
+import { Injectable, inject } from '@angular/core';
+import { Gasto, Ingreso } from '@/core/models';
+import { Traspaso } from '@/core/models/traspaso.model';
+import { DuplicateDetectionOptions, MovimientoComparable, PosibleDuplicado } from '@/core/models/duplicado.model';
+import { GastoService } from '@/core/services/api/gasto.service';
+import { IngresoService } from '@/core/services/api/ingreso.service';
+import { TraspasoService } from '@/core/services/api/traspaso.service';
+import { ExportService } from '@/core/services/export.service';
+import { textSimilarity } from '@/shared/utils/text-similarity.util';
+
+export const DEFAULT_DUPLICATE_OPTIONS: DuplicateDetectionOptions = {
+    toleranciaDias: 3,
+    similitudMinima: 0.6
+};
+
+const MS_POR_DIA = 24 * 60 * 60 * 1000;
+
+type GastoCandidato = Pick<Gasto, 'cuentaId' | 'importe' | 'fecha'> & Partial<Pick<Gasto, 'id' | 'conceptoNombre' | 'descripcion'>>;
+type IngresoCandidato = Pick<Ingreso, 'cuentaId' | 'importe' | 'fecha'> & Partial<Pick<Ingreso, 'id' | 'conceptoNombre' | 'descripcion'>>;
+type TraspasoCandidato = Pick<Traspaso, 'cuentaOrigenId' | 'cuentaDestinoId' | 'importe' | 'fecha'> & Partial<Pick<Traspaso, 'id' | 'descripcion'>>;
+
+/**
+ * Detección de movimientos posiblemente duplicados antes de crearlos
+ * Mismo cuenta, mismo importe, fecha dentro de ±N días y concepto/descripción similar
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class DuplicateDetectionService {
+    private gastoService = inject(GastoService);
+    private ingresoService = inject(IngresoService);
+    private traspasoService = inject(TraspasoService);
+    private exportService = inject(ExportService);
+
+    async findGastoDuplicates(gasto: GastoCandidato, options: Partial<DuplicateDetectionOptions> = {}): Promise<PosibleDuplicado<Gasto>[]> {
+        const opts = { ...DEFAULT_DUPLICATE_OPTIONS, ...options };
+        const existentes = await this.loadGastos(...this.rango(gasto.fecha, gasto.fecha, opts.toleranciaDias));
+
+        return this.match(this.gastoComparable(gasto), existentes.filter((g) => g.id !== gasto.id), (g) => this.gastoComparable(g), opts);
+    }
+
+    async findIngresoDuplicates(ingreso: IngresoCandidato, options: Partial<DuplicateDetectionOptions> = {}): Promise<PosibleDuplicado<Ingreso>[]> {
+        const opts = { ...DEFAULT_DUPLICATE_OPTIONS, ...options };
+        const existentes = await this.loadIngresos(...this.rango(ingreso.fecha, ingreso.fecha, opts.toleranciaDias));
+
+        return this.match(this.ingresoComparable(ingreso), existentes.filter((i) => i.id !== ingreso.id), (i) => this.ingresoComparable(i), opts);
+    }
+
+    async findTraspasoDuplicates(traspaso: TraspasoCandidato, options: Partial<DuplicateDetectionOptions> = {}): Promise<PosibleDuplicado<Traspaso>[]> {
+        const opts = { ...DEFAULT_DUPLICATE_OPTIONS, ...options };
+        const existentes = await this.loadTraspasos(...this.rango(traspaso.fecha, traspaso.fecha, opts.toleranciaDias));
+
+        return this.match(this.traspasoComparable(traspaso), existentes.filter((t) => t.id !== traspaso.id), (t) => this.traspasoComparable(t), opts);
+    }
+
+    /**
+     * Carga de una vez los movimientos existentes en el rango cubierto por un lote (importación masiva)
+     */
+    async loadExistentes(fechas: string[], options: Partial<DuplicateDetectionOptions> = {}): Promise<{ gastos: Gasto[]; ingresos: Ingreso[] }> {
+        const opts = { ...DEFAULT_DUPLICATE_OPTIONS, ...options };
+        const ordenadas = fechas.filter(Boolean).sort();
+        if (ordenadas.length === 0) return { gastos: [], ingresos: [] };
+
+        const [desde, hasta] = this.rango(ordenadas[0], ordenadas[ordenadas.length - 1], opts.toleranciaDias);
+        const [gastos, ingresos] = await Promise.all([this.loadGastos(desde, hasta), this.loadIngresos(desde, hasta)]);
+
+        return { gastos, ingresos };
+    }
+
+    matchGasto(gasto: GastoCandidato, existentes: Gasto[], options: Partial<DuplicateDetectionOptions> = {}): PosibleDuplicado<Gasto>[] {
+        return this.match(this.gastoComparable(gasto), existentes, (g) => this.gastoComparable(g), { ...DEFAULT_DUPLICATE_OPTIONS, ...options });
+    }
+
+    matchIngreso(ingreso: IngresoCandidato, existentes: Ingreso[], options: Partial<DuplicateDetectionOptions> = {}): PosibleDuplicado<Ingreso>[] {
+        return this.match(this.ingresoComparable(ingreso), existentes, (i) => this.ingresoComparable(i), { ...DEFAULT_DUPLICATE_OPTIONS, ...options });
+    }
+
+    /**
+     * Comparación pura: devuelve los candidatos ordenados de más a menos probable
+     * Si el movimiento nuevo no tiene textos, basta con cuenta, importe y fecha
+     */
+    match<T>(nuevo: MovimientoComparable, existentes: T[], toComparable: (item: T) => MovimientoComparable, options: DuplicateDetectionOptions): PosibleDuplicado<T>[] {
+        const textosNuevo = nuevo.textos.filter((t): t is string => !!t?.trim());
+
+        return existentes
+            .map((movimiento) => {
+                const existente = toComparable(movimiento);
+                if (existente.cuentaKey !== nuevo.cuentaKey || Math.abs(existente.importe - nuevo.importe) >= 0.005) return null;
+
+                const diasDiferencia = Math.round((Date.parse(existente.fecha.slice(0, 10)) - Date.parse(nuevo.fecha.slice(0, 10))) / MS_POR_DIA);
+                if (!Number.isFinite(diasDiferencia) || Math.abs(diasDiferencia) > options.toleranciaDias) return null;
+
+                const similitud = textosNuevo.length === 0 ? 1 : Math.max(0, ...textosNuevo.flatMap((a) => existente.textos.map((b) => textSimilarity(a, b))));
+                if (similitud < options.similitudMinima) return null;
+
+                return { movimiento, diasDiferencia, similitud };
+            })
+            .filter((d): d is PosibleDuplicado<T> => d !== null)
+            .sort((a, b) => b.similitud - a.similitud || Math.abs(a.diasDiferencia) - Math.abs(b.diasDiferencia));
+    }
+
+    private gastoComparable(g: GastoCandidato): MovimientoComparable {
+        return { fecha: g.fecha, importe: g.importe, cuentaKey: g.cuentaId, textos: [g.conceptoNombre, g.descripcion] };
+    }
+
+    private ingresoComparable(i: IngresoCandidato): MovimientoComparable {
+        return { fecha: i.fecha, importe: i.importe, cuentaKey: i.cuentaId, textos: [i.conceptoNombre, i.descripcion] };
+    }
+
+    private traspasoComparable(t: TraspasoCandidato): MovimientoComparable {
+        return { fecha: t.fecha, importe: t.importe, cuentaKey: `${t.cuentaOrigenId}>${t.cuentaDestinoId}`, textos: [t.descripcion] };
+    }
+
+    private rango(desde: string, hasta: string, toleranciaDias: number): [string, string] {
+        const sumarDias = (fecha: string, dias: number) => new Date(Date.parse(fecha.slice(0, 10)) + dias * MS_POR_DIA).toISOString().split('T')[0];
+
+        return [sumarDias(desde, -toleranciaDias), sumarDias(hasta, toleranciaDias)];
+    }
+
+    private loadGastos(fechaInicio: string, fechaFin: string): Promise<Gasto[]> {
+        return this.exportService.fetchAll((page, pageSize) => this.gastoService.getGastos(page, pageSize, undefined, 'fecha', 'desc', undefined, { fechaInicio, fechaFin }));
+    }
+
+    private loadIngresos(fechaInicio: string, fechaFin: string): Promise<Ingreso[]> {
+        return this.exportService.fetchAll((page, pageSize) => this.ingresoService.getIngresos(page, pageSize, undefined, 'fecha', 'desc', { fechaInicio, fechaFin }));
+    }
+
+    private loadTraspasos(fechaInicio: string, fechaFin: string): Promise<Traspaso[]> {
+        return this.exportService.fetchAll((page, pageSize) => this.traspasoService.getTraspasos(page, pageSize, undefined, 'fecha', 'desc', { fechaInicio, fechaFin }));
+    }
+}
@@ -0,0 +1,90 @@
+import { Injectable } from '@angular/core';
+import { Observable, firstValueFrom } from 'rxjs';
+import { PaginatedList } from '@/core/models/common.model';
+import { ExportColumn, ExportOptions, OfxTransaction } from '@/core/models/export.model';
+import { buildCsv, buildOfx, buildXlsx } from '@/shared/utils/export';
+import { downloadBlob } from '@/shared/utils/download.util';
+
+// Tamaño de página usado al recorrer la API completa
+const EXPORT_PAGE_SIZE = 500;
+
+/**
+ * Servicio de exportación de listados completos
+ * Recorre todas las páginas de la API y genera CSV, XLSX u OFX
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class ExportService {
+    /**
+     * Obtener todas las filas recorriendo la paginación del backend
+     * fetchPage debe aplicar los mismos filtros/orden que la tabla activa
+     */
+    async fetchAll<T>(fetchPage: (page: number, pageSize: number) => Observable<PaginatedList<T>>, pageSize: number = EXPORT_PAGE_SIZE): Promise<T[]> {
+        const rows: T[] = [];
+        let page = 1;
+
+        while (true) {
+            const response = await firstValueFrom(fetchPage(page, pageSize));
+            const items = response?.items ?? [];
+            rows.push(...items);
+
+            const reachedTotal = response.totalCount > 0 && rows.length >= response.totalCount;
+            if (items.length === 0 || reachedTotal || (!response.hasNextPage && items.length < pageSize)) {
+                break;
+            }
+
+            page++;
+        }
+
+        return rows;
+    }
+
+    /**
+     * Genera y descarga el fichero en el formato solicitado
+     * toOfx es obligatorio para el formato OFX
+     */
+    exportRows<T>(rows: T[], columns: ExportColumn<T>[], fileName: string, options: ExportOptions, toOfx?: (row: T) => OfxTransaction): void {
+        const fecha = new Date().toISOString().split('T')[0];
+        const baseName = `${fileName}_${fecha}`;
+
+        switch (options.format) {
+            case 'csv': {
+                const csv = buildCsv(rows, columns, options.delimiter ?? ',');
+                downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8;' }), `${baseName}.csv`);
+                break;
+            }
+            case 'xlsx': {
+                const xlsx = buildXlsx(rows, columns, fileName);
+                downloadBlob(new Blob([xlsx], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }), `${baseName}.xlsx`);
+                break;
+            }
+            case 'ofx': {
+                if (!toOfx) {
+                    throw new Error('Este listado no admite exportación OFX');
+                }
+                const ofx = buildOfx(rows.map(toOfx));
+                downloadBlob(new Blob([ofx], { type: 'application/x-ofx' }), `${baseName}.ofx`);
+                break;
+            }
+        }
+    }
+
+    /**
+     * Atajo: recorre todas las páginas y descarga el fichero. Devuelve el número de filas exportadas
+     */
+    async exportAll<T>(
+        fetchPage: (page: number, pageSize: number) => Observable<PaginatedList<T>>,
+        columns: ExportColumn<T>[],
+        fileName: string,
+        options: ExportOptions,
+        toOfx?: (row: T) => OfxTransaction
+    ): Promise<number> {
+        const rows = await this.fetchAll(fetchPage);
+        if (rows.length > 0) {
+            this.exportRows(rows, columns, fileName, options, toOfx);
+        }
+
+        return rows.length;
+    }
+}
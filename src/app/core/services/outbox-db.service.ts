@@ -0,0 +1,61 @@
+import { Injectable } from '@angular/core';
+import { OperacionOutbox } from '../models/outbox.model';
+
+const DB_NAME = 'ahorroland';
+const DB_VERSION = 1;
+const STORE = 'outbox';
+
+/**
+ * Acceso mínimo a IndexedDB para la cola de operaciones sin conexión
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class OutboxDbService {
+    private db: Promise<IDBDatabase> | null = null;
+
+    async getAll(): Promise<OperacionOutbox[]> {
+        const operaciones = await this.request<OperacionOutbox[]>('readonly', (store) => store.getAll());
+        return operaciones.sort((a, b) => a.id! - b.id!);
+    }
+
+    async add(operacion: OperacionOutbox): Promise<number> {
+        return this.request<number>('readwrite', (store) => store.add(operacion) as IDBRequest<number>);
+    }
+
+    async put(operacion: OperacionOutbox): Promise<void> {
+        await this.request('readwrite', (store) => store.put(operacion));
+    }
+
+    async delete(id: number): Promise<void> {
+        await this.request('readwrite', (store) => store.delete(id));
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.db) {
+            this.db = new Promise((resolve, reject) => {
+                const request = indexedDB.open(DB_NAME, DB_VERSION);
+                request.onupgradeneeded = () => {
+                    if (!request.result.objectStoreNames.contains(STORE)) {
+                        request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+                    }
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => {
+                    this.db = null;
+                    reject(request.error);
+                };
+            });
+        }
+        return this.db;
+    }
+
+    private async request<T>(modo: IDBTransactionMode, accion: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+        const db = await this.open();
+        return new Promise<T>((resolve, reject) => {
+            const request = accion(db.transaction(STORE, modo).objectStore(STORE));
+            request.onsuccess = () => resolve(request.result as T);
+            request.onerror = () => reject(request.error);
+        });
+    }
+}
@@ -195,7 +195,7 @@ export const AuthStore = signalStore(
 
         // --- Acciones de Perfil ---
 
-        async updateProfile(data: { nombre: string; apellidos: string | null }): Promise<void> {
+        async updateProfile(data: { nombre: string; apellidos: string | null; monedaBase?: string | null }): Promise<void> {
             patchState(store, { loading: true, error: null });
             try {
                 await firstValueFrom(authService.updateProfile(data));
@@ -205,7 +205,8 @@ export const AuthStore = signalStore(
                     const updatedUser = {
                         ...currentUser,
                         nombre: data.nombre,
-                        apellidos: data.apellidos ?? null
+                        apellidos: data.apellidos ?? null,
+                        monedaBase: data.monedaBase === undefined ? currentUser.monedaBase : data.monedaBase
                     };
 
                     authService.setUser(updatedUser);
@@ -0,0 +1,152 @@
+import { computed, effect, inject, untracked } from '@angular/core';
+import { patchState, signalStore, withComputed, withHooks, withMethods, withState } from '@ngrx/signals';
+import { firstValueFrom } from 'rxjs';
+import { TipoCambioService } from '@/core/services/api/tipo-cambio.service';
+import { AuthStore } from '@/core/stores/auth.store';
+import { UndoStore, eliminarConDeshacer } from '@/core/stores/undo.store';
+import { CodigoMoneda, MONEDA_POR_DEFECTO, TipoCambio, TipoCambioCreate } from '@/core/models/moneda.model';
+import { buscarTasa, convertirImporte } from '@/shared/utils/monedas.util';
+
+// Copia local por usuario: respaldo si el backend no tiene tipos de cambio o no responde
+const STORAGE_PREFIX = 'ahorroland_tipos_cambio_';
+
+interface MonedaState {
+    tiposCambio: TipoCambio[];
+    // true cuando los tipos de cambio solo se guardan en este navegador
+    modoLocal: boolean;
+    loading: boolean;
+    error: string | null;
+}
+
+const initialState: MonedaState = {
+    tiposCambio: [],
+    modoLocal: false,
+    loading: false,
+    error: null
+};
+
+function loadTiposCambioLocales(clave: string): TipoCambio[] {
+    try {
+        if (typeof window !== 'undefined' && localStorage) {
+            const saved = localStorage.getItem(clave);
+            if (saved) {
+                const parsed = JSON.parse(saved);
+                return Array.isArray(parsed) ? parsed : [];
+            }
+        }
+    } catch (error) {
+        console.error('Error loading tipos de cambio from localStorage:', error);
+    }
+    return [];
+}
+
+function saveTiposCambioLocales(clave: string, tiposCambio: TipoCambio[]): void {
+    try {
+        if (typeof window !== 'undefined' && localStorage) {
+            localStorage.setItem(clave, JSON.stringify(tiposCambio));
+        }
+    } catch (error) {
+        console.error('Error saving tipos de cambio to localStorage:', error);
+    }
+}
+
+/**
+ * Signal Store de monedas: moneda base del perfil y tabla de tipos de cambio
+ * Los tipos se guardan en el servidor; si la API no está disponible se usa localStorage
+ */
+export const MonedaStore = signalStore(
+    { providedIn: 'root' },
+    withState(initialState),
+
+    withComputed((store, authStore = inject(AuthStore)) => ({
+        monedaBase: computed<CodigoMoneda>(() => authStore.user()?.monedaBase || MONEDA_POR_DEFECTO)
+    })),
+
+    withMethods((store, tipoCambioService = inject(TipoCambioService), authStore = inject(AuthStore), undoStore = inject(UndoStore)) => {
+        const storageKey = () => STORAGE_PREFIX + (authStore.user()?.id ?? 'anonimo');
+
+        const setTiposCambio = (tiposCambio: TipoCambio[]) => {
+            patchState(store, { tiposCambio, error: null });
+            saveTiposCambioLocales(storageKey(), tiposCambio);
+        };
+
+        return {
+            async loadTiposCambio(): Promise<void> {
+                patchState(store, { loading: true, error: null });
+                try {
+                    const tiposCambio = await firstValueFrom(tipoCambioService.getTiposCambio());
+                    patchState(store, { modoLocal: false, loading: false });
+                    setTiposCambio(tiposCambio);
+                } catch (error) {
+                    console.warn('[MONEDAS] API de tipos de cambio no disponible, se usan los guardados en el navegador:', error);
+                    patchState(store, { tiposCambio: loadTiposCambioLocales(storageKey()), modoLocal: true, loading: false });
+                }
+            },
+
+            /**
+             * Unidades de `a` por unidad de `de` (por defecto, la moneda base); null si no hay tipo de cambio
+             */
+            tasa(de: CodigoMoneda, a: CodigoMoneda = store.monedaBase()): number | null {
+                return buscarTasa(de, a, store.tiposCambio());
+            },
+
+            /**
+             * Importe en otra moneda (por defecto, la moneda base); null si no hay tipo de cambio
+             */
+            convertir(importe: number, de: CodigoMoneda | null | undefined, a: CodigoMoneda = store.monedaBase()): number | null {
+                return convertirImporte(importe, de || MONEDA_POR_DEFECTO, a, store.tiposCambio());
+            },
+
+            /**
+             * Crea el tipo de cambio del par o actualiza su tasa si ya existe
+             */
+            async guardarTipoCambio(datos: TipoCambioCreate): Promise<void> {
+                const anteriores = store.tiposCambio();
+                const existente = anteriores.find((t) => t.monedaOrigen === datos.monedaOrigen && t.monedaDestino === datos.monedaDestino);
+
+                try {
+                    if (existente) {
+                        setTiposCambio(anteriores.map((t) => (t.id === existente.id ? { ...t, ...datos } : t)));
+                        if (!store.modoLocal()) await firstValueFrom(tipoCambioService.update(existente.id, datos));
+                        return;
+                    }
+
+                    let id = `tipo_cambio_${Date.now()}`;
+                    if (!store.modoLocal()) {
+                        const response = await firstValueFrom(tipoCambioService.create(datos));
+                        if (!response.isSuccess || !response.value) throw new Error(response.error?.message || 'Error al guardar el tipo de cambio');
+                        id = response.value;
+                    }
+                    setTiposCambio([...store.tiposCambio(), { ...datos, id }]);
+                } catch (err: any) {
+                    setTiposCambio(anteriores);
+                    patchState(store, { error: err.userMessage || (err as Error).message });
+                    throw err;
+                }
+            },
+
+            deleteTipoCambio(tipoCambio: TipoCambio): void {
+                eliminarConDeshacer(undoStore, store, 'tiposCambio', tipoCambio.id, {
+                    mensaje: `Tipo de cambio ${tipoCambio.monedaOrigen}/${tipoCambio.monedaDestino} eliminado`,
+                    eliminar: () => (store.modoLocal() ? Promise.resolve() : tipoCambioService.delete(tipoCambio.id)),
+                    // La copia local se actualiza cuando el borrado es definitivo
+                    alEliminar: () => saveTiposCambioLocales(storageKey(), store.tiposCambio())
+                });
+            },
+
+            clearError() {
+                patchState(store, { error: null });
+            }
+        };
+    }),
+
+    withHooks({
+        onInit(store, authStore = inject(AuthStore)) {
+            // Los tipos de cambio son por usuario: recargar al iniciar o cambiar de sesión
+            effect(() => {
+                const userId = authStore.user()?.id;
+                untracked(() => (userId ? store.loadTiposCambio() : patchState(store, { tiposCambio: [], modoLocal: false })));
+            });
+        }
+    })
+);
@@ -0,0 +1,199 @@
+import { computed, inject } from '@angular/core';
+import { HttpClient, HttpContext, HttpContextToken, HttpErrorResponse } from '@angular/common/http';
+import { patchState, signalStore, withComputed, withHooks, withMethods, withState } from '@ngrx/signals';
+import { firstValueFrom } from 'rxjs';
+import { OutboxDbService } from '@/core/services/outbox-db.service';
+import { EntidadOutbox, EstadoSync, MetodoOutbox, OperacionOutbox } from '@/core/models/outbox.model';
+import { Result } from '@/core/models/common.model';
+import { PREFIJO_ID_OFFLINE, esIdOffline } from '@/shared/utils/outbox.util';
+import { SKIP_GLOBAL_ERROR } from '@/core/interceptors/error.interceptor';
+
+// Marca de los reenvíos para que el interceptor offline los deje pasar
+export const REENVIO_OUTBOX = new HttpContextToken<boolean>(() => false);
+
+// Reintento periódico por si el servidor estaba caído aunque el navegador tuviera red
+const INTERVALO_REINTENTO = 60 * 1000;
+
+interface ResumenSincronizacion {
+    enviadas: number;
+    conIncidencias: number;
+    fecha: number;
+}
+
+interface OutboxState {
+    operaciones: OperacionOutbox[];
+    online: boolean;
+    sincronizando: boolean;
+    // Ids temporales ya resueltos: id real tras sincronizar o null si se descartó
+    reemplazos: Record<string, string | null>;
+    ultimaSincronizacion: ResumenSincronizacion | null;
+}
+
+const initialState: OutboxState = {
+    operaciones: [],
+    online: typeof navigator === 'undefined' ? true : navigator.onLine,
+    sincronizando: false,
+    reemplazos: {},
+    ultimaSincronizacion: null
+};
+
+/**
+ * Cola de escrituras de gastos, ingresos y traspasos hechas sin conexión
+ * Se guarda en IndexedDB y se reenvía en orden cuando vuelve la conexión
+ */
+export const OutboxStore = signalStore(
+    { providedIn: 'root' },
+    withState(initialState),
+
+    withComputed((store) => ({
+        pendientes: computed(() => store.operaciones().filter((o) => o.estado === 'pendiente')),
+        incidencias: computed(() => store.operaciones().filter((o) => o.estado !== 'pendiente'))
+    })),
+
+    withComputed((store) => ({
+        estado: computed<EstadoSync>(() => {
+            if (store.sincronizando()) return 'sincronizando';
+            if (store.incidencias().length > 0) return 'conflicto';
+            if (!store.online()) return 'sin-conexion';
+            return store.pendientes().length > 0 ? 'pendiente' : 'sincronizado';
+        })
+    })),
+
+    withMethods((store, db = inject(OutboxDbService), http = inject(HttpClient)) => {
+        const guardar = async (operacion: OperacionOutbox) => {
+            await db.put(operacion);
+            patchState(store, { operaciones: store.operaciones().map((o) => (o.id === operacion.id ? operacion : o)) });
+        };
+
+        const quitar = async (ids: number[]) => {
+            for (const id of ids) await db.delete(id);
+            patchState(store, { operaciones: store.operaciones().filter((o) => !ids.includes(o.id!)) });
+        };
+
+        const mensajeError = (error: HttpErrorResponse): string => error.error?.error?.message || error.message || 'Error desconocido';
+
+        /**
+         * Reenvía las operaciones pendientes en orden
+         * Un fallo de red o del servidor detiene la cola; un rechazo del servidor deja la operación para revisión
+         */
+        const sincronizar = async (): Promise<void> => {
+            if (store.sincronizando() || !store.online() || store.pendientes().length === 0) return;
+
+            patchState(store, { sincronizando: true });
+            // Sin toast global: los fallos se quedan en la cola para revisarlos
+            const context = new HttpContext().set(REENVIO_OUTBOX, true).set(SKIP_GLOBAL_ERROR, true);
+            let enviadas = 0;
+            let conIncidencias = 0;
+
+            for (const operacion of store.pendientes()) {
+                try {
+                    const response = await firstValueFrom(http.request<Result<string>>(operacion.metodo, operacion.url, { body: operacion.body, context }));
+                    await quitar([operacion.id!]);
+                    if (operacion.metodo === 'POST' && response?.value) {
+                        patchState(store, { reemplazos: { ...store.reemplazos(), [operacion.registroId]: response.value } });
+                    }
+                    enviadas++;
+                } catch (err) {
+                    const error = err as HttpErrorResponse;
+
+                    if (error.status === 0 || error.status >= 500) {
+                        await guardar({ ...operacion, intentos: operacion.intentos + 1, mensaje: mensajeError(error) });
+                        break;
+                    }
+
+                    // Ya no existe en el servidor: el borrado está hecho
+                    if (error.status === 404 && operacion.metodo === 'DELETE') {
+                        await quitar([operacion.id!]);
+                        enviadas++;
+                        continue;
+                    }
+
+                    const conflicto = error.status === 409 || error.status === 404;
+                    await guardar({ ...operacion, intentos: operacion.intentos + 1, estado: conflicto ? 'conflicto' : 'error', mensaje: mensajeError(error) });
+                    conIncidencias++;
+                }
+            }
+
+            patchState(store, { sincronizando: false });
+            if (enviadas > 0 || conIncidencias > 0) {
+                patchState(store, { ultimaSincronizacion: { enviadas, conIncidencias, fecha: Date.now() } });
+            }
+        };
+
+        return {
+            sincronizar,
+
+            esPendiente(id: string): boolean {
+                return store.operaciones().some((o) => o.registroId === id);
+            },
+
+            /**
+             * Encola una escritura y devuelve el id con el que la app debe seguir trabajando
+             * Las operaciones sobre un movimiento que aún no se ha creado en el servidor se fusionan con su alta
+             */
+            async encolar(entidad: EntidadOutbox, metodo: MetodoOutbox, url: string, body: unknown): Promise<string> {
+                const registroId = metodo === 'POST' ? `${PREFIJO_ID_OFFLINE}${Date.now()}` : url.substring(url.lastIndexOf('/') + 1);
+
+                if (esIdOffline(registroId)) {
+                    const alta = store.operaciones().find((o) => o.registroId === registroId && o.metodo === 'POST');
+
+                    if (alta && metodo === 'DELETE') {
+                        await quitar([alta.id!]);
+                        patchState(store, { reemplazos: { ...store.reemplazos(), [registroId]: null } });
+                        return registroId;
+                    }
+                    if (alta && metodo === 'PUT') {
+                        await guardar({ ...alta, body: { ...(alta.body as object), ...(body as object) } });
+                        return registroId;
+                    }
+                }
+
+                const operacion: OperacionOutbox = { entidad, metodo, url, body, registroId, creadoEn: Date.now(), intentos: 0, estado: 'pendiente' };
+                const id = await db.add(operacion);
+                patchState(store, { operaciones: [...store.operaciones(), { ...operacion, id }] });
+                return registroId;
+            },
+
+            async reintentar(id: number): Promise<void> {
+                const operacion = store.operaciones().find((o) => o.id === id);
+                if (!operacion) return;
+
+                await guardar({ ...operacion, estado: 'pendiente', mensaje: undefined });
+                await sincronizar();
+            },
+
+            // Descarta una operación; si era un alta, el movimiento temporal desaparece de las listas
+            async descartar(id: number): Promise<void> {
+                const operacion = store.operaciones().find((o) => o.id === id);
+                if (!operacion) return;
+
+                await quitar([id]);
+                if (operacion.metodo === 'POST') {
+                    patchState(store, { reemplazos: { ...store.reemplazos(), [operacion.registroId]: null } });
+                }
+            },
+
+            _setOnline(online: boolean) {
+                patchState(store, { online });
+                if (online) sincronizar();
+            }
+        };
+    }),
+
+    withHooks({
+        onInit(store, db = inject(OutboxDbService)) {
+            if (typeof window === 'undefined') return;
+
+            db.getAll()
+                .then((operaciones) => {
+                    patchState(store, { operaciones });
+                    store.sincronizar();
+                })
+                .catch((error) => console.error('[OUTBOX] No se pudo abrir la cola offline:', error));
+
+            window.addEventListener('online', () => store._setOnline(true));
+            window.addEventListener('offline', () => store._setOnline(false));
+            setInterval(() => store.sincronizar(), INTERVALO_REINTENTO);
+        }
+    })
+);
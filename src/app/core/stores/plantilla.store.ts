@@ -0,0 +1,131 @@
+import { computed, effect, inject, untracked } from '@angular/core';
+import { patchState, signalStore, withComputed, withHooks, withMethods, withState } from '@ngrx/signals';
+import { firstValueFrom } from 'rxjs';
+import { PlantillaService } from '@/core/services/api/plantilla.service';
+import { AuthStore } from '@/core/stores/auth.store';
+import { UndoStore, eliminarConDeshacer } from '@/core/stores/undo.store';
+import { PlantillaMovimiento, PlantillaMovimientoCreate, TipoPlantilla } from '@/core/models/plantilla.model';
+
+// Copia local por usuario: respaldo si el backend no tiene plantillas o no responde
+const STORAGE_PREFIX = 'ahorroland_plantillas_';
+
+interface PlantillaState {
+    plantillas: PlantillaMovimiento[];
+    // true cuando las plantillas solo se guardan en este navegador
+    modoLocal: boolean;
+    loading: boolean;
+    error: string | null;
+}
+
+const initialState: PlantillaState = {
+    plantillas: [],
+    modoLocal: false,
+    loading: false,
+    error: null
+};
+
+function loadPlantillasLocales(clave: string): PlantillaMovimiento[] {
+    try {
+        if (typeof window !== 'undefined' && localStorage) {
+            const saved = localStorage.getItem(clave);
+            if (saved) {
+                const parsed = JSON.parse(saved);
+                return Array.isArray(parsed) ? parsed : [];
+            }
+        }
+    } catch (error) {
+        console.error('Error loading plantillas from localStorage:', error);
+    }
+    return [];
+}
+
+function savePlantillasLocales(clave: string, plantillas: PlantillaMovimiento[]): void {
+    try {
+        if (typeof window !== 'undefined' && localStorage) {
+            localStorage.setItem(clave, JSON.stringify(plantillas));
+        }
+    } catch (error) {
+        console.error('Error saving plantillas to localStorage:', error);
+    }
+}
+
+/**
+ * Signal Store de plantillas de gastos e ingresos
+ * Se guardan en el servidor; si la API de plantillas no está disponible se usa localStorage
+ */
+export const PlantillaStore = signalStore(
+    { providedIn: 'root' },
+    withState(initialState),
+
+    withComputed((store) => ({
+        plantillasPorTipo: computed(() => {
+            const porTipo: Record<TipoPlantilla, PlantillaMovimiento[]> = { gasto: [], ingreso: [] };
+            store.plantillas().forEach((p) => porTipo[p.tipo]?.push(p));
+            return porTipo;
+        })
+    })),
+
+    withMethods((store, plantillaService = inject(PlantillaService), authStore = inject(AuthStore), undoStore = inject(UndoStore)) => {
+        const storageKey = () => STORAGE_PREFIX + (authStore.user()?.id ?? 'anonimo');
+
+        const setPlantillas = (plantillas: PlantillaMovimiento[]) => {
+            patchState(store, { plantillas, error: null });
+            savePlantillasLocales(storageKey(), plantillas);
+        };
+
+        return {
+            async loadPlantillas(): Promise<void> {
+                patchState(store, { loading: true, error: null });
+                try {
+                    const plantillas = await firstValueFrom(plantillaService.getPlantillas());
+                    patchState(store, { modoLocal: false, loading: false });
+                    setPlantillas(plantillas);
+                } catch (error) {
+                    console.warn('[PLANTILLAS] API de plantillas no disponible, se usan las guardadas en el navegador:', error);
+                    patchState(store, { plantillas: loadPlantillasLocales(storageKey()), modoLocal: true, loading: false });
+                }
+            },
+
+            async createPlantilla(datos: PlantillaMovimientoCreate): Promise<PlantillaMovimiento> {
+                try {
+                    let id = `plantilla_${Date.now()}`;
+                    if (!store.modoLocal()) {
+                        const response = await firstValueFrom(plantillaService.create(datos));
+                        if (!response.isSuccess || !response.value) throw new Error(response.error?.message || 'Error al guardar la plantilla');
+                        id = response.value;
+                    }
+
+                    const plantilla: PlantillaMovimiento = { ...datos, id };
+                    setPlantillas([...store.plantillas(), plantilla]);
+                    return plantilla;
+                } catch (err: any) {
+                    patchState(store, { error: err.userMessage || (err as Error).message });
+                    throw err;
+                }
+            },
+
+            deletePlantilla(plantilla: PlantillaMovimiento): void {
+                eliminarConDeshacer(undoStore, store, 'plantillas', plantilla.id, {
+                    mensaje: `Plantilla "${plantilla.nombre}" eliminada`,
+                    eliminar: () => (store.modoLocal() ? Promise.resolve() : plantillaService.delete(plantilla.id)),
+                    // La copia local se actualiza cuando el borrado es definitivo
+                    alEliminar: () => savePlantillasLocales(storageKey(), store.plantillas())
+                });
+            },
+
+            clearError() {
+                patchState(store, { error: null });
+            }
+        };
+    }),
+
+    withHooks({
+        onInit(store, authStore = inject(AuthStore)) {
+            // Las plantillas son por usuario: recargar al iniciar o cambiar de sesión
+            effect(() => {
+                const userId = authStore.user()?.id;
+                untracked(() => (userId ? store.loadPlantillas() : patchState(store, { plantillas: [], modoLocal: false })));
+            });
+        }
+    })
+);
@@ -0,0 +1,263 @@
+import { patchState, signalStore, withHooks, withMethods, withState, getState, WritableStateSource } from '@ngrx/signals';
+import { firstValueFrom, Observable } from 'rxjs';
+import { PaginatedList } from '@/core/models/common.model';
+import { ProgresoMasivo, ResultadoMasivo } from '@/core/models/accion-masiva.model';
+import { ejecutarEnCola, restaurarFilas } from '@/shared/utils/acciones-masivas.util';
+
+// Tiempo durante el que se puede deshacer un cambio
+export const VENTANA_DESHACER = 8000;
+
+export interface AccionDeshacer {
+    id: string;
+    mensaje: string;
+    // Momento en el que se confirma el cambio (ms)
+    expira: number;
+}
+
+export interface OpcionesDeshacer {
+    mensaje: string;
+    // Petición diferida (borrados): se envía al terminar la ventana
+    confirmar?: () => Promise<unknown>;
+    // Ids de los registros que se borran: las recargas no los vuelven a mostrar mientras se pueda deshacer
+    borrados?: string[];
+    // Vuelve al estado anterior; si el cambio ya se envió, también lo revierte en el servidor
+    deshacer: () => void | Promise<unknown>;
+}
+
+interface UndoState {
+    acciones: AccionDeshacer[];
+    error: string | null;
+}
+
+const initialState: UndoState = {
+    acciones: [],
+    error: null
+};
+
+/**
+ * Cambios recientes que se pueden deshacer desde el aviso inferior
+ * Los borrados se aplican en la UI al momento y la petición se envía al terminar la ventana;
+ * las ediciones ya enviadas se deshacen reenviando la versión anterior
+ */
+export const UndoStore = signalStore(
+    { providedIn: 'root' },
+    withState(initialState),
+
+    withMethods((store) => {
+        // Las funciones y temporizadores no van en el estado (se congela en desarrollo)
+        const pendientes = new Map<string, { opciones: OpcionesDeshacer; temporizador: ReturnType<typeof setTimeout> }>();
+        // Mientras se cierra la pestaña las peticiones salen con keepalive (ver keepaliveInterceptor)
+        let cerrando = false;
+
+        const quitar = (id: string) => {
+            const pendiente = pendientes.get(id);
+            if (!pendiente) return null;
+
+            clearTimeout(pendiente.temporizador);
+            pendientes.delete(id);
+            patchState(store, { acciones: store.acciones().filter((a) => a.id !== id) });
+            return pendiente.opciones;
+        };
+
+        const confirmar = async (id: string): Promise<void> => {
+            const opciones = quitar(id);
+            if (!opciones?.confirmar) return;
+
+            try {
+                await opciones.confirmar();
+            } catch (error: any) {
+                // La petición diferida ha fallado: el cambio vuelve a la UI
+                await Promise.resolve(opciones.deshacer()).catch(() => undefined);
+                patchState(store, { error: error.userMessage || error.detail || `${opciones.mensaje}: no se ha podido guardar el cambio` });
+            }
+        };
+
+        return {
+            /**
+             * Registra un cambio ya aplicado en la UI; devuelve el id de la acción
+             */
+            programar(opciones: OpcionesDeshacer): string {
+                const id = crypto.randomUUID();
+                const temporizador = setTimeout(() => confirmar(id), VENTANA_DESHACER);
+                pendientes.set(id, { opciones, temporizador });
+                patchState(store, { acciones: [...store.acciones(), { id, mensaje: opciones.mensaje, expira: Date.now() + VENTANA_DESHACER }] });
+                return id;
+            },
+
+            async deshacer(id: string): Promise<void> {
+                const opciones = quitar(id);
+                if (!opciones) return;
+
+                try {
+                    await opciones.deshacer();
+                } catch (error: any) {
+                    patchState(store, { error: error.userMessage || 'No se ha podido deshacer el cambio' });
+                }
+            },
+
+            // Cierra la ventana sin esperar: envía ya la petición diferida
+            confirmar,
+
+            /**
+             * Envía los borrados pendientes al cerrar la pestaña
+             * Las peticiones se lanzan de forma síncrona, así que todas salen marcadas con keepalive y el navegador no las cancela
+             */
+            confirmarAlCerrar(): void {
+                cerrando = true;
+                try {
+                    [...pendientes.keys()].forEach((id) => confirmar(id));
+                } finally {
+                    cerrando = false;
+                }
+            },
+
+            cerrando(): boolean {
+                return cerrando;
+            },
+
+            sinBorradosPendientes<T extends { id: string }>(items: T[]): T[] {
+                const borrados = new Set([...pendientes.values()].flatMap((p) => p.opciones.borrados ?? []));
+                return borrados.size === 0 ? items : items.filter((item) => !borrados.has(item.id));
+            },
+
+            clearError() {
+                patchState(store, { error: null });
+            }
+        };
+    }),
+
+    withHooks({
+        onInit(store) {
+            // Al cerrar o recargar la pestaña los borrados pendientes se envían
+            if (typeof window !== 'undefined') {
+                window.addEventListener('beforeunload', () => store.confirmarAlCerrar());
+            }
+        }
+    })
+);
+
+type UndoStoreInstance = InstanceType<typeof UndoStore>;
+
+/**
+ * Página recibida del servidor sin las filas cuyo borrado todavía se puede deshacer
+ * Una recarga durante la ventana las volvería a traer
+ */
+export function paginaSinBorrados<T extends { id: string }>(undoStore: UndoStoreInstance, pagina: PaginatedList<T>): PaginatedList<T> {
+    const items = undoStore.sinBorradosPendientes(pagina.items);
+    return items.length === pagina.items.length ? pagina : { ...pagina, items, totalCount: pagina.totalCount - (pagina.items.length - items.length) };
+}
+
+// Claves del estado que son listas de elementos con id
+type ClaveLista<S> = { [P in keyof S]: S[P] extends { id: string }[] ? P : never }[keyof S] & string;
+type ElementoLista<S, K extends keyof S> = S[K] extends (infer T)[] ? T & { id: string } : never;
+
+function leerLista<S extends object, K extends ClaveLista<S>>(store: WritableStateSource<S>, clave: K): ElementoLista<S, K>[] {
+    return getState(store)[clave] as ElementoLista<S, K>[];
+}
+
+function escribirLista<S extends object, K extends ClaveLista<S>>(store: WritableStateSource<S>, clave: K, items: ElementoLista<S, K>[], deltaTotal = 0) {
+    const estado = getState(store) as S & { totalRecords?: number };
+    // Los listados paginados llevan además el total de registros
+    const total = typeof estado.totalRecords === 'number' && deltaTotal !== 0 ? { totalRecords: estado.totalRecords + deltaTotal } : {};
+    patchState(store, { [clave]: items, ...total } as Partial<S>);
+}
+
+/**
+ * Borrado con deshacer sobre la lista `clave` de un store
+ * La fila desaparece al momento y `eliminar` se llama al terminar la ventana; si se deshace o falla vuelve a su posición
+ */
+export function eliminarConDeshacer<S extends object, K extends ClaveLista<S>>(
+    undoStore: UndoStoreInstance,
+    store: WritableStateSource<S>,
+    clave: K,
+    id: string,
+    opciones: { mensaje: string; eliminar: () => Observable<unknown> | Promise<unknown>; alEliminar?: () => void }
+): void {
+    const anteriores = leerLista(store, clave);
+    if (!anteriores.some((item) => item.id === id)) return;
+
+    escribirLista(store, clave, anteriores.filter((item) => item.id !== id), -1);
+
+    undoStore.programar({
+        mensaje: opciones.mensaje,
+        borrados: [id],
+        confirmar: async () => {
+            const peticion = opciones.eliminar();
+            await (peticion instanceof Observable ? firstValueFrom(peticion) : peticion);
+            opciones.alEliminar?.();
+        },
+        deshacer: () => escribirLista(store, clave, restaurarFilas(leerLista(store, clave), anteriores, new Set([id])), 1)
+    });
+}
+
+/**
+ * Borrado en bloque con un solo aviso para deshacer
+ * Las filas desaparecen al momento y al terminar la ventana se borran en cola; las que fallan vuelven a la lista
+ * Se resuelve con el resultado de la cola (vacío si se deshace)
+ */
+export function eliminarVariosConDeshacer<S extends object, K extends ClaveLista<S>>(
+    undoStore: UndoStoreInstance,
+    store: WritableStateSource<S>,
+    clave: K,
+    ids: string[],
+    opciones: { mensaje: string; eliminar: (id: string) => Observable<unknown> | Promise<unknown>; onProgreso?: (progreso: ProgresoMasivo) => void; alEliminar?: (resultado: ResultadoMasivo) => void }
+): Promise<ResultadoMasivo> {
+    const anteriores = leerLista(store, clave);
+    const eliminados = new Set(ids.filter((id) => anteriores.some((item) => item.id === id)));
+    if (eliminados.size === 0) return Promise.resolve({ correctos: [], fallidos: [] });
+
+    escribirLista(store, clave, anteriores.filter((item) => !eliminados.has(item.id)), -eliminados.size);
+
+    return new Promise((resolve) => {
+        undoStore.programar({
+            mensaje: opciones.mensaje,
+            borrados: [...eliminados],
+            confirmar: async () => {
+                const eliminar = async (id: string) => {
+                    const peticion = opciones.eliminar(id);
+                    await (peticion instanceof Observable ? firstValueFrom(peticion) : peticion);
+                };
+                // Al cerrar la pestaña todas las peticiones tienen que salir a la vez para llevar keepalive
+                const resultado = await ejecutarEnCola([...eliminados], eliminar, opciones.onProgreso, undoStore.cerrando() ? eliminados.size : undefined);
+
+                const fallidos = new Set(resultado.fallidos.map((f) => f.id));
+                if (fallidos.size > 0) escribirLista(store, clave, restaurarFilas(leerLista(store, clave), anteriores, fallidos), fallidos.size);
+                opciones.alEliminar?.(resultado);
+                resolve(resultado);
+            },
+            deshacer: () => {
+                escribirLista(store, clave, restaurarFilas(leerLista(store, clave), anteriores, eliminados), eliminados.size);
+                resolve({ correctos: [], fallidos: [] });
+            }
+        });
+    });
+}
+
+/**
+ * Deshacer de una edición ya guardada: vuelve a poner `anterior` en la lista y lo reenvía con `revertir`
+ * Si el servidor rechaza la reversión, la fila se queda como estaba
+ */
+export function edicionConDeshacer<S extends object, K extends ClaveLista<S>>(
+    undoStore: UndoStoreInstance,
+    store: WritableStateSource<S>,
+    clave: K,
+    anterior: ElementoLista<S, K>,
+    opciones: { mensaje: string; revertir: (anterior: ElementoLista<S, K>) => Observable<unknown> | Promise<unknown> }
+): void {
+    const reemplazar = (item: ElementoLista<S, K>) => escribirLista(store, clave, leerLista(store, clave).map((i) => (i.id === item.id ? item : i)));
+
+    undoStore.programar({
+        mensaje: opciones.mensaje,
+        deshacer: async () => {
+            const actual = leerLista(store, clave).find((i) => i.id === anterior.id);
+            reemplazar(anterior);
+            try {
+                const peticion = opciones.revertir(anterior);
+                await (peticion instanceof Observable ? firstValueFrom(peticion) : peticion);
+            } catch (error) {
+                if (actual) reemplazar(actual);
+                throw error;
+            }
+        }
+    });
+}
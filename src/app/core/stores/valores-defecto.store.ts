@@ -0,0 +1,55 @@
+import { effect, inject, untracked } from '@angular/core';
+import { patchState, signalStore, withHooks, withMethods, withState } from '@ngrx/signals';
+import { firstValueFrom, Observable } from 'rxjs';
+import { CuentaService } from '@/core/services/api/cuenta.service';
+import { FormaPagoService } from '@/core/services/api/forma-pago.service';
+import { AuthStore } from '@/core/stores/auth.store';
+import { CatalogRef, Result } from '@/core/models/common.model';
+
+interface ValoresDefectoState {
+    cuenta: CatalogRef | null;
+    formaPago: CatalogRef | null;
+}
+
+const initialState: ValoresDefectoState = {
+    cuenta: null,
+    formaPago: null
+};
+
+// El más usado según el endpoint /recent; el backend puede devolver el array directo o paginado
+async function masUsado(peticion: Observable<Result<CatalogRef[]>>): Promise<CatalogRef | null> {
+    try {
+        const response = await firstValueFrom(peticion);
+        if (!response.isSuccess || !response.value) return null;
+        const items: CatalogRef[] = Array.isArray(response.value) ? response.value : (response.value as any).items || [];
+        return items.length > 0 ? { id: items[0].id, nombre: items[0].nombre } : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Valores con los que se abre un gasto nuevo: la cuenta y la forma de pago más usadas por el usuario
+ * Si no se pueden cargar, el formulario empieza vacío como siempre
+ */
+export const ValoresDefectoStore = signalStore(
+    { providedIn: 'root' },
+    withState(initialState),
+
+    withMethods((store, cuentaService = inject(CuentaService), formaPagoService = inject(FormaPagoService)) => ({
+        async loadValoresDefecto(): Promise<void> {
+            const [cuenta, formaPago] = await Promise.all([masUsado(cuentaService.getRecent(1)), masUsado(formaPagoService.getRecent(1))]);
+            patchState(store, { cuenta, formaPago });
+        }
+    })),
+
+    withHooks({
+        onInit(store, authStore = inject(AuthStore)) {
+            // Son por usuario: recargar al iniciar o cambiar de sesión
+            effect(() => {
+                const userId = authStore.user()?.id;
+                untracked(() => (userId ? store.loadValoresDefecto() : patchState(store, initialState)));
+            });
+        }
+    })
+);
@@ -0,0 +1,155 @@
+import { computed, effect, inject, untracked } from '@angular/core';
+import { patchState, signalStore, withComputed, withHooks, withMethods, withState } from '@ngrx/signals';
+import { firstValueFrom } from 'rxjs';
+import { VistaService } from '@/core/services/api/vista.service';
+import { AuthStore } from '@/core/stores/auth.store';
+import { PaginaVista, VistaGuardada, VistaGuardadaCreate } from '@/core/models/vista.model';
+
+// Copia local por usuario: respaldo si el backend no tiene vistas o no responde
+const STORAGE_PREFIX = 'ahorroland_vistas_';
+
+interface VistaState {
+    vistas: VistaGuardada[];
+    // true cuando las vistas solo se guardan en este navegador
+    modoLocal: boolean;
+    loading: boolean;
+    error: string | null;
+}
+
+const initialState: VistaState = {
+    vistas: [],
+    modoLocal: false,
+    loading: false,
+    error: null
+};
+
+function loadVistasLocales(clave: string): VistaGuardada[] {
+    try {
+        if (typeof window !== 'undefined' && localStorage) {
+            const saved = localStorage.getItem(clave);
+            if (saved) {
+                const parsed = JSON.parse(saved);
+                return Array.isArray(parsed) ? parsed : [];
+            }
+        }
+    } catch (error) {
+        console.error('Error loading vistas from localStorage:', error);
+    }
+    return [];
+}
+
+function saveVistasLocales(clave: string, vistas: VistaGuardada[]): void {
+    try {
+        if (typeof window !== 'undefined' && localStorage) {
+            localStorage.setItem(clave, JSON.stringify(vistas));
+        }
+    } catch (error) {
+        console.error('Error saving vistas to localStorage:', error);
+    }
+}
+
+/**
+ * Signal Store de vistas guardadas de los listados de movimientos
+ * Se guardan en el servidor; si la API de vistas no está disponible se usa localStorage
+ */
+export const VistaStore = signalStore(
+    { providedIn: 'root' },
+    withState(initialState),
+
+    withComputed((store) => ({
+        vistasPorPagina: computed(() => {
+            const porPagina: Record<PaginaVista, VistaGuardada[]> = { gastos: [], ingresos: [], traspasos: [] };
+            store.vistas().forEach((v) => porPagina[v.pagina]?.push(v));
+            return porPagina;
+        })
+    })),
+
+    withMethods((store, vistaService = inject(VistaService), authStore = inject(AuthStore)) => {
+        const storageKey = () => STORAGE_PREFIX + (authStore.user()?.id ?? 'anonimo');
+
+        const setVistas = (vistas: VistaGuardada[]) => {
+            patchState(store, { vistas, error: null });
+            saveVistasLocales(storageKey(), vistas);
+        };
+
+        return {
+            async loadVistas(): Promise<void> {
+                patchState(store, { loading: true, error: null });
+                try {
+                    const vistas = await firstValueFrom(vistaService.getVistas());
+                    patchState(store, { modoLocal: false, loading: false });
+                    setVistas(vistas);
+                } catch (error) {
+                    console.warn('[VISTAS] API de vistas no disponible, se usan las guardadas en el navegador:', error);
+                    patchState(store, { vistas: loadVistasLocales(storageKey()), modoLocal: true, loading: false });
+                }
+            },
+
+            getVista(id: string | null | undefined): VistaGuardada | null {
+                return store.vistas().find((v) => v.id === id) ?? null;
+            },
+
+            async createVista(datos: VistaGuardadaCreate): Promise<VistaGuardada> {
+                try {
+                    let id = `vista_${Date.now()}`;
+                    if (!store.modoLocal()) {
+                        const response = await firstValueFrom(vistaService.create(datos));
+                        if (!response.isSuccess || !response.value) throw new Error(response.error?.message || 'Error al guardar la vista');
+                        id = response.value;
+                    }
+
+                    const vista: VistaGuardada = { ...datos, id };
+                    setVistas([...store.vistas(), vista]);
+                    return vista;
+                } catch (err: any) {
+                    patchState(store, { error: err.userMessage || (err as Error).message });
+                    throw err;
+                }
+            },
+
+            async updateVista(id: string, cambios: Partial<VistaGuardadaCreate>): Promise<void> {
+                const anteriores = store.vistas();
+                setVistas(anteriores.map((v) => (v.id === id ? { ...v, ...cambios, id } : v)));
+
+                try {
+                    if (!store.modoLocal()) {
+                        await firstValueFrom(vistaService.update(id, cambios));
+                    }
+                } catch (err: any) {
+                    setVistas(anteriores);
+                    patchState(store, { error: err.userMessage || 'Error al actualizar la vista' });
+                    throw err;
+                }
+            },
+
+            async deleteVista(id: string): Promise<void> {
+                const anteriores = store.vistas();
+                setVistas(anteriores.filter((v) => v.id !== id));
+
+                try {
+                    if (!store.modoLocal()) {
+                        await firstValueFrom(vistaService.delete(id));
+                    }
+                } catch (err: any) {
+                    setVistas(anteriores);
+                    patchState(store, { error: err.userMessage || 'Error al eliminar la vista' });
+                    throw err;
+                }
+            },
+
+            clearError() {
+                patchState(store, { error: null });
+            }
+        };
+    }),
+
+    withHooks({
+        onInit(store, authStore = inject(AuthStore)) {
+            // Las vistas son por usuario: recargar al iniciar o cambiar de sesión
+            effect(() => {
+                const userId = authStore.user()?.id;
+                untracked(() => (userId ? store.loadVistas() : patchState(store, { vistas: [], modoLocal: false })));
+            });
+        }
+    })
+);
@@ -0,0 +1,102 @@
+import { Component, inject, ChangeDetectionStrategy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { MessageService } from 'primeng/api';
+import { ButtonModule } from 'primeng/button';
+import { InputNumberModule } from 'primeng/inputnumber';
+import { SelectModule } from 'primeng/select';
+import { TableModule } from 'primeng/table';
+import { TooltipModule } from 'primeng/tooltip';
+import { MonedaStore } from '@/core/stores/moneda.store';
+import { CodigoMoneda, MONEDAS, TipoCambio } from '@/core/models/moneda.model';
+
+/**
+ * Tabla de tipos de cambio mantenida a mano
+ * Guardar un par que ya existe actualiza su tasa
+ */
+@Component({
+    selector: 'app-tipos-cambio',
+    standalone: true,
+    imports: [CommonModule, FormsModule, ButtonModule, InputNumberModule, SelectModule, TableModule, TooltipModule],
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    template: `
+        <div class="flex flex-wrap items-end gap-3 mb-4">
+            <div class="flex flex-col gap-2">
+                <label for="monedaOrigen" class="font-medium text-900">1 unidad de</label>
+                <p-select inputId="monedaOrigen" [options]="monedas" [(ngModel)]="monedaOrigen" optionLabel="codigo" optionValue="codigo" styleClass="w-28" />
+            </div>
+            <div class="flex flex-col gap-2">
+                <label for="tasa" class="font-medium text-900">equivale a</label>
+                <p-inputNumber inputId="tasa" [(ngModel)]="tasa" [min]="0" [minFractionDigits]="2" [maxFractionDigits]="6" locale="es-ES" placeholder="0,00" inputStyleClass="w-32" />
+            </div>
+            <div class="flex flex-col gap-2">
+                <label for="monedaDestino" class="font-medium text-900">&nbsp;</label>
+                <p-select inputId="monedaDestino" [options]="monedas" [(ngModel)]="monedaDestino" optionLabel="codigo" optionValue="codigo" styleClass="w-28" />
+            </div>
+            <p-button label="Guardar" icon="pi pi-check" [disabled]="!tasa || monedaOrigen === monedaDestino" (onClick)="guardar()" />
+        </div>
+
+        <p-table [value]="monedaStore.tiposCambio()" [loading]="monedaStore.loading()" size="small" dataKey="id">
+            <ng-template #header>
+                <tr>
+                    <th>Cambio</th>
+                    <th class="text-right">Tasa</th>
+                    <th>Actualizado</th>
+                    <th style="width: 7rem"></th>
+                </tr>
+            </ng-template>
+            <ng-template #body let-tipo>
+                <tr>
+                    <td class="font-medium">1 {{ tipo.monedaOrigen }} = {{ tipo.monedaDestino }}</td>
+                    <td class="text-right">{{ tipo.tasa | number: '1.2-6' : 'es-ES' }}</td>
+                    <td>{{ tipo.fecha | date: 'dd/MM/yyyy' }}</td>
+                    <td>
+                        <p-button icon="pi pi-pencil" [text]="true" [rounded]="true" pTooltip="Actualizar tasa" (onClick)="editar(tipo)" />
+                        <p-button icon="pi pi-trash" severity="danger" [text]="true" [rounded]="true" (onClick)="monedaStore.deleteTipoCambio(tipo)" />
+                    </td>
+                </tr>
+            </ng-template>
+            <ng-template #emptymessage>
+                <tr>
+                    <td colspan="4" class="text-center text-500 py-4">Sin tipos de cambio: los importes en otras monedas no se pueden convertir a {{ monedaStore.monedaBase() }}</td>
+                </tr>
+            </ng-template>
+        </p-table>
+
+        @if (monedaStore.modoLocal()) {
+            <small class="text-500 block mt-2">Los tipos de cambio se guardarán solo en este navegador</small>
+        }
+    `
+})
+export class TiposCambioComponent {
+    monedaStore = inject(MonedaStore);
+    private messageService = inject(MessageService, { optional: true });
+
+    monedas = MONEDAS;
+    monedaOrigen: CodigoMoneda = 'USD';
+    monedaDestino: CodigoMoneda = this.monedaStore.monedaBase();
+    tasa: number | null = null;
+
+    editar(tipo: TipoCambio) {
+        this.monedaOrigen = tipo.monedaOrigen;
+        this.monedaDestino = tipo.monedaDestino;
+        this.tasa = tipo.tasa;
+    }
+
+    async guardar() {
+        if (!this.tasa || this.monedaOrigen === this.monedaDestino) return;
+
+        try {
+            await this.monedaStore.guardarTipoCambio({
+                monedaOrigen: this.monedaOrigen,
+                monedaDestino: this.monedaDestino,
+                tasa: this.tasa,
+                fecha: new Date().toISOString().split('T')[0]
+            });
+            this.tasa = null;
+            this.messageService?.add({ severity: 'success', summary: 'Éxito', detail: 'Tipo de cambio guardado' });
+        } catch (error: any) {
+            this.messageService?.add({ severity: 'error', summary: 'Error', detail: error.userMessage || 'No se pudo guardar el tipo de cambio' });
+        }
+    }
+}
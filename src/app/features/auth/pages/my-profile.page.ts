@@ -10,15 +10,18 @@ import { FileUploadHandlerEvent, FileUploadModule, FileUpload } from 'primeng/fi
 import { DividerModule } from 'primeng/divider';
 import { InputIconModule } from 'primeng/inputicon';
 import { IconFieldModule } from 'primeng/iconfield';
+import { SelectModule } from 'primeng/select';
 
 // Tu Arquitectura
 import { AuthStore } from '@/core/stores/auth.store';
 import { BasePageComponent, BasePageTemplateComponent } from '@/shared/components';
+import { MONEDA_POR_DEFECTO, MONEDAS } from '@/core/models/moneda.model';
+import { TiposCambioComponent } from '../components/tipos-cambio.component';
 
 @Component({
     selector: 'app-my-profile',
     standalone: true,
-    imports: [CommonModule, ReactiveFormsModule, CardModule, InputTextModule, ButtonModule, AvatarModule, FileUploadModule, DividerModule, InputIconModule, IconFieldModule, BasePageTemplateComponent],
+    imports: [CommonModule, ReactiveFormsModule, CardModule, InputTextModule, ButtonModule, AvatarModule, FileUploadModule, DividerModule, InputIconModule, IconFieldModule, SelectModule, BasePageTemplateComponent, TiposCambioComponent],
     styles: [
         `
             /* ESTILOS DEL AVATAR DE PERFIL (GRANDE) */
@@ -120,12 +123,26 @@ import { BasePageComponent, BasePageTemplateComponent } from '@/shared/component
                             </p-iconField>
                         </div>
 
+                        <div class="field mb-4">
+                            <label for="monedaBase" class="font-medium text-900 mb-2 block">Moneda base</label>
+                            <p-select inputId="monedaBase" formControlName="monedaBase" [options]="monedas" optionValue="codigo" styleClass="w-full">
+                                <ng-template #selectedItem let-moneda>{{ moneda.codigo }} · {{ moneda.nombre }}</ng-template>
+                                <ng-template #item let-moneda>{{ moneda.codigo }} · {{ moneda.nombre }}</ng-template>
+                            </p-select>
+                            <small class="text-500 mt-1 block">Los totales del dashboard se convierten a esta moneda con tus tipos de cambio.</small>
+                        </div>
+
                         <div class="flex justify-content-end gap-3 mt-4 pt-3 border-top-1 surface-border">
                             <p-button label="Deshacer" icon="pi pi-refresh" severity="secondary" [outlined]="true" (onClick)="loadUserData()"></p-button>
                             <p-button label="Guardar" icon="pi pi-check" type="submit" [loading]="saving()" [disabled]="form.invalid || form.pristine"></p-button>
                         </div>
                     </form>
                 </div>
+
+                <div class="card surface-card shadow-2 border-round p-6 md:col-span-2">
+                    <h3 class="text-900 font-semibold text-xl mb-4">Tipos de cambio</h3>
+                    <app-tipos-cambio />
+                </div>
             </div>
         </app-base-page-template>
     `
@@ -165,9 +182,12 @@ export class MyProfilePage extends BasePageComponent implements OnInit {
     form = this.fb.group({
         correo: ['', [Validators.required, Validators.email]],
         nombre: ['', [Validators.required, Validators.minLength(2)]],
-        apellidos: ['']
+        apellidos: [''],
+        monedaBase: [MONEDA_POR_DEFECTO]
     });
 
+    monedas = MONEDAS;
+
     ngOnInit() {
         this.loadUserData();
         setTimeout(() => this.isLoadingInitial.set(false), 100);
@@ -184,7 +204,8 @@ export class MyProfilePage extends BasePageComponent implements OnInit {
             this.form.patchValue({
                 correo: user.correo,
                 nombre: user.nombre,
-                apellidos: user.apellidos || ''
+                apellidos: user.apellidos || '',
+                monedaBase: user.monedaBase || MONEDA_POR_DEFECTO
             });
             this.form.get('correo')?.disable();
 
@@ -197,10 +218,10 @@ export class MyProfilePage extends BasePageComponent implements OnInit {
         if (this.form.invalid) return;
 
         this.saving.set(true);
-        const { nombre, apellidos } = this.form.getRawValue();
+        const { nombre, apellidos, monedaBase } = this.form.getRawValue();
 
         try {
-            await this.authStore.updateProfile({ nombre: nombre!, apellidos: apellidos || null });
+            await this.authStore.updateProfile({ nombre: nombre!, apellidos: apellidos || null, monedaBase: monedaBase || MONEDA_POR_DEFECTO });
 
             const currentUser = this.authStore.user();
             if (currentUser) {
@@ -1,8 +1,8 @@
-import { Component, inject, ChangeDetectionStrategy, ViewChild, signal, effect, computed } from '@angular/core';
+import { Component, inject, ChangeDetectionStrategy, ViewChild, signal, effect, computed, untracked } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { ButtonModule } from 'primeng/button';
-import { TableModule, Table } from 'primeng/table';
+import { TableModule, Table, TableLazyLoadEvent } from 'primeng/table';
 import { InputTextModule } from 'primeng/inputtext';
 import { MessageService, ConfirmationService } from 'primeng/api';
 import { ToastModule } from 'primeng/toast';
@@ -15,12 +15,16 @@ import { Subject, debounceTime, distinctUntilChanged } from 'rxjs';
 import { CategoriaStore } from '@/features/categorias/store/categoria.store';
 import { Categoria } from '@/core/models/categoria.model';
 import { CategoriaFormModalComponent } from '../components/categoria-form-modal.component';
-import { BasePageComponent, BasePageTemplateComponent } from '@/shared/components';
+import { BasePageComponent, BasePageTemplateComponent, ColumnChooserComponent, ColumnaTabla, injectTableColumns, injectTableUrlState } from '@/shared/components';
+
+const COLUMNAS_CATEGORIAS: ColumnaTabla[] = [
+    { campo: 'nombre', cabecera: 'Nombre', ancho: 20 }
+];
 
 @Component({
     selector: 'app-categorias-list',
     standalone: true,
-    imports: [CommonModule, FormsModule, ButtonModule, TableModule, InputTextModule, ToastModule, ConfirmDialogModule, SkeletonModule, ToolbarModule, InputIconModule, IconFieldModule, CategoriaFormModalComponent, BasePageTemplateComponent],
+    imports: [CommonModule, FormsModule, ButtonModule, TableModule, InputTextModule, ToastModule, ConfirmDialogModule, SkeletonModule, ToolbarModule, InputIconModule, IconFieldModule, CategoriaFormModalComponent, BasePageTemplateComponent, ColumnChooserComponent],
     providers: [MessageService, ConfirmationService],
     changeDetection: ChangeDetectionStrategy.OnPush,
     styles: [`
@@ -54,6 +58,7 @@ import { BasePageComponent, BasePageTemplateComponent } from '@/shared/component
 
                         <ng-template #end>
                             <p-button icon="pi pi-refresh" severity="secondary" outlined (onClick)="refreshTable()" pTooltip="Actualizar" />
+                            <app-column-chooser [estado]="columnas" class="ml-2" />
                         </ng-template>
                     </p-toolbar>
 
@@ -64,12 +69,22 @@ import { BasePageComponent, BasePageTemplateComponent } from '@/shared/component
                         [lazy]="true"
                         (onLazyLoad)="onLazyLoad($event)"
                         [paginator]="true"
-                        [rows]="pageSize()"
+                        [rows]="tableState.state().pageSize"
+                        [first]="tableState.first()"
+                        [sortField]="tableState.state().sortColumn"
+                        [sortOrder]="tableState.sortOrderNumber()"
                         [totalRecords]="categoriaStore.totalRecords()"
                         [showCurrentPageReport]="true"
                         currentPageReportTemplate="Mostrando {first} a {last} de {totalRecords} categorías"
                         [rowsPerPageOptions]="[10, 25, 50]"
-                        [tableStyle]="{ 'min-width': '50rem' }"
+                        [columns]="columnas.visibles()"
+                        [tableStyle]="columnas.tableStyle()"
+                        [size]="columnas.size()"
+                        [reorderableColumns]="true"
+                        [resizableColumns]="true"
+                        columnResizeMode="expand"
+                        (onColReorder)="columnas.onColReorder($event)"
+                        (onColResize)="columnas.onColResize($event)"
                         styleClass="p-datatable-gridlines"
                         [rowHover]="true"
                         dataKey="id"
@@ -79,29 +94,39 @@ import { BasePageComponent, BasePageTemplateComponent } from '@/shared/component
                                 <h5 class="m-0 font-semibold text-xl">Gestión de Categorías</h5>
                                 <p-iconfield class="w-full md:w-auto">
                                     <p-inputicon styleClass="pi pi-search" />
-                                    <input pInputText type="text" [ngModel]="searchTerm()" (input)="onSearchChange($event)" placeholder="Buscar categorías..." class="w-full" />
+                                    <input pInputText type="text" [value]="tableState.state().search" (input)="onSearchChange($event)" placeholder="Buscar categorías..." class="w-full" />
                                 </p-iconfield>
                             </div>
                         </ng-template>
 
-                        <ng-template #header>
+                        <ng-template #header let-columns>
                             <tr>
-                                <th pSortableColumn="nombre" style="min-width:20rem; padding: 1rem">
-                                    Nombre
-                                    <p-sortIcon field="nombre" />
-                                </th>
+                                @for (columna of columns; track columna.campo) {
+                                    <th [pSortableColumn]="columna.campo" [pSortableColumnDisabled]="columna.ordenable === false" pReorderableColumn pResizableColumn [attr.data-campo]="columna.campo" [ngStyle]="columnas.estilo(columna)">
+                                        {{ columna.cabecera }}
+                                        @if (columna.ordenable !== false) {
+                                            <p-sortIcon [field]="columna.campo" />
+                                        }
+                                    </th>
+                                }
                                 <th style="min-width:10rem">Acciones</th>
                             </tr>
                         </ng-template>
 
-                        <ng-template #body let-categoria>
+                        <ng-template #body let-categoria let-columns="columns">
                             <tr>
-                                <td style="padding: 1rem">
-                                    <div class="flex items-center gap-2">
-                                        <i class="pi pi-tag text-primary"></i>
-                                        <span class="font-semibold">{{ categoria.nombre }}</span>
-                                    </div>
-                                </td>
+                                @for (columna of columns; track columna.campo) {
+                                    <td>
+                                        @switch (columna.campo) {
+                                            @case ('nombre') {
+                                                <div class="flex items-center gap-2">
+                                                    <i class="pi pi-tag text-primary"></i>
+                                                    <span class="font-semibold">{{ categoria.nombre }}</span>
+                                                </div>
+                                            }
+                                        }
+                                    </td>
+                                }
                                 <td>
                                     <p-button icon="pi pi-pencil" class="mr-2" [rounded]="true" [outlined]="true" (click)="editCategoria(categoria)" />
                                     <p-button icon="pi pi-trash" severity="danger" [rounded]="true" [outlined]="true" (click)="deleteCategoria(categoria)" />
@@ -109,9 +134,11 @@ import { BasePageComponent, BasePageTemplateComponent } from '@/shared/component
                             </tr>
                         </ng-template>
 
-                        <ng-template #loadingbody>
+                        <ng-template #loadingbody let-columns="columns">
                             <tr>
-                                <td style="padding: 1rem"><p-skeleton width="80%" /></td>
+                                @for (columna of columns; track columna.campo) {
+                                    <td><p-skeleton width="70%" /></td>
+                                }
                                 <td>
                                     <div class="flex gap-2">
                                         <p-skeleton shape="circle" size="2.5rem" />
@@ -123,7 +150,7 @@ import { BasePageComponent, BasePageTemplateComponent } from '@/shared/component
 
                         <ng-template #emptymessage>
                             <tr>
-                                <td colspan="8" style="padding: 2rem">
+                                <td [attr.colspan]="columnas.visibles().length + 1" style="padding: 2rem">
                                     <div class="text-center py-8">
                                         <i class="pi pi-inbox text-500 text-5xl mb-3"></i>
                                         <p class="text-900 font-semibold text-xl mb-2">No hay categorías</p>
@@ -153,12 +180,11 @@ export class CategoriasListPage extends BasePageComponent {
     currentCategoria = signal<Partial<Categoria>>({});
     private searchSubject = new Subject<string>();
 
-    // Signals para paginación y filtros
-    pageSize = signal(10);
-    pageNumber = signal(1);
-    searchTerm = signal('');
-    sortColumn = signal('nombre');
-    sortOrder = signal('asc');
+    // Paginación, orden y búsqueda sincronizados con la URL
+    tableState = injectTableUrlState('categorias', { sortColumn: 'nombre', sortOrder: 'asc' });
+
+    // Columnas visibles, orden, anchos y densidad de la tabla
+    columnas = injectTableColumns('categorias', COLUMNAS_CATEGORIAS, { anchoFijo: 10 });
 
     // Computed signal para saber si hay cambios pendientes
     hasChanges = computed(() => {
@@ -171,9 +197,13 @@ export class CategoriasListPage extends BasePageComponent {
 
         // Configurar búsqueda con debounce
         this.searchSubject.pipe(debounceTime(500), distinctUntilChanged()).subscribe((searchValue) => {
-            this.searchTerm.set(searchValue);
-            this.pageNumber.set(1);
-            this.reloadCategorias();
+            this.tableState.setSearch(searchValue);
+        });
+
+        // Recargar cada vez que cambia el estado de la tabla en la URL (incluye atrás/adelante)
+        effect(() => {
+            this.tableState.state();
+            untracked(() => this.reloadCategorias());
         });
 
         // Effect para sincronización automática cuando cambian los datos
@@ -185,16 +215,8 @@ export class CategoriasListPage extends BasePageComponent {
         });
     }
 
-    onLazyLoad(event: any) {
-        this.pageNumber.set(event.first / event.rows + 1);
-        this.pageSize.set(event.rows);
-
-        if (event.sortField) {
-            this.sortColumn.set(event.sortField);
-            this.sortOrder.set(event.sortOrder === 1 ? 'asc' : 'desc');
-        }
-
-        this.reloadCategorias();
+    onLazyLoad(event: TableLazyLoadEvent) {
+        this.tableState.onLazyLoad(event);
     }
 
     onSearchChange(event: Event) {
@@ -203,12 +225,13 @@ export class CategoriasListPage extends BasePageComponent {
     }
 
     private reloadCategorias() {
+        const { page, pageSize, search, sortColumn, sortOrder } = this.tableState.state();
         this.categoriaStore.loadCategoriasPaginated({
-            page: this.pageNumber(),
-            pageSize: this.pageSize(),
-            searchTerm: this.searchTerm() || undefined,
-            sortColumn: this.sortColumn() || undefined,
-            sortOrder: this.sortOrder() || undefined
+            page,
+            pageSize,
+            searchTerm: search || undefined,
+            sortColumn,
+            sortOrder
         });
     }
 
@@ -217,8 +240,6 @@ export class CategoriasListPage extends BasePageComponent {
     }
 
     refreshTable() {
-        this.pageNumber.set(1);
-        this.searchTerm.set('');
         this.reloadCategorias();
         this.showInfo('Datos actualizados', 'Actualización');
     }
@@ -263,17 +284,6 @@ export class CategoriasListPage extends BasePageComponent {
     }
 
     deleteCategoria(categoria: Categoria) {
-        this.confirmAction(
-            `¿Estás seguro de eliminar la categoría "${categoria.nombre}"?`,
-            () => {
-                this.categoriaStore.deleteCategoria(categoria.id);
-            },
-            {
-                header: 'Confirmar eliminación',
-                acceptLabel: 'Sí, eliminar',
-                rejectLabel: 'Cancelar',
-                successMessage: 'Categoría eliminada correctamente'
-            }
-        );
+        this.categoriaStore.deleteCategoria(categoria.id);
     }
 }
@@ -3,9 +3,9 @@ import { signalStore, withState, withMethods, patchState, withComputed } from '@
 import { firstValueFrom, pipe, switchMap, tap } from 'rxjs';
 import { CategoriaService } from '@/core/services/api/categoria.service';
 import { Categoria } from '@/core/models/categoria.model';
+import { UndoStore, edicionConDeshacer, eliminarConDeshacer, paginaSinBorrados } from '@/core/stores/undo.store';
 import { rxMethod } from '@ngrx/signals/rxjs-interop';
 import { tapResponse } from '@ngrx/operators';
-import { ErrorResponse } from '@/core/models/error-response.model';
 
 interface CategoriaState {
     categorias: Categoria[];
@@ -54,7 +54,7 @@ export const CategoriaStore = signalStore(
         isSyncing: computed(() => store.loading() && store.hasData())
     })),
     
-    withMethods((store, categoriaService = inject(CategoriaService)) => ({
+    withMethods((store, categoriaService = inject(CategoriaService), undoStore = inject(UndoStore)) => ({
         async search(query: string, limit: number = 10): Promise<Categoria[]> {
             // Verificar caché primero
             const cacheKey = `${query}_${limit}`;
@@ -174,9 +174,10 @@ export const CategoriaStore = signalStore(
                     categoriaService.getCategorias(page, pageSize, searchTerm, sortColumn, sortOrder).pipe(
                         tapResponse({
                             next: (response) => {
+                                const pagina = paginaSinBorrados(undoStore, response);
                                 patchState(store, {
-                                    categorias: response.items,
-                                    totalRecords: response.totalCount,
+                                    categorias: pagina.items,
+                                    totalRecords: pagina.totalCount,
                                     loading: false,
                                     error: null,
                                     lastUpdated: Date.now(),
@@ -196,48 +197,13 @@ export const CategoriaStore = signalStore(
             )
         ),
 
-        deleteCategoria: rxMethod<string>(
-            pipe(
-                switchMap((id) => {
-                    // Guardar categoría ANTES de eliminar
-                    const categoriaEliminada = store.categorias().find(c => c.id === id);
-                    const totalAnterior = store.totalRecords();
-                    
-                    // Actualización optimista: eliminar inmediatamente de la UI
-                    patchState(store, (state) => ({
-                        categorias: state.categorias.filter((c) => c.id !== id),
-                        totalRecords: state.totalRecords - 1,
-                        searchCache: new Map() // Invalidar caché
-                    }));
-                    
-                    return categoriaService.delete(id).pipe(
-                        tapResponse({
-                            next: () => {
-                                patchState(store, { 
-                                    lastUpdated: Date.now()
-                                });
-                            },
-                            error: (err: ErrorResponse) => {
-                                console.error('[STORE] Error al eliminar categoría:', err);
-                                
-                                // ROLLBACK: Restaurar categoría eliminada
-                                if (categoriaEliminada) {
-                                    patchState(store, (state) => ({
-                                        categorias: [...state.categorias, categoriaEliminada].sort((a, b) => a.nombre.localeCompare(b.nombre)),
-                                        totalRecords: totalAnterior,
-                                        error: err.detail || 'Error al eliminar categoría'
-                                    }));
-                                } else {
-                                    patchState(store, { 
-                                        error: err.detail || 'Error al eliminar categoría'
-                                    });
-                                }
-                            }
-                        })
-                    );
-                })
-            )
-        ),
+        deleteCategoria(id: string): void {
+            eliminarConDeshacer(undoStore, store, 'categorias', id, {
+                mensaje: 'Categoría eliminada',
+                eliminar: () => categoriaService.delete(id),
+                alEliminar: () => patchState(store, { lastUpdated: Date.now(), searchCache: new Map() })
+            });
+        },
 
         async update(id: string, categoria: Partial<Categoria>): Promise<string> {
             // Actualización optimista: actualizar inmediatamente en la UI
@@ -262,6 +228,9 @@ export const CategoriaStore = signalStore(
                         lastUpdated: Date.now(),
                         searchCache: new Map() // Invalidar caché
                     });
+                    if (categoriaAnterior) {
+                        edicionConDeshacer(undoStore, store, 'categorias', categoriaAnterior, { mensaje: 'Categoría actualizada', revertir: (anterior) => categoriaService.update(id, anterior) });
+                    }
                     return response.value;
                 }
                 throw new Error(response.error?.message || 'Error al actualizar categoría');
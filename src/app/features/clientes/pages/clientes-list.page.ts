@@ -1,11 +1,11 @@
-import { Component, inject, ChangeDetectionStrategy, ViewChild } from '@angular/core';
+import { Component, inject, ChangeDetectionStrategy, ViewChild, effect, untracked } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { ButtonModule } from 'primeng/button';
 import { InputTextModule } from 'primeng/inputtext';
 import { ToastModule } from 'primeng/toast';
 import { MessageService, ConfirmationService } from 'primeng/api';
-import { Table, TableModule } from 'primeng/table';
+import { Table, TableLazyLoadEvent, TableModule } from 'primeng/table';
 import { ToolbarModule } from 'primeng/toolbar';
 import { InputIconModule } from 'primeng/inputicon';
 import { IconFieldModule } from 'primeng/iconfield';
@@ -13,13 +13,17 @@ import { SkeletonModule } from 'primeng/skeleton';
 import { ClienteStore } from '../store/cliente.store';
 import { Cliente } from '@/core/models/cliente.model';
 import { ClienteFormModalComponent } from '../components/cliente-form-modal.component';
-import { BasePageComponent, BasePageTemplateComponent } from '@/shared/components';
+import { BasePageComponent, BasePageTemplateComponent, ColumnChooserComponent, ColumnaTabla, injectTableColumns, injectTableUrlState } from '@/shared/components';
 import { debounceTime, distinctUntilChanged, Subject } from 'rxjs';
 
+const COLUMNAS_CLIENTES: ColumnaTabla[] = [
+    { campo: 'nombre', cabecera: 'Nombre', ancho: 20 }
+];
+
 @Component({
     selector: 'app-clientes-list-page',
     standalone: true,
-    imports: [CommonModule, FormsModule, ButtonModule, InputTextModule, TableModule, ToolbarModule, InputIconModule, IconFieldModule, SkeletonModule, ClienteFormModalComponent, BasePageTemplateComponent],
+    imports: [CommonModule, FormsModule, ButtonModule, InputTextModule, TableModule, ToolbarModule, InputIconModule, IconFieldModule, SkeletonModule, ClienteFormModalComponent, BasePageTemplateComponent, ColumnChooserComponent],
     providers: [ConfirmationService],
     changeDetection: ChangeDetectionStrategy.OnPush,
     styles: [`
@@ -53,6 +57,7 @@ import { debounceTime, distinctUntilChanged, Subject } from 'rxjs';
 
                         <ng-template #end>
                             <p-button icon="pi pi-refresh" severity="secondary" outlined (onClick)="refreshTable()" pTooltip="Actualizar" />
+                            <app-column-chooser [estado]="columnas" class="ml-2" />
                         </ng-template>
                     </p-toolbar>
 
@@ -63,46 +68,64 @@ import { debounceTime, distinctUntilChanged, Subject } from 'rxjs';
                         [lazy]="true"
                         (onLazyLoad)="onLazyLoad($event)"
                         [paginator]="true"
-                        [rows]="pageSize"
+                        [rows]="tableState.state().pageSize"
+                        [first]="tableState.first()"
+                        [sortField]="tableState.state().sortColumn"
+                        [sortOrder]="tableState.sortOrderNumber()"
                         [totalRecords]="clienteStore.totalRecords()"
                         [showCurrentPageReport]="true"
                         currentPageReportTemplate="Mostrando {first} a {last} de {totalRecords} clientes"
                         [rowsPerPageOptions]="[10, 25, 50]"
-                        [tableStyle]="{ 'min-width': '50rem' }"
+                        [columns]="columnas.visibles()"
+                        [tableStyle]="columnas.tableStyle()"
+                        [size]="columnas.size()"
+                        [reorderableColumns]="true"
+                        [resizableColumns]="true"
+                        columnResizeMode="expand"
+                        (onColReorder)="columnas.onColReorder($event)"
+                        (onColResize)="columnas.onColResize($event)"
                         class="p-datatable-gridlines"
                         [rowHover]="true"
                         dataKey="id"
-                        [sortField]="'nombre'"
-                        [sortOrder]="1"
                     >
                         <ng-template #caption>
                             <div class="flex flex-col md:flex-row items-center justify-between gap-3 py-3 px-4">
                                 <h5 class="m-0 font-semibold text-xl">Gestión de Clientes</h5>
                                 <p-iconfield class="w-full md:w-auto">
                                     <p-inputicon styleClass="pi pi-search" />
-                                    <input pInputText type="text" [(ngModel)]="searchTerm" (input)="onSearchChange($event)" placeholder="Buscar clientes..." class="w-full" />
+                                    <input pInputText type="text" [value]="tableState.state().search" (input)="onSearchChange($event)" placeholder="Buscar clientes..." class="w-full" />
                                 </p-iconfield>
                             </div>
                         </ng-template>
 
-                        <ng-template #header>
+                        <ng-template #header let-columns>
                             <tr>
-                                <th pSortableColumn="nombre" style="min-width:20rem; padding: 1rem">
-                                    Nombre
-                                    <p-sortIcon field="nombre" />
-                                </th>
+                                @for (columna of columns; track columna.campo) {
+                                    <th [pSortableColumn]="columna.campo" [pSortableColumnDisabled]="columna.ordenable === false" pReorderableColumn pResizableColumn [attr.data-campo]="columna.campo" [ngStyle]="columnas.estilo(columna)">
+                                        {{ columna.cabecera }}
+                                        @if (columna.ordenable !== false) {
+                                            <p-sortIcon [field]="columna.campo" />
+                                        }
+                                    </th>
+                                }
                                 <th style="min-width:10rem">Acciones</th>
                             </tr>
                         </ng-template>
 
-                        <ng-template #body let-cliente>
+                        <ng-template #body let-cliente let-columns="columns">
                             <tr>
-                                <td style="padding: 1rem">
-                                    <div class="flex items-center gap-2">
-                                        <i class="pi pi-credit-card text-primary"></i>
-                                        <span class="font-semibold">{{ cliente.nombre }}</span>
-                                    </div>
-                                </td>
+                                @for (columna of columns; track columna.campo) {
+                                    <td>
+                                        @switch (columna.campo) {
+                                            @case ('nombre') {
+                                                <div class="flex items-center gap-2">
+                                                    <i class="pi pi-credit-card text-primary"></i>
+                                                    <span class="font-semibold">{{ cliente.nombre }}</span>
+                                                </div>
+                                            }
+                                        }
+                                    </td>
+                                }
                                 <td>
                                     <p-button icon="pi pi-pencil" class="mr-2" [rounded]="true" [outlined]="true" (click)="editCliente(cliente)" />
                                     <p-button icon="pi pi-trash" severity="danger" [rounded]="true" [outlined]="true" (click)="deleteCliente(cliente)" />
@@ -110,11 +133,11 @@ import { debounceTime, distinctUntilChanged, Subject } from 'rxjs';
                             </tr>
                         </ng-template>
 
-                        <ng-template #loadingbody>
+                        <ng-template #loadingbody let-columns="columns">
                             <tr>
-                                <td style="padding: 1rem"><p-skeleton width="80%" /></td>
-                                <td><p-skeleton width="70%" /></td>
-                                <td><p-skeleton width="6rem" /></td>
+                                @for (columna of columns; track columna.campo) {
+                                    <td><p-skeleton width="70%" /></td>
+                                }
                                 <td>
                                     <div class="flex gap-2">
                                         <p-skeleton shape="circle" size="2.5rem" />
@@ -126,7 +149,7 @@ import { debounceTime, distinctUntilChanged, Subject } from 'rxjs';
 
                         <ng-template #emptymessage>
                             <tr>
-                                <td colspan="8" style="padding: 2rem">
+                                <td [attr.colspan]="columnas.visibles().length + 1" style="padding: 2rem">
                                     <div class="text-center py-8">
                                         <i class="pi pi-inbox text-500 text-5xl mb-3"></i>
                                         <p class="text-900 font-semibold text-xl mb-2">No hay clientes</p>
@@ -156,36 +179,31 @@ export class ClientesListPage extends BasePageComponent {
     currentCliente: Partial<Cliente> = {};
     private searchSubject = new Subject<string>();
 
-    pageSize: number = 10;
-    pageNumber: number = 1;
-    searchTerm: string = '';
-    sortColumn: string = 'nombre';
-    sortOrder: string = 'asc';
+    // Paginación, orden y búsqueda sincronizados con la URL
+    tableState = injectTableUrlState('clientes', { sortColumn: 'nombre', sortOrder: 'asc' });
+
+    // Columnas visibles, orden, anchos y densidad de la tabla
+    columnas = injectTableColumns('clientes', COLUMNAS_CLIENTES, { anchoFijo: 10 });
 
     constructor() {
         super();
         // Configurar búsqueda con debounce de 500ms
         this.searchSubject.pipe(debounceTime(500), distinctUntilChanged()).subscribe((searchValue) => {
-            this.searchTerm = searchValue;
-            this.pageNumber = 1; // Resetear a primera página en búsqueda
-            this.reloadClientes();
+            this.tableState.setSearch(searchValue);
+        });
+
+        // Recargar cada vez que cambia el estado de la tabla en la URL (incluye atrás/adelante)
+        effect(() => {
+            this.tableState.state();
+            untracked(() => this.reloadClientes());
         });
     }
 
     /**
      * Manejar evento lazy load de la tabla (paginación + sort)
      */
-    onLazyLoad(event: any) {
-        this.pageNumber = event.first / event.rows + 1;
-        this.pageSize = event.rows;
-
-        // Manejar ordenamiento
-        if (event.sortField) {
-            this.sortColumn = event.sortField;
-            this.sortOrder = event.sortOrder === 1 ? 'asc' : 'desc';
-        }
-
-        this.reloadClientes();
+    onLazyLoad(event: TableLazyLoadEvent) {
+        this.tableState.onLazyLoad(event);
     }
 
     /**
@@ -200,12 +218,13 @@ export class ClientesListPage extends BasePageComponent {
      * Recargar clientes con los filtros actuales
      */
     private reloadClientes() {
+        const { page, pageSize, search, sortColumn, sortOrder } = this.tableState.state();
         this.clienteStore.loadClientesPaginated({
-            page: this.pageNumber,
-            pageSize: this.pageSize,
-            searchTerm: this.searchTerm || undefined,
-            sortColumn: this.sortColumn || undefined,
-            sortOrder: this.sortOrder || undefined
+            page,
+            pageSize,
+            searchTerm: search || undefined,
+            sortColumn,
+            sortOrder
         });
     }
 
@@ -214,8 +233,6 @@ export class ClientesListPage extends BasePageComponent {
     }
 
     refreshTable() {
-        this.pageNumber = 1;
-        this.searchTerm = '';
         this.reloadClientes();
         this.showInfo('Datos actualizados', 'Actualización');
     }
@@ -258,17 +275,6 @@ export class ClientesListPage extends BasePageComponent {
     }
 
     deleteCliente(cliente: Cliente) {
-        this.confirmAction(
-            `¿Estás seguro de eliminar el cliente "${cliente.nombre}"?`,
-            () => {
-                this.clienteStore.deleteCliente(cliente.id);
-            },
-            {
-                header: 'Confirmar eliminación',
-                acceptLabel: 'Sí, eliminar',
-                rejectLabel: 'Cancelar',
-                successMessage: 'Cliente eliminado correctamente'
-            }
-        );
+        this.clienteStore.deleteCliente(cliente.id);
     }
 }
@@ -6,7 +6,7 @@ import { tap, switchMap } from 'rxjs/operators';
 import { tapResponse } from '@ngrx/operators';
 import { ClienteService } from '@/core/services/api/cliente.service';
 import { Cliente } from '@/core/models/cliente.model';
-import { ErrorResponse } from '@/core/models/error-response.model';
+import { UndoStore, edicionConDeshacer, eliminarConDeshacer, paginaSinBorrados } from '@/core/stores/undo.store';
 
 interface ClienteState {
     clientes: Cliente[];
@@ -39,7 +39,7 @@ export const ClienteStore = signalStore(
         isSyncing: computed(() => store.loading() && store.hasData())
     })),
     
-    withMethods((store, clienteService = inject(ClienteService)) => ({
+    withMethods((store, clienteService = inject(ClienteService), undoStore = inject(UndoStore)) => ({
         async search(query: string, limit: number = 10): Promise<Cliente[]> {
             const cacheKey = `${query}_${limit}`;
             const cached = store.searchCache().get(cacheKey);
@@ -129,9 +129,10 @@ export const ClienteStore = signalStore(
                     clienteService.getClientes(page, pageSize, searchTerm, sortColumn, sortOrder).pipe(
                         tapResponse({
                             next: (response) => {
+                                const pagina = paginaSinBorrados(undoStore, response);
                                 patchState(store, {
-                                    clientes: response.items,
-                                    totalRecords: response.totalCount,
+                                    clientes: pagina.items,
+                                    totalRecords: pagina.totalCount,
                                     loading: false,
                                     error: null,
                                     lastUpdated: Date.now(),
@@ -171,6 +172,9 @@ export const ClienteStore = signalStore(
                         lastUpdated: Date.now(),
                         searchCache: new Map()
                     });
+                    if (clienteAnterior) {
+                        edicionConDeshacer(undoStore, store, 'clientes', clienteAnterior, { mensaje: 'Cliente actualizado', revertir: (anterior) => clienteService.update(id, anterior) });
+                    }
                     return response.value;
                 }
                 throw new Error(response.error?.message || 'Error al actualizar cliente');
@@ -193,44 +197,13 @@ export const ClienteStore = signalStore(
             }
         },
 
-        deleteCliente: rxMethod<string>(
-            pipe(
-                switchMap((id) => {
-                    // Guardar cliente para rollback ANTES de eliminarlo
-                    const clienteEliminado = store.clientes().find(c => c.id === id);
-                    const totalAnterior = store.totalRecords();
-                    
-                    // Actualización optimista: eliminar inmediatamente
-                    patchState(store, (state) => ({
-                        clientes: state.clientes.filter((c) => c.id !== id),
-                        totalRecords: state.totalRecords - 1,
-                        searchCache: new Map()
-                    }));
-                    
-                    return clienteService.delete(id).pipe(
-                        tapResponse({
-                            next: () => {
-                                patchState(store, { lastUpdated: Date.now() });
-                            },
-                            error: (err: ErrorResponse) => {
-                                console.error('[STORE] Error al eliminar cliente:', err);
-                                
-                                // ROLLBACK: Restaurar cliente eliminado
-                                if (clienteEliminado) {
-                                    patchState(store, (state) => ({
-                                        clientes: [...state.clientes, clienteEliminado].sort((a, b) => a.nombre.localeCompare(b.nombre)),
-                                        totalRecords: totalAnterior,
-                                        error: err.detail || 'Error al eliminar cliente'
-                                    }));
-                                } else {
-                                    patchState(store, { error: err.detail || 'Error al eliminar cliente' });
-                                }
-                            }
-                        })
-                    );
-                })
-            )
-        ),
+        deleteCliente(id: string): void {
+            eliminarConDeshacer(undoStore, store, 'clientes', id, {
+                mensaje: 'Cliente eliminado',
+                eliminar: () => clienteService.delete(id),
+                alEliminar: () => patchState(store, { lastUpdated: Date.now(), searchCache: new Map() })
+            });
+        },
 
         async getRecent(limit: number = 5): Promise<Cliente[]> {
             patchState(store, { loading: true, error: null });
@@ -0,0 +1,44 @@
+import { ModoReparto, RepartoGasto } from '@/core/models/gasto-compartido.model';
+
+interface CatalogItem {
+    id: string;
+    nombre: string;
+}
+
+// Participante tal y como se edita en el formulario
+export interface ParticipanteForm {
+    persona: CatalogItem | null;
+    valor: number | null;
+}
+
+export interface RepartoForm {
+    modo: ModoReparto;
+    participantes: ParticipanteForm[];
+}
+
+export function toRepartoForm(reparto: RepartoGasto): RepartoForm {
+    return {
+        modo: reparto.modo,
+        participantes: reparto.participantes.map((p) => ({ persona: { id: p.personaId, nombre: p.personaNombre }, valor: p.valor }))
+    };
+}
+
+export function toRepartoGasto(reparto: RepartoForm): RepartoGasto {
+    return {
+        modo: reparto.modo,
+        participantes: reparto.participantes.map((p) => ({ personaId: p.persona?.id || '', personaNombre: p.persona?.nombre || '', valor: p.valor || 0 }))
+    };
+}
+
+/**
+ * Reparte a partes iguales; los céntimos sobrantes van a la primera persona
+ */
+export function repartoIgualitario(participantes: ParticipanteForm[], modo: ModoReparto, importe: number): void {
+    if (participantes.length === 0) return;
+
+    const total = modo === 'porcentaje' ? 100 : importe;
+    const parte = Math.floor((total / participantes.length) * 100) / 100;
+    const resto = Math.round((total - parte * participantes.length) * 100) / 100;
+
+    participantes.forEach((p, index) => (p.valor = index === 0 ? Math.round((parte + resto) * 100) / 100 : parte));
+}
@@ -0,0 +1,8 @@
+import { Routes } from '@angular/router';
+
+export default [
+    {
+        path: '',
+        loadComponent: () => import('./pages/compartidos.page').then((m) => m.CompartidosPage)
+    }
+] as Routes;
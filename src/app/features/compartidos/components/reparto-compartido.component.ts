@@ -0,0 +1,159 @@
+import { Component, inject, input, model, ChangeDetectionStrategy, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ButtonModule } from 'primeng/button';
+import { InputNumberModule } from 'primeng/inputnumber';
+import { SelectButtonModule } from 'primeng/selectbutton';
+import { ToggleSwitchModule } from 'primeng/toggleswitch';
+import { AutoCompleteModule, AutoCompleteCompleteEvent } from 'primeng/autocomplete';
+import { PersonaStore } from '@/features/personas/store/persona.store';
+import { ModoReparto } from '@/core/models/gasto-compartido.model';
+import { MONEDA_POR_DEFECTO } from '@/core/models/moneda.model';
+import { ImportePipe } from '@/shared/pipes/importe.pipe';
+import { ParticipanteForm, RepartoForm, repartoIgualitario } from '../compartidos.reparto';
+
+interface CatalogItem {
+    id: string;
+    nombre: string;
+}
+
+/**
+ * Editor del reparto de un gasto compartido entre personas
+ * null = gasto no compartido; los participantes se editan en el sitio
+ */
+@Component({
+    selector: 'app-reparto-compartido',
+    standalone: true,
+    imports: [CommonModule, FormsModule, ButtonModule, InputNumberModule, SelectButtonModule, ToggleSwitchModule, AutoCompleteModule, ImportePipe],
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    template: `
+        <div class="flex items-center justify-between gap-3">
+            <label for="compartido" class="font-medium text-gray-700 text-sm">Gasto compartido</label>
+            <p-toggleswitch inputId="compartido" [ngModel]="!!reparto()" (ngModelChange)="toggleCompartido($event)" />
+        </div>
+
+        @if (reparto(); as reparto) {
+            <div class="flex flex-col gap-3 mt-3">
+                <div class="flex items-center justify-between flex-wrap gap-2">
+                    <p-selectbutton [options]="modos" optionLabel="label" optionValue="value" [ngModel]="reparto.modo" (ngModelChange)="cambiarModo($event)" [allowEmpty]="false" size="small" />
+                    <p-button label="Partes iguales" icon="pi pi-equals" [text]="true" size="small" (onClick)="partesIguales()" />
+                </div>
+
+                @if (pagador(); as pagador) {
+                    <small class="text-500">Pagado por <strong>{{ pagador.nombre }}</strong>: el resto de personas le deben su parte.</small>
+                }
+
+                @for (participante of reparto.participantes; track $index; let i = $index) {
+                    <div class="flex items-center gap-2">
+                        <p-autoComplete
+                            [(ngModel)]="participante.persona"
+                            [suggestions]="filteredPersonas()"
+                            (completeMethod)="searchPersonas($event)"
+                            optionLabel="nombre"
+                            [dropdown]="true"
+                            [forceSelection]="true"
+                            placeholder="Persona *"
+                            appendTo="body"
+                            class="flex-1"
+                            styleClass="w-full"
+                        />
+                        @if (reparto.modo === 'porcentaje') {
+                            <p-inputNumber [(ngModel)]="participante.valor" suffix=" %" [min]="0" [max]="100" [maxFractionDigits]="2" locale="es-ES" inputStyleClass="text-right w-28" />
+                        } @else {
+                            <p-inputNumber [(ngModel)]="participante.valor" mode="currency" [currency]="moneda()" locale="es-ES" [min]="0" inputStyleClass="text-right w-28" />
+                        }
+                        <p-button icon="pi pi-trash" severity="danger" [text]="true" [rounded]="true" size="small" [disabled]="reparto.participantes.length <= 1" (onClick)="quitarParticipante(i)" />
+                    </div>
+                }
+
+                <div class="flex items-center justify-between flex-wrap gap-2">
+                    <p-button label="Añadir persona" icon="pi pi-plus" [text]="true" size="small" (onClick)="anadirParticipante()" />
+                    <span class="text-sm" [class.text-red-600]="submitted() && !cuadra()" [class.text-600]="!submitted() || cuadra()">
+                        @if (reparto.modo === 'porcentaje') {
+                            Repartido {{ suma() | number: '1.0-2' : 'es-ES' }}% de 100%
+                        } @else {
+                            Repartido {{ suma() | importe: moneda() }} de {{ importe() | importe: moneda() }}
+                        }
+                        @if (cuadra()) {
+                            <i class="pi pi-check-circle text-green-500 ml-1"></i>
+                        }
+                    </span>
+                </div>
+            </div>
+        }
+    `
+})
+export class RepartoCompartidoComponent {
+    private personaStore = inject(PersonaStore);
+
+    reparto = model<RepartoForm | null>(null);
+    importe = input<number>(0);
+    moneda = input<string>(MONEDA_POR_DEFECTO);
+    // Persona del gasto: quien lo ha pagado
+    pagador = input<CatalogItem | null>(null);
+    submitted = input<boolean>(false);
+
+    filteredPersonas = signal<CatalogItem[]>([]);
+
+    modos: { label: string; value: ModoReparto }[] = [
+        { label: 'Porcentaje', value: 'porcentaje' },
+        { label: 'Importe fijo', value: 'fijo' }
+    ];
+
+    toggleCompartido(activo: boolean) {
+        if (!activo) {
+            this.reparto.set(null);
+            return;
+        }
+
+        // Por defecto a medias entre quien paga y otra persona
+        const participantes: ParticipanteForm[] = [
+            { persona: this.pagador(), valor: null },
+            { persona: null, valor: null }
+        ];
+        repartoIgualitario(participantes, 'porcentaje', this.importe() || 0);
+        this.reparto.set({ modo: 'porcentaje', participantes });
+    }
+
+    cambiarModo(modo: ModoReparto) {
+        const reparto = this.reparto();
+        if (!reparto || reparto.modo === modo) return;
+
+        const participantes = reparto.participantes.map((p) => ({ ...p }));
+        repartoIgualitario(participantes, modo, this.importe() || 0);
+        this.reparto.set({ modo, participantes });
+    }
+
+    partesIguales() {
+        const reparto = this.reparto();
+        if (reparto) repartoIgualitario(reparto.participantes, reparto.modo, this.importe() || 0);
+    }
+
+    anadirParticipante() {
+        const reparto = this.reparto();
+        if (reparto) this.reparto.set({ ...reparto, participantes: [...reparto.participantes, { persona: null, valor: null }] });
+    }
+
+    quitarParticipante(index: number) {
+        const reparto = this.reparto();
+        if (reparto) this.reparto.set({ ...reparto, participantes: reparto.participantes.filter((_, i) => i !== index) });
+    }
+
+    // Métodos y no computed: los participantes se mutan en el sitio con ngModel
+    suma(): number {
+        return (this.reparto()?.participantes ?? []).reduce((total, p) => total + (p.valor || 0), 0);
+    }
+
+    cuadra(): boolean {
+        const reparto = this.reparto();
+        if (!reparto) return true;
+        const objetivo = reparto.modo === 'porcentaje' ? 100 : this.importe() || 0;
+        return Math.abs(this.suma() - objetivo) < 0.005;
+    }
+
+    searchPersonas(event: AutoCompleteCompleteEvent) {
+        const query = event.query;
+        const peticion = !query || query.length < 2 ? this.personaStore.getRecent(5) : this.personaStore.search(query, 10);
+        peticion.then((data) => this.filteredPersonas.set(data)).catch(() => this.filteredPersonas.set([]));
+    }
+}
@@ -0,0 +1,280 @@
+import { Component, inject, ChangeDetectionStrategy, OnInit, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ButtonModule } from 'primeng/button';
+import { MessageService, ConfirmationService } from 'primeng/api';
+import { TableModule } from 'primeng/table';
+import { ToolbarModule } from 'primeng/toolbar';
+import { TagModule } from 'primeng/tag';
+import { TooltipModule } from 'primeng/tooltip';
+import { CompartidosStore } from '../store/compartidos.store';
+import { IngresosStore } from '@/features/ingresos/stores/ingresos.store';
+import { TraspasosStore } from '@/features/traspasos/stores/traspasos.store';
+import { IngresoFormModalComponent } from '@/features/ingresos/components/ingreso-form-modal.component';
+import { TraspasoFormModalComponent } from '@/features/traspasos/components/traspaso-form-modal.component';
+import { Gasto, Ingreso } from '@/core/models';
+import { Traspaso } from '@/core/models/traspaso.model';
+import { ConAdjuntos } from '@/core/models/adjunto.model';
+import { CuotaGasto, Liquidacion, TipoMovimientoLiquidacion, TransferenciaSugerida } from '@/core/models/gasto-compartido.model';
+import { cuotasGasto } from '@/shared/utils/compartidos.util';
+import { BasePageComponent, BasePageTemplateComponent } from '@/shared/components';
+import { ImportePipe } from '@/shared/pipes/importe.pipe';
+
+@Component({
+    selector: 'app-compartidos-page',
+    standalone: true,
+    imports: [CommonModule, ButtonModule, TableModule, ToolbarModule, TagModule, TooltipModule, IngresoFormModalComponent, TraspasoFormModalComponent, BasePageTemplateComponent, ImportePipe],
+    providers: [MessageService, ConfirmationService],
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    template: `
+        <app-base-page-template [loading]="compartidosStore.loading() && !compartidosStore.hasData()" [skeletonType]="'card'">
+            <div class="card surface-ground px-4 py-5 md:px-6 lg:px-8">
+                <p-toolbar styleClass="mb-6 gap-2 p-6">
+                    <ng-template #start>
+                        <div>
+                            <h5 class="m-0 font-semibold text-xl">Gastos compartidos</h5>
+                            <span class="text-500 text-sm">Total compartido: {{ compartidosStore.totalCompartido() | importe }}</span>
+                            @if (compartidosStore.monedasSinCambio().length > 0) {
+                                <small class="text-orange-500 block mt-1">Sin tipo de cambio para {{ compartidosStore.monedasSinCambio().join(', ') }}: esos movimientos no entran en los saldos</small>
+                            }
+                        </div>
+                    </ng-template>
+                    <ng-template #end>
+                        <p-button icon="pi pi-refresh" severity="secondary" outlined (onClick)="refresh()" pTooltip="Actualizar" [loading]="compartidosStore.loading()" />
+                    </ng-template>
+                </p-toolbar>
+
+                <div class="grid grid-cols-1 lg:grid-cols-2 gap-4 mb-6">
+                    <!-- Saldos por persona -->
+                    <div class="card shadow-2 border-round p-5 m-0">
+                        <h5 class="text-900 font-bold text-lg mt-0 mb-4">Saldos</h5>
+                        @for (saldo of compartidosStore.saldos(); track saldo.persona.id) {
+                            <div class="flex items-center justify-between py-2 border-b border-gray-100">
+                                <div>
+                                    <div class="font-semibold text-900">{{ saldo.persona.nombre }}</div>
+                                    <small class="text-500">Pagado {{ saldo.pagado | importe }} · Le corresponde {{ saldo.consumido | importe }}</small>
+                                </div>
+                                <span class="font-bold" [class.text-green-600]="saldo.saldo > 0" [class.text-red-600]="saldo.saldo < 0" [class.text-500]="saldo.saldo === 0">
+                                    {{ saldo.saldo > 0 ? '+' : '' }}{{ saldo.saldo | importe }}
+                                </span>
+                            </div>
+                        } @empty {
+                            <p class="text-500 m-0">Marca un gasto como compartido para empezar a calcular saldos.</p>
+                        }
+                    </div>
+
+                    <!-- Plan de liquidación -->
+                    <div class="card shadow-2 border-round p-5 m-0">
+                        <h5 class="text-900 font-bold text-lg mt-0 mb-4">Cómo quedar en paz</h5>
+                        @for (transferencia of compartidosStore.plan(); track $index) {
+                            <div class="flex items-center justify-between gap-3 py-2 border-b border-gray-100">
+                                <span>
+                                    <strong>{{ transferencia.deudor.nombre }}</strong> paga <strong>{{ transferencia.importe | importe }}</strong> a <strong>{{ transferencia.acreedor.nombre }}</strong>
+                                </span>
+                                <div class="flex gap-1">
+                                    <p-button icon="pi pi-sync" [rounded]="true" [outlined]="true" size="small" (onClick)="liquidar(transferencia, 'traspaso')" pTooltip="Registrar como traspaso" />
+                                    <p-button icon="pi pi-arrow-up" severity="success" [rounded]="true" [outlined]="true" size="small" (onClick)="liquidar(transferencia, 'ingreso')" pTooltip="Registrar como ingreso" />
+                                </div>
+                            </div>
+                        } @empty {
+                            <div class="flex items-center gap-2 text-500">
+                                <i class="pi pi-check-circle text-green-500"></i>
+                                <span>Todas las cuentas están saldadas</span>
+                            </div>
+                        }
+                    </div>
+                </div>
+
+                <div class="card shadow-2 border-round p-5 mb-6">
+                    <p-table [value]="compartidosStore.gastos()" dataKey="id" [rows]="10" [paginator]="compartidosStore.gastos().length > 10" [tableStyle]="{ 'min-width': '50rem' }" class="p-datatable-gridlines" sortField="fecha" [sortOrder]="-1">
+                        <ng-template #caption>
+                            <h5 class="m-0 font-semibold text-lg">Gastos compartidos</h5>
+                        </ng-template>
+                        <ng-template #header>
+                            <tr>
+                                <th pSortableColumn="fecha" style="width: 9rem">Fecha <p-sortIcon field="fecha" /></th>
+                                <th>Concepto</th>
+                                <th>Pagado por</th>
+                                <th>Reparto</th>
+                                <th pSortableColumn="importe" style="width: 9rem">Importe <p-sortIcon field="importe" /></th>
+                            </tr>
+                        </ng-template>
+                        <ng-template #body let-gasto>
+                            <tr>
+                                <td>{{ gasto.fecha | date: 'dd/MM/yyyy' }}</td>
+                                <td class="font-semibold">{{ gasto.conceptoNombre }}</td>
+                                <td>{{ gasto.personaNombre || '-' }}</td>
+                                <td>
+                                    <div class="flex flex-wrap gap-1">
+                                        @for (cuota of cuotas(gasto); track cuota.persona.id) {
+                                            <p-tag severity="secondary" [value]="cuota.persona.nombre + ': ' + (cuota.importe | importe: gasto.moneda)" />
+                                        }
+                                    </div>
+                                </td>
+                                <td class="font-bold text-red-500">{{ gasto.importe | importe: gasto.moneda }}</td>
+                            </tr>
+                        </ng-template>
+                        <ng-template #emptymessage>
+                            <tr>
+                                <td colspan="5" class="text-center text-500 py-6">No hay gastos compartidos. Actívalo en el formulario de un gasto con la opción "Gasto compartido".</td>
+                            </tr>
+                        </ng-template>
+                    </p-table>
+                </div>
+
+                <div class="card shadow-2 border-round p-5">
+                    <p-table [value]="compartidosStore.liquidaciones()" dataKey="id" [tableStyle]="{ 'min-width': '40rem' }" class="p-datatable-gridlines">
+                        <ng-template #caption>
+                            <h5 class="m-0 font-semibold text-lg">Liquidaciones registradas</h5>
+                        </ng-template>
+                        <ng-template #header>
+                            <tr>
+                                <th style="width: 9rem">Fecha</th>
+                                <th>Pago</th>
+                                <th style="width: 9rem">Registrado como</th>
+                                <th style="width: 9rem">Importe</th>
+                                <th style="width: 5rem"></th>
+                            </tr>
+                        </ng-template>
+                        <ng-template #body let-liquidacion>
+                            <tr>
+                                <td>{{ liquidacion.fecha | date: 'dd/MM/yyyy' }}</td>
+                                <td>{{ liquidacion.deudorNombre }} <i class="pi pi-arrow-right text-500 mx-1"></i> {{ liquidacion.acreedorNombre }}</td>
+                                <td><p-tag [severity]="liquidacion.tipoMovimiento === 'ingreso' ? 'success' : 'info'" [value]="liquidacion.tipoMovimiento === 'ingreso' ? 'Ingreso' : 'Traspaso'" /></td>
+                                <td class="font-bold">{{ liquidacion.importe | importe: liquidacion.moneda }}</td>
+                                <td>
+                                    <p-button icon="pi pi-trash" severity="danger" [rounded]="true" [outlined]="true" size="small" (click)="deleteLiquidacion(liquidacion)" />
+                                </td>
+                            </tr>
+                        </ng-template>
+                        <ng-template #emptymessage>
+                            <tr>
+                                <td colspan="5" class="text-center text-500 py-6">Todavía no se ha registrado ninguna liquidación.</td>
+                            </tr>
+                        </ng-template>
+                    </p-table>
+                </div>
+
+                <app-ingreso-form-modal [visible]="ingresoDialog()" [ingreso]="currentIngreso()" (visibleChange)="ingresoDialog.set($event)" (save)="onSaveIngreso($event)" (cancel)="hideDialogs()" />
+                <app-traspaso-form-modal [visible]="traspasoDialog()" [traspaso]="currentTraspaso()" (visibleChange)="traspasoDialog.set($event)" (save)="onSaveTraspaso($event)" (cancel)="hideDialogs()" />
+            </div>
+        </app-base-page-template>
+    `
+})
+export class CompartidosPage extends BasePageComponent implements OnInit {
+    compartidosStore = inject(CompartidosStore);
+    private ingresosStore = inject(IngresosStore);
+    private traspasosStore = inject(TraspasosStore);
+
+    protected override skeletonType = 'card' as const;
+
+    ingresoDialog = signal(false);
+    traspasoDialog = signal(false);
+    currentIngreso = signal<Partial<Ingreso> | null>(null);
+    currentTraspaso = signal<Partial<Traspaso> | null>(null);
+
+    // Transferencia que se está liquidando
+    private pendiente: TransferenciaSugerida | null = null;
+
+    ngOnInit() {
+        this.compartidosStore.loadCompartidos();
+    }
+
+    refresh() {
+        this.compartidosStore.loadCompartidos();
+        this.showInfo('Datos actualizados', 'Actualización');
+    }
+
+    cuotas(gasto: Gasto): CuotaGasto[] {
+        return cuotasGasto(gasto);
+    }
+
+    /**
+     * Abre el formulario del movimiento con el importe y la descripción ya rellenos
+     */
+    liquidar(transferencia: TransferenciaSugerida, tipo: TipoMovimientoLiquidacion) {
+        this.pendiente = transferencia;
+        const descripcion = `Liquidación gastos compartidos: ${transferencia.deudor.nombre} → ${transferencia.acreedor.nombre}`;
+
+        if (tipo === 'ingreso') {
+            this.currentIngreso.set({ importe: transferencia.importe, descripcion, personaId: transferencia.deudor.id, personaNombre: transferencia.deudor.nombre });
+            this.ingresoDialog.set(true);
+        } else {
+            this.currentTraspaso.set({ importe: transferencia.importe, descripcion });
+            this.traspasoDialog.set(true);
+        }
+    }
+
+    hideDialogs() {
+        this.ingresoDialog.set(false);
+        this.traspasoDialog.set(false);
+        this.currentIngreso.set(null);
+        this.currentTraspaso.set(null);
+        this.pendiente = null;
+    }
+
+    async onSaveIngreso({ cambiosAdjuntos, ...ingreso }: ConAdjuntos<Partial<Ingreso>>) {
+        const transferencia = this.pendiente;
+        this.hideDialogs();
+        if (!transferencia) return;
+
+        try {
+            const id = await this.ingresosStore.createIngreso(
+                {
+                    conceptoId: ingreso.conceptoId!,
+                    categoriaId: ingreso.categoriaId!,
+                    clienteId: ingreso.clienteId!,
+                    fecha: ingreso.fecha!,
+                    importe: ingreso.importe!,
+                    descripcion: ingreso.descripcion,
+                    formaPagoId: ingreso.formaPagoId!,
+                    personaId: ingreso.personaId!,
+                    cuentaId: ingreso.cuentaId!
+                },
+                ingreso
+            );
+            await this.registrar(transferencia, 'ingreso', id, ingreso.fecha!, ingreso.importe!, ingreso.moneda);
+            if (cambiosAdjuntos) await this.ingresosStore.syncAdjuntos(id, cambiosAdjuntos);
+        } catch (error: any) {
+            this.showError(error.userMessage || error.message || 'Error al registrar la liquidación');
+        }
+    }
+
+    async onSaveTraspaso(traspaso: Partial<Traspaso>) {
+        const transferencia = this.pendiente;
+        this.hideDialogs();
+        if (!transferencia) return;
+
+        try {
+            const id = await this.traspasosStore.createTraspaso({
+                cuentaOrigenId: traspaso.cuentaOrigenId!,
+                cuentaDestinoId: traspaso.cuentaDestinoId!,
+                importe: traspaso.importe!,
+                fecha: traspaso.fecha!,
+                descripcion: traspaso.descripcion
+            });
+            await this.registrar(transferencia, 'traspaso', id, traspaso.fecha!, traspaso.importe!, traspaso.monedaOrigen);
+        } catch (error: any) {
+            this.showError(error.userMessage || error.message || 'Error al registrar la liquidación');
+        }
+    }
+
+    deleteLiquidacion(liquidacion: Liquidacion) {
+        this.compartidosStore.deleteLiquidacion(liquidacion.id);
+    }
+
+    // El importe puede haberse cambiado en el formulario para un pago parcial
+    private async registrar(transferencia: TransferenciaSugerida, tipo: TipoMovimientoLiquidacion, movimientoId: string, fecha: string, importe: number, moneda?: string) {
+        await this.compartidosStore.registrarLiquidacion({
+            fecha,
+            importe,
+            deudorId: transferencia.deudor.id,
+            deudorNombre: transferencia.deudor.nombre,
+            acreedorId: transferencia.acreedor.id,
+            acreedorNombre: transferencia.acreedor.nombre,
+            tipoMovimiento: tipo,
+            movimientoId,
+            moneda
+        });
+        this.showSuccess(`Liquidación registrada como ${tipo}`);
+    }
+}
@@ -0,0 +1,113 @@
+import { computed, inject } from '@angular/core';
+import { signalStore, withState, withMethods, patchState, withComputed } from '@ngrx/signals';
+import { firstValueFrom } from 'rxjs';
+import { GastoService } from '@/core/services/api/gasto.service';
+import { LiquidacionService } from '@/core/services/api/liquidacion.service';
+import { Gasto } from '@/core/models';
+import { Liquidacion } from '@/core/models/gasto-compartido.model';
+import { UndoStore, eliminarConDeshacer } from '@/core/stores/undo.store';
+import { MonedaStore } from '@/core/stores/moneda.store';
+import { calcularSaldos, planLiquidacion } from '@/shared/utils/compartidos.util';
+
+interface CompartidosState {
+    gastos: Gasto[];
+    liquidaciones: Liquidacion[];
+    loading: boolean;
+    error: string | null;
+    lastUpdated: number | null;
+}
+
+const initialState: CompartidosState = {
+    gastos: [],
+    liquidaciones: [],
+    loading: false,
+    error: null,
+    lastUpdated: null
+};
+
+/**
+ * Signal Store de gastos compartidos entre personas
+ * Los saldos y el plan de liquidación se calculan en cliente a partir de gastos y liquidaciones, en la moneda base
+ */
+export const CompartidosStore = signalStore(
+    { providedIn: 'root' },
+    withState(initialState),
+
+    withComputed((store, monedaStore = inject(MonedaStore)) => ({
+        saldos: computed(() => calcularSaldos(store.gastos(), store.liquidaciones(), (importe, moneda) => monedaStore.convertir(importe, moneda))),
+        totalCompartido: computed(() => store.gastos().reduce((total, g) => total + (monedaStore.convertir(g.importe, g.moneda) ?? 0), 0)),
+        // Monedas de gastos o liquidaciones sin tipo de cambio a la moneda base: no entran en los saldos
+        monedasSinCambio: computed(() => {
+            const movimientos = [...store.gastos(), ...store.liquidaciones()];
+            const sinCambio = movimientos.filter((m) => monedaStore.convertir(m.importe, m.moneda) === null).map((m) => m.moneda!);
+            return [...new Set(sinCambio)];
+        }),
+        hasData: computed(() => store.gastos().length > 0 || store.liquidaciones().length > 0)
+    })),
+
+    withComputed((store) => ({
+        plan: computed(() => planLiquidacion(store.saldos()))
+    })),
+
+    withMethods((store, gastoService = inject(GastoService), liquidacionService = inject(LiquidacionService), undoStore = inject(UndoStore)) => ({
+        async loadCompartidos(): Promise<void> {
+            patchState(store, { loading: true, error: null });
+            try {
+                const [gastos, liquidaciones] = await Promise.all([firstValueFrom(gastoService.getGastosCompartidos()), firstValueFrom(liquidacionService.getLiquidaciones())]);
+
+                patchState(store, {
+                    gastos: gastos.filter((g) => !!g.compartido),
+                    liquidaciones: undoStore.sinBorradosPendientes(liquidaciones),
+                    loading: false,
+                    lastUpdated: Date.now()
+                });
+            } catch (error: any) {
+                console.error('[STORE] Error al cargar gastos compartidos:', error);
+                patchState(store, { loading: false, error: error.userMessage || 'Error al cargar gastos compartidos' });
+            }
+        },
+
+        /**
+         * Registra una liquidación cuyo traspaso o ingreso ya se ha creado
+         */
+        async registrarLiquidacion(liquidacion: Omit<Liquidacion, 'id'>): Promise<string> {
+            try {
+                const response = await firstValueFrom(
+                    liquidacionService.create({
+                        fecha: liquidacion.fecha,
+                        importe: liquidacion.importe,
+                        deudorId: liquidacion.deudorId,
+                        acreedorId: liquidacion.acreedorId,
+                        tipoMovimiento: liquidacion.tipoMovimiento,
+                        movimientoId: liquidacion.movimientoId,
+                        moneda: liquidacion.moneda
+                    })
+                );
+
+                if (response.isSuccess && response.value) {
+                    patchState(store, {
+                        liquidaciones: [{ ...liquidacion, id: response.value }, ...store.liquidaciones()],
+                        lastUpdated: Date.now()
+                    });
+                    return response.value;
+                }
+                throw new Error(response.error?.message || 'Error al registrar la liquidación');
+            } catch (err: any) {
+                patchState(store, { error: err.userMessage || (err as Error).message });
+                throw err;
+            }
+        },
+
+        deleteLiquidacion(id: string): void {
+            eliminarConDeshacer(undoStore, store, 'liquidaciones', id, {
+                mensaje: 'Liquidación eliminada',
+                eliminar: () => liquidacionService.delete(id),
+                alEliminar: () => patchState(store, { lastUpdated: Date.now() })
+            });
+        },
+
+        clearError() {
+            patchState(store, { error: null });
+        }
+    }))
+);
@@ -1,8 +1,8 @@
-import { Component, inject, ChangeDetectionStrategy, ViewChild } from '@angular/core';
+import { Component, inject, ChangeDetectionStrategy, ViewChild, effect, untracked } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { ButtonModule } from 'primeng/button';
-import { TableModule, Table } from 'primeng/table';
+import { TableModule, Table, TableLazyLoadEvent } from 'primeng/table';
 import { InputTextModule } from 'primeng/inputtext';
 import { MessageService, ConfirmationService } from 'primeng/api';
 import { ToastModule } from 'primeng/toast';
@@ -16,12 +16,17 @@ import { ConceptoStore } from '../store/concepto.store';
 import { CategoriaStore } from '@/features/categorias/store/categoria.store';
 import { Concepto } from '@/core/models/concepto.model';
 import { ConceptoCreateModalComponent } from '../components/concepto-create-modal.component';
-import { BasePageComponent, BasePageTemplateComponent } from '@/shared/components';
+import { BasePageComponent, BasePageTemplateComponent, ColumnChooserComponent, ColumnaTabla, injectTableColumns, injectTableUrlState } from '@/shared/components';
+
+const COLUMNAS_CONCEPTOS: ColumnaTabla[] = [
+    { campo: 'nombre', cabecera: 'Nombre', ancho: 15 },
+    { campo: 'categoriaId', cabecera: 'Categoría', ancho: 12 }
+];
 
 @Component({
     selector: 'app-conceptos-list',
     standalone: true,
-    imports: [CommonModule, FormsModule, ButtonModule, TableModule, InputTextModule, ToastModule, ConfirmDialogModule, SkeletonModule, ToolbarModule, InputIconModule, IconFieldModule, ConceptoCreateModalComponent, BasePageTemplateComponent],
+    imports: [CommonModule, FormsModule, ButtonModule, TableModule, InputTextModule, ToastModule, ConfirmDialogModule, SkeletonModule, ToolbarModule, InputIconModule, IconFieldModule, ConceptoCreateModalComponent, BasePageTemplateComponent, ColumnChooserComponent],
     providers: [MessageService, ConfirmationService],
     changeDetection: ChangeDetectionStrategy.OnPush,
     styles: [`
@@ -55,6 +60,7 @@ import { BasePageComponent, BasePageTemplateComponent } from '@/shared/component
 
                         <ng-template #end>
                             <p-button icon="pi pi-refresh" severity="secondary" outlined (onClick)="refreshTable()" pTooltip="Actualizar" />
+                            <app-column-chooser [estado]="columnas" class="ml-2" />
                         </ng-template>
                     </p-toolbar>
 
@@ -65,12 +71,22 @@ import { BasePageComponent, BasePageTemplateComponent } from '@/shared/component
                         [lazy]="true"
                         (onLazyLoad)="onLazyLoad($event)"
                         [paginator]="true"
-                        [rows]="pageSize"
+                        [rows]="tableState.state().pageSize"
+                        [first]="tableState.first()"
+                        [sortField]="tableState.state().sortColumn"
+                        [sortOrder]="tableState.sortOrderNumber()"
                         [totalRecords]="conceptoStore.totalRecords()"
                         [showCurrentPageReport]="true"
                         currentPageReportTemplate="Mostrando {first} a {last} de {totalRecords} conceptos"
                         [rowsPerPageOptions]="[10, 25, 50]"
-                        [tableStyle]="{ 'min-width': '50rem' }"
+                        [columns]="columnas.visibles()"
+                        [tableStyle]="columnas.tableStyle()"
+                        [size]="columnas.size()"
+                        [reorderableColumns]="true"
+                        [resizableColumns]="true"
+                        columnResizeMode="expand"
+                        (onColReorder)="columnas.onColReorder($event)"
+                        (onColResize)="columnas.onColResize($event)"
                         styleClass="p-datatable-gridlines"
                         [rowHover]="true"
                         dataKey="id"
@@ -80,36 +96,42 @@ import { BasePageComponent, BasePageTemplateComponent } from '@/shared/component
                                 <h5 class="m-0 font-semibold text-xl">Gestión de Conceptos</h5>
                                 <p-iconfield class="w-full md:w-auto">
                                     <p-inputicon styleClass="pi pi-search" />
-                                    <input pInputText type="text" [(ngModel)]="searchTerm" (input)="onSearchChange($event)" placeholder="Buscar conceptos..." class="w-full" />
+                                    <input pInputText type="text" [value]="tableState.state().search" (input)="onSearchChange($event)" placeholder="Buscar conceptos..." class="w-full" />
                                 </p-iconfield>
                             </div>
                         </ng-template>
 
-                        <ng-template #header>
+                        <ng-template #header let-columns>
                             <tr>
-                                <th pSortableColumn="nombre" style="min-width:15rem; padding: 1rem">
-                                    Nombre
-                                    <p-sortIcon field="nombre" />
-                                </th>
-                                <th pSortableColumn="categoriaId" style="min-width:12rem">
-                                    Categoría
-                                    <p-sortIcon field="categoriaId" />
-                                </th>
+                                @for (columna of columns; track columna.campo) {
+                                    <th [pSortableColumn]="columna.campo" [pSortableColumnDisabled]="columna.ordenable === false" pReorderableColumn pResizableColumn [attr.data-campo]="columna.campo" [ngStyle]="columnas.estilo(columna)">
+                                        {{ columna.cabecera }}
+                                        @if (columna.ordenable !== false) {
+                                            <p-sortIcon [field]="columna.campo" />
+                                        }
+                                    </th>
+                                }
                                 <th style="min-width:10rem">Acciones</th>
                             </tr>
                         </ng-template>
 
-                        <ng-template #body let-concepto>
+                        <ng-template #body let-concepto let-columns="columns">
                             <tr>
-                                <td style="padding: 1rem">
-                                    <div class="flex items-center gap-2">
-                                        <i class="pi pi-bookmark text-primary"></i>
-                                        <span class="font-semibold">{{ concepto.nombre }}</span>
-                                    </div>
-                                </td>
-                                <td>
-                                    <span class="text-gray-600">{{ getCategoriaName(concepto.categoriaId) }}</span>
-                                </td>
+                                @for (columna of columns; track columna.campo) {
+                                    <td>
+                                        @switch (columna.campo) {
+                                            @case ('nombre') {
+                                                <div class="flex items-center gap-2">
+                                                    <i class="pi pi-bookmark text-primary"></i>
+                                                    <span class="font-semibold">{{ concepto.nombre }}</span>
+                                                </div>
+                                            }
+                                            @case ('categoriaId') {
+                                                <span class="text-gray-600">{{ getCategoriaName(concepto.categoriaId) }}</span>
+                                            }
+                                        }
+                                    </td>
+                                }
                                 <td>
                                     <p-button icon="pi pi-pencil" class="mr-2" [rounded]="true" [outlined]="true" (click)="editConcepto(concepto)" />
                                     <p-button icon="pi pi-trash" severity="danger" [rounded]="true" [outlined]="true" (click)="deleteConcepto(concepto)" />
@@ -117,13 +139,15 @@ import { BasePageComponent, BasePageTemplateComponent } from '@/shared/component
                             </tr>
                         </ng-template>
 
-                        <ng-template #loadingbody>
+                        <ng-template #loadingbody let-columns="columns">
                             <tr>
-                                <td style="padding: 1rem"><p-skeleton width="80%" /></td>
-                                <td><p-skeleton width="70%" /></td>
+                                @for (columna of columns; track columna.campo) {
+                                    <td><p-skeleton width="70%" /></td>
+                                }
                                 <td>
                                     <div class="flex gap-2">
                                         <p-skeleton shape="circle" size="2.5rem" />
+                                        <p-skeleton shape="circle" size="2.5rem" />
                                     </div>
                                 </td>
                             </tr>
@@ -131,7 +155,7 @@ import { BasePageComponent, BasePageTemplateComponent } from '@/shared/component
 
                         <ng-template #emptymessage>
                             <tr>
-                                <td colspan="8" style="padding: 2rem">
+                                <td [attr.colspan]="columnas.visibles().length + 1" style="padding: 2rem">
                                     <div class="text-center py-8">
                                         <i class="pi pi-inbox text-500 text-5xl mb-3"></i>
                                         <p class="text-900 font-semibold text-xl mb-2">No hay conceptos</p>
@@ -163,18 +187,22 @@ export class ConceptosListPage extends BasePageComponent {
     private searchSubject = new Subject<string>();
     private categoriasMap = new Map<string, string>();
 
-    pageSize: number = 10;
-    pageNumber: number = 1;
-    searchTerm: string = '';
-    sortColumn: string = 'nombre';
-    sortOrder: string = 'asc';
+    // Paginación, orden y búsqueda sincronizados con la URL
+    tableState = injectTableUrlState('conceptos', { sortColumn: 'nombre', sortOrder: 'asc' });
+
+    // Columnas visibles, orden, anchos y densidad de la tabla
+    columnas = injectTableColumns('conceptos', COLUMNAS_CONCEPTOS, { anchoFijo: 10 });
 
     constructor() {
         super();
         this.searchSubject.pipe(debounceTime(500), distinctUntilChanged()).subscribe((searchValue) => {
-            this.searchTerm = searchValue;
-            this.pageNumber = 1;
-            this.reloadConceptos();
+            this.tableState.setSearch(searchValue);
+        });
+
+        // Recargar cada vez que cambia el estado de la tabla en la URL (incluye atrás/adelante)
+        effect(() => {
+            this.tableState.state();
+            untracked(() => this.reloadConceptos());
         });
     }
 
@@ -182,16 +210,8 @@ export class ConceptosListPage extends BasePageComponent {
         return this.categoriasMap.get(categoriaId) || 'Sin categoría';
     }
 
-    onLazyLoad(event: any) {
-        this.pageNumber = event.first / event.rows + 1;
-        this.pageSize = event.rows;
-
-        if (event.sortField) {
-            this.sortColumn = event.sortField;
-            this.sortOrder = event.sortOrder === 1 ? 'asc' : 'desc';
-        }
-
-        this.reloadConceptos();
+    onLazyLoad(event: TableLazyLoadEvent) {
+        this.tableState.onLazyLoad(event);
     }
 
     onSearchChange(event: Event) {
@@ -200,12 +220,13 @@ export class ConceptosListPage extends BasePageComponent {
     }
 
     private reloadConceptos() {
+        const { page, pageSize, search, sortColumn, sortOrder } = this.tableState.state();
         this.conceptoStore.loadConceptosPaginated({
-            page: this.pageNumber,
-            pageSize: this.pageSize,
-            searchTerm: this.searchTerm || undefined,
-            sortColumn: this.sortColumn || undefined,
-            sortOrder: this.sortOrder || undefined
+            page,
+            pageSize,
+            searchTerm: search || undefined,
+            sortColumn,
+            sortOrder
         });
     }
 
@@ -214,8 +235,6 @@ export class ConceptosListPage extends BasePageComponent {
     }
 
     refreshTable() {
-        this.pageNumber = 1;
-        this.searchTerm = '';
         this.reloadConceptos();
         this.showInfo('Datos actualizados', 'Actualización');
     }
@@ -256,17 +275,6 @@ export class ConceptosListPage extends BasePageComponent {
     }
 
     deleteConcepto(concepto: Concepto) {
-        this.confirmAction(
-            `¿Estás seguro de eliminar el concepto "${concepto.nombre}"?`,
-            () => {
-                this.conceptoStore.deleteConcepto(concepto.id);
-            },
-            {
-                header: 'Confirmar eliminación',
-                acceptLabel: 'Sí, eliminar',
-                rejectLabel: 'Cancelar',
-                successMessage: 'Concepto eliminado correctamente'
-            }
-        );
+        this.conceptoStore.deleteConcepto(concepto.id);
     }
 }
@@ -6,7 +6,7 @@ import { tap, switchMap } from 'rxjs/operators';
 import { tapResponse } from '@ngrx/operators';
 import { ConceptoService } from '@/core/services/api/concepto.service';
 import { Concepto } from '@/core/models/concepto.model';
-import { ErrorResponse } from '@/core/models/error-response.model';
+import { UndoStore, edicionConDeshacer, eliminarConDeshacer, paginaSinBorrados } from '@/core/stores/undo.store';
 
 interface ConceptoState {
     conceptos: Concepto[];
@@ -44,7 +44,7 @@ export const ConceptoStore = signalStore(
         isSyncing: computed(() => store.loading() && store.hasData())
     })),
     
-    withMethods((store, conceptoService = inject(ConceptoService)) => ({
+    withMethods((store, conceptoService = inject(ConceptoService), undoStore = inject(UndoStore)) => ({
         async search(query: string, limit: number = 10, categoriaId?: string): Promise<Concepto[]> {
             const cacheKey = `${query}_${limit}_${categoriaId || ''}`;
             const cached = store.searchCache().get(cacheKey);
@@ -132,9 +132,10 @@ export const ConceptoStore = signalStore(
                     conceptoService.getConceptos(page, pageSize, searchTerm, sortColumn, sortOrder).pipe(
                         tapResponse({
                             next: (response) => {
+                                const pagina = paginaSinBorrados(undoStore, response);
                                 patchState(store, {
-                                    conceptos: response.items,
-                                    totalRecords: response.totalCount,
+                                    conceptos: pagina.items,
+                                    totalRecords: pagina.totalCount,
                                     loading: false,
                                     error: null,
                                     lastUpdated: Date.now(),
@@ -174,6 +175,9 @@ export const ConceptoStore = signalStore(
                         lastUpdated: Date.now(),
                         searchCache: new Map()
                     });
+                    if (conceptoAnterior) {
+                        edicionConDeshacer(undoStore, store, 'conceptos', conceptoAnterior, { mensaje: 'Concepto actualizado', revertir: (anterior) => conceptoService.update(id, anterior) });
+                    }
                     return response.value;
                 }
                 throw new Error(response.error?.message || 'Error al actualizar concepto');
@@ -196,44 +200,13 @@ export const ConceptoStore = signalStore(
             }
         },
 
-        deleteConcepto: rxMethod<string>(
-            pipe(
-                switchMap((id) => {
-                    // Guardar concepto para rollback ANTES de eliminarlo
-                    const conceptoEliminado = store.conceptos().find(c => c.id === id);
-                    const totalAnterior = store.totalRecords();
-                    
-                    // Actualización optimista: eliminar inmediatamente
-                    patchState(store, (state) => ({
-                        conceptos: state.conceptos.filter((c) => c.id !== id),
-                        totalRecords: state.totalRecords - 1,
-                        searchCache: new Map()
-                    }));
-                    
-                    return conceptoService.delete(id).pipe(
-                        tapResponse({
-                            next: () => {
-                                patchState(store, { lastUpdated: Date.now() });
-                            },
-                            error: (err: ErrorResponse) => {
-                                console.error('[STORE] Error al eliminar concepto:', err);
-                                
-                                // ROLLBACK: Restaurar concepto eliminado
-                                if (conceptoEliminado) {
-                                    patchState(store, (state) => ({
-                                        conceptos: [...state.conceptos, conceptoEliminado].sort((a, b) => a.nombre.localeCompare(b.nombre)),
-                                        totalRecords: totalAnterior,
-                                        error: err.detail || 'Error al eliminar concepto'
-                                    }));
-                                } else {
-                                    patchState(store, { error: err.detail || 'Error al eliminar concepto' });
-                                }
-                            }
-                        })
-                    );
-                })
-            )
-        ),
+        deleteConcepto(id: string): void {
+            eliminarConDeshacer(undoStore, store, 'conceptos', id, {
+                mensaje: 'Concepto eliminado',
+                eliminar: () => conceptoService.delete(id),
+                alEliminar: () => patchState(store, { lastUpdated: Date.now(), searchCache: new Map() })
+            });
+        },
 
         async getRecent(limit: number = 5, categoriaId?: string): Promise<Concepto[]> {
             patchState(store, { loading: true });
@@ -5,8 +5,12 @@ import { DialogModule } from 'primeng/dialog';
 import { ButtonModule } from 'primeng/button';
 import { InputTextModule } from 'primeng/inputtext';
 import { InputNumberModule } from 'primeng/inputnumber';
+import { SelectModule } from 'primeng/select';
 import { MessageService } from 'primeng/api';
 import { Cuenta } from '@/core/models/cuenta.model';
+import { MONEDAS } from '@/core/models/moneda.model';
+import { MonedaStore } from '@/core/stores/moneda.store';
+import { ImportePipe } from '@/shared/pipes/importe.pipe';
 
 @Component({
     selector: 'app-cuenta-form-modal',
@@ -17,7 +21,9 @@ import { Cuenta } from '@/core/models/cuenta.model';
         DialogModule,
         ButtonModule,
         InputTextModule,
-        InputNumberModule
+        InputNumberModule,
+        SelectModule,
+        ImportePipe
     ],
     changeDetection: ChangeDetectionStrategy.OnPush,
     template: `
@@ -47,6 +53,17 @@ import { Cuenta } from '@/core/models/cuenta.model';
                         }
                     </div>
 
+                    <div>
+                        <label for="moneda" class="block font-bold mb-3">Moneda</label>
+                        <p-select inputId="moneda" [(ngModel)]="formData.moneda" [options]="monedas" optionValue="codigo" [disabled]="isEditMode()" appendTo="body" fluid>
+                            <ng-template #selectedItem let-moneda>{{ moneda.codigo }} · {{ moneda.nombre }}</ng-template>
+                            <ng-template #item let-moneda>{{ moneda.codigo }} · {{ moneda.nombre }}</ng-template>
+                        </p-select>
+                        @if (isEditMode()) {
+                            <small class="text-500">La moneda no se puede cambiar una vez creada la cuenta.</small>
+                        }
+                    </div>
+
                     @if (!isEditMode()) {
                         <div>
                             <label for="saldo" class="block font-bold mb-3">Saldo Inicial</label>
@@ -54,9 +71,9 @@ import { Cuenta } from '@/core/models/cuenta.model';
                                 id="saldo"
                                 [(ngModel)]="formData.saldo" 
                                 mode="currency" 
-                                currency="EUR" 
+                                [currency]="formData.moneda || monedaStore.monedaBase()" 
                                 locale="es-ES"
-                                placeholder="0,00 €"
+                                [placeholder]="0 | importe: formData.moneda"
                                 [minFractionDigits]="2"
                                 [maxFractionDigits]="2" 
                                 fluid />
@@ -77,6 +94,7 @@ import { Cuenta } from '@/core/models/cuenta.model';
 })
 export class CuentaFormModalComponent {
     private messageService = inject(MessageService);
+    monedaStore = inject(MonedaStore);
 
     // Inputs/Outputs
     visible = input<boolean>(false);
@@ -92,6 +110,8 @@ export class CuentaFormModalComponent {
     isVisible = false;
     isEditMode = signal(false);
 
+    monedas = MONEDAS;
+
     constructor() {
         // Sincronizar visible con isVisible interno
         effect(() => {
@@ -119,6 +139,7 @@ export class CuentaFormModalComponent {
             this.isEditMode.set(false);
             this.formData = {
                 nombre: '',
+                moneda: this.monedaStore.monedaBase()
             };
         }
 
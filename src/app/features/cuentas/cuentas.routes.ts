@@ -4,5 +4,13 @@ export default [
     {
         path: '',
         loadComponent: () => import('./pages/cuentas-list.page').then(m => m.CuentasListPage)
+    },
+    {
+        path: ':id',
+        loadComponent: () => import('./pages/cuenta-detalle.page').then(m => m.CuentaDetallePage)
+    },
+    {
+        path: ':id/conciliar',
+        loadComponent: () => import('./pages/conciliacion.page').then(m => m.ConciliacionPage)
     }
 ] as Routes;
@@ -0,0 +1,278 @@
+import { Component, computed, inject, signal, ChangeDetectionStrategy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ActivatedRoute, RouterModule } from '@angular/router';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { MessageService, ConfirmationService } from 'primeng/api';
+import { ButtonModule } from 'primeng/button';
+import { CheckboxModule } from 'primeng/checkbox';
+import { DatePickerModule } from 'primeng/datepicker';
+import { InputNumberModule } from 'primeng/inputnumber';
+import { MessageModule } from 'primeng/message';
+import { TableModule } from 'primeng/table';
+import { TagModule } from 'primeng/tag';
+import { ToastModule } from 'primeng/toast';
+import { TooltipModule } from 'primeng/tooltip';
+import { ConAdjuntos } from '@/core/models/adjunto.model';
+import { Gasto, GastoCreate } from '@/core/models/gasto.model';
+import { Ingreso, IngresoCreate } from '@/core/models/ingreso.model';
+import { MovimientoCuenta } from '@/core/models/cuenta.model';
+import { ConciliacionStore } from '../store/conciliacion.store';
+import { GastosStore } from '@/features/gastos/stores/gastos.store';
+import { IngresosStore } from '@/features/ingresos/stores/ingresos.store';
+import { GastoFormModalComponent } from '@/features/gastos/components/gasto-form-modal.component';
+import { IngresoFormModalComponent } from '@/features/ingresos/components/ingreso-form-modal.component';
+import { BasePageComponent, BasePageTemplateComponent } from '@/shared/components';
+import { ImportePipe } from '@/shared/pipes/importe.pipe';
+import { fromFechaIso, toFechaIso } from '@/shared/utils/movimiento-filters.util';
+import { TIPOS_MOVIMIENTO_CUENTA } from '@/shared/utils/movimientos-cuenta.util';
+
+const DESCRIPCION_AJUSTE = 'Ajuste de conciliación';
+
+/**
+ * Conciliación de una cuenta con el extracto del banco
+ * Se marcan los movimientos que aparecen en el extracto hasta que el saldo cuadra; si no cuadra, se crea un ajuste
+ */
+@Component({
+    selector: 'app-conciliacion-page',
+    standalone: true,
+    imports: [
+        CommonModule,
+        FormsModule,
+        RouterModule,
+        ButtonModule,
+        CheckboxModule,
+        DatePickerModule,
+        InputNumberModule,
+        MessageModule,
+        TableModule,
+        TagModule,
+        ToastModule,
+        TooltipModule,
+        BasePageTemplateComponent,
+        GastoFormModalComponent,
+        IngresoFormModalComponent,
+        ImportePipe
+    ],
+    providers: [MessageService, ConfirmationService],
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    template: `
+        <app-base-page-template [loading]="store.loading()" [skeletonType]="'table'">
+            <div class="card surface-ground px-4 py-5 md:px-6 lg:px-8">
+                <div class="surface-card shadow-2 border-round p-6 flex flex-col gap-6">
+                    <div class="flex flex-wrap items-center gap-3">
+                        <p-button icon="pi pi-arrow-left" [text]="true" [rounded]="true" severity="secondary" routerLink="/cuentas" pTooltip="Volver a cuentas" />
+                        <div class="flex-1">
+                            <h5 class="m-0 font-semibold text-xl">Conciliar {{ store.cuenta()?.nombre }}</h5>
+                            <small class="text-500">
+                                @if (store.ultima(); as ultima) {
+                                    Última conciliación: {{ ultima.fecha | date: 'dd/MM/yyyy' }} con {{ ultima.saldoBanco | importe: moneda() }}
+                                } @else {
+                                    Primera conciliación de la cuenta
+                                }
+                            </small>
+                        </div>
+                        <span class="text-500">Saldo en la aplicación: <span class="font-semibold text-900">{{ store.cuenta()?.saldo ?? 0 | importe: moneda() }}</span></span>
+                    </div>
+
+                    @if (store.error(); as error) {
+                        <p-message severity="error" [text]="error" />
+                    }
+
+                    <div class="flex flex-wrap items-end gap-4">
+                        <div class="flex flex-col gap-2">
+                            <label for="fechaExtracto" class="font-medium text-900">Fecha del extracto</label>
+                            <p-datePicker inputId="fechaExtracto" [ngModel]="fecha()" (ngModelChange)="$event && store.setFecha(toFechaIso($event))" dateFormat="dd/mm/yy" [showIcon]="true" appendTo="body" />
+                        </div>
+                        <div class="flex flex-col gap-2">
+                            <label for="saldoBanco" class="font-medium text-900">Saldo en el banco</label>
+                            <p-inputNumber inputId="saldoBanco" [ngModel]="store.saldoBanco()" (ngModelChange)="store.setSaldoBanco($event)" mode="currency" [currency]="moneda()" locale="es-ES" placeholder="0,00" />
+                        </div>
+                    </div>
+
+                    <div class="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        <div class="flex flex-col gap-1">
+                            <span class="text-500 text-sm">Saldo de partida</span>
+                            <span class="font-semibold text-lg">{{ store.saldoInicial() | importe: moneda() }}</span>
+                        </div>
+                        <div class="flex flex-col gap-1">
+                            <span class="text-500 text-sm">Marcados ({{ store.movimientosMarcados().length }})</span>
+                            <span class="font-semibold text-lg">{{ store.resumen().saldoConciliado - store.saldoInicial() | importe: moneda() }}</span>
+                        </div>
+                        <div class="flex flex-col gap-1">
+                            <span class="text-500 text-sm">Saldo conciliado</span>
+                            <span class="font-semibold text-lg">{{ store.resumen().saldoConciliado | importe: moneda() }}</span>
+                        </div>
+                        <div class="flex flex-col gap-1">
+                            <span class="text-500 text-sm">Diferencia con el banco</span>
+                            @if (store.saldoBanco() === null) {
+                                <span class="text-500 text-lg">-</span>
+                            } @else {
+                                <span class="font-bold text-lg" [class]="store.cuadra() ? 'text-green-600' : 'text-red-600'">{{ store.resumen().diferencia | importe: moneda() }}</span>
+                            }
+                        </div>
+                    </div>
+
+                    <div class="flex flex-wrap justify-end gap-2">
+                        @if (store.saldoBanco() !== null && !store.cuadra()) {
+                            <p-button label="Crear ajuste" icon="pi pi-plus" [outlined]="true" pTooltip="Crea un movimiento por la diferencia y lo marca" (onClick)="crearAjuste()" />
+                        }
+                        <p-button label="Conciliar" icon="pi pi-lock" [disabled]="!store.cuadra()" [loading]="store.saving()" [pTooltip]="store.cuadra() ? 'Los movimientos marcados no se podrán editar desde los listados' : 'El saldo conciliado tiene que coincidir con el del banco'" (onClick)="conciliar()" />
+                    </div>
+
+                    <p-table [value]="store.movimientos()" [loading]="store.loading()" size="small" [rowHover]="true" [scrollable]="true" scrollHeight="28rem">
+                        <ng-template #header>
+                            <tr>
+                                <th style="width: 3rem">
+                                    <p-checkbox [binary]="true" [ngModel]="todosMarcados()" (ngModelChange)="store.marcarTodos($event)" [disabled]="store.movimientos().length === 0" />
+                                </th>
+                                <th>Fecha</th>
+                                <th>Tipo</th>
+                                <th>Descripción</th>
+                                <th class="text-right">Importe</th>
+                            </tr>
+                        </ng-template>
+                        <ng-template #body let-movimiento>
+                            <tr class="cursor-pointer" (click)="store.alternar(movimiento)">
+                                <td>
+                                    <p-checkbox [binary]="true" [ngModel]="store.estaMarcado(movimiento)" (click)="$event.stopPropagation()" (ngModelChange)="store.alternar(movimiento)" />
+                                </td>
+                                <td>{{ movimiento.fecha | date: 'dd/MM/yyyy' }}</td>
+                                <td><p-tag [severity]="tipo(movimiento).severity" [value]="tipo(movimiento).etiqueta" /></td>
+                                <td>{{ movimiento.descripcion }}</td>
+                                <td class="text-right font-semibold" [class]="movimiento.importe < 0 ? 'text-red-500' : 'text-green-600'">{{ movimiento.importe | importe: moneda() }}</td>
+                            </tr>
+                        </ng-template>
+                        <ng-template #emptymessage>
+                            <tr>
+                                <td colspan="5" class="text-center text-500 py-6">No hay movimientos sin conciliar hasta esta fecha</td>
+                            </tr>
+                        </ng-template>
+                    </p-table>
+                </div>
+            </div>
+
+            <app-gasto-form-modal [visible]="ajusteGasto() !== null" [gasto]="ajusteGasto()" (visibleChange)="!$event && ajusteGasto.set(null)" (save)="guardarAjusteGasto($event)" (cancel)="ajusteGasto.set(null)" />
+            <app-ingreso-form-modal [visible]="ajusteIngreso() !== null" [ingreso]="ajusteIngreso()" (visibleChange)="!$event && ajusteIngreso.set(null)" (save)="guardarAjusteIngreso($event)" (cancel)="ajusteIngreso.set(null)" />
+        </app-base-page-template>
+    `
+})
+export class ConciliacionPage extends BasePageComponent {
+    readonly toFechaIso = toFechaIso;
+
+    store = inject(ConciliacionStore);
+    private gastosStore = inject(GastosStore);
+    private ingresosStore = inject(IngresosStore);
+    private route = inject(ActivatedRoute);
+
+    protected override loadingSignal = this.store.loading;
+    protected override skeletonType = 'table' as const;
+
+    // Movimiento de ajuste que se está completando en el formulario
+    ajusteGasto = signal<Partial<Gasto> | null>(null);
+    ajusteIngreso = signal<Partial<Ingreso> | null>(null);
+
+    moneda = computed(() => this.store.cuenta()?.moneda);
+    fecha = computed(() => fromFechaIso(this.store.fecha()));
+    todosMarcados = computed(() => this.store.movimientos().length > 0 && this.store.movimientosMarcados().length === this.store.movimientos().length);
+
+    constructor() {
+        super();
+        this.route.paramMap.pipe(takeUntilDestroyed()).subscribe((params) => {
+            const id = params.get('id');
+            if (id) this.store.cargar(id);
+        });
+    }
+
+    tipo(movimiento: MovimientoCuenta) {
+        return TIPOS_MOVIMIENTO_CUENTA[movimiento.tipo];
+    }
+
+    /**
+     * Abre un gasto (el banco tiene menos) o un ingreso (tiene más) por la diferencia, con fecha del extracto
+     */
+    crearAjuste() {
+        const cuenta = this.store.cuenta();
+        const { diferencia } = this.store.resumen();
+        if (!cuenta || diferencia === 0) return;
+
+        const ajuste = {
+            importe: Math.abs(diferencia),
+            fecha: this.store.fecha(),
+            cuentaId: cuenta.id,
+            cuentaNombre: cuenta.nombre,
+            moneda: cuenta.moneda,
+            descripcion: DESCRIPCION_AJUSTE
+        };
+
+        if (diferencia < 0) {
+            this.ajusteGasto.set(ajuste);
+        } else {
+            this.ajusteIngreso.set(ajuste);
+        }
+    }
+
+    async guardarAjusteGasto({ cambiosAdjuntos, ...gasto }: ConAdjuntos<Partial<Gasto>>) {
+        const gastoCreate: GastoCreate = {
+            conceptoId: gasto.conceptoId!,
+            categoriaId: gasto.categoriaId!,
+            proveedorId: gasto.proveedorId!,
+            fecha: gasto.fecha!,
+            importe: gasto.importe!,
+            descripcion: gasto.descripcion,
+            formaPagoId: gasto.formaPagoId!,
+            personaId: gasto.personaId!,
+            cuentaId: gasto.cuentaId!
+        };
+
+        try {
+            const id = await this.gastosStore.createGasto(gastoCreate, gasto);
+            if (cambiosAdjuntos) await this.gastosStore.syncAdjuntos(id, cambiosAdjuntos);
+            this.ajusteGasto.set(null);
+            await this.store.recargarPendientes({ tipo: 'gasto', id });
+            this.showSuccess('Ajuste creado y marcado');
+        } catch (error: any) {
+            this.showError(error.userMessage || error.message || 'Error al crear el ajuste');
+        }
+    }
+
+    async guardarAjusteIngreso({ cambiosAdjuntos, ...ingreso }: ConAdjuntos<Partial<Ingreso>>) {
+        const ingresoCreate: IngresoCreate = {
+            conceptoId: ingreso.conceptoId!,
+            categoriaId: ingreso.categoriaId!,
+            clienteId: ingreso.clienteId!,
+            fecha: ingreso.fecha!,
+            importe: ingreso.importe!,
+            descripcion: ingreso.descripcion,
+            formaPagoId: ingreso.formaPagoId!,
+            personaId: ingreso.personaId!,
+            cuentaId: ingreso.cuentaId!
+        };
+
+        try {
+            const id = await this.ingresosStore.createIngreso(ingresoCreate, ingreso);
+            if (cambiosAdjuntos) await this.ingresosStore.syncAdjuntos(id, cambiosAdjuntos);
+            this.ajusteIngreso.set(null);
+            await this.store.recargarPendientes({ tipo: 'ingreso', id });
+            this.showSuccess('Ajuste creado y marcado');
+        } catch (error: any) {
+            this.showError(error.userMessage || error.message || 'Error al crear el ajuste');
+        }
+    }
+
+    conciliar() {
+        const marcados = this.store.movimientosMarcados().length;
+        this.confirmAction(
+            `Se marcarán ${marcados === 1 ? '1 movimiento' : `${marcados} movimientos`} como conciliados y no se podrán editar desde los listados. ¿Continuar?`,
+            async () => {
+                try {
+                    await this.store.conciliar();
+                    this.showSuccess('Cuenta conciliada');
+                } catch (error: any) {
+                    this.showError(error.userMessage || error.message || 'Error al conciliar la cuenta');
+                }
+            },
+            { header: 'Conciliar', acceptLabel: 'Conciliar', rejectLabel: 'Cancelar' }
+        );
+    }
+}
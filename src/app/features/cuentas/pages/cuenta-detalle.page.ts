@@ -0,0 +1,335 @@
+import { Component, computed, inject, signal, ChangeDetectionStrategy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ActivatedRoute, RouterModule } from '@angular/router';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { MessageService, ConfirmationService } from 'primeng/api';
+import { ButtonModule } from 'primeng/button';
+import { ChartModule } from 'primeng/chart';
+import { DatePickerModule } from 'primeng/datepicker';
+import { MessageModule } from 'primeng/message';
+import { SelectModule } from 'primeng/select';
+import { TableModule } from 'primeng/table';
+import { TagModule } from 'primeng/tag';
+import { ToolbarModule } from 'primeng/toolbar';
+import { TooltipModule } from 'primeng/tooltip';
+import { ConAdjuntos } from '@/core/models/adjunto.model';
+import { MovimientoCuenta } from '@/core/models/cuenta.model';
+import { MONEDA_POR_DEFECTO } from '@/core/models/moneda.model';
+import { Gasto, GastoCreate } from '@/core/models/gasto.model';
+import { Ingreso, IngresoCreate } from '@/core/models/ingreso.model';
+import { Traspaso, TraspasoCreate } from '@/core/models/traspaso.model';
+import { PresetFecha } from '@/core/models/movimiento-filters.model';
+import { CuentaDetalleStore } from '../store/cuenta-detalle.store';
+import { GastosStore } from '@/features/gastos/stores/gastos.store';
+import { IngresosStore } from '@/features/ingresos/stores/ingresos.store';
+import { TraspasosStore } from '@/features/traspasos/stores/traspasos.store';
+import { GastoFormModalComponent } from '@/features/gastos/components/gasto-form-modal.component';
+import { IngresoFormModalComponent } from '@/features/ingresos/components/ingreso-form-modal.component';
+import { TraspasoFormModalComponent } from '@/features/traspasos/components/traspaso-form-modal.component';
+import { BasePageComponent, BasePageTemplateComponent } from '@/shared/components';
+import { ImportePipe } from '@/shared/pipes/importe.pipe';
+import { formatearImporte } from '@/shared/utils/monedas.util';
+import { PRESETS_FECHA, fromFechaIso, rangoPreset, toFechaIso } from '@/shared/utils/movimiento-filters.util';
+import { TIPOS_MOVIMIENTO_CUENTA } from '@/shared/utils/movimientos-cuenta.util';
+
+/**
+ * Libro de una cuenta: gastos, ingresos y traspasos en orden cronológico con el saldo que deja cada uno
+ * Los movimientos nuevos que se crean desde aquí llevan la cuenta ya puesta
+ */
+@Component({
+    selector: 'app-cuenta-detalle-page',
+    standalone: true,
+    imports: [
+        CommonModule,
+        FormsModule,
+        RouterModule,
+        ButtonModule,
+        ChartModule,
+        DatePickerModule,
+        MessageModule,
+        SelectModule,
+        TableModule,
+        TagModule,
+        ToolbarModule,
+        TooltipModule,
+        BasePageTemplateComponent,
+        GastoFormModalComponent,
+        IngresoFormModalComponent,
+        TraspasoFormModalComponent,
+        ImportePipe
+    ],
+    providers: [MessageService, ConfirmationService],
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    template: `
+        <app-base-page-template [loading]="store.loading() && !store.cuenta()" [skeletonType]="'table'">
+            <div class="card surface-ground px-4 py-5 md:px-6 lg:px-8">
+                <div class="surface-card shadow-2 border-round p-6 flex flex-col gap-6">
+                    <div class="flex flex-wrap items-center gap-3">
+                        <p-button icon="pi pi-arrow-left" [text]="true" [rounded]="true" severity="secondary" routerLink="/cuentas" pTooltip="Volver a cuentas" />
+                        <div class="flex-1">
+                            <h5 class="m-0 font-semibold text-xl">{{ store.cuenta()?.nombre }}</h5>
+                            <small class="text-500">Saldo actual: {{ store.cuenta()?.saldo ?? 0 | importe: moneda() }}</small>
+                        </div>
+                    </div>
+
+                    <p-toolbar styleClass="gap-2">
+                        <ng-template #start>
+                            <div class="flex flex-wrap gap-2">
+                                <p-button label="Gasto" icon="pi pi-minus" severity="danger" [outlined]="true" (onClick)="nuevoGasto()" />
+                                <p-button label="Ingreso" icon="pi pi-plus" severity="success" [outlined]="true" (onClick)="nuevoIngreso()" />
+                                <p-button label="Traspaso" icon="pi pi-arrow-right-arrow-left" severity="info" [outlined]="true" (onClick)="nuevoTraspaso()" />
+                                <p-button label="Conciliar" icon="pi pi-check-square" severity="secondary" [outlined]="true" routerLink="conciliar" />
+                            </div>
+                        </ng-template>
+                        <ng-template #end>
+                            <div class="flex flex-wrap gap-2">
+                                <p-select [options]="presets" [ngModel]="preset()" (ngModelChange)="elegirPreset($event)" optionLabel="label" optionValue="value" placeholder="Personalizado" styleClass="w-44" />
+                                <p-datePicker [ngModel]="rango()" (ngModelChange)="elegirRango($event)" selectionMode="range" dateFormat="dd/mm/yy" [showIcon]="true" [readonlyInput]="true" appendTo="body" />
+                            </div>
+                        </ng-template>
+                    </p-toolbar>
+
+                    @if (store.error(); as error) {
+                        <p-message severity="error" [text]="error" />
+                    }
+
+                    <div class="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        <div class="flex flex-col gap-1">
+                            <span class="text-500 text-sm">Saldo inicial</span>
+                            <span class="font-semibold text-lg">{{ store.saldoInicial() | importe: moneda() }}</span>
+                        </div>
+                        <div class="flex flex-col gap-1">
+                            <span class="text-500 text-sm">Entradas</span>
+                            <span class="font-semibold text-lg text-green-600">{{ store.entradas() | importe: moneda() }}</span>
+                        </div>
+                        <div class="flex flex-col gap-1">
+                            <span class="text-500 text-sm">Salidas</span>
+                            <span class="font-semibold text-lg text-red-600">{{ store.salidas() | importe: moneda() }}</span>
+                        </div>
+                        <div class="flex flex-col gap-1">
+                            <span class="text-500 text-sm">Saldo final</span>
+                            <span class="font-bold text-lg">{{ store.saldoFinal() | importe: moneda() }}</span>
+                        </div>
+                    </div>
+
+                    @if (store.apuntesPeriodo().length > 0) {
+                        <div class="w-full relative" style="height: 16rem">
+                            <p-chart type="line" [data]="chartData()" [options]="chartOptions" styleClass="w-full h-full" />
+                        </div>
+                    }
+
+                    <p-table [value]="store.apuntesPeriodo()" [loading]="store.loading()" [paginator]="store.apuntesPeriodo().length > 25" [rows]="25" size="small" [rowHover]="true" styleClass="p-datatable-gridlines">
+                        <ng-template #header>
+                            <tr>
+                                <th>Fecha</th>
+                                <th>Tipo</th>
+                                <th>Descripción</th>
+                                <th class="text-right">Importe</th>
+                                <th class="text-right">Saldo</th>
+                            </tr>
+                        </ng-template>
+                        <ng-template #body let-apunte>
+                            <tr>
+                                <td>{{ apunte.fecha | date: 'dd/MM/yyyy' }}</td>
+                                <td><p-tag [severity]="tipo(apunte).severity" [value]="tipo(apunte).etiqueta" /></td>
+                                <td>
+                                    {{ apunte.descripcion }}
+                                    @if (apunte.conciliado) {
+                                        <i class="pi pi-lock text-500 ml-2" pTooltip="Conciliado con el banco"></i>
+                                    }
+                                </td>
+                                <td class="text-right font-semibold" [class]="apunte.importe < 0 ? 'text-red-500' : 'text-green-600'">{{ apunte.importe | importe: moneda() }}</td>
+                                <td class="text-right font-semibold">{{ apunte.saldo | importe: moneda() }}</td>
+                            </tr>
+                        </ng-template>
+                        <ng-template #emptymessage>
+                            <tr>
+                                <td colspan="5" class="text-center text-500 py-6">No hay movimientos en este periodo</td>
+                            </tr>
+                        </ng-template>
+                    </p-table>
+                </div>
+            </div>
+
+            <app-gasto-form-modal [visible]="nuevoGastoDe() !== null" [gasto]="nuevoGastoDe()" (visibleChange)="!$event && nuevoGastoDe.set(null)" (save)="guardarGasto($event)" (cancel)="nuevoGastoDe.set(null)" />
+            <app-ingreso-form-modal [visible]="nuevoIngresoDe() !== null" [ingreso]="nuevoIngresoDe()" (visibleChange)="!$event && nuevoIngresoDe.set(null)" (save)="guardarIngreso($event)" (cancel)="nuevoIngresoDe.set(null)" />
+            <app-traspaso-form-modal [visible]="nuevoTraspasoDe() !== null" [traspaso]="nuevoTraspasoDe()" (visibleChange)="!$event && nuevoTraspasoDe.set(null)" (save)="guardarTraspaso($event)" (cancel)="nuevoTraspasoDe.set(null)" />
+        </app-base-page-template>
+    `
+})
+export class CuentaDetallePage extends BasePageComponent {
+    readonly presets = PRESETS_FECHA;
+
+    store = inject(CuentaDetalleStore);
+    private gastosStore = inject(GastosStore);
+    private ingresosStore = inject(IngresosStore);
+    private traspasosStore = inject(TraspasosStore);
+    private route = inject(ActivatedRoute);
+
+    protected override loadingSignal = this.store.loading;
+    protected override skeletonType = 'table' as const;
+
+    // Movimiento nuevo que se está completando en el formulario
+    nuevoGastoDe = signal<Partial<Gasto> | null>(null);
+    nuevoIngresoDe = signal<Partial<Ingreso> | null>(null);
+    nuevoTraspasoDe = signal<Partial<Traspaso> | null>(null);
+
+    // null cuando el rango se ha elegido a mano
+    preset = signal<PresetFecha | null>('este-mes');
+
+    moneda = computed(() => this.store.cuenta()?.moneda);
+    rango = computed(() => [fromFechaIso(this.store.fechaInicio()), fromFechaIso(this.store.fechaFin())]);
+
+    chartData = computed(() => {
+        const evolucion = this.store.evolucion();
+        return {
+            labels: evolucion.map((punto) => punto.fecha.slice(8, 10) + '/' + punto.fecha.slice(5, 7)),
+            datasets: [
+                {
+                    label: 'Saldo',
+                    data: evolucion.map((punto) => punto.saldo),
+                    borderColor: '#3b82f6', // blue-500
+                    backgroundColor: 'rgba(59, 130, 246, 0.1)',
+                    borderWidth: 2,
+                    stepped: 'after',
+                    fill: true,
+                    pointRadius: 3,
+                    pointHoverRadius: 5
+                }
+            ]
+        };
+    });
+
+    chartOptions = {
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: {
+            legend: { display: false },
+            tooltip: {
+                callbacks: {
+                    label: (context: any) => formatearImporte(context.parsed.y || 0, this.moneda() || MONEDA_POR_DEFECTO)
+                }
+            }
+        },
+        scales: {
+            x: { grid: { display: false }, ticks: { font: { size: 11 }, color: '#64748b' } },
+            y: { grace: '10%', border: { display: false }, ticks: { font: { size: 11 }, color: '#94a3b8' } }
+        }
+    };
+
+    constructor() {
+        super();
+        this.route.paramMap.pipe(takeUntilDestroyed()).subscribe((params) => {
+            const id = params.get('id');
+            if (id) this.store.cargar(id);
+        });
+    }
+
+    tipo(movimiento: MovimientoCuenta) {
+        return TIPOS_MOVIMIENTO_CUENTA[movimiento.tipo];
+    }
+
+    elegirPreset(preset: PresetFecha | null) {
+        this.preset.set(preset);
+        if (!preset) return;
+        const { fechaInicio, fechaFin } = rangoPreset(preset);
+        this.store.setPeriodo(fechaInicio, fechaFin);
+    }
+
+    // El selector de rango emite también con solo la primera fecha elegida
+    elegirRango(rango: (Date | null)[] | null) {
+        const [inicio, fin] = rango ?? [];
+        if (!inicio || !fin) return;
+        this.preset.set(null);
+        this.store.setPeriodo(toFechaIso(inicio), toFechaIso(fin));
+    }
+
+    nuevoGasto() {
+        const cuenta = this.store.cuenta();
+        if (!cuenta) return;
+        this.nuevoGastoDe.set({ cuentaId: cuenta.id, cuentaNombre: cuenta.nombre, moneda: cuenta.moneda });
+    }
+
+    nuevoIngreso() {
+        const cuenta = this.store.cuenta();
+        if (!cuenta) return;
+        this.nuevoIngresoDe.set({ cuentaId: cuenta.id, cuentaNombre: cuenta.nombre, moneda: cuenta.moneda });
+    }
+
+    nuevoTraspaso() {
+        const cuenta = this.store.cuenta();
+        if (!cuenta) return;
+        this.nuevoTraspasoDe.set({ cuentaOrigenId: cuenta.id, cuentaOrigenNombre: cuenta.nombre, monedaOrigen: cuenta.moneda });
+    }
+
+    async guardarGasto({ cambiosAdjuntos, ...gasto }: ConAdjuntos<Partial<Gasto>>) {
+        const gastoCreate: GastoCreate = {
+            conceptoId: gasto.conceptoId!,
+            categoriaId: gasto.categoriaId!,
+            proveedorId: gasto.proveedorId!,
+            fecha: gasto.fecha!,
+            importe: gasto.importe!,
+            descripcion: gasto.descripcion,
+            formaPagoId: gasto.formaPagoId!,
+            personaId: gasto.personaId!,
+            cuentaId: gasto.cuentaId!,
+            compartido: gasto.compartido
+        };
+
+        try {
+            const id = await this.gastosStore.createGasto(gastoCreate, gasto);
+            if (cambiosAdjuntos) await this.gastosStore.syncAdjuntos(id, cambiosAdjuntos);
+            this.nuevoGastoDe.set(null);
+            this.showSuccess('Gasto creado correctamente');
+            await this.store.recargar();
+        } catch (error: any) {
+            this.showError(error.userMessage || error.message || 'Error al crear el gasto');
+        }
+    }
+
+    async guardarIngreso({ cambiosAdjuntos, ...ingreso }: ConAdjuntos<Partial<Ingreso>>) {
+        const ingresoCreate: IngresoCreate = {
+            conceptoId: ingreso.conceptoId!,
+            categoriaId: ingreso.categoriaId!,
+            clienteId: ingreso.clienteId!,
+            fecha: ingreso.fecha!,
+            importe: ingreso.importe!,
+            descripcion: ingreso.descripcion,
+            formaPagoId: ingreso.formaPagoId!,
+            personaId: ingreso.personaId!,
+            cuentaId: ingreso.cuentaId!
+        };
+
+        try {
+            const id = await this.ingresosStore.createIngreso(ingresoCreate, ingreso);
+            if (cambiosAdjuntos) await this.ingresosStore.syncAdjuntos(id, cambiosAdjuntos);
+            this.nuevoIngresoDe.set(null);
+            this.showSuccess('Ingreso creado correctamente');
+            await this.store.recargar();
+        } catch (error: any) {
+            this.showError(error.userMessage || error.message || 'Error al crear el ingreso');
+        }
+    }
+
+    async guardarTraspaso(traspaso: Partial<Traspaso>) {
+        const traspasoCreate: TraspasoCreate = {
+            cuentaOrigenId: traspaso.cuentaOrigenId!,
+            cuentaDestinoId: traspaso.cuentaDestinoId!,
+            importe: traspaso.importe!,
+            importeDestino: traspaso.importeDestino,
+            tipoCambio: traspaso.tipoCambio,
+            fecha: traspaso.fecha!,
+            descripcion: traspaso.descripcion
+        };
+
+        try {
+            await this.traspasosStore.createTraspaso(traspasoCreate);
+            this.nuevoTraspasoDe.set(null);
+            this.showSuccess('Traspaso creado correctamente');
+            await this.store.recargar();
+        } catch (error: any) {
+            this.showError(error.userMessage || error.message || 'Error al crear el traspaso');
+        }
+    }
+}
@@ -1,25 +1,33 @@
-import { Component, inject, ChangeDetectionStrategy, ViewChild } from '@angular/core';
+import { Component, inject, ChangeDetectionStrategy, ViewChild, effect, untracked } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
+import { RouterModule } from '@angular/router';
 import { ButtonModule } from 'primeng/button';
 import { InputTextModule } from 'primeng/inputtext';
 import { ToastModule } from 'primeng/toast';
 import { MessageService, ConfirmationService } from 'primeng/api';
-import { Table, TableModule } from 'primeng/table';
+import { Table, TableLazyLoadEvent, TableModule } from 'primeng/table';
 import { ToolbarModule } from 'primeng/toolbar';
 import { InputIconModule } from 'primeng/inputicon';
 import { IconFieldModule } from 'primeng/iconfield';
 import { SkeletonModule } from 'primeng/skeleton';
+import { TooltipModule } from 'primeng/tooltip';
 import { CuentaStore } from '../store/cuenta.store';
 import { Cuenta } from '@/core/models/cuenta.model';
 import { CuentaFormModalComponent } from '../components/cuenta-form-modal.component';
-import { BasePageComponent, BasePageTemplateComponent } from '@/shared/components';
+import { BasePageComponent, BasePageTemplateComponent, ColumnChooserComponent, ColumnaTabla, injectTableColumns, injectTableUrlState } from '@/shared/components';
+import { ImportePipe } from '@/shared/pipes/importe.pipe';
 import { debounceTime, distinctUntilChanged, Subject } from 'rxjs';
 
+const COLUMNAS_CUENTAS: ColumnaTabla[] = [
+    { campo: 'nombre', cabecera: 'Nombre', ancho: 20 },
+    { campo: 'saldo', cabecera: 'Saldo', ancho: 12 }
+];
+
 @Component({
     selector: 'app-cuentas-list-page',
     standalone: true,
-    imports: [CommonModule, FormsModule, ButtonModule, InputTextModule, ToastModule, TableModule, ToolbarModule, InputIconModule, IconFieldModule, SkeletonModule, CuentaFormModalComponent, BasePageTemplateComponent],
+    imports: [CommonModule, FormsModule, RouterModule, ButtonModule, InputTextModule, ToastModule, TableModule, ToolbarModule, InputIconModule, IconFieldModule, SkeletonModule, TooltipModule, CuentaFormModalComponent, BasePageTemplateComponent, ColumnChooserComponent, ImportePipe],
     providers: [MessageService, ConfirmationService],
     changeDetection: ChangeDetectionStrategy.OnPush,
     styles: [`
@@ -53,6 +61,7 @@ import { debounceTime, distinctUntilChanged, Subject } from 'rxjs';
 
                         <ng-template #end>
                             <p-button icon="pi pi-refresh" severity="secondary" outlined (onClick)="refreshTable()" pTooltip="Actualizar" />
+                            <app-column-chooser [estado]="columnas" class="ml-2" />
                         </ng-template>
                     </p-toolbar>
 
@@ -63,12 +72,22 @@ import { debounceTime, distinctUntilChanged, Subject } from 'rxjs';
                         [lazy]="true"
                         (onLazyLoad)="onLazyLoad($event)"
                         [paginator]="true"
-                        [rows]="pageSize"
+                        [rows]="tableState.state().pageSize"
+                        [first]="tableState.first()"
+                        [sortField]="tableState.state().sortColumn"
+                        [sortOrder]="tableState.sortOrderNumber()"
                         [totalRecords]="cuentaStore.totalRecords()"
                         [showCurrentPageReport]="true"
                         currentPageReportTemplate="Mostrando {first} a {last} de {totalRecords} cuentas"
                         [rowsPerPageOptions]="[10, 25, 50]"
-                        [tableStyle]="{ 'min-width': '50rem' }"
+                        [columns]="columnas.visibles()"
+                        [tableStyle]="columnas.tableStyle()"
+                        [size]="columnas.size()"
+                        [reorderableColumns]="true"
+                        [resizableColumns]="true"
+                        columnResizeMode="expand"
+                        (onColReorder)="columnas.onColReorder($event)"
+                        (onColResize)="columnas.onColResize($event)"
                         styleClass="p-datatable-gridlines"
                         [rowHover]="true"
                         dataKey="id"
@@ -78,52 +97,60 @@ import { debounceTime, distinctUntilChanged, Subject } from 'rxjs';
                                 <h5 class="m-0 font-semibold text-xl">Gestión de Cuentas</h5>
                                 <p-iconfield class="w-full md:w-auto">
                                     <p-inputicon styleClass="pi pi-search" />
-                                    <input pInputText type="text" [(ngModel)]="searchTerm" (input)="onSearchChange($event)" placeholder="Buscar cuentas..." class="w-full" />
+                                    <input pInputText type="text" [value]="tableState.state().search" (input)="onSearchChange($event)" placeholder="Buscar cuentas..." class="w-full" />
                                 </p-iconfield>
                             </div>
                         </ng-template>
 
-                        <ng-template #header>
+                        <ng-template #header let-columns>
                             <tr>
-                                <th pSortableColumn="nombre" style="min-width:20rem; padding: 1rem">
-                                    Nombre
-                                    <p-sortIcon field="nombre" />
-                                </th>
-                                <th pSortableColumn="saldo" style="min-width:12rem">
-                                    Saldo
-                                    <p-sortIcon field="saldo" />
-                                </th>
-                                <th style="min-width:10rem">Acciones</th>
+                                @for (columna of columns; track columna.campo) {
+                                    <th [pSortableColumn]="columna.campo" [pSortableColumnDisabled]="columna.ordenable === false" pReorderableColumn pResizableColumn [attr.data-campo]="columna.campo" [ngStyle]="columnas.estilo(columna)">
+                                        {{ columna.cabecera }}
+                                        @if (columna.ordenable !== false) {
+                                            <p-sortIcon [field]="columna.campo" />
+                                        }
+                                    </th>
+                                }
+                                <th style="min-width:13rem">Acciones</th>
                             </tr>
                         </ng-template>
 
-                        <ng-template #body let-cuenta>
+                        <ng-template #body let-cuenta let-columns="columns">
                             <tr>
-                                <td style="padding: 1rem">
-                                    <div class="flex items-center gap-2">
-                                        <i class="pi pi-credit-card text-primary"></i>
-                                        <span class="font-semibold">{{ cuenta.nombre }}</span>
-                                    </div>
-                                </td>
-                                <td>
-                                    <span [class]="'font-bold ' + (cuenta.saldo >= 0 ? 'text-green-600' : 'text-red-600')"> {{ cuenta.saldo | number: '1.2-2' : 'es-ES' }} € </span>
-                                </td>
+                                @for (columna of columns; track columna.campo) {
+                                    <td>
+                                        @switch (columna.campo) {
+                                            @case ('nombre') {
+                                                <div class="flex items-center gap-2">
+                                                    <i class="pi pi-credit-card text-primary"></i>
+                                                    <a [routerLink]="cuenta.id" class="font-semibold text-color hover:text-primary no-underline" pTooltip="Ver movimientos">{{ cuenta.nombre }}</a>
+                                                </div>
+                                            }
+                                            @case ('saldo') {
+                                                <span [class]="'font-bold ' + (cuenta.saldo >= 0 ? 'text-green-600' : 'text-red-600')"> {{ cuenta.saldo | importe: cuenta.moneda }} </span>
+                                            }
+                                        }
+                                    </td>
+                                }
                                 <td>
                                     <p-button icon="pi pi-pencil" class="mr-2" [rounded]="true" [outlined]="true" (click)="editCuenta(cuenta)" />
+                                    <p-button icon="pi pi-check-square" class="mr-2" [rounded]="true" [outlined]="true" severity="secondary" pTooltip="Conciliar con el banco" [routerLink]="[cuenta.id, 'conciliar']" />
                                     <p-button icon="pi pi-trash" severity="danger" [rounded]="true" [outlined]="true" (click)="deleteCuenta(cuenta)" />
                                 </td>
                             </tr>
                         </ng-template>
 
-                        <ng-template #loadingbody>
+                        <ng-template #loadingbody let-columns="columns">
                             <tr>
-                                <td style="padding: 1rem"><p-skeleton width="80%" /></td>
-                                <td><p-skeleton width="70%" /></td>
-                                <td><p-skeleton width="6rem" /></td>
+                                @for (columna of columns; track columna.campo) {
+                                    <td><p-skeleton width="70%" /></td>
+                                }
                                 <td>
                                     <div class="flex gap-2">
                                         <p-skeleton shape="circle" size="2.5rem" />
                                         <p-skeleton shape="circle" size="2.5rem" />
+                                        <p-skeleton shape="circle" size="2.5rem" />
                                     </div>
                                 </td>
                             </tr>
@@ -131,7 +158,7 @@ import { debounceTime, distinctUntilChanged, Subject } from 'rxjs';
 
                         <ng-template #emptymessage>
                             <tr>
-                                <td colspan="8" style="padding: 2rem">
+                                <td [attr.colspan]="columnas.visibles().length + 1" style="padding: 2rem">
                                     <div class="text-center py-8">
                                         <i class="pi pi-inbox text-500 text-5xl mb-3"></i>
                                         <p class="text-900 font-semibold text-xl mb-2">No hay cuentas</p>
@@ -161,36 +188,31 @@ export class CuentasListPage extends BasePageComponent {
     currentCuenta: Partial<Cuenta> = {};
     private searchSubject = new Subject<string>();
 
-    pageSize: number = 10;
-    pageNumber: number = 1;
-    searchTerm: string = '';
-    sortColumn: string = 'nombre';
-    sortOrder: string = 'asc';
+    // Paginación, orden y búsqueda sincronizados con la URL
+    tableState = injectTableUrlState('cuentas', { sortColumn: 'nombre', sortOrder: 'asc' });
+
+    // Columnas visibles, orden, anchos y densidad de la tabla
+    columnas = injectTableColumns('cuentas', COLUMNAS_CUENTAS, { anchoFijo: 10 });
 
     constructor() {
         super();
         // Configurar búsqueda con debounce de 500ms
         this.searchSubject.pipe(debounceTime(500), distinctUntilChanged()).subscribe((searchValue) => {
-            this.searchTerm = searchValue;
-            this.pageNumber = 1; // Resetear a primera página en búsqueda
-            this.reloadCuentas();
+            this.tableState.setSearch(searchValue);
+        });
+
+        // Recargar cada vez que cambia el estado de la tabla en la URL (incluye atrás/adelante)
+        effect(() => {
+            this.tableState.state();
+            untracked(() => this.reloadCuentas());
         });
     }
 
     /**
      * Manejar evento lazy load de la tabla (paginación + sort)
      */
-    onLazyLoad(event: any) {
-        this.pageNumber = event.first / event.rows + 1;
-        this.pageSize = event.rows;
-
-        // Manejar ordenamiento
-        if (event.sortField) {
-            this.sortColumn = event.sortField;
-            this.sortOrder = event.sortOrder === 1 ? 'asc' : 'desc';
-        }
-
-        this.reloadCuentas();
+    onLazyLoad(event: TableLazyLoadEvent) {
+        this.tableState.onLazyLoad(event);
     }
 
     /**
@@ -205,12 +227,13 @@ export class CuentasListPage extends BasePageComponent {
      * Recargar cuentas con los filtros actuales
      */
     private reloadCuentas() {
+        const { page, pageSize, search, sortColumn, sortOrder } = this.tableState.state();
         this.cuentaStore.loadCuentasPaginated({
-            page: this.pageNumber,
-            pageSize: this.pageSize,
-            searchTerm: this.searchTerm || undefined,
-            sortColumn: this.sortColumn || undefined,
-            sortOrder: this.sortOrder || undefined
+            page,
+            pageSize,
+            searchTerm: search || undefined,
+            sortColumn,
+            sortOrder
         });
     }
 
@@ -219,8 +242,6 @@ export class CuentasListPage extends BasePageComponent {
     }
 
     refreshTable() {
-        this.pageNumber = 1;
-        this.searchTerm = '';
         this.reloadCuentas();
         this.showInfo('Datos actualizados', 'Actualización');
     }
@@ -246,7 +267,7 @@ export class CuentasListPage extends BasePageComponent {
             }
         } else {
             try {
-                await this.cuentaStore.create(cuenta.nombre!, cuenta.saldo!);
+                await this.cuentaStore.create(cuenta.nombre!, cuenta.saldo!, cuenta.moneda);
                 this.showSuccess('Cuenta creada correctamente');
                 this.hideDialog();
             } catch (error: any) {
@@ -261,17 +282,6 @@ export class CuentasListPage extends BasePageComponent {
     }
 
     deleteCuenta(cuenta: Cuenta) {
-        this.confirmAction(
-            `¿Estás seguro de eliminar la cuenta "${cuenta.nombre}"?`,
-            () => {
-                this.cuentaStore.deleteCuenta(cuenta.id);
-            },
-            {
-                header: 'Confirmar eliminación',
-                acceptLabel: 'Sí, eliminar',
-                rejectLabel: 'Cancelar',
-                successMessage: 'Cuenta eliminado correctamente'
-            }
-        );
+        this.cuentaStore.deleteCuenta(cuenta.id);
     }
 }
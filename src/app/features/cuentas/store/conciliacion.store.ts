@@ -0,0 +1,178 @@
+import { computed, inject } from '@angular/core';
+import { patchState, signalStore, withComputed, withMethods, withState } from '@ngrx/signals';
+import { catchError, firstValueFrom, of } from 'rxjs';
+import { Cuenta, MovimientoCuenta } from '@/core/models/cuenta.model';
+import { Conciliacion } from '@/core/models/conciliacion.model';
+import { MovimientoFilters } from '@/core/models/movimiento-filters.model';
+import { CuentaService } from '@/core/services/api/cuenta.service';
+import { ConciliacionService } from '@/core/services/api/conciliacion.service';
+import { GastoService } from '@/core/services/api/gasto.service';
+import { IngresoService } from '@/core/services/api/ingreso.service';
+import { TraspasoService } from '@/core/services/api/traspaso.service';
+import { ExportService } from '@/core/services/export.service';
+import { claveMovimiento, idsConciliacion, resumenConciliacion } from '@/shared/utils/conciliacion.util';
+import { movimientosDeCuenta, sumarMovimientos } from '@/shared/utils/movimientos-cuenta.util';
+import { toFechaIso } from '@/shared/utils/movimiento-filters.util';
+
+interface ConciliacionState {
+    cuenta: Cuenta | null;
+    ultima: Conciliacion | null;
+    // Todos los movimientos sin conciliar de la cuenta, también los posteriores a la fecha
+    pendientes: MovimientoCuenta[];
+    // Claves (tipo:id) de los movimientos marcados
+    marcados: string[];
+    fecha: string;
+    saldoBanco: number | null;
+    loading: boolean;
+    saving: boolean;
+    error: string | null;
+}
+
+const initialState: ConciliacionState = {
+    cuenta: null,
+    ultima: null,
+    pendientes: [],
+    marcados: [],
+    fecha: toFechaIso(new Date()),
+    saldoBanco: null,
+    loading: false,
+    saving: false,
+    error: null
+};
+
+export const ConciliacionStore = signalStore(
+    { providedIn: 'root' },
+    withState(initialState),
+
+    withComputed((store) => ({
+        // Pendientes hasta la fecha del extracto
+        movimientos: computed(() => store.pendientes().filter((m) => m.fecha <= store.fecha()))
+    })),
+
+    withComputed((store) => ({
+        movimientosMarcados: computed(() => {
+            const marcados = new Set(store.marcados());
+            return store.movimientos().filter((m) => marcados.has(claveMovimiento(m)));
+        }),
+
+        // Saldo del banco en la última conciliación; la primera vez, el saldo actual sin ningún movimiento pendiente
+        saldoInicial: computed(() => {
+            const ultima = store.ultima();
+            if (ultima) return ultima.saldoBanco;
+            return (store.cuenta()?.saldo ?? 0) - sumarMovimientos(store.pendientes());
+        })
+    })),
+
+    withComputed((store) => ({
+        resumen: computed(() => resumenConciliacion(store.saldoInicial(), store.movimientosMarcados(), store.saldoBanco() ?? 0))
+    })),
+
+    withComputed((store) => ({
+        cuadra: computed(() => store.saldoBanco() !== null && store.resumen().diferencia === 0)
+    })),
+
+    withMethods((store, cuentaService = inject(CuentaService), conciliacionService = inject(ConciliacionService), gastoService = inject(GastoService), ingresoService = inject(IngresoService), traspasoService = inject(TraspasoService), exportService = inject(ExportService)) => {
+        // Se recorren todas las páginas: el saldo de partida se calcula con todos los pendientes
+        const cargarPendientes = async (cuentaId: string): Promise<MovimientoCuenta[]> => {
+            const filtros: MovimientoFilters = { cuentaIds: [cuentaId], conciliado: false };
+            const [gastos, ingresos, traspasos] = await Promise.all([
+                exportService.fetchAll((page, pageSize) => gastoService.getGastos(page, pageSize, undefined, 'fecha', 'asc', undefined, filtros)),
+                exportService.fetchAll((page, pageSize) => ingresoService.getIngresos(page, pageSize, undefined, 'fecha', 'asc', filtros)),
+                exportService.fetchAll((page, pageSize) => traspasoService.getTraspasos(page, pageSize, undefined, 'fecha', 'asc', filtros))
+            ]);
+            return movimientosDeCuenta(cuentaId, gastos, ingresos, traspasos);
+        };
+
+        return {
+            async cargar(cuentaId: string): Promise<void> {
+                patchState(store, { ...initialState, fecha: toFechaIso(new Date()), loading: true });
+
+                try {
+                    const [cuenta, ultima, pendientes] = await Promise.all([
+                        firstValueFrom(cuentaService.getById(cuentaId)),
+                        // Sin conciliaciones previas (o sin soporte en el backend) se parte del saldo actual
+                        firstValueFrom(conciliacionService.getUltima(cuentaId).pipe(catchError(() => of(null)))),
+                        cargarPendientes(cuentaId)
+                    ]);
+                    patchState(store, { cuenta, ultima, pendientes, loading: false });
+                } catch (error: any) {
+                    patchState(store, { loading: false, error: error.userMessage || 'Error al cargar la conciliación' });
+                }
+            },
+
+            /**
+             * Vuelve a traer los pendientes (p. ej. tras crear un ajuste) conservando los marcados
+             * `marcar` se añade a los marcados si aparece entre los pendientes
+             */
+            async recargarPendientes(marcar?: Pick<MovimientoCuenta, 'tipo' | 'id'>): Promise<void> {
+                const cuenta = store.cuenta();
+                if (!cuenta) return;
+
+                try {
+                    const [actual, pendientes] = await Promise.all([firstValueFrom(cuentaService.getById(cuenta.id)), cargarPendientes(cuenta.id)]);
+                    const claves = new Set(pendientes.map(claveMovimiento));
+                    const marcados = store.marcados().filter((clave) => claves.has(clave));
+                    if (marcar && claves.has(claveMovimiento(marcar))) marcados.push(claveMovimiento(marcar));
+                    patchState(store, { cuenta: actual, pendientes, marcados });
+                } catch (error: any) {
+                    patchState(store, { error: error.userMessage || 'Error al cargar los movimientos' });
+                }
+            },
+
+            setFecha(fecha: string) {
+                patchState(store, { fecha });
+            },
+
+            setSaldoBanco(saldoBanco: number | null) {
+                patchState(store, { saldoBanco });
+            },
+
+            alternar(movimiento: MovimientoCuenta) {
+                const clave = claveMovimiento(movimiento);
+                const marcados = store.marcados();
+                patchState(store, { marcados: marcados.includes(clave) ? marcados.filter((c) => c !== clave) : [...marcados, clave] });
+            },
+
+            estaMarcado(movimiento: MovimientoCuenta): boolean {
+                return store.marcados().includes(claveMovimiento(movimiento));
+            },
+
+            marcarTodos(marcar: boolean) {
+                patchState(store, { marcados: marcar ? store.movimientos().map(claveMovimiento) : [] });
+            },
+
+            /**
+             * Guarda la conciliación y bloquea los movimientos marcados
+             * El nuevo saldo del banco pasa a ser el punto de partida de la siguiente
+             */
+            async conciliar(): Promise<void> {
+                const cuenta = store.cuenta();
+                const saldoBanco = store.saldoBanco();
+                if (!cuenta || saldoBanco === null) return;
+
+                const marcados = store.movimientosMarcados();
+                const fecha = store.fecha();
+                patchState(store, { saving: true, error: null });
+
+                try {
+                    const response = await firstValueFrom(conciliacionService.create(cuenta.id, { fecha, saldoBanco, ...idsConciliacion(marcados) }));
+                    if (!response.isSuccess || !response.value) {
+                        throw new Error(response.error?.message || 'Error al guardar la conciliación');
+                    }
+
+                    const conciliados = new Set(marcados.map(claveMovimiento));
+                    patchState(store, {
+                        ultima: { id: response.value, cuentaId: cuenta.id, fecha, saldoBanco },
+                        pendientes: store.pendientes().filter((m) => !conciliados.has(claveMovimiento(m))),
+                        marcados: [],
+                        saldoBanco: null,
+                        saving: false
+                    });
+                } catch (error: any) {
+                    patchState(store, { saving: false, error: error.userMessage || error.message || 'Error al guardar la conciliación' });
+                    throw error;
+                }
+            }
+        };
+    })
+);
@@ -0,0 +1,101 @@
+import { computed, inject } from '@angular/core';
+import { patchState, signalStore, withComputed, withMethods, withState } from '@ngrx/signals';
+import { firstValueFrom } from 'rxjs';
+import { Cuenta, MovimientoCuenta } from '@/core/models/cuenta.model';
+import { MovimientoFilters } from '@/core/models/movimiento-filters.model';
+import { CuentaService } from '@/core/services/api/cuenta.service';
+import { GastoService } from '@/core/services/api/gasto.service';
+import { IngresoService } from '@/core/services/api/ingreso.service';
+import { TraspasoService } from '@/core/services/api/traspaso.service';
+import { ExportService } from '@/core/services/export.service';
+import { evolucionSaldo, libroCuenta, movimientosDeCuenta, sumarMovimientos } from '@/shared/utils/movimientos-cuenta.util';
+import { rangoPreset } from '@/shared/utils/movimiento-filters.util';
+
+interface CuentaDetalleState {
+    cuenta: Cuenta | null;
+    // Movimientos desde el inicio del periodo hasta hoy: los posteriores al periodo hacen falta para el saldo acumulado
+    movimientos: MovimientoCuenta[];
+    fechaInicio: string;
+    fechaFin: string;
+    loading: boolean;
+    error: string | null;
+}
+
+const initialState: CuentaDetalleState = {
+    cuenta: null,
+    movimientos: [],
+    ...rangoPreset('este-mes'),
+    loading: false,
+    error: null
+};
+
+export const CuentaDetalleStore = signalStore(
+    { providedIn: 'root' },
+    withState(initialState),
+
+    withComputed((store) => ({
+        apuntes: computed(() => libroCuenta(store.cuenta()?.saldo ?? 0, store.movimientos()))
+    })),
+
+    withComputed((store) => ({
+        apuntesPeriodo: computed(() => store.apuntes().filter((a) => a.fecha <= store.fechaFin())),
+
+        // Saldo justo antes del primer movimiento cargado
+        saldoInicial: computed(() => (store.cuenta()?.saldo ?? 0) - sumarMovimientos(store.movimientos()))
+    })),
+
+    withComputed((store) => ({
+        saldoFinal: computed(() => store.apuntesPeriodo().at(-1)?.saldo ?? store.saldoInicial()),
+        entradas: computed(() => sumarMovimientos(store.apuntesPeriodo().filter((a) => a.importe > 0))),
+        salidas: computed(() => sumarMovimientos(store.apuntesPeriodo().filter((a) => a.importe < 0))),
+        evolucion: computed(() => evolucionSaldo(store.saldoInicial(), store.apuntesPeriodo(), store.fechaInicio()))
+    })),
+
+    withMethods((store, cuentaService = inject(CuentaService), gastoService = inject(GastoService), ingresoService = inject(IngresoService), traspasoService = inject(TraspasoService), exportService = inject(ExportService)) => {
+        // Solo se aplica la última carga: cambiar de periodo o de cuenta deja obsoletas las anteriores
+        let cargaMovimientos = 0;
+        // Cuenta de la última carga: mientras llega, store.cuenta() todavía es null o la anterior
+        let cuentaActual: string | null = null;
+
+        // Se recorren todas las páginas: con un movimiento de menos el saldo acumulado ya no cuadra
+        const cargarMovimientos = async (cuentaId: string): Promise<void> => {
+            const carga = ++cargaMovimientos;
+            cuentaActual = cuentaId;
+            const filtros: MovimientoFilters = { cuentaIds: [cuentaId], fechaInicio: store.fechaInicio() };
+            patchState(store, { loading: true, error: null });
+
+            try {
+                const [cuenta, gastos, ingresos, traspasos] = await Promise.all([
+                    firstValueFrom(cuentaService.getById(cuentaId)),
+                    exportService.fetchAll((page, pageSize) => gastoService.getGastos(page, pageSize, undefined, 'fecha', 'asc', undefined, filtros)),
+                    exportService.fetchAll((page, pageSize) => ingresoService.getIngresos(page, pageSize, undefined, 'fecha', 'asc', filtros)),
+                    exportService.fetchAll((page, pageSize) => traspasoService.getTraspasos(page, pageSize, undefined, 'fecha', 'asc', filtros))
+                ]);
+                if (carga !== cargaMovimientos) return;
+                patchState(store, { cuenta, movimientos: movimientosDeCuenta(cuentaId, gastos, ingresos, traspasos), loading: false });
+            } catch (error: any) {
+                if (carga !== cargaMovimientos) return;
+                patchState(store, { loading: false, error: error.userMessage || 'Error al cargar los movimientos de la cuenta' });
+            }
+        };
+
+        return {
+            // Cada entrada en la página empieza en el mes actual
+            async cargar(cuentaId: string): Promise<void> {
+                // Otra cuenta: no se muestran los datos de la anterior mientras carga
+                if (store.cuenta()?.id !== cuentaId) patchState(store, { cuenta: null, movimientos: [] });
+                patchState(store, rangoPreset('este-mes'));
+                await cargarMovimientos(cuentaId);
+            },
+
+            async setPeriodo(fechaInicio: string, fechaFin: string): Promise<void> {
+                patchState(store, { fechaInicio, fechaFin });
+                if (cuentaActual) await cargarMovimientos(cuentaActual);
+            },
+
+            async recargar(): Promise<void> {
+                if (cuentaActual) await cargarMovimientos(cuentaActual);
+            }
+        };
+    })
+);
@@ -6,7 +6,7 @@ import { tap, switchMap } from 'rxjs/operators';
 import { tapResponse } from '@ngrx/operators';
 import { CuentaService } from '@/core/services/api/cuenta.service';
 import { Cuenta } from '@/core/models/cuenta.model';
-import { ErrorResponse } from '@/core/models/error-response.model';
+import { UndoStore, edicionConDeshacer, eliminarConDeshacer, paginaSinBorrados } from '@/core/stores/undo.store';
 
 interface CuentaState {
     cuentas: Cuenta[];
@@ -58,7 +58,7 @@ export const CuentaStore = signalStore(
         isSyncing: computed(() => store.loading() && store.hasData())
     })),
     
-    withMethods((store, cuentaService = inject(CuentaService)) => ({
+    withMethods((store, cuentaService = inject(CuentaService), undoStore = inject(UndoStore)) => ({
         async search(query: string, limit: number = 10): Promise<Cuenta[]> {
             // Verificar caché primero
             const cacheKey = `${query}_${limit}`;
@@ -96,13 +96,14 @@ export const CuentaStore = signalStore(
             }
         },
 
-        async create(nombre: string, saldo: number): Promise<string> {
+        async create(nombre: string, saldo: number, moneda?: string): Promise<string> {
             // Actualización optimista: agregar inmediatamente a la UI
             const tempId = `temp_${Date.now()}`;
             const tempCuenta: Partial<Cuenta> & { id: string; nombre: string; saldo: number } = { 
                 id: tempId, 
                 nombre, 
                 saldo,
+                moneda,
                 fechaCreacion: new Date(),
                 usuarioId: ''
             };
@@ -114,7 +115,7 @@ export const CuentaStore = signalStore(
             });
             
             try {
-                const response = await firstValueFrom(cuentaService.create(nombre, saldo));
+                const response = await firstValueFrom(cuentaService.create(nombre, saldo, moneda));
 
                 if (response.isSuccess) {
                     // Reemplazar la cuenta temporal con la real
@@ -122,6 +123,7 @@ export const CuentaStore = signalStore(
                         id: response.value, 
                         nombre, 
                         saldo,
+                        moneda,
                         fechaCreacion: new Date(),
                         usuarioId: ''
                     };
@@ -164,9 +166,10 @@ export const CuentaStore = signalStore(
                     cuentaService.getCuentas(page, pageSize, searchTerm, sortColumn, sortOrder).pipe(
                         tapResponse({
                             next: (response) => {
+                                const pagina = paginaSinBorrados(undoStore, response);
                                 patchState(store, {
-                                    cuentas: response.items,
-                                    totalRecords: response.totalCount,
+                                    cuentas: pagina.items,
+                                    totalRecords: pagina.totalCount,
                                     loading: false,
                                     error: null,
                                     lastUpdated: Date.now(),
@@ -209,6 +212,9 @@ export const CuentaStore = signalStore(
                         lastUpdated: Date.now(),
                         searchCache: new Map() // Invalidar caché
                     });
+                    if (cuentaAnterior) {
+                        edicionConDeshacer(undoStore, store, 'cuentas', cuentaAnterior, { mensaje: 'Cuenta actualizada', revertir: (anterior) => cuentaService.update(id, anterior) });
+                    }
                     return response.value;
                 }
                 throw new Error(response.error?.message || 'Error al actualizar cuenta');
@@ -233,48 +239,13 @@ export const CuentaStore = signalStore(
             }
         },
 
-        deleteCuenta: rxMethod<string>(
-            pipe(
-                switchMap((id) => {
-                    // Guardar cuenta para rollback ANTES de eliminarla
-                    const cuentaEliminada = store.cuentas().find(c => c.id === id);
-                    const totalAnterior = store.totalRecords();
-                    
-                    // Actualización optimista: eliminar inmediatamente
-                    patchState(store, (state) => ({
-                        cuentas: state.cuentas.filter((c) => c.id !== id),
-                        totalRecords: state.totalRecords - 1,
-                        searchCache: new Map() // Invalidar caché
-                    }));
-                    
-                    return cuentaService.delete(id).pipe(
-                        tapResponse({
-                            next: () => {
-                                patchState(store, { 
-                                    lastUpdated: Date.now()
-                                });
-                            },
-                            error: (err: ErrorResponse) => {
-                                console.error('[STORE] Error al eliminar cuenta:', err);
-                                
-                                // ROLLBACK: Restaurar cuenta eliminada
-                                if (cuentaEliminada) {
-                                    patchState(store, (state) => ({
-                                        cuentas: [...state.cuentas, cuentaEliminada].sort((a, b) => a.nombre.localeCompare(b.nombre)),
-                                        totalRecords: totalAnterior,
-                                        error: err.detail || 'Error al eliminar cuenta'
-                                    }));
-                                } else {
-                                    patchState(store, { 
-                                        error: err.detail || 'Error al eliminar cuenta'
-                                    });
-                                }
-                            }
-                        })
-                    );
-                })
-            )
-        ),
+        deleteCuenta(id: string): void {
+            eliminarConDeshacer(undoStore, store, 'cuentas', id, {
+                mensaje: 'Cuenta eliminada',
+                eliminar: () => cuentaService.delete(id),
+                alEliminar: () => patchState(store, { lastUpdated: Date.now(), searchCache: new Map() })
+            });
+        },
 
         async getRecent(limit: number = 5): Promise<Cuenta[]> {
             patchState(store, { loading: true, error: null });
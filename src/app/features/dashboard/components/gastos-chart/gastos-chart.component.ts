@@ -4,11 +4,14 @@ import { CardModule } from 'primeng/card';
 import { ChartModule } from 'primeng/chart';
 import { SkeletonModule } from 'primeng/skeleton';
 import { DashboardStore } from '../../stores/dashboard.store';
+import { ImportePipe } from '@/shared/pipes/importe.pipe';
+import { MonedaStore } from '@/core/stores/moneda.store';
+import { formatearImporte } from '@/shared/utils/monedas.util';
 
 @Component({
     selector: 'app-gastos-chart',
     standalone: true,
-    imports: [CommonModule, CardModule, ChartModule, SkeletonModule],
+    imports: [CommonModule, CardModule, ChartModule, SkeletonModule, ImportePipe],
     changeDetection: ChangeDetectionStrategy.OnPush,
     template: `
         <div class="card shadow-2 border-round p-4 h-full flex flex-col justify-between">
@@ -19,7 +22,7 @@ import { DashboardStore } from '../../stores/dashboard.store';
                         Gastos por Categoría
                     </h5>
                     @if (hasData()) {
-                        <span class="text-sm text-red-500">{{ totalGastado() | number:'1.2-2' }} € total</span>
+                        <span class="text-sm text-red-500">{{ totalGastado() | importe }} total</span>
                     }
                 </div>
                 <p class="text-600 text-sm m-0">
@@ -64,7 +67,7 @@ import { DashboardStore } from '../../stores/dashboard.store';
                                     <span class="text-900 font-semibold text-sm">{{ item.categoria }}</span>
                                 </div>
                                 <div class="text-right">
-                                    <div class="text-red-600 font-bold text-lg">{{ item.total | number:'1.2-2' }} €</div>
+                                    <div class="text-red-600 font-bold text-lg">{{ item.total | importe }}</div>
                                 </div>
                             </div>
                             <div class="flex items-center gap-2">
@@ -96,6 +99,7 @@ import { DashboardStore } from '../../stores/dashboard.store';
 })
 export class GastosChartComponent {
     dashboardStore = inject(DashboardStore);
+    private monedaStore = inject(MonedaStore);
 
     // Paleta de colores moderna para gastos (rojos, naranjas, amarillos)
     private readonly colors = [
@@ -136,7 +140,7 @@ export class GastosChartComponent {
                         const percentage = ((value / total) * 100).toFixed(1);
                         return [
                             `${label}`,
-                            `Importe: ${value.toFixed(2)}€`,
+                            `Importe: ${formatearImporte(value, this.monedaStore.monedaBase())}`,
                             `Porcentaje: ${percentage}%`,
                             `Transacciones: ${transacciones}`
                         ];
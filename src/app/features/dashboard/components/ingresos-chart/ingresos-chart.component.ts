@@ -4,11 +4,14 @@ import { CardModule } from 'primeng/card';
 import { ChartModule } from 'primeng/chart';
 import { SkeletonModule } from 'primeng/skeleton';
 import { DashboardStore } from '../../stores/dashboard.store';
+import { ImportePipe } from '@/shared/pipes/importe.pipe';
+import { MonedaStore } from '@/core/stores/moneda.store';
+import { formatearImporte } from '@/shared/utils/monedas.util';
 
 @Component({
     selector: 'app-ingresos-chart',
     standalone: true,
-    imports: [CommonModule, CardModule, ChartModule, SkeletonModule],
+    imports: [CommonModule, CardModule, ChartModule, SkeletonModule, ImportePipe],
     changeDetection: ChangeDetectionStrategy.OnPush,
     // 1. Aseguramos comportamiento de bloque
     styles: [`
@@ -53,7 +56,7 @@ import { DashboardStore } from '../../stores/dashboard.store';
                             <div class="text-600 text-sm mb-2">Ingresos vs Mes anterior</div>
                             <div [class]="'font-bold text-lg flex items-center gap-2 ' + (dashboardStore.resumen()!.comparativaMesAnterior.diferenciaIngresos >= 0 ? 'text-green-600' : 'text-red-600')">
                                 <i [class]="'pi ' + (dashboardStore.resumen()!.comparativaMesAnterior.diferenciaIngresos >= 0 ? 'pi-arrow-up' : 'pi-arrow-down')"></i>
-                                {{ dashboardStore.resumen()!.comparativaMesAnterior.diferenciaIngresos | number:'1.2-2' }} €
+                                {{ dashboardStore.resumen()!.comparativaMesAnterior.diferenciaIngresos | importe }}
                                 <span class="text-sm text-600 font-normal">
                                     ({{ dashboardStore.resumen()!.comparativaMesAnterior.porcentajeCambioIngresos | number:'1.1-1' }}%)
                                 </span>
@@ -64,7 +67,7 @@ import { DashboardStore } from '../../stores/dashboard.store';
                             <div class="text-600 text-sm mb-2">Gastos vs Mes anterior</div>
                             <div [class]="'font-bold text-lg flex items-center gap-2 ' + (dashboardStore.resumen()!.comparativaMesAnterior.diferenciaGastos <= 0 ? 'text-green-600' : 'text-red-600')">
                                 <i [class]="'pi ' + (dashboardStore.resumen()!.comparativaMesAnterior.diferenciaGastos <= 0 ? 'pi-arrow-down' : 'pi-arrow-up')"></i>
-                                {{ Math.abs(dashboardStore.resumen()!.comparativaMesAnterior.diferenciaGastos) | number:'1.2-2' }} €
+                                {{ Math.abs(dashboardStore.resumen()!.comparativaMesAnterior.diferenciaGastos) | importe }}
                                 <span class="text-sm text-600 font-normal">
                                     ({{ Math.abs(dashboardStore.resumen()!.comparativaMesAnterior.porcentajeCambioGastos) | number:'1.1-1' }}%)
                                 </span>
@@ -88,6 +91,7 @@ import { DashboardStore } from '../../stores/dashboard.store';
 })
 export class IngresosChartComponent {
     dashboardStore = inject(DashboardStore);
+    private monedaStore = inject(MonedaStore);
     Math = Math;
 
     chartOptions = {
@@ -122,7 +126,7 @@ export class IngresosChartComponent {
                     label: (context: any) => {
                         const label = context.dataset.label || '';
                         const value = context.parsed.y || 0;
-                        return `${label}: ${value.toFixed(2)}€`;
+                        return `${label}: ${formatearImporte(value, this.monedaStore.monedaBase())}`;
                     }
                 }
             }
@@ -0,0 +1,93 @@
+import { Component, inject, ChangeDetectionStrategy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterModule } from '@angular/router';
+import { ButtonModule } from 'primeng/button';
+import { SkeletonModule } from 'primeng/skeleton';
+import { PresupuestoStore } from '@/features/presupuestos/store/presupuesto.store';
+import { EstadoPresupuesto } from '@/core/models/presupuesto.model';
+import { ImportePipe } from '@/shared/pipes/importe.pipe';
+
+@Component({
+    selector: 'app-presupuestos-widget',
+    standalone: true,
+    imports: [CommonModule, RouterModule, ButtonModule, SkeletonModule, ImportePipe],
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    styles: [
+        `
+            :host {
+                display: block;
+                width: 100%;
+            }
+        `
+    ],
+    template: `
+        <div class="card shadow-2 border-round p-4 h-full">
+            <div class="flex items-center justify-between mb-4">
+                <h5 class="text-900 font-semibold text-xl m-0 flex items-center gap-2">
+                    <i class="pi pi-wallet text-primary"></i>
+                    Presupuestos del Mes
+                </h5>
+                <p-button label="Gestionar" icon="pi pi-cog" [text]="true" size="small" [routerLink]="['/presupuestos']" />
+            </div>
+
+            @if (presupuestoStore.loadingProgreso() && presupuestoStore.progresos().length === 0) {
+                <div class="flex flex-col gap-3">
+                    @for (item of [1, 2, 3]; track item) {
+                        <p-skeleton height="3rem" />
+                    }
+                </div>
+            } @else {
+                <div class="flex flex-col gap-3">
+                    @for (progreso of presupuestoStore.progresos(); track progreso.presupuesto.id) {
+                        <div class="p-3 surface-border border-round">
+                            <div class="flex items-center justify-between mb-2">
+                                <span class="font-medium text-900">
+                                    {{ progreso.presupuesto.categoriaNombre }}
+                                    @if (progreso.presupuesto.cuentaNombre) {
+                                        <span class="text-500 text-sm font-normal">· {{ progreso.presupuesto.cuentaNombre }}</span>
+                                    }
+                                </span>
+                                <span [class]="'font-bold ' + getTextClass(progreso.estado)">{{ progreso.gastado | importe }} / {{ progreso.presupuesto.limiteMensual | importe }}</span>
+                            </div>
+                            <div class="flex items-center gap-2">
+                                <div class="flex-1 surface-200 border-round" style="height: 8px">
+                                    <div [class]="'border-round h-full ' + getBarClass(progreso.estado)" [style.width.%]="Math.min(progreso.porcentaje, 100)"></div>
+                                </div>
+                                <span class="text-500 text-sm">{{ progreso.porcentaje | number: '1.0-0' }}%</span>
+                            </div>
+                            <div class="text-500 text-sm mt-1">
+                                @if (progreso.restante >= 0) {
+                                    Quedan {{ progreso.restante | importe }}
+                                } @else {
+                                    Superado en {{ -progreso.restante | importe }}
+                                }
+                            </div>
+                        </div>
+                    } @empty {
+                        <div class="text-center text-500 py-4">
+                            No has definido presupuestos.
+                            <a routerLink="/presupuestos" class="text-primary font-medium">Crea el primero</a>
+                        </div>
+                    }
+                </div>
+            }
+        </div>
+    `
+})
+export class PresupuestosWidgetComponent implements OnInit {
+    presupuestoStore = inject(PresupuestoStore);
+
+    Math = Math;
+
+    ngOnInit() {
+        this.presupuestoStore.loadPresupuestos();
+    }
+
+    getBarClass(estado: EstadoPresupuesto): string {
+        return estado === 'danger' ? 'bg-red-500' : estado === 'warning' ? 'bg-orange-500' : 'bg-green-500';
+    }
+
+    getTextClass(estado: EstadoPresupuesto): string {
+        return estado === 'danger' ? 'text-red-500' : estado === 'warning' ? 'text-orange-500' : 'text-900';
+    }
+}
@@ -4,11 +4,14 @@ import { CardModule } from 'primeng/card';
 import { ChartModule } from 'primeng/chart';
 import { SkeletonModule } from 'primeng/skeleton';
 import { DashboardStore } from '../../stores/dashboard.store';
+import { ImportePipe } from '@/shared/pipes/importe.pipe';
+import { MonedaStore } from '@/core/stores/moneda.store';
+import { formatearImporte } from '@/shared/utils/monedas.util';
 
 @Component({
     selector: 'app-resumen-financiero',
     standalone: true,
-    imports: [CommonModule, CardModule, ChartModule, SkeletonModule],
+    imports: [CommonModule, CardModule, ChartModule, SkeletonModule, ImportePipe],
     changeDetection: ChangeDetectionStrategy.OnPush,
     styles: [`
         :host {
@@ -45,12 +48,12 @@ import { DashboardStore } from '../../stores/dashboard.store';
                 <div class="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4 flex-none">
                     <div class="p-3 border-round-xl bg-green-50 border border-green-200 flex flex-col items-center justify-center">
                         <span class="text-green-700 font-medium text-xs uppercase tracking-wider mb-1">Ingresos</span>
-                        <span class="text-green-800 font-bold text-xl">{{ totalIngresos() | number:'1.2-2' }} €</span>
+                        <span class="text-green-800 font-bold text-xl">{{ totalIngresos() | importe }}</span>
                     </div>
 
                     <div class="p-3 border-round-xl bg-red-50 border border-red-200 flex flex-col items-center justify-center">
                         <span class="text-red-700 font-medium text-xs uppercase tracking-wider mb-1">Gastos</span>
-                        <span class="text-red-800 font-bold text-xl">{{ totalGastos() | number:'1.2-2' }} €</span>
+                        <span class="text-red-800 font-bold text-xl">{{ totalGastos() | importe }}</span>
                     </div>
 
                     <div class="p-3 border-round-xl flex flex-col items-center justify-center"
@@ -59,7 +62,7 @@ import { DashboardStore } from '../../stores/dashboard.store';
                               [ngClass]="balanceNeto() >= 0 ? 'text-blue-700' : 'text-orange-700'">Balance</span>
                         <span class="font-bold text-xl"
                               [ngClass]="balanceNeto() >= 0 ? 'text-blue-800' : 'text-orange-800'">
-                             {{ balanceNeto() | number:'1.2-2' }} €
+                             {{ balanceNeto() | importe }}
                         </span>
                     </div>
                 </div>
@@ -84,6 +87,7 @@ import { DashboardStore } from '../../stores/dashboard.store';
 })
 export class ResumenFinancieroComponent {
     dashboardStore = inject(DashboardStore);
+    private monedaStore = inject(MonedaStore);
 
     chartOptions = {
         // 1. Padding interno del Canvas para evitar cortes en los bordes
@@ -124,7 +128,7 @@ export class ResumenFinancieroComponent {
                         let label = context.dataset.label || '';
                         if (label) label += ': ';
                         if (context.parsed.y !== null) {
-                            label += new Intl.NumberFormat('es-ES', { style: 'currency', currency: 'EUR' }).format(context.parsed.y);
+                            label += formatearImporte(context.parsed.y, this.monedaStore.monedaBase());
                         }
                         return label;
                     }
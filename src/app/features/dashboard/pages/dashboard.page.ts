@@ -1,4 +1,4 @@
-import { Component, inject, ChangeDetectionStrategy } from '@angular/core';
+import { Component, inject, ChangeDetectionStrategy, computed } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { RouterModule } from '@angular/router';
 import { ButtonModule } from 'primeng/button';
@@ -7,12 +7,15 @@ import { AuthStore } from '../../../core/stores/auth.store';
 import { GastosChartComponent } from '../components/gastos-chart/gastos-chart.component';
 import { IngresosChartComponent } from '../components/ingresos-chart/ingresos-chart.component';
 import { ResumenFinancieroComponent } from '../components/resumen-financiero/resumen-financiero.component';
+import { PresupuestosWidgetComponent } from '../components/presupuestos-widget/presupuestos-widget.component';
+import { PresupuestoStore } from '@/features/presupuestos/store/presupuesto.store';
 import { BasePageComponent, BasePageTemplateComponent } from '@/shared/components';
+import { ImportePipe } from '@/shared/pipes/importe.pipe';
 
 @Component({
     selector: 'app-dashboard-page',
     standalone: true,
-    imports: [CommonModule, RouterModule, ButtonModule, GastosChartComponent, IngresosChartComponent, ResumenFinancieroComponent, BasePageTemplateComponent],
+    imports: [CommonModule, RouterModule, ButtonModule, GastosChartComponent, IngresosChartComponent, ResumenFinancieroComponent, PresupuestosWidgetComponent, BasePageTemplateComponent, ImportePipe],
     changeDetection: ChangeDetectionStrategy.OnPush,
     template: `
         <app-base-page-template [loading]="dashboardStore.loading()" [skeletonType]="'card'">
@@ -27,11 +30,11 @@ import { BasePageComponent, BasePageTemplateComponent } from '@/shared/component
                     </div>
                 </div>
 
-                @if (dashboardStore.resumen()?.alertas && dashboardStore.resumen()!.alertas.length > 0) {
+                @if (alertas().length > 0) {
                     <div class="mb-4">
                         <h5 class="text-900 font-semibold text-xl mb-3 flex items-center gap-2">Alertas y Notificaciones</h5>
                         <div class="flex flex-col gap-3">
-                            @for (alerta of dashboardStore.resumen()!.alertas; track alerta.titulo) {
+                            @for (alerta of alertas(); track alerta.titulo) {
                                 <div [class]="'card p-4 border-l-4 shadow-1 ' + getAlertaClass(alerta.tipo)">
                                     <div class="flex items-center gap-4">
                                         <span class="text-3xl">{{ alerta.icono || '⚠️' }}</span>
@@ -76,14 +79,14 @@ import { BasePageComponent, BasePageTemplateComponent } from '@/shared/component
                                             <div class="md:text-center">
                                                 <div class="text-xs text-500 uppercase font-semibold mb-1">Necesario para vivir</div>
                                                 <div [class]="'text-2xl font-bold ' + (first ? 'text-primary' : 'text-700')">
-                                                    {{ anio.promedioMensualNecesario | number: '1.0-0' }} € <span class="text-sm font-normal text-500">/mes</span>
+                                                    {{ anio.promedioMensualNecesario | importe: null : '1.0-0' }} <span class="text-sm font-normal text-500">/mes</span>
                                                 </div>
                                             </div>
 
                                             <div class="md:text-right flex md:flex-col items-center md:items-end justify-between md:justify-center">
                                                 <span class="md:hidden text-sm text-500 font-semibold">Gasto Total:</span>
                                                 <div>
-                                                    <div class="text-lg font-medium text-900">{{ anio.gastoTotalAnual | number: '1.0-0' }} €</div>
+                                                    <div class="text-lg font-medium text-900">{{ anio.gastoTotalAnual | importe: null : '1.0-0' }}</div>
                                                     <div class="text-xs text-500 hidden md:block">Total Gastado</div>
                                                 </div>
                                             </div>
@@ -101,10 +104,13 @@ import { BasePageComponent, BasePageTemplateComponent } from '@/shared/component
                             <div class="text-500 font-medium">Balance Total</div>
                             <i class="pi pi-wallet text-primary" style="font-size: 1.5rem"></i>
                         </div>
-                        <div [class]="'font-bold text-3xl mb-2 ' + (dashboardStore.resumen()!.balanceTotal >= 0 ? 'text-green-500' : 'text-red-500')">
-                            {{ dashboardStore.resumen()!.balanceTotal | number: '1.2-2' }} €
+                        <div [class]="'font-bold text-3xl mb-2 ' + (dashboardStore.balanceTotal() >= 0 ? 'text-green-500' : 'text-red-500')">
+                            {{ dashboardStore.balanceTotal() | importe }}
                         </div>
                         <div class="text-500 text-sm mt-auto">{{ dashboardStore.resumen()?.totalCuentas || 0 }} cuentas</div>
+                        @if (dashboardStore.monedasSinCambio().length > 0) {
+                            <small class="text-orange-500 mt-1">Sin tipo de cambio para {{ dashboardStore.monedasSinCambio().join(', ') }}: esos importes no suman en los totales</small>
+                        }
                     </div>
 
                     <div class="card shadow-2 border-round p-4 flex flex-col h-full">
@@ -112,12 +118,12 @@ import { BasePageComponent, BasePageTemplateComponent } from '@/shared/component
                             <div class="text-500 font-medium">Ingresos Mes Actual</div>
                             <i class="pi pi-arrow-up text-green-500" style="font-size: 1.5rem"></i>
                         </div>
-                        <div class="text-green-500 font-bold text-3xl mb-2">{{ dashboardStore.resumen()?.ingresosMesActual | number: '1.2-2' }} €</div>
+                        <div class="text-green-500 font-bold text-3xl mb-2">{{ dashboardStore.resumen()?.ingresosMesActual | importe }}</div>
                         <div class="mt-auto">
                             @if (dashboardStore.resumen()?.comparativaMesAnterior) {
                                 <div [class]="'text-sm flex items-center gap-1 ' + (dashboardStore.resumen()!.comparativaMesAnterior.diferenciaIngresos >= 0 ? 'text-green-600' : 'text-red-600')">
                                     <i [class]="'pi ' + (dashboardStore.resumen()!.comparativaMesAnterior.diferenciaIngresos >= 0 ? 'pi-arrow-up' : 'pi-arrow-down')"></i>
-                                    {{ dashboardStore.resumen()!.comparativaMesAnterior.diferenciaIngresos | number: '1.0-0' }} € vs mes anterior
+                                    {{ dashboardStore.resumen()!.comparativaMesAnterior.diferenciaIngresos | importe: null : '1.0-0' }} vs mes anterior
                                 </div>
                             } @else {
                                 <div class="text-sm text-500">&nbsp;</div>
@@ -130,12 +136,12 @@ import { BasePageComponent, BasePageTemplateComponent } from '@/shared/component
                             <div class="text-500 font-medium">Gastos Mes Actual</div>
                             <i class="pi pi-arrow-down text-red-500" style="font-size: 1.5rem"></i>
                         </div>
-                        <div class="text-red-500 font-bold text-3xl mb-2">{{ dashboardStore.resumen()?.gastosMesActual | number: '1.2-2' }} €</div>
+                        <div class="text-red-500 font-bold text-3xl mb-2">{{ dashboardStore.resumen()?.gastosMesActual | importe }}</div>
                         <div class="mt-auto">
                             @if (dashboardStore.resumen()?.comparativaMesAnterior) {
                                 <div [class]="'text-sm flex items-center gap-1 ' + (dashboardStore.resumen()!.comparativaMesAnterior.diferenciaGastos <= 0 ? 'text-green-600' : 'text-red-600')">
                                     <i [class]="'pi ' + (dashboardStore.resumen()!.comparativaMesAnterior.diferenciaGastos <= 0 ? 'pi-arrow-down' : 'pi-arrow-up')"></i>
-                                    {{ Math.abs(dashboardStore.resumen()!.comparativaMesAnterior.diferenciaGastos) | number: '1.0-0' }} € vs mes anterior
+                                    {{ Math.abs(dashboardStore.resumen()!.comparativaMesAnterior.diferenciaGastos) | importe: null : '1.0-0' }} vs mes anterior
                                 </div>
                             } @else {
                                 <div class="text-sm text-500">&nbsp;</div>
@@ -149,12 +155,16 @@ import { BasePageComponent, BasePageTemplateComponent } from '@/shared/component
                             <i [class]="'pi ' + (dashboardStore.resumen()!.balanceMesActual >= 0 ? 'pi-check-circle text-green-500' : 'pi-times-circle text-red-500')" style="font-size: 1.5rem"></i>
                         </div>
                         <div [class]="'font-bold text-3xl mb-2 ' + (dashboardStore.resumen()!.balanceMesActual >= 0 ? 'text-green-500' : 'text-red-500')">
-                            {{ dashboardStore.resumen()!.balanceMesActual | number: '1.2-2' }} €
+                            {{ dashboardStore.resumen()!.balanceMesActual | importe }}
                         </div>
                         <div class="text-500 text-sm mt-auto">Ingresos - Gastos</div>
                     </div>
                 </div>
 
+                <div class="mb-4">
+                    <app-presupuestos-widget />
+                </div>
+
                 <div class="grid grid-cols-1 lg:grid-cols-2 gap-4 mb-4">
                     <div class="card shadow-2 border-round p-4 h-full">
                         <h5 class="text-900 font-semibold text-xl mb-4 flex items-center gap-2">
@@ -168,7 +178,7 @@ import { BasePageComponent, BasePageTemplateComponent } from '@/shared/component
                                         <i class="pi pi-wallet text-500"></i>
                                         <span class="font-medium text-900">{{ cuenta.nombre }}</span>
                                     </div>
-                                    <span [class]="'font-bold ' + (cuenta.saldo >= 0 ? 'text-green-600' : 'text-red-600')"> {{ cuenta.saldo | number: '1.2-2' : 'es-ES' }} € </span>
+                                    <span [class]="'font-bold ' + (cuenta.saldo >= 0 ? 'text-green-600' : 'text-red-600')"> {{ cuenta.saldo | importe: cuenta.moneda }} </span>
                                 </div>
                             }
                         </div>
@@ -180,11 +190,11 @@ import { BasePageComponent, BasePageTemplateComponent } from '@/shared/component
                             Top Categorías de Gastos
                         </h5>
                         <div class="flex flex-col gap-3">
-                            @for (categoria of dashboardStore.resumen()?.topCategoriasGastos; track categoria.categoriaId) {
+                            @for (categoria of dashboardStore.topCategoriasGastos(); track categoria.categoriaId) {
                                 <div class="p-3 surface-border border-round">
                                     <div class="flex items-center justify-between mb-2">
                                         <span class="font-medium text-900">{{ categoria.categoriaNombre }}</span>
-                                        <span class="font-bold text-red-500">{{ categoria.totalGastado | number: '1.2-2' }} €</span>
+                                        <span class="font-bold text-red-500">{{ categoria.totalGastado | importe }}</span>
                                     </div>
                                     <div class="flex items-center gap-2">
                                         <div class="flex-1 surface-200 border-round" style="height: 8px">
@@ -218,13 +228,13 @@ import { BasePageComponent, BasePageTemplateComponent } from '@/shared/component
 
                         <div class="surface-border border-round p-4 text-center">
                             <i class="pi pi-chart-line text-orange-500 mb-3" style="font-size: 2.5rem"></i>
-                            <div class="text-900 font-bold text-2xl mb-2">{{ dashboardStore.gastoPromedioDiario() | number: '1.0-0' }} €</div>
+                            <div class="text-900 font-bold text-2xl mb-2">{{ dashboardStore.gastoPromedioDiario() | importe: null : '1.0-0' }}</div>
                             <div class="text-600 text-sm">Gasto promedio diario</div>
                         </div>
 
                         <div class="surface-border border-round p-4 text-center">
                             <i class="pi pi-chart-bar text-purple-500 mb-3" style="font-size: 2.5rem"></i>
-                            <div class="text-900 font-bold text-2xl mb-2">{{ dashboardStore.proyeccionGastosFinMes() | number: '1.0-0' }} €</div>
+                            <div class="text-900 font-bold text-2xl mb-2">{{ dashboardStore.proyeccionGastosFinMes() | importe: null : '1.0-0' }}</div>
                             <div class="text-600 text-sm">Proyección fin de mes</div>
                         </div>
                     </div>
@@ -246,7 +256,7 @@ import { BasePageComponent, BasePageTemplateComponent } from '@/shared/component
                                     </div>
                                 </div>
                                 <div class="text-right">
-                                    <div [class]="'font-bold text-lg ' + (movimiento.tipo === 'Ingreso' ? 'text-green-600' : 'text-red-600')">{{ movimiento.tipo === 'Ingreso' ? '+' : '-' }}{{ movimiento.importe | number: '1.2-2' : 'es-ES' }} €</div>
+                                    <div [class]="'font-bold text-lg ' + (movimiento.tipo === 'Ingreso' ? 'text-green-600' : 'text-red-600')">{{ movimiento.tipo === 'Ingreso' ? '+' : '-' }}{{ movimiento.importe | importe: movimiento.moneda }}</div>
                                     <div class="text-500 text-sm">{{ movimiento.fecha | date: 'dd/MM/yyyy' }}</div>
                                 </div>
                             </div>
@@ -292,9 +302,9 @@ import { BasePageComponent, BasePageTemplateComponent } from '@/shared/component
                                     @for (historico of dashboardStore.resumen()!.historicoUltimos6Meses; track historico.mes) {
                                         <tr class="border-b surface-border hover:surface-hover transition-colors">
                                             <td class="p-3 font-medium text-900">{{ historico.mesNombre | titlecase }} {{ historico.anio }}</td>
-                                            <td class="p-3 text-right text-green-600 font-medium">{{ historico.totalIngresos | number: '1.2-2' }} €</td>
-                                            <td class="p-3 text-right text-red-600 font-medium">{{ historico.totalGastos | number: '1.2-2' }} €</td>
-                                            <td [class]="'p-3 text-right font-bold ' + (historico.balance >= 0 ? 'text-green-600' : 'text-red-600')">{{ historico.balance | number: '1.2-2' }} €</td>
+                                            <td class="p-3 text-right text-green-600 font-medium">{{ historico.totalIngresos | importe }}</td>
+                                            <td class="p-3 text-right text-red-600 font-medium">{{ historico.totalGastos | importe }}</td>
+                                            <td [class]="'p-3 text-right font-bold ' + (historico.balance >= 0 ? 'text-green-600' : 'text-red-600')">{{ historico.balance | importe }}</td>
                                         </tr>
                                     }
                                 </tbody>
@@ -317,6 +327,10 @@ import { BasePageComponent, BasePageTemplateComponent } from '@/shared/component
 export class DashboardPage extends BasePageComponent {
     dashboardStore = inject(DashboardStore);
     authStore = inject(AuthStore);
+    presupuestoStore = inject(PresupuestoStore);
+
+    // Alertas del backend más las de presupuestos en aviso o superados
+    alertas = computed(() => [...this.dashboardStore.alertas(), ...this.presupuestoStore.alertas()]);
 
     protected override loadingSignal = this.dashboardStore.loading;
     protected override skeletonType = 'card' as const;
@@ -1,16 +1,26 @@
-import { computed, inject, effect } from '@angular/core';
+import { computed, inject, effect, untracked } from '@angular/core';
 import { patchState, signalStore, withComputed, withHooks, withMethods, withState } from '@ngrx/signals';
 import { rxMethod } from '@ngrx/signals/rxjs-interop';
 import { pipe, switchMap, tap } from 'rxjs';
 import { tapResponse } from '@ngrx/operators';
 import { DashboardService } from '../../../core/services/api/dashboard.service';
-import { DashboardResumen, HistoricoMensual } from '../../../core/models/dashboard.model';
+import { CategoriaGasto, DashboardResumen, HistoricoMensual } from '../../../core/models/dashboard.model';
+import { GastoService } from '../../../core/services/api/gasto.service';
+import { ExportService } from '../../../core/services/export.service';
+import { gastoPorCategoria } from '../../gastos/gastos.split';
+import { rangoPreset } from '@/shared/utils/movimiento-filters.util';
+import { MONEDA_POR_DEFECTO } from '@/core/models/moneda.model';
 import { GastosStore } from '../../gastos/stores/gastos.store';
 import { IngresosStore } from '../../ingresos/stores/ingresos.store';
+import { MonedaStore } from '../../../core/stores/moneda.store';
 
 interface DashboardState {
     resumen: DashboardResumen | null;
     historico: HistoricoMensual[];
+    // Gasto por categoría repartiendo los gastos divididos por líneas; null mientras no se ha calculado
+    categoriasGastos: CategoriaGasto[] | null;
+    // Monedas de gastos del periodo sin tipo de cambio: no entran en el gasto por categoría
+    monedasSinCambioGastos: string[];
     loading: boolean;
     error: string | null;
     lastUpdated: number | null;
@@ -26,6 +36,8 @@ interface DashboardState {
 const initialState: DashboardState = {
     resumen: null,
     historico: [],
+    categoriasGastos: null,
+    monedasSinCambioGastos: [],
     loading: false,
     error: null,
     lastUpdated: null,
@@ -33,6 +45,9 @@ const initialState: DashboardState = {
     filtros: {}
 };
 
+// Categorías que se muestran en el gráfico y en el top del dashboard
+const MAX_CATEGORIAS = 5;
+
 /**
  * Signal Store para el Dashboard
  * Agrega datos de gastos e ingresos en un resumen financiero completo
@@ -42,14 +57,28 @@ const initialState: DashboardState = {
 export const DashboardStore = signalStore(
     { providedIn: 'root' },
     withState(initialState),
-    withComputed((store) => ({
-        balanceTotal: computed(() => store.resumen()?.balanceTotal ?? 0),
+    withComputed((store, monedaStore = inject(MonedaStore)) => ({
+        // Suma de los saldos convertidos a la moneda base; sin cuentas en otras monedas, el total del servidor
+        balanceTotal: computed(() => {
+            const resumen = store.resumen();
+            if (!resumen) return 0;
+            const base = monedaStore.monedaBase();
+            if (!resumen.cuentas.some((c) => c.moneda && c.moneda !== base)) return resumen.balanceTotal;
+            return resumen.cuentas.reduce((total, c) => total + (monedaStore.convertir(c.saldo, c.moneda, base) ?? 0), 0);
+        }),
+        // Monedas de cuentas que no se pueden convertir por falta de tipo de cambio
+        monedasSinCambio: computed(() => {
+            const cuentas = store.resumen()?.cuentas ?? [];
+            const sinCambio = cuentas.filter((c) => c.moneda && monedaStore.tasa(c.moneda) === null).map((c) => c.moneda!);
+            return [...new Set([...sinCambio, ...store.monedasSinCambioGastos()])];
+        }),
         ingresosMesActual: computed(() => store.resumen()?.ingresosMesActual ?? 0),
         gastosMesActual: computed(() => store.resumen()?.gastosMesActual ?? 0),
         balanceMesActual: computed(() => store.resumen()?.balanceMesActual ?? 0),
         totalCuentas: computed(() => store.resumen()?.totalCuentas ?? 0),
         cuentas: computed(() => store.resumen()?.cuentas ?? []),
-        topCategoriasGastos: computed(() => store.resumen()?.topCategoriasGastos ?? []),
+        // El resumen del servidor apunta los gastos divididos enteros en la categoría de su línea principal
+        topCategoriasGastos: computed(() => store.categoriasGastos() ?? store.resumen()?.topCategoriasGastos ?? []),
         ultimosMovimientos: computed(() => store.resumen()?.ultimosMovimientos ?? []),
         comparativaMesAnterior: computed(() => store.resumen()?.comparativaMesAnterior),
         gastoPromedioDiario: computed(() => store.resumen()?.gastoPromedioDiario ?? 0),
@@ -65,86 +94,131 @@ export const DashboardStore = signalStore(
     withComputed((store) => ({
         isSyncing: computed(() => store.loading() && store.hasData())
     })),
-    withMethods((store, dashboardService = inject(DashboardService)) => ({
-        loadResumen: rxMethod<void>(
-            pipe(
-                tap(() => patchState(store, { loading: true, error: null })),
-                switchMap(() =>
-                    dashboardService.getResumen(store.filtros()).pipe(
-                        tapResponse({
-                            next: (resumen) => {
-                                patchState(store, { 
-                                    resumen, 
-                                    loading: false,
-                                    lastUpdated: Date.now()
-                                });
-                            },
-                            error: (error: any) => {
-                                patchState(store, { 
-                                    loading: false, 
-                                    error: error?.message || 'Error al cargar el resumen' 
-                                });
-                            }
-                        })
+    withMethods((store, dashboardService = inject(DashboardService), monedaStore = inject(MonedaStore), gastoService = inject(GastoService), exportService = inject(ExportService)) => {
+        // Solo se aplica el cálculo de la última carga
+        let cargaCategorias = 0;
+
+        /**
+         * Gasto por categoría del periodo filtrado calculado con las líneas de cada gasto
+         * Si falla se sigue usando el top de categorías del resumen
+         * Recorre todos los gastos del periodo: no va en refresh(), que se lanza al paginar la tabla de gastos
+         */
+        const cargarCategorias = async (): Promise<void> => {
+            const carga = ++cargaCategorias;
+            const filtros = store.filtros();
+            const mes = rangoPreset('este-mes');
+            const filtrosGastos = {
+                fechaInicio: filtros.fechaInicio ?? mes.fechaInicio,
+                fechaFin: filtros.fechaFin ?? mes.fechaFin,
+                cuentaIds: filtros.cuentaId ? [filtros.cuentaId] : undefined
+            };
+
+            try {
+                const gastos = await exportService.fetchAll((page, pageSize) => gastoService.getGastos(page, pageSize, undefined, undefined, undefined, undefined, filtrosGastos));
+                const base = monedaStore.monedaBase();
+                const categorias = gastoPorCategoria(gastos, (importe, gasto) => monedaStore.convertir(importe, gasto.moneda, base));
+                const filtradas = filtros.categoriaId ? categorias.filter((c) => c.categoriaId === filtros.categoriaId) : categorias;
+                const sinCambio = gastos.filter((g) => monedaStore.convertir(g.importe, g.moneda, base) === null).map((g) => g.moneda || MONEDA_POR_DEFECTO);
+                if (carga === cargaCategorias) patchState(store, { categoriasGastos: filtradas.slice(0, MAX_CATEGORIAS), monedasSinCambioGastos: [...new Set(sinCambio)] });
+            } catch (error) {
+                console.error('Error al calcular el gasto por categoría:', error);
+                if (carga === cargaCategorias) patchState(store, { categoriasGastos: null });
+            }
+        };
+
+        return {
+            cargarCategorias,
+
+            loadResumen: rxMethod<void>(
+                pipe(
+                    tap(() => {
+                        patchState(store, { loading: true, error: null });
+                        cargarCategorias();
+                    }),
+                    switchMap(() =>
+                        dashboardService.getResumen({ ...store.filtros(), monedaBase: monedaStore.monedaBase() }).pipe(
+                            tapResponse({
+                                next: (resumen) => {
+                                    patchState(store, { 
+                                        resumen, 
+                                        loading: false,
+                                        lastUpdated: Date.now()
+                                    });
+                                },
+                                error: (error: any) => {
+                                    patchState(store, { 
+                                        loading: false, 
+                                        error: error?.message || 'Error al cargar el resumen' 
+                                    });
+                                }
+                            })
+                        )
                     )
                 )
-            )
-        ),
+            ),
         
-        refresh(bypassCache: boolean = true) {
-            patchState(store, { loading: true, error: null });
+            refresh(bypassCache: boolean = true) {
+                patchState(store, { loading: true, error: null });
             
-            const subscription = dashboardService.getResumen(store.filtros(), bypassCache).subscribe({
-                next: (resumen) => {
-                    patchState(store, { 
-                        resumen, 
-                        loading: false,
-                        lastUpdated: Date.now()
-                    });
-                },
-                error: (error: any) => {
-                    console.error("Error al cargar resumen:", error);
-                    patchState(store, { 
-                        loading: false, 
-                        error: error?.message || 'Error al cargar el resumen' 
-                    });
-                }
-            });
+                const subscription = dashboardService.getResumen({ ...store.filtros(), monedaBase: monedaStore.monedaBase() }, bypassCache).subscribe({
+                    next: (resumen) => {
+                        patchState(store, { 
+                            resumen, 
+                            loading: false,
+                            lastUpdated: Date.now()
+                        });
+                    },
+                    error: (error: any) => {
+                        console.error("Error al cargar resumen:", error);
+                        patchState(store, { 
+                            loading: false, 
+                            error: error?.message || 'Error al cargar el resumen' 
+                        });
+                    }
+                });
             
-            return subscription;
-        },
+                return subscription;
+            },
         
-        setFiltros(filtros: DashboardState['filtros']) {
-            patchState(store, { filtros, loading: true, error: null });
-            dashboardService.getResumen(filtros).subscribe({
-                next: (resumen) => {
-                    patchState(store, { 
-                        resumen, 
-                        loading: false,
-                        lastUpdated: Date.now()
-                    });
-                },
-                error: (error: any) => {
-                    patchState(store, { 
-                        loading: false, 
-                        error: error?.message || 'Error al cargar el resumen' 
-                    });
-                }
-            });
-        },
+            setFiltros(filtros: DashboardState['filtros']) {
+                patchState(store, { filtros, loading: true, error: null });
+                cargarCategorias();
+                dashboardService.getResumen({ ...filtros, monedaBase: monedaStore.monedaBase() }).subscribe({
+                    next: (resumen) => {
+                        patchState(store, { 
+                            resumen, 
+                            loading: false,
+                            lastUpdated: Date.now()
+                        });
+                    },
+                    error: (error: any) => {
+                        patchState(store, { 
+                            loading: false, 
+                            error: error?.message || 'Error al cargar el resumen' 
+                        });
+                    }
+                });
+            },
         
-        toggleAutoRefresh(enabled: boolean) {
-            patchState(store, { autoRefreshEnabled: enabled });
-        },
+            toggleAutoRefresh(enabled: boolean) {
+                patchState(store, { autoRefreshEnabled: enabled });
+            },
         
-        clearError() {
-            patchState(store, { error: null });
-        }
-    })),
+            clearError() {
+                patchState(store, { error: null });
+            }
+        };
+    }),
     withHooks({
-        onInit(store) {
-            // Cargar datos iniciales
-            store.refresh();
+        onInit(store, monedaStore = inject(MonedaStore)) {
+            // Cargar datos iniciales y recargar al cambiar la moneda base en el perfil
+            effect(() => {
+                monedaStore.monedaBase();
+                untracked(() => {
+                    store.refresh();
+                    store.cargarCategorias();
+                });
+            });
             
             // Inyectar stores de Gastos e Ingresos para sincronización automática
             const gastosStore = inject(GastosStore);
@@ -161,6 +235,16 @@ export const DashboardStore = signalStore(
                 }
             });
             
+            // El gasto por categoría solo se recalcula cuando se crea, edita o borra un gasto
+            effect(() => {
+                const gastosModified = gastosStore.lastModified();
+                const autoRefresh = store.autoRefreshEnabled();
+
+                if (gastosModified && autoRefresh) {
+                    setTimeout(() => store.cargarCategorias(), 100);
+                }
+            });
+
             // Effect para refrescar dashboard cuando cambian ingresos
             effect(() => {
                 const ingresosUpdated = ingresosStore.lastUpdated();
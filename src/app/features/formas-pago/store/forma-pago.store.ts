@@ -6,7 +6,7 @@ import { tap, switchMap } from 'rxjs/operators';
 import { tapResponse } from '@ngrx/operators';
 import { FormaPagoService } from '@/core/services/api/forma-pago.service';
 import { FormaPago } from '@/core/models/forma-pago.model';
-import { ErrorResponse } from '@/core/models/error-response.model';
+import { UndoStore, edicionConDeshacer, eliminarConDeshacer, paginaSinBorrados } from '@/core/stores/undo.store';
 
 interface FormaPagoState {
     formasPago: FormaPago[];
@@ -44,7 +44,7 @@ export const FormaPagoStore = signalStore(
         isSyncing: computed(() => store.loading() && store.hasData())
     })),
     
-    withMethods((store, formaPagoService = inject(FormaPagoService)) => ({
+    withMethods((store, formaPagoService = inject(FormaPagoService), undoStore = inject(UndoStore)) => ({
         async search(query: string, limit: number = 10): Promise<FormaPago[]> {
             const cacheKey = `${query}_${limit}`;
             const cached = store.searchCache().get(cacheKey);
@@ -131,9 +131,10 @@ export const FormaPagoStore = signalStore(
                     formaPagoService.getFormasPago(page, pageSize, searchTerm, sortColumn, sortOrder).pipe(
                         tapResponse({
                             next: (response) => {
+                                const pagina = paginaSinBorrados(undoStore, response);
                                 patchState(store, {
-                                    formasPago: response.items,
-                                    totalRecords: response.totalCount,
+                                    formasPago: pagina.items,
+                                    totalRecords: pagina.totalCount,
                                     loading: false,
                                     error: null,
                                     lastUpdated: Date.now(),
@@ -173,6 +174,9 @@ export const FormaPagoStore = signalStore(
                         lastUpdated: Date.now(),
                         searchCache: new Map()
                     });
+                    if (formaPagoAnterior) {
+                        edicionConDeshacer(undoStore, store, 'formasPago', formaPagoAnterior, { mensaje: 'Forma de pago actualizada', revertir: (anterior) => formaPagoService.update(id, anterior) });
+                    }
                     return response.value;
                 }
                 throw new Error(response.error?.message || 'Error al actualizar forma de pago');
@@ -190,44 +194,13 @@ export const FormaPagoStore = signalStore(
             }
         },
 
-        deleteFormaPago: rxMethod<string>(
-            pipe(
-                switchMap((id) => {
-                    // Guardar forma de pago para rollback ANTES de eliminarla
-                    const formaPagoEliminada = store.formasPago().find(f => f.id === id);
-                    const totalAnterior = store.totalRecords();
-                    
-                    // Actualización optimista: eliminar inmediatamente
-                    patchState(store, (state) => ({
-                        formasPago: state.formasPago.filter((f) => f.id !== id),
-                        totalRecords: state.totalRecords - 1,
-                        searchCache: new Map()
-                    }));
-                    
-                    return formaPagoService.delete(id).pipe(
-                        tapResponse({
-                            next: () => {
-                                patchState(store, { lastUpdated: Date.now() });
-                            },
-                            error: (err: ErrorResponse) => {
-                                console.error('[STORE] Error al eliminar forma de pago:', err);
-                                
-                                // ROLLBACK: Restaurar forma de pago eliminada
-                                if (formaPagoEliminada) {
-                                    patchState(store, (state) => ({
-                                        formasPago: [...state.formasPago, formaPagoEliminada].sort((a, b) => a.nombre.localeCompare(b.nombre)),
-                                        totalRecords: totalAnterior,
-                                        error: err.detail || 'Error al eliminar forma de pago'
-                                    }));
-                                } else {
-                                    patchState(store, { error: err.detail || 'Error al eliminar forma de pago' });
-                                }
-                            }
-                        })
-                    );
-                })
-            )
-        ),
+        deleteFormaPago(id: string): void {
+            eliminarConDeshacer(undoStore, store, 'formasPago', id, {
+                mensaje: 'Forma de pago eliminada',
+                eliminar: () => formaPagoService.delete(id),
+                alEliminar: () => patchState(store, { lastUpdated: Date.now(), searchCache: new Map() })
+            });
+        },
 
         async getRecent(limit: number = 5): Promise<FormaPago[]> {
             patchState(store, { loading: true, error: null });
@@ -39,6 +39,8 @@ import { CuentaStore } from '@/features/cuentas/store/cuenta.store';
 import { ConceptoStore } from '@/features/conceptos/store/concepto.store';
 import { CategoriaStore } from '@/features/categorias/store/categoria.store';
 import { PersonaStore } from '@/features/personas/store/persona.store';
+import { ImportePipe } from '@/shared/pipes/importe.pipe';
+import { MonedaStore } from '@/core/stores/moneda.store';
 
 interface CatalogItem {
     id: string;
@@ -71,7 +73,8 @@ interface GastoProgramadoFormData extends Omit<Partial<GastoProgramado>, 'fechaE
         ProveedorCreateModalComponent,
         PersonaCreateModalComponent,
         CuentaCreateModalComponent,
-        FormaPagoCreateModalComponent
+        FormaPagoCreateModalComponent,
+        ImportePipe
     ],
     changeDetection: ChangeDetectionStrategy.OnPush,
     template: `
@@ -122,12 +125,12 @@ interface GastoProgramadoFormData extends Omit<Partial<GastoProgramado>, 'fechaE
                         id="importe"
                         [(ngModel)]="formData.importe"
                         mode="currency"
-                        currency="EUR"
+                        [currency]="monedaStore.monedaBase()"
                         locale="es-ES"
                         [min]="0"
                         [minFractionDigits]="2"
                         [maxFractionDigits]="2"
-                        placeholder="0,00 €"
+                        [placeholder]="0 | importe"
                         inputStyleClass="text-right font-bold text-xl text-red-600"
                         class="w-full"
                         styleClass="w-full"
@@ -332,6 +335,7 @@ interface GastoProgramadoFormData extends Omit<Partial<GastoProgramado>, 'fechaE
 })
 export class GastoProgramadoFormModalComponent {
     private messageService = inject(MessageService);
+    monedaStore = inject(MonedaStore);
     private conceptoStore = inject(ConceptoStore);
     private categoriaStore = inject(CategoriaStore);
     private proveedorStore = inject(ProveedorStore);
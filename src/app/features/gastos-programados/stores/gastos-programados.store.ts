@@ -5,6 +5,7 @@ import { firstValueFrom, pipe, switchMap, tap } from 'rxjs';
 import { tapResponse } from '@ngrx/operators';
 import { GastoProgramadoService } from '@/core/services/api/gasto-programado.service';
 import { GastoProgramado } from '@/core/models/gasto-programado.model';
+import { UndoStore, edicionConDeshacer, eliminarConDeshacer, paginaSinBorrados } from '@/core/stores/undo.store';
 
 interface GastosProgramadosState {
     gastosProgramados: GastoProgramado[];
@@ -32,7 +33,7 @@ export const GastosProgramadosStore = signalStore(
         inactivos: computed(() => store.gastosProgramados().filter((g) => !g.activo))
     })),
 
-    withMethods((store, service = inject(GastoProgramadoService)) => ({
+    withMethods((store, service = inject(GastoProgramadoService), undoStore = inject(UndoStore)) => ({
         loadGastosProgramadosPaginated: rxMethod<{
             page: number;
             pageSize: number;
@@ -46,9 +47,10 @@ export const GastosProgramadosStore = signalStore(
                     service.getGastosProgramados(page, pageSize, searchTerm, sortColumn, sortOrder).pipe(
                         tapResponse({
                             next: (response) => {
+                                const pagina = paginaSinBorrados(undoStore, response);
                                 patchState(store, {
-                                    gastosProgramados: response.items,
-                                    totalRecords: response.totalCount,
+                                    gastosProgramados: pagina.items,
+                                    totalRecords: pagina.totalCount,
                                     loading: false,
                                     error: null
                                 });
@@ -137,6 +139,9 @@ export const GastosProgramadosStore = signalStore(
 
                 if (response.isSuccess) {
                     patchState(store, { loading: false });
+                    if (gastoAnterior) {
+                        edicionConDeshacer(undoStore, store, 'gastosProgramados', gastoAnterior, { mensaje: 'Gasto programado actualizado', revertir: (anterior) => service.update(id, anterior) });
+                    }
                     return response.value;
                 }
                 throw new Error(response.error?.message || 'Error al actualizar gasto programado');
@@ -153,40 +158,12 @@ export const GastosProgramadosStore = signalStore(
             }
         },
 
-        deleteGasto: rxMethod<string>(
-            pipe(
-                switchMap((id) => {
-                    const gastoEliminado = store.gastosProgramados().find(g => g.id === id);
-                    const totalAnterior = store.totalRecords();
-
-                    patchState(store, {
-                        gastosProgramados: store.gastosProgramados().filter(g => g.id !== id),
-                        totalRecords: store.totalRecords() - 1
-                    });
-
-                    return service.delete(id).pipe(
-                        tapResponse({
-                            next: () => {
-                                patchState(store, { error: null });
-                            },
-                            error: (error: any) => {
-                                if (gastoEliminado) {
-                                    patchState(store, {
-                                        gastosProgramados: [...store.gastosProgramados(), gastoEliminado],
-                                        totalRecords: totalAnterior,
-                                        error: error.message || 'Error al eliminar gasto programado'
-                                    });
-                                } else {
-                                    patchState(store, {
-                                        error: error.message || 'Error al eliminar gasto programado'
-                                    });
-                                }
-                            }
-                        })
-                    );
-                })
-            )
-        ),
+        deleteGasto(id: string): void {
+            eliminarConDeshacer(undoStore, store, 'gastosProgramados', id, {
+                mensaje: 'Gasto programado eliminado',
+                eliminar: () => service.delete(id)
+            });
+        },
 
         selectGasto(gasto: GastoProgramado | null) {
             patchState(store, { selectedGasto: gasto });
@@ -0,0 +1,182 @@
+import { Component, computed, inject, output, signal, ChangeDetectionStrategy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ButtonModule } from 'primeng/button';
+import { IconFieldModule } from 'primeng/iconfield';
+import { InputIconModule } from 'primeng/inputicon';
+import { InputTextModule } from 'primeng/inputtext';
+import { TagModule } from 'primeng/tag';
+import { Gasto } from '@/core/models';
+import { CatalogRef } from '@/core/models/common.model';
+import { ValoresDefectoStore } from '@/core/stores/valores-defecto.store';
+import { ConceptoStore } from '@/features/conceptos/store/concepto.store';
+import { ProveedorStore } from '@/features/proveedores/store/proveedor.store';
+import { FormaPagoStore } from '@/features/formas-pago/store/forma-pago.store';
+import { CuentaStore } from '@/features/cuentas/store/cuenta.store';
+import { PersonaStore } from '@/features/personas/store/persona.store';
+import { ReglaStore } from '@/features/reglas/store/regla.store';
+import { CAMPOS_ENTRADA_RAPIDA, CampoEntradaRapida, CoincidenciaCatalogo, analizarEntradaRapida, asignarCoincidencias, puntuarCoincidencia } from '@/shared/utils/entrada-rapida.util';
+import { ImportePipe } from '@/shared/pipes/importe.pipe';
+import { toFechaIso } from '@/shared/utils/movimiento-filters.util';
+import { CAMPOS_ACCION_REGLA } from '@/shared/utils/reglas.util';
+import { CampoAccionRegla } from '@/core/models/regla.model';
+
+// Los conceptos llegan con su categoría
+type ItemCatalogo = CatalogRef & { categoriaId?: string; categoriaNombre?: string; moneda?: string };
+
+/**
+ * Entrada rápida de gastos en una línea ("34,50 mercadona tarjeta ayer")
+ * Muestra cómo se ha interpretado antes de crear el gasto (`crear`) o abrirlo en el formulario (`revisar`)
+ * Lo que el texto no deja claro lo completan las reglas de auto-categorización y, si no,
+ * las cuentas y formas de pago más usadas
+ */
+@Component({
+    selector: 'app-gasto-entrada-rapida',
+    standalone: true,
+    imports: [CommonModule, FormsModule, ButtonModule, IconFieldModule, InputIconModule, InputTextModule, TagModule, ImportePipe],
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    template: `
+        <div class="flex flex-col gap-2">
+            <p-iconfield class="w-full">
+                <p-inputicon [styleClass]="analizando() ? 'pi pi-spin pi-spinner' : 'pi pi-bolt'" />
+                <input pInputText type="text" class="w-full" [(ngModel)]="texto" placeholder='Entrada rápida: "34,50 mercadona tarjeta ayer" y Enter' aria-label="Entrada rápida de gasto" (keydown.enter)="analizar()" (keydown.escape)="descartar()" />
+            </p-iconfield>
+
+            @if (propuesta(); as gasto) {
+                <div class="flex flex-wrap items-center gap-2 p-3 border border-surface rounded-border">
+                    <p-tag [severity]="gasto.importe ? 'info' : 'warn'" [value]="gasto.importe ? (gasto.importe | importe: gasto.moneda) : 'Sin importe'" />
+                    <p-tag severity="secondary" [value]="(gasto.fecha | date: 'dd/MM/yyyy') ?? ''" icon="pi pi-calendar" />
+                    @for (parte of partes(); track parte.etiqueta) {
+                        <p-tag [severity]="parte.valor ? 'secondary' : 'warn'" [value]="parte.etiqueta + ': ' + (parte.valor || 'sin asignar')" />
+                    }
+                    @if (reglas().length > 0) {
+                        <p-tag severity="success" icon="pi pi-sliders-h" [value]="'Reglas: ' + reglas().join(', ')" />
+                    }
+                    <span class="flex-1"></span>
+                    <p-button label="Descartar" [text]="true" size="small" severity="secondary" (onClick)="descartar()" />
+                    <p-button label="Revisar" icon="pi pi-pencil" [outlined]="true" size="small" (onClick)="emitir(revisar)" />
+                    <p-button label="Crear gasto" icon="pi pi-check" size="small" [disabled]="!completa()" (onClick)="emitir(crear)" />
+                </div>
+            }
+        </div>
+    `
+})
+export class GastoEntradaRapidaComponent {
+    private conceptoStore = inject(ConceptoStore);
+    private proveedorStore = inject(ProveedorStore);
+    private formaPagoStore = inject(FormaPagoStore);
+    private cuentaStore = inject(CuentaStore);
+    private personaStore = inject(PersonaStore);
+    private valoresDefecto = inject(ValoresDefectoStore);
+    private reglaStore = inject(ReglaStore);
+
+    crear = output<Partial<Gasto>>();
+    revisar = output<Partial<Gasto>>();
+
+    texto = '';
+    analizando = signal(false);
+    propuesta = signal<Partial<Gasto> | null>(null);
+    // Nombres de las reglas que han completado la propuesta
+    reglas = signal<string[]>([]);
+
+    partes = computed(() => {
+        const gasto = this.propuesta();
+        return [
+            { etiqueta: 'Concepto', valor: gasto?.conceptoNombre },
+            { etiqueta: 'Proveedor', valor: gasto?.proveedorNombre },
+            { etiqueta: 'Forma de pago', valor: gasto?.formaPagoNombre },
+            { etiqueta: 'Cuenta', valor: gasto?.cuentaNombre },
+            { etiqueta: 'Persona', valor: gasto?.personaNombre }
+        ];
+    });
+
+    // Lo mismo que exige el formulario para guardar
+    completa = computed(() => {
+        const gasto = this.propuesta();
+        return !!gasto?.importe && !!gasto.conceptoId && !!gasto.categoriaId && !!gasto.proveedorId && !!gasto.formaPagoId && !!gasto.cuentaId && !!gasto.personaId;
+    });
+
+    async analizar() {
+        const entrada = analizarEntradaRapida(this.texto);
+        if (!entrada.importe && entrada.terminos.length === 0) return;
+
+        this.analizando.set(true);
+        try {
+            // Cada palabra se busca en todos los catálogos; si una búsqueda falla, cuenta como sin resultados
+            const busquedas = entrada.terminos.flatMap((termino) =>
+                CAMPOS_ENTRADA_RAPIDA.map(async (campo): Promise<CoincidenciaCatalogo<ItemCatalogo>[]> => {
+                    const items = await this.buscar(campo, termino).catch(() => []);
+                    return items.map((item) => ({ campo, termino, item, puntos: puntuarCoincidencia(termino, item.nombre) }));
+                })
+            );
+            const [coincidencias, personas] = await Promise.all([Promise.all(busquedas), this.personaStore.getRecent(1).catch(() => [])]);
+            const asignadas = asignarCoincidencias(coincidencias.flat());
+
+            const cuenta = asignadas.cuenta ?? this.valoresDefecto.cuenta();
+
+            // Las reglas solo rellenan lo que no ha salido del texto, como en el formulario
+            const resultado = this.reglaStore.evaluar({
+                tipo: 'gasto',
+                importe: entrada.importe ?? 0,
+                descripcion: entrada.terminos.join(' '),
+                conceptoNombre: asignadas.concepto?.nombre,
+                cuentaId: cuenta?.id
+            });
+            const delTexto: Partial<Record<CampoAccionRegla, boolean>> = { concepto: !!asignadas.concepto, categoria: !!asignadas.concepto, proveedor: !!asignadas.proveedor, formaPago: !!asignadas.formaPago };
+            const regla = (campo: CampoAccionRegla) => (delTexto[campo] ? null : (resultado.acciones[campo] ?? null));
+
+            const concepto: ItemCatalogo | null = asignadas.concepto ?? regla('concepto');
+            const categoria = asignadas.concepto ? { id: asignadas.concepto.categoriaId, nombre: asignadas.concepto.categoriaNombre } : regla('categoria');
+            const proveedor = asignadas.proveedor ?? regla('proveedor');
+            const formaPago = asignadas.formaPago ?? regla('formaPago') ?? this.valoresDefecto.formaPago();
+            const persona = regla('persona') ?? personas[0] ?? null;
+
+            this.reglas.set([...new Set(CAMPOS_ACCION_REGLA.filter((campo) => regla(campo)).map((campo) => resultado.origen[campo]!.nombre))]);
+            this.propuesta.set({
+                importe: entrada.importe ?? undefined,
+                fecha: entrada.fecha ?? toFechaIso(new Date()),
+                conceptoId: concepto?.id,
+                conceptoNombre: concepto?.nombre,
+                categoriaId: categoria?.id,
+                categoriaNombre: categoria?.nombre,
+                proveedorId: proveedor?.id,
+                proveedorNombre: proveedor?.nombre,
+                formaPagoId: formaPago?.id,
+                formaPagoNombre: formaPago?.nombre,
+                cuentaId: cuenta?.id,
+                cuentaNombre: cuenta?.nombre,
+                moneda: (cuenta as ItemCatalogo | null)?.moneda,
+                personaId: persona?.id,
+                personaNombre: persona?.nombre
+            });
+        } finally {
+            this.analizando.set(false);
+        }
+    }
+
+    emitir(salida: typeof this.crear) {
+        const gasto = this.propuesta();
+        if (!gasto) return;
+        salida.emit(gasto);
+        this.descartar();
+    }
+
+    descartar() {
+        this.texto = '';
+        this.propuesta.set(null);
+        this.reglas.set([]);
+    }
+
+    private buscar(campo: CampoEntradaRapida, termino: string): Promise<ItemCatalogo[]> {
+        switch (campo) {
+            case 'concepto':
+                return this.conceptoStore.search(termino, 5);
+            case 'proveedor':
+                return this.proveedorStore.search(termino, 5);
+            case 'formaPago':
+                return this.formaPagoStore.search(termino, 5);
+            case 'cuenta':
+                return this.cuentaStore.search(termino, 5);
+        }
+    }
+}
@@ -19,22 +19,60 @@ import { Concepto } from '@/core/models/concepto.model';
 import { Categoria } from '@/core/models/categoria.model';
 import { FormaPago } from '@/core/models/forma-pago.model';
 import { Cuenta } from '@/core/models/cuenta.model';
+import { DuplicadoVista, PosibleDuplicado } from '@/core/models/duplicado.model';
+import { CatalogRef } from '@/core/models/common.model';
+import { CampoAccionRegla } from '@/core/models/regla.model';
+import { Adjunto, ConAdjuntos } from '@/core/models/adjunto.model';
 
 // Componentes de creación rápida
-import { CategoriaCreateModalComponent, ProveedorCreateModalComponent, PersonaCreateModalComponent, CuentaCreateModalComponent, FormaPagoCreateModalComponent } from '@/shared/components';
+import { CategoriaCreateModalComponent, ProveedorCreateModalComponent, PersonaCreateModalComponent, CuentaCreateModalComponent, FormaPagoCreateModalComponent, DuplicateWarningComponent, PlantillasChipsComponent, AdjuntosInputComponent } from '@/shared/components';
 import { ConceptoCreateModalComponent } from '@/features/conceptos/components/concepto-create-modal.component';
 
 // Stores
 import { ProveedorStore } from '@/features/proveedores/store/proveedor.store';
 import { FormaPagoStore } from '@/features/formas-pago/store/forma-pago.store';
+import { GastosStore } from '@/features/gastos/stores/gastos.store';
 import { CuentaStore } from '@/features/cuentas/store/cuenta.store';
 import { ConceptoStore } from '@/features/conceptos/store/concepto.store';
 import { CategoriaStore } from '@/features/categorias/store/categoria.store';
 import { PersonaStore } from '@/features/personas/store/persona.store';
+import { ReglaStore } from '@/features/reglas/store/regla.store';
+import { ValoresDefectoStore } from '@/core/stores/valores-defecto.store';
+
+// Gasto dividido
+import { GastoLineasComponent } from './gasto-lineas.component';
+import { GastoLineaForm, lineaPrincipal, toGastoLinea, toLineaForm, validarReparto } from '../gastos.split';
+
+// Gasto compartido entre personas
+import { RepartoCompartidoComponent } from '@/features/compartidos/components/reparto-compartido.component';
+import { RepartoForm, toRepartoForm, toRepartoGasto } from '@/features/compartidos/compartidos.reparto';
+import { validarRepartoCompartido } from '@/shared/utils/compartidos.util';
+import { atajoFormulario } from '@/shared/utils/atajos-teclado.util';
+import { PlantillaMovimiento } from '@/core/models/plantilla.model';
+import { MONEDA_POR_DEFECTO } from '@/core/models/moneda.model';
+import { MonedaStore } from '@/core/stores/moneda.store';
+import { ImportePipe } from '@/shared/pipes/importe.pipe';
 
 interface CatalogItem {
     id: string;
     nombre: string;
+    // Solo cuentas
+    moneda?: string;
+}
+
+function toDuplicadoVista(gasto: Partial<Gasto>): DuplicadoVista {
+    return {
+        titulo: gasto.conceptoNombre || '',
+        fecha: gasto.fecha || '',
+        importe: gasto.importe || 0,
+        cuenta: gasto.cuentaNombre || '',
+        descripcion: gasto.descripcion,
+        detalles: [
+            { label: 'Categoría', value: gasto.categoriaNombre || '' },
+            { label: 'Proveedor', value: gasto.proveedorNombre || '' },
+            { label: 'Forma de pago', value: gasto.formaPagoNombre || '' }
+        ]
+    };
 }
 
 interface GastoFormData extends Omit<Partial<Gasto>, 'fecha'> {
@@ -60,7 +98,13 @@ interface GastoFormData extends Omit<Partial<Gasto>, 'fecha'> {
         ProveedorCreateModalComponent,
         PersonaCreateModalComponent,
         CuentaCreateModalComponent,
-        FormaPagoCreateModalComponent
+        FormaPagoCreateModalComponent,
+        DuplicateWarningComponent,
+        PlantillasChipsComponent,
+        AdjuntosInputComponent,
+        GastoLineasComponent,
+        RepartoCompartidoComponent,
+        ImportePipe
     ],
     changeDetection: ChangeDetectionStrategy.OnPush,
     template: `
@@ -71,47 +115,61 @@ interface GastoFormData extends Omit<Partial<Gasto>, 'fecha'> {
                 </div>
             </ng-template>
 
-            <div class="grid grid-cols-12 gap-4 p-fluid py-2">
-                <div class="col-span-12 field">
-                    <label for="concepto" class="font-semibold text-gray-700 block mb-2">Concepto *</label>
-                    <div class="flex align-items-center gap-2">
-                        <p-autoComplete
-                            [(ngModel)]="selectedConcepto"
-                            [placeholder]="getConceptoPlaceholder()"
-                            [suggestions]="filteredConceptos()"
-                            (completeMethod)="searchConceptos($event)"
-                            [showClear]="true"
-                            (onClear)="onConceptoClear()"
-                            optionLabel="nombre"
-                            [dropdown]="true"
-                            class="flex-1 w-full"
-                            styleClass="w-full"
-                            [forceSelection]="true"
-                            (onSelect)="onConceptoSelect($event)"
-                            inputStyleClass="font-semibold"
-                        />
-                        <button pButton icon="pi pi-plus" [rounded]="true" [text]="true" severity="primary" (click)="openCreateConcepto()" pTooltip="Crear concepto"></button>
+            @if (duplicados().length > 0 && vistaNuevo()) {
+                <app-duplicate-warning [nuevo]="vistaNuevo()!" [duplicados]="duplicados()" (confirm)="confirmarDuplicado()" (dismiss)="descartarDuplicados()" />
+            }
+
+            @if (!isEditMode() && duplicados().length === 0) {
+                <app-plantillas-chips tipo="gasto" [soloRellenar]="true" class="block mb-4" (rellenar)="aplicarPlantilla($event)" />
+            }
+
+            <div class="grid grid-cols-12 gap-4 p-fluid py-2" [class.hidden]="duplicados().length > 0" (keydown)="onAtajo($event)">
+                @if (!dividido()) {
+                    <div class="col-span-12 field">
+                        <label for="concepto" class="font-semibold text-gray-700 block mb-2">Concepto *</label>
+                        <div class="flex align-items-center gap-2">
+                            <p-autoComplete
+                                [(ngModel)]="selectedConcepto"
+                                [placeholder]="getConceptoPlaceholder()"
+                                [suggestions]="filteredConceptos()"
+                                (completeMethod)="searchConceptos($event)"
+                                [showClear]="true"
+                                (onClear)="onConceptoClear()"
+                                optionLabel="nombre"
+                                [dropdown]="true"
+                                class="flex-1 w-full"
+                                styleClass="w-full"
+                                [forceSelection]="true"
+                                (onSelect)="onConceptoSelect($event)"
+                                inputStyleClass="font-semibold"
+                            />
+                            <button pButton icon="pi pi-plus" [rounded]="true" [text]="true" severity="primary" (click)="openCreateConcepto()" pTooltip="Crear concepto"></button>
+                        </div>
+                        @if (submitted() && !selectedConcepto) {
+                            <small class="text-red-500 block mt-1">El concepto es requerido.</small>
+                        }
                     </div>
-                    @if (submitted() && !selectedConcepto) {
-                        <small class="text-red-500 block mt-1">El concepto es requerido.</small>
-                    }
-                </div>
+                }
 
                 <div class="col-span-12 md:col-span-6 field">
-                    <label for="importe" class="font-semibold text-gray-700 block mb-2">Importe *</label>
+                    <div class="flex items-center justify-between mb-2">
+                        <label for="importe" class="font-semibold text-gray-700 block">Importe *</label>
+                        <p-button [label]="dividido() ? 'Sin dividir' : 'Dividir'" [icon]="dividido() ? 'pi pi-times' : 'pi pi-sitemap'" [text]="true" size="small" (onClick)="toggleDividir()" pTooltip="Repartir el importe entre varias categorías o personas" />
+                    </div>
                     <p-inputNumber
                         id="importe"
                         [(ngModel)]="formData.importe"
                         mode="currency"
-                        currency="EUR"
+                        [currency]="moneda()"
                         locale="es-ES"
                         [min]="0"
                         [minFractionDigits]="2"
                         [maxFractionDigits]="2"
-                        placeholder="0,00 €"
+                        [placeholder]="0 | importe: moneda()"
                         inputStyleClass="text-right font-bold text-xl text-red-600"
                         class="w-full"
                         styleClass="w-full"
+                        (onBlur)="aplicarReglas()"
                     />
                     @if (submitted() && !formData.importe) {
                         <small class="text-red-500 block mt-1">Requerido.</small>
@@ -123,33 +181,44 @@ interface GastoFormData extends Omit<Partial<Gasto>, 'fecha'> {
                     <p-datePicker [(ngModel)]="formData.fecha" dateFormat="dd/mm/yy" [showIcon]="true" appendTo="body" styleClass="w-full" class="w-full" />
                 </div>
 
+                @if (dividido()) {
+                    <div class="col-span-12 mt-4">
+                        <h5 class="text-xs font-bold text-500 uppercase tracking-wider border-b border-gray-200 pb-2 mb-2">Reparto del Importe</h5>
+                    </div>
+                    <div class="col-span-12">
+                        <app-gasto-lineas [(lineas)]="lineas" [total]="formData.importe || 0" [moneda]="moneda()" [submitted]="submitted()" />
+                    </div>
+                }
+
                 <div class="col-span-12 mt-4">
                     <h5 class="text-xs font-bold text-500 uppercase tracking-wider border-b border-gray-200 pb-2 mb-2">Clasificación Financiera</h5>
                 </div>
 
-                <div class="col-span-12 md:col-span-6 field">
-                    <label class="font-medium text-gray-700 block mb-2 text-sm">Categoría</label>
-                    <div class="flex align-items-center gap-2">
-                        <p-autoComplete
-                            [(ngModel)]="selectedCategoria"
-                            [suggestions]="filteredCategorias()"
-                            (completeMethod)="searchCategorias($event)"
-                            [showClear]="true"
-                            (onClear)="onCategoriaClear()"
-                            optionLabel="nombre"
-                            [dropdown]="true"
-                            placeholder="Seleccionar..."
-                            [forceSelection]="false"
-                            (onSelect)="onCategoriaSelect($event)"
-                            class="flex-1 w-full"
-                            styleClass="w-full"
-                        />
-                        <button pButton icon="pi pi-plus" [rounded]="true" [text]="true" severity="primary" (click)="openCreateCategoria()"></button>
+                @if (!dividido()) {
+                    <div class="col-span-12 md:col-span-6 field">
+                        <label class="font-medium text-gray-700 block mb-2 text-sm">Categoría</label>
+                        <div class="flex align-items-center gap-2">
+                            <p-autoComplete
+                                [(ngModel)]="selectedCategoria"
+                                [suggestions]="filteredCategorias()"
+                                (completeMethod)="searchCategorias($event)"
+                                [showClear]="true"
+                                (onClear)="onCategoriaClear()"
+                                optionLabel="nombre"
+                                [dropdown]="true"
+                                placeholder="Seleccionar..."
+                                [forceSelection]="false"
+                                (onSelect)="onCategoriaSelect($event)"
+                                class="flex-1 w-full"
+                                styleClass="w-full"
+                            />
+                            <button pButton icon="pi pi-plus" [rounded]="true" [text]="true" severity="primary" (click)="openCreateCategoria()"></button>
+                        </div>
+                        @if (submitted() && !selectedCategoria) {
+                            <small class="text-red-500 block mt-1">Requerida.</small>
+                        }
                     </div>
-                    @if (submitted() && !selectedCategoria) {
-                        <small class="text-red-500 block mt-1">Requerida.</small>
-                    }
-                </div>
+                }
 
                 <div class="col-span-12 md:col-span-6 field">
                     <label class="font-medium text-gray-700 block mb-2 text-sm">Forma de Pago *</label>
@@ -221,39 +290,55 @@ interface GastoFormData extends Omit<Partial<Gasto>, 'fecha'> {
                     }
                 </div>
 
-                <div class="col-span-12 md:col-span-6 field">
-                    <label class="font-medium text-gray-700 block mb-2 text-sm">Persona *</label>
-                    <div class="flex align-items-center gap-2">
-                        <p-autoComplete
-                            [(ngModel)]="selectedPersona"
-                            [suggestions]="filteredPersonas()"
-                            (completeMethod)="searchPersonas($event)"
-                            optionLabel="nombre"
-                            [dropdown]="true"
-                            placeholder="Buscar persona..."
-                            [forceSelection]="false"
-                            (onSelect)="onPersonaSelect($event)"
-                            class="flex-1 w-full"
-                            styleClass="w-full"
-                        />
-                        <button pButton icon="pi pi-plus" [rounded]="true" [text]="true" severity="primary" (click)="openCreatePersona()"></button>
+                @if (!dividido()) {
+                    <div class="col-span-12 md:col-span-6 field">
+                        <label class="font-medium text-gray-700 block mb-2 text-sm">Persona *</label>
+                        <div class="flex align-items-center gap-2">
+                            <p-autoComplete
+                                [(ngModel)]="selectedPersona"
+                                [suggestions]="filteredPersonas()"
+                                (completeMethod)="searchPersonas($event)"
+                                optionLabel="nombre"
+                                [dropdown]="true"
+                                placeholder="Buscar persona..."
+                                [forceSelection]="false"
+                                (onSelect)="onPersonaSelect($event)"
+                                class="flex-1 w-full"
+                                styleClass="w-full"
+                            />
+                            <button pButton icon="pi pi-plus" [rounded]="true" [text]="true" severity="primary" (click)="openCreatePersona()"></button>
+                        </div>
+                        @if (submitted() && !selectedPersona) {
+                            <small class="text-red-500 block mt-1">Requerida.</small>
+                        }
                     </div>
-                    @if (submitted() && !selectedPersona) {
-                        <small class="text-red-500 block mt-1">Requerida.</small>
-                    }
+                }
+
+                <div class="col-span-12 field">
+                    <app-reparto-compartido [(reparto)]="compartido" [importe]="formData.importe || 0" [moneda]="moneda()" [pagador]="dividido() ? null : selectedPersona" [submitted]="submitted()" />
+                </div>
+
+                <div class="col-span-12 field mt-3">
+                    <label class="font-semibold text-gray-700 block mb-2">Adjuntos</label>
+                    <app-adjuntos-input [existentes]="adjuntosExistentes" [(nuevos)]="adjuntosNuevos" [(eliminados)]="adjuntosEliminados" />
                 </div>
 
                 <div class="col-span-12 field mt-3">
                     <label for="descripcion" class="font-semibold text-gray-700 block mb-2">Descripción / Notas</label>
-                    <textarea id="descripcion" pTextarea [(ngModel)]="formData.descripcion" rows="3" class="w-full" styleClass="w-full" placeholder="Añadir detalles adicionales..."></textarea>
+                    <textarea id="descripcion" pTextarea [(ngModel)]="formData.descripcion" (blur)="aplicarReglas()" rows="3" class="w-full" styleClass="w-full" placeholder="Añadir detalles adicionales..."></textarea>
                 </div>
             </div>
 
             <ng-template pTemplate="footer">
-                <div class="flex justify-end gap-2 p-3 surface-border border-top-1">
-                    <p-button label="Cancelar" icon="pi pi-times" [text]="true" severity="secondary" (onClick)="onCancel()" />
-                    <p-button label="Guardar Gasto" icon="pi pi-check" (onClick)="onSave()" />
-                </div>
+                @if (duplicados().length === 0) {
+                    <div class="flex justify-end gap-2 p-3 surface-border border-top-1">
+                        <p-button label="Cancelar" icon="pi pi-times" [text]="true" severity="secondary" (onClick)="onCancel()" />
+                        @if (guardarYNuevo() && !isEditMode()) {
+                            <p-button label="Guardar y nuevo" icon="pi pi-plus" severity="secondary" [outlined]="true" [disabled]="checkingDuplicates()" (onClick)="onSave(true)" pTooltip="Ctrl+Shift+Enter" tooltipPosition="top" />
+                        }
+                        <p-button label="Guardar Gasto" icon="pi pi-check" [loading]="checkingDuplicates()" (onClick)="onSave()" />
+                    </div>
+                }
             </ng-template>
         </p-drawer>
 
@@ -296,18 +381,45 @@ export class GastoFormModalComponent {
     private personaStore = inject(PersonaStore);
     private cuentaStore = inject(CuentaStore);
     private formaPagoStore = inject(FormaPagoStore);
+    private gastosStore = inject(GastosStore);
+    private reglaStore = inject(ReglaStore);
+    private valoresDefecto = inject(ValoresDefectoStore);
+    private monedaStore = inject(MonedaStore);
 
     // Inputs/Outputs
     visible = input<boolean>(false);
     gasto = input<Partial<Gasto> | null>(null);
     visibleChange = output<boolean>();
-    save = output<Partial<Gasto>>();
+    save = output<ConAdjuntos<Partial<Gasto>>>();
+    // "Guardar y nuevo" (o Ctrl+Shift+Enter): el panel sigue abierto y la página carga el siguiente gasto
+    // Solo al crear y si la página lo habilita con [guardarYNuevo]; si no, el atajo guarda sin más y no hay botón
+    guardarYNuevo = input(false);
+    saveAndNew = output<ConAdjuntos<Partial<Gasto>>>();
     cancel = output<void>();
 
     // Estado del formulario
     formData: GastoFormData = {};
     submitted = signal(false);
 
+    // Posibles duplicados pendientes de confirmar (solo en creación)
+    duplicados = signal<PosibleDuplicado<DuplicadoVista>[]>([]);
+    vistaNuevo = signal<DuplicadoVista | null>(null);
+    checkingDuplicates = signal(false);
+    private pendingSave: ConAdjuntos<Partial<Gasto>> | null = null;
+    private pendingNuevo = false;
+
+    // Adjuntos: se suben al guardar, cuando el movimiento ya tiene id
+    adjuntosExistentes: Adjunto[] = [];
+    adjuntosNuevos: File[] = [];
+    adjuntosEliminados: Adjunto[] = [];
+
+    // Reparto del importe en varias líneas
+    dividido = signal(false);
+    lineas: GastoLineaForm[] = [];
+
+    // Reparto entre personas (null = no compartido)
+    compartido: RepartoForm | null = null;
+
     // Selectores asíncronos
     selectedConcepto: CatalogItem | null = null;
     selectedCategoria: CatalogItem | null = null;
@@ -350,6 +462,10 @@ export class GastoFormModalComponent {
     private loadFormData() {
         const gastoData = this.gasto();
 
+        this.adjuntosExistentes = gastoData?.id ? (gastoData.adjuntos ?? []) : [];
+        this.adjuntosNuevos = [];
+        this.adjuntosEliminados = [];
+
         if (gastoData?.id) {
             // Modo edición
             this.isEditMode.set(true);
@@ -358,29 +474,65 @@ export class GastoFormModalComponent {
                 fecha: gastoData.fecha ? new Date(gastoData.fecha) : new Date()
             };
 
-            this.selectedConcepto = gastoData.conceptoId && gastoData.conceptoNombre ? { id: gastoData.conceptoId, nombre: gastoData.conceptoNombre } : null;
-            this.selectedCategoria = gastoData.categoriaId && gastoData.categoriaNombre ? { id: gastoData.categoriaId, nombre: gastoData.categoriaNombre } : null;
-            this.selectedProveedor = gastoData.proveedorId && gastoData.proveedorNombre ? { id: gastoData.proveedorId, nombre: gastoData.proveedorNombre } : null;
-            this.selectedPersona = gastoData.personaId && gastoData.personaNombre ? { id: gastoData.personaId, nombre: gastoData.personaNombre } : null;
-            this.selectedCuenta = gastoData.cuentaId && gastoData.cuentaNombre ? { id: gastoData.cuentaId, nombre: gastoData.cuentaNombre } : null;
-            this.selectedFormaPago = gastoData.formaPagoId && gastoData.formaPagoNombre ? { id: gastoData.formaPagoId, nombre: gastoData.formaPagoNombre } : null;
+            const lineas = gastoData.lineas ?? [];
+            this.dividido.set(lineas.length > 1);
+            this.lineas = lineas.length > 1 ? lineas.map(toLineaForm) : [];
+            this.compartido = gastoData.compartido ? toRepartoForm(gastoData.compartido) : null;
         } else {
-            // Modo creación
+            // Modo creación (admite valores precargados, p. ej. al guardar y empezar otro)
             this.isEditMode.set(false);
             this.formData = {
-                fecha: new Date(),
-                descripcion: ''
+                descripcion: '',
+                ...gastoData,
+                fecha: gastoData?.fecha ? new Date(gastoData.fecha) : new Date()
             };
-            this.selectedConcepto = null;
-            this.selectedCategoria = null;
-            this.selectedProveedor = null;
-            this.selectedPersona = null;
-            this.selectedCuenta = null;
-            this.selectedFormaPago = null;
+            this.dividido.set(false);
+            this.lineas = [];
+            this.compartido = null;
+        }
+
+        this.selectedConcepto = gastoData?.conceptoId && gastoData.conceptoNombre ? { id: gastoData.conceptoId, nombre: gastoData.conceptoNombre } : null;
+        this.selectedCategoria = gastoData?.categoriaId && gastoData.categoriaNombre ? { id: gastoData.categoriaId, nombre: gastoData.categoriaNombre } : null;
+        this.selectedProveedor = gastoData?.proveedorId && gastoData.proveedorNombre ? { id: gastoData.proveedorId, nombre: gastoData.proveedorNombre } : null;
+        this.selectedPersona = gastoData?.personaId && gastoData.personaNombre ? { id: gastoData.personaId, nombre: gastoData.personaNombre } : null;
+        this.selectedCuenta = gastoData?.cuentaId && gastoData.cuentaNombre ? { id: gastoData.cuentaId, nombre: gastoData.cuentaNombre, moneda: gastoData.moneda } : null;
+        this.selectedFormaPago = gastoData?.formaPagoId && gastoData.formaPagoNombre ? { id: gastoData.formaPagoId, nombre: gastoData.formaPagoNombre } : null;
+
+        // Un gasto nuevo sin cuenta ni forma de pago empieza con las más usadas
+        if (!this.isEditMode()) {
+            this.selectedCuenta ??= this.valoresDefecto.cuenta();
+            this.selectedFormaPago ??= this.valoresDefecto.formaPago();
         }
         this.submitted.set(false);
     }
 
+    // El importe va en la moneda de la cuenta; sin cuenta elegida, en la moneda base
+    moneda(): string {
+        return this.selectedCuenta ? this.selectedCuenta.moneda || MONEDA_POR_DEFECTO : this.monedaStore.monedaBase();
+    }
+
+    // --- Gasto dividido ---
+    toggleDividir() {
+        if (this.dividido()) {
+            // Al volver a un solo gasto se conservan los datos de la línea principal
+            const principal = this.lineas.length > 0 ? lineaPrincipal(this.lineas) : null;
+            if (principal) {
+                this.selectedConcepto = principal.concepto;
+                this.selectedCategoria = principal.categoria;
+                this.selectedPersona = principal.persona;
+            }
+            this.lineas = [];
+            this.dividido.set(false);
+            return;
+        }
+
+        this.lineas = [
+            { importe: this.formData.importe || null, concepto: this.selectedConcepto, categoria: this.selectedCategoria, persona: this.selectedPersona },
+            { importe: null, concepto: null, categoria: null, persona: this.selectedPersona }
+        ];
+        this.dividido.set(true);
+    }
+
     // --- Métodos de búsqueda (Search) ---
     searchConceptos(event: AutoCompleteCompleteEvent) {
         const query = event.query;
@@ -487,6 +639,8 @@ export class GastoFormModalComponent {
             this.formData.categoriaNombre = categoriaAsociada.nombre;
             this.messageService.add({ severity: 'info', summary: 'Info', detail: `Categoría ${value.categoriaNombre} asignada` });
         }
+
+        this.aplicarReglas();
     }
 
     onCategoriaSelect(event: any) {
@@ -509,12 +663,67 @@ export class GastoFormModalComponent {
     onCuentaSelect(event: any) {
         this.formData.cuentaId = event.id;
         this.formData.cuentaNombre = event.nombre;
+        this.aplicarReglas();
     }
     onFormaPagoSelect(event: any) {
         this.formData.formaPagoId = event.id;
         this.formData.formaPagoNombre = event.nombre;
     }
 
+    // --- Reglas de auto-categorización (solo en creación, sin pisar lo ya elegido) ---
+    aplicarReglas() {
+        if (this.isEditMode()) return;
+
+        const resultado = this.reglaStore.evaluar({
+            tipo: 'gasto',
+            importe: this.formData.importe || 0,
+            descripcion: this.formData.descripcion,
+            conceptoNombre: this.selectedConcepto?.nombre,
+            cuentaId: this.selectedCuenta?.id
+        });
+        const aplicadas = new Set<string>();
+
+        const aplicar = (campo: CampoAccionRegla, vacio: boolean, asignar: (valor: CatalogRef) => void) => {
+            const valor = resultado.acciones[campo];
+            if (!valor || !vacio) return;
+            asignar(valor);
+            aplicadas.add(resultado.origen[campo]!.nombre);
+        };
+
+        // En un gasto dividido concepto, categoría y persona van por línea
+        const porLinea = this.dividido();
+
+        aplicar('concepto', !porLinea && !this.selectedConcepto, (v) => {
+            this.selectedConcepto = { ...v };
+            this.formData.conceptoId = v.id;
+            this.formData.conceptoNombre = v.nombre;
+        });
+        aplicar('categoria', !porLinea && !this.selectedCategoria, (v) => {
+            this.selectedCategoria = { ...v };
+            this.formData.categoriaId = v.id;
+            this.formData.categoriaNombre = v.nombre;
+        });
+        aplicar('proveedor', !this.selectedProveedor, (v) => {
+            this.selectedProveedor = { ...v };
+            this.formData.proveedorId = v.id;
+            this.formData.proveedorNombre = v.nombre;
+        });
+        aplicar('persona', !porLinea && !this.selectedPersona, (v) => {
+            this.selectedPersona = { ...v };
+            this.formData.personaId = v.id;
+            this.formData.personaNombre = v.nombre;
+        });
+        aplicar('formaPago', !this.selectedFormaPago, (v) => {
+            this.selectedFormaPago = { ...v };
+            this.formData.formaPagoId = v.id;
+            this.formData.formaPagoNombre = v.nombre;
+        });
+
+        if (aplicadas.size > 0) {
+            this.messageService.add({ severity: 'info', summary: 'Reglas', detail: `Aplicada: ${[...aplicadas].join(', ')}` });
+        }
+    }
+
     onConceptoClear() {
         this.selectedConcepto = null;
         this.formData.conceptoId = undefined;
@@ -615,7 +824,7 @@ export class GastoFormModalComponent {
 
     onCuentaCreated(nuevo: Cuenta) {
         this.showCuentaCreateModal = false;
-        const item = { id: nuevo.id, nombre: nuevo.nombre };
+        const item = { id: nuevo.id, nombre: nuevo.nombre, moneda: nuevo.moneda };
         this.selectedCuenta = item;
         this.formData.cuentaId = item.id;
         this.formData.cuentaNombre = item.nombre;
@@ -638,31 +847,130 @@ export class GastoFormModalComponent {
         return 'Buscar o seleccionar concepto (Todas las categorías)';
     }
 
-    onSave() {
+    async onSave(nuevo = false) {
         this.submitted.set(true);
-        if (!this.selectedConcepto || !this.formData.importe || this.formData.importe <= 0 || !this.selectedCuenta || !this.selectedFormaPago || !this.selectedPersona || !this.selectedProveedor) {
+        const dividido = this.dividido();
+        if ((!dividido && (!this.selectedConcepto || !this.selectedPersona)) || !this.formData.importe || this.formData.importe <= 0 || !this.selectedCuenta || !this.selectedFormaPago || !this.selectedProveedor) {
             this.messageService.add({ severity: 'warn', summary: 'Incompleto', detail: 'Por favor complete todos los campos requeridos.' });
             return;
         }
 
-        const gastoToSave: Partial<Gasto> = {
+        if (dividido) {
+            const errorReparto = validarReparto(this.lineas, this.formData.importe);
+            if (errorReparto) {
+                this.messageService.add({ severity: 'warn', summary: 'Reparto incorrecto', detail: errorReparto });
+                return;
+            }
+        }
+
+        const compartido = this.compartido ? toRepartoGasto(this.compartido) : null;
+        if (compartido) {
+            const errorCompartido = validarRepartoCompartido(compartido, this.formData.importe);
+            if (errorCompartido) {
+                this.messageService.add({ severity: 'warn', summary: 'Reparto incorrecto', detail: errorCompartido });
+                return;
+            }
+        }
+
+        // El gasto padre toma concepto, categoría y persona de la línea principal
+        const principal = dividido ? lineaPrincipal(this.lineas) : null;
+        const concepto = principal ? principal.concepto! : this.selectedConcepto!;
+        const categoria = principal ? principal.categoria : this.selectedCategoria;
+        const persona = principal ? principal.persona! : this.selectedPersona!;
+
+        const gastoToSave: ConAdjuntos<Partial<Gasto>> = {
             ...this.formData,
-            conceptoId: this.selectedConcepto.id,
-            conceptoNombre: this.selectedConcepto.nombre,
-            categoriaId: this.selectedCategoria?.id || '',
-            categoriaNombre: this.selectedCategoria?.nombre || '',
+            conceptoId: concepto.id,
+            conceptoNombre: concepto.nombre,
+            categoriaId: categoria?.id || '',
+            categoriaNombre: categoria?.nombre || '',
             proveedorId: this.selectedProveedor?.id || '',
             proveedorNombre: this.selectedProveedor?.nombre || '',
-            personaId: this.selectedPersona?.id || '',
-            personaNombre: this.selectedPersona?.nombre || '',
+            personaId: persona.id,
+            personaNombre: persona.nombre,
+            lineas: dividido ? this.lineas.map(toGastoLinea) : [],
+            compartido,
             cuentaId: this.selectedCuenta.id,
             cuentaNombre: this.selectedCuenta.nombre,
+            moneda: this.moneda(),
             formaPagoId: this.selectedFormaPago.id,
             formaPagoNombre: this.selectedFormaPago.nombre,
             fecha: typeof this.formData.fecha === 'string' ? this.formData.fecha : new Date(this.formData.fecha!).toISOString().split('T')[0]
         };
-        this.save.emit(gastoToSave);
-        this.closeModal();
+
+        if (this.adjuntosNuevos.length > 0 || this.adjuntosEliminados.length > 0) {
+            gastoToSave.cambiosAdjuntos = { nuevos: this.adjuntosNuevos, eliminados: this.adjuntosEliminados };
+        }
+
+        if (!this.isEditMode()) {
+            const duplicados = await this.checkDuplicates(gastoToSave);
+            if (duplicados.length > 0) {
+                this.pendingSave = gastoToSave;
+                this.pendingNuevo = nuevo;
+                this.vistaNuevo.set(toDuplicadoVista(gastoToSave));
+                this.duplicados.set(duplicados.map((d) => ({ ...d, movimiento: toDuplicadoVista(d.movimiento) })));
+                return;
+            }
+        }
+
+        this.emitir(gastoToSave, nuevo);
+    }
+
+    confirmarDuplicado() {
+        if (this.pendingSave) {
+            this.emitir(this.pendingSave, this.pendingNuevo);
+        } else {
+            this.closeModal();
+        }
+    }
+
+    descartarDuplicados() {
+        this.pendingSave = null;
+        this.pendingNuevo = false;
+        this.duplicados.set([]);
+        this.vistaNuevo.set(null);
+    }
+
+    // Si la comprobación falla no se bloquea el guardado
+    private async checkDuplicates(gasto: Partial<Gasto>): Promise<PosibleDuplicado<Gasto>[]> {
+        this.checkingDuplicates.set(true);
+        try {
+            return await this.gastosStore.findDuplicates({ ...gasto, cuentaId: gasto.cuentaId!, importe: gasto.importe!, fecha: gasto.fecha! });
+        } catch {
+            return [];
+        } finally {
+            this.checkingDuplicates.set(false);
+        }
+    }
+
+    // Plantilla elegida en el formulario: rellena catálogos e importe y conserva fecha y descripción
+    aplicarPlantilla(plantilla: PlantillaMovimiento) {
+        const item = (id?: string, nombre?: string): CatalogItem | null => (id && nombre ? { id, nombre } : null);
+        this.selectedConcepto = item(plantilla.conceptoId, plantilla.conceptoNombre);
+        this.selectedCategoria = item(plantilla.categoriaId, plantilla.categoriaNombre);
+        this.selectedProveedor = item(plantilla.proveedorId, plantilla.proveedorNombre);
+        this.selectedPersona = item(plantilla.personaId, plantilla.personaNombre);
+        this.selectedCuenta = item(plantilla.cuentaId, plantilla.cuentaNombre);
+        this.selectedFormaPago = item(plantilla.formaPagoId, plantilla.formaPagoNombre);
+        if (plantilla.importe) this.formData.importe = plantilla.importe;
+    }
+
+    onAtajo(event: KeyboardEvent) {
+        const atajo = atajoFormulario(event);
+        if (!atajo || this.checkingDuplicates()) return;
+        event.preventDefault();
+        this.onSave(atajo === 'guardar-y-nuevo' && this.guardarYNuevo() && !this.isEditMode());
+    }
+
+    private emitir(datos: ConAdjuntos<Partial<Gasto>>, nuevo: boolean) {
+        if (nuevo) {
+            this.saveAndNew.emit(datos);
+            this.submitted.set(false);
+            this.descartarDuplicados();
+        } else {
+            this.save.emit(datos);
+            this.closeModal();
+        }
     }
 
     onCancel() {
@@ -674,5 +982,6 @@ export class GastoFormModalComponent {
         this.isVisible = false;
         this.visibleChange.emit(false);
         this.submitted.set(false);
+        this.descartarDuplicados();
     }
 }
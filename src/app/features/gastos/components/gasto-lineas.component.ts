@@ -0,0 +1,176 @@
+import { Component, inject, input, model, ChangeDetectionStrategy, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ButtonModule } from 'primeng/button';
+import { InputNumberModule } from 'primeng/inputnumber';
+import { AutoCompleteModule, AutoCompleteCompleteEvent } from 'primeng/autocomplete';
+import { TooltipModule } from 'primeng/tooltip';
+import { ConceptoStore } from '@/features/conceptos/store/concepto.store';
+import { CategoriaStore } from '@/features/categorias/store/categoria.store';
+import { PersonaStore } from '@/features/personas/store/persona.store';
+import { MONEDA_POR_DEFECTO } from '@/core/models/moneda.model';
+import { ImportePipe } from '@/shared/pipes/importe.pipe';
+import { GastoLineaForm, pendienteReparto, sumaLineas, TOLERANCIA_REPARTO } from '../gastos.split';
+
+interface CatalogItem {
+    id: string;
+    nombre: string;
+}
+
+/**
+ * Editor de líneas de un gasto dividido
+ * Las líneas se editan en el sitio; añadir o quitar líneas emite un array nuevo
+ */
+@Component({
+    selector: 'app-gasto-lineas',
+    standalone: true,
+    imports: [CommonModule, FormsModule, ButtonModule, InputNumberModule, AutoCompleteModule, TooltipModule, ImportePipe],
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    template: `
+        <div class="flex flex-col gap-3">
+            @for (linea of lineas(); track $index; let i = $index) {
+                <div class="surface-card border-1 surface-border border-round p-3">
+                    <div class="flex items-center justify-between mb-2">
+                        <span class="text-sm font-semibold text-600">Línea {{ i + 1 }}</span>
+                        <div class="flex items-center gap-1">
+                            @if (pendiente() !== 0) {
+                                <p-button icon="pi pi-arrow-down-left" [text]="true" [rounded]="true" size="small" (onClick)="asignarPendiente(linea)" pTooltip="Asignar aquí lo pendiente" />
+                            }
+                            <p-button icon="pi pi-trash" severity="danger" [text]="true" [rounded]="true" size="small" [disabled]="lineas().length <= 2" (onClick)="quitarLinea(i)" />
+                        </div>
+                    </div>
+
+                    <div class="grid grid-cols-12 gap-3">
+                        <div class="col-span-12 md:col-span-4">
+                            <p-inputNumber [(ngModel)]="linea.importe" mode="currency" [currency]="moneda()" locale="es-ES" [min]="0" [placeholder]="0 | importe: moneda()" inputStyleClass="text-right font-bold w-full" class="w-full" styleClass="w-full" />
+                        </div>
+                        <div class="col-span-12 md:col-span-8">
+                            <p-autoComplete
+                                [(ngModel)]="linea.concepto"
+                                [suggestions]="filteredConceptos()"
+                                (completeMethod)="searchConceptos($event, linea)"
+                                (onSelect)="onConceptoSelect(linea, $event.value)"
+                                optionLabel="nombre"
+                                [dropdown]="true"
+                                [forceSelection]="true"
+                                placeholder="Concepto *"
+                                appendTo="body"
+                                class="w-full"
+                                styleClass="w-full"
+                            />
+                        </div>
+                        <div class="col-span-12 md:col-span-6">
+                            <p-autoComplete
+                                [(ngModel)]="linea.categoria"
+                                [suggestions]="filteredCategorias()"
+                                (completeMethod)="searchCategorias($event)"
+                                optionLabel="nombre"
+                                [dropdown]="true"
+                                [forceSelection]="true"
+                                [showClear]="true"
+                                placeholder="Categoría"
+                                appendTo="body"
+                                class="w-full"
+                                styleClass="w-full"
+                            />
+                        </div>
+                        <div class="col-span-12 md:col-span-6">
+                            <p-autoComplete
+                                [(ngModel)]="linea.persona"
+                                [suggestions]="filteredPersonas()"
+                                (completeMethod)="searchPersonas($event)"
+                                optionLabel="nombre"
+                                [dropdown]="true"
+                                [forceSelection]="true"
+                                placeholder="Persona *"
+                                appendTo="body"
+                                class="w-full"
+                                styleClass="w-full"
+                            />
+                        </div>
+                    </div>
+
+                    @if (submitted() && (!linea.importe || !linea.concepto || !linea.persona)) {
+                        <small class="text-red-500 block mt-1">Importe, concepto y persona son requeridos.</small>
+                    }
+                </div>
+            }
+
+            <div class="flex items-center justify-between flex-wrap gap-2">
+                <p-button label="Añadir línea" icon="pi pi-plus" [text]="true" size="small" (onClick)="anadirLinea()" />
+                <div class="text-sm">
+                    <span class="text-600">Asignado {{ asignado() | importe: moneda() }} de {{ total() | importe: moneda() }}</span>
+                    @if (pendiente() > 0) {
+                        <span class="font-semibold text-orange-600 ml-2">Falta {{ pendiente() | importe: moneda() }}</span>
+                    } @else if (pendiente() < 0) {
+                        <span class="font-semibold text-red-600 ml-2">Sobra {{ -pendiente() | importe: moneda() }}</span>
+                    } @else {
+                        <i class="pi pi-check-circle text-green-500 ml-2"></i>
+                    }
+                </div>
+            </div>
+        </div>
+    `
+})
+export class GastoLineasComponent {
+    private conceptoStore = inject(ConceptoStore);
+    private categoriaStore = inject(CategoriaStore);
+    private personaStore = inject(PersonaStore);
+
+    lineas = model.required<GastoLineaForm[]>();
+    total = input<number>(0);
+    moneda = input<string>(MONEDA_POR_DEFECTO);
+    submitted = input<boolean>(false);
+
+    filteredConceptos = signal<CatalogItem[]>([]);
+    filteredCategorias = signal<CatalogItem[]>([]);
+    filteredPersonas = signal<CatalogItem[]>([]);
+
+    // Métodos y no computed: las líneas se mutan en el sitio con ngModel
+    asignado(): number {
+        return sumaLineas(this.lineas());
+    }
+
+    pendiente(): number {
+        const pendiente = pendienteReparto(this.lineas(), this.total() || 0);
+        return Math.abs(pendiente) <= TOLERANCIA_REPARTO ? 0 : pendiente;
+    }
+
+    anadirLinea() {
+        this.lineas.set([...this.lineas(), { importe: this.pendiente() > 0 ? this.pendiente() : null, concepto: null, categoria: null, persona: null }]);
+    }
+
+    quitarLinea(index: number) {
+        this.lineas.set(this.lineas().filter((_, i) => i !== index));
+    }
+
+    asignarPendiente(linea: GastoLineaForm) {
+        linea.importe = Math.max((linea.importe || 0) + this.pendiente(), 0);
+    }
+
+    searchConceptos(event: AutoCompleteCompleteEvent, linea: GastoLineaForm) {
+        const query = event.query;
+        const categoriaId = linea.categoria?.id;
+        const peticion = !query || query.length < 2 ? this.conceptoStore.getRecent(5, categoriaId) : this.conceptoStore.search(query, 10, categoriaId);
+        peticion.then((data) => this.filteredConceptos.set(data)).catch(() => this.filteredConceptos.set([]));
+    }
+
+    searchCategorias(event: AutoCompleteCompleteEvent) {
+        const query = event.query;
+        const peticion = !query || query.length < 2 ? this.categoriaStore.getRecent(5) : this.categoriaStore.search(query, 10);
+        peticion.then((data) => this.filteredCategorias.set(data)).catch(() => this.filteredCategorias.set([]));
+    }
+
+    searchPersonas(event: AutoCompleteCompleteEvent) {
+        const query = event.query;
+        const peticion = !query || query.length < 2 ? this.personaStore.getRecent(5) : this.personaStore.search(query, 10);
+        peticion.then((data) => this.filteredPersonas.set(data)).catch(() => this.filteredPersonas.set([]));
+    }
+
+    // Igual que en el formulario principal: el concepto arrastra su categoría
+    onConceptoSelect(linea: GastoLineaForm, value: CatalogItem & { categoriaId?: string; categoriaNombre?: string }) {
+        if (value?.categoriaId && value.categoriaNombre && !linea.categoria) {
+            linea.categoria = { id: value.categoriaId, nombre: value.categoriaNombre };
+        }
+    }
+}
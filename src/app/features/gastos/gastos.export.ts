@@ -0,0 +1,35 @@
+import { Gasto } from '@/core/models';
+import { ExportColumn, OfxTransaction } from '@/core/models/export.model';
+import { desglosarGasto } from './gastos.split';
+
+/**
+ * Columnas de exportación de gastos (CSV/XLSX)
+ */
+export const GASTO_EXPORT_COLUMNS: ExportColumn<Gasto>[] = [
+    { header: 'Fecha', type: 'date', value: (g) => g.fecha },
+    { header: 'Concepto', value: (g) => g.conceptoNombre },
+    // En los gastos divididos se listan las categorías de todas las líneas
+    { header: 'Categoría', value: (g) => [...new Set(desglosarGasto(g).map((l) => l.categoriaNombre).filter(Boolean))].join(' / ') },
+    { header: 'Proveedor', value: (g) => g.proveedorNombre },
+    { header: 'Persona', value: (g) => g.personaNombre },
+    { header: 'Cuenta', value: (g) => g.cuentaNombre },
+    { header: 'Forma de Pago', value: (g) => g.formaPagoNombre },
+    { header: 'Importe', type: 'number', value: (g) => g.importe },
+    { header: 'Descripción', value: (g) => g.descripcion }
+];
+
+/**
+ * Mapeo de gasto a transacción OFX (cargo: importe negativo)
+ */
+export function gastoToOfx(gasto: Gasto): OfxTransaction {
+    return {
+        id: gasto.id,
+        fecha: gasto.fecha,
+        importe: -Math.abs(gasto.importe),
+        nombre: gasto.proveedorNombre || gasto.conceptoNombre,
+        memo: [gasto.conceptoNombre, gasto.descripcion].filter(Boolean).join(' - '),
+        cuentaId: gasto.cuentaId,
+        cuentaNombre: gasto.cuentaNombre,
+        moneda: gasto.moneda
+    };
+}
@@ -0,0 +1,125 @@
+import { CategoriaGasto, Gasto, GastoLinea, GastoLineaCreate } from '@/core/models';
+
+// Margen para comparar importes con dos decimales
+export const TOLERANCIA_REPARTO = 0.005;
+
+interface CatalogItem {
+    id: string;
+    nombre: string;
+}
+
+// Línea tal y como se edita en el formulario
+export interface GastoLineaForm {
+    importe: number | null;
+    concepto: CatalogItem | null;
+    categoria: CatalogItem | null;
+    persona: CatalogItem | null;
+}
+
+export function esGastoDividido(gasto: Pick<Gasto, 'lineas'>): boolean {
+    return (gasto.lineas?.length ?? 0) > 1;
+}
+
+export function sumaLineas(lineas: { importe: number | null }[]): number {
+    return lineas.reduce((total, l) => total + (l.importe || 0), 0);
+}
+
+/**
+ * Importe pendiente de repartir (positivo = falta, negativo = sobra)
+ */
+export function pendienteReparto(lineas: { importe: number | null }[], total: number): number {
+    return Math.round((total - sumaLineas(lineas)) * 100) / 100;
+}
+
+/**
+ * Devuelve el mensaje de error del reparto o null si es válido
+ */
+export function validarReparto(lineas: GastoLineaForm[], total: number): string | null {
+    if (lineas.length < 2) return 'Un gasto dividido necesita al menos dos líneas';
+    if (lineas.some((l) => !l.importe || l.importe <= 0)) return 'Todas las líneas necesitan un importe mayor que 0';
+    if (lineas.some((l) => !l.concepto || !l.persona)) return 'Todas las líneas necesitan concepto y persona';
+    if (Math.abs(pendienteReparto(lineas, total)) > TOLERANCIA_REPARTO) return 'La suma de las líneas debe coincidir con el importe total';
+    return null;
+}
+
+/**
+ * Línea de mayor importe: da concepto, categoría y persona al gasto padre
+ */
+export function lineaPrincipal<T extends { importe: number | null }>(lineas: T[]): T {
+    return lineas.reduce((mayor, l) => ((l.importe || 0) > (mayor.importe || 0) ? l : mayor), lineas[0]);
+}
+
+export function toGastoLinea(linea: GastoLineaForm): GastoLinea {
+    return {
+        importe: linea.importe!,
+        conceptoId: linea.concepto!.id,
+        conceptoNombre: linea.concepto!.nombre,
+        categoriaId: linea.categoria?.id || '',
+        categoriaNombre: linea.categoria?.nombre || '',
+        personaId: linea.persona!.id,
+        personaNombre: linea.persona!.nombre
+    };
+}
+
+export function toLineaForm(linea: GastoLinea): GastoLineaForm {
+    return {
+        importe: linea.importe,
+        concepto: linea.conceptoId ? { id: linea.conceptoId, nombre: linea.conceptoNombre } : null,
+        categoria: linea.categoriaId ? { id: linea.categoriaId, nombre: linea.categoriaNombre } : null,
+        persona: linea.personaId ? { id: linea.personaId, nombre: linea.personaNombre } : null
+    };
+}
+
+export function toLineaCreate(linea: GastoLinea): GastoLineaCreate {
+    return {
+        importe: linea.importe,
+        conceptoId: linea.conceptoId,
+        categoriaId: linea.categoriaId,
+        personaId: linea.personaId
+    };
+}
+
+/**
+ * Reparto de un gasto por líneas; un gasto sin dividir es una única línea con todo el importe
+ * Cualquier total por categoría o persona debe sumar sobre esto y no sobre el gasto padre
+ */
+export function desglosarGasto(gasto: Gasto): GastoLinea[] {
+    if (esGastoDividido(gasto)) return gasto.lineas!;
+
+    return [
+        {
+            importe: gasto.importe,
+            conceptoId: gasto.conceptoId,
+            conceptoNombre: gasto.conceptoNombre,
+            categoriaId: gasto.categoriaId,
+            categoriaNombre: gasto.categoriaNombre,
+            personaId: gasto.personaId,
+            personaNombre: gasto.personaNombre
+        }
+    ];
+}
+
+/**
+ * Gasto por categoría sumando cada línea en la suya, de mayor a menor
+ * `convertir` pasa el importe de cada línea a la moneda en la que se quiere el total; las líneas que no se pueden convertir (null) no suman
+ */
+export function gastoPorCategoria(gastos: Gasto[], convertir: (importe: number, gasto: Gasto) => number | null = (importe) => importe): CategoriaGasto[] {
+    const categorias = new Map<string, CategoriaGasto & { gastos: Set<string> }>();
+
+    gastos.forEach((gasto) =>
+        desglosarGasto(gasto).forEach((linea) => {
+            const importe = convertir(linea.importe, gasto);
+            if (importe === null) return;
+
+            const categoria = categorias.get(linea.categoriaId) ?? { categoriaId: linea.categoriaId, categoriaNombre: linea.categoriaNombre || 'Sin categoría', totalGastado: 0, cantidadTransacciones: 0, porcentajeDelTotal: 0, gastos: new Set<string>() };
+            categoria.totalGastado += importe;
+            categoria.gastos.add(gasto.id);
+            categorias.set(linea.categoriaId, categoria);
+        })
+    );
+
+    const total = [...categorias.values()].reduce((suma, c) => suma + c.totalGastado, 0);
+    return [...categorias.values()]
+        .map(({ gastos: ids, ...categoria }) => ({ ...categoria, cantidadTransacciones: ids.size, porcentajeDelTotal: total > 0 ? (categoria.totalGastado / total) * 100 : 0 }))
+        .sort((a, b) => b.totalGastado - a.totalGastado);
+}
@@ -1,4 +1,4 @@
-import { Component, inject, ChangeDetectionStrategy, signal, ViewChild, OnDestroy, effect, computed } from '@angular/core';
+import { Component, inject, ChangeDetectionStrategy, signal, ViewChild, OnDestroy, effect, computed, untracked } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { Subject } from 'rxjs';
@@ -7,21 +7,52 @@ import { ButtonModule } from 'primeng/button';
 import { InputTextModule } from 'primeng/inputtext';
 import { ToastModule } from 'primeng/toast';
 import { ConfirmDialogModule } from 'primeng/confirmdialog';
-import { Table, TableModule } from 'primeng/table';
+import { Table, TableLazyLoadEvent, TableModule } from 'primeng/table';
 import { ToolbarModule } from 'primeng/toolbar';
 import { TagModule } from 'primeng/tag';
 import { InputIconModule } from 'primeng/inputicon';
 import { IconFieldModule } from 'primeng/iconfield';
 import { SkeletonModule } from 'primeng/skeleton';
+import { TooltipModule } from 'primeng/tooltip';
+import { OutboxStore } from '@/core/stores/outbox.store';
 import { GastosStore } from '../stores/gastos.store';
 import { Gasto, GastoCreate } from '@/core/models';
 import { GastoFormModalComponent } from '../components/gasto-form-modal.component';
-import { BasePageComponent, BasePageTemplateComponent } from '@/shared/components';
+import { GastoEntradaRapidaComponent } from '../components/gasto-entrada-rapida.component';
+import { AdjuntoViewerComponent, BasePageComponent, BasePageTemplateComponent, ExportMenuComponent, MovimientoFiltrosComponent, GuardarVistaComponent, ColumnChooserComponent, AccionesMasivasComponent, EditorCeldaComponent, PlantillasChipsComponent, GuardarPlantillaComponent, ColumnaTabla, TableInlineEdit, injectAtajo, injectTableColumns, injectTableUrlState } from '@/shared/components';
+import { injectAccionRapida } from '@/core/services/acciones-rapidas.service';
+import { PlantillaMovimiento } from '@/core/models/plantilla.model';
+import { movimientoDesdePlantilla } from '@/shared/utils/plantillas.util';
+import { FiltrosAvanzados } from '@/core/models/movimiento-filters.model';
+import { compactarFiltros, filtrosVacios, toMovimientoFilters } from '@/shared/utils/movimiento-filters.util';
+import { GastoService } from '@/core/services/api/gasto.service';
+import { ExportService } from '@/core/services/export.service';
+import { ExportOptions } from '@/core/models/export.model';
+import { CambioMasivo, FalloMasivo, ResultadoMasivo } from '@/core/models/accion-masiva.model';
+import { Adjunto, ConAdjuntos } from '@/core/models/adjunto.model';
+import { GASTO_EXPORT_COLUMNS, gastoToOfx } from '../gastos.export';
+import { esGastoDividido, toLineaCreate } from '../gastos.split';
+import { ImportePipe } from '@/shared/pipes/importe.pipe';
+
+const COLUMNAS_GASTOS: ColumnaTabla[] = [
+    { campo: 'fecha', cabecera: 'Fecha', ancho: 8, editor: 'fecha' },
+    { campo: 'personaNombre', cabecera: 'Persona', editor: 'personas' },
+    { campo: 'formaPagoNombre', cabecera: 'Forma de Pago', editor: 'formasPago' },
+    { campo: 'proveedorNombre', cabecera: 'Proveedor', editor: 'proveedores' },
+    { campo: 'conceptoNombre', cabecera: 'Concepto', ancho: 14, editor: 'conceptos' },
+    { campo: 'descripcion', cabecera: 'Descripción', ancho: 14, ordenable: false, editor: 'texto' },
+    { campo: 'categoriaNombre', cabecera: 'Categoría', editor: 'categorias' },
+    { campo: 'cuentaNombre', cabecera: 'Cuenta', editor: 'cuentas' },
+    { campo: 'importe', cabecera: 'Importe', ancho: 8, editor: 'importe' }
+];
+
+// En los gastos divididos estos campos dependen de las líneas: se cambian desde el formulario
+const CAMPOS_POR_LINEA = ['conceptoNombre', 'categoriaNombre', 'personaNombre', 'importe'];
 
 @Component({
     selector: 'app-gastos-list-page',
     standalone: true,
-    imports: [CommonModule, FormsModule, ButtonModule, InputTextModule, TableModule, ToolbarModule, TagModule, InputIconModule, IconFieldModule, SkeletonModule, GastoFormModalComponent, BasePageTemplateComponent],
+    imports: [CommonModule, FormsModule, ButtonModule, InputTextModule, TableModule, ToolbarModule, TagModule, InputIconModule, IconFieldModule, SkeletonModule, TooltipModule, GastoFormModalComponent, GastoEntradaRapidaComponent, BasePageTemplateComponent, ExportMenuComponent, AdjuntoViewerComponent, MovimientoFiltrosComponent, GuardarVistaComponent, ColumnChooserComponent, AccionesMasivasComponent, EditorCeldaComponent, PlantillasChipsComponent, GuardarPlantillaComponent, ImportePipe],
     changeDetection: ChangeDetectionStrategy.OnPush,
     styles: [`
         /* Toolbar responsive en móvil */
@@ -53,116 +84,187 @@ import { BasePageComponent, BasePageTemplateComponent } from '@/shared/component
 
                         <ng-template #end>
                             <p-button icon="pi pi-refresh" severity="secondary" outlined (onClick)="refreshTable()" pTooltip="Actualizar" class="mr-2" />
-                            <p-button label="Exportar" icon="pi pi-upload" severity="secondary" (onClick)="exportCSV()" />
+                            <app-column-chooser [estado]="columnas" class="mr-2" />
+                            <app-export-menu [loading]="exporting()" (export)="exportGastos($event)" />
                         </ng-template>
                     </p-toolbar>
 
+                    <app-plantillas-chips tipo="gasto" class="block mb-4" (crear)="crearDesdePlantilla($event)" (rellenar)="abrirConPlantilla($event)" />
+
+                    <app-gasto-entrada-rapida class="block mb-4" (crear)="crearSinFormulario($event)" (revisar)="revisarGasto($event)" />
+
+                    <app-acciones-masivas
+                        [seleccion]="selectedGastos()"
+                        etiqueta="gastos"
+                        [progreso]="gastosStore.progresoMasivo()"
+                        [(informe)]="informeMasivo"
+                        (cambiar)="cambiarSeleccion($event)"
+                        (eliminar)="deleteSelectedGastos()"
+                        (exportar)="exportarSeleccion($event)"
+                        (limpiar)="selectedGastos.set([])"
+                    />
+
                     <p-table
                         #dt
                         [value]="gastosStore.gastos()"
                         [lazy]="true"
                         (onLazyLoad)="loadGastosLazy($event)"
-                        [rows]="pageSize()"
+                        [rows]="tableState.state().pageSize"
+                        [first]="tableState.first()"
                         [totalRecords]="totalRecords()"
                         [paginator]="true"
                         [loading]="gastosStore.loading()"
                         [loadingIcon]="'none'"
                         [globalFilterFields]="['conceptoNombre', 'categoriaNombre', 'proveedorNombre', 'descripcion']"
-                        [tableStyle]="{ 'min-width': '75rem' }"
+                        [columns]="columnas.visibles()"
+                        [tableStyle]="columnas.tableStyle()"
+                        [size]="columnas.size()"
+                        [reorderableColumns]="true"
+                        [resizableColumns]="true"
+                        columnResizeMode="expand"
+                        (onColReorder)="columnas.onColReorder($event)"
+                        (onColResize)="columnas.onColResize($event)"
+                        (onEditInit)="edicion.onEditInit($event)"
+                        (onEditComplete)="edicion.onEditComplete($event)"
+                        (onEditCancel)="edicion.onEditCancel()"
                         styleClass="p-datatable-gridlines p-datatable-loading-icon-none"
                         [(selection)]="selectedGastos"
+                        [rowSelectable]="filaModificable"
                         [rowHover]="true"
                         dataKey="id"
                         currentPageReportTemplate="Mostrando {first} a {last} de {totalRecords} gastos"
                         [showCurrentPageReport]="true"
                         [rowsPerPageOptions]="[10, 20, 30]"
-                        sortField="fecha"
-                        [sortOrder]="-1"
+                        [sortField]="tableState.state().sortColumn"
+                        [sortOrder]="tableState.sortOrderNumber()"
                     >
                         <ng-template #caption>
                             <div class="flex flex-col md:flex-row items-center justify-between gap-3 py-3 px-4">
                                 <h5 class="m-0 font-semibold text-xl">Gestión de Gastos</h5>
                                 <p-iconfield class="w-full md:w-auto">
                                     <p-inputicon styleClass="pi pi-search" />
-                                    <input pInputText type="text" (input)="onGlobalFilter(dt, $event)" placeholder="Buscar..." class="w-full" />
+                                    <input pInputText type="text" [value]="tableState.state().search" (input)="onGlobalFilter(dt, $event)" placeholder="Buscar..." class="w-full" />
                                 </p-iconfield>
                             </div>
+                            <div class="flex flex-col md:flex-row md:items-start justify-between gap-3 px-4 pb-3">
+                                <app-movimiento-filtros tipo="gasto" [filtros]="filtros()" (filtrosChange)="onFiltrosChange($event)" [(abierto)]="filtrosAbiertos" class="flex-1" />
+                                <app-guardar-vista pagina="gastos" [estado]="tableState.state()" [columnas]="columnas" />
+                                @if (gastosStore.totalFiltrado() !== null) {
+                                    <span class="text-sm text-600 whitespace-nowrap">
+                                        {{ totalRecords() }} gastos · Total: <span class="font-bold">{{ gastosStore.totalFiltrado() | importe }}</span>
+                                    </span>
+                                }
+                            </div>
                         </ng-template>
 
-                        <ng-template #header>
+                        <ng-template #header let-columns>
                             <tr>
-                                <th pSortableColumn="fecha" style="min-width:10rem; padding: 1rem">
-                                    Fecha
-                                    <p-sortIcon field="fecha" />
-                                </th>
-                                <th pSortableColumn="personaNombre" style="min-width:12rem">
-                                    Persona
-                                    <p-sortIcon field="personaNombre" />
-                                </th>
-                                <th pSortableColumn="formaPagoNombre" style="min-width:12rem">
-                                    Forma de Pago
-                                    <p-sortIcon field="formaPagoNombre" />
-                                </th>
-                                <th pSortableColumn="proveedorNombre" style="min-width:12rem">
-                                    Proveedor
-                                    <p-sortIcon field="proveedorNombre" />
-                                </th>
-                                <th pSortableColumn="conceptoNombre" style="min-width:14rem">
-                                    Concepto
-                                    <p-sortIcon field="conceptoNombre" />
-                                </th>
-                                <th pSortableColumn="cuentaNombre" style="min-width:12rem">
-                                    Cuenta
-                                    <p-sortIcon field="cuentaNombre" />
-                                </th>
-                                <th pSortableColumn="importe" style="min-width:10rem">
-                                    Importe
-                                    <p-sortIcon field="importe" />
-                                </th>
+                                <th style="width: 3rem"><p-tableHeaderCheckbox /></th>
+                                <th style="width: 3rem"></th>
+                                @for (columna of columns; track columna.campo) {
+                                    <th [pSortableColumn]="columna.campo" [pSortableColumnDisabled]="columna.ordenable === false" pReorderableColumn pResizableColumn [attr.data-campo]="columna.campo" [ngStyle]="columnas.estilo(columna)">
+                                        {{ columna.cabecera }}
+                                        @if (columna.ordenable !== false) {
+                                            <p-sortIcon [field]="columna.campo" />
+                                        }
+                                    </th>
+                                }
+                                <th style="width: 3rem"><i class="pi pi-paperclip" pTooltip="Adjuntos"></i></th>
                                 <th style="min-width:10rem">Acciones</th>
                             </tr>
                         </ng-template>
 
-                        <ng-template #body let-gasto>
+                        <ng-template #body let-gasto let-expanded="expanded" let-columns="columns">
                             <tr>
-                                <td style="padding: 1rem">{{ gasto.fecha | date: 'dd/MM/yyyy' }}</td>
-                                <td>{{ gasto.personaNombre || '-' }}</td>
-                                <td>{{ gasto.formaPagoNombre || '-' }}</td>
-                                <td>{{ gasto.proveedorNombre || '-' }}</td>
-                                <td style="padding: 1rem">
-                                    <div class="flex flex-col">
-                                        <span class="font-semibold">{{ gasto.conceptoNombre }}</span>
-                                        @if (gasto.descripcion) {
-                                            <small class="text-500">{{ gasto.descripcion }}</small>
-                                        }
-                                    </div>
+                                <td><p-tableCheckbox [value]="gasto" [disabled]="!!gasto.conciliado" /></td>
+                                <td>
+                                    @if (esGastoDividido(gasto)) {
+                                        <p-button type="button" [pRowToggler]="gasto" [text]="true" [rounded]="true" severity="secondary" [icon]="expanded ? 'pi pi-chevron-down' : 'pi pi-chevron-right'" />
+                                    }
                                 </td>
-                                <td>{{ gasto.cuentaNombre || '-' }}</td>
+                                @for (columna of columns; track columna.campo) {
+                                    <td [pEditableColumn]="gasto" [pEditableColumnField]="columna.campo" [pEditableColumnDisabled]="!celdaEditable(gasto, columna.campo)" [attr.data-celda]="gasto.id + ':' + columna.campo">
+                                        <p-cellEditor>
+                                            <ng-template #input>
+                                                <app-editor-celda [editor]="columna.editor" [moneda]="gasto.moneda" [(valor)]="edicion.valor" />
+                                            </ng-template>
+                                            <ng-template #output>
+                                                @switch (columna.campo) {
+                                                    @case ('fecha') {
+                                                        {{ gasto.fecha | date: 'dd/MM/yyyy' }}
+                                                    }
+                                                    @case ('conceptoNombre') {
+                                                        <div class="flex flex-col">
+                                                            <span class="font-semibold">
+                                                                {{ gasto.conceptoNombre }}
+                                                                @if (esGastoDividido(gasto)) {
+                                                                    <p-tag severity="secondary" [value]="gasto.lineas.length + ' líneas'" class="ml-2" />
+                                                                }
+                                                                @if (gasto.compartido) {
+                                                                    <p-tag severity="info" value="Compartido" class="ml-2" />
+                                                                }
+                                                                @if (outboxStore.esPendiente(gasto.id)) {
+                                                                    <p-tag severity="warn" value="Pendiente" icon="pi pi-clock" class="ml-2" />
+                                                                }
+                                                                @if (gasto.conciliado) {
+                                                                    <p-tag severity="secondary" value="Conciliado" icon="pi pi-lock" class="ml-2" pTooltip="Conciliado con el banco: no se puede editar ni eliminar desde aquí" />
+                                                                }
+                                                            </span>
+                                                            @if (gasto.descripcion && !columnas.esVisible('descripcion')) {
+                                                                <small class="text-500">{{ gasto.descripcion }}</small>
+                                                            }
+                                                        </div>
+                                                    }
+                                                    @case ('importe') {
+                                                        <span class="font-bold text-red-500">{{ gasto.importe | importe: gasto.moneda }}</span>
+                                                    }
+                                                    @default {
+                                                        {{ gasto[columna.campo] || '-' }}
+                                                    }
+                                                }
+                                            </ng-template>
+                                        </p-cellEditor>
+                                    </td>
+                                }
                                 <td>
-                                    <span class="font-bold text-red-500">{{ gasto.importe | number: '1.2-2' : 'es-ES' }} €</span>
+                                    @if (gasto.adjuntos?.length) {
+                                        <p-button icon="pi pi-paperclip" [text]="true" [rounded]="true" severity="secondary" [badge]="gasto.adjuntos.length > 1 ? '' + gasto.adjuntos.length : undefined" (onClick)="verAdjuntos(gasto.adjuntos)" pTooltip="Ver adjuntos" />
+                                    }
                                 </td>
                                 <td>
-                                    <p-button icon="pi pi-pencil" class="mr-2" [rounded]="true" [outlined]="true" (click)="editGasto(gasto)" />
-                                    <p-button icon="pi pi-trash" severity="danger" [rounded]="true" [outlined]="true" (click)="deleteGasto(gasto)" />
+                                    <p-button icon="pi pi-pencil" class="mr-2" [rounded]="true" [outlined]="true" [disabled]="!!gasto.conciliado" (click)="editGasto(gasto)" />
+                                    <p-button icon="pi pi-bookmark" class="mr-2" [rounded]="true" [outlined]="true" severity="secondary" pTooltip="Guardar como plantilla" (click)="plantillaDe.set(gasto)" />
+                                    <p-button icon="pi pi-trash" severity="danger" [rounded]="true" [outlined]="true" [disabled]="!!gasto.conciliado" (click)="deleteGasto(gasto)" />
                                 </td>
                             </tr>
                         </ng-template>
 
-                        <ng-template #loadingbody>
+                        <!-- Líneas de un gasto dividido -->
+                        <ng-template #expandedrow let-gasto>
                             <tr>
-                                <td style="padding: 1rem"><p-skeleton /></td>
-                                <td style="padding: 1rem"><p-skeleton width="6rem" /></td>
-                                <td><p-skeleton width="70%" /></td>
-                                <td><p-skeleton width="70%" /></td>
-                                <td><p-skeleton width="70%" /></td>
-                                <td style="padding: 1rem">
-                                    <div class="flex flex-col gap-2">
-                                        <p-skeleton width="80%" />
-                                        <p-skeleton width="60%" height=".8rem" />
+                                <td [attr.colspan]="columnas.visibles().length + 4" class="surface-50">
+                                    <div class="flex flex-col gap-2 py-2 pl-8">
+                                        @for (linea of gasto.lineas; track $index) {
+                                            <div class="flex items-center gap-4 text-sm">
+                                                <span class="font-semibold min-w-40">{{ linea.conceptoNombre }}</span>
+                                                <span class="text-600 min-w-32">{{ linea.categoriaNombre || '-' }}</span>
+                                                <span class="text-600 min-w-32">{{ linea.personaNombre || '-' }}</span>
+                                                <span class="font-bold text-red-500 ml-auto">{{ linea.importe | importe: gasto.moneda }}</span>
+                                            </div>
+                                        }
                                     </div>
                                 </td>
-                                <td><p-skeleton width="70%" /></td>
-                                <td><p-skeleton width="5rem" /></td>
+                            </tr>
+                        </ng-template>
+
+                        <ng-template #loadingbody let-columns="columns">
+                            <tr>
+                                <td><p-skeleton size="1.25rem" /></td>
+                                <td><p-skeleton shape="circle" size="1.5rem" /></td>
+                                @for (columna of columns; track columna.campo) {
+                                    <td><p-skeleton width="70%" /></td>
+                                }
+                                <td><p-skeleton shape="circle" size="1.5rem" /></td>
                                 <td>
                                     <div class="flex gap-2">
                                         <p-skeleton shape="circle" size="2.5rem" />
@@ -174,7 +276,7 @@ import { BasePageComponent, BasePageTemplateComponent } from '@/shared/component
 
                         <ng-template #emptymessage>
                             <tr>
-                                <td colspan="10" style="padding: 2rem">
+                                <td [attr.colspan]="columnas.visibles().length + 4" style="padding: 2rem">
                                     <div class="text-center py-8">
                                         <i class="pi pi-inbox text-500 text-5xl mb-3"></i>
                                         <p class="text-900 font-semibold text-xl mb-2">No hay gastos</p>
@@ -187,14 +289,22 @@ import { BasePageComponent, BasePageTemplateComponent } from '@/shared/component
                     </p-table>
 
                     <!-- Nuevo componente de formulario modal con autocomplete -->
-                    <app-gasto-form-modal [visible]="gastoDialog()" [gasto]="currentGasto()" (visibleChange)="gastoDialog.set($event)" (save)="onSaveGasto($event)" (cancel)="hideDialog()" />
+                    <app-adjunto-viewer [adjuntos]="adjuntosVisor()" [(visible)]="visorVisible" />
+
+                    <app-gasto-form-modal [visible]="gastoDialog()" [gasto]="currentGasto()" (visibleChange)="gastoDialog.set($event)" [guardarYNuevo]="true" (save)="onSaveGasto($event)" (saveAndNew)="onSaveAndNewGasto($event)" (cancel)="hideDialog()" />
+                    <app-guardar-plantilla tipo="gasto" [(movimiento)]="plantillaDe" />
                 </div>
             </div>
         </app-base-page-template>
     `
 })
 export class GastosListPage extends BasePageComponent implements OnDestroy {
+    readonly esGastoDividido = esGastoDividido;
+
     gastosStore = inject(GastosStore);
+    outboxStore = inject(OutboxStore);
+    private gastoService = inject(GastoService);
+    private exportService = inject(ExportService);
 
     protected override loadingSignal = this.gastosStore.loading;
     protected override skeletonType = 'table' as const;
@@ -204,13 +314,34 @@ export class GastosListPage extends BasePageComponent implements OnDestroy {
     gastoDialog = signal(false);
     selectedGastos = signal<Gasto[]>([]);
     currentGasto = signal<Partial<Gasto>>({});
+    exporting = signal(false);
+
+    // Gasto que se está guardando como plantilla
+    plantillaDe = signal<Partial<Gasto> | null>(null);
+
+    // Filas que han fallado en la última acción masiva
+    informeMasivo = signal<FalloMasivo[]>([]);
+
+    // Visor de adjuntos desde la tabla
+    adjuntosVisor = signal<Adjunto[]>([]);
+    visorVisible = signal(false);
+
+    // Paginación, orden, búsqueda y filtros sincronizados con la URL
+    tableState = injectTableUrlState<Partial<FiltrosAvanzados>>('gastos', { sortColumn: 'fecha', sortOrder: 'desc' });
+
+    // Columnas visibles, orden, anchos y densidad de la tabla
+    columnas = injectTableColumns('gastos', COLUMNAS_GASTOS, { ocultas: ['descripcion', 'categoriaNombre'], anchoFijo: 22 });
+
+    // "Nuevo" pedido desde la paleta de comandos (Ctrl+K)
+    private accionNuevo = injectAccionRapida('nuevo-gasto', () => this.openNew());
+    private atajoNuevo = injectAtajo('n', () => this.openNew());
 
-    // Signals para paginación y filtros
-    pageSize = signal(10);
-    pageNumber = signal(1);
-    searchTerm = signal('');
-    sortColumn = signal('fecha');
-    sortOrder = signal('desc');
+    // Edición en línea de las celdas con la misma actualización optimista que el formulario
+    edicion = new TableInlineEdit<Gasto>(COLUMNAS_GASTOS, (gasto, cambios) => this.guardarCelda(gasto, cambios));
+
+    // Filtros avanzados del panel plegable
+    filtros = computed<FiltrosAvanzados>(() => ({ ...filtrosVacios(), ...this.tableState.state().filtros }));
+    filtrosAbiertos = signal(false);
 
     // Computed signal para total records
     totalRecords = computed(() => this.gastosStore.totalRecords());
@@ -223,9 +354,13 @@ export class GastosListPage extends BasePageComponent implements OnDestroy {
 
         // Configurar búsqueda con debounce de 500ms
         this.searchSubject.pipe(debounceTime(500), distinctUntilChanged()).subscribe((searchValue) => {
-            this.searchTerm.set(searchValue);
-            this.pageNumber.set(1);
-            this.reloadGastos();
+            this.tableState.setSearch(searchValue);
+        });
+
+        // Recargar cada vez que cambia el estado de la tabla en la URL (incluye atrás/adelante)
+        effect(() => {
+            this.tableState.state();
+            untracked(() => this.reloadGastos());
         });
 
         // Effect para sincronización automática cuando cambian los datos
@@ -245,12 +380,14 @@ export class GastosListPage extends BasePageComponent implements OnDestroy {
      * @param bypassCache Si es true, añade un timestamp para evitar la caché del navegador
      */
     private reloadGastos(bypassCache: boolean = false) {
+        const { page, pageSize, search, sortColumn, sortOrder } = this.tableState.state();
         const params: any = {
-            page: this.pageNumber(),
-            pageSize: this.pageSize(),
-            searchTerm: this.searchTerm() || undefined,
-            sortColumn: this.sortColumn() || undefined,
-            sortOrder: this.sortOrder() || undefined
+            page,
+            pageSize,
+            searchTerm: search || undefined,
+            sortColumn: sortColumn || undefined,
+            sortOrder: sortOrder || undefined,
+            filters: toMovimientoFilters(this.filtros())
         };
 
         if (bypassCache) {
@@ -268,16 +405,12 @@ export class GastosListPage extends BasePageComponent implements OnDestroy {
         this.showInfo('Datos actualizados', 'Actualización');
     }
 
-    loadGastosLazy(event: any) {
-        this.pageNumber.set(Math.floor(event.first / event.rows) + 1);
-        this.pageSize.set(event.rows);
-
-        if (event.sortField) {
-            this.sortColumn.set(event.sortField);
-            this.sortOrder.set(event.sortOrder === 1 ? 'asc' : 'desc');
-        }
+    onFiltrosChange(filtros: FiltrosAvanzados) {
+        this.tableState.setFiltros(compactarFiltros(filtros));
+    }
 
-        this.reloadGastos();
+    loadGastosLazy(event: TableLazyLoadEvent) {
+        this.tableState.onLazyLoad(event);
     }
 
     onGlobalFilter(table: Table, event: Event) {
@@ -285,6 +418,35 @@ export class GastosListPage extends BasePageComponent implements OnDestroy {
         this.searchSubject.next(searchValue);
     }
 
+    // Plantilla con importe: el gasto se crea al momento con fecha de hoy
+    crearDesdePlantilla(plantilla: PlantillaMovimiento) {
+        this.crearSinFormulario(movimientoDesdePlantilla(plantilla));
+    }
+
+    /**
+     * Alta en un clic (plantilla, entrada rápida) con la misma detección de duplicados que el formulario
+     * Si se parece a un gasto existente no se crea: se abre en el formulario, que muestra los posibles duplicados al guardar
+     */
+    async crearSinFormulario(gasto: Partial<Gasto>): Promise<void> {
+        const duplicados = await this.gastosStore.findDuplicates({ ...gasto, cuentaId: gasto.cuentaId!, importe: gasto.importe!, fecha: gasto.fecha! }).catch(() => []);
+        if (duplicados.length > 0) {
+            this.showWarning('Se parece a un gasto que ya existe: revísalo antes de guardarlo', 'Posible duplicado');
+            this.revisarGasto(gasto);
+            return;
+        }
+        await this.onSaveGasto(gasto);
+    }
+
+    abrirConPlantilla(plantilla: PlantillaMovimiento) {
+        this.revisarGasto(movimientoDesdePlantilla(plantilla));
+    }
+
+    // Gasto nuevo con datos precargados (plantilla, entrada rápida) para completarlo en el formulario
+    revisarGasto(gasto: Partial<Gasto>) {
+        this.currentGasto.set(gasto);
+        this.gastoDialog.set(true);
+    }
+
     openNew() {
         this.currentGasto.set({});
         this.gastoDialog.set(true);
@@ -295,17 +457,21 @@ export class GastosListPage extends BasePageComponent implements OnDestroy {
         this.currentGasto.set({});
     }
 
-    async onSaveGasto(gasto: Partial<Gasto>) {
+    // Devuelve si se ha guardado, para que "Guardar y nuevo" no descarte lo escrito si falla
+    async onSaveGasto({ cambiosAdjuntos, ...gasto }: ConAdjuntos<Partial<Gasto>>): Promise<boolean> {
         if (gasto.id) {
             // Actualizar gasto existente
             try {
                 await this.gastosStore.updateGasto({ id: gasto.id, gasto });
+                if (cambiosAdjuntos) await this.gastosStore.syncAdjuntos(gasto.id, cambiosAdjuntos);
                 this.showSuccess('Gasto actualizado correctamente');
                 this.gastoDialog.set(false);
                 this.currentGasto.set({});
                 // No reloadGastos() - optimistic update already syncs UI
+                return true;
             } catch (error: any) {
-                this.showError(error.userMessage || 'Error al actualizar el gasto');
+                this.showError(error.userMessage || error.message || 'Error al actualizar el gasto');
+                return false;
             }
         } else {
             var gastoCreate: GastoCreate = {
@@ -317,7 +483,9 @@ export class GastosListPage extends BasePageComponent implements OnDestroy {
                 descripcion: gasto.descripcion,
                 formaPagoId: gasto.formaPagoId!,
                 personaId: gasto.personaId!,
-                cuentaId: gasto.cuentaId!
+                cuentaId: gasto.cuentaId!,
+                lineas: gasto.lineas?.length ? gasto.lineas.map(toLineaCreate) : undefined,
+                compartido: gasto.compartido
             };
 
             const displayData: Partial<Gasto> = {
@@ -326,84 +494,143 @@ export class GastosListPage extends BasePageComponent implements OnDestroy {
                 cuentaNombre: gasto.cuentaNombre,
                 formaPagoNombre: gasto.formaPagoNombre,
                 proveedorNombre: gasto.proveedorNombre,
-                personaNombre: gasto.personaNombre
+                personaNombre: gasto.personaNombre,
+                lineas: gasto.lineas,
+                compartido: gasto.compartido
             };
 
-            this.gastosStore.createGasto(gastoCreate, displayData).then(() => {
-                this.showSuccess('Gasto creado correctamente');
-            });
-            
+            let id: string;
+            try {
+                id = await this.gastosStore.createGasto(gastoCreate, displayData);
+            } catch (error: any) {
+                this.showError(error.userMessage || error.message || 'Error al crear el gasto');
+                return false;
+            }
+
             this.gastoDialog.set(false);
             this.currentGasto.set({});
+            this.showSuccess('Gasto creado correctamente');
+            // El gasto ya existe: un fallo con los adjuntos no lo deshace
+            if (cambiosAdjuntos) {
+                await this.gastosStore.syncAdjuntos(id, cambiosAdjuntos).catch((error: any) => this.showError(error.userMessage || error.message || 'Error al guardar los adjuntos'));
+            }
+            return true;
+        }
+    }
+
+    // "Guardar y nuevo": el siguiente gasto conserva fecha, cuenta, forma de pago, persona y proveedor
+    // Importe, concepto y descripción empiezan vacíos
+    // Si no se ha podido guardar, el formulario vuelve con lo que se había escrito
+    async onSaveAndNewGasto(datos: ConAdjuntos<Partial<Gasto>>) {
+        const { cambiosAdjuntos, ...gasto } = datos;
+        if (await this.onSaveGasto(datos)) {
+            const { fecha, cuentaId, cuentaNombre, moneda, formaPagoId, formaPagoNombre, personaId, personaNombre, proveedorId, proveedorNombre } = gasto;
+            this.currentGasto.set({ fecha, cuentaId, cuentaNombre, moneda, formaPagoId, formaPagoNombre, personaId, personaNombre, proveedorId, proveedorNombre });
+        } else {
+            this.currentGasto.set(gasto);
+        }
+        this.gastoDialog.set(true);
+    }
+
+    // Los gastos conciliados quedan bloqueados en el listado
+    filaModificable = ({ data }: { data: Gasto }) => !data.conciliado;
+
+    celdaEditable(gasto: Gasto, campo: string): boolean {
+        return !gasto.conciliado && !!this.edicion.editor(campo) && !(esGastoDividido(gasto) && CAMPOS_POR_LINEA.includes(campo));
+    }
+
+    private async guardarCelda(gasto: Gasto, cambios: Partial<Gasto>) {
+        try {
+            await this.gastosStore.updateGasto({ id: gasto.id, gasto: { ...gasto, ...cambios } });
+        } catch (error: any) {
+            this.showError(error.userMessage || error.message || 'Error al actualizar el gasto');
         }
     }
 
+    verAdjuntos(adjuntos: Adjunto[]) {
+        this.adjuntosVisor.set(adjuntos);
+        this.visorVisible.set(true);
+    }
+
     editGasto(gasto: Gasto) {
         this.currentGasto.set({ ...gasto });
         this.gastoDialog.set(true);
     }
 
     deleteGasto(gasto: Gasto) {
-        this.confirmAction(
-            `¿Estás seguro de eliminar el gasto "${gasto.conceptoNombre}"?`,
-            () => {
-                this.gastosStore.deleteGasto(gasto.id);
-            },
-            {
-                header: 'Confirmar eliminación',
-                acceptLabel: 'Sí, eliminar',
-                rejectLabel: 'Cancelar',
-                successMessage: 'Gasto eliminado correctamente'
-            }
-        );
+        this.gastosStore.deleteGasto(gasto.id);
     }
 
-    deleteSelectedGastos() {
-        this.confirmAction(
-            '¿Estás seguro de eliminar los gastos seleccionados?',
-            async () => {
-                const deletePromises = this.selectedGastos().map((gasto) => this.gastosStore.deleteGasto(gasto.id));
-
-                await Promise.all(deletePromises);
-                this.selectedGastos.set([]);
-            },
-            {
-                header: 'Confirmar',
-                acceptLabel: 'Sí, eliminar',
-                rejectLabel: 'Cancelar',
-                successMessage: 'Gastos eliminados correctamente'
-            }
-        );
+    /**
+     * Las filas salen de la tabla al momento y se pueden recuperar desde el aviso para deshacer
+     * Las que no se han podido borrar vuelven seleccionadas y se muestran en el informe
+     */
+    async deleteSelectedGastos() {
+        const seleccion = this.selectedGastos();
+        this.selectedGastos.set([]);
+
+        const { fallidos } = await this.gastosStore.deleteGastos(seleccion.map((g) => g.id));
+        if (fallidos.length === 0) return;
+
+        const fallidosIds = new Set(fallidos.map((f) => f.id));
+        this.selectedGastos.set(seleccion.filter((g) => fallidosIds.has(g.id)));
+        this.informeMasivo.set(fallidos);
     }
 
-    exportCSV() {
-        // En lazy mode, exportar los datos actuales del store
-        const gastos = this.gastosStore.gastos();
-        if (!gastos || gastos.length === 0) {
-            this.showWarning('No hay datos para exportar');
-            return;
-        }
+    async cambiarSeleccion(cambio: CambioMasivo) {
+        this.procesarResultado(await this.gastosStore.updateGastos(this.selectedGastos(), cambio), 'actualizados');
+    }
+
+    /**
+     * Los correctos salen de la selección; los fallidos se quedan seleccionados y se muestran en el informe
+     */
+    private procesarResultado({ correctos, fallidos }: ResultadoMasivo, accion: string) {
+        const fallidosIds = new Set(fallidos.map((f) => f.id));
+        this.selectedGastos.update((seleccion) => seleccion.filter((g) => fallidosIds.has(g.id)));
+        this.informeMasivo.set(fallidos);
 
-        // Crear CSV manualmente con BOM para UTF-8
-        const headers = ['Concepto', 'Categoría', 'Proveedor', 'Fecha', 'Importe', 'Descripción'];
-        const csvData = gastos.map((g) => [g.conceptoNombre, g.categoriaNombre || '', g.proveedorNombre || '', g.fecha, g.importe, g.descripcion || '']);
+        if (correctos.length > 0) {
+            this.showSuccess(`${correctos.length} gastos ${accion}`);
+        }
+    }
 
-        // Agregar BOM (Byte Order Mark) para UTF-8
-        let csv = '\uFEFF';
-        csv += headers.join(',') + '\n';
-        csvData.forEach((row) => {
-            csv += row.map((field) => `"${field}"`).join(',') + '\n';
-        });
+    exportarSeleccion(options: ExportOptions) {
+        try {
+            this.exportService.exportRows(this.selectedGastos(), GASTO_EXPORT_COLUMNS, 'gastos', options, gastoToOfx);
+            this.showSuccess(`${this.selectedGastos().length} gastos exportados`);
+        } catch (error: any) {
+            this.showError(error.message || 'Error al exportar gastos');
+        }
+    }
 
-        const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
-        const link = document.createElement('a');
-        const url = URL.createObjectURL(blob);
-        link.setAttribute('href', url);
-        link.setAttribute('download', `gastos_${new Date().toISOString().split('T')[0]}.csv`);
-        link.style.visibility = 'hidden';
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
+    /**
+     * Exportar todos los gastos que cumplen la búsqueda, orden y filtros activos
+     */
+    async exportGastos(options: ExportOptions) {
+        const { search, sortColumn, sortOrder } = this.tableState.state();
+        const searchTerm = search || undefined;
+        const filters = toMovimientoFilters(this.filtros());
+
+        this.exporting.set(true);
+        try {
+            const total = await this.exportService.exportAll(
+                (page, pageSize) => this.gastoService.getGastos(page, pageSize, searchTerm, sortColumn, sortOrder, undefined, filters),
+                GASTO_EXPORT_COLUMNS,
+                'gastos',
+                options,
+                gastoToOfx
+            );
+
+            if (total === 0) {
+                this.showWarning('No hay datos para exportar');
+            } else {
+                this.showSuccess(`${total} gastos exportados`);
+            }
+        } catch (error: any) {
+            this.showError(error.userMessage || error.message || 'Error al exportar gastos');
+        } finally {
+            this.exporting.set(false);
+        }
     }
 
     getCategorySeverity(categoria: string): 'success' | 'secondary' | 'info' | 'warn' | 'danger' | 'contrast' | undefined {
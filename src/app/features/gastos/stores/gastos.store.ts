@@ -1,17 +1,28 @@
-import { computed, inject } from '@angular/core';
+import { computed, effect, inject, untracked } from '@angular/core';
 import { patchState, signalStore, withComputed, withHooks, withMethods, withState } from '@ngrx/signals';
 import { rxMethod } from '@ngrx/signals/rxjs-interop';
 import { pipe, switchMap, tap, debounceTime, firstValueFrom } from 'rxjs';
 import { tapResponse } from '@ngrx/operators';
 import { GastoService } from '@/core/services/api/gasto.service';
 import { Gasto, GastoCreate } from '@/core/models';
-import { ErrorResponse } from '@/core/models/error-response.model';
+import { MovimientoFilters } from '@/core/models/movimiento-filters.model';
+import { DuplicateDetectionOptions, PosibleDuplicado } from '@/core/models/duplicado.model';
+import { DuplicateDetectionService } from '@/core/services/duplicate-detection.service';
+import { AdjuntoService } from '@/core/services/api/adjunto.service';
+import { Adjunto, CambiosAdjuntos } from '@/core/models/adjunto.model';
+import { reducirImagen } from '@/shared/utils/adjuntos.util';
 import { ConceptoStore } from '@/features/conceptos/store/concepto.store';
 import { CategoriaStore } from '@/features/categorias/store/categoria.store';
 import { ProveedorStore } from '@/features/proveedores/store/proveedor.store';
 import { PersonaStore } from '@/features/personas/store/persona.store';
 import { CuentaStore } from '@/features/cuentas/store/cuenta.store';
 import { FormaPagoStore } from '@/features/formas-pago/store/forma-pago.store';
+import { desglosarGasto, esGastoDividido } from '../gastos.split';
+import { OutboxStore } from '@/core/stores/outbox.store';
+import { UndoStore, edicionConDeshacer, eliminarConDeshacer, eliminarVariosConDeshacer, paginaSinBorrados } from '@/core/stores/undo.store';
+import { aplicarReemplazos, esIdOffline } from '@/shared/utils/outbox.util';
+import { CambioMasivo, ProgresoMasivo, ResultadoMasivo } from '@/core/models/accion-masiva.model';
+import { aplicarCambioMasivo, ejecutarEnCola, restaurarFilas } from '@/shared/utils/acciones-masivas.util';
 
 interface GastosState {
     gastos: Gasto[];
@@ -21,11 +32,14 @@ interface GastosState {
     totalGastos: number;
     totalRecords: number;
     lastUpdated: number | null;
+    // Última alta, edición o borrado: las cargas de páginas no lo cambian
+    lastModified: number | null;
     searchCache: Map<string, Gasto[]>;
-    filters: {
-        fechaInicio: string;
-        fechaFin: string;
-        categoria: string;
+    // Suma de importes del resultado filtrado completo (no solo de la página)
+    totalFiltrado: number | null;
+    // Avance de la acción masiva en curso sobre la selección
+    progresoMasivo: ProgresoMasivo | null;
+    filters: MovimientoFilters & {
         searchTerm: string;
         sortColumn: string;
         sortOrder: string;
@@ -40,11 +54,13 @@ const initialState: GastosState = {
     totalGastos: 0,
     totalRecords: 0,
     lastUpdated: null,
+    lastModified: null,
     searchCache: new Map(),
+    totalFiltrado: null,
+    progresoMasivo: null,
     filters: {
         fechaInicio: '',
         fechaFin: '',
-        categoria: '',
         searchTerm: '',
         sortColumn: '',
         sortOrder: ''
@@ -93,26 +109,26 @@ export const GastosStore = signalStore(
             );
         }),
 
-        // Gastos por categoría
+        // Gastos por categoría (los gastos divididos suman cada línea en su categoría)
         gastosPorCategoria: computed(() => {
             const gastos = store.gastos();
             if (!Array.isArray(gastos)) return {};
 
             const categorias: Record<string, { total: number; count: number }> = {};
 
-            gastos.forEach((gasto) => {
-                const cat = gasto.categoriaNombre || 'Sin categoría';
+            gastos.flatMap(desglosarGasto).forEach((linea) => {
+                const cat = linea.categoriaNombre || 'Sin categoría';
                 if (!categorias[cat]) {
                     categorias[cat] = { total: 0, count: 0 };
                 }
-                categorias[cat].total += gasto.importe;
+                categorias[cat].total += linea.importe;
                 categorias[cat].count++;
             });
 
             return categorias;
         }),
 
-        // Gastos recientes (últimos 5)
+                // Gastos recientes (últimos 5)
         gastosRecientes: computed(() => {
             const gastos = store.gastos();
             if (!Array.isArray(gastos)) return [];
@@ -134,6 +150,9 @@ export const GastosStore = signalStore(
         const personaStore = inject(PersonaStore);
         const cuentaStore = inject(CuentaStore);
         const formaPagoStore = inject(FormaPagoStore);
+        const duplicateDetection = inject(DuplicateDetectionService);
+        const adjuntoService = inject(AdjuntoService);
+        const undoStore = inject(UndoStore);
 
         return {
             // Cargar gastos
@@ -170,18 +189,21 @@ export const GastosStore = signalStore(
                 sortColumn?: string;
                 sortOrder?: string;
                 timestamp?: number;
+                filters?: MovimientoFilters;
             }>(
                 pipe(
-                    tap(() => {
-                        patchState(store, { loading: true, error: null });
+                    tap(({ filters }) => {
+                        patchState(store, { loading: true, error: null, filters: { ...store.filters(), ...filters } });
                     }),
-                    switchMap(({ page, pageSize, searchTerm, sortColumn, sortOrder, timestamp }) =>
-                        gastoService.getGastos(page, pageSize, searchTerm, sortColumn, sortOrder, timestamp).pipe(
+                    switchMap(({ page, pageSize, searchTerm, sortColumn, sortOrder, timestamp, filters }) =>
+                        gastoService.getGastos(page, pageSize, searchTerm, sortColumn, sortOrder, timestamp, filters).pipe(
                             tapResponse({
                                 next: (response) => {
+                                    const pagina = paginaSinBorrados(undoStore, response);
                                     patchState(store, {
-                                        gastos: response.items,
-                                        totalRecords: response.totalCount,
+                                        gastos: pagina.items,
+                                        totalRecords: pagina.totalCount,
+                                        totalFiltrado: response.totalImporte ?? null,
                                         loading: false,
                                         error: null,
                                         lastUpdated: Date.now(),
@@ -227,6 +249,11 @@ export const GastosStore = signalStore(
                 )
             ),
 
+            // Buscar posibles duplicados antes de crear (misma cuenta, importe y fecha cercana)
+            findDuplicates(gasto: Partial<Gasto> & Pick<Gasto, 'cuentaId' | 'importe' | 'fecha'>, options?: Partial<DuplicateDetectionOptions>): Promise<PosibleDuplicado<Gasto>[]> {
+                return duplicateDetection.findGastoDuplicates(gasto, options);
+            },
+
             // Crear gasto con actualización optimista
             async createGasto(gasto: GastoCreate, displayData?: Partial<Gasto>): Promise<string> {
                 const tempId = `temp_${Date.now()}`;
@@ -260,7 +287,10 @@ export const GastosStore = signalStore(
 
                     cuentaNombre: displayData?.cuentaNombre || cuentaStore.cuentas().find((c) => c.id === gasto.cuentaId)?.nombre || '',
 
-                    formaPagoNombre: displayData?.formaPagoNombre || formaPagoStore.formasPago().find((f) => f.id === gasto.formaPagoId)?.nombre || ''
+                    formaPagoNombre: displayData?.formaPagoNombre || formaPagoStore.formasPago().find((f) => f.id === gasto.formaPagoId)?.nombre || '',
+
+                    lineas: displayData?.lineas,
+                    compartido: gasto.compartido
                 };
 
                 // Actualización Optimista (Inserta arriba del todo)
@@ -278,6 +308,7 @@ export const GastosStore = signalStore(
                     patchState(store, {
                         gastos: store.gastos().map((i) => (i.id === tempId ? { ...tempGasto, id: newGastoId } : i)),
                         lastUpdated: Date.now(),
+                        lastModified: Date.now(),
                         searchCache: new Map()
                     });
                     return newGastoId;
@@ -308,8 +339,12 @@ export const GastosStore = signalStore(
                     patchState(store, {
                         loading: false,
                         lastUpdated: Date.now(),
+                        lastModified: Date.now(),
                         searchCache: new Map() // Invalidar caché
                     });
+                    if (gastoAnterior) {
+                        edicionConDeshacer(undoStore, store, 'gastos', gastoAnterior, { mensaje: 'Gasto actualizado', revertir: (anterior) => gastoService.update(id, anterior) });
+                    }
                 } catch (error: any) {
                     // Revertir actualización optimista
                     if (gastoAnterior) {
@@ -325,35 +360,112 @@ export const GastosStore = signalStore(
                 }
             },
 
-            // Eliminar gasto con actualización optimista
-            deleteGasto: rxMethod<string>(
-                pipe(
-                    tap((id) => {
-                        patchState(store, (state) => ({
-                            gastos: state.gastos.filter((g) => g.id !== id),
-                            totalRecords: state.totalRecords - 1,
-                            searchCache: new Map() // Invalidar caché
-                        }));
-                    }),
-                    switchMap((id) =>
-                        gastoService.delete(id).pipe(
-                            tapResponse({
-                                next: () => {
-                                    patchState(store, {
-                                        lastUpdated: Date.now()
-                                    });
-                                },
-                                error: (err: ErrorResponse) => {
-                                    console.error('[STORE] Error al eliminar gasto:', err);
-                                    patchState(store, {
-                                        error: err.detail || 'Error al eliminar gasto'
-                                    });
-                                }
-                            })
-                        )
-                    )
-                )
-            ),
+            /**
+             * Aplica los cambios de adjuntos de un gasto ya guardado
+             * Las imágenes se reducen antes de subirlas; si algo falla se conserva lo que sí se ha guardado
+             */
+            async syncAdjuntos(id: string, cambios: CambiosAdjuntos): Promise<void> {
+                // Los adjuntos necesitan el id real: sin conexión no se pueden subir todavía
+                if (esIdOffline(id)) {
+                    const error = 'Los adjuntos se podrán añadir cuando el gasto se sincronice';
+                    patchState(store, { error });
+                    throw new Error(error);
+                }
+
+                const actual = store.gastos().find((m) => m.id === id);
+                let adjuntos: Adjunto[] = actual?.adjuntos ?? [];
+                let fallos = 0;
+
+                for (const adjunto of cambios.eliminados) {
+                    try {
+                        await firstValueFrom(adjuntoService.delete('gastos', id, adjunto.id));
+                        adjuntos = adjuntos.filter((a) => a.id !== adjunto.id);
+                    } catch {
+                        fallos++;
+                    }
+                }
+
+                for (const archivo of cambios.nuevos) {
+                    try {
+                        adjuntos = [...adjuntos, await firstValueFrom(adjuntoService.upload('gastos', id, await reducirImagen(archivo)))];
+                    } catch {
+                        fallos++;
+                    }
+                }
+
+                patchState(store, { gastos: store.gastos().map((m) => (m.id === id ? { ...m, adjuntos } : m)) });
+
+                if (fallos > 0) {
+                    const error = `No se ${fallos === 1 ? 'ha' : 'han'} podido guardar ${fallos} adjunto${fallos === 1 ? '' : 's'}`;
+                    patchState(store, { error });
+                    throw new Error(error);
+                }
+            },
+
+            deleteGasto(id: string): void {
+                eliminarConDeshacer(undoStore, store, 'gastos', id, {
+                    mensaje: 'Gasto eliminado',
+                    eliminar: () => gastoService.delete(id),
+                    alEliminar: () => patchState(store, { lastUpdated: Date.now(), lastModified: Date.now(), searchCache: new Map() })
+                });
+            },
+
+            /**
+             * Eliminar varios gastos con un solo aviso para deshacer
+             * Los que fallan vuelven a la tabla y se devuelven en el resultado para el informe
+             */
+            deleteGastos(ids: string[]): Promise<ResultadoMasivo> {
+                patchState(store, { error: null });
+                return eliminarVariosConDeshacer(undoStore, store, 'gastos', ids, {
+                    mensaje: `${ids.length} gastos eliminados`,
+                    eliminar: (id) => gastoService.delete(id),
+                    onProgreso: (progresoMasivo) => patchState(store, { progresoMasivo }),
+                    alEliminar: ({ fallidos }) =>
+                        patchState(store, {
+                            progresoMasivo: null,
+                            lastUpdated: Date.now(),
+                            lastModified: Date.now(),
+                            searchCache: new Map(),
+                            error: fallidos.length > 0 ? `No se han podido eliminar ${fallidos.length} gastos` : null
+                        })
+                });
+            },
+
+            /**
+             * Aplicar el mismo cambio (concepto, cuenta, persona o fecha) a varios gastos
+             * Los gastos divididos tienen categoría y persona por línea: se editan uno a uno
+             */
+            async updateGastos(gastos: Gasto[], cambio: CambioMasivo): Promise<ResultadoMasivo> {
+                const porLinea = cambio.tipo === 'concepto' || cambio.tipo === 'persona';
+                const omitidos = porLinea ? gastos.filter(esGastoDividido) : [];
+                const editables = gastos.filter((g) => !omitidos.includes(g));
+                const actualizados = new Map(editables.map((g) => [g.id, aplicarCambioMasivo(g, cambio)]));
+
+                const anteriores = store.gastos();
+                patchState(store, {
+                    gastos: anteriores.map((g) => actualizados.get(g.id) ?? g),
+                    progresoMasivo: { hechos: 0, total: actualizados.size },
+                    error: null
+                });
+
+                const resultado = await ejecutarEnCola(
+                    [...actualizados.keys()],
+                    (id) => firstValueFrom(gastoService.update(id, actualizados.get(id)!)),
+                    (progresoMasivo) => patchState(store, { progresoMasivo })
+                );
+                resultado.fallidos.push(...omitidos.map((g) => ({ id: g.id, error: 'Gasto dividido: cámbialo desde el formulario' })));
+
+                const fallidos = new Set(resultado.fallidos.map((f) => f.id));
+                patchState(store, {
+                    gastos: fallidos.size > 0 ? restaurarFilas(store.gastos(), anteriores, fallidos) : store.gastos(),
+                    progresoMasivo: null,
+                    lastUpdated: Date.now(),
+                    lastModified: Date.now(),
+                    searchCache: new Map(),
+                    error: fallidos.size > 0 ? `No se han podido actualizar ${fallidos.size} gastos` : null
+                });
+                return resultado;
+            },
 
             // Buscar gastos con debounce
             searchGastos: rxMethod<string>(
@@ -384,5 +496,17 @@ export const GastosStore = signalStore(
                 patchState(store, { error: null });
             }
         };
+    }),
+
+    withHooks({
+        onInit(store) {
+            const outboxStore = inject(OutboxStore);
+
+            // Sustituir los ids temporales de los gastos creados sin conexión cuando se sincronizan
+            effect(() => {
+                const reemplazos = outboxStore.reemplazos();
+                untracked(() => patchState(store, { gastos: aplicarReemplazos(store.gastos(), reemplazos) }));
+            });
+        }
     })
 );
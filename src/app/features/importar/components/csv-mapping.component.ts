@@ -0,0 +1,111 @@
+import { Component, ChangeDetectionStrategy, computed, input, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { SelectModule } from 'primeng/select';
+import { CheckboxModule } from 'primeng/checkbox';
+import { TableModule } from 'primeng/table';
+import { MessageModule } from 'primeng/message';
+import { CsvColumnMapping, CsvParseOptions } from '@/core/models/importacion.model';
+
+interface ColumnOption {
+    label: string;
+    value: number | null;
+}
+
+const DELIMITADORES = [
+    { label: 'Punto y coma (;)', value: ';' },
+    { label: 'Coma (,)', value: ',' },
+    { label: 'Tabulador', value: '\t' }
+];
+
+@Component({
+    selector: 'app-csv-mapping',
+    standalone: true,
+    imports: [CommonModule, FormsModule, SelectModule, CheckboxModule, TableModule, MessageModule],
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    template: `
+        <div class="grid grid-cols-12 gap-4 mb-4">
+            <div class="col-span-12 md:col-span-4">
+                <label class="font-semibold text-gray-700 block mb-2 text-sm">Delimitador</label>
+                <p-select [options]="delimitadores" optionLabel="label" optionValue="value" [ngModel]="options().delimiter" (ngModelChange)="delimiterChange.emit($event)" styleClass="w-full" />
+            </div>
+            <div class="col-span-12 md:col-span-8 flex items-end pb-2">
+                <p-checkbox [binary]="true" inputId="hasHeader" [ngModel]="options().hasHeader" (ngModelChange)="emit({ hasHeader: $event })" />
+                <label for="hasHeader" class="ml-2">La primera fila contiene los nombres de las columnas</label>
+            </div>
+
+            @for (campo of campos; track campo.key) {
+                <div class="col-span-12 md:col-span-4 lg:col-span-2">
+                    <label class="font-semibold text-gray-700 block mb-2 text-sm">{{ campo.label }}</label>
+                    <p-select [options]="columnOptions()" optionLabel="label" optionValue="value" [ngModel]="options().mapping[campo.key]" (ngModelChange)="onMappingChange(campo.key, $event)" styleClass="w-full" appendTo="body" />
+                </div>
+            }
+        </div>
+
+        @if (mappingError()) {
+            <p-message severity="warn" [text]="mappingError()!" styleClass="mb-4 w-full" />
+        }
+
+        <p-table [value]="muestra()" [tableStyle]="{ 'min-width': '40rem' }" styleClass="p-datatable-sm p-datatable-gridlines">
+            <ng-template #header>
+                <tr>
+                    @for (col of columnOptions().slice(1); track col.value) {
+                        <th class="whitespace-nowrap">{{ col.label }}</th>
+                    }
+                </tr>
+            </ng-template>
+            <ng-template #body let-row>
+                <tr>
+                    @for (col of columnOptions().slice(1); track col.value) {
+                        <td class="whitespace-nowrap">{{ row[col.value!] }}</td>
+                    }
+                </tr>
+            </ng-template>
+        </p-table>
+    `
+})
+export class CsvMappingComponent {
+    rows = input.required<string[][]>();
+    options = input.required<CsvParseOptions>();
+
+    optionsChange = output<CsvParseOptions>();
+    delimiterChange = output<string>();
+
+    readonly delimitadores = DELIMITADORES;
+    readonly campos: { key: keyof CsvColumnMapping; label: string }[] = [
+        { key: 'fecha', label: 'Fecha *' },
+        { key: 'descripcion', label: 'Descripción' },
+        { key: 'importe', label: 'Importe' },
+        { key: 'cargo', label: 'Cargo' },
+        { key: 'abono', label: 'Abono' }
+    ];
+
+    columnOptions = computed<ColumnOption[]>(() => {
+        const rows = this.rows();
+        const width = rows.reduce((max, r) => Math.max(max, r.length), 0);
+        const header = this.options().hasHeader ? rows[0] ?? [] : [];
+        const columns = Array.from({ length: width }, (_, i) => ({ label: header[i]?.trim() || `Columna ${i + 1}`, value: i }));
+
+        return [{ label: '— Sin asignar —', value: null }, ...columns];
+    });
+
+    muestra = computed(() => {
+        const rows = this.rows();
+        return (this.options().hasHeader ? rows.slice(1) : rows).slice(0, 5);
+    });
+
+    mappingError = computed(() => {
+        const { mapping } = this.options();
+        if (mapping.fecha === null) return 'Selecciona la columna de fecha.';
+        if (mapping.importe === null && mapping.cargo === null && mapping.abono === null) return 'Selecciona la columna de importe o las de cargo/abono.';
+        return null;
+    });
+
+    onMappingChange(key: keyof CsvColumnMapping, value: number | null) {
+        this.emit({ mapping: { ...this.options().mapping, [key]: value } });
+    }
+
+    emit(changes: Partial<CsvParseOptions>) {
+        this.optionsChange.emit({ ...this.options(), ...changes });
+    }
+}
@@ -0,0 +1,286 @@
+import { Component, ChangeDetectionStrategy, computed, inject, input, output, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { AutoCompleteModule, AutoCompleteCompleteEvent } from 'primeng/autocomplete';
+import { ButtonModule } from 'primeng/button';
+import { CheckboxModule } from 'primeng/checkbox';
+import { TableModule } from 'primeng/table';
+import { TagModule } from 'primeng/tag';
+import { TooltipModule } from 'primeng/tooltip';
+import { ToggleSwitchModule } from 'primeng/toggleswitch';
+import { CatalogRef } from '@/core/models/common.model';
+import { CampoCatalogoImportacion, FilaImportacion, ValoresPorDefectoImportacion } from '@/core/models/importacion.model';
+import { aplicarReglasAFilas, aplicarValoresPorDefecto, validarFila, valoresPorDefectoVacios } from '../importar.utils';
+
+// Stores
+import { ConceptoStore } from '@/features/conceptos/store/concepto.store';
+import { CategoriaStore } from '@/features/categorias/store/categoria.store';
+import { CuentaStore } from '@/features/cuentas/store/cuenta.store';
+import { FormaPagoStore } from '@/features/formas-pago/store/forma-pago.store';
+import { PersonaStore } from '@/features/personas/store/persona.store';
+import { ProveedorStore } from '@/features/proveedores/store/proveedor.store';
+import { ClienteStore } from '@/features/clientes/store/cliente.store';
+import { ReglaStore } from '@/features/reglas/store/regla.store';
+import { ImportePipe } from '@/shared/pipes/importe.pipe';
+
+interface CatalogSearch {
+    search(query: string, limit: number): Promise<CatalogRef[]>;
+    getRecent(limit: number): Promise<CatalogRef[]>;
+}
+
+@Component({
+    selector: 'app-import-preview',
+    standalone: true,
+    imports: [CommonModule, FormsModule, AutoCompleteModule, ButtonModule, CheckboxModule, TableModule, TagModule, TooltipModule, ToggleSwitchModule, ImportePipe],
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    template: `
+        <div class="border border-surface-200 dark:border-surface-700 rounded-border p-4 mb-4">
+            <h5 class="text-xs font-bold text-500 uppercase tracking-wider border-b border-gray-200 pb-2 mb-4">Valores por defecto</h5>
+            <div class="grid grid-cols-12 gap-4">
+                @for (campo of camposDefecto; track campo.key) {
+                    <div class="col-span-12 md:col-span-6 lg:col-span-3">
+                        <label class="font-medium text-gray-700 block mb-2 text-sm">{{ campo.label }}</label>
+                        <p-autoComplete
+                            [ngModel]="defaults()[campo.key]"
+                            [suggestions]="sugerencias()"
+                            (completeMethod)="buscar(campo.key, $event)"
+                            (onSelect)="setDefault(campo.key, $event.value)"
+                            (onClear)="setDefault(campo.key, null)"
+                            optionLabel="nombre"
+                            [dropdown]="true"
+                            [forceSelection]="true"
+                            [showClear]="true"
+                            appendTo="body"
+                            styleClass="w-full"
+                            class="w-full"
+                        />
+                    </div>
+                }
+                <div class="col-span-12 flex justify-end">
+                    <p-button label="Aplicar a campos vacíos" icon="pi pi-check-square" severity="secondary" [outlined]="true" (onClick)="aplicarDefaults()" />
+                </div>
+            </div>
+        </div>
+
+        <div class="flex flex-wrap items-center justify-between gap-4 mb-3">
+            <div class="flex flex-wrap gap-2">
+                <p-tag severity="info" [value]="resumen().seleccionadas + ' seleccionadas'" />
+                <p-tag severity="danger" [value]="resumen().gastos + ' gastos · ' + (resumen().totalGastos | importe)" />
+                <p-tag severity="success" [value]="resumen().ingresos + ' ingresos · ' + (resumen().totalIngresos | importe)" />
+                @if (resumen().conErrores > 0) {
+                    <p-tag severity="warn" [value]="resumen().conErrores + ' con errores'" />
+                }
+            </div>
+            <div class="flex items-center gap-2">
+                <p-toggleswitch inputId="soloErrores" [ngModel]="soloErrores()" (ngModelChange)="soloErrores.set($event)" />
+                <label for="soloErrores" class="text-sm">Mostrar solo filas con errores</label>
+            </div>
+        </div>
+
+        <p-table [value]="filasVisibles()" dataKey="id" [scrollable]="true" scrollHeight="60vh" [tableStyle]="{ 'min-width': '110rem' }" styleClass="p-datatable-sm p-datatable-gridlines">
+            <ng-template #header>
+                <tr>
+                    <th style="width: 3rem">
+                        <p-checkbox [binary]="true" [ngModel]="todasSeleccionadas()" (ngModelChange)="seleccionarTodas($event)" />
+                    </th>
+                    <th style="width: 3rem"></th>
+                    <th style="width: 7rem">Fecha</th>
+                    <th style="min-width: 16rem">Descripción</th>
+                    <th style="width: 8rem" class="text-right">Importe</th>
+                    <th style="width: 6rem">Tipo</th>
+                    <th>Concepto</th>
+                    <th>Categoría</th>
+                    <th>Cuenta</th>
+                    <th>Forma de pago</th>
+                    <th>Persona</th>
+                    <th>Proveedor / Cliente</th>
+                </tr>
+            </ng-template>
+            <ng-template #body let-fila>
+                <tr [class.opacity-60]="fila.estado === 'importada'">
+                    <td>
+                        <p-checkbox [binary]="true" [disabled]="fila.estado === 'importada'" [ngModel]="fila.seleccionada" (ngModelChange)="actualizarFila(fila, { seleccionada: $event })" />
+                    </td>
+                    <td class="text-center">
+                        @switch (fila.estado) {
+                            @case ('importada') {
+                                <i class="pi pi-check-circle text-green-500"></i>
+                            }
+                            @case ('error') {
+                                <i class="pi pi-times-circle text-red-500" [pTooltip]="fila.errores.join(' · ')"></i>
+                            }
+                            @default {
+                                @if (fila.errores.length > 0) {
+                                    <i class="pi pi-exclamation-triangle text-orange-500" [pTooltip]="fila.errores.join(' · ')"></i>
+                                } @else if (fila.duplicado) {
+                                    <i class="pi pi-copy text-orange-500" [pTooltip]="'Posible duplicado de ' + (fila.duplicado.fecha | date: 'dd/MM/yyyy') + ' · ' + fila.duplicado.nombre"></i>
+                                }
+                            }
+                        }
+                    </td>
+                    <td class="whitespace-nowrap">{{ fila.fecha | date: 'dd/MM/yyyy' }}</td>
+                    <td class="truncate" style="max-width: 20rem" [pTooltip]="fila.descripcion">{{ fila.descripcion }}</td>
+                    <td class="text-right font-bold" [class.text-red-600]="fila.tipo === 'gasto'" [class.text-green-600]="fila.tipo === 'ingreso'">
+                        {{ fila.importe | importe }}
+                    </td>
+                    <td>
+                        <p-tag
+                            class="cursor-pointer"
+                            [severity]="fila.tipo === 'gasto' ? 'danger' : 'success'"
+                            [value]="fila.tipo === 'gasto' ? 'Gasto' : 'Ingreso'"
+                            (click)="cambiarTipo(fila)"
+                            pTooltip="Cambiar tipo"
+                        />
+                    </td>
+                    @for (campo of camposFila; track campo) {
+                        <td style="min-width: 11rem">
+                            <ng-container *ngTemplateOutlet="celdaCatalogo; context: { $implicit: fila, campo: campo === 'proveedor' && fila.tipo === 'ingreso' ? 'cliente' : campo }" />
+                        </td>
+                    }
+                </tr>
+            </ng-template>
+            <ng-template #emptymessage>
+                <tr>
+                    <td colspan="12" class="text-center p-4">No hay movimientos que mostrar.</td>
+                </tr>
+            </ng-template>
+        </p-table>
+
+        <ng-template #celdaCatalogo let-fila let-campo="campo">
+            <p-autoComplete
+                [ngModel]="fila[campo]"
+                [suggestions]="sugerencias()"
+                (completeMethod)="buscar(campo, $event)"
+                (onSelect)="seleccionarCatalogo(fila, campo, $event.value)"
+                (onClear)="seleccionarCatalogo(fila, campo, null)"
+                [disabled]="fila.estado === 'importada'"
+                optionLabel="nombre"
+                [forceSelection]="true"
+                [showClear]="true"
+                appendTo="body"
+                size="small"
+                styleClass="w-full"
+                class="w-full"
+            />
+        </ng-template>
+    `
+})
+export class ImportPreviewComponent {
+    private conceptoStore = inject(ConceptoStore);
+    private categoriaStore = inject(CategoriaStore);
+    private cuentaStore = inject(CuentaStore);
+    private formaPagoStore = inject(FormaPagoStore);
+    private personaStore = inject(PersonaStore);
+    private proveedorStore = inject(ProveedorStore);
+    private clienteStore = inject(ClienteStore);
+    private reglaStore = inject(ReglaStore);
+
+    filas = input.required<FilaImportacion[]>();
+    filasChange = output<FilaImportacion[]>();
+
+    defaults = signal<ValoresPorDefectoImportacion>(valoresPorDefectoVacios());
+    sugerencias = signal<CatalogRef[]>([]);
+    soloErrores = signal(false);
+
+    readonly camposDefecto: { key: CampoCatalogoImportacion; label: string }[] = [
+        { key: 'cuenta', label: 'Cuenta' },
+        { key: 'formaPago', label: 'Forma de pago' },
+        { key: 'persona', label: 'Persona' },
+        { key: 'concepto', label: 'Concepto' },
+        { key: 'categoria', label: 'Categoría' },
+        { key: 'proveedor', label: 'Proveedor (gastos)' },
+        { key: 'cliente', label: 'Cliente (ingresos)' }
+    ];
+
+    readonly camposFila: CampoCatalogoImportacion[] = ['concepto', 'categoria', 'cuenta', 'formaPago', 'persona', 'proveedor'];
+
+    private readonly buscadores: Record<CampoCatalogoImportacion, CatalogSearch> = {
+        concepto: this.conceptoStore,
+        categoria: this.categoriaStore,
+        cuenta: this.cuentaStore,
+        formaPago: this.formaPagoStore,
+        persona: this.personaStore,
+        proveedor: this.proveedorStore,
+        cliente: this.clienteStore
+    };
+
+    filasVisibles = computed(() => (this.soloErrores() ? this.filas().filter((f) => f.errores.length > 0 && f.estado !== 'importada') : this.filas()));
+
+    todasSeleccionadas = computed(() => {
+        const pendientes = this.filas().filter((f) => f.estado !== 'importada');
+        return pendientes.length > 0 && pendientes.every((f) => f.seleccionada);
+    });
+
+    resumen = computed(() => {
+        const seleccionadas = this.filas().filter((f) => f.seleccionada && f.estado !== 'importada');
+        const gastos = seleccionadas.filter((f) => f.tipo === 'gasto');
+        const ingresos = seleccionadas.filter((f) => f.tipo === 'ingreso');
+        const sumar = (filas: FilaImportacion[]) => filas.reduce((total, f) => total + (Number.isFinite(f.importe) ? f.importe : 0), 0);
+
+        return {
+            seleccionadas: seleccionadas.length,
+            conErrores: seleccionadas.filter((f) => f.errores.length > 0).length,
+            gastos: gastos.length,
+            ingresos: ingresos.length,
+            totalGastos: sumar(gastos),
+            totalIngresos: sumar(ingresos)
+        };
+    });
+
+    buscar(campo: CampoCatalogoImportacion, event: AutoCompleteCompleteEvent) {
+        const buscador = this.buscadores[campo];
+        const query = event.query;
+        const peticion = !query || query.length < 2 ? buscador.getRecent(5) : buscador.search(query, 10);
+
+        peticion.then((data) => this.sugerencias.set(data)).catch(() => this.sugerencias.set([]));
+    }
+
+    setDefault(campo: CampoCatalogoImportacion, valor: CatalogRef | null) {
+        this.defaults.update((d) => ({ ...d, [campo]: valor ? this.toCatalogRef(valor) : null }));
+    }
+
+    // La cuenta va primero para que puedan cumplirse las reglas que dependen de ella; las reglas tienen prioridad sobre el resto
+    aplicarDefaults() {
+        const defaults = this.defaults();
+        const conCuenta = aplicarValoresPorDefecto(this.filas(), { ...valoresPorDefectoVacios(), cuenta: defaults.cuenta });
+        this.filasChange.emit(aplicarValoresPorDefecto(aplicarReglasAFilas(conCuenta, this.reglaStore.reglas()), defaults));
+    }
+
+    seleccionarCatalogo(fila: FilaImportacion, campo: CampoCatalogoImportacion, valor: (CatalogRef & { categoriaId?: string; categoriaNombre?: string }) | null) {
+        const cambios: Partial<FilaImportacion> = { [campo]: valor ? this.toCatalogRef(valor) : null };
+
+        // Igual que en el formulario: el concepto arrastra su categoría
+        if (campo === 'concepto' && valor?.categoriaId && valor.categoriaNombre) {
+            cambios.categoria = { id: valor.categoriaId, nombre: valor.categoriaNombre };
+        }
+
+        this.actualizarFila(fila, cambios);
+    }
+
+    actualizarFila(fila: FilaImportacion, cambios: Partial<FilaImportacion>) {
+        this.filasChange.emit(
+            this.filas().map((f) => {
+                if (f.id !== fila.id) return f;
+                const actualizada: FilaImportacion = { ...f, ...cambios, estado: f.estado === 'error' ? 'pendiente' : f.estado };
+                // Cambiar de cuenta o de tipo obliga a volver a buscar duplicados
+                if ('cuenta' in cambios || 'tipo' in cambios) {
+                    actualizada.duplicado = undefined;
+                }
+                return { ...actualizada, errores: validarFila(actualizada) };
+            })
+        );
+    }
+
+    cambiarTipo(fila: FilaImportacion) {
+        if (fila.estado === 'importada') return;
+        this.actualizarFila(fila, { tipo: fila.tipo === 'gasto' ? 'ingreso' : 'gasto' });
+    }
+
+    seleccionarTodas(seleccionada: boolean) {
+        this.filasChange.emit(this.filas().map((f) => (f.estado === 'importada' ? f : { ...f, seleccionada })));
+    }
+
+    private toCatalogRef(item: CatalogRef): CatalogRef {
+        return { id: item.id, nombre: item.nombre };
+    }
+}
@@ -0,0 +1,8 @@
+import { Routes } from '@angular/router';
+
+export default [
+    {
+        path: '',
+        loadComponent: () => import('./pages/importar.page').then(m => m.ImportarPage)
+    }
+] as Routes;
@@ -0,0 +1,136 @@
+import { CampoCatalogoImportacion, CsvColumnMapping, FilaImportacion, ImportFormat, MovimientoBancario, ValoresPorDefectoImportacion } from '@/core/models/importacion.model';
+import { Regla } from '@/core/models/regla.model';
+import { isNorma43 } from '@/shared/utils/import';
+import { CAMPOS_ACCION_REGLA, evaluarReglas } from '@/shared/utils/reglas.util';
+
+export const CAMPOS_CATALOGO: CampoCatalogoImportacion[] = ['concepto', 'categoria', 'cuenta', 'formaPago', 'persona', 'proveedor', 'cliente'];
+
+export function valoresPorDefectoVacios(): ValoresPorDefectoImportacion {
+    return { concepto: null, categoria: null, cuenta: null, proveedor: null, cliente: null, persona: null, formaPago: null };
+}
+
+/**
+ * Deduce el formato del extracto por la extensión y, si no es concluyente, por el contenido
+ */
+export function detectarFormato(nombreArchivo: string, contenido: string): ImportFormat {
+    const extension = nombreArchivo.split('.').pop()?.toLowerCase() ?? '';
+
+    if (['ofx', 'qfx'].includes(extension) || /<OFX>/i.test(contenido)) return 'ofx';
+    if (['n43', 'aeb', 'q43'].includes(extension) || isNorma43(contenido)) return 'norma43';
+    return 'csv';
+}
+
+/**
+ * Propone un mapeo de columnas a partir de los nombres de la cabecera del CSV
+ */
+export function sugerirMapeo(cabecera: string[]): CsvColumnMapping {
+    const normalizada = cabecera.map((c) =>
+        c
+            .normalize('NFD')
+            .replace(/[\u0300-\u036f]/g, '')
+            .toLowerCase()
+            .trim()
+    );
+    // Las claves van por orden de prioridad ('fecha operacion' antes que 'fecha valor')
+    const buscar = (...claves: string[]) => {
+        for (const clave of claves) {
+            const index = normalizada.findIndex((c) => c.includes(clave));
+            if (index >= 0) return index;
+        }
+        return null;
+    };
+
+    const importe = buscar('importe', 'cantidad', 'amount');
+
+    return {
+        fecha: buscar('fecha operacion', 'f. operacion', 'fecha', 'date'),
+        descripcion: buscar('concepto', 'descripcion', 'movimiento', 'detalle', 'description'),
+        importe,
+        cargo: importe === null ? buscar('cargo', 'debe') : null,
+        abono: importe === null ? buscar('abono', 'haber') : null
+    };
+}
+
+/**
+ * Valida una fila según los mismos requisitos que los formularios de gasto e ingreso
+ */
+export function validarFila(fila: FilaImportacion): string[] {
+    const errores: string[] = [];
+
+    if (!fila.fecha) errores.push('Fecha no válida');
+    if (!Number.isFinite(fila.importe) || fila.importe <= 0) errores.push('Importe no válido');
+    if (!fila.concepto) errores.push('Falta el concepto');
+    if (!fila.cuenta) errores.push('Falta la cuenta');
+    if (!fila.formaPago) errores.push('Falta la forma de pago');
+    if (!fila.persona) errores.push('Falta la persona');
+    if (fila.tipo === 'gasto' && !fila.proveedor) errores.push('Falta el proveedor');
+    if (fila.tipo === 'ingreso' && !fila.cliente) errores.push('Falta el cliente');
+
+    return errores;
+}
+
+/**
+ * Convierte los movimientos del extracto en filas de importación
+ * El signo del importe decide el tipo (negativo = gasto) y se guarda en valor absoluto
+ */
+export function crearFilas(movimientos: MovimientoBancario[], defaults: ValoresPorDefectoImportacion): FilaImportacion[] {
+    return movimientos.map((mov, index) => {
+        const fila: FilaImportacion = {
+            id: `fila_${index}`,
+            seleccionada: true,
+            tipo: mov.importe < 0 ? 'gasto' : 'ingreso',
+            fecha: mov.fecha,
+            importe: Math.abs(mov.importe),
+            descripcion: mov.descripcion,
+            ...defaults,
+            errores: [],
+            estado: 'pendiente'
+        };
+
+        return { ...fila, errores: validarFila(fila) };
+    });
+}
+
+/**
+ * Rellena los campos vacíos de las filas pendientes con los valores por defecto
+ */
+export function aplicarValoresPorDefecto(filas: FilaImportacion[], defaults: ValoresPorDefectoImportacion): FilaImportacion[] {
+    return filas.map((fila) => {
+        if (fila.estado === 'importada') return fila;
+
+        const actualizada = { ...fila };
+        for (const campo of CAMPOS_CATALOGO) {
+            if (!actualizada[campo] && defaults[campo]) {
+                actualizada[campo] = defaults[campo];
+            }
+        }
+
+        return { ...actualizada, errores: validarFila(actualizada) };
+    });
+}
+
+/**
+ * Rellena los campos vacíos de las filas pendientes con las reglas de auto-categorización
+ */
+export function aplicarReglasAFilas(filas: FilaImportacion[], reglas: Regla[]): FilaImportacion[] {
+    return filas.map((fila) => {
+        if (fila.estado === 'importada') return fila;
+
+        const { acciones } = evaluarReglas(reglas, {
+            tipo: fila.tipo,
+            importe: fila.importe,
+            descripcion: fila.descripcion,
+            conceptoNombre: fila.concepto?.nombre,
+            cuentaId: fila.cuenta?.id
+        });
+
+        const actualizada = { ...fila };
+        for (const campo of CAMPOS_ACCION_REGLA) {
+            if (!actualizada[campo] && acciones[campo]) {
+                actualizada[campo] = acciones[campo];
+            }
+        }
+
+        return { ...actualizada, errores: validarFila(actualizada) };
+    });
+}
@@ -0,0 +1,329 @@
+import { Component, inject, ChangeDetectionStrategy, signal, computed } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterModule } from '@angular/router';
+import { MessageService, ConfirmationService } from 'primeng/api';
+import { ButtonModule } from 'primeng/button';
+import { StepperModule } from 'primeng/stepper';
+import { FileUploadHandlerEvent, FileUploadModule } from 'primeng/fileupload';
+import { ProgressBarModule } from 'primeng/progressbar';
+import { TagModule } from 'primeng/tag';
+import { BasePageComponent, BasePageTemplateComponent } from '@/shared/components';
+import { CsvParseOptions, FilaImportacion, ImportFormat, MovimientoBancario, MovimientoExistente } from '@/core/models/importacion.model';
+import { Gasto, GastoCreate, Ingreso, IngresoCreate } from '@/core/models';
+import { detectCsvDelimiter, mapCsvRows, parseCsv, parseNorma43, parseOfx } from '@/shared/utils/import';
+import { GastosStore } from '@/features/gastos/stores/gastos.store';
+import { IngresosStore } from '@/features/ingresos/stores/ingresos.store';
+import { DuplicateDetectionService } from '@/core/services/duplicate-detection.service';
+import { ReglaStore } from '@/features/reglas/store/regla.store';
+import { CsvMappingComponent } from '../components/csv-mapping.component';
+import { ImportPreviewComponent } from '../components/import-preview.component';
+import { aplicarReglasAFilas, crearFilas, detectarFormato, sugerirMapeo, valoresPorDefectoVacios } from '../importar.utils';
+
+const FORMATO_LABEL: Record<ImportFormat, string> = {
+    csv: 'CSV',
+    ofx: 'OFX',
+    norma43: 'Norma 43'
+};
+
+@Component({
+    selector: 'app-importar-page',
+    standalone: true,
+    imports: [CommonModule, RouterModule, ButtonModule, StepperModule, FileUploadModule, ProgressBarModule, TagModule, BasePageTemplateComponent, CsvMappingComponent, ImportPreviewComponent],
+    providers: [MessageService, ConfirmationService],
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    template: `
+        <app-base-page-template [loading]="false">
+            <div class="card surface-ground px-4 py-5 md:px-6 lg:px-8">
+                <div class="surface-card shadow-2 border-round p-6">
+                    <div class="flex flex-wrap items-center justify-between gap-2 mb-6">
+                        <div>
+                            <div class="font-semibold text-xl">Importar extracto bancario</div>
+                            <span class="text-muted-color text-sm">Formatos admitidos: CSV, OFX y Norma 43 (AEB)</span>
+                        </div>
+                        @if (nombreArchivo()) {
+                            <p-tag severity="secondary" icon="pi pi-file" [value]="nombreArchivo() + ' · ' + formatoLabel()" />
+                        }
+                    </div>
+
+                    <p-stepper [value]="paso()" (valueChange)="paso.set($event ?? 1)" [linear]="true">
+                        <p-step-list>
+                            <p-step [value]="1">Archivo</p-step>
+                            <p-step [value]="2" [disabled]="formato() !== 'csv' || !nombreArchivo()">Columnas</p-step>
+                            <p-step [value]="3" [disabled]="filas().length === 0">Revisión</p-step>
+                            <p-step [value]="4" [disabled]="!resultado()">Resultado</p-step>
+                        </p-step-list>
+
+                        <p-step-panels>
+                            <p-step-panel [value]="1">
+                                <ng-template #content>
+                                    <div class="flex flex-col items-center gap-4 py-8 border-2 border-dashed border-surface-200 dark:border-surface-700 rounded-border">
+                                        <i class="pi pi-upload text-4xl text-primary"></i>
+                                        <span class="text-muted-color">Selecciona el extracto descargado de tu banco</span>
+                                        <p-fileUpload mode="basic" name="extracto" accept=".csv,.txt,.ofx,.qfx,.n43,.aeb,.q43" chooseLabel="Seleccionar archivo" chooseIcon="pi pi-folder-open" [auto]="true" [customUpload]="true" (uploadHandler)="onArchivoSeleccionado($event)" />
+                                    </div>
+                                </ng-template>
+                            </p-step-panel>
+
+                            <p-step-panel [value]="2">
+                                <ng-template #content>
+                                    <app-csv-mapping [rows]="csvRows()" [options]="csvOptions()" (optionsChange)="csvOptions.set($event)" (delimiterChange)="onDelimiterChange($event)" />
+                                    <div class="flex justify-between pt-6">
+                                        <p-button label="Atrás" icon="pi pi-arrow-left" severity="secondary" (onClick)="paso.set(1)" />
+                                        <p-button label="Continuar" icon="pi pi-arrow-right" iconPos="right" [disabled]="!mapeoValido()" (onClick)="aplicarMapeo()" />
+                                    </div>
+                                </ng-template>
+                            </p-step-panel>
+
+                            <p-step-panel [value]="3">
+                                <ng-template #content>
+                                    <app-import-preview [filas]="filas()" (filasChange)="filas.set($event)" />
+
+                                    @if (importando()) {
+                                        <p-progressBar [value]="progreso()" styleClass="mt-4" />
+                                    }
+
+                                    <div class="flex justify-between pt-6">
+                                        <p-button label="Atrás" icon="pi pi-arrow-left" severity="secondary" [disabled]="importando()" (onClick)="paso.set(formato() === 'csv' ? 2 : 1)" />
+                                        <p-button [label]="'Importar ' + pendientes().length + ' movimientos'" icon="pi pi-download" [loading]="importando()" [disabled]="pendientes().length === 0" (onClick)="importar()" />
+                                    </div>
+                                </ng-template>
+                            </p-step-panel>
+
+                            <p-step-panel [value]="4">
+                                <ng-template #content>
+                                    @if (resultado(); as res) {
+                                        <div class="flex flex-col items-center gap-3 py-8">
+                                            <i class="pi text-5xl" [class.pi-check-circle]="res.errores === 0" [class.text-green-500]="res.errores === 0" [class.pi-exclamation-circle]="res.errores > 0" [class.text-orange-500]="res.errores > 0"></i>
+                                            <div class="text-xl font-semibold">{{ res.importadas }} movimientos importados</div>
+                                            @if (res.errores > 0) {
+                                                <span class="text-muted-color">{{ res.errores }} movimientos no se han podido importar</span>
+                                            }
+                                            <div class="flex flex-wrap justify-center gap-2 mt-4">
+                                                @if (res.errores > 0) {
+                                                    <p-button label="Revisar errores" icon="pi pi-pencil" severity="warn" (onClick)="paso.set(3)" />
+                                                }
+                                                <p-button label="Ver gastos" icon="pi pi-arrow-down" severity="secondary" [outlined]="true" routerLink="/gastos" />
+                                                <p-button label="Ver ingresos" icon="pi pi-arrow-up" severity="secondary" [outlined]="true" routerLink="/ingresos" />
+                                                <p-button label="Importar otro archivo" icon="pi pi-refresh" (onClick)="reiniciar()" />
+                                            </div>
+                                        </div>
+                                    }
+                                </ng-template>
+                            </p-step-panel>
+                        </p-step-panels>
+                    </p-stepper>
+                </div>
+            </div>
+        </app-base-page-template>
+    `
+})
+export class ImportarPage extends BasePageComponent {
+    private gastosStore = inject(GastosStore);
+    private ingresosStore = inject(IngresosStore);
+    private duplicateDetection = inject(DuplicateDetectionService);
+    private reglaStore = inject(ReglaStore);
+
+    paso = signal(1);
+    nombreArchivo = signal<string | null>(null);
+    formato = signal<ImportFormat>('csv');
+    contenido = signal('');
+    csvOptions = signal<CsvParseOptions>({
+        delimiter: ';',
+        hasHeader: true,
+        mapping: { fecha: null, descripcion: null, importe: null, cargo: null, abono: null }
+    });
+    filas = signal<FilaImportacion[]>([]);
+    importando = signal(false);
+    progreso = signal(0);
+    resultado = signal<{ importadas: number; errores: number } | null>(null);
+
+    formatoLabel = computed(() => FORMATO_LABEL[this.formato()]);
+
+    csvRows = computed(() => (this.formato() === 'csv' ? parseCsv(this.contenido(), this.csvOptions().delimiter) : []));
+
+    mapeoValido = computed(() => {
+        const { mapping } = this.csvOptions();
+        return mapping.fecha !== null && (mapping.importe !== null || mapping.cargo !== null || mapping.abono !== null);
+    });
+
+    pendientes = computed(() => this.filas().filter((f) => f.seleccionada && f.estado !== 'importada'));
+
+    async onArchivoSeleccionado(event: FileUploadHandlerEvent) {
+        const file = event.files[0];
+        if (!file) return;
+
+        const contenido = await this.leerArchivo(file);
+        const formato = detectarFormato(file.name, contenido);
+
+        this.reiniciar();
+        this.nombreArchivo.set(file.name);
+        this.formato.set(formato);
+        this.contenido.set(contenido);
+
+        if (formato === 'csv') {
+            const delimiter = detectCsvDelimiter(contenido);
+            const cabecera = parseCsv(contenido, delimiter)[0] ?? [];
+            this.csvOptions.set({ delimiter, hasHeader: true, mapping: sugerirMapeo(cabecera) });
+            this.paso.set(2);
+            return;
+        }
+
+        this.cargarMovimientos(formato === 'ofx' ? parseOfx(contenido) : parseNorma43(contenido));
+    }
+
+    onDelimiterChange(delimiter: string) {
+        const cabecera = parseCsv(this.contenido(), delimiter)[0] ?? [];
+        this.csvOptions.update((o) => ({ ...o, delimiter, mapping: sugerirMapeo(cabecera) }));
+    }
+
+    aplicarMapeo() {
+        this.cargarMovimientos(mapCsvRows(this.csvRows(), this.csvOptions()));
+    }
+
+    async importar() {
+        const pendientes = this.pendientes();
+        const conErrores = pendientes.filter((f) => f.errores.length > 0).length;
+        if (conErrores > 0) {
+            this.showWarning(`Hay ${conErrores} movimientos seleccionados con errores. Corrígelos o desmárcalos antes de importar.`, 'Revisión pendiente');
+            return;
+        }
+
+        this.importando.set(true);
+
+        // Las filas marcadas como duplicadas que el usuario vuelve a seleccionar se importan sin volver a preguntar
+        const duplicadas = await this.marcarDuplicados(pendientes.filter((f) => f.duplicado === undefined));
+        if (duplicadas > 0) {
+            this.importando.set(false);
+            this.showWarning(`${duplicadas} movimientos parecen ya registrados y se han desmarcado. Revísalos y vuelve a marcarlos si quieres importarlos igualmente.`, 'Posibles duplicados');
+            return;
+        }
+
+        const aImportar = this.pendientes();
+        this.progreso.set(0);
+        let importadas = 0;
+        let errores = 0;
+
+        // Secuencial para no saturar la API y poder marcar el estado de cada fila
+        for (const [index, fila] of aImportar.entries()) {
+            try {
+                await this.crearMovimiento(fila);
+                this.marcarFila(fila.id, { estado: 'importada', seleccionada: false, errores: [] });
+                importadas++;
+            } catch (error: any) {
+                this.marcarFila(fila.id, { estado: 'error', errores: [error?.userMessage || 'Error al importar el movimiento'] });
+                errores++;
+            }
+            this.progreso.set(Math.round(((index + 1) / aImportar.length) * 100));
+        }
+
+        this.importando.set(false);
+        this.resultado.set({ importadas, errores });
+        this.paso.set(4);
+    }
+
+    reiniciar() {
+        this.paso.set(1);
+        this.nombreArchivo.set(null);
+        this.contenido.set('');
+        this.filas.set([]);
+        this.resultado.set(null);
+        this.progreso.set(0);
+    }
+
+    private cargarMovimientos(movimientos: MovimientoBancario[]) {
+        if (movimientos.length === 0) {
+            this.showWarning('No se ha encontrado ningún movimiento en el archivo.');
+            return;
+        }
+
+        this.filas.set(aplicarReglasAFilas(crearFilas(movimientos, valoresPorDefectoVacios()), this.reglaStore.reglas()));
+        this.paso.set(3);
+    }
+
+    /**
+     * Busca movimientos ya registrados que coincidan con las filas y desmarca las sospechosas
+     * Devuelve el número de filas marcadas como posible duplicado
+     */
+    private async marcarDuplicados(filas: FilaImportacion[]): Promise<number> {
+        if (filas.length === 0) return 0;
+
+        let existentes: { gastos: Gasto[]; ingresos: Ingreso[] };
+        try {
+            existentes = await this.duplicateDetection.loadExistentes(filas.map((f) => f.fecha));
+        } catch {
+            // Sin datos de referencia no se bloquea la importación
+            existentes = { gastos: [], ingresos: [] };
+        }
+
+        const resultado = new Map<string, MovimientoExistente | null>();
+        for (const fila of filas) {
+            const candidato = { cuentaId: fila.cuenta!.id, importe: fila.importe, fecha: fila.fecha, conceptoNombre: fila.concepto?.nombre, descripcion: fila.descripcion };
+            const [duplicado] = fila.tipo === 'gasto' ? this.duplicateDetection.matchGasto(candidato, existentes.gastos) : this.duplicateDetection.matchIngreso(candidato, existentes.ingresos);
+
+            resultado.set(
+                fila.id,
+                duplicado
+                    ? {
+                          id: duplicado.movimiento.id,
+                          fecha: duplicado.movimiento.fecha,
+                          importe: duplicado.movimiento.importe,
+                          nombre: [duplicado.movimiento.conceptoNombre, duplicado.movimiento.descripcion].filter(Boolean).join(' - ')
+                      }
+                    : null
+            );
+        }
+
+        this.filas.update((actuales) =>
+            actuales.map((f) => {
+                if (!resultado.has(f.id)) return f;
+                const duplicado = resultado.get(f.id)!;
+                return { ...f, duplicado, seleccionada: duplicado ? false : f.seleccionada };
+            })
+        );
+
+        return [...resultado.values()].filter(Boolean).length;
+    }
+
+    private crearMovimiento(fila: FilaImportacion): Promise<string> {
+        const comunes = {
+            importe: fila.importe,
+            fecha: fila.fecha,
+            descripcion: fila.descripcion || undefined,
+            conceptoId: fila.concepto!.id,
+            categoriaId: fila.categoria?.id || '',
+            personaId: fila.persona!.id,
+            cuentaId: fila.cuenta!.id,
+            formaPagoId: fila.formaPago!.id
+        };
+        const displayData = {
+            conceptoNombre: fila.concepto!.nombre,
+            categoriaNombre: fila.categoria?.nombre || '',
+            personaNombre: fila.persona!.nombre,
+            cuentaNombre: fila.cuenta!.nombre,
+            formaPagoNombre: fila.formaPago!.nombre
+        };
+
+        if (fila.tipo === 'gasto') {
+            const gasto: GastoCreate = { ...comunes, proveedorId: fila.proveedor!.id };
+            return this.gastosStore.createGasto(gasto, { ...displayData, proveedorNombre: fila.proveedor!.nombre });
+        }
+
+        const ingreso: IngresoCreate = { ...comunes, clienteId: fila.cliente!.id };
+        return this.ingresosStore.createIngreso(ingreso, { ...displayData, clienteNombre: fila.cliente!.nombre });
+    }
+
+    private marcarFila(id: string, cambios: Partial<FilaImportacion>) {
+        this.filas.update((filas) => filas.map((f) => (f.id === id ? { ...f, ...cambios } : f)));
+    }
+
+    // Muchos bancos exportan en Windows-1252: si el archivo no es UTF-8 válido se reintenta con esa codificación
+    private async leerArchivo(file: File): Promise<string> {
+        const buffer = await file.arrayBuffer();
+
+        try {
+            return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+        } catch {
+            return new TextDecoder('windows-1252').decode(buffer);
+        }
+    }
+}
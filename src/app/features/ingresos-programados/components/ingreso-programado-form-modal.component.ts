@@ -39,6 +39,8 @@ import { CuentaStore } from '@/features/cuentas/store/cuenta.store';
 import { ConceptoStore } from '@/features/conceptos/store/concepto.store';
 import { CategoriaStore } from '@/features/categorias/store/categoria.store';
 import { PersonaStore } from '@/features/personas/store/persona.store';
+import { ImportePipe } from '@/shared/pipes/importe.pipe';
+import { MonedaStore } from '@/core/stores/moneda.store';
 
 interface CatalogItem {
     id: string;
@@ -71,7 +73,8 @@ interface IngresoProgramadoFormData extends Omit<Partial<IngresoProgramado>, 'fe
         ClienteCreateModalComponent,
         PersonaCreateModalComponent,
         CuentaCreateModalComponent,
-        FormaPagoCreateModalComponent
+        FormaPagoCreateModalComponent,
+        ImportePipe
     ],
     changeDetection: ChangeDetectionStrategy.OnPush,
     template: `
@@ -122,10 +125,10 @@ interface IngresoProgramadoFormData extends Omit<Partial<IngresoProgramado>, 'fe
                         id="importe"
                         [(ngModel)]="formData.importe"
                         mode="currency"
-                        currency="EUR"
+                        [currency]="monedaStore.monedaBase()"
                         locale="es-ES"
                         [min]="0"
-                        placeholder="0,00 €"
+                        [placeholder]="0 | importe"
                         inputStyleClass="text-right font-bold text-xl text-green-600"
                         class="w-full"
                         styleClass="w-full"
@@ -330,6 +333,7 @@ interface IngresoProgramadoFormData extends Omit<Partial<IngresoProgramado>, 'fe
 })
 export class IngresoProgramadoFormModalComponent {
     private messageService = inject(MessageService);
+    monedaStore = inject(MonedaStore);
     private conceptoStore = inject(ConceptoStore);
     private categoriaStore = inject(CategoriaStore);
     private clienteStore = inject(ClienteStore);
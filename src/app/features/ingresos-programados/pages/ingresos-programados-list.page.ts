@@ -1,11 +1,11 @@
-import { Component, inject, ChangeDetectionStrategy, ViewChild } from '@angular/core';
+import { Component, inject, ChangeDetectionStrategy, ViewChild, effect, untracked } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { ButtonModule } from 'primeng/button';
 import { InputTextModule } from 'primeng/inputtext';
 import { ToastModule } from 'primeng/toast';
 import { MessageService, ConfirmationService } from 'primeng/api';
-import { Table, TableModule } from 'primeng/table';
+import { Table, TableLazyLoadEvent, TableModule } from 'primeng/table';
 import { ToolbarModule } from 'primeng/toolbar';
 import { InputIconModule } from 'primeng/inputicon';
 import { IconFieldModule } from 'primeng/iconfield';
@@ -13,14 +13,22 @@ import { SkeletonModule } from 'primeng/skeleton';
 import { TagModule } from 'primeng/tag';
 import { IngresosProgramadosStore } from '../stores/ingresos-programados.store';
 import { IngresoProgramado } from '@/core/models/ingreso-programado.model';
-import { BasePageComponent, BasePageTemplateComponent } from '@/shared/components';
+import { BasePageComponent, BasePageTemplateComponent, ColumnChooserComponent, ColumnaTabla, injectTableColumns, injectTableUrlState } from '@/shared/components';
 import { debounceTime, distinctUntilChanged, Subject } from 'rxjs';
 import { IngresoProgramadoFormModalComponent } from '../components/ingreso-programado-form-modal.component';
+import { ImportePipe } from '@/shared/pipes/importe.pipe';
+
+const COLUMNAS_INGRESOS_PROGRAMADOS: ColumnaTabla[] = [
+    { campo: 'importe', cabecera: 'Importe' },
+    { campo: 'frecuencia', cabecera: 'Frecuencia' },
+    { campo: 'fechaEjecucion', cabecera: 'Próxima Ejecución', ancho: 12 },
+    { campo: 'activo', cabecera: 'Estado', ancho: 8 }
+];
 
 @Component({
     selector: 'app-ingresos-programados-list-page',
     standalone: true,
-    imports: [CommonModule, FormsModule, ButtonModule, InputTextModule, ToastModule, TableModule, ToolbarModule, InputIconModule, IconFieldModule, SkeletonModule, TagModule, BasePageTemplateComponent, IngresoProgramadoFormModalComponent],
+    imports: [CommonModule, FormsModule, ButtonModule, InputTextModule, ToastModule, TableModule, ToolbarModule, InputIconModule, IconFieldModule, SkeletonModule, TagModule, BasePageTemplateComponent, IngresoProgramadoFormModalComponent, ColumnChooserComponent, ImportePipe],
     providers: [MessageService, ConfirmationService],
     changeDetection: ChangeDetectionStrategy.OnPush,
     styles: [`
@@ -54,6 +62,7 @@ import { IngresoProgramadoFormModalComponent } from '../components/ingreso-progr
 
                         <ng-template #end>
                             <p-button icon="pi pi-refresh" severity="secondary" outlined (onClick)="refreshTable()" pTooltip="Actualizar" />
+                            <app-column-chooser [estado]="columnas" class="ml-2" />
                         </ng-template>
                     </p-toolbar>
 
@@ -64,12 +73,22 @@ import { IngresoProgramadoFormModalComponent } from '../components/ingreso-progr
                         [lazy]="true"
                         (onLazyLoad)="onLazyLoad($event)"
                         [paginator]="true"
-                        [rows]="pageSize"
+                        [rows]="tableState.state().pageSize"
+                        [first]="tableState.first()"
+                        [sortField]="tableState.state().sortColumn"
+                        [sortOrder]="tableState.sortOrderNumber()"
                         [totalRecords]="ingresosStore.totalRecords()"
                         [showCurrentPageReport]="true"
                         currentPageReportTemplate="Mostrando {first} a {last} de {totalRecords} ingresos programados"
                         [rowsPerPageOptions]="[10, 25, 50]"
-                        [tableStyle]="{ 'min-width': '50rem' }"
+                        [columns]="columnas.visibles()"
+                        [tableStyle]="columnas.tableStyle()"
+                        [size]="columnas.size()"
+                        [reorderableColumns]="true"
+                        [resizableColumns]="true"
+                        columnResizeMode="expand"
+                        (onColReorder)="columnas.onColReorder($event)"
+                        (onColResize)="columnas.onColResize($event)"
                         styleClass="p-datatable-gridlines"
                         [rowHover]="true"
                         dataKey="id"
@@ -79,47 +98,45 @@ import { IngresoProgramadoFormModalComponent } from '../components/ingreso-progr
                                 <h5 class="m-0 font-semibold text-xl">Gestión de Ingresos Programados</h5>
                                 <p-iconfield class="w-full md:w-auto">
                                     <p-inputicon styleClass="pi pi-search" />
-                                    <input pInputText type="text" [(ngModel)]="searchTerm" (input)="onSearchChange($event)" placeholder="Buscar ingresos programados..." class="w-full" />
+                                    <input pInputText type="text" [value]="tableState.state().search" (input)="onSearchChange($event)" placeholder="Buscar ingresos programados..." class="w-full" />
                                 </p-iconfield>
                             </div>
                         </ng-template>
 
-                        <ng-template #header>
+                        <ng-template #header let-columns>
                             <tr>
-                                <th pSortableColumn="importe" style="min-width:10rem; padding: 1rem">
-                                    Importe
-                                    <p-sortIcon field="importe" />
-                                </th>
-                                <th pSortableColumn="frecuencia" style="min-width:10rem">
-                                    Frecuencia
-                                    <p-sortIcon field="frecuencia" />
-                                </th>
-                                <th pSortableColumn="fechaEjecucion" style="min-width:12rem">
-                                    Próxima Ejecución
-                                    <p-sortIcon field="fechaEjecucion" />
-                                </th>
-                                <th pSortableColumn="activo" style="min-width:8rem">
-                                    Estado
-                                    <p-sortIcon field="activo" />
-                                </th>
+                                @for (columna of columns; track columna.campo) {
+                                    <th [pSortableColumn]="columna.campo" [pSortableColumnDisabled]="columna.ordenable === false" pReorderableColumn pResizableColumn [attr.data-campo]="columna.campo" [ngStyle]="columnas.estilo(columna)">
+                                        {{ columna.cabecera }}
+                                        @if (columna.ordenable !== false) {
+                                            <p-sortIcon [field]="columna.campo" />
+                                        }
+                                    </th>
+                                }
                                 <th style="min-width:10rem">Acciones</th>
                             </tr>
                         </ng-template>
 
-                        <ng-template #body let-ingreso>
+                        <ng-template #body let-ingreso let-columns="columns">
                             <tr>
-                                <td style="padding: 1rem">
-                                    <span class="font-bold text-green-600">{{ ingreso.importe | number: '1.2-2' : 'es-ES' }} €</span>
-                                </td>
-                                <td>
-                                    <p-tag [value]="ingreso.frecuencia" [severity]="getFrecuenciaSeverity(ingreso.frecuencia)" />
-                                </td>
-                                <td>
-                                    {{ ingreso.fechaEjecucion | date: 'dd/MM/yyyy HH:mm' }}
-                                </td>
-                                <td>
-                                    <p-tag [value]="ingreso.activo ? 'Activo' : 'Inactivo'" [severity]="ingreso.activo ? 'success' : 'danger'" />
-                                </td>
+                                @for (columna of columns; track columna.campo) {
+                                    <td>
+                                        @switch (columna.campo) {
+                                            @case ('importe') {
+                                                <span class="font-bold text-green-600">{{ ingreso.importe | importe }}</span>
+                                            }
+                                            @case ('frecuencia') {
+                                                <p-tag [value]="ingreso.frecuencia" [severity]="getFrecuenciaSeverity(ingreso.frecuencia)" />
+                                            }
+                                            @case ('fechaEjecucion') {
+                                                {{ ingreso.fechaEjecucion | date: 'dd/MM/yyyy HH:mm' }}
+                                            }
+                                            @case ('activo') {
+                                                <p-tag [value]="ingreso.activo ? 'Activo' : 'Inactivo'" [severity]="ingreso.activo ? 'success' : 'danger'" />
+                                            }
+                                        }
+                                    </td>
+                                }
                                 <td>
                                     <div class="flex gap-2">
                                         <p-button icon="pi pi-pencil" class="mr-2" [rounded]="true" [outlined]="true" (click)="editIngreso(ingreso)" pTooltip="Editar" />
@@ -129,17 +146,15 @@ import { IngresoProgramadoFormModalComponent } from '../components/ingreso-progr
                             </tr>
                         </ng-template>
 
-                        <ng-template #loadingbody>
+                        <ng-template #loadingbody let-columns="columns">
                             <tr>
-                                <td style="padding: 1rem"><p-skeleton width="80%" /></td>
-                                <td><p-skeleton width="70%" /></td>
-                                <td><p-skeleton width="70%" /></td>
-                                <td><p-skeleton width="70%" /></td>
+                                @for (columna of columns; track columna.campo) {
+                                    <td><p-skeleton width="70%" /></td>
+                                }
                                 <td>
                                     <div class="flex gap-2">
                                         <p-skeleton shape="circle" size="2.5rem" />
                                         <p-skeleton shape="circle" size="2.5rem" />
-                                        <p-skeleton shape="circle" size="2.5rem" />
                                     </div>
                                 </td>
                             </tr>
@@ -147,7 +162,7 @@ import { IngresoProgramadoFormModalComponent } from '../components/ingreso-progr
 
                         <ng-template #emptymessage>
                             <tr>
-                                <td colspan="8" style="padding: 2rem">
+                                <td [attr.colspan]="columnas.visibles().length + 1" style="padding: 2rem">
                                     <div class="text-center py-8">
                                         <i class="pi pi-inbox text-500 text-5xl mb-3"></i>
                                         <p class="text-900 font-semibold text-xl mb-2">No hay ingresos programados</p>
@@ -176,11 +191,11 @@ export class IngresosProgramadosListPage extends BasePageComponent {
 
     private searchSubject = new Subject<string>();
 
-    pageSize: number = 10;
-    pageNumber: number = 1;
-    searchTerm: string = '';
-    sortColumn: string = 'fechaEjecucion';
-    sortOrder: string = 'asc';
+    // Paginación, orden y búsqueda sincronizados con la URL
+    tableState = injectTableUrlState('ingresos-programados', { sortColumn: 'fechaEjecucion', sortOrder: 'asc' });
+
+    // Columnas visibles, orden, anchos y densidad de la tabla
+    columnas = injectTableColumns('ingresos-programados', COLUMNAS_INGRESOS_PROGRAMADOS, { anchoFijo: 10 });
 
     // Propiedades del modal
     ingresoDialog: boolean = false;
@@ -189,22 +204,18 @@ export class IngresosProgramadosListPage extends BasePageComponent {
     constructor() {
         super();
         this.searchSubject.pipe(debounceTime(500), distinctUntilChanged()).subscribe((searchValue) => {
-            this.searchTerm = searchValue;
-            this.pageNumber = 1;
-            this.reloadIngresos();
+            this.tableState.setSearch(searchValue);
         });
-    }
 
-    onLazyLoad(event: any) {
-        this.pageNumber = event.first / event.rows + 1;
-        this.pageSize = event.rows;
-
-        if (event.sortField) {
-            this.sortColumn = event.sortField;
-            this.sortOrder = event.sortOrder === 1 ? 'asc' : 'desc';
-        }
+        // Recargar cada vez que cambia el estado de la tabla en la URL (incluye atrás/adelante)
+        effect(() => {
+            this.tableState.state();
+            untracked(() => this.reloadIngresos());
+        });
+    }
 
-        this.reloadIngresos();
+    onLazyLoad(event: TableLazyLoadEvent) {
+        this.tableState.onLazyLoad(event);
     }
 
     onSearchChange(event: Event) {
@@ -213,18 +224,17 @@ export class IngresosProgramadosListPage extends BasePageComponent {
     }
 
     private reloadIngresos() {
+        const { page, pageSize, search, sortColumn, sortOrder } = this.tableState.state();
         this.ingresosStore.loadIngresosProgramadosPaginated({
-            page: this.pageNumber,
-            pageSize: this.pageSize,
-            searchTerm: this.searchTerm || undefined,
-            sortColumn: this.sortColumn || undefined,
-            sortOrder: this.sortOrder || undefined
+            page,
+            pageSize,
+            searchTerm: search || undefined,
+            sortColumn,
+            sortOrder
         });
     }
 
     refreshTable() {
-        this.pageNumber = 1;
-        this.searchTerm = '';
         this.reloadIngresos();
         this.showInfo('Datos actualizados', 'Actualización');
     }
@@ -258,18 +268,7 @@ export class IngresosProgramadosListPage extends BasePageComponent {
     }
 
     deleteIngreso(ingreso: IngresoProgramado) {
-        this.confirmAction(
-            `¿Estás seguro de eliminar este ingreso programado?`,
-            () => {
-                this.ingresosStore.deleteIngreso(ingreso.id);
-                this.showSuccess('Ingreso programado eliminado correctamente');
-            },
-            {
-                header: 'Confirmar eliminación',
-                acceptLabel: 'Sí, eliminar',
-                rejectLabel: 'Cancelar'
-            }
-        );
+        this.ingresosStore.deleteIngreso(ingreso.id);
     }
 
     getFrecuenciaSeverity(frecuencia: string): 'success' | 'info' | 'warn' | 'danger' {
@@ -5,6 +5,7 @@ import { firstValueFrom, pipe, switchMap, tap } from 'rxjs';
 import { tapResponse } from '@ngrx/operators';
 import { IngresoProgramadoService } from '@/core/services/api/ingreso-programado.service';
 import { IngresoProgramado } from '@/core/models/ingreso-programado.model';
+import { UndoStore, edicionConDeshacer, eliminarConDeshacer, paginaSinBorrados } from '@/core/stores/undo.store';
 
 interface IngresosProgramadosState {
     ingresosProgramados: IngresoProgramado[];
@@ -32,7 +33,7 @@ export const IngresosProgramadosStore = signalStore(
         inactivos: computed(() => store.ingresosProgramados().filter(i => !i.activo))
     })),
 
-    withMethods((store, service = inject(IngresoProgramadoService)) => ({
+    withMethods((store, service = inject(IngresoProgramadoService), undoStore = inject(UndoStore)) => ({
         loadIngresosProgramadosPaginated: rxMethod<{
             page: number;
             pageSize: number;
@@ -46,9 +47,10 @@ export const IngresosProgramadosStore = signalStore(
                     service.getIngresosProgramados(page, pageSize, searchTerm, sortColumn, sortOrder).pipe(
                         tapResponse({
                             next: (response) => {
+                                const pagina = paginaSinBorrados(undoStore, response);
                                 patchState(store, {
-                                    ingresosProgramados: response.items,
-                                    totalRecords: response.totalCount,
+                                    ingresosProgramados: pagina.items,
+                                    totalRecords: pagina.totalCount,
                                     loading: false,
                                     error: null
                                 });
@@ -137,6 +139,9 @@ export const IngresosProgramadosStore = signalStore(
 
                 if (response.isSuccess) {
                     patchState(store, { loading: false });
+                    if (ingresoAnterior) {
+                        edicionConDeshacer(undoStore, store, 'ingresosProgramados', ingresoAnterior, { mensaje: 'Ingreso programado actualizado', revertir: (anterior) => service.update(id, anterior) });
+                    }
                     return response.value;
                 }
                 throw new Error(response.error?.message || 'Error al actualizar ingreso programado');
@@ -153,40 +158,12 @@ export const IngresosProgramadosStore = signalStore(
             }
         },
 
-        deleteIngreso: rxMethod<string>(
-            pipe(
-                switchMap((id) => {
-                    const ingresoEliminado = store.ingresosProgramados().find(i => i.id === id);
-                    const totalAnterior = store.totalRecords();
-
-                    patchState(store, {
-                        ingresosProgramados: store.ingresosProgramados().filter(i => i.id !== id),
-                        totalRecords: store.totalRecords() - 1
-                    });
-
-                    return service.delete(id).pipe(
-                        tapResponse({
-                            next: () => {
-                                patchState(store, { error: null });
-                            },
-                            error: (error: any) => {
-                                if (ingresoEliminado) {
-                                    patchState(store, {
-                                        ingresosProgramados: [...store.ingresosProgramados(), ingresoEliminado],
-                                        totalRecords: totalAnterior,
-                                        error: error.message || 'Error al eliminar ingreso programado'
-                                    });
-                                } else {
-                                    patchState(store, {
-                                        error: error.message || 'Error al eliminar ingreso programado'
-                                    });
-                                }
-                            }
-                        })
-                    );
-                })
-            )
-        ),
+        deleteIngreso(id: string): void {
+            eliminarConDeshacer(undoStore, store, 'ingresosProgramados', id, {
+                mensaje: 'Ingreso programado eliminado',
+                eliminar: () => service.delete(id)
+            });
+        },
 
         selectIngreso(ingreso: IngresoProgramado | null) {
             patchState(store, { selectedIngreso: ingreso });
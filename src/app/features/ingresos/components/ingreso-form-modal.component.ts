@@ -19,22 +19,50 @@ import { Concepto } from '@/core/models/concepto.model';
 import { Categoria } from '@/core/models/categoria.model';
 import { FormaPago } from '@/core/models/forma-pago.model';
 import { Cuenta } from '@/core/models/cuenta.model';
+import { DuplicadoVista, PosibleDuplicado } from '@/core/models/duplicado.model';
+import { CatalogRef } from '@/core/models/common.model';
+import { CampoAccionRegla } from '@/core/models/regla.model';
+import { Adjunto, ConAdjuntos } from '@/core/models/adjunto.model';
 
 // Componentes de creación rápida
-import { CategoriaCreateModalComponent, ClienteCreateModalComponent, PersonaCreateModalComponent, CuentaCreateModalComponent, FormaPagoCreateModalComponent } from '@/shared/components';
+import { CategoriaCreateModalComponent, ClienteCreateModalComponent, PersonaCreateModalComponent, CuentaCreateModalComponent, FormaPagoCreateModalComponent, DuplicateWarningComponent, PlantillasChipsComponent, AdjuntosInputComponent } from '@/shared/components';
 import { ConceptoCreateModalComponent } from '@/features/conceptos/components/concepto-create-modal.component';
 
 // Stores
 import { ClienteStore } from '@/features/clientes/store/cliente.store';
 import { FormaPagoStore } from '@/features/formas-pago/store/forma-pago.store';
+import { IngresosStore } from '@/features/ingresos/stores/ingresos.store';
 import { CuentaStore } from '@/features/cuentas/store/cuenta.store';
 import { ConceptoStore } from '@/features/conceptos/store/concepto.store';
 import { CategoriaStore } from '@/features/categorias/store/categoria.store';
 import { PersonaStore } from '@/features/personas/store/persona.store';
+import { ReglaStore } from '@/features/reglas/store/regla.store';
+import { atajoFormulario } from '@/shared/utils/atajos-teclado.util';
+import { PlantillaMovimiento } from '@/core/models/plantilla.model';
+import { MONEDA_POR_DEFECTO } from '@/core/models/moneda.model';
+import { MonedaStore } from '@/core/stores/moneda.store';
+import { ImportePipe } from '@/shared/pipes/importe.pipe';
 
 interface CatalogItem {
     id: string;
     nombre: string;
+    // Solo cuentas
+    moneda?: string;
+}
+
+function toDuplicadoVista(ingreso: Partial<Ingreso>): DuplicadoVista {
+    return {
+        titulo: ingreso.conceptoNombre || '',
+        fecha: ingreso.fecha || '',
+        importe: ingreso.importe || 0,
+        cuenta: ingreso.cuentaNombre || '',
+        descripcion: ingreso.descripcion,
+        detalles: [
+            { label: 'Categoría', value: ingreso.categoriaNombre || '' },
+            { label: 'Cliente', value: ingreso.clienteNombre || '' },
+            { label: 'Forma de pago', value: ingreso.formaPagoNombre || '' }
+        ]
+    };
 }
 
 interface IngresoFormData extends Omit<Partial<Ingreso>, 'fecha'> {
@@ -60,7 +88,11 @@ interface IngresoFormData extends Omit<Partial<Ingreso>, 'fecha'> {
         ClienteCreateModalComponent,
         PersonaCreateModalComponent,
         CuentaCreateModalComponent,
-        FormaPagoCreateModalComponent
+        FormaPagoCreateModalComponent,
+        DuplicateWarningComponent,
+        PlantillasChipsComponent,
+        AdjuntosInputComponent,
+        ImportePipe
     ],
     changeDetection: ChangeDetectionStrategy.OnPush,
     template: `
@@ -71,7 +103,15 @@ interface IngresoFormData extends Omit<Partial<Ingreso>, 'fecha'> {
                 </div>
             </ng-template>
 
-            <div class="grid grid-cols-12 gap-4 p-fluid py-2">
+            @if (duplicados().length > 0 && vistaNuevo()) {
+                <app-duplicate-warning [nuevo]="vistaNuevo()!" [duplicados]="duplicados()" (confirm)="confirmarDuplicado()" (dismiss)="descartarDuplicados()" />
+            }
+
+            @if (!isEditMode() && duplicados().length === 0) {
+                <app-plantillas-chips tipo="ingreso" [soloRellenar]="true" class="block mb-4" (rellenar)="aplicarPlantilla($event)" />
+            }
+
+            <div class="grid grid-cols-12 gap-4 p-fluid py-2" [class.hidden]="duplicados().length > 0" (keydown)="onAtajo($event)">
                 <div class="col-span-12 field">
                     <label for="concepto" class="font-semibold text-gray-700 block mb-2">Concepto *</label>
                     <div class="flex align-items-center gap-2">
@@ -103,13 +143,14 @@ interface IngresoFormData extends Omit<Partial<Ingreso>, 'fecha'> {
                         id="importe"
                         [(ngModel)]="formData.importe"
                         mode="currency"
-                        currency="EUR"
+                        [currency]="moneda()"
                         locale="es-ES"
                         [min]="0"
-                        placeholder="0,00 €"
+                        [placeholder]="0 | importe: moneda()"
                         inputStyleClass="text-right font-bold text-xl text-green-600"
                         class="w-full"
                         styleClass="w-full"
+                        (onBlur)="aplicarReglas()"
                     />
                     @if (submitted() && !formData.importe) {
                         <small class="text-red-500 block mt-1">Requerido.</small>
@@ -241,17 +282,24 @@ interface IngresoFormData extends Omit<Partial<Ingreso>, 'fecha'> {
                     }
                 </div>
 
+                <div class="col-span-12 field mt-3">
+                    <label class="font-semibold text-gray-700 block mb-2">Adjuntos</label>
+                    <app-adjuntos-input [existentes]="adjuntosExistentes" [(nuevos)]="adjuntosNuevos" [(eliminados)]="adjuntosEliminados" />
+                </div>
+
                 <div class="col-span-12 field mt-3">
                     <label for="descripcion" class="font-semibold text-gray-700 block mb-2">Descripción / Notas</label>
-                    <textarea id="descripcion" pTextarea [(ngModel)]="formData.descripcion" rows="3" class="w-full" styleClass="w-full" placeholder="Añadir detalles adicionales..."></textarea>
+                    <textarea id="descripcion" pTextarea [(ngModel)]="formData.descripcion" (blur)="aplicarReglas()" rows="3" class="w-full" styleClass="w-full" placeholder="Añadir detalles adicionales..."></textarea>
                 </div>
             </div>
 
             <ng-template pTemplate="footer">
-                <div class="flex justify-end gap-2 p-3 surface-border border-top-1">
-                    <p-button label="Cancelar" icon="pi pi-times" [text]="true" severity="secondary" (onClick)="onCancel()" />
-                    <p-button label="Guardar Ingreso" icon="pi pi-check" (onClick)="onSave()" />
-                </div>
+                @if (duplicados().length === 0) {
+                    <div class="flex justify-end gap-2 p-3 surface-border border-top-1">
+                        <p-button label="Cancelar" icon="pi pi-times" [text]="true" severity="secondary" (onClick)="onCancel()" />
+                        <p-button label="Guardar Ingreso" icon="pi pi-check" [loading]="checkingDuplicates()" (onClick)="onSave()" />
+                    </div>
+                }
             </ng-template>
         </p-drawer>
 
@@ -289,18 +337,37 @@ export class IngresoFormModalComponent {
     private personaStore = inject(PersonaStore);
     private cuentaStore = inject(CuentaStore);
     private formaPagoStore = inject(FormaPagoStore);
+    private ingresosStore = inject(IngresosStore);
+    private reglaStore = inject(ReglaStore);
+    private monedaStore = inject(MonedaStore);
 
     // Inputs/Outputs
     visible = input<boolean>(false);
     ingreso = input<Partial<Ingreso> | null>(null);
     visibleChange = output<boolean>();
-    save = output<Partial<Ingreso>>();
+    save = output<ConAdjuntos<Partial<Ingreso>>>();
+    // Guardado con Ctrl+Shift+Enter: el panel sigue abierto y la página carga el siguiente movimiento
+    // Solo al crear y si la página lo habilita con [guardarYNuevo]; si no, el atajo guarda sin más
+    guardarYNuevo = input(false);
+    saveAndNew = output<ConAdjuntos<Partial<Ingreso>>>();
     cancel = output<void>();
 
     // Estado del formulario
     formData: IngresoFormData = {};
     submitted = signal(false);
 
+    // Posibles duplicados pendientes de confirmar (solo en creación)
+    duplicados = signal<PosibleDuplicado<DuplicadoVista>[]>([]);
+    vistaNuevo = signal<DuplicadoVista | null>(null);
+    checkingDuplicates = signal(false);
+    private pendingSave: ConAdjuntos<Partial<Ingreso>> | null = null;
+    private pendingNuevo = false;
+
+    // Adjuntos: se suben al guardar, cuando el movimiento ya tiene id
+    adjuntosExistentes: Adjunto[] = [];
+    adjuntosNuevos: File[] = [];
+    adjuntosEliminados: Adjunto[] = [];
+
     // Selectores asíncronos
     selectedConcepto: CatalogItem | null = null;
     selectedCategoria: CatalogItem | null = null;
@@ -343,37 +410,32 @@ export class IngresoFormModalComponent {
     private loadFormData() {
         const ingresoData = this.ingreso();
 
-        if (ingresoData?.id) {
-            // Modo edición
-            this.isEditMode.set(true);
-            this.formData = {
-                ...ingresoData,
-                fecha: ingresoData.fecha ? new Date(ingresoData.fecha) : new Date()
-            };
-
-            this.selectedConcepto = ingresoData.conceptoId && ingresoData.conceptoNombre ? { id: ingresoData.conceptoId, nombre: ingresoData.conceptoNombre } : null;
-            this.selectedCategoria = ingresoData.categoriaId && ingresoData.categoriaNombre ? { id: ingresoData.categoriaId, nombre: ingresoData.categoriaNombre } : null;
-            this.selectedCliente = ingresoData.clienteId && ingresoData.clienteNombre ? { id: ingresoData.clienteId, nombre: ingresoData.clienteNombre } : null;
-            this.selectedPersona = ingresoData.personaId && ingresoData.personaNombre ? { id: ingresoData.personaId, nombre: ingresoData.personaNombre } : null;
-            this.selectedCuenta = ingresoData.cuentaId && ingresoData.cuentaNombre ? { id: ingresoData.cuentaId, nombre: ingresoData.cuentaNombre } : null;
-            this.selectedFormaPago = ingresoData.formaPagoId && ingresoData.formaPagoNombre ? { id: ingresoData.formaPagoId, nombre: ingresoData.formaPagoNombre } : null;
-        } else {
-            // Modo creación
-            this.isEditMode.set(false);
-            this.formData = {
-                fecha: new Date(),
-                descripcion: ''
-            };
-            this.selectedConcepto = null;
-            this.selectedCategoria = null;
-            this.selectedCliente = null;
-            this.selectedPersona = null;
-            this.selectedCuenta = null;
-            this.selectedFormaPago = null;
-        }
+        this.adjuntosExistentes = ingresoData?.id ? (ingresoData.adjuntos ?? []) : [];
+        this.adjuntosNuevos = [];
+        this.adjuntosEliminados = [];
+
+        // Sin id es una creación, que admite valores precargados (p. ej. al liquidar gastos compartidos)
+        this.isEditMode.set(!!ingresoData?.id);
+        this.formData = {
+            descripcion: '',
+            ...ingresoData,
+            fecha: ingresoData?.fecha ? new Date(ingresoData.fecha) : new Date()
+        };
+
+        this.selectedConcepto = ingresoData?.conceptoId && ingresoData.conceptoNombre ? { id: ingresoData.conceptoId, nombre: ingresoData.conceptoNombre } : null;
+        this.selectedCategoria = ingresoData?.categoriaId && ingresoData.categoriaNombre ? { id: ingresoData.categoriaId, nombre: ingresoData.categoriaNombre } : null;
+        this.selectedCliente = ingresoData?.clienteId && ingresoData.clienteNombre ? { id: ingresoData.clienteId, nombre: ingresoData.clienteNombre } : null;
+        this.selectedPersona = ingresoData?.personaId && ingresoData.personaNombre ? { id: ingresoData.personaId, nombre: ingresoData.personaNombre } : null;
+        this.selectedCuenta = ingresoData?.cuentaId && ingresoData.cuentaNombre ? { id: ingresoData.cuentaId, nombre: ingresoData.cuentaNombre, moneda: ingresoData.moneda } : null;
+        this.selectedFormaPago = ingresoData?.formaPagoId && ingresoData.formaPagoNombre ? { id: ingresoData.formaPagoId, nombre: ingresoData.formaPagoNombre } : null;
         this.submitted.set(false);
     }
 
+    // El importe va en la moneda de la cuenta; sin cuenta elegida, en la moneda base
+    moneda(): string {
+        return this.selectedCuenta ? this.selectedCuenta.moneda || MONEDA_POR_DEFECTO : this.monedaStore.monedaBase();
+    }
+
     // --- Métodos de búsqueda (Search) ---
     searchConceptos(event: AutoCompleteCompleteEvent) {
         const query = event.query;
@@ -480,6 +542,8 @@ export class IngresoFormModalComponent {
             this.formData.categoriaNombre = categoriaAsociada.nombre;
             this.messageService.add({ severity: 'info', summary: 'Info', detail: `Categoría ${value.categoriaNombre} asignada` });
         }
+
+        this.aplicarReglas();
     }
 
     onCategoriaSelect(event: any) {
@@ -502,12 +566,64 @@ export class IngresoFormModalComponent {
     onCuentaSelect(event: any) {
         this.formData.cuentaId = event.id;
         this.formData.cuentaNombre = event.nombre;
+        this.aplicarReglas();
     }
     onFormaPagoSelect(event: any) {
         this.formData.formaPagoId = event.id;
         this.formData.formaPagoNombre = event.nombre;
     }
 
+    // --- Reglas de auto-categorización (solo en creación, sin pisar lo ya elegido) ---
+    aplicarReglas() {
+        if (this.isEditMode()) return;
+
+        const resultado = this.reglaStore.evaluar({
+            tipo: 'ingreso',
+            importe: this.formData.importe || 0,
+            descripcion: this.formData.descripcion,
+            conceptoNombre: this.selectedConcepto?.nombre,
+            cuentaId: this.selectedCuenta?.id
+        });
+        const aplicadas = new Set<string>();
+
+        const aplicar = (campo: CampoAccionRegla, vacio: boolean, asignar: (valor: CatalogRef) => void) => {
+            const valor = resultado.acciones[campo];
+            if (!valor || !vacio) return;
+            asignar(valor);
+            aplicadas.add(resultado.origen[campo]!.nombre);
+        };
+
+        aplicar('concepto', !this.selectedConcepto, (v) => {
+            this.selectedConcepto = { ...v };
+            this.formData.conceptoId = v.id;
+            this.formData.conceptoNombre = v.nombre;
+        });
+        aplicar('categoria', !this.selectedCategoria, (v) => {
+            this.selectedCategoria = { ...v };
+            this.formData.categoriaId = v.id;
+            this.formData.categoriaNombre = v.nombre;
+        });
+        aplicar('cliente', !this.selectedCliente, (v) => {
+            this.selectedCliente = { ...v };
+            this.formData.clienteId = v.id;
+            this.formData.clienteNombre = v.nombre;
+        });
+        aplicar('persona', !this.selectedPersona, (v) => {
+            this.selectedPersona = { ...v };
+            this.formData.personaId = v.id;
+            this.formData.personaNombre = v.nombre;
+        });
+        aplicar('formaPago', !this.selectedFormaPago, (v) => {
+            this.selectedFormaPago = { ...v };
+            this.formData.formaPagoId = v.id;
+            this.formData.formaPagoNombre = v.nombre;
+        });
+
+        if (aplicadas.size > 0) {
+            this.messageService.add({ severity: 'info', summary: 'Reglas', detail: `Aplicada: ${[...aplicadas].join(', ')}` });
+        }
+    }
+
     onConceptoClear() {
         this.selectedConcepto = null;
         this.formData.conceptoId = undefined;
@@ -608,7 +724,7 @@ export class IngresoFormModalComponent {
 
     onCuentaCreated(nuevo: Cuenta) {
         this.showCuentaCreateModal = false;
-        const item = { id: nuevo.id, nombre: nuevo.nombre };
+        const item = { id: nuevo.id, nombre: nuevo.nombre, moneda: nuevo.moneda };
         this.selectedCuenta = item;
         this.formData.cuentaId = item.id;
         this.formData.cuentaNombre = item.nombre;
@@ -631,14 +747,14 @@ export class IngresoFormModalComponent {
         return 'Buscar o seleccionar concepto (Todas las categorías)';
     }
 
-    onSave() {
+    async onSave(nuevo = false) {
         this.submitted.set(true);
         if (!this.selectedConcepto || !this.formData.importe || this.formData.importe <= 0 || !this.selectedCuenta || !this.selectedFormaPago || !this.selectedPersona || !this.selectedCliente) {
             this.messageService.add({ severity: 'warn', summary: 'Incompleto', detail: 'Por favor complete todos los campos requeridos.' });
             return;
         }
 
-        const ingresoToSave: Partial<Ingreso> = {
+        const ingresoToSave: ConAdjuntos<Partial<Ingreso>> = {
             ...this.formData,
             conceptoId: this.selectedConcepto.id,
             conceptoNombre: this.selectedConcepto.nombre,
@@ -650,12 +766,85 @@ export class IngresoFormModalComponent {
             personaNombre: this.selectedPersona?.nombre || '',
             cuentaId: this.selectedCuenta.id,
             cuentaNombre: this.selectedCuenta.nombre,
+            moneda: this.moneda(),
             formaPagoId: this.selectedFormaPago.id,
             formaPagoNombre: this.selectedFormaPago.nombre,
             fecha: typeof this.formData.fecha === 'string' ? this.formData.fecha : new Date(this.formData.fecha!).toISOString().split('T')[0]
         };
-        this.save.emit(ingresoToSave);
-        this.closeModal();
+
+        if (this.adjuntosNuevos.length > 0 || this.adjuntosEliminados.length > 0) {
+            ingresoToSave.cambiosAdjuntos = { nuevos: this.adjuntosNuevos, eliminados: this.adjuntosEliminados };
+        }
+
+        if (!this.isEditMode()) {
+            const duplicados = await this.checkDuplicates(ingresoToSave);
+            if (duplicados.length > 0) {
+                this.pendingSave = ingresoToSave;
+                this.pendingNuevo = nuevo;
+                this.vistaNuevo.set(toDuplicadoVista(ingresoToSave));
+                this.duplicados.set(duplicados.map((d) => ({ ...d, movimiento: toDuplicadoVista(d.movimiento) })));
+                return;
+            }
+        }
+
+        this.emitir(ingresoToSave, nuevo);
+    }
+
+    confirmarDuplicado() {
+        if (this.pendingSave) {
+            this.emitir(this.pendingSave, this.pendingNuevo);
+        } else {
+            this.closeModal();
+        }
+    }
+
+    descartarDuplicados() {
+        this.pendingSave = null;
+        this.pendingNuevo = false;
+        this.duplicados.set([]);
+        this.vistaNuevo.set(null);
+    }
+
+    // Si la comprobación falla no se bloquea el guardado
+    private async checkDuplicates(ingreso: Partial<Ingreso>): Promise<PosibleDuplicado<Ingreso>[]> {
+        this.checkingDuplicates.set(true);
+        try {
+            return await this.ingresosStore.findDuplicates({ ...ingreso, cuentaId: ingreso.cuentaId!, importe: ingreso.importe!, fecha: ingreso.fecha! });
+        } catch {
+            return [];
+        } finally {
+            this.checkingDuplicates.set(false);
+        }
+    }
+
+    // Plantilla elegida en el formulario: rellena catálogos e importe y conserva fecha y descripción
+    aplicarPlantilla(plantilla: PlantillaMovimiento) {
+        const item = (id?: string, nombre?: string): CatalogItem | null => (id && nombre ? { id, nombre } : null);
+        this.selectedConcepto = item(plantilla.conceptoId, plantilla.conceptoNombre);
+        this.selectedCategoria = item(plantilla.categoriaId, plantilla.categoriaNombre);
+        this.selectedCliente = item(plantilla.clienteId, plantilla.clienteNombre);
+        this.selectedPersona = item(plantilla.personaId, plantilla.personaNombre);
+        this.selectedCuenta = item(plantilla.cuentaId, plantilla.cuentaNombre);
+        this.selectedFormaPago = item(plantilla.formaPagoId, plantilla.formaPagoNombre);
+        if (plantilla.importe) this.formData.importe = plantilla.importe;
+    }
+
+    onAtajo(event: KeyboardEvent) {
+        const atajo = atajoFormulario(event);
+        if (!atajo || this.checkingDuplicates()) return;
+        event.preventDefault();
+        this.onSave(atajo === 'guardar-y-nuevo' && this.guardarYNuevo() && !this.isEditMode());
+    }
+
+    private emitir(datos: ConAdjuntos<Partial<Ingreso>>, nuevo: boolean) {
+        if (nuevo) {
+            this.saveAndNew.emit(datos);
+            this.submitted.set(false);
+            this.descartarDuplicados();
+        } else {
+            this.save.emit(datos);
+            this.closeModal();
+        }
     }
 
     onCancel() {
@@ -667,5 +856,6 @@ export class IngresoFormModalComponent {
         this.isVisible = false;
         this.visibleChange.emit(false);
         this.submitted.set(false);
+        this.descartarDuplicados();
     }
 }
@@ -0,0 +1,33 @@
+import { Ingreso } from '@/core/models';
+import { ExportColumn, OfxTransaction } from '@/core/models/export.model';
+
+/**
+ * Columnas de exportación de ingresos (CSV/XLSX)
+ */
+export const INGRESO_EXPORT_COLUMNS: ExportColumn<Ingreso>[] = [
+    { header: 'Fecha', type: 'date', value: (i) => i.fecha },
+    { header: 'Concepto', value: (i) => i.conceptoNombre },
+    { header: 'Categoría', value: (i) => i.categoriaNombre },
+    { header: 'Cliente', value: (i) => i.clienteNombre },
+    { header: 'Persona', value: (i) => i.personaNombre },
+    { header: 'Cuenta', value: (i) => i.cuentaNombre },
+    { header: 'Forma de Pago', value: (i) => i.formaPagoNombre },
+    { header: 'Importe', type: 'number', value: (i) => i.importe },
+    { header: 'Descripción', value: (i) => i.descripcion }
+];
+
+/**
+ * Mapeo de ingreso a transacción OFX (abono: importe positivo)
+ */
+export function ingresoToOfx(ingreso: Ingreso): OfxTransaction {
+    return {
+        id: ingreso.id,
+        fecha: ingreso.fecha,
+        importe: Math.abs(ingreso.importe),
+        nombre: ingreso.clienteNombre || ingreso.conceptoNombre,
+        memo: [ingreso.conceptoNombre, ingreso.descripcion].filter(Boolean).join(' - '),
+        cuentaId: ingreso.cuentaId,
+        cuentaNombre: ingreso.cuentaNombre,
+        moneda: ingreso.moneda
+    };
+}
@@ -1,4 +1,4 @@
-import { Component, inject, ChangeDetectionStrategy, signal, computed, effect, ViewChild, OnDestroy } from '@angular/core';
+import { Component, inject, ChangeDetectionStrategy, signal, computed, effect, untracked, ViewChild, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { Subject } from 'rxjs';
@@ -6,21 +6,47 @@ import { debounceTime, distinctUntilChanged } from 'rxjs/operators';
 import { ButtonModule } from 'primeng/button';
 import { InputTextModule } from 'primeng/inputtext';
 import { ToastModule } from 'primeng/toast';
-import { Table, TableModule } from 'primeng/table';
+import { Table, TableLazyLoadEvent, TableModule } from 'primeng/table';
 import { ToolbarModule } from 'primeng/toolbar';
 import { TagModule } from 'primeng/tag';
 import { InputIconModule } from 'primeng/inputicon';
 import { IconFieldModule } from 'primeng/iconfield';
 import { SkeletonModule } from 'primeng/skeleton';
+import { TooltipModule } from 'primeng/tooltip';
+import { OutboxStore } from '@/core/stores/outbox.store';
 import { IngresosStore } from '../stores/ingresos.store';
 import { Ingreso, IngresoCreate } from '@/core/models';
 import { IngresoFormModalComponent } from '../components/ingreso-form-modal.component';
-import { BasePageComponent, BasePageTemplateComponent } from '@/shared/components';
+import { BasePageComponent, BasePageTemplateComponent, ExportMenuComponent, MovimientoFiltrosComponent, GuardarVistaComponent, ColumnChooserComponent, AccionesMasivasComponent, EditorCeldaComponent, PlantillasChipsComponent, GuardarPlantillaComponent, ColumnaTabla, TableInlineEdit, injectAtajo, injectTableColumns, injectTableUrlState } from '@/shared/components';
+import { injectAccionRapida } from '@/core/services/acciones-rapidas.service';
+import { PlantillaMovimiento } from '@/core/models/plantilla.model';
+import { movimientoDesdePlantilla } from '@/shared/utils/plantillas.util';
+import { FiltrosAvanzados } from '@/core/models/movimiento-filters.model';
+import { compactarFiltros, filtrosVacios, toMovimientoFilters } from '@/shared/utils/movimiento-filters.util';
+import { IngresoService } from '@/core/services/api/ingreso.service';
+import { ExportService } from '@/core/services/export.service';
+import { ExportOptions } from '@/core/models/export.model';
+import { CambioMasivo, FalloMasivo, ResultadoMasivo } from '@/core/models/accion-masiva.model';
+import { ConAdjuntos } from '@/core/models/adjunto.model';
+import { INGRESO_EXPORT_COLUMNS, ingresoToOfx } from '../ingresos.export';
+import { ImportePipe } from '@/shared/pipes/importe.pipe';
+
+const COLUMNAS_INGRESOS: ColumnaTabla[] = [
+    { campo: 'fecha', cabecera: 'Fecha', editor: 'fecha' },
+    { campo: 'personaNombre', cabecera: 'Persona', ancho: 12, editor: 'personas' },
+    { campo: 'formaPagoNombre', cabecera: 'Forma de Pago', ancho: 12, editor: 'formasPago' },
+    { campo: 'clienteNombre', cabecera: 'Cliente', ancho: 12, editor: 'clientes' },
+    { campo: 'conceptoNombre', cabecera: 'Concepto', ancho: 14, editor: 'conceptos' },
+    { campo: 'descripcion', cabecera: 'Descripción', ancho: 14, ordenable: false, editor: 'texto' },
+    { campo: 'cuentaNombre', cabecera: 'Cuenta', ancho: 12, editor: 'cuentas' },
+    { campo: 'importe', cabecera: 'Importe', editor: 'importe' },
+    { campo: 'categoriaNombre', cabecera: 'Categoría', editor: 'categorias' }
+];
 
 @Component({
     selector: 'app-ingresos-list-page',
     standalone: true,
-    imports: [CommonModule, FormsModule, ButtonModule, InputTextModule, ToastModule, TableModule, ToolbarModule, TagModule, InputIconModule, IconFieldModule, SkeletonModule, IngresoFormModalComponent, BasePageTemplateComponent],
+    imports: [CommonModule, FormsModule, ButtonModule, InputTextModule, ToastModule, TableModule, ToolbarModule, TagModule, InputIconModule, IconFieldModule, SkeletonModule, TooltipModule, IngresoFormModalComponent, BasePageTemplateComponent, ExportMenuComponent, MovimientoFiltrosComponent, GuardarVistaComponent, ColumnChooserComponent, AccionesMasivasComponent, EditorCeldaComponent, PlantillasChipsComponent, GuardarPlantillaComponent, ImportePipe],
     changeDetection: ChangeDetectionStrategy.OnPush,
     styles: [`
         /* Toolbar responsive en móvil */
@@ -52,117 +78,163 @@ import { BasePageComponent, BasePageTemplateComponent } from '@/shared/component
 
                         <ng-template #end>
                             <p-button icon="pi pi-refresh" severity="secondary" outlined (onClick)="refreshTable()" pTooltip="Actualizar" class="mr-2" />
-                            <p-button label="Exportar" icon="pi pi-upload" severity="secondary" (onClick)="exportCSV()" />
+                            <app-column-chooser [estado]="columnas" class="mr-2" />
+                            <app-export-menu [loading]="exporting()" (export)="exportIngresos($event)" />
                         </ng-template>
                     </p-toolbar>
 
+                    <app-plantillas-chips tipo="ingreso" class="block mb-4" (crear)="crearDesdePlantilla($event)" (rellenar)="abrirConPlantilla($event)" />
+
+                    <app-acciones-masivas
+                        [seleccion]="selectedIngresos()"
+                        etiqueta="ingresos"
+                        [progreso]="ingresosStore.progresoMasivo()"
+                        [(informe)]="informeMasivo"
+                        (cambiar)="cambiarSeleccion($event)"
+                        (eliminar)="deleteSelectedIngresos()"
+                        (exportar)="exportarSeleccion($event)"
+                        (limpiar)="selectedIngresos.set([])"
+                    />
+
                     <p-table
                         #dt
                         [value]="ingresosStore.ingresos()"
                         [lazy]="true"
                         (onLazyLoad)="loadIngresosLazy($event)"
-                        [rows]="pageSize()"
+                        [rows]="tableState.state().pageSize"
+                        [first]="tableState.first()"
                         [totalRecords]="totalRecords()"
                         [paginator]="true"
                         [loading]="ingresosStore.loading()"
                         [loadingIcon]="'none'"
                         [globalFilterFields]="['conceptoNombre', 'categoriaNombre', 'proveedorNombre', 'descripcion']"
-                        [tableStyle]="{ 'min-width': '75rem' }"
+                        [columns]="columnas.visibles()"
+                        [tableStyle]="columnas.tableStyle()"
+                        [size]="columnas.size()"
+                        [reorderableColumns]="true"
+                        [resizableColumns]="true"
+                        columnResizeMode="expand"
+                        (onColReorder)="columnas.onColReorder($event)"
+                        (onColResize)="columnas.onColResize($event)"
+                        (onEditInit)="edicion.onEditInit($event)"
+                        (onEditComplete)="edicion.onEditComplete($event)"
+                        (onEditCancel)="edicion.onEditCancel()"
                         styleClass="p-datatable-gridlines p-datatable-loading-icon-none"
                         [selection]="selectedIngresos()"
+                        [rowSelectable]="filaModificable"
                         (selectionChange)="selectedIngresos.set($event)"
                         [rowHover]="true"
                         dataKey="id"
                         currentPageReportTemplate="Mostrando {first} a {last} de {totalRecords} ingresos"
                         [showCurrentPageReport]="true"
                         [rowsPerPageOptions]="[10, 20, 30]"
-                        sortField="fecha"
-                        [sortOrder]="-1"
+                        [sortField]="tableState.state().sortColumn"
+                        [sortOrder]="tableState.sortOrderNumber()"
                     >
                         <ng-template #caption>
                             <div class="flex flex-col md:flex-row items-center justify-between gap-3 py-3 px-4">
                                 <h5 class="m-0 font-semibold text-xl">Gestión de Ingresos</h5>
                                 <p-iconfield class="w-full md:w-auto">
                                     <p-inputicon styleClass="pi pi-search" />
-                                    <input pInputText type="text" (input)="onGlobalFilter(dt, $event)" placeholder="Buscar..." class="w-full" />
+                                    <input pInputText type="text" [value]="tableState.state().search" (input)="onGlobalFilter(dt, $event)" placeholder="Buscar..." class="w-full" />
                                 </p-iconfield>
                             </div>
+                            <div class="flex flex-col md:flex-row md:items-start justify-between gap-3 px-4 pb-3">
+                                <app-movimiento-filtros tipo="ingreso" [filtros]="filtros()" (filtrosChange)="onFiltrosChange($event)" [(abierto)]="filtrosAbiertos" class="flex-1" />
+                                <app-guardar-vista pagina="ingresos" [estado]="tableState.state()" [columnas]="columnas" />
+                                @if (ingresosStore.totalFiltrado() !== null) {
+                                    <span class="text-sm text-600 whitespace-nowrap">
+                                        {{ totalRecords() }} ingresos · Total: <span class="font-bold">{{ ingresosStore.totalFiltrado() | importe }}</span>
+                                    </span>
+                                }
+                            </div>
                         </ng-template>
 
-                        <ng-template #header>
+                        <ng-template #header let-columns>
                             <tr>
-                                <th pSortableColumn="fecha" style="min-width:10rem; padding: 1rem">
-                                    Fecha
-                                    <p-sortIcon field="fecha" />
-                                </th>
-                                <th pSortableColumn="personaNombre" style="min-width:12rem">
-                                    Persona
-                                    <p-sortIcon field="personaNombre" />
-                                </th>
-                                <th pSortableColumn="formaPagoNombre" style="min-width:12rem">
-                                    Forma de Pago
-                                    <p-sortIcon field="formaPagoNombre" />
-                                </th>
-                                <th pSortableColumn="clienteNombre" style="min-width:12rem">
-                                    Cliente
-                                    <p-sortIcon field="clienteNombre" />
-                                </th>
-                                <th pSortableColumn="conceptoNombre" style="min-width:14rem">
-                                    Concepto
-                                    <p-sortIcon field="conceptoNombre" />
-                                </th>
-                                <th pSortableColumn="cuentaNombre" style="min-width:12rem">
-                                    Cuenta
-                                    <p-sortIcon field="cuentaNombre" />
-                                </th>
-                                <th pSortableColumn="importe" style="min-width:10rem">
-                                    Importe
-                                    <p-sortIcon field="importe" />
-                                </th>
+                                <th style="width: 3rem"><p-tableHeaderCheckbox /></th>
+                                @for (columna of columns; track columna.campo) {
+                                    <th [pSortableColumn]="columna.campo" [pSortableColumnDisabled]="columna.ordenable === false" pReorderableColumn pResizableColumn [attr.data-campo]="columna.campo" [ngStyle]="columnas.estilo(columna)">
+                                        {{ columna.cabecera }}
+                                        @if (columna.ordenable !== false) {
+                                            <p-sortIcon [field]="columna.campo" />
+                                        }
+                                    </th>
+                                }
                                 <th style="min-width:10rem">Acciones</th>
                             </tr>
                         </ng-template>
 
-                        <ng-template #body let-ingreso>
+                        <ng-template #body let-ingreso let-columns="columns">
                             <tr>
-                                <td style="padding: 1rem">{{ ingreso.fecha | date: 'dd/MM/yyyy' }}</td>
-                                <td>{{ ingreso.personaNombre || '-' }}</td>
-                                <td>{{ ingreso.formaPagoNombre || '-' }}</td>
-                                <td>{{ ingreso.clienteNombre || '-' }}</td>
-                                <td style="padding: 1rem">
-                                    <div class="flex flex-col">
-                                        <span class="font-semibold">{{ ingreso.conceptoNombre }}</span>
-                                        @if (ingreso.descripcion) {
-                                            <small class="text-500">{{ ingreso.descripcion }}</small>
-                                        }
-                                    </div>
-                                </td>
-                                <td>{{ ingreso.cuentaNombre || '-' }}</td>
-                                <td>
-                                    <span class="font-bold text-green-500">{{ ingreso.importe | number: '1.2-2' : 'es-ES' }} €</span>
-                                </td>
+                                <td><p-tableCheckbox [value]="ingreso" [disabled]="!!ingreso.conciliado" /></td>
+                                @for (columna of columns; track columna.campo) {
+                                    <td [pEditableColumn]="ingreso" [pEditableColumnField]="columna.campo" [pEditableColumnDisabled]="!!ingreso.conciliado" [attr.data-celda]="ingreso.id + ':' + columna.campo">
+                                        <p-cellEditor>
+                                            <ng-template #input>
+                                                <app-editor-celda [editor]="columna.editor" [moneda]="ingreso.moneda" [(valor)]="edicion.valor" />
+                                            </ng-template>
+                                            <ng-template #output>
+                                                @switch (columna.campo) {
+                                                    @case ('fecha') {
+                                                        {{ ingreso.fecha | date: 'dd/MM/yyyy' }}
+                                                    }
+                                                    @case ('personaNombre') {
+                                                        {{ ingreso.personaNombre || '-' }}
+                                                    }
+                                                    @case ('formaPagoNombre') {
+                                                        {{ ingreso.formaPagoNombre || '-' }}
+                                                    }
+                                                    @case ('clienteNombre') {
+                                                        {{ ingreso.clienteNombre || '-' }}
+                                                    }
+                                                    @case ('conceptoNombre') {
+                                                        <div class="flex flex-col">
+                                                            <span class="font-semibold">
+                                                                {{ ingreso.conceptoNombre }}
+                                                                @if (outboxStore.esPendiente(ingreso.id)) {
+                                                                    <p-tag severity="warn" value="Pendiente" icon="pi pi-clock" class="ml-2" />
+                                                                }
+                                                                @if (ingreso.conciliado) {
+                                                                    <p-tag severity="secondary" value="Conciliado" icon="pi pi-lock" class="ml-2" pTooltip="Conciliado con el banco: no se puede editar ni eliminar desde aquí" />
+                                                                }
+                                                            </span>
+                                                            @if (ingreso.descripcion && !columnas.esVisible('descripcion')) {
+                                                                <small class="text-500">{{ ingreso.descripcion }}</small>
+                                                            }
+                                                        </div>
+                                                    }
+                                                    @case ('cuentaNombre') {
+                                                        {{ ingreso.cuentaNombre || '-' }}
+                                                    }
+                                                    @case ('categoriaNombre') {
+                                                        {{ ingreso.categoriaNombre || '-' }}
+                                                    }
+                                                    @case ('descripcion') {
+                                                        {{ ingreso.descripcion || '-' }}
+                                                    }
+                                                    @case ('importe') {
+                                                        <span class="font-bold text-green-500">{{ ingreso.importe | importe: ingreso.moneda }}</span>
+                                                    }
+                                                }
+                                            </ng-template>
+                                        </p-cellEditor>
+                                    </td>
+                                }
                                 <td>
-                                    <p-button icon="pi pi-pencil" class="mr-2" [rounded]="true" [outlined]="true" (click)="editIngreso(ingreso)" />
-                                    <p-button icon="pi pi-trash" severity="danger" [rounded]="true" [outlined]="true" (click)="deleteIngreso(ingreso)" />
+                                    <p-button icon="pi pi-pencil" class="mr-2" [rounded]="true" [outlined]="true" [disabled]="!!ingreso.conciliado" (click)="editIngreso(ingreso)" />
+                                    <p-button icon="pi pi-bookmark" class="mr-2" [rounded]="true" [outlined]="true" severity="secondary" pTooltip="Guardar como plantilla" (click)="plantillaDe.set(ingreso)" />
+                                    <p-button icon="pi pi-trash" severity="danger" [rounded]="true" [outlined]="true" [disabled]="!!ingreso.conciliado" (click)="deleteIngreso(ingreso)" />
                                 </td>
                             </tr>
                         </ng-template>
 
-                        <ng-template #loadingbody>
+                        <ng-template #loadingbody let-columns="columns">
                             <tr>
-                                <td style="padding: 1rem"><p-skeleton /></td>
-                                <td style="padding: 1rem"><p-skeleton width="6rem" /></td>
-                                <td><p-skeleton width="70%" /></td>
-                                <td><p-skeleton width="70%" /></td>
-                                <td><p-skeleton width="70%" /></td>
-                                <td style="padding: 1rem">
-                                    <div class="flex flex-col gap-2">
-                                        <p-skeleton width="80%" />
-                                        <p-skeleton width="60%" height=".8rem" />
-                                    </div>
-                                </td>
-                                <td><p-skeleton width="70%" /></td>
-                                <td><p-skeleton width="5rem" /></td>
+                                <td><p-skeleton size="1.25rem" /></td>
+                                @for (columna of columns; track columna.campo) {
+                                    <td><p-skeleton width="70%" /></td>
+                                }
                                 <td>
                                     <div class="flex gap-2">
                                         <p-skeleton shape="circle" size="2.5rem" />
@@ -174,7 +246,7 @@ import { BasePageComponent, BasePageTemplateComponent } from '@/shared/component
 
                         <ng-template #emptymessage>
                             <tr>
-                                <td colspan="10" style="padding: 2rem">
+                                <td [attr.colspan]="columnas.visibles().length + 2" style="padding: 2rem">
                                     <div class="text-center py-8">
                                         <i class="pi pi-inbox text-500 text-5xl mb-3"></i>
                                         <p class="text-900 font-semibold text-xl mb-2">No hay ingresos</p>
@@ -187,7 +259,8 @@ import { BasePageComponent, BasePageTemplateComponent } from '@/shared/component
                     </p-table>
 
                     <!-- Nuevo componente de formulario modal con autocomplete -->
-                    <app-ingreso-form-modal [visible]="ingresoDialog()" [ingreso]="currentIngreso()" (visibleChange)="ingresoDialog.set($event)" (save)="onSaveIngreso($event)" (cancel)="hideDialog()" />
+                    <app-ingreso-form-modal [visible]="ingresoDialog()" [ingreso]="currentIngreso()" (visibleChange)="ingresoDialog.set($event)" [guardarYNuevo]="true" (save)="onSaveIngreso($event)" (saveAndNew)="onSaveAndNewIngreso($event)" (cancel)="hideDialog()" />
+                    <app-guardar-plantilla tipo="ingreso" [(movimiento)]="plantillaDe" />
                 </div>
             </div>
         </app-base-page-template>
@@ -195,6 +268,9 @@ import { BasePageComponent, BasePageTemplateComponent } from '@/shared/component
 })
 export class IngresosListPage extends BasePageComponent implements OnDestroy {
     ingresosStore = inject(IngresosStore);
+    outboxStore = inject(OutboxStore);
+    private ingresoService = inject(IngresoService);
+    private exportService = inject(ExportService);
 
     protected override loadingSignal = this.ingresosStore.loading;
     protected override skeletonType = 'table' as const;
@@ -204,12 +280,33 @@ export class IngresosListPage extends BasePageComponent implements OnDestroy {
     ingresoDialog = signal<boolean>(false);
     selectedIngresos = signal<Ingreso[]>([]);
     currentIngreso = signal<Partial<Ingreso>>({});
+    exporting = signal<boolean>(false);
+
+    // Ingreso que se está guardando como plantilla
+    plantillaDe = signal<Partial<Ingreso> | null>(null);
+
+    // Filas que han fallado en la última acción masiva
+    informeMasivo = signal<FalloMasivo[]>([]);
+
+    // Paginación, orden, búsqueda y filtros sincronizados con la URL
+    tableState = injectTableUrlState<Partial<FiltrosAvanzados>>('ingresos', { sortColumn: 'fecha', sortOrder: 'desc' });
+
+    // Columnas visibles, orden, anchos y densidad de la tabla
+    columnas = injectTableColumns('ingresos', COLUMNAS_INGRESOS, { ocultas: ['descripcion', 'categoriaNombre'], anchoFijo: 16 });
+
+    // "Nuevo" pedido desde la paleta de comandos (Ctrl+K)
+    private accionNuevo = injectAccionRapida('nuevo-ingreso', () => this.openNew());
+    private atajoNuevo = injectAtajo('n', () => this.openNew());
+
+    // Edición en línea de las celdas con la misma actualización optimista que el formulario
+    edicion = new TableInlineEdit<Ingreso>(COLUMNAS_INGRESOS, (ingreso, cambios) => this.guardarCelda(ingreso, cambios));
+
+    // Los ingresos conciliados quedan bloqueados en el listado
+    filaModificable = ({ data }: { data: Ingreso }) => !data.conciliado;
 
-    pageSize = signal<number>(10);
-    pageNumber = signal<number>(1);
-    searchTerm = signal<string>('');
-    sortColumn = signal<string>('fecha');
-    sortOrder = signal<string>('desc');
+    // Filtros avanzados del panel plegable
+    filtros = computed<FiltrosAvanzados>(() => ({ ...filtrosVacios(), ...this.tableState.state().filtros }));
+    filtrosAbiertos = signal<boolean>(false);
 
     // Computed signal para totalRecords
     totalRecords = computed(() => this.ingresosStore.totalRecords());
@@ -221,9 +318,13 @@ export class IngresosListPage extends BasePageComponent implements OnDestroy {
         super();
         // Configurar búsqueda con debounce de 500ms
         this.searchSubject.pipe(debounceTime(500), distinctUntilChanged()).subscribe((searchValue) => {
-            this.searchTerm.set(searchValue);
-            this.pageNumber.set(1); // Resetear a primera página en búsqueda
-            this.reloadIngresos();
+            this.tableState.setSearch(searchValue);
+        });
+
+        // Recargar cada vez que cambia el estado de la tabla en la URL (incluye atrás/adelante)
+        effect(() => {
+            this.tableState.state();
+            untracked(() => this.reloadIngresos());
         });
 
         // Effect para detectar sincronización automática
@@ -242,12 +343,14 @@ export class IngresosListPage extends BasePageComponent implements OnDestroy {
      * Recargar ingresos con los filtros actuales
      */
     private reloadIngresos() {
+        const { page, pageSize, search, sortColumn, sortOrder } = this.tableState.state();
         this.ingresosStore.loadIngresosPaginated({
-            page: this.pageNumber(),
-            pageSize: this.pageSize(),
-            searchTerm: this.searchTerm() || undefined,
-            sortColumn: this.sortColumn() || undefined,
-            sortOrder: this.sortOrder() || undefined
+            page,
+            pageSize,
+            searchTerm: search || undefined,
+            sortColumn: sortColumn || undefined,
+            sortOrder: sortOrder || undefined,
+            filters: toMovimientoFilters(this.filtros())
         });
     }
 
@@ -259,20 +362,12 @@ export class IngresosListPage extends BasePageComponent implements OnDestroy {
         this.showInfo('Datos actualizados', 'Actualización');
     }
 
-    loadIngresosLazy(event: any) {
-        // Calcular página actual (PrimeNG usa first que es el índice del primer registro)
-        this.pageNumber.set(Math.floor(event.first / event.rows) + 1);
-        this.pageSize.set(event.rows);
-
-        // Capturar ordenamiento si existe
-        if (event.sortField) {
-            this.sortColumn.set(event.sortField);
-            // event.sortOrder: 1 = ASC, -1 = DESC
-            this.sortOrder.set(event.sortOrder === 1 ? 'asc' : 'desc');
-        }
+    onFiltrosChange(filtros: FiltrosAvanzados) {
+        this.tableState.setFiltros(compactarFiltros(filtros));
+    }
 
-        // Cargar ingresos
-        this.reloadIngresos();
+    loadIngresosLazy(event: TableLazyLoadEvent) {
+        this.tableState.onLazyLoad(event);
     }
 
     onGlobalFilter(table: Table, event: Event) {
@@ -282,6 +377,31 @@ export class IngresosListPage extends BasePageComponent implements OnDestroy {
         this.searchSubject.next(searchValue);
     }
 
+    // Plantilla con importe: el ingreso se crea al momento con fecha de hoy
+    crearDesdePlantilla(plantilla: PlantillaMovimiento) {
+        this.crearSinFormulario(movimientoDesdePlantilla(plantilla));
+    }
+
+    /**
+     * Alta en un clic (plantilla) con la misma detección de duplicados que el formulario
+     * Si se parece a un ingreso existente no se crea: se abre en el formulario, que muestra los posibles duplicados al guardar
+     */
+    async crearSinFormulario(ingreso: Partial<Ingreso>): Promise<void> {
+        const duplicados = await this.ingresosStore.findDuplicates({ ...ingreso, cuentaId: ingreso.cuentaId!, importe: ingreso.importe!, fecha: ingreso.fecha! }).catch(() => []);
+        if (duplicados.length > 0) {
+            this.showWarning('Se parece a un ingreso que ya existe: revísalo antes de guardarlo', 'Posible duplicado');
+            this.currentIngreso.set(ingreso);
+            this.ingresoDialog.set(true);
+            return;
+        }
+        await this.onSaveIngreso(ingreso);
+    }
+
+    abrirConPlantilla(plantilla: PlantillaMovimiento) {
+        this.currentIngreso.set(movimientoDesdePlantilla(plantilla));
+        this.ingresoDialog.set(true);
+    }
+
     openNew() {
         this.currentIngreso.set({});
         this.ingresoDialog.set(true);
@@ -292,17 +412,21 @@ export class IngresosListPage extends BasePageComponent implements OnDestroy {
         this.currentIngreso.set({});
     }
 
-    async onSaveIngreso(ingreso: Partial<Ingreso>) {
+    // Devuelve si se ha guardado, para que "Guardar y nuevo" no descarte lo escrito si falla
+    async onSaveIngreso({ cambiosAdjuntos, ...ingreso }: ConAdjuntos<Partial<Ingreso>>): Promise<boolean> {
         if (ingreso.id) {
             // Actualizar ingreso existente
             try {
                 await this.ingresosStore.updateIngreso({ id: ingreso.id, ingreso });
+                if (cambiosAdjuntos) await this.ingresosStore.syncAdjuntos(ingreso.id, cambiosAdjuntos);
                 this.showSuccess('Ingreso actualizado correctamente');
                 this.ingresoDialog.set(false);
                 this.currentIngreso.set({});
                 // No reloadIngresos() - optimistic update already syncs UI
+                return true;
             } catch (error: any) {
-                this.showError(error.userMessage || 'Error al actualizar el ingreso');
+                this.showError(error.userMessage || error.message || 'Error al actualizar el ingreso');
+                return false;
             }
         } else {
             var ingresoCreate: IngresoCreate = {
@@ -326,13 +450,36 @@ export class IngresosListPage extends BasePageComponent implements OnDestroy {
                 personaNombre: ingreso.personaNombre
             };
 
-            this.ingresosStore.createIngreso(ingresoCreate, displayData).then(() => {
-                this.showSuccess('Ingreso creado correctamente');
-            });
-            
+            let id: string;
+            try {
+                id = await this.ingresosStore.createIngreso(ingresoCreate, displayData);
+            } catch (error: any) {
+                this.showError(error.userMessage || error.message || 'Error al crear el ingreso');
+                return false;
+            }
+
             this.ingresoDialog.set(false);
             this.currentIngreso.set({});
+            this.showSuccess('Ingreso creado correctamente');
+            // El ingreso ya existe: un fallo con los adjuntos no lo deshace
+            if (cambiosAdjuntos) {
+                await this.ingresosStore.syncAdjuntos(id, cambiosAdjuntos).catch((error: any) => this.showError(error.userMessage || error.message || 'Error al guardar los adjuntos'));
+            }
+            return true;
+        }
+    }
+
+    // Ctrl+Shift+Enter en el formulario: se guarda y se empieza otro con la misma cuenta, forma de pago y persona
+    // Si no se ha podido guardar, el formulario vuelve con lo que se había escrito
+    async onSaveAndNewIngreso(datos: ConAdjuntos<Partial<Ingreso>>) {
+        const { cambiosAdjuntos, ...ingreso } = datos;
+        if (await this.onSaveIngreso(datos)) {
+            const { cuentaId, cuentaNombre, moneda, formaPagoId, formaPagoNombre, personaId, personaNombre } = ingreso;
+            this.currentIngreso.set({ cuentaId, cuentaNombre, moneda, formaPagoId, formaPagoNombre, personaId, personaNombre });
+        } else {
+            this.currentIngreso.set(ingreso);
         }
+        this.ingresoDialog.set(true);
     }
 
     editIngreso(ingreso: Ingreso) {
@@ -340,72 +487,88 @@ export class IngresosListPage extends BasePageComponent implements OnDestroy {
         this.ingresoDialog.set(true);
     }
 
+    private async guardarCelda(ingreso: Ingreso, cambios: Partial<Ingreso>) {
+        try {
+            await this.ingresosStore.updateIngreso({ id: ingreso.id, ingreso: { ...ingreso, ...cambios } });
+        } catch (error: any) {
+            this.showError(error.userMessage || error.message || 'Error al actualizar el ingreso');
+        }
+    }
+
     deleteIngreso(ingreso: Ingreso) {
-        this.confirmAction(
-            `¿Estás seguro de eliminar el gasto "${ingreso.conceptoNombre}"?`,
-            () => {
-                this.ingresosStore.deleteIngreso(ingreso.id);
-            },
-            {
-                header: 'Confirmar eliminación',
-                acceptLabel: 'Sí, eliminar',
-                rejectLabel: 'Cancelar',
-                successMessage: 'Ingreso eliminado correctamente'
-            }
-        );
+        this.ingresosStore.deleteIngreso(ingreso.id);
     }
 
-    deleteSelectedIngresos() {
-        this.confirmAction(
-            '¿Estás seguro de eliminar los ingresos seleccionados?',
-            async () => {
-                try {
-                    const deletePromises = this.selectedIngresos().map((ingreso) => this.ingresosStore.deleteIngreso(ingreso.id));
-
-                    await Promise.all(deletePromises);
-                    this.showSuccess('Ingresos eliminados correctamente');
-                    this.selectedIngresos.set([]);
-                    // No reloadIngresos() - optimistic updates already sync UI
-                } catch (error: any) {
-                    this.showError(error.userMessage || 'Error al eliminar algunos ingresos');
-                }
-            },
-            {
-                header: 'Confirmar',
-                acceptLabel: 'Sí, eliminar',
-                rejectLabel: 'Cancelar'
-            }
-        );
+    /**
+     * Las filas salen de la tabla al momento y se pueden recuperar desde el aviso para deshacer
+     * Las que no se han podido borrar vuelven seleccionadas y se muestran en el informe
+     */
+    async deleteSelectedIngresos() {
+        const seleccion = this.selectedIngresos();
+        this.selectedIngresos.set([]);
+
+        const { fallidos } = await this.ingresosStore.deleteIngresos(seleccion.map((i) => i.id));
+        if (fallidos.length === 0) return;
+
+        const fallidosIds = new Set(fallidos.map((f) => f.id));
+        this.selectedIngresos.set(seleccion.filter((i) => fallidosIds.has(i.id)));
+        this.informeMasivo.set(fallidos);
     }
 
-    exportCSV() {
-        // En lazy mode, exportar los datos actuales del store
-        const ingresos = this.ingresosStore.ingresos();
-        if (!ingresos || ingresos.length === 0) {
-            this.showWarning('No hay datos para exportar');
-            return;
-        }
+    async cambiarSeleccion(cambio: CambioMasivo) {
+        this.procesarResultado(await this.ingresosStore.updateIngresos(this.selectedIngresos(), cambio), 'actualizados');
+    }
 
-        // Crear CSV manualmente con BOM para UTF-8
-        const headers = ['Concepto', 'Categoría', 'Proveedor', 'Fecha', 'Importe', 'Descripción'];
-        const csvData = ingresos.map((g) => [g.conceptoNombre, g.categoriaNombre || '', g.clienteNombre || '', g.fecha, g.importe, g.descripcion || '']);
+    /**
+     * Los correctos salen de la selección; los fallidos se quedan seleccionados y se muestran en el informe
+     */
+    private procesarResultado({ correctos, fallidos }: ResultadoMasivo, accion: string) {
+        const fallidosIds = new Set(fallidos.map((f) => f.id));
+        this.selectedIngresos.update((seleccion) => seleccion.filter((i) => fallidosIds.has(i.id)));
+        this.informeMasivo.set(fallidos);
 
-        // Agregar BOM (Byte Order Mark) para UTF-8
-        let csv = '\uFEFF';
-        csv += headers.join(',') + '\n';
-        csvData.forEach((row) => {
-            csv += row.map((field) => `"${field}"`).join(',') + '\n';
-        });
+        if (correctos.length > 0) {
+            this.showSuccess(`${correctos.length} ingresos ${accion}`);
+        }
+    }
+
+    exportarSeleccion(options: ExportOptions) {
+        try {
+            this.exportService.exportRows(this.selectedIngresos(), INGRESO_EXPORT_COLUMNS, 'ingresos', options, ingresoToOfx);
+            this.showSuccess(`${this.selectedIngresos().length} ingresos exportados`);
+        } catch (error: any) {
+            this.showError(error.message || 'Error al exportar ingresos');
+        }
+    }
 
-        const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
-        const link = document.createElement('a');
-        const url = URL.createObjectURL(blob);
-        link.setAttribute('href', url);
-        link.setAttribute('download', `ingresos_${new Date().toISOString().split('T')[0]}.csv`);
-        link.style.visibility = 'hidden';
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
+    /**
+     * Exportar todos los ingresos que cumplen la búsqueda, orden y filtros activos
+     */
+    async exportIngresos(options: ExportOptions) {
+        const { search, sortColumn, sortOrder } = this.tableState.state();
+        const searchTerm = search || undefined;
+        const filters = toMovimientoFilters(this.filtros());
+
+        this.exporting.set(true);
+        try {
+            const total = await this.exportService.exportAll(
+                (page, pageSize) => this.ingresoService.getIngresos(page, pageSize, searchTerm, sortColumn, sortOrder, filters),
+                INGRESO_EXPORT_COLUMNS,
+                'ingresos',
+                options,
+                ingresoToOfx
+            );
+
+            if (total === 0) {
+                this.showWarning('No hay datos para exportar');
+            } else {
+                this.showSuccess(`${total} ingresos exportados`);
+            }
+        } catch (error: any) {
+            this.showError(error.userMessage || error.message || 'Error al exportar ingresos');
+        } finally {
+            this.exporting.set(false);
+        }
     }
 
     getCategorySeverity(categoria: string): 'success' | 'secondary' | 'info' | 'warn' | 'danger' | 'contrast' | undefined {
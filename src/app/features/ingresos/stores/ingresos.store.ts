@@ -1,17 +1,27 @@
-import { computed, inject } from '@angular/core';
+import { computed, effect, inject, untracked } from '@angular/core';
 import { patchState, signalStore, withComputed, withHooks, withMethods, withState } from '@ngrx/signals';
 import { rxMethod } from '@ngrx/signals/rxjs-interop';
 import { pipe, switchMap, tap, debounceTime, firstValueFrom } from 'rxjs';
 import { tapResponse } from '@ngrx/operators';
 import { IngresoService } from '@/core/services/api/ingreso.service';
 import { Ingreso, IngresoCreate } from '@/core/models';
-import { ErrorResponse } from '@/core/models/error-response.model';
+import { MovimientoFilters } from '@/core/models/movimiento-filters.model';
+import { DuplicateDetectionOptions, PosibleDuplicado } from '@/core/models/duplicado.model';
+import { DuplicateDetectionService } from '@/core/services/duplicate-detection.service';
+import { AdjuntoService } from '@/core/services/api/adjunto.service';
+import { Adjunto, CambiosAdjuntos } from '@/core/models/adjunto.model';
+import { reducirImagen } from '@/shared/utils/adjuntos.util';
 import { ConceptoStore } from '@/features/conceptos/store/concepto.store';
 import { CategoriaStore } from '@/features/categorias/store/categoria.store';
 import { ClienteStore } from '@/features/clientes/store/cliente.store';
 import { PersonaStore } from '@/features/personas/store/persona.store';
 import { CuentaStore } from '@/features/cuentas/store/cuenta.store';
 import { FormaPagoStore } from '@/features/formas-pago/store/forma-pago.store';
+import { OutboxStore } from '@/core/stores/outbox.store';
+import { UndoStore, edicionConDeshacer, eliminarConDeshacer, eliminarVariosConDeshacer, paginaSinBorrados } from '@/core/stores/undo.store';
+import { aplicarReemplazos, esIdOffline } from '@/shared/utils/outbox.util';
+import { CambioMasivo, ProgresoMasivo, ResultadoMasivo } from '@/core/models/accion-masiva.model';
+import { aplicarCambioMasivo, ejecutarEnCola, restaurarFilas } from '@/shared/utils/acciones-masivas.util';
 
 interface IngresosState {
     ingresos: Ingreso[];
@@ -22,10 +32,11 @@ interface IngresosState {
     totalRecords: number;
     lastUpdated: number | null;
     searchCache: Map<string, Ingreso[]>;
-    filters: {
-        fechaInicio: string;
-        fechaFin: string;
-        categoria: string;
+    // Suma de importes del resultado filtrado completo (no solo de la página)
+    totalFiltrado: number | null;
+    // Avance de la acción masiva en curso sobre la selección
+    progresoMasivo: ProgresoMasivo | null;
+    filters: MovimientoFilters & {
         searchTerm: string;
         sortColumn: string;
         sortOrder: string;
@@ -41,10 +52,11 @@ const initialState: IngresosState = {
     totalRecords: 0,
     lastUpdated: null,
     searchCache: new Map(),
+    totalFiltrado: null,
+    progresoMasivo: null,
     filters: {
         fechaInicio: '',
         fechaFin: '',
-        categoria: '',
         searchTerm: '',
         sortColumn: '',
         sortOrder: ''
@@ -134,6 +146,9 @@ export const IngresosStore = signalStore(
         const personaStore = inject(PersonaStore);
         const cuentaStore = inject(CuentaStore);
         const formaPagoStore = inject(FormaPagoStore);
+        const duplicateDetection = inject(DuplicateDetectionService);
+        const adjuntoService = inject(AdjuntoService);
+        const undoStore = inject(UndoStore);
 
         return {
             // Cargar ingresos
@@ -169,18 +184,21 @@ export const IngresosStore = signalStore(
                 searchTerm?: string;
                 sortColumn?: string;
                 sortOrder?: string;
+                filters?: MovimientoFilters;
             }>(
                 pipe(
-                    tap(({ page, pageSize, searchTerm, sortColumn, sortOrder }) => {
-                        patchState(store, { loading: true, error: null });
+                    tap(({ filters }) => {
+                        patchState(store, { loading: true, error: null, filters: { ...store.filters(), ...filters } });
                     }),
-                    switchMap(({ page, pageSize, searchTerm, sortColumn, sortOrder }) =>
-                        ingresoService.getIngresos(page, pageSize, searchTerm, sortColumn, sortOrder).pipe(
+                    switchMap(({ page, pageSize, searchTerm, sortColumn, sortOrder, filters }) =>
+                        ingresoService.getIngresos(page, pageSize, searchTerm, sortColumn, sortOrder, filters).pipe(
                             tapResponse({
                                 next: (response) => {
+                                    const pagina = paginaSinBorrados(undoStore, response);
                                     patchState(store, {
-                                        ingresos: response.items,
-                                        totalRecords: response.totalCount,
+                                        ingresos: pagina.items,
+                                        totalRecords: pagina.totalCount,
+                                        totalFiltrado: response.totalImporte ?? null,
                                         loading: false,
                                         error: null,
                                         lastUpdated: Date.now(),
@@ -226,6 +244,11 @@ export const IngresosStore = signalStore(
                 )
             ),
 
+            // Buscar posibles duplicados antes de crear (misma cuenta, importe y fecha cercana)
+            findDuplicates(ingreso: Partial<Ingreso> & Pick<Ingreso, 'cuentaId' | 'importe' | 'fecha'>, options?: Partial<DuplicateDetectionOptions>): Promise<PosibleDuplicado<Ingreso>[]> {
+                return duplicateDetection.findIngresoDuplicates(ingreso, options);
+            },
+
             // Crear ingreso con actualización optimista
             async createIngreso(ingreso: IngresoCreate, displayData?: Partial<Ingreso>): Promise<string> {
                 const tempId = `temp_${Date.now()}`;
@@ -309,6 +332,9 @@ export const IngresosStore = signalStore(
                         lastUpdated: Date.now(),
                         searchCache: new Map()
                     });
+                    if (ingresoAnterior) {
+                        edicionConDeshacer(undoStore, store, 'ingresos', ingresoAnterior, { mensaje: 'Ingreso actualizado', revertir: (anterior) => ingresoService.update(id, anterior) });
+                    }
                 } catch (error: any) {
                     // Revertir actualización optimista
                     if (ingresoAnterior) {
@@ -324,35 +350,103 @@ export const IngresosStore = signalStore(
                 }
             },
 
-            // Eliminar ingreso con actualización optimista
-            deleteIngreso: rxMethod<string>(
-                pipe(
-                    tap((id) => {
-                        patchState(store, (state) => ({
-                            ingresos: state.ingresos.filter((i) => i.id !== id),
-                            totalRecords: state.totalRecords - 1,
-                            searchCache: new Map()
-                        }));
-                    }),
-                    switchMap((id) =>
-                        ingresoService.delete(id).pipe(
-                            tapResponse({
-                                next: () => {
-                                    patchState(store, {
-                                        lastUpdated: Date.now()
-                                    });
-                                },
-                                error: (err: ErrorResponse) => {
-                                    console.error('[STORE] Error al eliminar ingreso:', err);
-                                    patchState(store, {
-                                        error: err.detail || 'Error al eliminar ingreso'
-                                    });
-                                }
-                            })
-                        )
-                    )
-                )
-            ),
+            /**
+             * Aplica los cambios de adjuntos de un ingreso ya guardado
+             * Las imágenes se reducen antes de subirlas; si algo falla se conserva lo que sí se ha guardado
+             */
+            async syncAdjuntos(id: string, cambios: CambiosAdjuntos): Promise<void> {
+                // Los adjuntos necesitan el id real: sin conexión no se pueden subir todavía
+                if (esIdOffline(id)) {
+                    const error = 'Los adjuntos se podrán añadir cuando el ingreso se sincronice';
+                    patchState(store, { error });
+                    throw new Error(error);
+                }
+
+                const actual = store.ingresos().find((m) => m.id === id);
+                let adjuntos: Adjunto[] = actual?.adjuntos ?? [];
+                let fallos = 0;
+
+                for (const adjunto of cambios.eliminados) {
+                    try {
+                        await firstValueFrom(adjuntoService.delete('ingresos', id, adjunto.id));
+                        adjuntos = adjuntos.filter((a) => a.id !== adjunto.id);
+                    } catch {
+                        fallos++;
+                    }
+                }
+
+                for (const archivo of cambios.nuevos) {
+                    try {
+                        adjuntos = [...adjuntos, await firstValueFrom(adjuntoService.upload('ingresos', id, await reducirImagen(archivo)))];
+                    } catch {
+                        fallos++;
+                    }
+                }
+
+                patchState(store, { ingresos: store.ingresos().map((m) => (m.id === id ? { ...m, adjuntos } : m)) });
+
+                if (fallos > 0) {
+                    const error = `No se ${fallos === 1 ? 'ha' : 'han'} podido guardar ${fallos} adjunto${fallos === 1 ? '' : 's'}`;
+                    patchState(store, { error });
+                    throw new Error(error);
+                }
+            },
+
+            deleteIngreso(id: string): void {
+                eliminarConDeshacer(undoStore, store, 'ingresos', id, {
+                    mensaje: 'Ingreso eliminado',
+                    eliminar: () => ingresoService.delete(id),
+                    alEliminar: () => patchState(store, { lastUpdated: Date.now(), searchCache: new Map() })
+                });
+            },
+
+            /**
+             * Eliminar varios ingresos con un solo aviso para deshacer
+             * Los que fallan vuelven a la tabla y se devuelven en el resultado para el informe
+             */
+            deleteIngresos(ids: string[]): Promise<ResultadoMasivo> {
+                patchState(store, { error: null });
+                return eliminarVariosConDeshacer(undoStore, store, 'ingresos', ids, {
+                    mensaje: `${ids.length} ingresos eliminados`,
+                    eliminar: (id) => ingresoService.delete(id),
+                    onProgreso: (progresoMasivo) => patchState(store, { progresoMasivo }),
+                    alEliminar: ({ fallidos }) =>
+                        patchState(store, {
+                            progresoMasivo: null,
+                            lastUpdated: Date.now(),
+                            searchCache: new Map(),
+                            error: fallidos.length > 0 ? `No se han podido eliminar ${fallidos.length} ingresos` : null
+                        })
+                });
+            },
+
+            // Aplicar el mismo cambio (concepto, cuenta, persona o fecha) a varios ingresos
+            async updateIngresos(ingresos: Ingreso[], cambio: CambioMasivo): Promise<ResultadoMasivo> {
+                const actualizados = new Map(ingresos.map((i) => [i.id, aplicarCambioMasivo(i, cambio)]));
+
+                const anteriores = store.ingresos();
+                patchState(store, {
+                    ingresos: anteriores.map((i) => actualizados.get(i.id) ?? i),
+                    progresoMasivo: { hechos: 0, total: actualizados.size },
+                    error: null
+                });
+
+                const resultado = await ejecutarEnCola(
+                    [...actualizados.keys()],
+                    (id) => firstValueFrom(ingresoService.update(id, actualizados.get(id)!)),
+                    (progresoMasivo) => patchState(store, { progresoMasivo })
+                );
+
+                const fallidos = new Set(resultado.fallidos.map((f) => f.id));
+                patchState(store, {
+                    ingresos: fallidos.size > 0 ? restaurarFilas(store.ingresos(), anteriores, fallidos) : store.ingresos(),
+                    progresoMasivo: null,
+                    lastUpdated: Date.now(),
+                    searchCache: new Map(),
+                    error: fallidos.size > 0 ? `No se han podido actualizar ${fallidos.size} ingresos` : null
+                });
+                return resultado;
+            },
 
             // Buscar ingresos con debounce
             searchIngresos: rxMethod<string>(
@@ -383,5 +477,17 @@ export const IngresosStore = signalStore(
                 patchState(store, { error: null });
             }
         };
+    }),
+
+    withHooks({
+        onInit(store) {
+            const outboxStore = inject(OutboxStore);
+
+            // Sustituir los ids temporales de los ingresos creados sin conexión cuando se sincronizan
+            effect(() => {
+                const reemplazos = outboxStore.reemplazos();
+                untracked(() => patchState(store, { ingresos: aplicarReemplazos(store.ingresos(), reemplazos) }));
+            });
+        }
     })
 );
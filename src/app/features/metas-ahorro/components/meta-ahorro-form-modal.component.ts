@@ -0,0 +1,267 @@
+import { Component, inject, input, output, effect, ChangeDetectionStrategy, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { DialogModule } from 'primeng/dialog';
+import { ButtonModule } from 'primeng/button';
+import { InputTextModule } from 'primeng/inputtext';
+import { InputNumberModule } from 'primeng/inputnumber';
+import { DatePickerModule } from 'primeng/datepicker';
+import { SelectModule } from 'primeng/select';
+import { ToggleSwitchModule } from 'primeng/toggleswitch';
+import { AutoCompleteModule, AutoCompleteCompleteEvent } from 'primeng/autocomplete';
+import { MessageService } from 'primeng/api';
+import { MetaAhorro, MetaAhorroFormResult } from '@/core/models/meta-ahorro.model';
+import { Frecuencia, TraspasoProgramado } from '@/core/models/traspaso-programado.model';
+import { CatalogRef } from '@/core/models/common.model';
+import { CuentaStore } from '@/features/cuentas/store/cuenta.store';
+import { ImportePipe } from '@/shared/pipes/importe.pipe';
+import { MonedaStore } from '@/core/stores/moneda.store';
+
+interface MetaFormData {
+    id?: string;
+    nombre: string;
+    importeObjetivo: number | null;
+    fechaObjetivo: Date | null;
+    // Aportación periódica
+    conAportacion: boolean;
+    importeAportacion: number | null;
+    frecuencia: Frecuencia;
+    fechaEjecucion: Date | null;
+}
+
+@Component({
+    selector: 'app-meta-ahorro-form-modal',
+    standalone: true,
+    imports: [CommonModule, FormsModule, DialogModule, ButtonModule, InputTextModule, InputNumberModule, DatePickerModule, SelectModule, ToggleSwitchModule, AutoCompleteModule, ImportePipe],
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    template: `
+        <p-dialog [(visible)]="isVisible" [style]="{ width: '560px' }" [header]="isEditMode() ? 'Editar Meta de Ahorro' : 'Nueva Meta de Ahorro'" [modal]="true" [contentStyle]="{ padding: '2rem' }" (onHide)="onCancel()" styleClass="p-fluid">
+            <ng-template #content>
+                <div class="flex flex-col gap-4">
+                    <div>
+                        <label for="nombre" class="block font-bold mb-3">Nombre *</label>
+                        <input type="text" pInputText id="nombre" [(ngModel)]="formData.nombre" required autofocus placeholder="Ej: Fondo de emergencia" fluid />
+                        @if (submitted() && !formData.nombre.trim()) {
+                            <small class="text-red-500">El nombre es requerido.</small>
+                        }
+                    </div>
+
+                    <div class="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label for="importeObjetivo" class="block font-bold mb-3">Importe objetivo *</label>
+                            <p-inputNumber inputId="importeObjetivo" [(ngModel)]="formData.importeObjetivo" mode="currency" [currency]="monedaStore.monedaBase()" locale="es-ES" [min]="0" [placeholder]="0 | importe" fluid />
+                            @if (submitted() && !(formData.importeObjetivo! > 0)) {
+                                <small class="text-red-500">Debe ser mayor que 0.</small>
+                            }
+                        </div>
+                        <div>
+                            <label for="fechaObjetivo" class="block font-bold mb-3">Fecha objetivo *</label>
+                            <p-datePicker inputId="fechaObjetivo" [(ngModel)]="formData.fechaObjetivo" dateFormat="dd/mm/yy" [showIcon]="true" [minDate]="hoy" appendTo="body" fluid />
+                            @if (submitted() && !formData.fechaObjetivo) {
+                                <small class="text-red-500">La fecha es requerida.</small>
+                            }
+                        </div>
+                    </div>
+
+                    <div>
+                        <label for="cuenta" class="block font-bold mb-3">Cuenta de ahorro *</label>
+                        <p-autoComplete inputId="cuenta" [(ngModel)]="selectedCuenta" [suggestions]="filteredCuentas()" (completeMethod)="searchCuentas($event)" optionLabel="nombre" [dropdown]="true" [forceSelection]="true" placeholder="Cuenta donde se acumula el ahorro" appendTo="body" fluid />
+                        @if (submitted() && !selectedCuenta) {
+                            <small class="text-red-500">La cuenta es requerida.</small>
+                        }
+                    </div>
+
+                    <div class="border-t surface-border pt-4 flex items-center justify-between">
+                        <div>
+                            <div class="font-bold">Aportación periódica</div>
+                            <small class="text-500">Crea un traspaso programado hacia la cuenta de la meta</small>
+                        </div>
+                        <p-toggleswitch [(ngModel)]="formData.conAportacion" />
+                    </div>
+
+                    @if (formData.conAportacion) {
+                        <div>
+                            <label for="cuentaOrigen" class="block font-bold mb-3">Desde la cuenta *</label>
+                            <p-autoComplete inputId="cuentaOrigen" [(ngModel)]="selectedCuentaOrigen" [suggestions]="filteredCuentas()" (completeMethod)="searchCuentas($event)" optionLabel="nombre" [dropdown]="true" [forceSelection]="true" placeholder="Cuenta de origen" appendTo="body" fluid />
+                            @if (submitted() && !selectedCuentaOrigen) {
+                                <small class="text-red-500">La cuenta de origen es requerida.</small>
+                            } @else if (submitted() && selectedCuentaOrigen?.id === selectedCuenta?.id) {
+                                <small class="text-red-500">Debe ser distinta de la cuenta de la meta.</small>
+                            }
+                        </div>
+
+                        <div class="grid grid-cols-1 md:grid-cols-3 gap-4">
+                            <div>
+                                <label for="importeAportacion" class="block font-bold mb-3">Importe *</label>
+                                <p-inputNumber inputId="importeAportacion" [(ngModel)]="formData.importeAportacion" mode="currency" [currency]="monedaStore.monedaBase()" locale="es-ES" [min]="0" [placeholder]="0 | importe" fluid />
+                            </div>
+                            <div>
+                                <label for="frecuencia" class="block font-bold mb-3">Frecuencia</label>
+                                <p-select inputId="frecuencia" [options]="frecuencias" [(ngModel)]="formData.frecuencia" appendTo="body" fluid />
+                            </div>
+                            <div>
+                                <label for="fechaEjecucion" class="block font-bold mb-3">Primera</label>
+                                <p-datePicker inputId="fechaEjecucion" [(ngModel)]="formData.fechaEjecucion" dateFormat="dd/mm/yy" [showIcon]="true" appendTo="body" fluid />
+                            </div>
+                        </div>
+                        @if (submitted() && (!(formData.importeAportacion! > 0) || !formData.fechaEjecucion)) {
+                            <small class="text-red-500">Indica importe y fecha de la primera aportación.</small>
+                        }
+                    }
+                </div>
+            </ng-template>
+
+            <ng-template #footer>
+                <p-button label="Cancelar" icon="pi pi-times" text (click)="onCancel()" />
+                <p-button label="Guardar" icon="pi pi-check" (click)="onSave()" />
+            </ng-template>
+        </p-dialog>
+    `
+})
+export class MetaAhorroFormModalComponent {
+    private messageService = inject(MessageService);
+    monedaStore = inject(MonedaStore);
+    private cuentaStore = inject(CuentaStore);
+
+    // Inputs/Outputs
+    visible = input<boolean>(false);
+    meta = input<Partial<MetaAhorro> | null>(null);
+    aportacion = input<TraspasoProgramado | null>(null);
+    visibleChange = output<boolean>();
+    save = output<MetaAhorroFormResult>();
+    cancel = output<void>();
+
+    // Estado del formulario
+    formData: MetaFormData = this.emptyForm();
+    submitted = signal(false);
+
+    selectedCuenta: CatalogRef | null = null;
+    selectedCuentaOrigen: CatalogRef | null = null;
+    filteredCuentas = signal<CatalogRef[]>([]);
+
+    frecuencias = [
+        { label: 'Diario', value: 'DIARIO' },
+        { label: 'Semanal', value: 'SEMANAL' },
+        { label: 'Mensual', value: 'MENSUAL' },
+        { label: 'Anual', value: 'ANUAL' }
+    ];
+
+    hoy = new Date();
+    isVisible = false;
+    isEditMode = signal(false);
+
+    constructor() {
+        effect(() => {
+            this.isVisible = this.visible();
+        });
+
+        effect(() => {
+            const metaData = this.meta();
+            if (metaData) {
+                this.loadFormData();
+            }
+        });
+    }
+
+    private emptyForm(): MetaFormData {
+        return {
+            nombre: '',
+            importeObjetivo: null,
+            fechaObjetivo: null,
+            conAportacion: false,
+            importeAportacion: null,
+            frecuencia: 'MENSUAL',
+            fechaEjecucion: new Date()
+        };
+    }
+
+    private loadFormData() {
+        const metaData = this.meta();
+        const aportacion = this.aportacion();
+
+        this.formData = this.emptyForm();
+        this.selectedCuenta = null;
+        this.selectedCuentaOrigen = null;
+        this.isEditMode.set(!!metaData?.id);
+
+        if (metaData?.id) {
+            this.formData = {
+                ...this.formData,
+                id: metaData.id,
+                nombre: metaData.nombre || '',
+                importeObjetivo: metaData.importeObjetivo ?? null,
+                fechaObjetivo: metaData.fechaObjetivo ? new Date(metaData.fechaObjetivo) : null
+            };
+            this.selectedCuenta = metaData.cuentaId ? { id: metaData.cuentaId, nombre: metaData.cuentaNombre || '' } : null;
+        }
+
+        if (aportacion) {
+            this.formData.conAportacion = true;
+            this.formData.importeAportacion = aportacion.importe;
+            this.formData.frecuencia = aportacion.frecuencia;
+            this.formData.fechaEjecucion = aportacion.fechaEjecucion ? new Date(aportacion.fechaEjecucion) : new Date();
+            this.selectedCuentaOrigen = { id: aportacion.cuentaOrigenId, nombre: aportacion.cuentaOrigenNombre };
+        }
+
+        this.submitted.set(false);
+    }
+
+    searchCuentas(event: AutoCompleteCompleteEvent) {
+        const query = event.query;
+        const peticion = !query || query.length < 2 ? this.cuentaStore.getRecent(5) : this.cuentaStore.search(query, 10);
+        peticion.then((data) => this.filteredCuentas.set(data)).catch(() => this.filteredCuentas.set([]));
+    }
+
+    private isValid(): boolean {
+        const { nombre, importeObjetivo, fechaObjetivo, conAportacion, importeAportacion, fechaEjecucion } = this.formData;
+        const metaValida = !!nombre.trim() && importeObjetivo! > 0 && !!fechaObjetivo && !!this.selectedCuenta;
+        const aportacionValida = !conAportacion || (!!this.selectedCuentaOrigen && this.selectedCuentaOrigen.id !== this.selectedCuenta?.id && importeAportacion! > 0 && !!fechaEjecucion);
+
+        return metaValida && aportacionValida;
+    }
+
+    onSave() {
+        this.submitted.set(true);
+
+        if (!this.isValid()) {
+            this.messageService.add({
+                severity: 'warn',
+                summary: 'Advertencia',
+                detail: 'Por favor complete todos los campos requeridos'
+            });
+            return;
+        }
+
+        const { id, nombre, importeObjetivo, fechaObjetivo, conAportacion, importeAportacion, frecuencia, fechaEjecucion } = this.formData;
+
+        this.save.emit({
+            id,
+            nombre: nombre.trim(),
+            importeObjetivo: importeObjetivo!,
+            fechaObjetivo: fechaObjetivo!.toISOString().split('T')[0],
+            cuentaId: this.selectedCuenta!.id,
+            cuentaNombre: this.selectedCuenta!.nombre,
+            aportacion: conAportacion
+                ? {
+                      cuentaOrigenId: this.selectedCuentaOrigen!.id,
+                      cuentaOrigenNombre: this.selectedCuentaOrigen!.nombre,
+                      importe: importeAportacion!,
+                      frecuencia,
+                      fechaEjecucion: fechaEjecucion!.toISOString()
+                  }
+                : null
+        });
+        this.closeModal();
+    }
+
+    onCancel() {
+        this.cancel.emit();
+        this.closeModal();
+    }
+
+    private closeModal() {
+        this.isVisible = false;
+        this.visibleChange.emit(false);
+        this.submitted.set(false);
+    }
+}
@@ -0,0 +1,8 @@
+import { Routes } from '@angular/router';
+
+export default [
+    {
+        path: '',
+        loadComponent: () => import('./pages/metas-ahorro.page').then((m) => m.MetasAhorroPage)
+    }
+] as Routes;
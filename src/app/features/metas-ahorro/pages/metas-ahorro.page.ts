@@ -0,0 +1,205 @@
+import { Component, inject, ChangeDetectionStrategy, OnInit, effect, untracked } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ButtonModule } from 'primeng/button';
+import { MessageService, ConfirmationService } from 'primeng/api';
+import { ToolbarModule } from 'primeng/toolbar';
+import { TagModule } from 'primeng/tag';
+import { TooltipModule } from 'primeng/tooltip';
+import { ProgressBarModule } from 'primeng/progressbar';
+import { MetaAhorroStore } from '../store/meta-ahorro.store';
+import { MetaAhorro, MetaAhorroFormResult, ProgresoMeta } from '@/core/models/meta-ahorro.model';
+import { TraspasoProgramado } from '@/core/models/traspaso-programado.model';
+import { MetaAhorroFormModalComponent } from '../components/meta-ahorro-form-modal.component';
+import { BasePageComponent, BasePageTemplateComponent } from '@/shared/components';
+import { ImportePipe } from '@/shared/pipes/importe.pipe';
+
+const FRECUENCIA_LABEL: Record<string, string> = {
+    DIARIO: 'al día',
+    SEMANAL: 'a la semana',
+    MENSUAL: 'al mes',
+    ANUAL: 'al año'
+};
+
+@Component({
+    selector: 'app-metas-ahorro-page',
+    standalone: true,
+    imports: [CommonModule, ButtonModule, ToolbarModule, TagModule, TooltipModule, ProgressBarModule, MetaAhorroFormModalComponent, BasePageTemplateComponent, ImportePipe],
+    providers: [MessageService, ConfirmationService],
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    template: `
+        <app-base-page-template [loading]="metaStore.loading() && !metaStore.hasData()" [skeletonType]="'card'">
+            <div class="card surface-ground px-4 py-5 md:px-6 lg:px-8">
+                <p-toolbar styleClass="mb-6 gap-2 p-6">
+                    <ng-template #start>
+                        <p-button label="Nueva Meta" icon="pi pi-plus" severity="secondary" class="mr-2" (onClick)="openNew()" />
+                    </ng-template>
+                    <ng-template #end>
+                        <p-button icon="pi pi-refresh" severity="secondary" outlined (onClick)="refresh()" pTooltip="Actualizar" [loading]="metaStore.loadingProgreso()" />
+                    </ng-template>
+                </p-toolbar>
+
+                <div class="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                    @for (progreso of metaStore.progresos(); track progreso.meta.id) {
+                        <div class="card shadow-2 border-round p-5 flex flex-col gap-4 h-full">
+                            <div class="flex items-start justify-between gap-3">
+                                <div>
+                                    <h5 class="text-900 font-bold text-xl m-0 flex items-center gap-2">
+                                        <i class="pi pi-flag text-primary"></i>
+                                        {{ progreso.meta.nombre }}
+                                    </h5>
+                                    <span class="text-500 text-sm">{{ progreso.meta.cuentaNombre }} · antes del {{ progreso.meta.fechaObjetivo | date: 'dd/MM/yyyy' }}</span>
+                                </div>
+                                <p-tag [severity]="getSeverity(progreso)" [value]="getEstadoLabel(progreso)" />
+                            </div>
+
+                            <div>
+                                <div class="flex items-end justify-between mb-2">
+                                    <span class="text-2xl font-bold text-900">{{ progreso.saldoActual | importe }}</span>
+                                    <span class="text-500">de {{ progreso.meta.importeObjetivo | importe }}</span>
+                                </div>
+                                <p-progressbar [value]="Math.round(progreso.porcentaje)" [style]="{ height: '10px' }" [showValue]="false" />
+                                <div class="text-500 text-sm mt-1">{{ progreso.porcentaje | number: '1.0-0' }}% conseguido</div>
+                            </div>
+
+                            @if (!progreso.completada) {
+                                <div class="grid grid-cols-1 md:grid-cols-2 gap-3">
+                                    <div class="surface-ground border-round p-3">
+                                        <div class="text-xs text-500 uppercase font-semibold mb-1">Necesario al mes</div>
+                                        <div class="text-xl font-bold text-900">{{ progreso.aportacionMensualNecesaria | importe }}</div>
+                                        <div class="text-sm text-500">
+                                            @if (progreso.mesesRestantes > 0) {
+                                                durante {{ progreso.mesesRestantes | number: '1.0-0' }} meses
+                                            } @else {
+                                                la fecha objetivo ya ha pasado
+                                            }
+                                        </div>
+                                    </div>
+                                    <div class="surface-ground border-round p-3">
+                                        <div class="text-xs text-500 uppercase font-semibold mb-1">Fecha estimada</div>
+                                        @if (progreso.fechaEstimada) {
+                                            <div [class]="'text-xl font-bold ' + (progreso.enPlazo ? 'text-green-600' : 'text-orange-600')">{{ progreso.fechaEstimada | date: 'MMMM yyyy' }}</div>
+                                        } @else {
+                                            <div class="text-xl font-bold text-red-600">Sin estimación</div>
+                                        }
+                                        <div class="text-sm text-500">ahorrando {{ progreso.ahorroMensualMedio | importe: null : '1.0-0' }}/mes de media</div>
+                                    </div>
+                                </div>
+                            }
+
+                            @if (progreso.aportacion; as aportacion) {
+                                <div class="flex items-center gap-2 text-sm">
+                                    <i class="pi pi-sync text-primary"></i>
+                                    <span>
+                                        Aportación de <strong>{{ aportacion.importe | importe }} {{ getFrecuenciaLabel(aportacion.frecuencia) }}</strong> desde {{ aportacion.cuentaOrigenNombre }}
+                                        @if (!aportacion.activo) {
+                                            <span class="text-orange-500">(pausada)</span>
+                                        } @else if (!progreso.completada && progreso.aportacionMensualProgramada! < progreso.aportacionMensualNecesaria) {
+                                            <span class="text-orange-500">· insuficiente para llegar a tiempo</span>
+                                        }
+                                    </span>
+                                </div>
+                            }
+
+                            <div class="flex justify-end gap-2 mt-auto">
+                                <p-button icon="pi pi-pencil" [rounded]="true" [outlined]="true" (click)="editMeta(progreso)" pTooltip="Editar" />
+                                <p-button icon="pi pi-trash" severity="danger" [rounded]="true" [outlined]="true" (click)="deleteMeta(progreso.meta)" pTooltip="Eliminar" />
+                            </div>
+                        </div>
+                    } @empty {
+                        <div class="card col-span-full text-center py-8">
+                            <i class="pi pi-flag text-500 text-5xl mb-3"></i>
+                            <p class="text-900 font-semibold text-xl mb-2">No hay metas de ahorro</p>
+                            <p class="text-600 mb-4">Define cuánto quieres ahorrar, en qué cuenta y para cuándo</p>
+                            <p-button label="Crear Meta" icon="pi pi-plus" (onClick)="openNew()" />
+                        </div>
+                    }
+                </div>
+
+                <app-meta-ahorro-form-modal [visible]="metaDialog" [meta]="currentMeta" [aportacion]="currentAportacion" (visibleChange)="metaDialog = $event" (save)="onSaveMeta($event)" (cancel)="hideDialog()" />
+            </div>
+        </app-base-page-template>
+    `
+})
+export class MetasAhorroPage extends BasePageComponent implements OnInit {
+    metaStore = inject(MetaAhorroStore);
+
+    protected override skeletonType = 'card' as const;
+
+    metaDialog: boolean = false;
+    currentMeta: Partial<MetaAhorro> = {};
+    currentAportacion: TraspasoProgramado | null = null;
+
+    Math = Math;
+
+    constructor() {
+        super();
+        // Recalcular el progreso cada vez que cambia la lista de metas
+        effect(() => {
+            if (this.metaStore.lastUpdated()) {
+                untracked(() => this.metaStore.loadProgreso());
+            }
+        });
+    }
+
+    ngOnInit() {
+        this.metaStore.loadMetas();
+    }
+
+    refresh() {
+        this.metaStore.loadProgreso();
+        this.showInfo('Datos actualizados', 'Actualización');
+    }
+
+    openNew() {
+        this.currentAportacion = null;
+        this.currentMeta = {};
+        this.metaDialog = true;
+    }
+
+    hideDialog() {
+        this.metaDialog = false;
+        this.currentMeta = {};
+        this.currentAportacion = null;
+    }
+
+    async onSaveMeta(meta: MetaAhorroFormResult) {
+        try {
+            if (meta.id) {
+                await this.metaStore.update(meta.id, meta);
+                this.showSuccess('Meta actualizada correctamente');
+            } else {
+                await this.metaStore.create(meta);
+                this.showSuccess(meta.aportacion ? 'Meta creada con su traspaso programado' : 'Meta creada correctamente');
+            }
+            this.hideDialog();
+        } catch (error: any) {
+            this.showError(error.message || 'Error al guardar la meta');
+        }
+    }
+
+    editMeta(progreso: ProgresoMeta) {
+        this.currentAportacion = progreso.aportacion;
+        this.currentMeta = { ...progreso.meta };
+        this.metaDialog = true;
+    }
+
+    deleteMeta(meta: MetaAhorro) {
+        this.metaStore.deleteMeta(meta);
+    }
+
+    getSeverity(progreso: ProgresoMeta): 'success' | 'info' | 'warn' | 'danger' {
+        if (progreso.completada) return 'success';
+        if (progreso.enPlazo) return 'info';
+        return progreso.fechaEstimada ? 'warn' : 'danger';
+    }
+
+    getEstadoLabel(progreso: ProgresoMeta): string {
+        if (progreso.completada) return 'Conseguida';
+        if (progreso.enPlazo) return 'En plazo';
+        return progreso.fechaEstimada ? 'Con retraso' : 'Fuera de alcance';
+    }
+
+    getFrecuenciaLabel(frecuencia: string): string {
+        return FRECUENCIA_LABEL[frecuencia] ?? frecuencia.toLowerCase();
+    }
+}
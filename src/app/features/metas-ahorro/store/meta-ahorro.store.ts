@@ -0,0 +1,232 @@
+import { computed, inject } from '@angular/core';
+import { signalStore, withState, withMethods, patchState, withComputed } from '@ngrx/signals';
+import { firstValueFrom, pipe, switchMap, tap } from 'rxjs';
+import { rxMethod } from '@ngrx/signals/rxjs-interop';
+import { tapResponse } from '@ngrx/operators';
+import { MetaAhorroService } from '@/core/services/api/meta-ahorro.service';
+import { DashboardService } from '@/core/services/api/dashboard.service';
+import { TraspasoProgramadoService } from '@/core/services/api/traspaso-programado.service';
+import { AportacionMeta, MetaAhorro, MetaAhorroFormResult } from '@/core/models/meta-ahorro.model';
+import { HistoricoMensual } from '@/core/models/dashboard.model';
+import { TraspasoProgramado, TraspasoProgramadoCreate } from '@/core/models/traspaso-programado.model';
+import { UndoStore, eliminarConDeshacer } from '@/core/stores/undo.store';
+import { calcularProgresoMeta } from '@/shared/utils/metas.util';
+
+// Meses de histórico usados para estimar el ritmo de ahorro
+const MESES_HISTORICO = 12;
+
+interface MetaAhorroState {
+    metas: MetaAhorro[];
+    saldos: Record<string, number>;
+    historico: HistoricoMensual[];
+    // Traspasos programados ligados a las metas, por id
+    aportaciones: Record<string, TraspasoProgramado>;
+    loading: boolean;
+    loadingProgreso: boolean;
+    error: string | null;
+    lastUpdated: number | null;
+}
+
+const initialState: MetaAhorroState = {
+    metas: [],
+    saldos: {},
+    historico: [],
+    aportaciones: {},
+    loading: false,
+    loadingProgreso: false,
+    error: null,
+    lastUpdated: null
+};
+
+function toTraspasoCreate(meta: Pick<MetaAhorro, 'nombre' | 'cuentaId'>, aportacion: AportacionMeta): TraspasoProgramadoCreate {
+    return {
+        cuentaOrigenId: aportacion.cuentaOrigenId,
+        cuentaDestinoId: meta.cuentaId,
+        importe: aportacion.importe,
+        frecuencia: aportacion.frecuencia,
+        fechaEjecucion: aportacion.fechaEjecucion,
+        activo: true,
+        descripcion: `Meta de ahorro: ${meta.nombre}`
+    };
+}
+
+/**
+ * Signal Store de metas de ahorro
+ * Las aportaciones periódicas se guardan como traspasos programados hacia la cuenta de la meta
+ */
+export const MetaAhorroStore = signalStore(
+    { providedIn: 'root' },
+    withState(initialState),
+
+    withComputed((store) => ({
+        totalMetas: computed(() => store.metas().length),
+        hasData: computed(() => store.metas().length > 0),
+        progresos: computed(() =>
+            store.metas().map((meta) => calcularProgresoMeta(meta, store.saldos()[meta.cuentaId] ?? 0, store.historico(), meta.traspasoProgramadoId ? (store.aportaciones()[meta.traspasoProgramadoId] ?? null) : null))
+        )
+    })),
+
+    withMethods((store, metaService = inject(MetaAhorroService), dashboardService = inject(DashboardService), traspasoProgramadoService = inject(TraspasoProgramadoService), undoStore = inject(UndoStore)) => {
+        /**
+         * Crea, actualiza o elimina el traspaso programado de la meta según la aportación del formulario
+         * Devuelve el id del traspaso resultante (null si ya no hay aportación)
+         */
+        const sincronizarAportacion = async (meta: Pick<MetaAhorro, 'nombre' | 'cuentaId'>, traspasoId: string | null, aportacion: AportacionMeta | null): Promise<string | null> => {
+            if (aportacion && traspasoId) {
+                await firstValueFrom(traspasoProgramadoService.update(traspasoId, { id: traspasoId, ...toTraspasoCreate(meta, aportacion) }));
+                return traspasoId;
+            }
+            if (aportacion) {
+                return await firstValueFrom(traspasoProgramadoService.create(toTraspasoCreate(meta, aportacion)));
+            }
+            if (traspasoId) {
+                await firstValueFrom(traspasoProgramadoService.delete(traspasoId));
+            }
+            return null;
+        };
+
+        return {
+            loadMetas: rxMethod<void>(
+                pipe(
+                    tap(() => patchState(store, { loading: true, error: null })),
+                    switchMap(() =>
+                        metaService.getMetas().pipe(
+                            tapResponse({
+                                next: (metas) => {
+                                    patchState(store, { metas: undoStore.sinBorradosPendientes(metas), loading: false, lastUpdated: Date.now() });
+                                },
+                                error: (error: any) => {
+                                    console.error('[STORE] Error al cargar metas de ahorro:', error);
+                                    patchState(store, { loading: false, error: error.userMessage || 'Error al cargar metas de ahorro' });
+                                }
+                            })
+                        )
+                    )
+                )
+            ),
+
+            /**
+             * Carga saldos de cuentas, histórico mensual y aportaciones para calcular el progreso
+             */
+            async loadProgreso(): Promise<void> {
+                patchState(store, { loadingProgreso: true });
+                try {
+                    const traspasoIds = store.metas().map((m) => m.traspasoProgramadoId).filter((id): id is string => !!id);
+
+                    const [resumen, historico, traspasos] = await Promise.all([
+                        firstValueFrom(dashboardService.getResumen()),
+                        firstValueFrom(dashboardService.getHistorico(MESES_HISTORICO)),
+                        // Un traspaso borrado desde su propia pantalla no debe romper la carga
+                        Promise.all(traspasoIds.map((id) => firstValueFrom(traspasoProgramadoService.getById(id)).catch(() => null)))
+                    ]);
+
+                    const saldos: Record<string, number> = {};
+                    (resumen?.cuentas ?? []).forEach((c) => (saldos[c.id] = c.saldo));
+
+                    const aportaciones: Record<string, TraspasoProgramado> = {};
+                    traspasos.forEach((t) => t && (aportaciones[t.id] = t));
+
+                    patchState(store, { saldos, historico: historico ?? [], aportaciones, loadingProgreso: false });
+                } catch (error: any) {
+                    console.error('[STORE] Error al calcular el progreso de las metas:', error);
+                    patchState(store, { loadingProgreso: false, error: error.userMessage || 'Error al calcular el progreso de las metas' });
+                }
+            },
+
+            async create(datos: MetaAhorroFormResult): Promise<string> {
+                const { aportacion, ...meta } = datos;
+                patchState(store, { loading: true, error: null });
+
+                let traspasoId: string | null = null;
+                try {
+                    traspasoId = await sincronizarAportacion(meta as MetaAhorro, null, aportacion);
+
+                    const response = await firstValueFrom(
+                        metaService.create({
+                            nombre: meta.nombre!,
+                            importeObjetivo: meta.importeObjetivo!,
+                            fechaObjetivo: meta.fechaObjetivo!,
+                            cuentaId: meta.cuentaId!,
+                            traspasoProgramadoId: traspasoId
+                        })
+                    );
+
+                    if (response.isSuccess && response.value) {
+                        patchState(store, {
+                            metas: [...store.metas(), { ...(meta as MetaAhorro), id: response.value, traspasoProgramadoId: traspasoId }],
+                            loading: false,
+                            lastUpdated: Date.now()
+                        });
+                        return response.value;
+                    }
+                    throw new Error(response.error?.message || 'Error al crear la meta');
+                } catch (err: any) {
+                    // No dejar un traspaso programado huérfano si la meta no se ha creado
+                    if (traspasoId) {
+                        firstValueFrom(traspasoProgramadoService.delete(traspasoId)).catch(() => undefined);
+                    }
+                    patchState(store, { loading: false, error: err.userMessage || (err as Error).message });
+                    throw err;
+                }
+            },
+
+            async update(id: string, datos: MetaAhorroFormResult): Promise<string> {
+                const { aportacion, ...cambios } = datos;
+                const anterior = store.metas().find((m) => m.id === id);
+                if (!anterior) throw new Error('Meta no encontrada');
+
+                const actualizada: MetaAhorro = { ...anterior, ...cambios, id };
+                patchState(store, { loading: true, error: null });
+
+                try {
+                    const traspasoId = await sincronizarAportacion(actualizada, anterior.traspasoProgramadoId, aportacion);
+                    actualizada.traspasoProgramadoId = traspasoId;
+
+                    const response = await firstValueFrom(
+                        metaService.update(id, {
+                            nombre: actualizada.nombre,
+                            importeObjetivo: actualizada.importeObjetivo,
+                            fechaObjetivo: actualizada.fechaObjetivo,
+                            cuentaId: actualizada.cuentaId,
+                            traspasoProgramadoId: traspasoId
+                        })
+                    );
+
+                    if (response.isSuccess) {
+                        patchState(store, {
+                            metas: store.metas().map((m) => (m.id === id ? actualizada : m)),
+                            loading: false,
+                            lastUpdated: Date.now()
+                        });
+                        return response.value;
+                    }
+                    throw new Error(response.error?.message || 'Error al actualizar la meta');
+                } catch (err: any) {
+                    patchState(store, { loading: false, error: err.userMessage || (err as Error).message });
+                    throw err;
+                }
+            },
+
+            /**
+             * La meta se borra junto con su aportación periódica
+             */
+            deleteMeta(meta: MetaAhorro): void {
+                eliminarConDeshacer(undoStore, store, 'metas', meta.id, {
+                    mensaje: 'Meta eliminada',
+                    eliminar: async () => {
+                        await firstValueFrom(metaService.delete(meta.id));
+                        if (meta.traspasoProgramadoId) {
+                            // La meta ya no existe: un fallo aquí solo deja el traspaso visible en su pantalla
+                            await firstValueFrom(traspasoProgramadoService.delete(meta.traspasoProgramadoId)).catch((error) => console.error('[STORE] Error al eliminar la aportación de la meta:', error));
+                        }
+                    },
+                    alEliminar: () => patchState(store, { lastUpdated: Date.now() })
+                });
+            },
+
+            clearError() {
+                patchState(store, { error: null });
+            }
+        };
+    })
+);
@@ -6,7 +6,7 @@ import { tap, switchMap } from 'rxjs/operators';
 import { tapResponse } from '@ngrx/operators';
 import { PersonaService } from '@/core/services/api/persona.service';
 import { Persona } from '@/core/models/persona.model';
-import { ErrorResponse } from '@/core/models/error-response.model';
+import { UndoStore, edicionConDeshacer, eliminarConDeshacer, paginaSinBorrados } from '@/core/stores/undo.store';
 
 interface PersonaState {
     personas: Persona[];
@@ -44,7 +44,7 @@ export const PersonaStore = signalStore(
         isSyncing: computed(() => store.loading() && store.hasData())
     })),
     
-    withMethods((store, personaService = inject(PersonaService)) => ({
+    withMethods((store, personaService = inject(PersonaService), undoStore = inject(UndoStore)) => ({
         async search(query: string, limit: number = 10): Promise<Persona[]> {
             const cacheKey = `${query}_${limit}`;
             const cached = store.searchCache().get(cacheKey);
@@ -131,9 +131,10 @@ export const PersonaStore = signalStore(
                     personaService.getPersonas(page, pageSize, searchTerm, sortColumn, sortOrder).pipe(
                         tapResponse({
                             next: (response) => {
+                                const pagina = paginaSinBorrados(undoStore, response);
                                 patchState(store, {
-                                    personas: response.items,
-                                    totalRecords: response.totalCount,
+                                    personas: pagina.items,
+                                    totalRecords: pagina.totalCount,
                                     loading: false,
                                     error: null,
                                     lastUpdated: Date.now(),
@@ -173,6 +174,9 @@ export const PersonaStore = signalStore(
                         lastUpdated: Date.now(),
                         searchCache: new Map()
                     });
+                    if (personaAnterior) {
+                        edicionConDeshacer(undoStore, store, 'personas', personaAnterior, { mensaje: 'Persona actualizada', revertir: (anterior) => personaService.update(id, anterior) });
+                    }
                     return response.value;
                 }
                 throw new Error(response.error?.message || 'Error al actualizar persona');
@@ -190,44 +194,13 @@ export const PersonaStore = signalStore(
             }
         },
 
-        deletePersona: rxMethod<string>(
-            pipe(
-                switchMap((id) => {
-                    // Guardar persona para rollback ANTES de eliminarlo
-                    const personaEliminada = store.personas().find(p => p.id === id);
-                    const totalAnterior = store.totalRecords();
-                    
-                    // Actualización optimista: eliminar inmediatamente
-                    patchState(store, (state) => ({
-                        personas: state.personas.filter((p) => p.id !== id),
-                        totalRecords: state.totalRecords - 1,
-                        searchCache: new Map()
-                    }));
-                    
-                    return personaService.delete(id).pipe(
-                        tapResponse({
-                            next: () => {
-                                patchState(store, { lastUpdated: Date.now() });
-                            },
-                            error: (err: ErrorResponse) => {
-                                console.error('[STORE] Error al eliminar persona:', err);
-                                
-                                // ROLLBACK: Restaurar persona eliminada
-                                if (personaEliminada) {
-                                    patchState(store, (state) => ({
-                                        personas: [...state.personas, personaEliminada].sort((a, b) => a.nombre.localeCompare(b.nombre)),
-                                        totalRecords: totalAnterior,
-                                        error: err.detail || 'Error al eliminar persona'
-                                    }));
-                                } else {
-                                    patchState(store, { error: err.detail || 'Error al eliminar persona' });
-                                }
-                            }
-                        })
-                    );
-                })
-            )
-        ),
+        deletePersona(id: string): void {
+            eliminarConDeshacer(undoStore, store, 'personas', id, {
+                mensaje: 'Persona eliminada',
+                eliminar: () => personaService.delete(id),
+                alEliminar: () => patchState(store, { lastUpdated: Date.now(), searchCache: new Map() })
+            });
+        },
 
         async getRecent(limit: number = 5): Promise<Persona[]> {
             patchState(store, { loading: true, error: null });
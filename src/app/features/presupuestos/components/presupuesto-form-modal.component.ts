@@ -0,0 +1,181 @@
+import { Component, inject, input, output, effect, ChangeDetectionStrategy, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { DialogModule } from 'primeng/dialog';
+import { ButtonModule } from 'primeng/button';
+import { InputNumberModule } from 'primeng/inputnumber';
+import { AutoCompleteModule, AutoCompleteCompleteEvent } from 'primeng/autocomplete';
+import { MessageService } from 'primeng/api';
+import { Presupuesto } from '@/core/models/presupuesto.model';
+import { CatalogRef } from '@/core/models/common.model';
+import { CategoriaStore } from '@/features/categorias/store/categoria.store';
+import { CuentaStore } from '@/features/cuentas/store/cuenta.store';
+import { ImportePipe } from '@/shared/pipes/importe.pipe';
+import { MonedaStore } from '@/core/stores/moneda.store';
+
+@Component({
+    selector: 'app-presupuesto-form-modal',
+    standalone: true,
+    imports: [CommonModule, FormsModule, DialogModule, ButtonModule, InputNumberModule, AutoCompleteModule, ImportePipe],
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    template: `
+        <p-dialog [(visible)]="isVisible" [style]="{ width: '500px' }" [header]="isEditMode() ? 'Editar Presupuesto' : 'Nuevo Presupuesto'" [modal]="true" [contentStyle]="{ padding: '2rem' }" (onHide)="onCancel()" styleClass="p-fluid">
+            <ng-template #content>
+                <div class="flex flex-col gap-4">
+                    <div>
+                        <label for="categoria" class="block font-bold mb-3">Categoría *</label>
+                        <p-autoComplete
+                            inputId="categoria"
+                            [(ngModel)]="selectedCategoria"
+                            [suggestions]="filteredCategorias()"
+                            (completeMethod)="searchCategorias($event)"
+                            optionLabel="nombre"
+                            [dropdown]="true"
+                            [forceSelection]="true"
+                            placeholder="Seleccionar categoría..."
+                            appendTo="body"
+                            fluid
+                        />
+                        @if (submitted() && !selectedCategoria) {
+                            <small class="text-red-500">La categoría es requerida.</small>
+                        }
+                    </div>
+
+                    <div>
+                        <label for="cuenta" class="block font-bold mb-3">Cuenta</label>
+                        <p-autoComplete
+                            inputId="cuenta"
+                            [(ngModel)]="selectedCuenta"
+                            [suggestions]="filteredCuentas()"
+                            (completeMethod)="searchCuentas($event)"
+                            optionLabel="nombre"
+                            [dropdown]="true"
+                            [forceSelection]="true"
+                            [showClear]="true"
+                            placeholder="Todas las cuentas"
+                            appendTo="body"
+                            fluid
+                        />
+                        <small class="text-500">Déjala vacía para limitar el gasto de la categoría en todas las cuentas.</small>
+                    </div>
+
+                    <div>
+                        <label for="limiteMensual" class="block font-bold mb-3">Límite mensual *</label>
+                        <p-inputNumber inputId="limiteMensual" [(ngModel)]="formData.limiteMensual" mode="currency" [currency]="monedaStore.monedaBase()" locale="es-ES" [min]="0" [minFractionDigits]="2" [maxFractionDigits]="2" [placeholder]="0 | importe" fluid />
+                        @if (submitted() && !(formData.limiteMensual! > 0)) {
+                            <small class="text-red-500">El límite debe ser mayor que 0.</small>
+                        }
+                    </div>
+                </div>
+            </ng-template>
+
+            <ng-template #footer>
+                <p-button label="Cancelar" icon="pi pi-times" text (click)="onCancel()" />
+                <p-button label="Guardar" icon="pi pi-check" (click)="onSave()" />
+            </ng-template>
+        </p-dialog>
+    `
+})
+export class PresupuestoFormModalComponent {
+    private messageService = inject(MessageService);
+    monedaStore = inject(MonedaStore);
+    private categoriaStore = inject(CategoriaStore);
+    private cuentaStore = inject(CuentaStore);
+
+    // Inputs/Outputs
+    visible = input<boolean>(false);
+    presupuesto = input<Partial<Presupuesto> | null>(null);
+    visibleChange = output<boolean>();
+    save = output<Partial<Presupuesto>>();
+    cancel = output<void>();
+
+    // Estado del formulario
+    formData: Partial<Presupuesto> = {};
+    submitted = signal(false);
+
+    selectedCategoria: CatalogRef | null = null;
+    selectedCuenta: CatalogRef | null = null;
+    filteredCategorias = signal<CatalogRef[]>([]);
+    filteredCuentas = signal<CatalogRef[]>([]);
+
+    isVisible = false;
+    isEditMode = signal(false);
+
+    constructor() {
+        effect(() => {
+            this.isVisible = this.visible();
+        });
+
+        effect(() => {
+            const presupuestoData = this.presupuesto();
+            if (presupuestoData) {
+                this.loadFormData();
+            }
+        });
+    }
+
+    private loadFormData() {
+        const presupuestoData = this.presupuesto();
+
+        if (presupuestoData?.id) {
+            // Modo edición
+            this.isEditMode.set(true);
+            this.formData = { ...presupuestoData };
+            this.selectedCategoria = presupuestoData.categoriaId ? { id: presupuestoData.categoriaId, nombre: presupuestoData.categoriaNombre || '' } : null;
+            this.selectedCuenta = presupuestoData.cuentaId ? { id: presupuestoData.cuentaId, nombre: presupuestoData.cuentaNombre || '' } : null;
+        } else {
+            // Modo creación
+            this.isEditMode.set(false);
+            this.formData = {};
+            this.selectedCategoria = null;
+            this.selectedCuenta = null;
+        }
+
+        this.submitted.set(false);
+    }
+
+    searchCategorias(event: AutoCompleteCompleteEvent) {
+        const query = event.query;
+        const peticion = !query || query.length < 2 ? this.categoriaStore.getRecent(5) : this.categoriaStore.search(query, 10);
+        peticion.then((data) => this.filteredCategorias.set(data)).catch(() => this.filteredCategorias.set([]));
+    }
+
+    searchCuentas(event: AutoCompleteCompleteEvent) {
+        const query = event.query;
+        const peticion = !query || query.length < 2 ? this.cuentaStore.getRecent(5) : this.cuentaStore.search(query, 10);
+        peticion.then((data) => this.filteredCuentas.set(data)).catch(() => this.filteredCuentas.set([]));
+    }
+
+    onSave() {
+        this.submitted.set(true);
+
+        if (!this.selectedCategoria || !(this.formData.limiteMensual! > 0)) {
+            this.messageService.add({
+                severity: 'warn',
+                summary: 'Advertencia',
+                detail: 'Por favor complete todos los campos requeridos'
+            });
+            return;
+        }
+
+        this.save.emit({
+            ...this.formData,
+            categoriaId: this.selectedCategoria.id,
+            categoriaNombre: this.selectedCategoria.nombre,
+            cuentaId: this.selectedCuenta?.id ?? null,
+            cuentaNombre: this.selectedCuenta?.nombre ?? null
+        });
+        this.closeModal();
+    }
+
+    onCancel() {
+        this.cancel.emit();
+        this.closeModal();
+    }
+
+    private closeModal() {
+        this.isVisible = false;
+        this.visibleChange.emit(false);
+        this.submitted.set(false);
+    }
+}
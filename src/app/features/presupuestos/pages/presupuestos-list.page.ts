@@ -0,0 +1,174 @@
+import { Component, inject, ChangeDetectionStrategy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ButtonModule } from 'primeng/button';
+import { MessageService, ConfirmationService } from 'primeng/api';
+import { TableModule } from 'primeng/table';
+import { ToolbarModule } from 'primeng/toolbar';
+import { TagModule } from 'primeng/tag';
+import { TooltipModule } from 'primeng/tooltip';
+import { PresupuestoStore } from '../store/presupuesto.store';
+import { EstadoPresupuesto, Presupuesto } from '@/core/models/presupuesto.model';
+import { PresupuestoFormModalComponent } from '../components/presupuesto-form-modal.component';
+import { BasePageComponent, BasePageTemplateComponent } from '@/shared/components';
+import { ImportePipe } from '@/shared/pipes/importe.pipe';
+
+@Component({
+    selector: 'app-presupuestos-list-page',
+    standalone: true,
+    imports: [CommonModule, ButtonModule, TableModule, ToolbarModule, TagModule, TooltipModule, PresupuestoFormModalComponent, BasePageTemplateComponent, ImportePipe],
+    providers: [MessageService, ConfirmationService],
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    template: `
+        <app-base-page-template [loading]="presupuestoStore.loading() && !presupuestoStore.hasData()" [skeletonType]="'table'">
+            <div class="card surface-ground px-4 py-5 md:px-6 lg:px-8">
+                <div class="surface-card shadow-2 border-round p-6">
+                    <p-toolbar styleClass="mb-6 gap-2 p-6">
+                        <ng-template #start>
+                            <p-button label="Nuevo Presupuesto" icon="pi pi-plus" severity="secondary" class="mr-2" (onClick)="openNew()" />
+                        </ng-template>
+
+                        <ng-template #end>
+                            <span class="text-500 mr-3">Total presupuestado: <span class="font-bold text-900">{{ presupuestoStore.limiteTotal() | importe }}</span></span>
+                            <p-button icon="pi pi-refresh" severity="secondary" outlined (onClick)="refresh()" pTooltip="Actualizar" [loading]="presupuestoStore.loadingProgreso()" />
+                        </ng-template>
+                    </p-toolbar>
+
+                    @if (presupuestoStore.monedasSinCambio().length > 0) {
+                        <p class="text-orange-500 text-sm mt-0 mb-4">Sin tipo de cambio para {{ presupuestoStore.monedasSinCambio().join(', ') }}: esos gastos no cuentan en el progreso</p>
+                    }
+
+                    <p-table [value]="presupuestoStore.progresos()" [tableStyle]="{ 'min-width': '50rem' }" styleClass="p-datatable-gridlines" [rowHover]="true" dataKey="presupuesto.id">
+                        <ng-template #caption>
+                            <div class="flex items-center justify-between py-3 px-4">
+                                <h5 class="m-0 font-semibold text-xl">Presupuestos Mensuales</h5>
+                            </div>
+                        </ng-template>
+
+                        <ng-template #header>
+                            <tr>
+                                <th style="min-width: 14rem; padding: 1rem">Categoría</th>
+                                <th style="min-width: 10rem">Cuenta</th>
+                                <th style="min-width: 10rem" class="text-right">Límite</th>
+                                <th style="min-width: 18rem">Este mes</th>
+                                <th style="min-width: 10rem">Acciones</th>
+                            </tr>
+                        </ng-template>
+
+                        <ng-template #body let-progreso>
+                            <tr>
+                                <td style="padding: 1rem">
+                                    <div class="flex items-center gap-2">
+                                        <i class="pi pi-tag text-primary"></i>
+                                        <span class="font-semibold">{{ progreso.presupuesto.categoriaNombre }}</span>
+                                    </div>
+                                </td>
+                                <td>{{ progreso.presupuesto.cuentaNombre || 'Todas' }}</td>
+                                <td class="text-right font-bold">{{ progreso.presupuesto.limiteMensual | importe }}</td>
+                                <td>
+                                    <div class="flex items-center justify-between mb-1 text-sm">
+                                        <span>{{ progreso.gastado | importe }}</span>
+                                        <p-tag [severity]="getSeverity(progreso.estado)" [value]="(progreso.porcentaje | number: '1.0-0') + '%'" />
+                                    </div>
+                                    <div class="surface-200 border-round" style="height: 8px">
+                                        <div [class]="'border-round h-full ' + getBarClass(progreso.estado)" [style.width.%]="Math.min(progreso.porcentaje, 100)"></div>
+                                    </div>
+                                </td>
+                                <td>
+                                    <p-button icon="pi pi-pencil" class="mr-2" [rounded]="true" [outlined]="true" (click)="editPresupuesto(progreso.presupuesto)" />
+                                    <p-button icon="pi pi-trash" severity="danger" [rounded]="true" [outlined]="true" (click)="deletePresupuesto(progreso.presupuesto)" />
+                                </td>
+                            </tr>
+                        </ng-template>
+
+                        <ng-template #emptymessage>
+                            <tr>
+                                <td colspan="5" style="padding: 2rem">
+                                    <div class="text-center py-8">
+                                        <i class="pi pi-wallet text-500 text-5xl mb-3"></i>
+                                        <p class="text-900 font-semibold text-xl mb-2">No hay presupuestos</p>
+                                        <p class="text-600 mb-4">Fija un límite mensual para controlar el gasto de tus categorías</p>
+                                        <p-button label="Crear Presupuesto" icon="pi pi-plus" (onClick)="openNew()" />
+                                    </div>
+                                </td>
+                            </tr>
+                        </ng-template>
+                    </p-table>
+
+                    <app-presupuesto-form-modal [visible]="presupuestoDialog" [presupuesto]="currentPresupuesto" (visibleChange)="presupuestoDialog = $event" (save)="onSavePresupuesto($event)" (cancel)="hideDialog()" />
+                </div>
+            </div>
+        </app-base-page-template>
+    `
+})
+export class PresupuestosListPage extends BasePageComponent implements OnInit {
+    presupuestoStore = inject(PresupuestoStore);
+
+    protected override skeletonType = 'table' as const;
+
+    presupuestoDialog: boolean = false;
+    currentPresupuesto: Partial<Presupuesto> = {};
+
+    Math = Math;
+
+    ngOnInit() {
+        this.presupuestoStore.loadPresupuestos();
+    }
+
+    refresh() {
+        this.presupuestoStore.loadProgreso();
+        this.showInfo('Datos actualizados', 'Actualización');
+    }
+
+    openNew() {
+        this.currentPresupuesto = {};
+        this.presupuestoDialog = true;
+    }
+
+    hideDialog() {
+        this.presupuestoDialog = false;
+        this.currentPresupuesto = {};
+    }
+
+    async onSavePresupuesto(presupuesto: Partial<Presupuesto>) {
+        const duplicado = this.presupuestoStore.presupuestos().some((p) => p.id !== presupuesto.id && p.categoriaId === presupuesto.categoriaId && p.cuentaId === presupuesto.cuentaId);
+        if (duplicado) {
+            this.showWarning('Ya existe un presupuesto para esa categoría y cuenta');
+            return;
+        }
+
+        if (presupuesto.id) {
+            try {
+                await this.presupuestoStore.update(presupuesto.id, presupuesto);
+                this.showSuccess('Presupuesto actualizado correctamente');
+                this.hideDialog();
+            } catch (error: any) {
+                this.showError(error.message || 'Error al actualizar el presupuesto');
+            }
+        } else {
+            try {
+                await this.presupuestoStore.create(presupuesto as Omit<Presupuesto, 'id'>);
+                this.showSuccess('Presupuesto creado correctamente');
+                this.hideDialog();
+            } catch (error: any) {
+                this.showError(error.message || 'Error al crear el presupuesto');
+            }
+        }
+    }
+
+    editPresupuesto(presupuesto: Presupuesto) {
+        this.currentPresupuesto = { ...presupuesto };
+        this.presupuestoDialog = true;
+    }
+
+    deletePresupuesto(presupuesto: Presupuesto) {
+        this.presupuestoStore.deletePresupuesto(presupuesto.id);
+    }
+
+    getSeverity(estado: EstadoPresupuesto): 'success' | 'warn' | 'danger' {
+        return estado === 'danger' ? 'danger' : estado === 'warning' ? 'warn' : 'success';
+    }
+
+    getBarClass(estado: EstadoPresupuesto): string {
+        return estado === 'danger' ? 'bg-red-500' : estado === 'warning' ? 'bg-orange-500' : 'bg-green-500';
+    }
+}
@@ -0,0 +1,8 @@
+import { Routes } from '@angular/router';
+
+export default [
+    {
+        path: '',
+        loadComponent: () => import('./pages/presupuestos-list.page').then((m) => m.PresupuestosListPage)
+    }
+] as Routes;
@@ -0,0 +1,236 @@
+import { computed, effect, inject, untracked } from '@angular/core';
+import { signalStore, withState, withMethods, patchState, withComputed, withHooks } from '@ngrx/signals';
+import { firstValueFrom, pipe, switchMap, tap } from 'rxjs';
+import { rxMethod } from '@ngrx/signals/rxjs-interop';
+import { tapResponse } from '@ngrx/operators';
+import { PresupuestoService } from '@/core/services/api/presupuesto.service';
+import { GastoService } from '@/core/services/api/gasto.service';
+import { ExportService } from '@/core/services/export.service';
+import { Presupuesto } from '@/core/models/presupuesto.model';
+import { Gasto } from '@/core/models/gasto.model';
+import { UndoStore, edicionConDeshacer, eliminarConDeshacer } from '@/core/stores/undo.store';
+import { CategoriaGasto } from '@/core/models/dashboard.model';
+import { alertasPresupuestos, calcularProgresos } from '@/shared/utils/presupuestos.util';
+import { GastosStore } from '@/features/gastos/stores/gastos.store';
+import { MonedaStore } from '@/core/stores/moneda.store';
+import { MONEDA_POR_DEFECTO } from '@/core/models/moneda.model';
+import { gastoPorCategoria } from '@/features/gastos/gastos.split';
+
+interface PresupuestoState {
+    presupuestos: Presupuesto[];
+    // Gasto del mes por categoría; '' = todas las cuentas
+    gastosPorCuenta: Record<string, CategoriaGasto[]>;
+    // Monedas de gastos del mes sin tipo de cambio a la moneda base: no cuentan en el progreso
+    monedasSinCambio: string[];
+    loading: boolean;
+    loadingProgreso: boolean;
+    error: string | null;
+    lastUpdated: number | null;
+}
+
+const initialState: PresupuestoState = {
+    presupuestos: [],
+    gastosPorCuenta: {},
+    monedasSinCambio: [],
+    loading: false,
+    loadingProgreso: false,
+    error: null,
+    lastUpdated: null
+};
+
+function rangoMesActual(): { fechaInicio: string; fechaFin: string } {
+    const hoy = new Date();
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const ultimoDia = new Date(hoy.getFullYear(), hoy.getMonth() + 1, 0).getDate();
+    const mes = `${hoy.getFullYear()}-${pad(hoy.getMonth() + 1)}`;
+
+    return { fechaInicio: `${mes}-01`, fechaFin: `${mes}-${pad(ultimoDia)}` };
+}
+
+/**
+ * Signal Store de presupuestos mensuales por categoría
+ * El progreso se calcula con todos los gastos del mes, repartiendo los divididos por líneas
+ */
+export const PresupuestoStore = signalStore(
+    { providedIn: 'root' },
+    withState(initialState),
+
+    withComputed((store) => ({
+        totalPresupuestos: computed(() => store.presupuestos().length),
+        hasData: computed(() => store.presupuestos().length > 0),
+        limiteTotal: computed(() => store.presupuestos().reduce((total, p) => total + p.limiteMensual, 0)),
+        progresos: computed(() => calcularProgresos(store.presupuestos(), store.gastosPorCuenta()))
+    })),
+
+    withComputed((store, monedaStore = inject(MonedaStore)) => ({
+        alertas: computed(() => alertasPresupuestos(store.progresos(), monedaStore.monedaBase()))
+    })),
+
+    withMethods((store, presupuestoService = inject(PresupuestoService), gastoService = inject(GastoService), exportService = inject(ExportService), undoStore = inject(UndoStore), monedaStore = inject(MonedaStore)) => {
+        // Solo se aplica el cálculo de la última carga
+        let cargaProgreso = 0;
+
+        return {
+            loadPresupuestos: rxMethod<void>(
+                pipe(
+                    tap(() => patchState(store, { loading: true, error: null })),
+                    switchMap(() =>
+                        presupuestoService.getPresupuestos().pipe(
+                            tapResponse({
+                                next: (presupuestos) => {
+                                    patchState(store, {
+                                        presupuestos: undoStore.sinBorradosPendientes(presupuestos),
+                                        loading: false,
+                                        lastUpdated: Date.now()
+                                    });
+                                },
+                                error: (error: any) => {
+                                    console.error('[STORE] Error al cargar presupuestos:', error);
+                                    patchState(store, {
+                                        loading: false,
+                                        error: error.userMessage || 'Error al cargar presupuestos'
+                                    });
+                                }
+                            })
+                        )
+                    )
+                )
+            ),
+
+            /**
+             * Carga el gasto del mes actual por categoría, en total y para cada cuenta con presupuesto propio
+             * El top de categorías del resumen no vale: deja fuera las de poco gasto
+             * Los importes se pasan a la moneda base, la de los límites
+             */
+            async loadProgreso(): Promise<void> {
+                const carga = ++cargaProgreso;
+                if (store.presupuestos().length === 0) {
+                    patchState(store, { gastosPorCuenta: {} });
+                    return;
+                }
+
+                const { fechaInicio, fechaFin } = rangoMesActual();
+                const cuentas = [...new Set(store.presupuestos().map((p) => p.cuentaId).filter((id): id is string => !!id))];
+
+                patchState(store, { loadingProgreso: true });
+                try {
+                    const gastos = await exportService.fetchAll((page, pageSize) => gastoService.getGastos(page, pageSize, undefined, undefined, undefined, undefined, { fechaInicio, fechaFin }));
+                    if (carga !== cargaProgreso) return;
+
+                    const base = monedaStore.monedaBase();
+                    const aBase = (importe: number, gasto: Gasto) => monedaStore.convertir(importe, gasto.moneda, base);
+                    const sinCambio = gastos.filter((g) => aBase(g.importe, g) === null).map((g) => g.moneda || MONEDA_POR_DEFECTO);
+
+                    const gastosPorCuenta: Record<string, CategoriaGasto[]> = { '': gastoPorCategoria(gastos, aBase) };
+                    cuentas.forEach((cuentaId) => (gastosPorCuenta[cuentaId] = gastoPorCategoria(gastos.filter((g) => g.cuentaId === cuentaId), aBase)));
+
+                    patchState(store, { gastosPorCuenta, monedasSinCambio: [...new Set(sinCambio)], loadingProgreso: false });
+                } catch (error: any) {
+                    console.error('[STORE] Error al calcular el progreso de los presupuestos:', error);
+                    if (carga !== cargaProgreso) return;
+                    patchState(store, { loadingProgreso: false, error: error.userMessage || 'Error al calcular el progreso de los presupuestos' });
+                }
+            },
+
+            async create(presupuesto: Omit<Presupuesto, 'id'>): Promise<string> {
+                patchState(store, { loading: true, error: null });
+                try {
+                    const response = await firstValueFrom(
+                        presupuestoService.create({
+                            categoriaId: presupuesto.categoriaId,
+                            cuentaId: presupuesto.cuentaId,
+                            limiteMensual: presupuesto.limiteMensual
+                        })
+                    );
+
+                    if (response.isSuccess && response.value) {
+                        patchState(store, {
+                            presupuestos: [...store.presupuestos(), { ...presupuesto, id: response.value }],
+                            loading: false,
+                            lastUpdated: Date.now()
+                        });
+                        return response.value;
+                    }
+                    throw new Error(response.error?.message || 'Error al crear presupuesto');
+                } catch (err: any) {
+                    patchState(store, { loading: false, error: err.userMessage || (err as Error).message });
+                    throw err;
+                }
+            },
+
+            async update(id: string, presupuesto: Partial<Presupuesto>): Promise<string> {
+                // Actualización optimista
+                const presupuestoAnterior = store.presupuestos().find((p) => p.id === id);
+
+                if (presupuestoAnterior) {
+                    patchState(store, {
+                        presupuestos: store.presupuestos().map((p) => (p.id === id ? { ...p, ...presupuesto } : p)),
+                        loading: true,
+                        error: null
+                    });
+                }
+
+                try {
+                    const response = await firstValueFrom(
+                        presupuestoService.update(id, {
+                            categoriaId: presupuesto.categoriaId,
+                            cuentaId: presupuesto.cuentaId,
+                            limiteMensual: presupuesto.limiteMensual
+                        })
+                    );
+
+                    if (response.isSuccess) {
+                        patchState(store, { loading: false, lastUpdated: Date.now() });
+                        if (presupuestoAnterior) {
+                            edicionConDeshacer(undoStore, store, 'presupuestos', presupuestoAnterior, {
+                                mensaje: 'Presupuesto actualizado',
+                                revertir: (anterior) => presupuestoService.update(id, { categoriaId: anterior.categoriaId, cuentaId: anterior.cuentaId, limiteMensual: anterior.limiteMensual })
+                            });
+                        }
+                        return response.value;
+                    }
+                    throw new Error(response.error?.message || 'Error al actualizar presupuesto');
+                } catch (err: any) {
+                    // Revertir actualización optimista
+                    if (presupuestoAnterior) {
+                        patchState(store, {
+                            presupuestos: store.presupuestos().map((p) => (p.id === id ? presupuestoAnterior : p))
+                        });
+                    }
+                    patchState(store, { loading: false, error: err.userMessage || (err as Error).message });
+                    throw err;
+                }
+            },
+
+            deletePresupuesto(id: string): void {
+                eliminarConDeshacer(undoStore, store, 'presupuestos', id, {
+                    mensaje: 'Presupuesto eliminado',
+                    eliminar: () => presupuestoService.delete(id),
+                    alEliminar: () => patchState(store, { lastUpdated: Date.now() })
+                });
+            },
+
+            clearError() {
+                patchState(store, { error: null });
+            }
+        };
+    }),
+
+    withHooks({
+        onInit(store) {
+            const gastosStore = inject(GastosStore);
+            const monedaStore = inject(MonedaStore);
+
+            // Recalcular el progreso cuando cambian los presupuestos o la moneda base, o se crea, edita o borra un gasto (no al paginar)
+            effect(() => {
+                const presupuestosUpdated = store.lastUpdated();
+                const gastosModified = gastosStore.lastModified();
+                monedaStore.monedaBase();
+
+                if (presupuestosUpdated || gastosModified) {
+                    untracked(() => store.loadProgreso());
+                }
+            });
+        }
+    })
+);
@@ -6,7 +6,7 @@ import { tap, switchMap } from 'rxjs/operators';
 import { tapResponse } from '@ngrx/operators';
 import { ProveedorService } from '@/core/services/api/proveedor.service';
 import { Proveedor } from '@/core/models/proveedor.model';
-import { ErrorResponse } from '@/core/models/error-response.model';
+import { UndoStore, edicionConDeshacer, eliminarConDeshacer, paginaSinBorrados } from '@/core/stores/undo.store';
 
 interface ProveedorState {
     proveedores: Proveedor[];
@@ -39,7 +39,7 @@ export const ProveedorStore = signalStore(
         isSyncing: computed(() => store.loading() && store.hasData())
     })),
 
-    withMethods((store, proveedorService = inject(ProveedorService)) => ({
+    withMethods((store, proveedorService = inject(ProveedorService), undoStore = inject(UndoStore)) => ({
         async search(query: string, limit: number = 10): Promise<Proveedor[]> {
             const cacheKey = `${query}_${limit}`;
             const cached = store.searchCache().get(cacheKey);
@@ -116,9 +116,10 @@ export const ProveedorStore = signalStore(
                     proveedorService.getProveedores(page, pageSize, searchTerm, sortColumn, sortOrder).pipe(
                         tapResponse({
                             next: (response) => {
+                                const pagina = paginaSinBorrados(undoStore, response);
                                 patchState(store, {
-                                    proveedores: response.items,
-                                    totalRecords: response.totalCount,
+                                    proveedores: pagina.items,
+                                    totalRecords: pagina.totalCount,
                                     loading: false,
                                     error: null,
                                     lastUpdated: Date.now(),
@@ -158,6 +159,9 @@ export const ProveedorStore = signalStore(
                         lastUpdated: Date.now(),
                         searchCache: new Map()
                     });
+                    if (proveedorAnterior) {
+                        edicionConDeshacer(undoStore, store, 'proveedores', proveedorAnterior, { mensaje: 'Proveedor actualizado', revertir: (anterior) => proveedorService.update(id, anterior) });
+                    }
                     return response.value;
                 }
                 throw new Error(response.error?.message || 'Error al actualizar proveedor');
@@ -175,44 +179,13 @@ export const ProveedorStore = signalStore(
             }
         },
 
-        deleteProveedor: rxMethod<string>(
-            pipe(
-                switchMap((id) => {
-                    // Guardar proveedor para rollback ANTES de eliminarlo
-                    const proveedorEliminado = store.proveedores().find(p => p.id === id);
-                    const totalAnterior = store.totalRecords();
-                    
-                    // Actualización optimista: eliminar inmediatamente
-                    patchState(store, (state) => ({
-                        proveedores: state.proveedores.filter((p) => p.id !== id),
-                        totalRecords: state.totalRecords - 1,
-                        searchCache: new Map()
-                    }));
-                    
-                    return proveedorService.delete(id).pipe(
-                        tapResponse({
-                            next: () => {
-                                patchState(store, { lastUpdated: Date.now() });
-                            },
-                            error: (err: ErrorResponse) => {
-                                console.error('[STORE] Error al eliminar proveedor:', err);
-                                
-                                // ROLLBACK: Restaurar proveedor eliminado
-                                if (proveedorEliminado) {
-                                    patchState(store, (state) => ({
-                                        proveedores: [...state.proveedores, proveedorEliminado].sort((a, b) => a.nombre.localeCompare(b.nombre)),
-                                        totalRecords: totalAnterior,
-                                        error: err.detail || 'Error al eliminar proveedor'
-                                    }));
-                                } else {
-                                    patchState(store, { error: err.detail || 'Error al eliminar proveedor' });
-                                }
-                            }
-                        })
-                    );
-                })
-            )
-        ),
+        deleteProveedor(id: string): void {
+            eliminarConDeshacer(undoStore, store, 'proveedores', id, {
+                mensaje: 'Proveedor eliminado',
+                eliminar: () => proveedorService.delete(id),
+                alEliminar: () => patchState(store, { lastUpdated: Date.now(), searchCache: new Map() })
+            });
+        },
 
         async getRecent(limit: number = 5): Promise<Proveedor[]> {
             patchState(store, { loading: true, error: null });
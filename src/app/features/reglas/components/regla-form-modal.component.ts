@@ -0,0 +1,366 @@
+import { Component, inject, input, output, effect, ChangeDetectionStrategy, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { DrawerModule } from 'primeng/drawer';
+import { ButtonModule } from 'primeng/button';
+import { InputTextModule } from 'primeng/inputtext';
+import { InputNumberModule } from 'primeng/inputnumber';
+import { SelectModule } from 'primeng/select';
+import { SelectButtonModule } from 'primeng/selectbutton';
+import { ToggleSwitchModule } from 'primeng/toggleswitch';
+import { AutoCompleteModule, AutoCompleteCompleteEvent } from 'primeng/autocomplete';
+import { TableModule } from 'primeng/table';
+import { TagModule } from 'primeng/tag';
+import { MessageService } from 'primeng/api';
+import { CatalogRef } from '@/core/models/common.model';
+import { AmbitoRegla, CampoAccionRegla, MovimientoReciente, Regla, ReglaAcciones, ReglaCondiciones } from '@/core/models/regla.model';
+import { cumpleRegla, validarRegex } from '@/shared/utils/reglas.util';
+
+// Stores
+import { ReglaStore } from '../store/regla.store';
+import { ConceptoStore } from '@/features/conceptos/store/concepto.store';
+import { CategoriaStore } from '@/features/categorias/store/categoria.store';
+import { CuentaStore } from '@/features/cuentas/store/cuenta.store';
+import { FormaPagoStore } from '@/features/formas-pago/store/forma-pago.store';
+import { PersonaStore } from '@/features/personas/store/persona.store';
+import { ProveedorStore } from '@/features/proveedores/store/proveedor.store';
+import { ClienteStore } from '@/features/clientes/store/cliente.store';
+import { ImportePipe } from '@/shared/pipes/importe.pipe';
+import { MonedaStore } from '@/core/stores/moneda.store';
+
+interface CatalogSearch {
+    search(query: string, limit: number): Promise<CatalogRef[]>;
+    getRecent(limit: number): Promise<CatalogRef[]>;
+}
+
+type CampoCatalogoRegla = CampoAccionRegla | 'cuenta';
+
+const LIMITE_PRUEBA = 100;
+
+function condicionesVacias(): ReglaCondiciones {
+    return { ambito: 'gasto', texto: '', modoTexto: 'contiene', importeMin: null, importeMax: null, cuenta: null };
+}
+
+function accionesVacias(): ReglaAcciones {
+    return { concepto: null, categoria: null, proveedor: null, cliente: null, persona: null, formaPago: null };
+}
+
+@Component({
+    selector: 'app-regla-form-modal',
+    standalone: true,
+    imports: [CommonModule, FormsModule, DrawerModule, ButtonModule, InputTextModule, InputNumberModule, SelectModule, SelectButtonModule, ToggleSwitchModule, AutoCompleteModule, TableModule, TagModule, ImportePipe],
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    template: `
+        <p-drawer [(visible)]="isVisible" position="right" [style]="{ width: '720px', maxWidth: '100vw' }" [modal]="true" [blockScroll]="true" (onHide)="onCancel()" styleClass="p-sidebar-md surface-ground">
+            <ng-template pTemplate="header">
+                <div class="flex align-items-center gap-2">
+                    <span class="font-bold text-xl text-900">{{ isEditMode() ? 'Editar Regla' : 'Nueva Regla' }}</span>
+                </div>
+            </ng-template>
+
+            <div class="grid grid-cols-12 gap-4 p-fluid py-2">
+                <div class="col-span-12 md:col-span-9 field">
+                    <label for="nombre" class="font-semibold text-gray-700 block mb-2">Nombre *</label>
+                    <input id="nombre" pInputText [(ngModel)]="nombre" placeholder="Ej: Compras Mercadona" class="w-full" />
+                    @if (submitted() && !nombre.trim()) {
+                        <small class="text-red-500 block mt-1">El nombre es requerido.</small>
+                    }
+                </div>
+                <div class="col-span-12 md:col-span-3 field flex flex-col">
+                    <label for="activa" class="font-semibold text-gray-700 block mb-2">Activa</label>
+                    <p-toggleswitch inputId="activa" [(ngModel)]="activa" />
+                </div>
+
+                <div class="col-span-12 mt-2">
+                    <h5 class="text-xs font-bold text-500 uppercase tracking-wider border-b border-gray-200 pb-2 mb-2">Si el movimiento cumple...</h5>
+                </div>
+
+                <div class="col-span-12 field">
+                    <label class="font-medium text-gray-700 block mb-2 text-sm">Aplicar a</label>
+                    <p-selectbutton [options]="ambitos" optionLabel="label" optionValue="value" [(ngModel)]="condiciones.ambito" [allowEmpty]="false" />
+                </div>
+
+                <div class="col-span-12 md:col-span-4 field">
+                    <label class="font-medium text-gray-700 block mb-2 text-sm">Texto</label>
+                    <p-select [options]="modosTexto" optionLabel="label" optionValue="value" [(ngModel)]="condiciones.modoTexto" styleClass="w-full" appendTo="body" />
+                </div>
+                <div class="col-span-12 md:col-span-8 field">
+                    <label class="font-medium text-gray-700 block mb-2 text-sm">{{ condiciones.modoTexto === 'regex' ? 'Expresión regular' : 'Descripción o concepto contiene' }}</label>
+                    <input pInputText [(ngModel)]="condiciones.texto" [placeholder]="condiciones.modoTexto === 'regex' ? '^(MERCADONA|CONSUM)' : 'MERCADONA'" class="w-full" />
+                    @if (regexError()) {
+                        <small class="text-red-500 block mt-1">{{ regexError() }}</small>
+                    }
+                </div>
+
+                <div class="col-span-12 md:col-span-6 field">
+                    <label class="font-medium text-gray-700 block mb-2 text-sm">Importe desde</label>
+                    <p-inputNumber [(ngModel)]="condiciones.importeMin" mode="currency" [currency]="monedaStore.monedaBase()" locale="es-ES" [min]="0" placeholder="Sin mínimo" styleClass="w-full" class="w-full" />
+                </div>
+                <div class="col-span-12 md:col-span-6 field">
+                    <label class="font-medium text-gray-700 block mb-2 text-sm">Importe hasta</label>
+                    <p-inputNumber [(ngModel)]="condiciones.importeMax" mode="currency" [currency]="monedaStore.monedaBase()" locale="es-ES" [min]="0" placeholder="Sin máximo" styleClass="w-full" class="w-full" />
+                </div>
+
+                <div class="col-span-12 field">
+                    <label class="font-medium text-gray-700 block mb-2 text-sm">Cuenta</label>
+                    <ng-container *ngTemplateOutlet="catalogo; context: { campo: 'cuenta', valor: condiciones.cuenta, placeholder: 'Cualquier cuenta' }" />
+                </div>
+
+                <div class="col-span-12 mt-2">
+                    <h5 class="text-xs font-bold text-500 uppercase tracking-wider border-b border-gray-200 pb-2 mb-2">...entonces asignar</h5>
+                </div>
+
+                @for (accion of accionesVisibles(); track accion.key) {
+                    <div class="col-span-12 md:col-span-6 field">
+                        <label class="font-medium text-gray-700 block mb-2 text-sm">{{ accion.label }}</label>
+                        <ng-container *ngTemplateOutlet="catalogo; context: { campo: accion.key, valor: acciones[accion.key], placeholder: 'Sin cambios' }" />
+                    </div>
+                }
+                @if (submitted() && !tieneAcciones()) {
+                    <small class="col-span-12 text-red-500">Indica al menos un campo a asignar.</small>
+                }
+
+                <div class="col-span-12 mt-2">
+                    <div class="flex items-center justify-between border-b border-gray-200 pb-2 mb-2">
+                        <h5 class="text-xs font-bold text-500 uppercase tracking-wider m-0">Vista previa</h5>
+                        <p-button label="Probar con los últimos {{ limitePrueba }} movimientos" icon="pi pi-play" size="small" [text]="true" [loading]="probando()" (onClick)="probar()" />
+                    </div>
+
+                    @if (coincidencias(); as lista) {
+                        <p class="text-sm text-muted-color mb-2">{{ lista.length }} de {{ movimientosPrueba().length }} movimientos cumplen la regla.</p>
+                        @if (lista.length > 0) {
+                            <p-table [value]="lista" [scrollable]="true" scrollHeight="300px" styleClass="p-datatable-sm">
+                                <ng-template #header>
+                                    <tr>
+                                        <th>Fecha</th>
+                                        <th>Movimiento</th>
+                                        <th class="text-right">Importe</th>
+                                        <th>Cambios</th>
+                                    </tr>
+                                </ng-template>
+                                <ng-template #body let-mov>
+                                    <tr>
+                                        <td class="whitespace-nowrap">{{ mov.fecha | date: 'dd/MM/yyyy' }}</td>
+                                        <td>
+                                            <div class="font-semibold">{{ mov.conceptoNombre }}</div>
+                                            <div class="text-xs text-muted-color truncate" style="max-width: 14rem">{{ mov.descripcion }}</div>
+                                        </td>
+                                        <td class="text-right whitespace-nowrap" [class.text-red-600]="mov.tipo === 'gasto'" [class.text-green-600]="mov.tipo === 'ingreso'">
+                                            {{ mov.importe | importe }}
+                                        </td>
+                                        <td class="text-xs">
+                                            @if (mov.conceptoNombre !== acciones.concepto?.nombre && acciones.concepto) {
+                                                <div>Concepto → {{ acciones.concepto.nombre }}</div>
+                                            }
+                                            @if (mov.categoriaNombre !== acciones.categoria?.nombre && acciones.categoria) {
+                                                <div>{{ mov.categoriaNombre || '—' }} → {{ acciones.categoria.nombre }}</div>
+                                            }
+                                        </td>
+                                    </tr>
+                                </ng-template>
+                            </p-table>
+                        }
+                    }
+                </div>
+            </div>
+
+            <ng-template #catalogo let-campo="campo" let-valor="valor" let-placeholder="placeholder">
+                <p-autoComplete
+                    [ngModel]="valor"
+                    [suggestions]="sugerencias()"
+                    (completeMethod)="buscar(campo, $event)"
+                    (onSelect)="seleccionar(campo, $event.value)"
+                    (onClear)="seleccionar(campo, null)"
+                    optionLabel="nombre"
+                    [placeholder]="placeholder"
+                    [dropdown]="true"
+                    [forceSelection]="true"
+                    [showClear]="true"
+                    appendTo="body"
+                    styleClass="w-full"
+                    class="w-full"
+                />
+            </ng-template>
+
+            <ng-template pTemplate="footer">
+                <div class="flex justify-end gap-2 p-3 surface-border border-top-1">
+                    <p-button label="Cancelar" icon="pi pi-times" [text]="true" severity="secondary" (onClick)="onCancel()" />
+                    <p-button label="Guardar Regla" icon="pi pi-check" (onClick)="onSave()" />
+                </div>
+            </ng-template>
+        </p-drawer>
+    `
+})
+export class ReglaFormModalComponent {
+    private messageService = inject(MessageService);
+    monedaStore = inject(MonedaStore);
+    private reglaStore = inject(ReglaStore);
+
+    private readonly buscadores: Record<CampoCatalogoRegla, CatalogSearch> = {
+        concepto: inject(ConceptoStore),
+        categoria: inject(CategoriaStore),
+        cuenta: inject(CuentaStore),
+        formaPago: inject(FormaPagoStore),
+        persona: inject(PersonaStore),
+        proveedor: inject(ProveedorStore),
+        cliente: inject(ClienteStore)
+    };
+
+    // Inputs/Outputs
+    visible = input<boolean>(false);
+    regla = input<Partial<Regla> | null>(null);
+    visibleChange = output<boolean>();
+    save = output<Partial<Regla>>();
+    cancel = output<void>();
+
+    readonly limitePrueba = LIMITE_PRUEBA;
+    readonly ambitos: { label: string; value: AmbitoRegla }[] = [
+        { label: 'Gastos', value: 'gasto' },
+        { label: 'Ingresos', value: 'ingreso' },
+        { label: 'Ambos', value: 'ambos' }
+    ];
+    readonly modosTexto = [
+        { label: 'Contiene', value: 'contiene' },
+        { label: 'Expresión regular', value: 'regex' }
+    ];
+    private readonly todasLasAcciones: { key: CampoAccionRegla; label: string; ambito?: AmbitoRegla }[] = [
+        { key: 'concepto', label: 'Concepto' },
+        { key: 'categoria', label: 'Categoría' },
+        { key: 'proveedor', label: 'Proveedor', ambito: 'gasto' },
+        { key: 'cliente', label: 'Cliente', ambito: 'ingreso' },
+        { key: 'persona', label: 'Persona' },
+        { key: 'formaPago', label: 'Forma de pago' }
+    ];
+
+    // Estado del formulario
+    nombre = '';
+    activa = true;
+    condiciones: ReglaCondiciones = condicionesVacias();
+    acciones: ReglaAcciones = accionesVacias();
+    submitted = signal(false);
+    isEditMode = signal(false);
+    isVisible = false;
+
+    sugerencias = signal<CatalogRef[]>([]);
+    probando = signal(false);
+    movimientosPrueba = signal<MovimientoReciente[]>([]);
+    coincidencias = signal<MovimientoReciente[] | null>(null);
+
+    constructor() {
+        effect(() => {
+            this.isVisible = this.visible();
+        });
+
+        effect(() => {
+            const regla = this.regla();
+            if (regla) {
+                this.loadFormData(regla);
+            }
+        });
+    }
+
+    private loadFormData(regla: Partial<Regla>) {
+        this.isEditMode.set(!!regla.id);
+        this.nombre = regla.nombre ?? '';
+        this.activa = regla.activa ?? true;
+        this.condiciones = { ...condicionesVacias(), ...regla.condiciones };
+        this.acciones = { ...accionesVacias(), ...regla.acciones };
+        this.coincidencias.set(null);
+        this.submitted.set(false);
+    }
+
+    buscar(campo: CampoCatalogoRegla, event: AutoCompleteCompleteEvent) {
+        const buscador = this.buscadores[campo];
+        const query = event.query;
+        const peticion = !query || query.length < 2 ? buscador.getRecent(5) : buscador.search(query, 10);
+
+        peticion.then((data) => this.sugerencias.set(data)).catch(() => this.sugerencias.set([]));
+    }
+
+    seleccionar(campo: CampoCatalogoRegla, valor: (CatalogRef & { categoriaId?: string; categoriaNombre?: string }) | null) {
+        const ref = valor ? { id: valor.id, nombre: valor.nombre } : null;
+
+        if (campo === 'cuenta') {
+            this.condiciones = { ...this.condiciones, cuenta: ref };
+            return;
+        }
+
+        this.acciones = { ...this.acciones, [campo]: ref };
+
+        // El concepto arrastra su categoría si no se ha indicado otra
+        if (campo === 'concepto' && valor?.categoriaId && valor.categoriaNombre && !this.acciones.categoria) {
+            this.acciones = { ...this.acciones, categoria: { id: valor.categoriaId, nombre: valor.categoriaNombre } };
+        }
+    }
+
+    // Proveedor solo para gastos y cliente solo para ingresos
+    accionesVisibles() {
+        return this.todasLasAcciones.filter((a) => !a.ambito || this.condiciones.ambito === 'ambos' || a.ambito === this.condiciones.ambito);
+    }
+
+    regexError(): string | null {
+        return this.condiciones.modoTexto === 'regex' && this.condiciones.texto ? validarRegex(this.condiciones.texto) : null;
+    }
+
+    tieneAcciones(): boolean {
+        return Object.values(this.acciones).some((v) => !!v);
+    }
+
+    async probar() {
+        if (this.regexError()) return;
+
+        if (this.movimientosPrueba().length === 0) {
+            this.probando.set(true);
+            try {
+                this.movimientosPrueba.set(await this.reglaStore.loadUltimosMovimientos(LIMITE_PRUEBA));
+            } catch {
+                this.messageService.add({ severity: 'error', summary: 'Error', detail: 'No se han podido cargar los últimos movimientos' });
+                return;
+            } finally {
+                this.probando.set(false);
+            }
+        }
+
+        const borrador = this.buildRegla();
+        this.coincidencias.set(this.movimientosPrueba().filter((m) => cumpleRegla(borrador, m)));
+    }
+
+    onSave() {
+        this.submitted.set(true);
+        if (!this.nombre.trim() || !this.tieneAcciones() || this.regexError()) {
+            this.messageService.add({ severity: 'warn', summary: 'Incompleto', detail: 'Por favor complete todos los campos requeridos.' });
+            return;
+        }
+
+        this.save.emit({ ...this.buildRegla(), id: this.regla()?.id });
+        this.closeModal();
+    }
+
+    onCancel() {
+        this.cancel.emit();
+        this.closeModal();
+    }
+
+    private buildRegla(): Regla {
+        const ambito = this.condiciones.ambito;
+
+        return {
+            id: this.regla()?.id ?? '',
+            nombre: this.nombre.trim(),
+            activa: this.activa,
+            condiciones: { ...this.condiciones, texto: this.condiciones.texto?.trim() || null },
+            // Se descartan las acciones que no aplican al ámbito elegido
+            acciones: {
+                ...this.acciones,
+                proveedor: ambito === 'ingreso' ? null : this.acciones.proveedor,
+                cliente: ambito === 'gasto' ? null : this.acciones.cliente
+            }
+        };
+    }
+
+    private closeModal() {
+        this.isVisible = false;
+        this.visibleChange.emit(false);
+        this.submitted.set(false);
+    }
+}
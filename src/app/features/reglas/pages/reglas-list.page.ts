@@ -0,0 +1,184 @@
+import { Component, inject, ChangeDetectionStrategy, signal, computed } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ButtonModule } from 'primeng/button';
+import { MessageService, ConfirmationService } from 'primeng/api';
+import { TableModule, TableRowReorderEvent } from 'primeng/table';
+import { ToolbarModule } from 'primeng/toolbar';
+import { TagModule } from 'primeng/tag';
+import { ToggleSwitchModule } from 'primeng/toggleswitch';
+import { TooltipModule } from 'primeng/tooltip';
+import { ReglaStore } from '../store/regla.store';
+import { Regla } from '@/core/models/regla.model';
+import { ReglaFormModalComponent } from '../components/regla-form-modal.component';
+import { BasePageComponent, BasePageTemplateComponent } from '@/shared/components';
+import { CAMPOS_ACCION_REGLA } from '@/shared/utils/reglas.util';
+import { MonedaStore } from '@/core/stores/moneda.store';
+import { formatearImporte } from '@/shared/utils/monedas.util';
+
+const ETIQUETAS_ACCION: Record<string, string> = {
+    concepto: 'Concepto',
+    categoria: 'Categoría',
+    proveedor: 'Proveedor',
+    cliente: 'Cliente',
+    persona: 'Persona',
+    formaPago: 'Forma de pago'
+};
+
+@Component({
+    selector: 'app-reglas-list-page',
+    standalone: true,
+    imports: [CommonModule, FormsModule, ButtonModule, TableModule, ToolbarModule, TagModule, ToggleSwitchModule, TooltipModule, ReglaFormModalComponent, BasePageTemplateComponent],
+    providers: [MessageService, ConfirmationService],
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    template: `
+        <app-base-page-template [loading]="false">
+            <div class="card surface-ground px-4 py-5 md:px-6 lg:px-8">
+                <div class="surface-card shadow-2 border-round p-6">
+                    <p-toolbar class="mb-6 gap-2 p-6">
+                        <ng-template #start>
+                            <p-button label="Nueva Regla" icon="pi pi-plus" severity="secondary" class="mr-2" (onClick)="openNew()" />
+                        </ng-template>
+                        <ng-template #end>
+                            <span class="text-sm text-muted-color">Las reglas se evalúan en orden: arrastra para cambiar la prioridad</span>
+                        </ng-template>
+                    </p-toolbar>
+
+                    <p-table [value]="reglas()" (onRowReorder)="onRowReorder($event)" dataKey="id" [tableStyle]="{ 'min-width': '60rem' }" class="p-datatable-gridlines" [rowHover]="true">
+                        <ng-template #caption>
+                            <div class="flex items-center justify-between py-3 px-4">
+                                <h5 class="m-0 font-semibold text-xl">Reglas de auto-categorización</h5>
+                            </div>
+                        </ng-template>
+
+                        <ng-template #header>
+                            <tr>
+                                <th style="width: 3rem"></th>
+                                <th style="width: 3rem">#</th>
+                                <th style="min-width: 12rem">Nombre</th>
+                                <th>Condiciones</th>
+                                <th>Asigna</th>
+                                <th style="width: 6rem">Activa</th>
+                                <th style="width: 9rem">Acciones</th>
+                            </tr>
+                        </ng-template>
+
+                        <ng-template #body let-regla let-index="rowIndex">
+                            <tr [pReorderableRow]="index" [class.opacity-60]="!regla.activa">
+                                <td><span class="pi pi-bars cursor-move" pReorderableRowHandle></span></td>
+                                <td>{{ index + 1 }}</td>
+                                <td class="font-semibold">{{ regla.nombre }}</td>
+                                <td>
+                                    <div class="flex flex-wrap gap-1">
+                                        @for (condicion of describirCondiciones(regla); track condicion) {
+                                            <p-tag severity="secondary" [value]="condicion" />
+                                        }
+                                    </div>
+                                </td>
+                                <td>
+                                    <div class="flex flex-wrap gap-1">
+                                        @for (accion of describirAcciones(regla); track accion) {
+                                            <p-tag severity="info" [value]="accion" />
+                                        }
+                                    </div>
+                                </td>
+                                <td>
+                                    <p-toggleswitch [ngModel]="regla.activa" (ngModelChange)="reglaStore.toggleRegla(regla.id)" />
+                                </td>
+                                <td>
+                                    <p-button icon="pi pi-pencil" class="mr-2" [rounded]="true" [outlined]="true" (click)="editRegla(regla)" />
+                                    <p-button icon="pi pi-trash" severity="danger" [rounded]="true" [outlined]="true" (click)="deleteRegla(regla)" />
+                                </td>
+                            </tr>
+                        </ng-template>
+
+                        <ng-template #emptymessage>
+                            <tr>
+                                <td colspan="7" style="padding: 2rem">
+                                    <div class="text-center py-8">
+                                        <i class="pi pi-sliders-h text-500 text-5xl mb-3"></i>
+                                        <p class="text-900 font-semibold text-xl mb-2">No hay reglas</p>
+                                        <p class="text-600 mb-4">Crea reglas para rellenar automáticamente concepto, categoría, proveedor o forma de pago</p>
+                                        <p-button label="Crear Regla" icon="pi pi-plus" (onClick)="openNew()" />
+                                    </div>
+                                </td>
+                            </tr>
+                        </ng-template>
+                    </p-table>
+
+                    <app-regla-form-modal [visible]="reglaDialog()" [regla]="currentRegla()" (visibleChange)="reglaDialog.set($event)" (save)="onSaveRegla($event)" (cancel)="hideDialog()" />
+                </div>
+            </div>
+        </app-base-page-template>
+    `
+})
+export class ReglasListPage extends BasePageComponent {
+    reglaStore = inject(ReglaStore);
+    private monedaStore = inject(MonedaStore);
+
+    reglaDialog = signal(false);
+    currentRegla = signal<Partial<Regla> | null>(null);
+
+    // Copia para que el reordenado de la tabla no mute el estado del store
+    reglas = computed(() => [...this.reglaStore.reglas()]);
+
+    openNew() {
+        this.currentRegla.set({});
+        this.reglaDialog.set(true);
+    }
+
+    editRegla(regla: Regla) {
+        this.currentRegla.set({ ...regla });
+        this.reglaDialog.set(true);
+    }
+
+    hideDialog() {
+        this.reglaDialog.set(false);
+        this.currentRegla.set(null);
+    }
+
+    onSaveRegla(regla: Partial<Regla>) {
+        const { id, ...datos } = regla;
+
+        if (id) {
+            this.reglaStore.updateRegla(id, datos);
+            this.showSuccess('Regla actualizada correctamente');
+        } else {
+            this.reglaStore.createRegla(datos as Omit<Regla, 'id'>);
+            this.showSuccess('Regla creada correctamente');
+        }
+
+        this.hideDialog();
+    }
+
+    deleteRegla(regla: Regla) {
+        this.confirmAction(`¿Estás seguro de eliminar la regla "${regla.nombre}"?`, () => this.reglaStore.deleteRegla(regla.id), {
+            header: 'Confirmar eliminación',
+            successMessage: 'Regla eliminada correctamente'
+        });
+    }
+
+    onRowReorder(event: TableRowReorderEvent) {
+        if (event.dragIndex !== undefined && event.dropIndex !== undefined) {
+            this.reglaStore.moveRegla(event.dragIndex, event.dropIndex);
+        }
+    }
+
+    describirCondiciones(regla: Regla): string[] {
+        const { ambito, texto, modoTexto, importeMin, importeMax, cuenta } = regla.condiciones;
+        const formato = (valor: number) => formatearImporte(valor, this.monedaStore.monedaBase());
+        const condiciones: string[] = [ambito === 'ambos' ? 'Gastos e ingresos' : ambito === 'gasto' ? 'Gastos' : 'Ingresos'];
+
+        if (texto) condiciones.push(modoTexto === 'regex' ? `/${texto}/` : `contiene "${texto}"`);
+        if (importeMin !== null && importeMax !== null) condiciones.push(`${formato(importeMin)} – ${formato(importeMax)}`);
+        else if (importeMin !== null) condiciones.push(`≥ ${formato(importeMin)}`);
+        else if (importeMax !== null) condiciones.push(`≤ ${formato(importeMax)}`);
+        if (cuenta) condiciones.push(`Cuenta ${cuenta.nombre}`);
+
+        return condiciones;
+    }
+
+    describirAcciones(regla: Regla): string[] {
+        return CAMPOS_ACCION_REGLA.filter((campo) => regla.acciones[campo]).map((campo) => `${ETIQUETAS_ACCION[campo]}: ${regla.acciones[campo]!.nombre}`);
+    }
+}
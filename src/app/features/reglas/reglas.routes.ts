@@ -0,0 +1,8 @@
+import { Routes } from '@angular/router';
+
+export default [
+    {
+        path: '',
+        loadComponent: () => import('./pages/reglas-list.page').then(m => m.ReglasListPage)
+    }
+] as Routes;
@@ -0,0 +1,167 @@
+import { computed, effect, inject, untracked } from '@angular/core';
+import { signalStore, withState, withMethods, withComputed, withHooks, patchState } from '@ngrx/signals';
+import { firstValueFrom } from 'rxjs';
+import { GastoService } from '@/core/services/api/gasto.service';
+import { IngresoService } from '@/core/services/api/ingreso.service';
+import { AuthStore } from '@/core/stores/auth.store';
+import { MovimientoEvaluable, MovimientoReciente, Regla, ResultadoReglas } from '@/core/models/regla.model';
+import { evaluarReglas } from '@/shared/utils/reglas.util';
+
+// Las reglas se guardan en el navegador, por usuario: apuntan a sus conceptos, proveedores y cuentas
+const STORAGE_PREFIX = 'ahorroland_reglas_';
+// Clave única de versiones anteriores: se pasa al primer usuario que inicia sesión
+const STORAGE_KEY_ANTERIOR = 'ahorroland_reglas';
+
+interface ReglaState {
+    reglas: Regla[];
+    error: string | null;
+}
+
+const initialState: ReglaState = {
+    reglas: [],
+    error: null
+};
+
+function loadReglasLocales(clave: string): Regla[] {
+    try {
+        if (typeof window !== 'undefined' && localStorage) {
+            const anterior = localStorage.getItem(STORAGE_KEY_ANTERIOR);
+            if (anterior !== null) {
+                if (localStorage.getItem(clave) === null) localStorage.setItem(clave, anterior);
+                localStorage.removeItem(STORAGE_KEY_ANTERIOR);
+            }
+
+            const saved = localStorage.getItem(clave);
+            if (saved) {
+                const parsed = JSON.parse(saved);
+                return Array.isArray(parsed) ? parsed : [];
+            }
+        }
+    } catch (error) {
+        console.error('Error loading reglas from localStorage:', error);
+    }
+    return [];
+}
+
+function saveReglasLocales(clave: string, reglas: Regla[]): void {
+    try {
+        if (typeof window !== 'undefined' && localStorage) {
+            localStorage.setItem(clave, JSON.stringify(reglas));
+        }
+    } catch (error) {
+        console.error('Error saving reglas to localStorage:', error);
+    }
+}
+
+/**
+ * Signal Store de reglas de auto-categorización
+ * El orden del array es la prioridad de evaluación
+ */
+export const ReglaStore = signalStore(
+    { providedIn: 'root' },
+    withState(initialState),
+
+    withComputed((store) => ({
+        reglasActivas: computed(() => store.reglas().filter((r) => r.activa)),
+        totalReglas: computed(() => store.reglas().length)
+    })),
+
+    withMethods((store, gastoService = inject(GastoService), ingresoService = inject(IngresoService), authStore = inject(AuthStore)) => {
+        const storageKey = () => STORAGE_PREFIX + (authStore.user()?.id ?? 'anonimo');
+
+        const setReglas = (reglas: Regla[]) => {
+            patchState(store, { reglas, error: null });
+            saveReglasLocales(storageKey(), reglas);
+        };
+
+        return {
+            loadReglas(): void {
+                patchState(store, { reglas: loadReglasLocales(storageKey()), error: null });
+            },
+
+            createRegla(regla: Omit<Regla, 'id'>): string {
+                const id = `regla_${Date.now()}`;
+                setReglas([...store.reglas(), { ...regla, id }]);
+                return id;
+            },
+
+            updateRegla(id: string, cambios: Partial<Regla>): void {
+                setReglas(store.reglas().map((r) => (r.id === id ? { ...r, ...cambios, id } : r)));
+            },
+
+            deleteRegla(id: string): void {
+                setReglas(store.reglas().filter((r) => r.id !== id));
+            },
+
+            toggleRegla(id: string): void {
+                setReglas(store.reglas().map((r) => (r.id === id ? { ...r, activa: !r.activa } : r)));
+            },
+
+            // Cambiar la prioridad de una regla
+            moveRegla(fromIndex: number, toIndex: number): void {
+                const reglas = [...store.reglas()];
+                if (fromIndex === toIndex || fromIndex < 0 || toIndex < 0 || fromIndex >= reglas.length || toIndex >= reglas.length) return;
+
+                const [movida] = reglas.splice(fromIndex, 1);
+                reglas.splice(toIndex, 0, movida);
+                setReglas(reglas);
+            },
+
+            // Evalúa las reglas activas contra un movimiento
+            evaluar(movimiento: MovimientoEvaluable): ResultadoReglas {
+                return evaluarReglas(store.reglas(), movimiento);
+            },
+
+            /**
+             * Últimos movimientos (gastos e ingresos mezclados por fecha) para probar reglas
+             */
+            async loadUltimosMovimientos(limit: number = 100): Promise<MovimientoReciente[]> {
+                try {
+                    const [gastos, ingresos] = await Promise.all([firstValueFrom(gastoService.getGastos(1, limit, undefined, 'fecha', 'desc')), firstValueFrom(ingresoService.getIngresos(1, limit, undefined, 'fecha', 'desc'))]);
+
+                    const movimientos: MovimientoReciente[] = [
+                        ...(gastos?.items ?? []).map((g) => ({
+                            id: g.id,
+                            tipo: 'gasto' as const,
+                            fecha: g.fecha,
+                            importe: g.importe,
+                            descripcion: g.descripcion,
+                            conceptoNombre: g.conceptoNombre,
+                            cuentaId: g.cuentaId,
+                            cuentaNombre: g.cuentaNombre,
+                            categoriaNombre: g.categoriaNombre,
+                            terceroNombre: g.proveedorNombre
+                        })),
+                        ...(ingresos?.items ?? []).map((i) => ({
+                            id: i.id,
+                            tipo: 'ingreso' as const,
+                            fecha: i.fecha,
+                            importe: i.importe,
+                            descripcion: i.descripcion,
+                            conceptoNombre: i.conceptoNombre,
+                            cuentaId: i.cuentaId,
+                            cuentaNombre: i.cuentaNombre,
+                            categoriaNombre: i.categoriaNombre,
+                            terceroNombre: i.clienteNombre
+                        }))
+                    ];
+
+                    return movimientos.sort((a, b) => b.fecha.localeCompare(a.fecha)).slice(0, limit);
+                } catch (error: any) {
+                    patchState(store, { error: error.userMessage || 'Error al cargar los últimos movimientos' });
+                    throw error;
+                }
+            }
+        };
+    }),
+
+    withHooks({
+        onInit(store, authStore = inject(AuthStore)) {
+            // Las reglas son por usuario: recargar al iniciar o cambiar de sesión
+            effect(() => {
+                const userId = authStore.user()?.id;
+                untracked(() => (userId ? store.loadReglas() : patchState(store, { reglas: [] })));
+            });
+        }
+    })
+);
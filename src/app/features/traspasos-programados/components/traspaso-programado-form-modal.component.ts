@@ -22,6 +22,8 @@ import { CuentaCreateModalComponent } from '@/shared/components';
 
 // Stores
 import { CuentaStore } from '@/features/cuentas/store/cuenta.store';
+import { ImportePipe } from '@/shared/pipes/importe.pipe';
+import { MonedaStore } from '@/core/stores/moneda.store';
 
 interface TraspasoProgramadoFormData extends Omit<Partial<TraspasoProgramado>, 'fechaEjecucion'> {
     fechaEjecucion?: Date | null;
@@ -43,7 +45,8 @@ interface TraspasoProgramadoFormData extends Omit<Partial<TraspasoProgramado>, '
         AutoCompleteModule,
         ToggleSwitchModule,
         TooltipModule,
-        CuentaCreateModalComponent
+        CuentaCreateModalComponent,
+        ImportePipe
     ],
     changeDetection: ChangeDetectionStrategy.OnPush,
     template: `
@@ -125,10 +128,10 @@ interface TraspasoProgramadoFormData extends Omit<Partial<TraspasoProgramado>, '
                         id="importe" 
                         [(ngModel)]="formData.importe" 
                         mode="currency" 
-                        currency="EUR" 
+                        [currency]="monedaStore.monedaBase()" 
                         locale="es-ES" 
                         [min]="0" 
-                        placeholder="0,00 €"
+                        [placeholder]="0 | importe"
                         inputStyleClass="text-right font-bold text-xl text-blue-600 w-full" 
                         class="w-full"
                     />
@@ -225,6 +228,7 @@ interface TraspasoProgramadoFormData extends Omit<Partial<TraspasoProgramado>, '
 })
 export class TraspasoProgramadoFormModalComponent {
     private messageService = inject(MessageService);
+    monedaStore = inject(MonedaStore);
     private cuentaStore = inject(CuentaStore);
 
     // Inputs/Outputs
@@ -1,9 +1,9 @@
-import { Component, inject, ChangeDetectionStrategy, ViewChild, signal, computed, effect } from '@angular/core';
+import { Component, inject, ChangeDetectionStrategy, ViewChild, signal, computed, effect, untracked } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { ButtonModule } from 'primeng/button';
 import { InputTextModule } from 'primeng/inputtext';
-import { MessageService, ConfirmationService } from 'primeng/api';
+import { MessageService } from 'primeng/api';
 import { Table, TableModule, TableLazyLoadEvent } from 'primeng/table';
 import { ToolbarModule } from 'primeng/toolbar';
 import { InputIconModule } from 'primeng/inputicon';
@@ -13,9 +13,19 @@ import { TagModule } from 'primeng/tag';
 import { TooltipModule } from 'primeng/tooltip';
 import { TraspasosProgramadosStore } from '../stores/traspasos-programados.store';
 import { TraspasoProgramado } from '@/core/models/traspaso-programado.model';
-import { BasePageTemplateComponent } from '@/shared/components';
+import { BasePageTemplateComponent, ColumnChooserComponent, ColumnaTabla, injectTableColumns, injectTableUrlState } from '@/shared/components';
 import { debounceTime, distinctUntilChanged, Subject } from 'rxjs';
 import { TraspasoProgramadoFormModalComponent } from '../components/traspaso-programado-form-modal.component';
+import { ImportePipe } from '@/shared/pipes/importe.pipe';
+
+const COLUMNAS_TRASPASOS_PROGRAMADOS: ColumnaTabla[] = [
+    { campo: 'cuentaOrigenNombre', cabecera: 'Cuenta Origen', ancho: 12 },
+    { campo: 'cuentaDestinoNombre', cabecera: 'Cuenta Destino', ancho: 12 },
+    { campo: 'importe', cabecera: 'Importe' },
+    { campo: 'frecuencia', cabecera: 'Frecuencia' },
+    { campo: 'fechaEjecucion', cabecera: 'Próxima Ejecución', ancho: 12 },
+    { campo: 'activo', cabecera: 'Estado', ancho: 8 }
+];
 
 @Component({
     selector: 'app-traspasos-programados-list-page',
@@ -33,9 +43,11 @@ import { TraspasoProgramadoFormModalComponent } from '../components/traspaso-pro
         TagModule,
         TooltipModule,
         BasePageTemplateComponent,
-        TraspasoProgramadoFormModalComponent
+        TraspasoProgramadoFormModalComponent,
+        ColumnChooserComponent,
+        ImportePipe
     ],
-    providers: [MessageService, ConfirmationService],
+    providers: [MessageService],
     changeDetection: ChangeDetectionStrategy.OnPush,
     styles: [`
         /* Toolbar responsive en móvil */
@@ -75,8 +87,9 @@ import { TraspasoProgramadoFormModalComponent } from '../components/traspaso-pro
                                 icon="pi pi-refresh" 
                                 severity="secondary" 
                                 outlined 
-                                (onClick)="refreshTable()" 
+                                (onClick)="refreshTable()"
                                 pTooltip="Actualizar" />
+                            <app-column-chooser [estado]="columnas" class="ml-2" />
                         </ng-template>
                     </p-toolbar>
 
@@ -87,12 +100,22 @@ import { TraspasoProgramadoFormModalComponent } from '../components/traspaso-pro
                         [lazy]="true"
                         (onLazyLoad)="onLazyLoad($event)"
                         [paginator]="true"
-                        [rows]="pageSize()"
+                        [rows]="tableState.state().pageSize"
+                        [first]="tableState.first()"
+                        [sortField]="tableState.state().sortColumn"
+                        [sortOrder]="tableState.sortOrderNumber()"
                         [totalRecords]="traspasosStore.totalRecords()"
                         [showCurrentPageReport]="true"
                         currentPageReportTemplate="Mostrando {first} a {last} de {totalRecords} traspasos programados"
                         [rowsPerPageOptions]="[10, 25, 50]"
-                        [tableStyle]="{ 'min-width': '50rem' }"
+                        [columns]="columnas.visibles()"
+                        [tableStyle]="columnas.tableStyle()"
+                        [size]="columnas.size()"
+                        [reorderableColumns]="true"
+                        [resizableColumns]="true"
+                        columnResizeMode="expand"
+                        (onColReorder)="columnas.onColReorder($event)"
+                        (onColResize)="columnas.onColResize($event)"
                         styleClass="p-datatable-gridlines"
                         [rowHover]="true"
                         dataKey="id"
@@ -105,7 +128,7 @@ import { TraspasoProgramadoFormModalComponent } from '../components/traspaso-pro
                                     <input 
                                         pInputText 
                                         type="text" 
-                                        [ngModel]="searchTerm()" 
+                                        [ngModel]="tableState.state().search" 
                                         (ngModelChange)="onSearchChange($event)" 
                                         placeholder="Buscar traspasos..." 
                                         class="w-full" />
@@ -113,104 +136,83 @@ import { TraspasoProgramadoFormModalComponent } from '../components/traspaso-pro
                             </div>
                         </ng-template>
 
-                        <ng-template #header>
+                        <ng-template #header let-columns>
                             <tr>
-                                <th pSortableColumn="cuentaOrigenNombre" style="min-width:12rem; padding: 1rem">
-                                    Cuenta Origen
-                                    <p-sortIcon field="cuentaOrigenNombre" />
-                                </th>
-                                <th style="min-width:4rem; text-align: center">
-                                    <i class="pi pi-arrow-right text-blue-500"></i>
-                                </th>
-                                <th pSortableColumn="cuentaDestinoNombre" style="min-width:12rem">
-                                    Cuenta Destino
-                                    <p-sortIcon field="cuentaDestinoNombre" />
-                                </th>
-                                <th pSortableColumn="importe" style="min-width:10rem">
-                                    Importe
-                                    <p-sortIcon field="importe" />
-                                </th>
-                                <th pSortableColumn="frecuencia" style="min-width:10rem">
-                                    Frecuencia
-                                    <p-sortIcon field="frecuencia" />
-                                </th>
-                                <th pSortableColumn="fechaEjecucion" style="min-width:12rem">
-                                    Próxima Ejecución
-                                    <p-sortIcon field="fechaEjecucion" />
-                                </th>
-                                <th pSortableColumn="activo" style="min-width:8rem">
-                                    Estado
-                                    <p-sortIcon field="activo" />
-                                </th>
+                                @for (columna of columns; track columna.campo) {
+                                    <th [pSortableColumn]="columna.campo" [pSortableColumnDisabled]="columna.ordenable === false" pReorderableColumn pResizableColumn [attr.data-campo]="columna.campo" [ngStyle]="columnas.estilo(columna)">
+                                        {{ columna.cabecera }}
+                                        @if (columna.ordenable !== false) {
+                                            <p-sortIcon [field]="columna.campo" />
+                                        }
+                                    </th>
+                                }
                                 <th style="min-width:10rem">Acciones</th>
                             </tr>
                         </ng-template>
 
-                        <ng-template #body let-traspaso>
+                        <ng-template #body let-traspaso let-columns="columns">
                             <tr>
-                                <td style="padding: 1rem">
-                                    <div class="flex items-center gap-2">
-                                        <i class="pi pi-wallet text-red-500"></i>
-                                        <span class="font-semibold">{{ traspaso.cuentaOrigenNombre }}</span>
-                                    </div>
-                                </td>
-                                <td class="text-center">
-                                    <i class="pi pi-arrow-right text-blue-500 font-bold"></i>
-                                </td>
-                                <td>
-                                    <div class="flex items-center gap-2">
-                                        <i class="pi pi-wallet text-green-500"></i>
-                                        <span class="font-semibold">{{ traspaso.cuentaDestinoNombre }}</span>
-                                    </div>
-                                </td>
-                                <td>
-                                    <span class="font-bold text-blue-600">{{ traspaso.importe | number: '1.2-2' : 'es-ES' }} €</span>
-                                </td>
-                                <td>
-                                    <p-tag [value]="traspaso.frecuencia" [severity]="getFrecuenciaSeverity(traspaso.frecuencia)" />
-                                </td>
-                                <td>
-                                    {{ traspaso.fechaEjecucion | date: 'dd/MM/yyyy HH:mm' }}
-                                </td>
-                                <td>
-                                    <p-tag 
-                                        [value]="traspaso.activo ? 'Activo' : 'Inactivo'" 
-                                        [severity]="traspaso.activo ? 'success' : 'danger'" />
-                                </td>
+                                @for (columna of columns; track columna.campo) {
+                                    <td>
+                                        @switch (columna.campo) {
+                                            @case ('cuentaOrigenNombre') {
+                                                <div class="flex items-center gap-2">
+                                                    <i class="pi pi-wallet text-red-500"></i>
+                                                    <span class="font-semibold">{{ traspaso.cuentaOrigenNombre }}</span>
+                                                </div>
+                                            }
+                                            @case ('cuentaDestinoNombre') {
+                                                <div class="flex items-center gap-2">
+                                                    <i class="pi pi-wallet text-green-500"></i>
+                                                    <span class="font-semibold">{{ traspaso.cuentaDestinoNombre }}</span>
+                                                </div>
+                                            }
+                                            @case ('importe') {
+                                                <span class="font-bold text-blue-600">{{ traspaso.importe | importe }}</span>
+                                            }
+                                            @case ('frecuencia') {
+                                                <p-tag [value]="traspaso.frecuencia" [severity]="getFrecuenciaSeverity(traspaso.frecuencia)" />
+                                            }
+                                            @case ('fechaEjecucion') {
+                                                {{ traspaso.fechaEjecucion | date: 'dd/MM/yyyy HH:mm' }}
+                                            }
+                                            @case ('activo') {
+                                                <p-tag
+                                                    [value]="traspaso.activo ? 'Activo' : 'Inactivo'"
+                                                    [severity]="traspaso.activo ? 'success' : 'danger'" />
+                                            }
+                                        }
+                                    </td>
+                                }
                                 <td>
                                     <div class="flex gap-2">
-                                        <p-button 
-                                            icon="pi pi-pencil" 
-                                            [rounded]="true" 
-                                            [outlined]="true" 
-                                            (onClick)="editTraspaso(traspaso)" 
+                                        <p-button
+                                            icon="pi pi-pencil"
+                                            [rounded]="true"
+                                            [outlined]="true"
+                                            (onClick)="editTraspaso(traspaso)"
                                             pTooltip="Editar" />
-                                        <p-button 
-                                            icon="pi pi-trash" 
-                                            severity="danger" 
-                                            [rounded]="true" 
-                                            [outlined]="true" 
-                                            (onClick)="deleteTraspaso(traspaso)" 
+                                        <p-button
+                                            icon="pi pi-trash"
+                                            severity="danger"
+                                            [rounded]="true"
+                                            [outlined]="true"
+                                            (onClick)="deleteTraspaso(traspaso)"
                                             pTooltip="Eliminar" />
                                     </div>
                                 </td>
                             </tr>
                         </ng-template>
 
-                        <ng-template #loadingbody>
+                        <ng-template #loadingbody let-columns="columns">
                             <tr>
-                                <td style="padding: 1rem"><p-skeleton width="80%" /></td>
-                                <td><p-skeleton width="20px" /></td>
-                                <td><p-skeleton width="80%" /></td>
-                                <td><p-skeleton width="70%" /></td>
-                                <td><p-skeleton width="70%" /></td>
-                                <td><p-skeleton width="70%" /></td>
-                                <td><p-skeleton width="70%" /></td>
+                                @for (columna of columns; track columna.campo) {
+                                    <td><p-skeleton width="70%" /></td>
+                                }
                                 <td>
                                     <div class="flex gap-2">
                                         <p-skeleton shape="circle" size="2.5rem" />
                                         <p-skeleton shape="circle" size="2.5rem" />
-                                        <p-skeleton shape="circle" size="2.5rem" />
                                     </div>
                                 </td>
                             </tr>
@@ -218,7 +220,7 @@ import { TraspasoProgramadoFormModalComponent } from '../components/traspaso-pro
 
                         <ng-template #emptymessage>
                             <tr>
-                                <td colspan="8" style="padding: 2rem">
+                                <td [attr.colspan]="columnas.visibles().length + 1" style="padding: 2rem">
                                     <div class="text-center py-8">
                                         <i class="pi pi-inbox text-500 text-5xl mb-3"></i>
                                         <p class="text-900 font-semibold text-xl mb-2">No hay traspasos programados</p>
@@ -248,18 +250,16 @@ import { TraspasoProgramadoFormModalComponent } from '../components/traspaso-pro
 export class TraspasosProgramadosListPage {
     traspasosStore = inject(TraspasosProgramadosStore);
     private messageService = inject(MessageService);
-    private confirmationService = inject(ConfirmationService);
 
     @ViewChild('dt') dt!: Table;
 
     private searchSubject = new Subject<string>();
 
-    // Signals para estado del componente
-    pageSize = signal(10);
-    pageNumber = signal(1);
-    searchTerm = signal('');
-    sortColumn = signal('fechaEjecucion');
-    sortOrder = signal('desc');
+    // Paginación, orden y búsqueda sincronizados con la URL
+    tableState = injectTableUrlState('traspasos-programados', { sortColumn: 'fechaEjecucion', sortOrder: 'desc' });
+
+    // Columnas visibles, orden, anchos y densidad de la tabla
+    columnas = injectTableColumns('traspasos-programados', COLUMNAS_TRASPASOS_PROGRAMADOS, { anchoFijo: 10 });
 
     // Signals para el modal
     dialog = signal(false);
@@ -284,25 +284,18 @@ export class TraspasosProgramadosListPage {
         this.searchSubject
             .pipe(debounceTime(500), distinctUntilChanged())
             .subscribe((searchValue) => {
-                this.searchTerm.set(searchValue);
-                this.pageNumber.set(1);
-                this.reloadTraspasos();
+                this.tableState.setSearch(searchValue);
             });
 
-        // Carga inicial
-        this.reloadTraspasos();
+        // Carga inicial y recarga cada vez que cambia el estado de la tabla en la URL
+        effect(() => {
+            this.tableState.state();
+            untracked(() => this.reloadTraspasos());
+        });
     }
 
     onLazyLoad(event: TableLazyLoadEvent) {
-        this.pageNumber.set((event.first! / event.rows!) + 1);
-        this.pageSize.set(event.rows!);
-        
-        if (event.sortField) {
-            this.sortColumn.set(event.sortField as string);
-            this.sortOrder.set(event.sortOrder === 1 ? 'asc' : 'desc');
-        }
-        
-        this.reloadTraspasos();
+        this.tableState.onLazyLoad(event);
     }
 
     onSearchChange(value: string) {
@@ -310,12 +303,13 @@ export class TraspasosProgramadosListPage {
     }
 
     reloadTraspasos() {
+        const { page, pageSize, search, sortColumn, sortOrder } = this.tableState.state();
         this.traspasosStore.loadTraspasosProgramadosPaginated({
-            page: this.pageNumber(),
-            pageSize: this.pageSize(),
-            searchTerm: this.searchTerm(),
-            sortColumn: this.sortColumn(),
-            sortOrder: this.sortOrder()
+            page,
+            pageSize,
+            searchTerm: search,
+            sortColumn,
+            sortOrder
         });
     }
 
@@ -368,22 +362,7 @@ export class TraspasosProgramadosListPage {
     }
 
     deleteTraspaso(traspaso: TraspasoProgramado) {
-        this.confirmationService.confirm({
-            message: `¿Está seguro de eliminar el traspaso programado de ${traspaso.cuentaOrigenNombre} a ${traspaso.cuentaDestinoNombre}?`,
-            header: 'Confirmar Eliminación',
-            icon: 'pi pi-exclamation-triangle',
-            acceptLabel: 'Sí, eliminar',
-            rejectLabel: 'Cancelar',
-            acceptButtonStyleClass: 'p-button-danger',
-            accept: () => {
-                this.traspasosStore.deleteTraspaso(traspaso.id);
-                this.messageService.add({
-                    severity: 'success',
-                    summary: 'Eliminado',
-                    detail: 'Traspaso programado eliminado correctamente'
-                });
-            }
-        });
+        this.traspasosStore.deleteTraspaso(traspaso.id);
     }
 
     getFrecuenciaSeverity(frecuencia: string): 'success' | 'info' | 'warn' | 'danger' {
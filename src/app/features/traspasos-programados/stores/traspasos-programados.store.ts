@@ -6,6 +6,7 @@ import { tapResponse } from '@ngrx/operators';
 import { TraspasoProgramadoService } from '@/core/services/api/traspaso-programado.service';
 import { TraspasoProgramado, TraspasoProgramadoCreate } from '@/core/models/traspaso-programado.model';
 import { CuentaStore } from '@/features/cuentas/store/cuenta.store';
+import { UndoStore, edicionConDeshacer, eliminarConDeshacer, paginaSinBorrados } from '@/core/stores/undo.store';
 
 interface TraspasosProgramadosState {
     traspasos: TraspasoProgramado[];
@@ -46,7 +47,8 @@ export const TraspasosProgramadosStore = signalStore(
         (
             store, 
             service = inject(TraspasoProgramadoService),
-            cuentaStore = inject(CuentaStore)
+            cuentaStore = inject(CuentaStore),
+            undoStore = inject(UndoStore)
         ) => ({
             loadTraspasosProgramadosPaginated: rxMethod<{
                 page: number;
@@ -64,9 +66,10 @@ export const TraspasosProgramadosStore = signalStore(
                         const CACHE_TTL = 30000; // 30 segundos
 
                         if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
+                            const pagina = paginaSinBorrados(undoStore, { ...cached, page, pageSize, hasNextPage: false, hasPreviousPage: false });
                             patchState(store, {
-                                traspasos: cached.items,
-                                totalRecords: cached.totalCount,
+                                traspasos: pagina.items,
+                                totalRecords: pagina.totalCount,
                                 loading: false,
                                 error: null
                             });
@@ -83,9 +86,10 @@ export const TraspasosProgramadosStore = signalStore(
                                         timestamp: Date.now()
                                     });
 
+                                    const pagina = paginaSinBorrados(undoStore, response);
                                     patchState(store, {
-                                        traspasos: response.items,
-                                        totalRecords: response.totalCount,
+                                        traspasos: pagina.items,
+                                        totalRecords: pagina.totalCount,
                                         loading: false,
                                         error: null,
                                         lastUpdated: Date.now(),
@@ -205,6 +209,10 @@ export const TraspasosProgramadosStore = signalStore(
                                         error: null,
                                         lastUpdated: Date.now()
                                     });
+                                    const traspasoAnterior: TraspasoProgramado | undefined = (store as any)._traspasoAnterior;
+                                    if (traspasoAnterior) {
+                                        edicionConDeshacer(undoStore, store, 'traspasos', traspasoAnterior, { mensaje: 'Traspaso programado actualizado', revertir: (anterior) => service.update(id, anterior) });
+                                    }
                                     delete (store as any)._traspasoAnterior;
                                 },
                                 error: (error: any) => {
@@ -228,56 +236,13 @@ export const TraspasosProgramadosStore = signalStore(
                 )
             ),
 
-            deleteTraspaso: rxMethod<string>(
-                pipe(
-                    switchMap((id) => {
-                        // Guardar para rollback ANTES de eliminar
-                        const traspasoEliminado = store.traspasos().find(t => t.id === id);
-                        const totalAnterior = store.totalRecords();
-                        
-                        if (!traspasoEliminado) {
-                            throw new Error('Traspaso no encontrado');
-                        }
-
-                        // Actualización optimista: eliminar de la lista
-                        const traspasos = store.traspasos().filter(t => t.id !== id);
-                        patchState(store, {
-                            traspasos,
-                            totalRecords: totalAnterior - 1,
-                            loading: true,
-                            searchCache: new Map() // Limpiar cache
-                        });
-
-                        return service.delete(id).pipe(
-                            tapResponse({
-                                next: () => {
-                                    patchState(store, {
-                                        loading: false,
-                                        error: null,
-                                        lastUpdated: Date.now()
-                                    });
-                                },
-                                error: (error: any) => {
-                                    // Rollback: restaurar el elemento eliminado
-                                    const traspasos = [...store.traspasos(), traspasoEliminado]
-                                        .sort((a, b) => {
-                                            const fechaA = new Date(a.fechaEjecucion).getTime();
-                                            const fechaB = new Date(b.fechaEjecucion).getTime();
-                                            return fechaB - fechaA;
-                                        });
-                                    
-                                    patchState(store, {
-                                        traspasos,
-                                        totalRecords: totalAnterior,
-                                        loading: false,
-                                        error: error.message || 'Error al eliminar traspaso programado'
-                                    });
-                                }
-                            })
-                        );
-                    })
-                )
-            ),
+            deleteTraspaso(id: string): void {
+                eliminarConDeshacer(undoStore, store, 'traspasos', id, {
+                    mensaje: 'Traspaso programado eliminado',
+                    eliminar: () => service.delete(id),
+                    alEliminar: () => patchState(store, { lastUpdated: Date.now(), searchCache: new Map() })
+                });
+            },
 
             selectTraspaso(traspaso: TraspasoProgramado | null) {
                 patchState(store, { selectedTraspaso: traspaso });
@@ -11,12 +11,30 @@ import { TooltipModule } from 'primeng/tooltip';
 import { MessageService } from 'primeng/api';
 import { Traspaso } from '@/core/models/traspaso.model';
 import { Cuenta } from '@/core/models/cuenta.model';
-import { CuentaCreateModalComponent } from '@/shared/components';
+import { DuplicadoVista, PosibleDuplicado } from '@/core/models/duplicado.model';
+import { CuentaCreateModalComponent, DuplicateWarningComponent } from '@/shared/components';
 import { CuentaStore } from '@/features/cuentas/store/cuenta.store';
+import { TraspasosStore } from '@/features/traspasos/stores/traspasos.store';
+import { atajoFormulario } from '@/shared/utils/atajos-teclado.util';
+import { MONEDA_POR_DEFECTO } from '@/core/models/moneda.model';
+import { MonedaStore } from '@/core/stores/moneda.store';
+import { ImportePipe } from '@/shared/pipes/importe.pipe';
 
 interface CatalogItem {
     id: string;
     nombre: string;
+    moneda?: string;
+}
+
+function toDuplicadoVista(traspaso: Partial<Traspaso>): DuplicadoVista {
+    return {
+        titulo: `${traspaso.cuentaOrigenNombre || '?'} → ${traspaso.cuentaDestinoNombre || '?'}`,
+        fecha: traspaso.fecha || '',
+        importe: traspaso.importe || 0,
+        cuenta: traspaso.cuentaOrigenNombre || '',
+        descripcion: traspaso.descripcion,
+        detalles: [{ label: 'Destino', value: traspaso.cuentaDestinoNombre || '' }]
+    };
 }
 
 interface TraspasoFormData extends Omit<Partial<Traspaso>, 'fecha'> {
@@ -36,7 +54,9 @@ interface TraspasoFormData extends Omit<Partial<Traspaso>, 'fecha'> {
         DatePickerModule,
         AutoCompleteModule,
         TooltipModule,
-        CuentaCreateModalComponent
+        CuentaCreateModalComponent,
+        DuplicateWarningComponent,
+        ImportePipe
     ],
     changeDetection: ChangeDetectionStrategy.OnPush,
     template: `
@@ -47,7 +67,11 @@ interface TraspasoFormData extends Omit<Partial<Traspaso>, 'fecha'> {
                 </div>
             </ng-template>
 
-            <div class="grid grid-cols-12 gap-4 p-fluid py-2">
+            @if (duplicados().length > 0 && vistaNuevo()) {
+                <app-duplicate-warning [nuevo]="vistaNuevo()!" [duplicados]="duplicados()" (confirm)="confirmarDuplicado()" (dismiss)="descartarDuplicados()" />
+            }
+
+            <div class="grid grid-cols-12 gap-4 p-fluid py-2" [class.hidden]="duplicados().length > 0" (keydown)="onAtajo($event)">
                 <div class="col-span-12 field">
                     <label for="cuentaOrigen" class="font-semibold text-gray-700 block mb-2">Cuenta Origen *</label>
                     <div class="flex align-items-center gap-2">
@@ -104,11 +128,12 @@ interface TraspasoFormData extends Omit<Partial<Traspaso>, 'fecha'> {
                     <p-inputNumber
                         id="importe"
                         [(ngModel)]="formData.importe"
+                        (ngModelChange)="recalcularImporteDestino()"
                         mode="currency"
-                        currency="EUR"
+                        [currency]="monedaOrigen()"
                         locale="es-ES"
                         [min]="0.01"
-                        placeholder="0,00 €"
+                        [placeholder]="0 | importe: monedaOrigen()"
                         inputStyleClass="text-right font-bold text-xl text-blue-600"
                         class="w-full"
                         styleClass="w-full"
@@ -118,6 +143,46 @@ interface TraspasoFormData extends Omit<Partial<Traspaso>, 'fecha'> {
                     }
                 </div>
 
+                @if (multimoneda()) {
+                    <div class="col-span-12 md:col-span-6 field">
+                        <label for="tipoCambio" class="font-semibold text-gray-700 block mb-2">Tipo de cambio *</label>
+                        <p-inputNumber
+                            inputId="tipoCambio"
+                            [(ngModel)]="formData.tipoCambio"
+                            (ngModelChange)="recalcularImporteDestino()"
+                            locale="es-ES"
+                            [min]="0"
+                            [minFractionDigits]="2"
+                            [maxFractionDigits]="6"
+                            [suffix]="' ' + monedaDestino() + ' por ' + monedaOrigen()"
+                            class="w-full"
+                            styleClass="w-full"
+                        />
+                        @if (submitted() && !formData.tipoCambio) {
+                            <small class="text-red-500 block mt-1">El tipo de cambio es requerido entre cuentas de distinta moneda.</small>
+                        }
+                    </div>
+
+                    <div class="col-span-12 md:col-span-6 field">
+                        <label for="importeDestino" class="font-semibold text-gray-700 block mb-2">Importe recibido *</label>
+                        <p-inputNumber
+                            inputId="importeDestino"
+                            [(ngModel)]="formData.importeDestino"
+                            (ngModelChange)="recalcularTipoCambio()"
+                            mode="currency"
+                            [currency]="monedaDestino()"
+                            locale="es-ES"
+                            [min]="0.01"
+                            inputStyleClass="text-right font-bold text-blue-600"
+                            class="w-full"
+                            styleClass="w-full"
+                        />
+                        @if (submitted() && !formData.importeDestino) {
+                            <small class="text-red-500 block mt-1">El importe recibido es requerido.</small>
+                        }
+                    </div>
+                }
+
                 <div class="col-span-12 md:col-span-6 field">
                     <label for="fecha" class="font-semibold text-gray-700 block mb-2">Fecha *</label>
                     <p-datePicker [(ngModel)]="formData.fecha" dateFormat="dd/mm/yy" [showIcon]="true" appendTo="body" styleClass="w-full" class="w-full" />
@@ -133,10 +198,12 @@ interface TraspasoFormData extends Omit<Partial<Traspaso>, 'fecha'> {
             </div>
 
             <ng-template pTemplate="footer">
-                <div class="flex justify-end gap-2 p-3 surface-border border-top-1">
-                    <p-button label="Cancelar" icon="pi pi-times" [text]="true" severity="secondary" (onClick)="onCancel()" />
-                    <p-button label="Guardar Traspaso" icon="pi pi-check" (onClick)="onSave()" />
-                </div>
+                @if (duplicados().length === 0) {
+                    <div class="flex justify-end gap-2 p-3 surface-border border-top-1">
+                        <p-button label="Cancelar" icon="pi pi-times" [text]="true" severity="secondary" (onClick)="onCancel()" />
+                        <p-button label="Guardar Traspaso" icon="pi pi-check" [loading]="checkingDuplicates()" (onClick)="onSave()" />
+                    </div>
+                }
             </ng-template>
         </p-drawer>
 
@@ -168,18 +235,31 @@ interface TraspasoFormData extends Omit<Partial<Traspaso>, 'fecha'> {
 export class TraspasoFormModalComponent {
     private messageService = inject(MessageService);
     private cuentaStore = inject(CuentaStore);
+    private traspasosStore = inject(TraspasosStore);
+    private monedaStore = inject(MonedaStore);
 
     // Inputs/Outputs
     visible = input<boolean>(false);
     traspaso = input<Partial<Traspaso> | null>(null);
     visibleChange = output<boolean>();
     save = output<Partial<Traspaso>>();
+    // Guardado con Ctrl+Shift+Enter: el panel sigue abierto y la página carga el siguiente movimiento
+    // Solo al crear y si la página lo habilita con [guardarYNuevo]; si no, el atajo guarda sin más
+    guardarYNuevo = input(false);
+    saveAndNew = output<Partial<Traspaso>>();
     cancel = output<void>();
 
     // Estado del formulario
     formData: TraspasoFormData = {};
     submitted = signal(false);
 
+    // Posibles duplicados pendientes de confirmar (solo en creación)
+    duplicados = signal<PosibleDuplicado<DuplicadoVista>[]>([]);
+    vistaNuevo = signal<DuplicadoVista | null>(null);
+    checkingDuplicates = signal(false);
+    private pendingSave: Partial<Traspaso> | null = null;
+    private pendingNuevo = false;
+
     // Selectores asíncronos
     selectedCuentaOrigen: CatalogItem | null = null;
     selectedCuentaDestino: CatalogItem | null = null;
@@ -224,27 +304,64 @@ export class TraspasoFormModalComponent {
 
             // Cargar valores seleccionados en autocompletes
             this.selectedCuentaOrigen = traspasoData.cuentaOrigenId && traspasoData.cuentaOrigenNombre
-                ? { id: traspasoData.cuentaOrigenId, nombre: traspasoData.cuentaOrigenNombre }
+                ? { id: traspasoData.cuentaOrigenId, nombre: traspasoData.cuentaOrigenNombre, moneda: traspasoData.monedaOrigen }
                 : null;
 
             this.selectedCuentaDestino = traspasoData.cuentaDestinoId && traspasoData.cuentaDestinoNombre
-                ? { id: traspasoData.cuentaDestinoId, nombre: traspasoData.cuentaDestinoNombre }
+                ? { id: traspasoData.cuentaDestinoId, nombre: traspasoData.cuentaDestinoNombre, moneda: traspasoData.monedaDestino }
                 : null;
         } else {
-            // Modo creación
+            // Modo creación (admite importe, descripción y cuentas precargados)
             this.isEditMode.set(false);
             this.formData = {
                 importe: 0,
-                fecha: new Date(),
-                descripcion: ''
+                descripcion: '',
+                ...traspasoData,
+                fecha: traspasoData?.fecha ? new Date(traspasoData.fecha) : new Date()
             };
-            this.selectedCuentaOrigen = null;
-            this.selectedCuentaDestino = null;
+            this.selectedCuentaOrigen = traspasoData?.cuentaOrigenId && traspasoData.cuentaOrigenNombre ? { id: traspasoData.cuentaOrigenId, nombre: traspasoData.cuentaOrigenNombre, moneda: traspasoData.monedaOrigen } : null;
+            this.selectedCuentaDestino = traspasoData?.cuentaDestinoId && traspasoData.cuentaDestinoNombre ? { id: traspasoData.cuentaDestinoId, nombre: traspasoData.cuentaDestinoNombre, moneda: traspasoData.monedaDestino } : null;
+            this.proponerTipoCambio();
         }
 
         this.submitted.set(false);
     }
 
+    // --- Monedas: entre cuentas de distinta moneda se guardan la tasa y el importe recibido ---
+    monedaOrigen(): string {
+        return this.selectedCuentaOrigen ? this.selectedCuentaOrigen.moneda || MONEDA_POR_DEFECTO : this.monedaStore.monedaBase();
+    }
+
+    monedaDestino(): string {
+        return this.selectedCuentaDestino ? this.selectedCuentaDestino.moneda || MONEDA_POR_DEFECTO : this.monedaOrigen();
+    }
+
+    multimoneda(): boolean {
+        return !!this.selectedCuentaOrigen && !!this.selectedCuentaDestino && this.monedaOrigen() !== this.monedaDestino();
+    }
+
+    // Al elegir las cuentas se parte de la tabla de tipos de cambio
+    private proponerTipoCambio() {
+        if (!this.multimoneda()) {
+            this.formData.tipoCambio = null;
+            this.formData.importeDestino = null;
+            return;
+        }
+        this.formData.tipoCambio = this.monedaStore.tasa(this.monedaOrigen(), this.monedaDestino());
+        this.recalcularImporteDestino();
+    }
+
+    recalcularImporteDestino() {
+        if (!this.multimoneda() || !this.formData.importe || !this.formData.tipoCambio) return;
+        this.formData.importeDestino = Math.round(this.formData.importe * this.formData.tipoCambio * 100) / 100;
+    }
+
+    // Si se escribe lo recibido, la tasa es la que resulte (comisiones incluidas)
+    recalcularTipoCambio() {
+        if (!this.multimoneda() || !this.formData.importe || !this.formData.importeDestino) return;
+        this.formData.tipoCambio = Math.round((this.formData.importeDestino / this.formData.importe) * 1e6) / 1e6;
+    }
+
     // Métodos de búsqueda asíncrona para cuenta origen
     searchCuentasOrigen(event: AutoCompleteCompleteEvent) {
         const query = event.query;
@@ -319,6 +436,7 @@ export class TraspasoFormModalComponent {
     onCuentaOrigenSelect(event: any) {
         this.formData.cuentaOrigenId = event.id;
         this.formData.cuentaOrigenNombre = event.nombre;
+        this.proponerTipoCambio();
 
         // Si la cuenta destino es la misma, limpiarla
         if (this.selectedCuentaDestino && this.selectedCuentaDestino.id === event.id) {
@@ -336,6 +454,7 @@ export class TraspasoFormModalComponent {
     onCuentaDestinoSelect(event: any) {
         this.formData.cuentaDestinoId = event.id;
         this.formData.cuentaDestinoNombre = event.nombre;
+        this.proponerTipoCambio();
 
         // Si la cuenta origen es la misma, limpiarla
         if (this.selectedCuentaOrigen && this.selectedCuentaOrigen.id === event.id) {
@@ -382,7 +501,8 @@ export class TraspasoFormModalComponent {
 
         const cuentaItem: CatalogItem = {
             id: nuevaCuenta.id,
-            nombre: nuevaCuenta.nombre
+            nombre: nuevaCuenta.nombre,
+            moneda: nuevaCuenta.moneda
         };
 
         if (this.creatingCuentaFor === 'origen') {
@@ -398,6 +518,7 @@ export class TraspasoFormModalComponent {
             this.formData.cuentaDestinoNombre = cuentaItem.nombre;
             this.filteredCuentasDestino.set([cuentaItem, ...this.filteredCuentasDestino()]);
         }
+        this.proponerTipoCambio();
 
         this.messageService.add({
             severity: 'success',
@@ -406,7 +527,7 @@ export class TraspasoFormModalComponent {
         });
     }
 
-    onSave() {
+    async onSave(nuevo = false) {
         this.submitted.set(true);
 
         // Validaciones
@@ -423,6 +544,15 @@ export class TraspasoFormModalComponent {
             return;
         }
 
+        if (this.multimoneda() && (!this.formData.tipoCambio || !this.formData.importeDestino)) {
+            this.messageService.add({
+                severity: 'warn',
+                summary: 'Advertencia',
+                detail: 'Indica el tipo de cambio o el importe recibido en la cuenta destino'
+            });
+            return;
+        }
+
         // Validación de dominio: cuentas diferentes
         if (this.selectedCuentaOrigen.id === this.selectedCuentaDestino.id) {
             this.messageService.add({
@@ -440,13 +570,78 @@ export class TraspasoFormModalComponent {
             cuentaOrigenNombre: this.selectedCuentaOrigen.nombre,
             cuentaDestinoId: this.selectedCuentaDestino.id,
             cuentaDestinoNombre: this.selectedCuentaDestino.nombre,
+            monedaOrigen: this.monedaOrigen(),
+            monedaDestino: this.monedaDestino(),
+            tipoCambio: this.multimoneda() ? this.formData.tipoCambio : null,
+            importeDestino: this.multimoneda() ? this.formData.importeDestino : null,
             fecha: typeof this.formData.fecha === 'string'
                 ? this.formData.fecha
                 : new Date(this.formData.fecha!).toISOString().split('T')[0]
         };
 
-        this.save.emit(traspasoToSave);
-        this.closeModal();
+        if (!this.isEditMode()) {
+            const duplicados = await this.checkDuplicates(traspasoToSave);
+            if (duplicados.length > 0) {
+                this.pendingSave = traspasoToSave;
+                this.pendingNuevo = nuevo;
+                this.vistaNuevo.set(toDuplicadoVista(traspasoToSave));
+                this.duplicados.set(duplicados.map((d) => ({ ...d, movimiento: toDuplicadoVista(d.movimiento) })));
+                return;
+            }
+        }
+
+        this.emitir(traspasoToSave, nuevo);
+    }
+
+    confirmarDuplicado() {
+        if (this.pendingSave) {
+            this.emitir(this.pendingSave, this.pendingNuevo);
+        } else {
+            this.closeModal();
+        }
+    }
+
+    descartarDuplicados() {
+        this.pendingSave = null;
+        this.pendingNuevo = false;
+        this.duplicados.set([]);
+        this.vistaNuevo.set(null);
+    }
+
+    // Si la comprobación falla no se bloquea el guardado
+    private async checkDuplicates(traspaso: Partial<Traspaso>): Promise<PosibleDuplicado<Traspaso>[]> {
+        this.checkingDuplicates.set(true);
+        try {
+            return await this.traspasosStore.findDuplicates({
+                ...traspaso,
+                cuentaOrigenId: traspaso.cuentaOrigenId!,
+                cuentaDestinoId: traspaso.cuentaDestinoId!,
+                importe: traspaso.importe!,
+                fecha: traspaso.fecha!
+            });
+        } catch {
+            return [];
+        } finally {
+            this.checkingDuplicates.set(false);
+        }
+    }
+
+    onAtajo(event: KeyboardEvent) {
+        const atajo = atajoFormulario(event);
+        if (!atajo || this.checkingDuplicates()) return;
+        event.preventDefault();
+        this.onSave(atajo === 'guardar-y-nuevo' && this.guardarYNuevo() && !this.isEditMode());
+    }
+
+    private emitir(datos: Partial<Traspaso>, nuevo: boolean) {
+        if (nuevo) {
+            this.saveAndNew.emit(datos);
+            this.submitted.set(false);
+            this.descartarDuplicados();
+        } else {
+            this.save.emit(datos);
+            this.closeModal();
+        }
     }
 
     onCancel() {
@@ -458,5 +653,6 @@ export class TraspasoFormModalComponent {
         this.isVisible = false;
         this.visibleChange.emit(false);
         this.submitted.set(false);
+        this.descartarDuplicados();
     }
 }
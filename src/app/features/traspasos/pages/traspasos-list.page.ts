@@ -1,26 +1,38 @@
-import { Component, inject, ChangeDetectionStrategy, ViewChild } from '@angular/core';
+import { Component, inject, ChangeDetectionStrategy, ViewChild, effect, untracked } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { ButtonModule } from 'primeng/button';
 import { InputTextModule } from 'primeng/inputtext';
 import { ToastModule } from 'primeng/toast';
 import { MessageService, ConfirmationService } from 'primeng/api';
-import { Table, TableModule } from 'primeng/table';
+import { Table, TableLazyLoadEvent, TableModule } from 'primeng/table';
 import { ToolbarModule } from 'primeng/toolbar';
 import { InputIconModule } from 'primeng/inputicon';
 import { IconFieldModule } from 'primeng/iconfield';
 import { SkeletonModule } from 'primeng/skeleton';
 import { TagModule } from 'primeng/tag';
+import { TooltipModule } from 'primeng/tooltip';
+import { OutboxStore } from '@/core/stores/outbox.store';
 import { TraspasosStore } from '../stores/traspasos.store';
 import { Traspaso } from '@/core/models/traspaso.model';
-import { BasePageComponent, BasePageTemplateComponent } from '@/shared/components';
+import { BasePageComponent, BasePageTemplateComponent, GuardarVistaComponent, ColumnChooserComponent, EditorCeldaComponent, ColumnaTabla, TableInlineEdit, injectAtajo, injectTableColumns, injectTableUrlState } from '@/shared/components';
+import { injectAccionRapida } from '@/core/services/acciones-rapidas.service';
 import { debounceTime, distinctUntilChanged, Subject } from 'rxjs';
 import { TraspasoFormModalComponent } from '../components/traspaso-form-modal.component';
+import { ImportePipe } from '@/shared/pipes/importe.pipe';
+
+const COLUMNAS_TRASPASOS: ColumnaTabla[] = [
+    { campo: 'fecha', cabecera: 'Fecha', editor: 'fecha' },
+    { campo: 'importe', cabecera: 'Importe', editor: 'importe' },
+    { campo: 'cuentaOrigenNombre', cabecera: 'Cuenta Origen', ordenable: false, ancho: 12, editor: 'cuentas' },
+    { campo: 'cuentaDestinoNombre', cabecera: 'Cuenta Destino', ordenable: false, ancho: 12, editor: 'cuentas' },
+    { campo: 'descripcion', cabecera: 'Descripción', ordenable: false, ancho: 15, editor: 'texto' }
+];
 
 @Component({
     selector: 'app-traspasos-list-page',
     standalone: true,
-    imports: [CommonModule, FormsModule, ButtonModule, InputTextModule, ToastModule, TableModule, ToolbarModule, InputIconModule, IconFieldModule, SkeletonModule, TagModule, BasePageTemplateComponent, TraspasoFormModalComponent],
+    imports: [CommonModule, FormsModule, ButtonModule, InputTextModule, ToastModule, TableModule, ToolbarModule, InputIconModule, IconFieldModule, SkeletonModule, TagModule, TooltipModule, BasePageTemplateComponent, TraspasoFormModalComponent, GuardarVistaComponent, ColumnChooserComponent, EditorCeldaComponent, ImportePipe],
     providers: [MessageService, ConfirmationService],
     changeDetection: ChangeDetectionStrategy.OnPush,
     styles: [`
@@ -54,6 +66,7 @@ import { TraspasoFormModalComponent } from '../components/traspaso-form-modal.co
 
                         <ng-template #end>
                             <p-button icon="pi pi-refresh" severity="secondary" outlined (onClick)="refreshTable()" pTooltip="Actualizar" />
+                            <app-column-chooser [estado]="columnas" class="ml-2" />
                         </ng-template>
                     </p-toolbar>
 
@@ -64,12 +77,25 @@ import { TraspasoFormModalComponent } from '../components/traspaso-form-modal.co
                         [lazy]="true"
                         (onLazyLoad)="onLazyLoad($event)"
                         [paginator]="true"
-                        [rows]="pageSize"
+                        [rows]="tableState.state().pageSize"
+                        [first]="tableState.first()"
+                        [sortField]="tableState.state().sortColumn"
+                        [sortOrder]="tableState.sortOrderNumber()"
                         [totalRecords]="traspasosStore.totalRecords()"
                         [showCurrentPageReport]="true"
                         currentPageReportTemplate="Mostrando {first} a {last} de {totalRecords} traspasos"
                         [rowsPerPageOptions]="[10, 25, 50]"
-                        [tableStyle]="{ 'min-width': '50rem' }"
+                        [columns]="columnas.visibles()"
+                        [tableStyle]="columnas.tableStyle()"
+                        [size]="columnas.size()"
+                        [reorderableColumns]="true"
+                        [resizableColumns]="true"
+                        columnResizeMode="expand"
+                        (onColReorder)="columnas.onColReorder($event)"
+                        (onColResize)="columnas.onColResize($event)"
+                        (onEditInit)="edicion.onEditInit($event)"
+                        (onEditComplete)="edicion.onEditComplete($event)"
+                        (onEditCancel)="edicion.onEditCancel()"
                         styleClass="p-datatable-gridlines"
                         [rowHover]="true"
                         dataKey="id"
@@ -79,69 +105,89 @@ import { TraspasoFormModalComponent } from '../components/traspaso-form-modal.co
                                 <h5 class="m-0 font-semibold text-xl">Gestión de Traspasos</h5>
                                 <p-iconfield class="w-full md:w-auto">
                                     <p-inputicon styleClass="pi pi-search" />
-                                    <input pInputText type="text" [(ngModel)]="searchTerm" (input)="onSearchChange($event)" placeholder="Buscar traspasos..." class="w-full" />
+                                    <input pInputText type="text" [value]="tableState.state().search" (input)="onSearchChange($event)" placeholder="Buscar traspasos..." class="w-full" />
                                 </p-iconfield>
                             </div>
+                            <div class="flex justify-end px-4 pb-3">
+                                <app-guardar-vista pagina="traspasos" [estado]="tableState.state()" [columnas]="columnas" />
+                            </div>
                         </ng-template>
 
-                        <ng-template #header>
+                        <ng-template #header let-columns>
                             <tr>
-                                <th pSortableColumn="fecha" style="min-width:10rem; padding: 1rem">
-                                    Fecha
-                                    <p-sortIcon field="fecha" />
-                                </th>
-                                <th pSortableColumn="importe" style="min-width:10rem">
-                                    Importe
-                                    <p-sortIcon field="importe" />
-                                </th>
-                                <th style="min-width:12rem">Cuenta Origen</th>
-                                <th style="min-width:12rem">Cuenta Destino</th>
-                                <th style="min-width:15rem">Descripción</th>
+                                @for (columna of columns; track columna.campo) {
+                                    <th [pSortableColumn]="columna.campo" [pSortableColumnDisabled]="columna.ordenable === false" pReorderableColumn pResizableColumn [attr.data-campo]="columna.campo" [ngStyle]="columnas.estilo(columna)">
+                                        {{ columna.cabecera }}
+                                        @if (columna.ordenable !== false) {
+                                            <p-sortIcon [field]="columna.campo" />
+                                        }
+                                    </th>
+                                }
                                 <th style="min-width:10rem">Acciones</th>
                             </tr>
                         </ng-template>
 
-                        <ng-template #body let-traspaso>
+                        <ng-template #body let-traspaso let-columns="columns">
                             <tr>
-                                <td style="padding: 1rem">
-                                    {{ traspaso.fecha | date: 'dd/MM/yyyy' }}
-                                </td>
-                                <td>
-                                    <span class="font-bold text-blue-600">{{ traspaso.importe | number: '1.2-2' : 'es-ES' }} €</span>
-                                </td>
-                                <td>
-                                    <div class="flex items-center gap-2">
-                                        <i class="pi pi-arrow-circle-right text-red-500"></i>
-                                        <span>{{ traspaso.cuentaOrigenNombre }}</span>
-                                    </div>
-                                </td>
-                                <td>
-                                    <div class="flex items-center gap-2">
-                                        <i class="pi pi-arrow-circle-left text-green-500"></i>
-                                        <span>{{ traspaso.cuentaDestinoNombre }}</span>
-                                    </div>
-                                </td>
-                                <td>
-                                    <span [title]="traspaso.descripcion">
-                                        {{ traspaso.descripcion || '-' }}
-                                    </span>
-                                </td>
+                                @for (columna of columns; track columna.campo) {
+                                    <td [pEditableColumn]="traspaso" [pEditableColumnField]="columna.campo" [pEditableColumnDisabled]="!!traspaso.conciliado" [attr.data-celda]="traspaso.id + ':' + columna.campo">
+                                        <p-cellEditor>
+                                            <ng-template #input>
+                                                <app-editor-celda [editor]="columna.editor" [moneda]="traspaso.monedaOrigen" [(valor)]="edicion.valor" />
+                                            </ng-template>
+                                            <ng-template #output>
+                                                @switch (columna.campo) {
+                                                    @case ('fecha') {
+                                                        {{ traspaso.fecha | date: 'dd/MM/yyyy' }}
+                                                        @if (outboxStore.esPendiente(traspaso.id)) {
+                                                            <p-tag severity="warn" value="Pendiente" icon="pi pi-clock" class="ml-2" />
+                                                        }
+                                                        @if (traspaso.conciliado) {
+                                                            <p-tag severity="secondary" value="Conciliado" icon="pi pi-lock" class="ml-2" pTooltip="Conciliado con el banco: no se puede editar ni eliminar desde aquí" />
+                                                        }
+                                                    }
+                                                    @case ('importe') {
+                                                        <span class="font-bold text-blue-600">{{ traspaso.importe | importe: traspaso.monedaOrigen }}</span>
+                                                        @if (traspaso.importeDestino) {
+                                                            <span class="text-500 text-sm ml-1">→ {{ traspaso.importeDestino | importe: traspaso.monedaDestino }}</span>
+                                                        }
+                                                    }
+                                                    @case ('cuentaOrigenNombre') {
+                                                        <div class="flex items-center gap-2">
+                                                            <i class="pi pi-arrow-circle-right text-red-500"></i>
+                                                            <span>{{ traspaso.cuentaOrigenNombre }}</span>
+                                                        </div>
+                                                    }
+                                                    @case ('cuentaDestinoNombre') {
+                                                        <div class="flex items-center gap-2">
+                                                            <i class="pi pi-arrow-circle-left text-green-500"></i>
+                                                            <span>{{ traspaso.cuentaDestinoNombre }}</span>
+                                                        </div>
+                                                    }
+                                                    @case ('descripcion') {
+                                                        <span [title]="traspaso.descripcion">
+                                                            {{ traspaso.descripcion || '-' }}
+                                                        </span>
+                                                    }
+                                                }
+                                            </ng-template>
+                                        </p-cellEditor>
+                                    </td>
+                                }
                                 <td>
                                     <div class="flex gap-2">
-                                        <p-button icon="pi pi-pencil" class="mr-2" [rounded]="true" [outlined]="true" (click)="editTraspaso(traspaso)" pTooltip="Editar" />
-                                        <p-button icon="pi pi-trash" severity="danger" [rounded]="true" [outlined]="true" (click)="deleteTraspaso(traspaso)" pTooltip="Eliminar" />
+                                        <p-button icon="pi pi-pencil" class="mr-2" [rounded]="true" [outlined]="true" [disabled]="!!traspaso.conciliado" (click)="editTraspaso(traspaso)" pTooltip="Editar" />
+                                        <p-button icon="pi pi-trash" severity="danger" [rounded]="true" [outlined]="true" [disabled]="!!traspaso.conciliado" (click)="deleteTraspaso(traspaso)" pTooltip="Eliminar" />
                                     </div>
                                 </td>
                             </tr>
                         </ng-template>
 
-                        <ng-template #loadingbody>
+                        <ng-template #loadingbody let-columns="columns">
                             <tr>
-                                <td style="padding: 1rem"><p-skeleton width="80%" /></td>
-                                <td><p-skeleton width="70%" /></td>
-                                <td><p-skeleton width="70%" /></td>
-                                <td><p-skeleton width="70%" /></td>
-                                <td><p-skeleton width="90%" /></td>
+                                @for (columna of columns; track columna.campo) {
+                                    <td><p-skeleton width="70%" /></td>
+                                }
                                 <td>
                                     <div class="flex gap-2">
                                         <p-skeleton shape="circle" size="2.5rem" />
@@ -153,7 +199,7 @@ import { TraspasoFormModalComponent } from '../components/traspaso-form-modal.co
 
                         <ng-template #emptymessage>
                             <tr>
-                                <td colspan="8" style="padding: 2rem">
+                                <td [attr.colspan]="columnas.visibles().length + 1" style="padding: 2rem">
                                     <div class="text-center py-8">
                                         <i class="pi pi-inbox text-500 text-5xl mb-3"></i>
                                         <p class="text-900 font-semibold text-xl mb-2">No hay traspasos</p>
@@ -169,11 +215,12 @@ import { TraspasoFormModalComponent } from '../components/traspaso-form-modal.co
         </app-base-page-template>
 
         <!-- Modal de Formulario -->
-        <app-traspaso-form-modal [visible]="traspasoDialog" [traspaso]="currentTraspaso" (save)="saveTraspaso($event)" (cancel)="hideDialog()" />
+        <app-traspaso-form-modal [visible]="traspasoDialog" [traspaso]="currentTraspaso" [guardarYNuevo]="true" (save)="saveTraspaso($event)" (saveAndNew)="saveAndNewTraspaso($event)" (cancel)="hideDialog()" />
     `
 })
 export class TraspasosListPage extends BasePageComponent {
     traspasosStore = inject(TraspasosStore);
+    outboxStore = inject(OutboxStore);
 
     protected override loadingSignal = this.traspasosStore.loading;
     protected override skeletonType = 'table' as const;
@@ -182,11 +229,18 @@ export class TraspasosListPage extends BasePageComponent {
 
     private searchSubject = new Subject<string>();
 
-    pageSize: number = 10;
-    pageNumber: number = 1;
-    searchTerm: string = '';
-    sortColumn: string = 'fecha';
-    sortOrder: string = 'desc';
+    // Paginación, orden y búsqueda sincronizados con la URL
+    tableState = injectTableUrlState('traspasos', { sortColumn: 'fecha', sortOrder: 'desc' });
+
+    // Columnas visibles, orden, anchos y densidad de la tabla
+    columnas = injectTableColumns('traspasos', COLUMNAS_TRASPASOS, { anchoFijo: 10 });
+
+    // "Nuevo" pedido desde la paleta de comandos (Ctrl+K)
+    private accionNuevo = injectAccionRapida('nuevo-traspaso', () => this.openNew());
+    private atajoNuevo = injectAtajo('n', () => this.openNew());
+
+    // Edición en línea de las celdas con la misma actualización optimista que el formulario
+    edicion = new TableInlineEdit<Traspaso>(COLUMNAS_TRASPASOS, (traspaso, cambios) => this.guardarCelda(traspaso, cambios));
 
     // Propiedades del modal
     traspasoDialog: boolean = false;
@@ -195,22 +249,18 @@ export class TraspasosListPage extends BasePageComponent {
     constructor() {
         super();
         this.searchSubject.pipe(debounceTime(500), distinctUntilChanged()).subscribe((searchValue) => {
-            this.searchTerm = searchValue;
-            this.pageNumber = 1;
-            this.reloadTraspasos();
+            this.tableState.setSearch(searchValue);
         });
-    }
-
-    onLazyLoad(event: any) {
-        this.pageNumber = event.first / event.rows + 1;
-        this.pageSize = event.rows;
 
-        if (event.sortField) {
-            this.sortColumn = event.sortField;
-            this.sortOrder = event.sortOrder === 1 ? 'asc' : 'desc';
-        }
+        // Recargar cada vez que cambia el estado de la tabla en la URL (incluye atrás/adelante)
+        effect(() => {
+            this.tableState.state();
+            untracked(() => this.reloadTraspasos());
+        });
+    }
 
-        this.reloadTraspasos();
+    onLazyLoad(event: TableLazyLoadEvent) {
+        this.tableState.onLazyLoad(event);
     }
 
     onSearchChange(event: Event) {
@@ -219,18 +269,17 @@ export class TraspasosListPage extends BasePageComponent {
     }
 
     private reloadTraspasos() {
+        const { page, pageSize, search, sortColumn, sortOrder } = this.tableState.state();
         this.traspasosStore.loadTraspasosPaginated({
-            page: this.pageNumber,
-            pageSize: this.pageSize,
-            searchTerm: this.searchTerm || undefined,
-            sortColumn: this.sortColumn || undefined,
-            sortOrder: this.sortOrder || undefined
+            page,
+            pageSize,
+            searchTerm: search || undefined,
+            sortColumn,
+            sortOrder
         });
     }
 
     refreshTable() {
-        this.pageNumber = 1;
-        this.searchTerm = '';
         this.reloadTraspasos();
         this.showInfo('Datos actualizados', 'Actualización');
     }
@@ -261,6 +310,8 @@ export class TraspasosListPage extends BasePageComponent {
                 cuentaOrigenId: traspaso.cuentaOrigenId!,
                 cuentaDestinoId: traspaso.cuentaDestinoId!,
                 importe: traspaso.importe!,
+                importeDestino: traspaso.importeDestino,
+                tipoCambio: traspaso.tipoCambio,
                 fecha: traspaso.fecha!,
                 descripcion: traspaso.descripcion
             };
@@ -270,18 +321,29 @@ export class TraspasosListPage extends BasePageComponent {
         this.hideDialog();
     }
 
+    // Ctrl+Shift+Enter en el formulario: se guarda y se empieza otro con las mismas cuentas
+    saveAndNewTraspaso(traspaso: Partial<Traspaso>) {
+        this.saveTraspaso(traspaso);
+        const { cuentaOrigenId, cuentaOrigenNombre, cuentaDestinoId, cuentaDestinoNombre, monedaOrigen, monedaDestino } = traspaso;
+        this.currentTraspaso = { cuentaOrigenId, cuentaOrigenNombre, cuentaDestinoId, cuentaDestinoNombre, monedaOrigen, monedaDestino };
+        this.traspasoDialog = true;
+    }
+
+    private async guardarCelda(traspaso: Traspaso, cambios: Partial<Traspaso>) {
+        const actualizado = { ...traspaso, ...cambios };
+        if (actualizado.cuentaOrigenId === actualizado.cuentaDestinoId) {
+            this.showError('La cuenta de origen y la de destino deben ser distintas');
+            return;
+        }
+
+        try {
+            await this.traspasosStore.updateTraspaso({ id: traspaso.id, traspaso: actualizado });
+        } catch (error: any) {
+            this.showError(error.userMessage || error.message || 'Error al actualizar el traspaso');
+        }
+    }
+
     deleteTraspaso(traspaso: Traspaso) {
-        this.confirmAction(
-            `¿Estás seguro de eliminar este traspaso de ${traspaso.importe}€?`,
-            () => {
-                this.traspasosStore.deleteTraspaso(traspaso.id);
-                this.showSuccess('Traspaso eliminado correctamente');
-            },
-            {
-                header: 'Confirmar eliminación',
-                acceptLabel: 'Sí, eliminar',
-                rejectLabel: 'Cancelar'
-            }
-        );
+        this.traspasosStore.deleteTraspaso(traspaso.id);
     }
 }
@@ -1,10 +1,15 @@
-import { computed, inject } from '@angular/core';
-import { patchState, signalStore, withComputed, withMethods, withState } from '@ngrx/signals';
+import { computed, effect, inject, untracked } from '@angular/core';
+import { patchState, signalStore, withComputed, withHooks, withMethods, withState } from '@ngrx/signals';
 import { rxMethod } from '@ngrx/signals/rxjs-interop';
 import { firstValueFrom, pipe, switchMap, tap } from 'rxjs';
 import { tapResponse } from '@ngrx/operators';
 import { TraspasoService } from '@/core/services/api/traspaso.service';
 import { Traspaso, TraspasoCreate } from '@/core/models/traspaso.model';
+import { DuplicateDetectionOptions, PosibleDuplicado } from '@/core/models/duplicado.model';
+import { DuplicateDetectionService } from '@/core/services/duplicate-detection.service';
+import { OutboxStore } from '@/core/stores/outbox.store';
+import { UndoStore, edicionConDeshacer, eliminarConDeshacer, paginaSinBorrados } from '@/core/stores/undo.store';
+import { aplicarReemplazos } from '@/shared/utils/outbox.util';
 
 interface TraspasosState {
     traspasos: Traspaso[];
@@ -28,7 +33,7 @@ export const TraspasosStore = signalStore(
     withComputed((store) => ({
         count: computed(() => store.traspasos().length)
     })),
-    withMethods((store, traspasoService = inject(TraspasoService)) => ({
+    withMethods((store, traspasoService = inject(TraspasoService), duplicateDetection = inject(DuplicateDetectionService), undoStore = inject(UndoStore)) => ({
         loadTraspasosPaginated: rxMethod<{
             page: number;
             pageSize: number;
@@ -44,9 +49,10 @@ export const TraspasosStore = signalStore(
                     traspasoService.getTraspasos(page, pageSize, searchTerm, sortColumn, sortOrder).pipe(
                         tapResponse({
                             next: (response) => {
+                                const pagina = paginaSinBorrados(undoStore, response);
                                 patchState(store, {
-                                    traspasos: response.items,
-                                    totalRecords: response.totalCount,
+                                    traspasos: pagina.items,
+                                    totalRecords: pagina.totalCount,
                                     loading: false,
                                     error: null
                                 });
@@ -65,6 +71,11 @@ export const TraspasosStore = signalStore(
         ),
 
 
+        // Buscar posibles duplicados antes de crear (mismas cuentas, importe y fecha cercana)
+        findDuplicates(traspaso: Partial<Traspaso> & Pick<Traspaso, 'cuentaOrigenId' | 'cuentaDestinoId' | 'importe' | 'fecha'>, options?: Partial<DuplicateDetectionOptions>): Promise<PosibleDuplicado<Traspaso>[]> {
+            return duplicateDetection.findTraspasoDuplicates(traspaso, options);
+        },
+
         // Crear traspaso con actualización optimista
         async createTraspaso(traspaso: TraspasoCreate): Promise<string> {
             const tempId = `temp_${Date.now()}`;
@@ -76,6 +87,8 @@ export const TraspasosStore = signalStore(
                 cuentaDestinoNombre: '',
                 fecha: traspaso.fecha,
                 importe: traspaso.importe,
+                importeDestino: traspaso.importeDestino,
+                tipoCambio: traspaso.tipoCambio,
                 descripcion: traspaso.descripcion,
                 usuarioId: ''
             };
@@ -118,6 +131,9 @@ export const TraspasosStore = signalStore(
             try {
                 await firstValueFrom(traspasoService.update(id, traspaso));
                 patchState(store, { loading: false });
+                if (traspasoAnterior) {
+                    edicionConDeshacer(undoStore, store, 'traspasos', traspasoAnterior, { mensaje: 'Traspaso actualizado', revertir: (anterior) => traspasoService.update(id, anterior) });
+                }
             } catch (error: any) {
                 if (traspasoAnterior) {
                     const revertedTraspasos = store.traspasos().map(t =>
@@ -133,37 +149,23 @@ export const TraspasosStore = signalStore(
             }
         },
 
-        deleteTraspaso: rxMethod<string>(
-            pipe(
-                switchMap((id) => {
-                    const traspasoEliminado = store.traspasos().find(t => t.id === id);
-                    const totalAnterior = store.totalRecords();
+        deleteTraspaso(id: string): void {
+            eliminarConDeshacer(undoStore, store, 'traspasos', id, {
+                mensaje: 'Traspaso eliminado',
+                eliminar: () => traspasoService.delete(id)
+            });
+        }
+    })),
 
-                    patchState(store, {
-                        traspasos: store.traspasos().filter(t => t.id !== id),
-                        totalRecords: store.totalRecords() - 1
-                    });
+    withHooks({
+        onInit(store) {
+            const outboxStore = inject(OutboxStore);
 
-                    return traspasoService.delete(id).pipe(
-                        tapResponse({
-                            next: () => {
-                                patchState(store, { error: null });
-                            },
-                            error: (error: any) => {
-                                if (traspasoEliminado) {
-                                    patchState(store, {
-                                        traspasos: [...store.traspasos(), traspasoEliminado],
-                                        totalRecords: totalAnterior,
-                                        error: error.message || 'Error al eliminar traspaso'
-                                    });
-                                } else {
-                                    patchState(store, { error: error.message || 'Error al eliminar traspaso' });
-                                }
-                            }
-                        })
-                    );
-                })
-            )
-        )
-    }))
+            // Sustituir los ids temporales de los traspasos creados sin conexión cuando se sincronizan
+            effect(() => {
+                const reemplazos = outboxStore.reemplazos();
+                untracked(() => patchState(store, { traspasos: aplicarReemplazos(store.traspasos(), reemplazos) }));
+            });
+        }
+    })
 );
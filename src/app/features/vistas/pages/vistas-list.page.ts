@@ -0,0 +1,144 @@
+import { Component, inject, ChangeDetectionStrategy, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterModule } from '@angular/router';
+import { ButtonModule } from 'primeng/button';
+import { InputTextModule } from 'primeng/inputtext';
+import { MessageModule } from 'primeng/message';
+import { MessageService, ConfirmationService } from 'primeng/api';
+import { TableModule } from 'primeng/table';
+import { TagModule } from 'primeng/tag';
+import { TooltipModule } from 'primeng/tooltip';
+import { VistaStore } from '@/core/stores/vista.store';
+import { PaginaVista, VistaGuardada } from '@/core/models/vista.model';
+import { BasePageComponent, BasePageTemplateComponent, tableStateQueryParams } from '@/shared/components';
+import { chipsFiltros, filtrosVacios } from '@/shared/utils/movimiento-filters.util';
+import { MonedaStore } from '@/core/stores/moneda.store';
+
+const ETIQUETAS_PAGINA: Record<PaginaVista, string> = { gastos: 'Gastos', ingresos: 'Ingresos', traspasos: 'Traspasos' };
+
+@Component({
+    selector: 'app-vistas-list-page',
+    standalone: true,
+    imports: [CommonModule, FormsModule, RouterModule, ButtonModule, InputTextModule, MessageModule, TableModule, TagModule, TooltipModule, BasePageTemplateComponent],
+    providers: [MessageService, ConfirmationService],
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    template: `
+        <app-base-page-template [loading]="false">
+            <div class="card surface-ground px-4 py-5 md:px-6 lg:px-8">
+                <div class="surface-card shadow-2 border-round p-6">
+                    @if (vistaStore.modoLocal()) {
+                        <p-message severity="info" styleClass="w-full mb-4" text="Las vistas se están guardando solo en este navegador porque el servidor no está disponible." />
+                    }
+
+                    <p-table [value]="vistaStore.vistas()" [loading]="vistaStore.loading()" dataKey="id" [tableStyle]="{ 'min-width': '50rem' }" class="p-datatable-gridlines" [rowHover]="true">
+                        <ng-template #caption>
+                            <div class="flex items-center justify-between py-3 px-4">
+                                <h5 class="m-0 font-semibold text-xl">Vistas guardadas</h5>
+                                <span class="text-sm text-muted-color">Guarda una vista desde el listado de gastos, ingresos o traspasos</span>
+                            </div>
+                        </ng-template>
+
+                        <ng-template #header>
+                            <tr>
+                                <th style="min-width: 14rem">Nombre</th>
+                                <th style="width: 8rem">Listado</th>
+                                <th>Criterios</th>
+                                <th style="width: 12rem">Acciones</th>
+                            </tr>
+                        </ng-template>
+
+                        <ng-template #body let-vista>
+                            <tr>
+                                <td>
+                                    @if (editandoId() === vista.id) {
+                                        <input pInputText [(ngModel)]="nombreEditado" (keydown.enter)="guardarNombre(vista)" (keydown.escape)="editandoId.set(null)" class="w-full" />
+                                    } @else {
+                                        <a [routerLink]="['/' + vista.pagina]" [queryParams]="queryParams(vista)" class="font-semibold">{{ vista.nombre }}</a>
+                                    }
+                                </td>
+                                <td><p-tag [value]="etiquetaPagina(vista.pagina)" severity="secondary" /></td>
+                                <td>
+                                    <div class="flex flex-wrap gap-1">
+                                        @for (criterio of describir(vista); track criterio) {
+                                            <p-tag severity="info" [value]="criterio" />
+                                        }
+                                    </div>
+                                </td>
+                                <td>
+                                    @if (editandoId() === vista.id) {
+                                        <p-button icon="pi pi-check" class="mr-2" [rounded]="true" [outlined]="true" [disabled]="!nombreEditado.trim()" (click)="guardarNombre(vista)" />
+                                        <p-button icon="pi pi-times" severity="secondary" [rounded]="true" [outlined]="true" (click)="editandoId.set(null)" />
+                                    } @else {
+                                        <p-button icon="pi pi-external-link" class="mr-2" [rounded]="true" [outlined]="true" pTooltip="Abrir" [routerLink]="['/' + vista.pagina]" [queryParams]="queryParams(vista)" />
+                                        <p-button icon="pi pi-pencil" class="mr-2" [rounded]="true" [outlined]="true" pTooltip="Renombrar" (click)="editarNombre(vista)" />
+                                        <p-button icon="pi pi-trash" severity="danger" [rounded]="true" [outlined]="true" pTooltip="Eliminar" (click)="deleteVista(vista)" />
+                                    }
+                                </td>
+                            </tr>
+                        </ng-template>
+
+                        <ng-template #emptymessage>
+                            <tr>
+                                <td colspan="4" style="padding: 2rem">
+                                    <div class="text-center py-8">
+                                        <i class="pi pi-bookmark text-500 text-5xl mb-3"></i>
+                                        <p class="text-900 font-semibold text-xl mb-2">No hay vistas guardadas</p>
+                                        <p class="text-600">Filtra un listado de movimientos y pulsa "Guardar vista" para volver a él desde el menú</p>
+                                    </div>
+                                </td>
+                            </tr>
+                        </ng-template>
+                    </p-table>
+                </div>
+            </div>
+        </app-base-page-template>
+    `
+})
+export class VistasListPage extends BasePageComponent {
+    vistaStore = inject(VistaStore);
+    private monedaStore = inject(MonedaStore);
+
+    editandoId = signal<string | null>(null);
+    nombreEditado = '';
+
+    etiquetaPagina(pagina: PaginaVista): string {
+        return ETIQUETAS_PAGINA[pagina];
+    }
+
+    queryParams(vista: VistaGuardada) {
+        return { ...tableStateQueryParams(vista), vista: vista.id };
+    }
+
+    editarNombre(vista: VistaGuardada) {
+        this.nombreEditado = vista.nombre;
+        this.editandoId.set(vista.id);
+    }
+
+    async guardarNombre(vista: VistaGuardada) {
+        const nombre = this.nombreEditado.trim();
+        if (!nombre) return;
+
+        try {
+            await this.vistaStore.updateVista(vista.id, { nombre });
+            this.editandoId.set(null);
+            this.showSuccess('Vista renombrada correctamente');
+        } catch (error: any) {
+            this.showError(error.userMessage || 'No se pudo renombrar la vista');
+        }
+    }
+
+    deleteVista(vista: VistaGuardada) {
+        this.confirmAction(`¿Estás seguro de eliminar la vista "${vista.nombre}"?`, () => this.vistaStore.deleteVista(vista.id), {
+            header: 'Confirmar eliminación',
+            successMessage: 'Vista eliminada correctamente'
+        });
+    }
+
+    describir(vista: VistaGuardada): string[] {
+        const criterios = chipsFiltros({ ...filtrosVacios(), ...vista.filtros }, this.monedaStore.monedaBase()).map((chip) => chip.etiqueta);
+        if (vista.search) criterios.push(`Búsqueda: "${vista.search}"`);
+        criterios.push(`Orden: ${vista.sortColumn} ${vista.sortOrder === 'asc' ? '↑' : '↓'}`);
+        return criterios;
+    }
+}
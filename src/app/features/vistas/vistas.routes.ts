@@ -0,0 +1,8 @@
+import { Routes } from '@angular/router';
+
+export default [
+    {
+        path: '',
+        loadComponent: () => import('./pages/vistas-list.page').then(m => m.VistasListPage)
+    }
+] as Routes;
@@ -0,0 +1,309 @@
+import { Component, computed, effect, inject, signal, untracked, ChangeDetectionStrategy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { Router } from '@angular/router';
+import { MenuItem } from 'primeng/api';
+import { DialogModule } from 'primeng/dialog';
+import { debounceTime, firstValueFrom, from, Subject, switchMap, tap } from 'rxjs';
+import { LayoutService } from '../service/layout.service';
+import { MENU_SECCIONES, menuVistas } from './app.menu';
+import { AccionRapida, Comando, GRUPOS_COMANDO, GrupoComando } from '../../core/models/comando.model';
+import { AccionesRapidasService } from '../../core/services/acciones-rapidas.service';
+import { GastoService } from '../../core/services/api/gasto.service';
+import { IngresoService } from '../../core/services/api/ingreso.service';
+import { VistaStore } from '../../core/stores/vista.store';
+import { CuentaStore } from '../../features/cuentas/store/cuenta.store';
+import { ConceptoStore } from '../../features/conceptos/store/concepto.store';
+import { CategoriaStore } from '../../features/categorias/store/categoria.store';
+import { tableStateQueryParams } from '../../shared/components/base/table-url-state';
+import { filtrarDifuso } from '../../shared/utils/busqueda-difusa.util';
+import { formatearImporte } from '../../shared/utils/monedas.util';
+import { MONEDA_POR_DEFECTO } from '../../core/models/moneda.model';
+
+// Resultados por búsqueda remota: los catálogos necesitan al menos dos letras
+const LIMITE_REMOTO = 5;
+const MINIMO_CATALOGOS = 2;
+
+interface MovimientoReciente {
+    id: string;
+    fecha: string;
+    conceptoNombre: string;
+    importe: number;
+    moneda?: string;
+}
+
+/**
+ * Paleta de comandos (Ctrl/Cmd+K): páginas del menú, acciones rápidas, movimientos recientes y catálogos
+ * Se maneja solo con el teclado: flechas para moverse, Enter para ejecutar y Esc para cerrar
+ */
+@Component({
+    selector: 'app-command-palette',
+    standalone: true,
+    imports: [CommonModule, FormsModule, DialogModule],
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    host: { '(document:keydown)': 'onDocumentKeydown($event)' },
+    template: `
+        <p-dialog
+            [visible]="visible()"
+            (visibleChange)="!$event && cerrar()"
+            [modal]="true"
+            [dismissableMask]="true"
+            [showHeader]="false"
+            position="top"
+            [style]="{ width: 'min(40rem, calc(100vw - 2rem))' }"
+            [contentStyle]="{ padding: '0' }"
+            (onShow)="input.focus()"
+            appendTo="body"
+        >
+            <div class="flex items-center gap-3 px-4 py-3 border-b border-surface">
+                <i class="pi pi-search text-muted-color"></i>
+                <input
+                    #input
+                    type="text"
+                    class="flex-1 border-0 bg-transparent outline-none text-lg text-color"
+                    placeholder="Busca páginas, movimientos, cuentas o acciones..."
+                    role="combobox"
+                    aria-label="Buscar comandos"
+                    aria-controls="paleta-comandos"
+                    [attr.aria-activedescendant]="resultados().length ? 'comando-' + activo() : null"
+                    [ngModel]="consulta()"
+                    (ngModelChange)="buscar($event)"
+                    (keydown)="onKeydown($event)"
+                />
+                @if (cargando()) {
+                    <i class="pi pi-spin pi-spinner text-muted-color"></i>
+                }
+            </div>
+
+            <div id="paleta-comandos" role="listbox" class="overflow-auto py-2" style="max-height: 60vh">
+                @for (grupo of grupos(); track grupo.nombre) {
+                    <div class="px-4 pt-2 pb-1 text-xs font-semibold uppercase text-muted-color">{{ grupo.nombre }}</div>
+                    @for (item of grupo.items; track item.comando.id) {
+                        <div
+                            [id]="'comando-' + item.indice"
+                            role="option"
+                            [attr.aria-selected]="item.indice === activo()"
+                            class="flex items-center gap-3 px-4 py-2 cursor-pointer"
+                            [class.bg-emphasis]="item.indice === activo()"
+                            (mousemove)="activo.set(item.indice)"
+                            (click)="ejecutar(item.comando)"
+                        >
+                            <i [class]="item.comando.icono"></i>
+                            <span class="flex-1 truncate">{{ item.comando.etiqueta }}</span>
+                            @if (item.comando.detalle) {
+                                <small class="text-muted-color whitespace-nowrap">{{ item.comando.detalle }}</small>
+                            }
+                        </div>
+                    }
+                } @empty {
+                    @if (!cargando()) {
+                        <div class="px-4 py-6 text-center text-muted-color">Sin resultados para "{{ consulta() }}"</div>
+                    }
+                }
+            </div>
+
+            <div class="flex gap-4 px-4 py-2 border-t border-surface text-xs text-muted-color">
+                <span><kbd>↑</kbd> <kbd>↓</kbd> moverse</span>
+                <span><kbd>Enter</kbd> abrir</span>
+                <span><kbd>Esc</kbd> cerrar</span>
+            </div>
+        </p-dialog>
+    `
+})
+export class AppCommandPalette {
+    private layoutService = inject(LayoutService);
+    private router = inject(Router);
+    private accionesRapidas = inject(AccionesRapidasService);
+    private gastoService = inject(GastoService);
+    private ingresoService = inject(IngresoService);
+    private vistaStore = inject(VistaStore);
+    private cuentaStore = inject(CuentaStore);
+    private conceptoStore = inject(ConceptoStore);
+    private categoriaStore = inject(CategoriaStore);
+
+    visible = computed(() => !!this.layoutService.layoutState().commandPaletteVisible);
+    consulta = signal('');
+    activo = signal(0);
+    cargando = signal(false);
+
+    private remotos = signal<Comando[]>([]);
+    private busqueda = new Subject<string>();
+
+    private acciones = computed<Comando[]>(() => {
+        const oscuro = this.layoutService.isDarkTheme();
+        return [
+            { id: 'nuevo-gasto', grupo: 'Acciones', etiqueta: 'Nuevo gasto', icono: 'pi pi-minus-circle', palabrasClave: 'crear añadir', ejecutar: () => this.accionRapida('nuevo-gasto', '/gastos') },
+            { id: 'nuevo-ingreso', grupo: 'Acciones', etiqueta: 'Nuevo ingreso', icono: 'pi pi-plus-circle', palabrasClave: 'crear añadir', ejecutar: () => this.accionRapida('nuevo-ingreso', '/ingresos') },
+            { id: 'nuevo-traspaso', grupo: 'Acciones', etiqueta: 'Nuevo traspaso', icono: 'pi pi-sync', palabrasClave: 'crear añadir mover', ejecutar: () => this.accionRapida('nuevo-traspaso', '/traspasos') },
+            {
+                id: 'cambiar-tema',
+                grupo: 'Acciones',
+                etiqueta: oscuro ? 'Cambiar a tema claro' : 'Cambiar a tema oscuro',
+                icono: oscuro ? 'pi pi-sun' : 'pi pi-moon',
+                palabrasClave: 'cambiar tema modo oscuro claro',
+                ejecutar: () => this.layoutService.layoutConfig.update((state) => ({ ...state, darkTheme: !state.darkTheme }))
+            },
+            { id: 'atajos', grupo: 'Acciones', etiqueta: 'Atajos de teclado', icono: 'pi pi-question-circle', palabrasClave: 'ayuda teclas', ejecutar: () => this.layoutService.setShortcutsHelpVisible(true) }
+        ];
+    });
+
+    // Entradas del menú lateral, incluidas las vistas guardadas
+    private navegacion = computed<Comando[]>(() => {
+        const secciones = [...MENU_SECCIONES, menuVistas(this.vistaStore.vistas())];
+        return secciones.flatMap((seccion) => (seccion.items ?? []).map((item) => this.comandoMenu(item, seccion.label ?? '')));
+    });
+
+    resultados = computed<Comando[]>(() => {
+        const consulta = this.consulta();
+        const locales = filtrarDifuso([...this.acciones(), ...this.navegacion()], consulta, (c) => `${c.etiqueta} ${c.palabrasClave ?? ''}`);
+        const todos = [...locales, ...this.remotos()];
+        // Agrupados en el orden de las secciones, conservando la relevancia dentro de cada una
+        return GRUPOS_COMANDO.flatMap((grupo) => todos.filter((c) => c.grupo === grupo));
+    });
+
+    grupos = computed(() => {
+        const grupos: { nombre: GrupoComando; items: { comando: Comando; indice: number }[] }[] = [];
+        this.resultados().forEach((comando, indice) => {
+            const ultimo = grupos[grupos.length - 1];
+            if (ultimo?.nombre === comando.grupo) {
+                ultimo.items.push({ comando, indice });
+            } else {
+                grupos.push({ nombre: comando.grupo, items: [{ comando, indice }] });
+            }
+        });
+        return grupos;
+    });
+
+    constructor() {
+        this.busqueda
+            .pipe(
+                tap(() => this.cargando.set(true)),
+                debounceTime(200),
+                switchMap((consulta) => from(this.buscarRemoto(consulta))),
+                takeUntilDestroyed()
+            )
+            .subscribe((remotos) => {
+                this.remotos.set(remotos);
+                this.cargando.set(false);
+            });
+
+        // Cada apertura empieza de cero y carga los movimientos recientes
+        effect(() => {
+            if (!this.visible()) return;
+            untracked(() => this.buscar(''));
+        });
+    }
+
+    onDocumentKeydown(event: KeyboardEvent) {
+        if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+            event.preventDefault();
+            this.layoutService.setCommandPaletteVisible(!this.visible());
+        }
+    }
+
+    onKeydown(event: KeyboardEvent) {
+        const total = this.resultados().length;
+        switch (event.key) {
+            case 'ArrowDown':
+            case 'ArrowUp':
+                event.preventDefault();
+                if (!total) return;
+                this.activo.set((this.activo() + (event.key === 'ArrowDown' ? 1 : -1) + total) % total);
+                document.getElementById('comando-' + this.activo())?.scrollIntoView({ block: 'nearest' });
+                break;
+            case 'Enter': {
+                event.preventDefault();
+                const comando = this.resultados()[this.activo()];
+                if (comando) this.ejecutar(comando);
+                break;
+            }
+        }
+    }
+
+    buscar(consulta: string) {
+        this.consulta.set(consulta);
+        this.activo.set(0);
+        this.busqueda.next(consulta.trim());
+    }
+
+    ejecutar(comando: Comando) {
+        this.cerrar();
+        comando.ejecutar();
+    }
+
+    cerrar() {
+        this.layoutService.setCommandPaletteVisible(false);
+    }
+
+    private accionRapida(accion: AccionRapida, ruta: string) {
+        this.accionesRapidas.solicitar(accion);
+        this.router.navigate([ruta]);
+    }
+
+    private comandoMenu(item: MenuItem, seccion: string): Comando {
+        return {
+            id: `ruta-${seccion}-${item.label}`,
+            grupo: 'Navegación',
+            etiqueta: item.label ?? '',
+            detalle: seccion,
+            icono: item.icon ?? 'pi pi-arrow-right',
+            palabrasClave: seccion,
+            ejecutar: () => this.router.navigate(item.routerLink, { queryParams: item.queryParams })
+        };
+    }
+
+    /**
+     * Movimientos que coinciden (o los últimos si no hay consulta) y catálogos desde sus endpoints de búsqueda
+     * Un origen que falla no impide mostrar el resto
+     */
+    private async buscarRemoto(consulta: string): Promise<Comando[]> {
+        const catalogos = consulta.length >= MINIMO_CATALOGOS;
+        const [gastos, ingresos, cuentas, conceptos, categorias] = await Promise.all([
+            firstValueFrom(this.gastoService.getGastos(1, LIMITE_REMOTO, consulta || undefined, 'fecha', 'desc'))
+                .then((r) => r.items)
+                .catch(() => []),
+            firstValueFrom(this.ingresoService.getIngresos(1, LIMITE_REMOTO, consulta || undefined, 'fecha', 'desc'))
+                .then((r) => r.items)
+                .catch(() => []),
+            catalogos ? this.cuentaStore.search(consulta, LIMITE_REMOTO).catch(() => []) : [],
+            catalogos ? this.conceptoStore.search(consulta, LIMITE_REMOTO).catch(() => []) : [],
+            catalogos ? this.categoriaStore.search(consulta, LIMITE_REMOTO).catch(() => []) : []
+        ]);
+
+        // Gastos e ingresos juntos, del más reciente al más antiguo
+        const movimientos = [...gastos.map((g) => ({ movimiento: g, pagina: 'gastos' as const })), ...ingresos.map((i) => ({ movimiento: i, pagina: 'ingresos' as const }))]
+            .sort((a, b) => b.movimiento.fecha.localeCompare(a.movimiento.fecha))
+            .map(({ movimiento, pagina }) => this.comandoMovimiento(movimiento, pagina));
+
+        return [
+            ...movimientos,
+            ...cuentas.map((c) => this.comandoCatalogo('Cuentas', c, '/cuentas', 'pi pi-credit-card', formatearImporte(c.saldo, c.moneda || MONEDA_POR_DEFECTO))),
+            ...conceptos.map((c) => this.comandoCatalogo('Conceptos', c, '/conceptos', 'pi pi-list')),
+            ...categorias.map((c) => this.comandoCatalogo('Categorías', c, '/categorias', 'pi pi-tag'))
+        ];
+    }
+
+    private comandoMovimiento(movimiento: MovimientoReciente, pagina: 'gastos' | 'ingresos'): Comando {
+        const importe = formatearImporte(movimiento.importe, movimiento.moneda || MONEDA_POR_DEFECTO);
+        return {
+            id: `${pagina}-${movimiento.id}`,
+            grupo: 'Movimientos',
+            etiqueta: `${movimiento.conceptoNombre} · ${importe}`,
+            detalle: `${pagina === 'gastos' ? 'Gasto' : 'Ingreso'} · ${new Date(movimiento.fecha).toLocaleDateString('es-ES')}`,
+            icono: pagina === 'gastos' ? 'pi pi-arrow-down text-red-500' : 'pi pi-arrow-up text-green-500',
+            ejecutar: () => this.router.navigate(['/' + pagina], { queryParams: tableStateQueryParams({ sortColumn: 'fecha', sortOrder: 'desc', search: movimiento.conceptoNombre }) })
+        };
+    }
+
+    private comandoCatalogo(grupo: GrupoComando, item: { id: string; nombre: string }, ruta: string, icono: string, detalle?: string): Comando {
+        return {
+            id: `${ruta}-${item.id}`,
+            grupo,
+            etiqueta: item.nombre,
+            detalle,
+            icono,
+            ejecutar: () => this.router.navigate([ruta], { queryParams: tableStateQueryParams({ sortColumn: 'nombre', sortOrder: 'asc', search: item.nombre }) })
+        };
+    }
+}
@@ -5,12 +5,15 @@ import { filter, Subscription } from 'rxjs';
 import { AppTopbar } from './app.topbar';
 import { AppSidebar } from './app.sidebar';
 import { AppFooter } from './app.footer';
+import { AppUndoToast } from './app.undo-toast';
+import { AppCommandPalette } from './app.command-palette';
+import { AppShortcutsHelp } from './app.shortcuts-help';
 import { LayoutService } from '../service/layout.service';
 
 @Component({
     selector: 'app-layout',
     standalone: true,
-    imports: [CommonModule, AppTopbar, AppSidebar, RouterModule, AppFooter],
+    imports: [CommonModule, AppTopbar, AppSidebar, RouterModule, AppFooter, AppUndoToast, AppCommandPalette, AppShortcutsHelp],
     template: `<div class="layout-wrapper" [ngClass]="containerClass">
         <app-topbar></app-topbar>
         <app-sidebar></app-sidebar>
@@ -21,6 +24,9 @@ import { LayoutService } from '../service/layout.service';
             <app-footer></app-footer>
         </div>
         <div class="layout-mask animate-fadein"></div>
+        <app-undo-toast></app-undo-toast>
+        <app-command-palette></app-command-palette>
+        <app-shortcuts-help></app-shortcuts-help>
     </div> `
 })
 export class AppLayout {
@@ -1,8 +1,141 @@
-import { Component } from '@angular/core';
+import { Component, effect, inject } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { RouterModule } from '@angular/router';
 import { MenuItem } from 'primeng/api';
 import { AppMenuitem } from './app.menuitem';
+import { VistaStore } from '../../core/stores/vista.store';
+import { PaginaVista, VistaGuardada } from '../../core/models/vista.model';
+import { tableStateQueryParams } from '../../shared/components/base/table-url-state';
+
+const ICONOS_VISTA: Record<PaginaVista, string> = {
+    gastos: 'pi pi-fw pi-arrow-down',
+    ingresos: 'pi pi-fw pi-arrow-up',
+    traspasos: 'pi pi-fw pi-sync'
+};
+
+// Secciones fijas del menú lateral (también las recorre la paleta de comandos)
+export const MENU_SECCIONES: MenuItem[] = [
+    {
+        label: 'Inicio',
+        items: [
+            { label: 'Dashboard', icon: 'pi pi-fw pi-home', routerLink: ['/'] }
+        ]
+    },
+    {
+        label: 'Operaciones',
+        icon: 'pi pi-fw pi-wallet',
+        items: [
+            {
+                label: 'Gastos',
+                icon: 'pi pi-fw pi-arrow-down',
+                routerLink: ['/gastos']
+            },
+            {
+                label: 'Ingresos',
+                icon: 'pi pi-fw pi-arrow-up',
+                routerLink: ['/ingresos']
+            },
+            {
+                label: 'Traspasos',
+                icon: 'pi pi-fw pi-sync',
+                routerLink: ['/traspasos']
+            },
+            {
+                label: 'Importar extracto',
+                icon: 'pi pi-fw pi-file-import',
+                routerLink: ['/importar']
+            }
+        ]
+    },
+    {
+        label: 'Planificación',
+        icon: 'pi pi-fw pi-chart-pie',
+        items: [
+            {
+                label: 'Presupuestos',
+                icon: 'pi pi-fw pi-wallet',
+                routerLink: ['/presupuestos']
+            },
+            {
+                label: 'Metas de ahorro',
+                icon: 'pi pi-fw pi-flag',
+                routerLink: ['/metas']
+            },
+            {
+                label: 'Gastos compartidos',
+                icon: 'pi pi-fw pi-users',
+                routerLink: ['/compartidos']
+            }
+        ]
+    },
+    {
+        label: 'Catálogos',
+        icon: 'pi pi-fw pi-database',
+        items: [
+            {
+                label: 'Categorías',
+                icon: 'pi pi-fw pi-tag',
+                routerLink: ['/categorias']
+            },
+            {
+                label: 'Conceptos',
+                icon: 'pi pi-fw pi-list',
+                routerLink: ['/conceptos']
+            },
+            {
+                label: 'Proveedores',
+                icon: 'pi pi-fw pi-building',
+                routerLink: ['/proveedores']
+            },
+            {
+                label: 'Clientes',
+                icon: 'pi pi-fw pi-briefcase',
+                routerLink: ['/clientes']
+            },
+            {
+                label: 'Personas',
+                icon: 'pi pi-fw pi-users',
+                routerLink: ['/personas']
+            },
+            {
+                label: 'Formas de Pago',
+                icon: 'pi pi-fw pi-money-bill',
+                routerLink: ['/formas-pago']
+            },
+            {
+                label: 'Cuentas',
+                icon: 'pi pi-fw pi-credit-card',
+                routerLink: ['/cuentas']
+            },
+            {
+                label: 'Reglas',
+                icon: 'pi pi-fw pi-sliders-h',
+                routerLink: ['/reglas']
+            },
+        ]
+    },
+    {
+        label: 'Programación',
+        icon: 'pi pi-fw pi-calendar',
+        items: [
+            {
+                label: 'Gastos Programados',
+                icon: 'pi pi-fw pi-calendar-minus',
+                routerLink: ['/gastos-programados']
+            },
+            {
+                label: 'Ingresos Programados',
+                icon: 'pi pi-fw pi-calendar-plus',
+                routerLink: ['/ingresos-programados']
+            },
+            {
+                label: 'Traspasos Programados',
+                icon: 'pi pi-fw pi-replay',
+                routerLink: ['/traspasos-programados']
+            }
+        ]
+    }
+];
 
 @Component({
     selector: 'app-menu',
@@ -16,99 +149,42 @@ import { AppMenuitem } from './app.menuitem';
     </ul> `
 })
 export class AppMenu {
+    private vistaStore = inject(VistaStore);
     model: MenuItem[] = [];
 
+    constructor() {
+        // La sección "Vistas" se regenera al guardar, renombrar o eliminar vistas
+        effect(() => {
+            const vistas = menuVistas(this.vistaStore.vistas());
+            this.model = this.model.map((item) => (item.id === 'vistas' ? vistas : item));
+        });
+    }
+
     ngOnInit() {
-        this.model = [
-            {
-                label: 'Inicio',
-                items: [
-                    { label: 'Dashboard', icon: 'pi pi-fw pi-home', routerLink: ['/'] }
-                ]
-            },
-            {
-                label: 'Operaciones',
-                icon: 'pi pi-fw pi-wallet',
-                items: [
-                    {
-                        label: 'Gastos',
-                        icon: 'pi pi-fw pi-arrow-down',
-                        routerLink: ['/gastos']
-                    },
-                    {
-                        label: 'Ingresos',
-                        icon: 'pi pi-fw pi-arrow-up',
-                        routerLink: ['/ingresos']
-                    },
-                    {
-                        label: 'Traspasos',
-                        icon: 'pi pi-fw pi-sync',
-                        routerLink: ['/traspasos']
-                    }
-                ]
-            },
-            {
-                label: 'Catálogos',
-                icon: 'pi pi-fw pi-database',
-                items: [
-                    {
-                        label: 'Categorías',
-                        icon: 'pi pi-fw pi-tag',
-                        routerLink: ['/categorias']
-                    },
-                    {
-                        label: 'Conceptos',
-                        icon: 'pi pi-fw pi-list',
-                        routerLink: ['/conceptos']
-                    },
-                    {
-                        label: 'Proveedores',
-                        icon: 'pi pi-fw pi-building',
-                        routerLink: ['/proveedores']
-                    },
-                    {
-                        label: 'Clientes',
-                        icon: 'pi pi-fw pi-briefcase',
-                        routerLink: ['/clientes']
-                    },
-                    {
-                        label: 'Personas',
-                        icon: 'pi pi-fw pi-users',
-                        routerLink: ['/personas']
-                    },
-                    {
-                        label: 'Formas de Pago',
-                        icon: 'pi pi-fw pi-money-bill',
-                        routerLink: ['/formas-pago']
-                    },
-                                        {
-                        label: 'Cuentas',
-                        icon: 'pi pi-fw pi-credit-card',
-                        routerLink: ['/cuentas']
-                    },
-                ]
-            },
+        // La sección de vistas va tras "Operaciones"
+        this.model = [...MENU_SECCIONES.slice(0, 2), menuVistas(this.vistaStore.vistas()), ...MENU_SECCIONES.slice(2)];
+    }
+}
+
+export function menuVistas(vistas: VistaGuardada[]): MenuItem {
+    return {
+        id: 'vistas',
+        label: 'Vistas',
+        icon: 'pi pi-fw pi-bookmark',
+        items: [
+            ...vistas.map((vista) => ({
+                label: vista.nombre,
+                icon: ICONOS_VISTA[vista.pagina],
+                routerLink: ['/' + vista.pagina],
+                queryParams: { ...tableStateQueryParams(vista), vista: vista.id },
+                // Solo se marca la vista abierta, no todas las de la misma página
+                routerLinkActiveOptions: { paths: 'exact', queryParams: 'subset', matrixParams: 'ignored', fragment: 'ignored' }
+            })),
             {
-                label: 'Programación',
-                icon: 'pi pi-fw pi-calendar',
-                items: [
-                    {
-                        label: 'Gastos Programados',
-                        icon: 'pi pi-fw pi-calendar-minus',
-                        routerLink: ['/gastos-programados']
-                    },
-                    {
-                        label: 'Ingresos Programados',
-                        icon: 'pi pi-fw pi-calendar-plus',
-                        routerLink: ['/ingresos-programados']
-                    },
-                    {
-                        label: 'Traspasos Programados',
-                        icon: 'pi pi-fw pi-replay',
-                        routerLink: ['/traspasos-programados']
-                    }
-                ]
+                label: 'Gestionar vistas',
+                icon: 'pi pi-fw pi-cog',
+                routerLink: ['/vistas']
             }
-        ];
-    }
+        ]
+    };
 }
@@ -0,0 +1,55 @@
+import { Component, computed, inject, ChangeDetectionStrategy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { DialogModule } from 'primeng/dialog';
+import { LayoutService } from '../service/layout.service';
+import { ATAJOS_TECLADO } from '../../core/models/atajo.model';
+import { escribiendoTexto } from '../../shared/utils/atajos-teclado.util';
+
+/**
+ * Ayuda con los atajos de teclado; se abre con "?" fuera de los campos de texto
+ */
+@Component({
+    selector: 'app-shortcuts-help',
+    standalone: true,
+    imports: [CommonModule, DialogModule],
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    host: { '(document:keydown)': 'onDocumentKeydown($event)' },
+    template: `
+        <p-dialog header="Atajos de teclado" [visible]="visible()" (visibleChange)="!$event && cerrar()" [modal]="true" [dismissableMask]="true" [style]="{ width: 'min(34rem, calc(100vw - 2rem))' }" appendTo="body">
+            <div class="flex flex-col gap-6">
+                @for (grupo of atajos; track grupo.grupo) {
+                    <div>
+                        <div class="text-xs font-semibold uppercase text-muted-color mb-2">{{ grupo.grupo }}</div>
+                        @for (atajo of grupo.atajos; track atajo.descripcion) {
+                            <div class="flex items-center justify-between gap-4 py-1">
+                                <span>{{ atajo.descripcion }}</span>
+                                <span class="flex gap-1 whitespace-nowrap">
+                                    @for (tecla of atajo.teclas; track tecla) {
+                                        <kbd class="px-2 py-1 rounded-border border border-surface text-sm">{{ tecla }}</kbd>
+                                    }
+                                </span>
+                            </div>
+                        }
+                    </div>
+                }
+            </div>
+        </p-dialog>
+    `
+})
+export class AppShortcutsHelp {
+    private layoutService = inject(LayoutService);
+
+    readonly atajos = ATAJOS_TECLADO;
+
+    visible = computed(() => !!this.layoutService.layoutState().shortcutsHelpVisible);
+
+    onDocumentKeydown(event: KeyboardEvent) {
+        if (event.key !== '?' || event.ctrlKey || event.metaKey || escribiendoTexto(event)) return;
+        event.preventDefault();
+        this.layoutService.setShortcutsHelpVisible(!this.visible());
+    }
+
+    cerrar() {
+        this.layoutService.setShortcutsHelpVisible(false);
+    }
+}
@@ -0,0 +1,121 @@
+import { Component, computed, inject, ChangeDetectionStrategy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { PopoverModule } from 'primeng/popover';
+import { ButtonModule } from 'primeng/button';
+import { TagModule } from 'primeng/tag';
+import { TooltipModule } from 'primeng/tooltip';
+import { OutboxStore } from '../../core/stores/outbox.store';
+import { EntidadOutbox, MetodoOutbox, OperacionOutbox } from '../../core/models/outbox.model';
+import { MonedaStore } from '../../core/stores/moneda.store';
+import { MONEDA_POR_DEFECTO } from '../../core/models/moneda.model';
+import { CuentaStore } from '../../features/cuentas/store/cuenta.store';
+import { formatearImporte } from '@/shared/utils/monedas.util';
+
+const ENTIDADES: Record<EntidadOutbox, string> = { gastos: 'Gasto', ingresos: 'Ingreso', traspasos: 'Traspaso' };
+const METODOS: Record<MetodoOutbox, string> = { POST: 'alta', PUT: 'modificación', DELETE: 'eliminación' };
+
+/**
+ * Indicador de sincronización del topbar: conexión, cambios pendientes e incidencias del outbox
+ */
+@Component({
+    selector: 'app-sync-status',
+    standalone: true,
+    imports: [CommonModule, PopoverModule, ButtonModule, TagModule, TooltipModule],
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    template: `
+        <button type="button" class="layout-topbar-action relative" [pTooltip]="resumen()" tooltipPosition="bottom" (click)="popover.toggle($event)">
+            <i [class]="icono()"></i>
+            @if (total() > 0) {
+                <span class="absolute top-0 right-0 text-xs font-bold border-round-xl px-1" [class.bg-orange-500]="outboxStore.estado() !== 'conflicto'" [class.bg-red-500]="outboxStore.estado() === 'conflicto'" style="color: white">
+                    {{ total() }}
+                </span>
+            }
+        </button>
+
+        <p-popover #popover appendTo="body">
+            <div class="flex flex-col gap-3" style="width: 22rem">
+                <div class="flex items-center justify-between">
+                    <span class="font-semibold">{{ resumen() }}</span>
+                    <p-button label="Sincronizar ahora" icon="pi pi-refresh" size="small" [text]="true" [loading]="outboxStore.sincronizando()" [disabled]="!outboxStore.online() || outboxStore.pendientes().length === 0" (onClick)="outboxStore.sincronizar()" />
+                </div>
+
+                @if (outboxStore.ultimaSincronizacion(); as ultima) {
+                    <small class="text-500">Última sincronización a las {{ ultima.fecha | date: 'HH:mm' }}: {{ ultima.enviadas }} enviada(s), {{ ultima.conIncidencias }} con incidencias</small>
+                }
+
+                @for (operacion of outboxStore.operaciones(); track operacion.id) {
+                    <div class="flex items-start justify-between gap-2 border-t border-surface pt-2">
+                        <div class="flex flex-col">
+                            <span class="text-sm">{{ descripcion(operacion) }}</span>
+                            <small class="text-500">{{ operacion.creadoEn | date: 'dd/MM HH:mm' }}</small>
+                            @if (operacion.estado !== 'pendiente') {
+                                <small class="text-red-500">{{ operacion.mensaje }}</small>
+                            }
+                        </div>
+                        <div class="flex items-center gap-1">
+                            @if (operacion.estado === 'pendiente') {
+                                <p-tag severity="warn" value="Pendiente" />
+                            } @else {
+                                <p-tag severity="danger" [value]="operacion.estado === 'conflicto' ? 'Conflicto' : 'Error'" />
+                                <p-button icon="pi pi-replay" size="small" [text]="true" [rounded]="true" pTooltip="Reintentar" (onClick)="outboxStore.reintentar(operacion.id!)" />
+                            }
+                            <p-button icon="pi pi-trash" size="small" severity="danger" [text]="true" [rounded]="true" pTooltip="Descartar" (onClick)="outboxStore.descartar(operacion.id!)" />
+                        </div>
+                    </div>
+                } @empty {
+                    <small class="text-500">No hay cambios pendientes de enviar</small>
+                }
+            </div>
+        </p-popover>
+    `
+})
+export class AppSyncStatus {
+    outboxStore = inject(OutboxStore);
+    private monedaStore = inject(MonedaStore);
+    private cuentaStore = inject(CuentaStore);
+
+    total = computed(() => this.outboxStore.operaciones().length);
+
+    icono = computed(() => {
+        switch (this.outboxStore.estado()) {
+            case 'sincronizando':
+                return 'pi pi-spin pi-sync';
+            case 'conflicto':
+                return 'pi pi-exclamation-triangle text-red-500';
+            case 'sin-conexion':
+                return 'pi pi-wifi text-orange-500';
+            case 'pendiente':
+                return 'pi pi-cloud-upload text-orange-500';
+            default:
+                return 'pi pi-cloud';
+        }
+    });
+
+    resumen = computed(() => {
+        const pendientes = this.outboxStore.pendientes().length;
+        switch (this.outboxStore.estado()) {
+            case 'sincronizando':
+                return 'Sincronizando cambios...';
+            case 'conflicto':
+                return `${this.outboxStore.incidencias().length} cambio(s) requieren revisión`;
+            case 'sin-conexion':
+                return pendientes > 0 ? `Sin conexión · ${pendientes} cambio(s) pendientes` : 'Sin conexión';
+            case 'pendiente':
+                return `${pendientes} cambio(s) pendientes de enviar`;
+            default:
+                return 'Todo sincronizado';
+        }
+    });
+
+    descripcion(operacion: OperacionOutbox): string {
+        const body = operacion.body as { importe?: number; cuentaId?: string; cuentaOrigenId?: string } | null;
+        const base = `${ENTIDADES[operacion.entidad]} · ${METODOS[operacion.metodo]}`;
+        if (body?.importe == null) return base;
+
+        // El importe va en la moneda de la cuenta (la de origen en los traspasos)
+        const cuentaId = body.cuentaId ?? body.cuentaOrigenId;
+        const cuenta = this.cuentaStore.cuentas().find((c) => c.id === cuentaId);
+        const moneda = cuenta ? cuenta.moneda || MONEDA_POR_DEFECTO : this.monedaStore.monedaBase();
+        return `${base} · ${formatearImporte(body.importe, moneda)}`;
+    }
+}
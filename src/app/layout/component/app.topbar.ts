@@ -6,13 +6,14 @@ import { StyleClassModule } from 'primeng/styleclass';
 import { AvatarModule } from 'primeng/avatar';
 import { AppConfigurator } from './app.configurator';
 import { AppLogo } from './app.logo';
+import { AppSyncStatus } from './app.sync-status';
 import { LayoutService } from '../service/layout.service';
 import { AuthStore } from '../../core/stores/auth.store';
 
 @Component({
     selector: 'app-topbar',
     standalone: true,
-    imports: [RouterModule, CommonModule, StyleClassModule, AvatarModule, AppConfigurator, AppLogo],
+    imports: [RouterModule, CommonModule, StyleClassModule, AvatarModule, AppConfigurator, AppLogo, AppSyncStatus],
     styles: [
         `
             :host ::ng-deep .custom-avatar {
@@ -67,6 +68,10 @@ import { AuthStore } from '../../core/stores/auth.store';
 
         <div class="layout-topbar-actions">
             <div class="layout-config-menu">
+                <app-sync-status />
+                <button type="button" class="layout-topbar-action" title="Buscar (Ctrl+K)" (click)="layoutService.setCommandPaletteVisible(true)">
+                    <i class="pi pi-search"></i>
+                </button>
                 <button type="button" class="layout-topbar-action" (click)="toggleDarkMode()">
                     <i [ngClass]="{ 'pi ': true, 'pi-moon': layoutService.isDarkTheme(), 'pi-sun': !layoutService.isDarkTheme() }"></i>
                 </button>
@@ -0,0 +1,67 @@
+import { Component, computed, inject, ChangeDetectionStrategy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ButtonModule } from 'primeng/button';
+import { UndoStore, VENTANA_DESHACER } from '../../core/stores/undo.store';
+
+/**
+ * Aviso inferior con el último cambio que se puede deshacer y la cuenta atrás de su ventana
+ */
+@Component({
+    selector: 'app-undo-toast',
+    standalone: true,
+    imports: [CommonModule, ButtonModule],
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    template: `
+        <div class="fixed bottom-0 left-1/2 -translate-x-1/2 mb-6 flex flex-col gap-2" style="z-index: 1100; width: min(28rem, calc(100vw - 2rem))">
+            @if (undoStore.error(); as error) {
+                <div class="flex items-center gap-3 px-4 py-3 rounded-border shadow-lg bg-red-500" style="color: white" role="alert">
+                    <i class="pi pi-exclamation-circle"></i>
+                    <span class="flex-1">{{ error }}</span>
+                    <button type="button" class="p-0 border-0 bg-transparent cursor-pointer" style="color: inherit" aria-label="Cerrar" (click)="undoStore.clearError()">
+                        <i class="pi pi-times"></i>
+                    </button>
+                </div>
+            }
+
+            @for (accion of ultima(); track accion.id) {
+                <div class="relative overflow-hidden flex items-center gap-3 px-4 py-3 rounded-border shadow-lg bg-surface-900 dark:bg-surface-0 text-surface-0 dark:text-surface-900" role="status">
+                    <span class="flex-1">{{ accion.mensaje }}</span>
+                    @if (pendientes() > 1) {
+                        <small class="opacity-70">+{{ pendientes() - 1 }}</small>
+                    }
+                    <p-button label="Deshacer" [text]="true" size="small" (onClick)="undoStore.deshacer(accion.id)" />
+                    <button type="button" class="p-0 border-0 bg-transparent cursor-pointer" style="color: inherit" aria-label="Cerrar" (click)="undoStore.confirmar(accion.id)">
+                        <i class="pi pi-times"></i>
+                    </button>
+                    <div class="absolute bottom-0 left-0 h-1 bg-primary undo-cuenta-atras" [style.animation-duration.ms]="restante(accion.expira)"></div>
+                </div>
+            }
+        </div>
+    `,
+    styles: `
+        .undo-cuenta-atras {
+            width: 100%;
+            animation-name: undo-cuenta-atras;
+            animation-timing-function: linear;
+            animation-fill-mode: forwards;
+        }
+
+        @keyframes undo-cuenta-atras {
+            to {
+                width: 0;
+            }
+        }
+    `
+})
+export class AppUndoToast {
+    undoStore = inject(UndoStore);
+
+    pendientes = computed(() => this.undoStore.acciones().length);
+
+    // Solo se muestra la acción más reciente; el resto sigue con su ventana
+    ultima = computed(() => this.undoStore.acciones().slice(-1));
+
+    restante(expira: number): number {
+        return Math.max(0, Math.min(VENTANA_DESHACER, expira - Date.now()));
+    }
+}
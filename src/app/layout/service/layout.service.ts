@@ -15,6 +15,8 @@ interface LayoutState {
     configSidebarVisible?: boolean;
     staticMenuMobileActive?: boolean;
     menuHoverActive?: boolean;
+    commandPaletteVisible?: boolean;
+    shortcutsHelpVisible?: boolean;
 }
 
 interface MenuChangeEvent {
@@ -35,7 +37,9 @@ export class LayoutService {
         overlayMenuActive: false,
         configSidebarVisible: false,
         staticMenuMobileActive: false,
-        menuHoverActive: false
+        menuHoverActive: false,
+        commandPaletteVisible: false,
+        shortcutsHelpVisible: false
     };
 
     layoutConfig = signal<layoutConfig>(this._config);
@@ -191,6 +195,14 @@ export class LayoutService {
         }
     }
 
+    setCommandPaletteVisible(visible: boolean) {
+        this.layoutState.update((prev) => ({ ...prev, commandPaletteVisible: visible }));
+    }
+
+    setShortcutsHelpVisible(visible: boolean) {
+        this.layoutState.update((prev) => ({ ...prev, shortcutsHelpVisible: visible }));
+    }
+
     isDesktop() {
         return window.innerWidth > 991;
     }
@@ -0,0 +1,261 @@
+import { Component, computed, inject, input, model, output, signal, ChangeDetectionStrategy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { AutoCompleteModule, AutoCompleteCompleteEvent, AutoCompleteSelectEvent } from 'primeng/autocomplete';
+import { ButtonModule } from 'primeng/button';
+import { DialogModule } from 'primeng/dialog';
+import { InputNumberModule } from 'primeng/inputnumber';
+import { ProgressBarModule } from 'primeng/progressbar';
+import { TableModule } from 'primeng/table';
+import { CatalogRef } from '@/core/models/common.model';
+import { ExportOptions } from '@/core/models/export.model';
+import { CambioMasivo, FalloMasivo, ProgresoMasivo, TipoCambioMasivo } from '@/core/models/accion-masiva.model';
+import { CategoriaStore } from '@/features/categorias/store/categoria.store';
+import { ConceptoStore } from '@/features/conceptos/store/concepto.store';
+import { CuentaStore } from '@/features/cuentas/store/cuenta.store';
+import { PersonaStore } from '@/features/personas/store/persona.store';
+import { ExportMenuComponent } from './export-menu.component';
+import { ImportePipe } from '@/shared/pipes/importe.pipe';
+
+// Datos mínimos de una fila seleccionada para el informe de errores
+export interface MovimientoSeleccionado {
+    id: string;
+    fecha: string;
+    conceptoNombre: string;
+    importe: number;
+    moneda?: string;
+}
+
+// Los conceptos traen su categoría para rellenarla al elegirlos
+type ConceptoSugerido = CatalogRef & { categoriaId?: string; categoriaNombre?: string };
+
+type CampoCatalogo = 'categoria' | 'concepto' | 'cuenta' | 'persona';
+
+const TITULOS: Record<TipoCambioMasivo, string> = {
+    concepto: 'Cambiar categoría y concepto',
+    cuenta: 'Cambiar cuenta',
+    persona: 'Cambiar persona',
+    fecha: 'Mover fecha'
+};
+
+/**
+ * Barra de acciones sobre las filas seleccionadas de un listado de movimientos
+ * Pide los datos del cambio, muestra el avance y el informe de filas que han fallado; la página ejecuta la acción
+ */
+@Component({
+    selector: 'app-acciones-masivas',
+    standalone: true,
+    imports: [CommonModule, FormsModule, AutoCompleteModule, ButtonModule, DialogModule, InputNumberModule, ProgressBarModule, TableModule, ExportMenuComponent, ImportePipe],
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    template: `
+        @if (progreso(); as p) {
+            <div class="flex flex-wrap items-center gap-3 px-4 py-3 mb-4 border border-surface rounded-border">
+                <span class="font-semibold whitespace-nowrap">Procesando {{ p.hechos }} de {{ p.total }}...</span>
+                <p-progressbar [value]="porcentaje()" [showValue]="false" class="flex-1" [style]="{ height: '0.5rem' }" />
+            </div>
+        } @else if (seleccion().length > 0) {
+            <div class="flex flex-wrap items-center gap-2 px-4 py-3 mb-4 border border-surface rounded-border">
+                <span class="font-semibold mr-2">{{ seleccion().length }} {{ etiqueta() }} seleccionados</span>
+                <p-button label="Categoría / Concepto" icon="pi pi-tag" severity="secondary" [outlined]="true" size="small" (onClick)="abrir('concepto')" />
+                <p-button label="Cuenta" icon="pi pi-wallet" severity="secondary" [outlined]="true" size="small" (onClick)="abrir('cuenta')" />
+                <p-button label="Persona" icon="pi pi-user" severity="secondary" [outlined]="true" size="small" (onClick)="abrir('persona')" />
+                <p-button label="Mover fecha" icon="pi pi-calendar" severity="secondary" [outlined]="true" size="small" (onClick)="abrir('fecha')" />
+                <app-export-menu label="Exportar selección" (export)="exportar.emit($event)" />
+                <p-button label="Eliminar" icon="pi pi-trash" severity="danger" [outlined]="true" size="small" (onClick)="eliminar.emit()" />
+                <p-button label="Quitar selección" [text]="true" size="small" class="ml-auto" (onClick)="limpiar.emit()" />
+            </div>
+        }
+
+        <p-dialog [visible]="!!tipo()" (onHide)="cerrar()" [header]="titulo()" [modal]="true" [style]="{ width: '28rem' }" appendTo="body">
+            <div class="flex flex-col gap-4">
+                @switch (tipo()) {
+                    @case ('concepto') {
+                        <div>
+                            <label class="block font-bold mb-2">Categoría</label>
+                            <p-autoComplete [(ngModel)]="categoria" [suggestions]="sugerencias().categoria ?? []" (completeMethod)="buscar('categoria', $event)" (onSelect)="onCategoriaSelect($event)" optionLabel="nombre" [dropdown]="true" [forceSelection]="true" appendTo="body" fluid />
+                        </div>
+                        <div>
+                            <label class="block font-bold mb-2">Concepto</label>
+                            <p-autoComplete [(ngModel)]="concepto" [suggestions]="sugerencias().concepto ?? []" (completeMethod)="buscar('concepto', $event)" (onSelect)="onConceptoSelect($event)" optionLabel="nombre" [dropdown]="true" [forceSelection]="true" appendTo="body" fluid />
+                        </div>
+                    }
+                    @case ('cuenta') {
+                        <div>
+                            <label class="block font-bold mb-2">Cuenta</label>
+                            <p-autoComplete [(ngModel)]="cuenta" [suggestions]="sugerencias().cuenta ?? []" (completeMethod)="buscar('cuenta', $event)" optionLabel="nombre" [dropdown]="true" [forceSelection]="true" appendTo="body" fluid />
+                        </div>
+                    }
+                    @case ('persona') {
+                        <div>
+                            <label class="block font-bold mb-2">Persona</label>
+                            <p-autoComplete [(ngModel)]="persona" [suggestions]="sugerencias().persona ?? []" (completeMethod)="buscar('persona', $event)" optionLabel="nombre" [dropdown]="true" [forceSelection]="true" appendTo="body" fluid />
+                        </div>
+                    }
+                    @case ('fecha') {
+                        <div>
+                            <label class="block font-bold mb-2">Días</label>
+                            <p-inputNumber [(ngModel)]="dias" [showButtons]="true" suffix=" días" fluid />
+                            <small class="text-500">Usa un número negativo para adelantar la fecha</small>
+                        </div>
+                    }
+                }
+                <small class="text-500">Se aplicará a {{ seleccion().length }} {{ etiqueta() }}</small>
+            </div>
+
+            <ng-template #footer>
+                <p-button label="Cancelar" [text]="true" severity="secondary" (onClick)="cerrar()" />
+                <p-button label="Aplicar" icon="pi pi-check" [disabled]="!valido()" (onClick)="aplicar()" />
+            </ng-template>
+        </p-dialog>
+
+        <p-dialog [visible]="informe().length > 0" (onHide)="informe.set([])" header="Filas no procesadas" [modal]="true" [style]="{ width: '40rem' }" appendTo="body">
+            <p class="mt-0">{{ informe().length }} {{ etiqueta() }} no se han podido procesar y siguen seleccionados para reintentarlo.</p>
+            <p-table [value]="filasInforme()" size="small" [scrollable]="true" scrollHeight="20rem">
+                <ng-template #header>
+                    <tr>
+                        <th>Movimiento</th>
+                        <th>Error</th>
+                    </tr>
+                </ng-template>
+                <ng-template #body let-fila>
+                    <tr>
+                        <td>
+                            @if (fila.movimiento; as m) {
+                                {{ m.fecha | date: 'dd/MM/yyyy' }} · {{ m.conceptoNombre }} · {{ m.importe | importe: m.moneda }}
+                            } @else {
+                                {{ fila.id }}
+                            }
+                        </td>
+                        <td class="text-red-500">{{ fila.error }}</td>
+                    </tr>
+                </ng-template>
+            </p-table>
+
+            <ng-template #footer>
+                <p-button label="Cerrar" (onClick)="informe.set([])" />
+            </ng-template>
+        </p-dialog>
+    `
+})
+export class AccionesMasivasComponent {
+    seleccion = input.required<MovimientoSeleccionado[]>();
+    etiqueta = input<string>('movimientos');
+    progreso = input<ProgresoMasivo | null>(null);
+    // Filas que han fallado en la última acción: abre el informe
+    informe = model<FalloMasivo[]>([]);
+
+    cambiar = output<CambioMasivo>();
+    eliminar = output<void>();
+    exportar = output<ExportOptions>();
+    limpiar = output<void>();
+
+    tipo = signal<TipoCambioMasivo | null>(null);
+    sugerencias = signal<Partial<Record<CampoCatalogo, ConceptoSugerido[]>>>({});
+
+    categoria: CatalogRef | null = null;
+    concepto: ConceptoSugerido | null = null;
+    cuenta: CatalogRef | null = null;
+    persona: CatalogRef | null = null;
+    dias: number | null = null;
+
+    private conceptoStore = inject(ConceptoStore);
+    private catalogos = {
+        categoria: inject(CategoriaStore),
+        cuenta: inject(CuentaStore),
+        persona: inject(PersonaStore)
+    };
+
+    titulo = computed(() => {
+        const tipo = this.tipo();
+        return tipo ? TITULOS[tipo] : '';
+    });
+
+    porcentaje = computed(() => {
+        const progreso = this.progreso();
+        return progreso && progreso.total > 0 ? Math.round((progreso.hechos / progreso.total) * 100) : 0;
+    });
+
+    filasInforme = computed(() => {
+        const porId = new Map(this.seleccion().map((m) => [m.id, m]));
+        return this.informe().map((fallo) => ({ ...fallo, movimiento: porId.get(fallo.id) }));
+    });
+
+    abrir(tipo: TipoCambioMasivo) {
+        this.categoria = null;
+        this.concepto = null;
+        this.cuenta = null;
+        this.persona = null;
+        this.dias = null;
+        this.sugerencias.set({});
+        this.tipo.set(tipo);
+    }
+
+    cerrar() {
+        this.tipo.set(null);
+    }
+
+    buscar(campo: CampoCatalogo, event: AutoCompleteCompleteEvent) {
+        const query = event.query?.trim();
+        const reciente = !query || query.length < 2;
+        let peticion: Promise<ConceptoSugerido[]>;
+        if (campo === 'concepto') {
+            const categoriaId = this.categoria?.id;
+            peticion = reciente ? this.conceptoStore.getRecent(10, categoriaId) : this.conceptoStore.search(query, 10, categoriaId);
+        } else {
+            const catalogo = this.catalogos[campo];
+            peticion = reciente ? catalogo.getRecent(10) : catalogo.search(query, 10);
+        }
+        peticion.then((data) => this.sugerencias.update((s) => ({ ...s, [campo]: data }))).catch(() => this.sugerencias.update((s) => ({ ...s, [campo]: [] })));
+    }
+
+    onCategoriaSelect(event: AutoCompleteSelectEvent) {
+        // Un concepto de otra categoría deja de ser válido
+        if (this.concepto?.categoriaId && this.concepto.categoriaId !== event.value.id) {
+            this.concepto = null;
+        }
+    }
+
+    onConceptoSelect(event: AutoCompleteSelectEvent) {
+        const concepto: ConceptoSugerido = event.value;
+        if (concepto.categoriaId && concepto.categoriaNombre) {
+            this.categoria = { id: concepto.categoriaId, nombre: concepto.categoriaNombre };
+        }
+    }
+
+    valido(): boolean {
+        switch (this.tipo()) {
+            case 'concepto':
+                return !!this.concepto?.id && !!this.categoria?.id;
+            case 'cuenta':
+                return !!this.cuenta?.id;
+            case 'persona':
+                return !!this.persona?.id;
+            case 'fecha':
+                return !!this.dias;
+            default:
+                return false;
+        }
+    }
+
+    aplicar() {
+        const cambio = this.construirCambio();
+        if (!cambio) return;
+        this.cambiar.emit(cambio);
+        this.cerrar();
+    }
+
+    private construirCambio(): CambioMasivo | null {
+        switch (this.tipo()) {
+            case 'concepto':
+                return this.concepto && this.categoria ? { tipo: 'concepto', concepto: { id: this.concepto.id, nombre: this.concepto.nombre }, categoria: this.categoria } : null;
+            case 'cuenta':
+                return this.cuenta ? { tipo: 'cuenta', cuenta: this.cuenta } : null;
+            case 'persona':
+                return this.persona ? { tipo: 'persona', persona: this.persona } : null;
+            case 'fecha':
+                return this.dias ? { tipo: 'fecha', dias: this.dias } : null;
+            default:
+                return null;
+        }
+    }
+}
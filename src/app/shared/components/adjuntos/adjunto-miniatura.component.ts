@@ -0,0 +1,73 @@
+import { Component, inject, input, effect, signal, ChangeDetectionStrategy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { AdjuntoService } from '@/core/services/api/adjunto.service';
+import { Adjunto } from '@/core/models/adjunto.model';
+import { esImagen } from '@/shared/utils/adjuntos.util';
+
+/**
+ * Miniatura de un adjunto ya subido o de un fichero pendiente de subir
+ * Las imágenes se cargan como Blob (la URL requiere sesión) y se liberan al destruirse
+ */
+@Component({
+    selector: 'app-adjunto-miniatura',
+    standalone: true,
+    imports: [CommonModule],
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    template: `
+        <div class="w-16 h-16 border-round overflow-hidden surface-100 flex items-center justify-center border-1 surface-border">
+            @if (previewUrl(); as url) {
+                <img [src]="url" [alt]="nombre()" class="w-full h-full object-cover" />
+            } @else if (imagen()) {
+                <i class="pi pi-image text-500 text-2xl"></i>
+            } @else {
+                <i class="pi pi-file-pdf text-red-500 text-2xl"></i>
+            }
+        </div>
+    `
+})
+export class AdjuntoMiniaturaComponent {
+    private adjuntoService = inject(AdjuntoService);
+
+    adjunto = input<Adjunto | null>(null);
+    archivo = input<File | null>(null);
+
+    previewUrl = signal<string | null>(null);
+
+    constructor() {
+        effect((onCleanup) => {
+            const archivo = this.archivo();
+            const adjunto = this.adjunto();
+            let url: string | null = null;
+            let cancelado = false;
+
+            if (archivo && esImagen(archivo.type)) {
+                url = URL.createObjectURL(archivo);
+                this.previewUrl.set(url);
+            } else if (adjunto && esImagen(adjunto.tipoContenido)) {
+                this.adjuntoService.getContenido(adjunto.miniaturaUrl || adjunto.url).subscribe({
+                    next: (blob) => {
+                        if (cancelado) return;
+                        url = URL.createObjectURL(blob);
+                        this.previewUrl.set(url);
+                    },
+                    error: () => this.previewUrl.set(null)
+                });
+            } else {
+                this.previewUrl.set(null);
+            }
+
+            onCleanup(() => {
+                cancelado = true;
+                if (url) URL.revokeObjectURL(url);
+            });
+        });
+    }
+
+    imagen(): boolean {
+        return esImagen(this.archivo()?.type ?? this.adjunto()?.tipoContenido ?? '');
+    }
+
+    nombre(): string {
+        return this.archivo()?.name ?? this.adjunto()?.nombre ?? '';
+    }
+}
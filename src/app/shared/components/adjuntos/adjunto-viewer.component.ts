@@ -0,0 +1,116 @@
+import { Component, inject, input, model, effect, signal, ChangeDetectionStrategy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { DomSanitizer, SafeResourceUrl } from '@angular/platform-browser';
+import { DialogModule } from 'primeng/dialog';
+import { ButtonModule } from 'primeng/button';
+import { ProgressSpinnerModule } from 'primeng/progressspinner';
+import { AdjuntoService } from '@/core/services/api/adjunto.service';
+import { Adjunto } from '@/core/models/adjunto.model';
+import { esImagen, esPdf, formatearTamano } from '@/shared/utils/adjuntos.util';
+import { downloadBlob } from '@/shared/utils/download.util';
+
+/**
+ * Visor de adjuntos dentro de la app: imágenes y PDFs, con navegación entre ficheros
+ */
+@Component({
+    selector: 'app-adjunto-viewer',
+    standalone: true,
+    imports: [CommonModule, DialogModule, ButtonModule, ProgressSpinnerModule],
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    template: `
+        <p-dialog [visible]="visible()" (visibleChange)="visible.set($event)" [modal]="true" [dismissableMask]="true" [style]="{ width: '900px', maxWidth: '95vw' }" appendTo="body">
+            <ng-template #header>
+                <div class="flex flex-col">
+                    <span class="font-bold text-lg">{{ actual()?.nombre }}</span>
+                    @if (actual(); as adjunto) {
+                        <small class="text-500">{{ indice() + 1 }} de {{ adjuntos().length }} · {{ tamano(adjunto) }}</small>
+                    }
+                </div>
+            </ng-template>
+
+            <div class="flex items-center justify-center surface-100 border-round" style="min-height: 60vh">
+                @if (cargando()) {
+                    <p-progressSpinner strokeWidth="4" [style]="{ width: '3rem', height: '3rem' }" />
+                } @else if (error()) {
+                    <span class="text-red-500">No se ha podido cargar el adjunto</span>
+                } @else if (imagenUrl(); as url) {
+                    <img [src]="url" [alt]="actual()?.nombre" style="max-height: 70vh; max-width: 100%" />
+                } @else if (pdfUrl(); as url) {
+                    <iframe [src]="url" class="w-full border-none" style="height: 70vh" title="PDF"></iframe>
+                }
+            </div>
+
+            <ng-template #footer>
+                <div class="flex items-center justify-between w-full">
+                    <div class="flex gap-2">
+                        <p-button icon="pi pi-chevron-left" [text]="true" [disabled]="indice() === 0" (onClick)="indice.set(indice() - 1)" />
+                        <p-button icon="pi pi-chevron-right" [text]="true" [disabled]="indice() >= adjuntos().length - 1" (onClick)="indice.set(indice() + 1)" />
+                    </div>
+                    <p-button label="Descargar" icon="pi pi-download" [outlined]="true" [disabled]="!blob" (onClick)="descargar()" />
+                </div>
+            </ng-template>
+        </p-dialog>
+    `
+})
+export class AdjuntoViewerComponent {
+    private adjuntoService = inject(AdjuntoService);
+    private sanitizer = inject(DomSanitizer);
+
+    adjuntos = input<Adjunto[]>([]);
+    visible = model<boolean>(false);
+    indice = model<number>(0);
+
+    cargando = signal(false);
+    error = signal(false);
+    imagenUrl = signal<string | null>(null);
+    pdfUrl = signal<SafeResourceUrl | null>(null);
+    blob: Blob | null = null;
+
+    constructor() {
+        effect((onCleanup) => {
+            const adjunto = this.visible() ? this.adjuntos()[this.indice()] : undefined;
+            let url: string | null = null;
+            let cancelado = false;
+
+            this.blob = null;
+            this.imagenUrl.set(null);
+            this.pdfUrl.set(null);
+            this.error.set(false);
+            if (!adjunto) return;
+
+            this.cargando.set(true);
+            this.adjuntoService.getContenido(adjunto.url).subscribe({
+                next: (blob) => {
+                    if (cancelado) return;
+                    this.blob = blob;
+                    url = URL.createObjectURL(blob);
+                    if (esImagen(adjunto.tipoContenido)) this.imagenUrl.set(url);
+                    else if (esPdf(adjunto.tipoContenido)) this.pdfUrl.set(this.sanitizer.bypassSecurityTrustResourceUrl(url));
+                    this.cargando.set(false);
+                },
+                error: () => {
+                    this.error.set(true);
+                    this.cargando.set(false);
+                }
+            });
+
+            onCleanup(() => {
+                cancelado = true;
+                if (url) URL.revokeObjectURL(url);
+            });
+        });
+    }
+
+    actual(): Adjunto | undefined {
+        return this.adjuntos()[this.indice()];
+    }
+
+    tamano(adjunto: Adjunto): string {
+        return formatearTamano(adjunto.tamano);
+    }
+
+    descargar() {
+        const adjunto = this.actual();
+        if (this.blob && adjunto) downloadBlob(this.blob, adjunto.nombre);
+    }
+}
@@ -0,0 +1,125 @@
+import { Component, input, model, signal, ChangeDetectionStrategy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ButtonModule } from 'primeng/button';
+import { TooltipModule } from 'primeng/tooltip';
+import { Adjunto } from '@/core/models/adjunto.model';
+import { TIPOS_ADJUNTO_ACEPTADOS, formatearTamano, validarAdjunto } from '@/shared/utils/adjuntos.util';
+import { AdjuntoMiniaturaComponent } from './adjunto-miniatura.component';
+import { AdjuntoViewerComponent } from './adjunto-viewer.component';
+
+/**
+ * Zona de adjuntos de los formularios de gasto e ingreso
+ * No sube nada: acumula ficheros nuevos y adjuntos a eliminar hasta que se guarda el movimiento
+ */
+@Component({
+    selector: 'app-adjuntos-input',
+    standalone: true,
+    imports: [CommonModule, ButtonModule, TooltipModule, AdjuntoMiniaturaComponent, AdjuntoViewerComponent],
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    template: `
+        <div
+            class="border-2 border-dashed border-round p-4 text-center cursor-pointer transition-colors"
+            [class.border-primary]="arrastrando()"
+            [class.surface-border]="!arrastrando()"
+            (dragover)="onDragOver($event)"
+            (dragleave)="arrastrando.set(false)"
+            (drop)="onDrop($event)"
+            (click)="fileInput.click()"
+        >
+            <i class="pi pi-paperclip text-500 text-xl"></i>
+            <div class="text-sm text-600 mt-1">Arrastra aquí tickets o facturas, o haz clic para elegirlos</div>
+            <small class="text-500">Imágenes y PDF</small>
+            <input #fileInput type="file" class="hidden" multiple [accept]="aceptados" (change)="onFileInput($event)" />
+        </div>
+
+        @for (error of errores(); track error) {
+            <small class="text-red-500 block mt-1">{{ error }}</small>
+        }
+
+        @if (visibles().length > 0 || nuevos().length > 0) {
+            <div class="flex flex-wrap gap-3 mt-3">
+                @for (adjunto of visibles(); track adjunto.id; let i = $index) {
+                    <div class="relative flex flex-col items-center gap-1 w-16">
+                        <button type="button" class="p-0 border-none bg-transparent cursor-pointer" (click)="abrirVisor(i)" [pTooltip]="adjunto.nombre">
+                            <app-adjunto-miniatura [adjunto]="adjunto" />
+                        </button>
+                        <p-button icon="pi pi-times" severity="danger" [rounded]="true" size="small" styleClass="w-6 h-6" class="absolute -top-2 -right-2" (onClick)="eliminar(adjunto)" />
+                    </div>
+                }
+                @for (archivo of nuevos(); track $index; let i = $index) {
+                    <div class="relative flex flex-col items-center gap-1 w-16" [pTooltip]="archivo.name + ' (' + tamano(archivo.size) + ')'">
+                        <app-adjunto-miniatura [archivo]="archivo" />
+                        <span class="text-xs text-primary">Nuevo</span>
+                        <p-button icon="pi pi-times" severity="danger" [rounded]="true" size="small" styleClass="w-6 h-6" class="absolute -top-2 -right-2" (onClick)="quitarNuevo(i)" />
+                    </div>
+                }
+            </div>
+        }
+
+        <app-adjunto-viewer [adjuntos]="visibles()" [(visible)]="visorVisible" [(indice)]="visorIndice" />
+    `
+})
+export class AdjuntosInputComponent {
+    existentes = input<Adjunto[]>([]);
+    nuevos = model<File[]>([]);
+    eliminados = model<Adjunto[]>([]);
+
+    arrastrando = signal(false);
+    errores = signal<string[]>([]);
+    visorVisible = signal(false);
+    visorIndice = signal(0);
+
+    readonly aceptados = TIPOS_ADJUNTO_ACEPTADOS;
+
+    visibles(): Adjunto[] {
+        const eliminados = new Set(this.eliminados().map((a) => a.id));
+        return this.existentes().filter((a) => !eliminados.has(a.id));
+    }
+
+    onDragOver(event: DragEvent) {
+        event.preventDefault();
+        this.arrastrando.set(true);
+    }
+
+    onDrop(event: DragEvent) {
+        event.preventDefault();
+        this.arrastrando.set(false);
+        this.anadir(Array.from(event.dataTransfer?.files ?? []));
+    }
+
+    onFileInput(event: Event) {
+        const input = event.target as HTMLInputElement;
+        this.anadir(Array.from(input.files ?? []));
+        // Permite volver a elegir el mismo fichero
+        input.value = '';
+    }
+
+    quitarNuevo(index: number) {
+        this.nuevos.set(this.nuevos().filter((_, i) => i !== index));
+    }
+
+    eliminar(adjunto: Adjunto) {
+        this.eliminados.set([...this.eliminados(), adjunto]);
+    }
+
+    abrirVisor(index: number) {
+        this.visorIndice.set(index);
+        this.visorVisible.set(true);
+    }
+
+    tamano(bytes: number): string {
+        return formatearTamano(bytes);
+    }
+
+    private anadir(archivos: File[]) {
+        const errores: string[] = [];
+        const validos = archivos.filter((archivo) => {
+            const error = validarAdjunto(archivo);
+            if (error) errores.push(error);
+            return !error;
+        });
+
+        this.errores.set(errores);
+        if (validos.length > 0) this.nuevos.set([...this.nuevos(), ...validos]);
+    }
+}
@@ -0,0 +1,25 @@
+import { DestroyRef, inject } from '@angular/core';
+import { DOCUMENT } from '@angular/common';
+import { escribiendoTexto, hayModalAbierto } from '@/shared/utils/atajos-teclado.util';
+
+/**
+ * Atajo de una sola tecla (sin modificadores) mientras la página está activa
+ * No salta al escribir en un campo ni con un diálogo abierto
+ *
+ * Debe crearse en el contexto de inyección de la página: `injectAtajo('n', () => this.openNew())`
+ */
+export function injectAtajo(tecla: string, ejecutar: () => void): void {
+    const document = inject(DOCUMENT);
+
+    const listener = (event: KeyboardEvent) => {
+        if (event.defaultPrevented || event.ctrlKey || event.metaKey || event.altKey) return;
+        if (event.key.toLowerCase() !== tecla.toLowerCase()) return;
+        if (escribiendoTexto(event) || hayModalAbierto()) return;
+
+        event.preventDefault();
+        ejecutar();
+    };
+
+    document.addEventListener('keydown', listener);
+    inject(DestroyRef).onDestroy(() => document.removeEventListener('keydown', listener));
+}
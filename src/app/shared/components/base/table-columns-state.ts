@@ -0,0 +1,188 @@
+import { computed, effect, inject, signal, WritableSignal } from '@angular/core';
+import { TableColResizeEvent, TableColumnReorderEvent } from 'primeng/table';
+import { AuthStore } from '@/core/stores/auth.store';
+
+export type DensidadTabla = 'compacta' | 'comoda';
+
+// Catálogos que se pueden elegir al editar una celda (columnas `xxxNombre` con su `xxxId`)
+export type CatalogoEditable = 'conceptos' | 'categorias' | 'proveedores' | 'clientes' | 'personas' | 'cuentas' | 'formasPago';
+
+export type EditorCelda = 'importe' | 'fecha' | 'texto' | CatalogoEditable;
+
+/**
+ * Columna configurable de una tabla
+ * `ancho` es el ancho mínimo en rem mientras el usuario no la redimensione
+ * `editor` permite editarla en línea (ver TableInlineEdit)
+ */
+export interface ColumnaTabla {
+    campo: string;
+    cabecera: string;
+    ordenable?: boolean;
+    ancho?: number;
+    editor?: EditorCelda;
+}
+
+interface ConfigTabla {
+    orden: string[];
+    ocultas: string[];
+    // Anchos en px fijados al redimensionar
+    anchos: Record<string, number>;
+    densidad: DensidadTabla;
+}
+
+export interface TableColumnsOptions {
+    // Columnas ocultas por defecto
+    ocultas?: string[];
+    // Ancho (rem) de las columnas fijas: expansor, acciones...
+    anchoFijo?: number;
+}
+
+// Igual que la configuración del layout, pero por usuario y por tabla
+const STORAGE_PREFIX = 'ahorroland_tablas_config_';
+const ANCHO_POR_DEFECTO = 10;
+
+function loadConfigs(clave: string): Record<string, ConfigTabla> {
+    try {
+        if (typeof window !== 'undefined' && localStorage) {
+            const saved = localStorage.getItem(clave);
+            if (saved) return JSON.parse(saved);
+        }
+    } catch (error) {
+        console.error('Error loading table config from localStorage:', error);
+    }
+    return {};
+}
+
+function saveConfigs(clave: string, configs: Record<string, ConfigTabla>): void {
+    try {
+        if (typeof window !== 'undefined' && localStorage) {
+            localStorage.setItem(clave, JSON.stringify(configs));
+        }
+    } catch (error) {
+        console.error('Error saving table config to localStorage:', error);
+    }
+}
+
+/**
+ * Columnas visibles, orden, anchos y densidad de una p-table, guardados en localStorage
+ * Las columnas se reordenan arrastrando la cabecera (o desde el selector) y se redimensionan desde su borde
+ *
+ * Debe crearse en el contexto de inyección de la página: `columnas = injectTableColumns('gastos', COLUMNAS)`
+ */
+export class TableColumnsState {
+    private authStore = inject(AuthStore);
+
+    private config: WritableSignal<ConfigTabla>;
+
+    /** Todas las columnas en el orden elegido por el usuario */
+    readonly columnas = computed(() => {
+        const porCampo = new Map(this.definiciones.map((c) => [c.campo, c]));
+        const ordenadas = this.config()
+            .orden.map((campo) => porCampo.get(campo))
+            .filter((c): c is ColumnaTabla => !!c);
+        // Columnas nuevas que aún no estaban en la configuración guardada
+        return [...ordenadas, ...this.definiciones.filter((c) => !this.config().orden.includes(c.campo))];
+    });
+
+    readonly visibles = computed(() => this.columnas().filter((c) => !this.config().ocultas.includes(c.campo)));
+    readonly densidad = computed(() => this.config().densidad);
+    readonly size = computed(() => (this.densidad() === 'compacta' ? 'small' : undefined));
+
+    // Sustituye al min-width fijo de la tabla: solo cuentan las columnas visibles
+    readonly tableStyle = computed(() => {
+        const anchoRem = this.visibles().reduce((total, c) => total + (this.config().anchos[c.campo] ? this.config().anchos[c.campo] / 16 : (c.ancho ?? ANCHO_POR_DEFECTO)), this.options.anchoFijo ?? 0);
+        return { 'min-width': `${anchoRem}rem` };
+    });
+
+    constructor(
+        private clave: string,
+        private definiciones: ColumnaTabla[],
+        private options: TableColumnsOptions = {}
+    ) {
+        const guardada = loadConfigs(this.storageKey())[this.clave];
+        // Las columnas añadidas después de guardar la configuración respetan su visibilidad por defecto
+        const nuevasOcultas = guardada ? (this.options.ocultas ?? []).filter((campo) => !guardada.orden.includes(campo)) : [];
+        this.config = signal<ConfigTabla>({ ...this.defaults(), ...guardada, ...(guardada && { ocultas: [...guardada.ocultas, ...nuevasOcultas] }) });
+
+        effect(() => {
+            const config = this.config();
+            const configs = loadConfigs(this.storageKey());
+            saveConfigs(this.storageKey(), { ...configs, [this.clave]: config });
+        });
+    }
+
+    esVisible(campo: string): boolean {
+        return !this.config().ocultas.includes(campo);
+    }
+
+    /**
+     * Estilo de la celda de cabecera: ancho fijado por el usuario o ancho mínimo por defecto
+     */
+    estilo(columna: ColumnaTabla): Record<string, string> {
+        const ancho = this.config().anchos[columna.campo];
+        return ancho ? { width: `${ancho}px` } : { 'min-width': `${columna.ancho ?? ANCHO_POR_DEFECTO}rem` };
+    }
+
+    mostrar(campo: string, visible: boolean) {
+        // Siempre debe quedar al menos una columna visible
+        if (!visible && this.visibles().length <= 1) return;
+        this.config.update((c) => ({ ...c, ocultas: visible ? c.ocultas.filter((o) => o !== campo) : [...c.ocultas, campo] }));
+    }
+
+    mover(campo: string, desplazamiento: number) {
+        const orden = this.columnas().map((c) => c.campo);
+        const desde = orden.indexOf(campo);
+        const hasta = desde + desplazamiento;
+        if (desde < 0 || hasta < 0 || hasta >= orden.length) return;
+
+        orden.splice(hasta, 0, ...orden.splice(desde, 1));
+        this.config.update((c) => ({ ...c, orden }));
+    }
+
+    setDensidad(densidad: DensidadTabla) {
+        this.config.update((c) => ({ ...c, densidad }));
+    }
+
+    /**
+     * Columnas visibles en este orden (p. ej. al abrir una vista guardada); null deja la configuración actual
+     */
+    aplicarVisibles(campos: string[] | null) {
+        if (!campos?.length) return;
+        const todos = this.definiciones.map((c) => c.campo);
+        const visibles = campos.filter((campo) => todos.includes(campo));
+        this.config.update((c) => ({ ...c, orden: [...visibles, ...todos.filter((campo) => !visibles.includes(campo))], ocultas: todos.filter((campo) => !visibles.includes(campo)) }));
+    }
+
+    /**
+     * Reordenado arrastrando la cabecera: p-table solo conoce las columnas visibles
+     */
+    onColReorder(event: TableColumnReorderEvent) {
+        if (!event.columns) return;
+        const nuevasVisibles = (event.columns as ColumnaTabla[]).map((c) => c.campo);
+        let i = 0;
+        const orden = this.columnas().map((c) => (this.esVisible(c.campo) ? nuevasVisibles[i++] : c.campo));
+        this.config.update((c) => ({ ...c, orden }));
+    }
+
+    onColResize(event: TableColResizeEvent) {
+        const campo = event.element.dataset['campo'];
+        if (!campo) return;
+        this.config.update((c) => ({ ...c, anchos: { ...c.anchos, [campo]: event.element.offsetWidth } }));
+    }
+
+    restablecer() {
+        this.config.set(this.defaults());
+    }
+
+    private defaults(): ConfigTabla {
+        return { orden: this.definiciones.map((c) => c.campo), ocultas: this.options.ocultas ?? [], anchos: {}, densidad: 'comoda' };
+    }
+
+    private storageKey(): string {
+        return STORAGE_PREFIX + (this.authStore.user()?.id ?? 'anonimo');
+    }
+}
+
+export function injectTableColumns(clave: string, definiciones: ColumnaTabla[], options?: TableColumnsOptions): TableColumnsState {
+    return new TableColumnsState(clave, definiciones, options);
+}
@@ -0,0 +1,130 @@
+import { signal } from '@angular/core';
+import { TableEditCompleteEvent, TableEditInitEvent } from 'primeng/table';
+import { CatalogRef } from '@/core/models/common.model';
+import { ColumnaTabla, EditorCelda } from './table-columns-state';
+
+// Valor de la celda mientras se edita: importe, fecha ISO (yyyy-mm-dd), texto o referencia de catálogo
+export type ValorCelda = number | string | CatalogRef | null;
+
+// Los conceptos de las búsquedas traen su categoría
+type ConceptoSugerido = CatalogRef & { categoriaId?: string; categoriaNombre?: string };
+
+type Fila = Record<string, any>;
+
+function campoId(campo: string): string {
+    return campo.replace(/Nombre$/, 'Id');
+}
+
+function esCatalogo(editor: EditorCelda): boolean {
+    return editor !== 'importe' && editor !== 'fecha' && editor !== 'texto';
+}
+
+function valorInicial(fila: Fila, campo: string, editor: EditorCelda): ValorCelda {
+    switch (editor) {
+        case 'importe':
+            return fila[campo] ?? null;
+        case 'fecha':
+            return fila[campo]?.substring(0, 10) ?? null;
+        case 'texto':
+            return fila[campo] ?? '';
+        default: {
+            const id = fila[campoId(campo)];
+            return id ? { id, nombre: fila[campo] } : null;
+        }
+    }
+}
+
+/**
+ * Cambios que produce el valor editado; null si no hay cambio o el valor no es válido
+ */
+function cambiosCelda(fila: Fila, campo: string, editor: EditorCelda, valor: ValorCelda): Fila | null {
+    if (esCatalogo(editor)) {
+        const ref = valor as ConceptoSugerido | null;
+        if (!ref?.id || ref.id === fila[campoId(campo)]) return null;
+
+        const cambios: Fila = { [campoId(campo)]: ref.id, [campo]: ref.nombre };
+        // Igual que en el formulario: el concepto arrastra su categoría
+        if (editor === 'conceptos' && ref.categoriaId && ref.categoriaNombre && 'categoriaId' in fila) {
+            cambios['categoriaId'] = ref.categoriaId;
+            cambios['categoriaNombre'] = ref.categoriaNombre;
+        }
+        return cambios;
+    }
+
+    switch (editor) {
+        case 'importe':
+            return typeof valor === 'number' && valor > 0 && valor !== fila[campo] ? { [campo]: valor } : null;
+        case 'fecha': {
+            const actual: string = fila[campo] ?? '';
+            // Se conserva la parte horaria si la fecha la trae
+            return typeof valor === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(valor) && valor !== actual.substring(0, 10) ? { [campo]: valor + actual.substring(10) } : null;
+        }
+        default: {
+            const texto = typeof valor === 'string' ? valor.trim() : '';
+            return texto !== (fila[campo] ?? '') ? { [campo]: texto } : null;
+        }
+    }
+}
+
+/**
+ * Edición en línea de las celdas de una p-table (pEditableColumn + p-cellEditor)
+ * El valor se edita en un borrador porque el estado de los stores es inmutable; al confirmar se guarda la fila con el cambio
+ * Enter confirma, Esc cancela y Tab o las flechas confirman y pasan a la celda contigua
+ *
+ * Uso: `edicion = new TableInlineEdit<Gasto>(COLUMNAS, (gasto, cambios) => this.guardarCelda(gasto, cambios))`
+ * y en cada celda editable `[attr.data-celda]="fila.id + ':' + columna.campo"`
+ */
+export class TableInlineEdit<T extends { id: string }> {
+    readonly valor = signal<ValorCelda>(null);
+
+    // Celda abierta: se usa para volver a abrirla si la fila se repinta al guardar
+    private activa: { id: string; campo: string } | null = null;
+
+    constructor(
+        private definiciones: ColumnaTabla[],
+        private guardar: (fila: T, cambios: Partial<T>) => Promise<void>
+    ) {}
+
+    editor(campo: string): EditorCelda | undefined {
+        return this.definiciones.find((c) => c.campo === campo)?.editor;
+    }
+
+    onEditInit(event: TableEditInitEvent) {
+        const editor = event.field ? this.editor(event.field) : undefined;
+        if (!event.field || !editor) return;
+
+        this.activa = { id: event.data.id, campo: event.field };
+        this.valor.set(valorInicial(event.data, event.field, editor));
+    }
+
+    onEditComplete(event: TableEditCompleteEvent) {
+        // Si la edición sigue en otra celda, su onEditInit llega justo después
+        this.activa = null;
+
+        const fila = event.data as T;
+        const editor = event.field ? this.editor(event.field) : undefined;
+        const cambios = fila && event.field && editor ? cambiosCelda(fila, event.field, editor, this.valor()) : null;
+        if (!cambios) return;
+
+        const tabla = (event.originalEvent?.target as HTMLElement | undefined)?.closest('table') ?? null;
+        this.guardar(fila, cambios as Partial<T>);
+
+        // La actualización optimista sustituye la fila y se repinta: si se ha pasado a otra celda de la misma fila, se reabre
+        setTimeout(() => this.reabrir(tabla, fila.id));
+    }
+
+    onEditCancel() {
+        this.activa = null;
+        this.valor.set(null);
+    }
+
+    private reabrir(tabla: HTMLTableElement | null, id: string) {
+        const activa = this.activa;
+        if (!tabla || activa?.id !== id) return;
+
+        const celda = tabla.querySelector<HTMLElement>(`td[data-celda="${CSS.escape(`${id}:${activa.campo}`)}"]`);
+        if (celda && !celda.classList.contains('p-cell-editing')) {
+            celda.click();
+        }
+    }
+}
@@ -0,0 +1,165 @@
+import { computed, effect, inject, Signal } from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { ActivatedRoute, Params, Router } from '@angular/router';
+import { TableLazyLoadEvent } from 'primeng/table';
+import { skip } from 'rxjs';
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface TableState<F = unknown> {
+    page: number;
+    pageSize: number;
+    sortColumn: string;
+    sortOrder: SortOrder;
+    search: string;
+    filtros: F | null;
+}
+
+export interface TableStateDefaults {
+    pageSize?: number;
+    sortColumn: string;
+    sortOrder: SortOrder;
+}
+
+// Query params que gestiona la tabla; el resto de la URL no se toca
+const PARAMS = { page: 'page', pageSize: 'size', sortColumn: 'sort', sortOrder: 'order', search: 'q', filtros: 'filtros' } as const;
+const STORAGE_PREFIX = 'ahorroland_tabla_';
+
+/**
+ * Query params para abrir una tabla directamente en un estado (p. ej. desde una vista guardada)
+ * El orden se incluye siempre para que la tabla no restaure la última vista de la sesión
+ */
+export function tableStateQueryParams(state: Pick<TableState, 'sortColumn' | 'sortOrder'> & Partial<TableState>): Params {
+    const params: Params = { [PARAMS.sortColumn]: state.sortColumn, [PARAMS.sortOrder]: state.sortOrder };
+    if (state.search) params[PARAMS.search] = state.search;
+    if (state.filtros) params[PARAMS.filtros] = JSON.stringify(state.filtros);
+    return params;
+}
+
+/**
+ * Estado de una tabla paginada (página, orden, búsqueda y filtros) sincronizado con los query params
+ * - La URL es la fuente de verdad: recargar, compartir el enlace o usar atrás/adelante conserva la vista
+ * - Cada cambio de página, orden o filtros crea una entrada en el historial; la búsqueda la reemplaza
+ * - Se guarda en sessionStorage para restaurarla al volver a la página sin query params (menú, detalle...)
+ *
+ * Debe crearse en el contexto de inyección de la página: `tableState = injectTableUrlState('clientes', {...})`
+ */
+export class TableUrlState<F = unknown> {
+    private router = inject(Router);
+    private route = inject(ActivatedRoute);
+
+    readonly state: Signal<TableState<F>>;
+    readonly first = computed(() => (this.state().page - 1) * this.state().pageSize);
+    readonly sortOrderNumber = computed(() => (this.state().sortOrder === 'asc' ? 1 : -1));
+
+    private defaults: TableState<F>;
+
+    constructor(
+        private clave: string,
+        defaults: TableStateDefaults
+    ) {
+        this.defaults = { page: 1, pageSize: defaults.pageSize ?? 10, sortColumn: defaults.sortColumn, sortOrder: defaults.sortOrder, search: '', filtros: null };
+
+        // Sin estado en la URL: restaurar la última vista de la sesión
+        const snapshot = this.route.snapshot.queryParams;
+        const guardado = this.tieneEstado(snapshot) ? null : this.leerGuardado();
+        const restaurar = !!guardado && this.tieneEstado(guardado);
+        if (restaurar) {
+            this.router.navigate([], { relativeTo: this.route, queryParams: guardado, queryParamsHandling: 'merge', replaceUrl: true });
+        }
+
+        // Al restaurar se ignora la emisión inicial (URL vacía) hasta que llega la navegación
+        const params = toSignal(this.route.queryParams.pipe(skip(restaurar ? 1 : 0)), { initialValue: restaurar ? guardado! : snapshot });
+
+        this.state = computed(() => this.parse(params()), { equal: (a, b) => JSON.stringify(a) === JSON.stringify(b) });
+
+        effect(() => {
+            const query = this.toParams(this.state());
+            sessionStorage.setItem(STORAGE_PREFIX + this.clave, JSON.stringify(query));
+        });
+    }
+
+    /**
+     * Traduce el evento lazy de p-table (paginación + orden) a la URL
+     */
+    onLazyLoad(event: TableLazyLoadEvent) {
+        const pageSize = event.rows || this.state().pageSize;
+        const sortField = Array.isArray(event.sortField) ? event.sortField[0] : event.sortField;
+
+        this.update({
+            page: Math.floor((event.first ?? 0) / pageSize) + 1,
+            pageSize,
+            sortColumn: sortField || this.state().sortColumn,
+            sortOrder: sortField ? (event.sortOrder === 1 ? 'asc' : 'desc') : this.state().sortOrder
+        });
+    }
+
+    setSearch(search: string) {
+        this.update({ search, page: 1 }, true);
+    }
+
+    setFiltros(filtros: F | null) {
+        this.update({ filtros, page: 1 });
+    }
+
+    private update(cambios: Partial<TableState<F>>, replaceUrl = false) {
+        const siguiente = { ...this.state(), ...cambios };
+        if (JSON.stringify(siguiente) === JSON.stringify(this.state())) return;
+
+        // Los valores por defecto se quitan de la URL para que quede limpia
+        const queryParams: Params = Object.fromEntries(Object.values(PARAMS).map((p) => [p, null]));
+        Object.assign(queryParams, this.toParams(siguiente));
+        this.router.navigate([], { relativeTo: this.route, queryParams, queryParamsHandling: 'merge', replaceUrl });
+    }
+
+    private parse(params: Params): TableState<F> {
+        const numero = (valor: unknown, porDefecto: number) => {
+            const n = Number(valor);
+            return Number.isInteger(n) && n > 0 ? n : porDefecto;
+        };
+
+        let filtros: F | null = null;
+        if (params[PARAMS.filtros]) {
+            try {
+                filtros = JSON.parse(params[PARAMS.filtros]);
+            } catch {
+                filtros = null;
+            }
+        }
+
+        return {
+            page: numero(params[PARAMS.page], this.defaults.page),
+            pageSize: numero(params[PARAMS.pageSize], this.defaults.pageSize),
+            sortColumn: params[PARAMS.sortColumn] || this.defaults.sortColumn,
+            sortOrder: params[PARAMS.sortOrder] === 'asc' || params[PARAMS.sortOrder] === 'desc' ? params[PARAMS.sortOrder] : this.defaults.sortOrder,
+            search: params[PARAMS.search] || '',
+            filtros
+        };
+    }
+
+    private toParams(state: TableState<F>): Params {
+        const params: Params = {};
+        (Object.keys(PARAMS) as (keyof TableState<F>)[]).forEach((campo) => {
+            const valor = state[campo];
+            if (valor === null || valor === '' || valor === this.defaults[campo]) return;
+            params[PARAMS[campo]] = campo === 'filtros' ? JSON.stringify(valor) : String(valor);
+        });
+        return params;
+    }
+
+    private tieneEstado(params: Params): boolean {
+        return Object.values(PARAMS).some((p) => params[p] !== undefined);
+    }
+
+    private leerGuardado(): Params | null {
+        try {
+            return JSON.parse(sessionStorage.getItem(STORAGE_PREFIX + this.clave) || 'null');
+        } catch {
+            return null;
+        }
+    }
+}
+
+export function injectTableUrlState<F = unknown>(clave: string, defaults: TableStateDefaults): TableUrlState<F> {
+    return new TableUrlState<F>(clave, defaults);
+}
@@ -0,0 +1,56 @@
+import { Component, input, ChangeDetectionStrategy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ButtonModule } from 'primeng/button';
+import { CheckboxModule } from 'primeng/checkbox';
+import { PopoverModule } from 'primeng/popover';
+import { SelectButtonModule } from 'primeng/selectbutton';
+import { TooltipModule } from 'primeng/tooltip';
+import { DensidadTabla, TableColumnsState } from './base/table-columns-state';
+
+/**
+ * Selector de columnas (mostrar/ocultar y orden) y densidad de una tabla
+ */
+@Component({
+    selector: 'app-column-chooser',
+    standalone: true,
+    imports: [CommonModule, FormsModule, ButtonModule, CheckboxModule, PopoverModule, SelectButtonModule, TooltipModule],
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    template: `
+        <p-button icon="pi pi-table" severity="secondary" outlined (onClick)="popover.toggle($event)" pTooltip="Columnas y densidad" />
+
+        <p-popover #popover appendTo="body">
+            <div class="flex flex-col gap-3" style="width: 18rem">
+                <div class="flex flex-col gap-2">
+                    <span class="font-semibold">Densidad</span>
+                    <p-selectbutton [options]="densidades" [ngModel]="estado().densidad()" (ngModelChange)="estado().setDensidad($event)" optionLabel="label" optionValue="value" [allowEmpty]="false" />
+                </div>
+
+                <div class="flex flex-col gap-1">
+                    <span class="font-semibold">Columnas</span>
+                    <small class="text-500 mb-1">También puedes arrastrar y redimensionar las cabeceras de la tabla</small>
+                    @for (columna of estado().columnas(); track columna.campo; let primera = $first; let ultima = $last) {
+                        <div class="flex items-center gap-2">
+                            <p-checkbox [inputId]="'col-' + columna.campo" [binary]="true" [ngModel]="estado().esVisible(columna.campo)" (ngModelChange)="estado().mostrar(columna.campo, $event)" />
+                            <label [for]="'col-' + columna.campo" class="flex-1">{{ columna.cabecera }}</label>
+                            <p-button icon="pi pi-arrow-up" size="small" [text]="true" [rounded]="true" severity="secondary" [disabled]="primera" (onClick)="estado().mover(columna.campo, -1)" />
+                            <p-button icon="pi pi-arrow-down" size="small" [text]="true" [rounded]="true" severity="secondary" [disabled]="ultima" (onClick)="estado().mover(columna.campo, 1)" />
+                        </div>
+                    }
+                </div>
+
+                <div class="flex justify-end">
+                    <p-button label="Restablecer" icon="pi pi-undo" size="small" [text]="true" (onClick)="estado().restablecer()" />
+                </div>
+            </div>
+        </p-popover>
+    `
+})
+export class ColumnChooserComponent {
+    estado = input.required<TableColumnsState>();
+
+    readonly densidades: { label: string; value: DensidadTabla }[] = [
+        { label: 'Cómoda', value: 'comoda' },
+        { label: 'Compacta', value: 'compacta' }
+    ];
+}
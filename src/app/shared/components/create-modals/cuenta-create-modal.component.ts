@@ -5,15 +5,19 @@ import { DialogModule } from 'primeng/dialog';
 import { ButtonModule } from 'primeng/button';
 import { InputTextModule } from 'primeng/inputtext';
 import { InputNumberModule } from 'primeng/inputnumber';
+import { SelectModule } from 'primeng/select';
 import { ConfirmDialogModule } from 'primeng/confirmdialog';
 import { ConfirmationService } from 'primeng/api';
 import { Cuenta } from '@/core/models/cuenta.model';
 import { CuentaStore } from '@/features/cuentas/store/cuenta.store';
+import { MONEDAS } from '@/core/models/moneda.model';
+import { MonedaStore } from '@/core/stores/moneda.store';
+import { formatearImporte } from '@/shared/utils/monedas.util';
 
 @Component({
     selector: 'app-cuenta-create-modal',
     standalone: true,
-    imports: [CommonModule, FormsModule, DialogModule, ButtonModule, InputTextModule, InputNumberModule, ConfirmDialogModule],
+    imports: [CommonModule, FormsModule, DialogModule, ButtonModule, InputTextModule, InputNumberModule, SelectModule, ConfirmDialogModule],
     providers: [ConfirmationService],
     changeDetection: ChangeDetectionStrategy.OnPush,
     template: `
@@ -28,9 +32,14 @@ import { CuentaStore } from '@/features/cuentas/store/cuenta.store';
                         }
                     </div>
 
+                    <div>
+                        <label for="moneda" class="block font-bold mb-3">Moneda</label>
+                        <p-select inputId="moneda" [(ngModel)]="moneda" [options]="monedas" optionLabel="codigo" optionValue="codigo" appendTo="body" fluid />
+                    </div>
+
                     <div>
                         <label for="saldo" class="block font-bold mb-3">Saldo Inicial *</label>
-                        <p-inputnumber id="saldo" [(ngModel)]="saldo" mode="currency" currency="EUR" locale="es-ES" fluid />
+                        <p-inputnumber id="saldo" [(ngModel)]="saldo" mode="currency" [currency]="moneda" locale="es-ES" fluid />
                         @if (submitted() && saldo === null) {
                             <small class="text-red-500"> El saldo inicial es requerido. </small>
                         }
@@ -53,6 +62,7 @@ import { CuentaStore } from '@/features/cuentas/store/cuenta.store';
 export class CuentaCreateModalComponent {
     private cuentaStore = inject(CuentaStore);
     private confirmationService = inject(ConfirmationService);
+    private monedaStore = inject(MonedaStore);
 
     // Inputs/Outputs
     visible = input<boolean>(false);
@@ -63,6 +73,8 @@ export class CuentaCreateModalComponent {
     // Estado del formulario
     nombre: string = '';
     saldo: number = 0;
+    moneda: string = this.monedaStore.monedaBase();
+    monedas = MONEDAS;
     submitted = signal(false);
     loading = signal(false);
     errorMessage = signal<string>('');
@@ -78,6 +90,7 @@ export class CuentaCreateModalComponent {
             if (this.visible()) {
                 this.nombre = '';
                 this.saldo = 0;
+                this.moneda = this.monedaStore.monedaBase();
                 this.submitted.set(false);
                 this.loading.set(false);
                 this.errorMessage.set('');
@@ -94,7 +107,7 @@ export class CuentaCreateModalComponent {
         }
 
         this.confirmationService.confirm({
-            message: `¿Está seguro que desea crear la cuenta "${this.nombre.trim()}" con saldo inicial de ${this.saldo}€?`,
+            message: `¿Está seguro que desea crear la cuenta "${this.nombre.trim()}" con saldo inicial de ${formatearImporte(this.saldo, this.moneda)}?`,
             header: 'Confirmar Creación',
             icon: 'pi pi-exclamation-triangle',
             acceptLabel: 'Sí, crear',
@@ -109,7 +122,7 @@ export class CuentaCreateModalComponent {
         this.loading.set(true);
 
         this.cuentaStore
-            .create(this.nombre.trim(), this.saldo)
+            .create(this.nombre.trim(), this.saldo, this.moneda)
             .then((nuevaCuentaId) => {
                 // El store devuelve el UUID
                 const nuevaCuenta: Cuenta = {
@@ -117,6 +130,7 @@ export class CuentaCreateModalComponent {
                     nombre: this.nombre.trim(),
                     fechaCreacion: new Date(),
                     saldo: this.saldo,
+                    moneda: this.moneda,
                     usuarioId: ''
                 };
 
@@ -0,0 +1,97 @@
+import { Component, input, output, signal, computed, ChangeDetectionStrategy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ButtonModule } from 'primeng/button';
+import { MessageModule } from 'primeng/message';
+import { TagModule } from 'primeng/tag';
+import { DuplicadoVista, PosibleDuplicado } from '@/core/models/duplicado.model';
+import { ImportePipe } from '@/shared/pipes/importe.pipe';
+
+/**
+ * Comparación lado a lado entre el movimiento que se va a guardar y sus posibles duplicados
+ * Se muestra dentro del drawer del formulario antes de confirmar la creación
+ */
+@Component({
+    selector: 'app-duplicate-warning',
+    standalone: true,
+    imports: [CommonModule, ButtonModule, MessageModule, TagModule, ImportePipe],
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    template: `
+        <p-message severity="warn" styleClass="w-full mb-4">
+            <span>
+                @if (duplicados().length === 1) {
+                    Ya existe un movimiento muy parecido. ¿Es el mismo recibo?
+                } @else {
+                    Hay {{ duplicados().length }} movimientos muy parecidos. ¿Es el mismo recibo?
+                }
+            </span>
+        </p-message>
+
+        @if (actual(); as dup) {
+            <div class="grid grid-cols-2 gap-3">
+                @for (col of [{ titulo: 'Nuevo', vista: nuevo() }, { titulo: 'Existente', vista: dup.movimiento }]; track col.titulo) {
+                    <div class="border rounded-border p-3" [class.border-primary]="$first" [class.border-surface-200]="!$first">
+                        <div class="flex items-center justify-between mb-3">
+                            <span class="text-xs font-bold uppercase tracking-wider text-muted-color">{{ col.titulo }}</span>
+                            @if (!$first) {
+                                <p-tag severity="warn" [value]="(dup.similitud * 100 | number: '1.0-0') + '% similar'" />
+                            }
+                        </div>
+                        <div class="font-semibold mb-2" [class.text-orange-500]="!$first && col.vista.titulo !== nuevo().titulo">{{ col.vista.titulo || '—' }}</div>
+                        <dl class="text-sm m-0 flex flex-col gap-1">
+                            <div class="flex justify-between gap-2">
+                                <dt class="text-muted-color">Fecha</dt>
+                                <dd class="m-0" [class.text-orange-500]="!$first && dup.diasDiferencia !== 0">
+                                    {{ col.vista.fecha | date: 'dd/MM/yyyy' }}
+                                    @if (!$first && dup.diasDiferencia !== 0) {
+                                        ({{ dup.diasDiferencia > 0 ? '+' : '' }}{{ dup.diasDiferencia }} d)
+                                    }
+                                </dd>
+                            </div>
+                            <div class="flex justify-between gap-2">
+                                <dt class="text-muted-color">Importe</dt>
+                                <dd class="m-0 font-bold">{{ col.vista.importe | importe }}</dd>
+                            </div>
+                            <div class="flex justify-between gap-2">
+                                <dt class="text-muted-color">Cuenta</dt>
+                                <dd class="m-0 text-right">{{ col.vista.cuenta || '—' }}</dd>
+                            </div>
+                            @for (detalle of col.vista.detalles ?? []; track detalle.label) {
+                                <div class="flex justify-between gap-2">
+                                    <dt class="text-muted-color">{{ detalle.label }}</dt>
+                                    <dd class="m-0 text-right">{{ detalle.value || '—' }}</dd>
+                                </div>
+                            }
+                            <div class="flex flex-col gap-1 mt-1">
+                                <dt class="text-muted-color">Descripción</dt>
+                                <dd class="m-0 break-words" [class.text-orange-500]="!$first && (col.vista.descripcion || '') !== (nuevo().descripcion || '')">{{ col.vista.descripcion || '—' }}</dd>
+                            </div>
+                        </dl>
+                    </div>
+                }
+            </div>
+
+            @if (duplicados().length > 1) {
+                <div class="flex items-center justify-center gap-2 mt-3">
+                    <p-button icon="pi pi-chevron-left" [text]="true" [rounded]="true" [disabled]="indice() === 0" (onClick)="indice.set(indice() - 1)" />
+                    <span class="text-sm text-muted-color">{{ indice() + 1 }} de {{ duplicados().length }}</span>
+                    <p-button icon="pi pi-chevron-right" [text]="true" [rounded]="true" [disabled]="indice() === duplicados().length - 1" (onClick)="indice.set(indice() + 1)" />
+                </div>
+            }
+        }
+
+        <div class="flex justify-end gap-2 mt-4">
+            <p-button label="Volver al formulario" icon="pi pi-arrow-left" [text]="true" severity="secondary" (onClick)="dismiss.emit()" />
+            <p-button label="Guardar igualmente" icon="pi pi-check" severity="warn" (onClick)="confirm.emit()" />
+        </div>
+    `
+})
+export class DuplicateWarningComponent {
+    nuevo = input.required<DuplicadoVista>();
+    duplicados = input.required<PosibleDuplicado<DuplicadoVista>[]>();
+
+    confirm = output<void>();
+    dismiss = output<void>();
+
+    indice = signal(0);
+    actual = computed(() => this.duplicados()[Math.min(this.indice(), this.duplicados().length - 1)] ?? null);
+}
@@ -0,0 +1,102 @@
+import { Component, inject, input, model, signal, ChangeDetectionStrategy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { AutoCompleteModule, AutoCompleteCompleteEvent } from 'primeng/autocomplete';
+import { InputNumberModule } from 'primeng/inputnumber';
+import { InputTextModule } from 'primeng/inputtext';
+import { CatalogRef } from '@/core/models/common.model';
+import { CatalogoEditable, EditorCelda } from './base/table-columns-state';
+import { ValorCelda } from './base/table-inline-edit';
+import { ConceptoStore } from '@/features/conceptos/store/concepto.store';
+import { CategoriaStore } from '@/features/categorias/store/categoria.store';
+import { ProveedorStore } from '@/features/proveedores/store/proveedor.store';
+import { ClienteStore } from '@/features/clientes/store/cliente.store';
+import { PersonaStore } from '@/features/personas/store/persona.store';
+import { CuentaStore } from '@/features/cuentas/store/cuenta.store';
+import { FormaPagoStore } from '@/features/formas-pago/store/forma-pago.store';
+import { MonedaStore } from '@/core/stores/moneda.store';
+
+interface CatalogoCelda {
+    search(query: string, limit: number): Promise<CatalogRef[]>;
+    getRecent(limit: number): Promise<CatalogRef[]>;
+}
+
+// Teclas que el control usa y no deben mover la edición a otra celda
+const HORIZONTALES = ['ArrowLeft', 'ArrowRight'];
+const FLECHAS = [...HORIZONTALES, 'ArrowUp', 'ArrowDown'];
+
+/**
+ * Control de edición de una celda de tabla (plantilla #input de p-cellEditor)
+ * Los catálogos usan la misma búsqueda que los autocompletes de los formularios
+ */
+@Component({
+    selector: 'app-editor-celda',
+    standalone: true,
+    imports: [CommonModule, FormsModule, AutoCompleteModule, InputNumberModule, InputTextModule],
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    template: `
+        @switch (editor()) {
+            @case ('importe') {
+                <p-inputNumber [(ngModel)]="valor" mode="currency" [currency]="moneda() || monedaStore.monedaBase()" locale="es-ES" [min]="0" (keydown)="aislar($event, flechas)" fluid />
+            }
+            @case ('fecha') {
+                <input pInputText type="date" [(ngModel)]="valor" (keydown)="aislar($event, horizontales)" class="w-full" />
+            }
+            @case ('texto') {
+                <input pInputText type="text" [(ngModel)]="valor" (keydown)="aislar($event, horizontales)" class="w-full" />
+            }
+            @default {
+                <p-autoComplete
+                    [(ngModel)]="valor"
+                    [suggestions]="sugerencias()"
+                    (completeMethod)="buscar($event)"
+                    optionLabel="nombre"
+                    [dropdown]="true"
+                    [forceSelection]="true"
+                    (keydown)="aislar($event, flechas)"
+                    appendTo="body"
+                    fluid
+                />
+            }
+        }
+    `
+})
+export class EditorCeldaComponent {
+    editor = input.required<EditorCelda>();
+    valor = model<ValorCelda>(null);
+    // Moneda de la fila (cuenta del movimiento); sin ella, la moneda base
+    moneda = input<string | null | undefined>(null);
+
+    sugerencias = signal<CatalogRef[]>([]);
+
+    monedaStore = inject(MonedaStore);
+
+    readonly horizontales = HORIZONTALES;
+    readonly flechas = FLECHAS;
+
+    private catalogos: Record<CatalogoEditable, CatalogoCelda> = {
+        conceptos: inject(ConceptoStore),
+        categorias: inject(CategoriaStore),
+        proveedores: inject(ProveedorStore),
+        clientes: inject(ClienteStore),
+        personas: inject(PersonaStore),
+        cuentas: inject(CuentaStore),
+        formasPago: inject(FormaPagoStore)
+    };
+
+    /**
+     * Las flechas que usa el control (cursor, importe, opciones del autocomplete) no llegan a la tabla
+     */
+    aislar(event: KeyboardEvent, teclas: string[]) {
+        if (teclas.includes(event.key)) {
+            event.stopPropagation();
+        }
+    }
+
+    buscar(event: AutoCompleteCompleteEvent) {
+        const catalogo = this.catalogos[this.editor() as CatalogoEditable];
+        const query = event.query?.trim();
+        const peticion = !query || query.length < 2 ? catalogo.getRecent(10) : catalogo.search(query, 10);
+        peticion.then((data) => this.sugerencias.set(data)).catch(() => this.sugerencias.set([]));
+    }
+}
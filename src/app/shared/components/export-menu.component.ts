@@ -0,0 +1,40 @@
+import { Component, input, output, computed, ChangeDetectionStrategy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ButtonModule } from 'primeng/button';
+import { MenuModule } from 'primeng/menu';
+import { MenuItem } from 'primeng/api';
+import { ExportOptions } from '@/core/models/export.model';
+
+/**
+ * Botón "Exportar" con menú de formatos (CSV, CSV para Excel en español, XLSX y OFX)
+ */
+@Component({
+    selector: 'app-export-menu',
+    standalone: true,
+    imports: [CommonModule, ButtonModule, MenuModule],
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    template: `
+        <p-button [label]="label()" icon="pi pi-upload" severity="secondary" [loading]="loading()" [disabled]="loading()" (onClick)="menu.toggle($event)" />
+        <p-menu #menu [model]="items()" [popup]="true" appendTo="body" />
+    `
+})
+export class ExportMenuComponent {
+    label = input<string>('Exportar');
+    loading = input<boolean>(false);
+    allowOfx = input<boolean>(true);
+    export = output<ExportOptions>();
+
+    items = computed<MenuItem[]>(() => {
+        const items: MenuItem[] = [
+            { label: 'CSV (coma)', icon: 'pi pi-file', command: () => this.export.emit({ format: 'csv', delimiter: ',' }) },
+            { label: 'CSV para Excel (punto y coma)', icon: 'pi pi-file', command: () => this.export.emit({ format: 'csv', delimiter: ';' }) },
+            { label: 'Excel (XLSX)', icon: 'pi pi-file-excel', command: () => this.export.emit({ format: 'xlsx' }) }
+        ];
+
+        if (this.allowOfx()) {
+            items.push({ label: 'OFX (contabilidad)', icon: 'pi pi-building-columns', command: () => this.export.emit({ format: 'ofx' }) });
+        }
+
+        return items;
+    });
+}
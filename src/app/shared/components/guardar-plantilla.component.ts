@@ -0,0 +1,86 @@
+import { Component, effect, inject, input, model, untracked, ChangeDetectionStrategy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { MessageService } from 'primeng/api';
+import { ButtonModule } from 'primeng/button';
+import { CheckboxModule } from 'primeng/checkbox';
+import { DialogModule } from 'primeng/dialog';
+import { InputTextModule } from 'primeng/inputtext';
+import { PlantillaStore } from '@/core/stores/plantilla.store';
+import { DatosPlantilla, TipoPlantilla } from '@/core/models/plantilla.model';
+import { plantillaDesdeMovimiento } from '@/shared/utils/plantillas.util';
+import { ImportePipe } from '@/shared/pipes/importe.pipe';
+
+/**
+ * Diálogo para guardar un gasto o ingreso como plantilla con nombre
+ * Se abre al asignar `movimiento` y se cierra dejándolo en null
+ */
+@Component({
+    selector: 'app-guardar-plantilla',
+    standalone: true,
+    imports: [CommonModule, FormsModule, ButtonModule, CheckboxModule, DialogModule, InputTextModule, ImportePipe],
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    template: `
+        <p-dialog header="Guardar como plantilla" [visible]="!!movimiento()" (visibleChange)="!$event && movimiento.set(null)" [modal]="true" [style]="{ width: 'min(26rem, calc(100vw - 2rem))' }" appendTo="body">
+            @if (movimiento(); as mov) {
+                <div class="flex flex-col gap-4">
+                    <div class="flex flex-col gap-2">
+                        <label for="nombrePlantilla" class="font-semibold">Nombre de la plantilla</label>
+                        <input pInputText id="nombrePlantilla" [(ngModel)]="nombre" placeholder="Ej. Café, Gasolina, Parking" (keydown.enter)="guardar()" />
+                    </div>
+                    <div class="text-sm text-muted-color">
+                        {{ mov.conceptoNombre }} · {{ mov.cuentaNombre }} · {{ mov.formaPagoNombre }}
+                    </div>
+                    @if (mov.importe) {
+                        <div class="flex items-center gap-2">
+                            <p-checkbox inputId="conImporte" [(ngModel)]="conImporte" [binary]="true" />
+                            <label for="conImporte">Guardar también el importe ({{ mov.importe | importe }})</label>
+                        </div>
+                    }
+                    @if (plantillaStore.modoLocal()) {
+                        <small class="text-500">Las plantillas se guardarán solo en este navegador</small>
+                    }
+                </div>
+            }
+            <ng-template #footer>
+                <p-button label="Cancelar" [text]="true" (onClick)="movimiento.set(null)" />
+                <p-button label="Guardar" icon="pi pi-check" [disabled]="!nombre.trim()" (onClick)="guardar()" />
+            </ng-template>
+        </p-dialog>
+    `
+})
+export class GuardarPlantillaComponent {
+    plantillaStore = inject(PlantillaStore);
+    private messageService = inject(MessageService, { optional: true });
+
+    tipo = input.required<TipoPlantilla>();
+    movimiento = model<(DatosPlantilla & { importe?: number }) | null>(null);
+
+    nombre = '';
+    conImporte = true;
+
+    constructor() {
+        // Cada apertura propone el concepto como nombre
+        effect(() => {
+            const movimiento = this.movimiento();
+            untracked(() => {
+                this.nombre = movimiento?.conceptoNombre ?? '';
+                this.conImporte = true;
+            });
+        });
+    }
+
+    async guardar() {
+        const movimiento = this.movimiento();
+        const nombre = this.nombre.trim();
+        if (!movimiento || !nombre) return;
+
+        try {
+            await this.plantillaStore.createPlantilla(plantillaDesdeMovimiento(movimiento, this.tipo(), nombre, this.conImporte));
+            this.movimiento.set(null);
+            this.messageService?.add({ severity: 'success', summary: 'Éxito', detail: `Plantilla "${nombre}" guardada` });
+        } catch (error: any) {
+            this.messageService?.add({ severity: 'error', summary: 'Error', detail: error.userMessage || 'No se pudo guardar la plantilla' });
+        }
+    }
+}
@@ -0,0 +1,129 @@
+import { Component, computed, effect, inject, input, untracked, ChangeDetectionStrategy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { ActivatedRoute, Router } from '@angular/router';
+import { map } from 'rxjs';
+import { MessageService } from 'primeng/api';
+import { ButtonModule } from 'primeng/button';
+import { InputTextModule } from 'primeng/inputtext';
+import { Popover, PopoverModule } from 'primeng/popover';
+import { TagModule } from 'primeng/tag';
+import { TooltipModule } from 'primeng/tooltip';
+import { VistaStore } from '@/core/stores/vista.store';
+import { PaginaVista, VistaGuardada, VistaGuardadaCreate } from '@/core/models/vista.model';
+import { FiltrosAvanzados } from '@/core/models/movimiento-filters.model';
+import { TableState } from './base/table-url-state';
+import { TableColumnsState } from './base/table-columns-state';
+
+/**
+ * Guarda el estado actual de la tabla (filtros, búsqueda, orden y columnas) como vista con nombre
+ * La vista abierta se identifica con el query param `vista`; si se modifica se puede actualizar
+ */
+@Component({
+    selector: 'app-guardar-vista',
+    standalone: true,
+    imports: [CommonModule, FormsModule, ButtonModule, InputTextModule, PopoverModule, TagModule, TooltipModule],
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    template: `
+        <div class="flex items-center gap-2">
+            @if (vistaActiva(); as vista) {
+                <p-tag [value]="vista.nombre" icon="pi pi-bookmark-fill" [severity]="modificada() ? 'warn' : 'info'" [pTooltip]="modificada() ? 'La vista tiene cambios sin guardar' : ''" />
+                @if (modificada()) {
+                    <p-button label="Actualizar vista" icon="pi pi-save" size="small" [text]="true" (onClick)="actualizar(vista)" />
+                }
+            }
+            <p-button label="Guardar vista" icon="pi pi-bookmark" size="small" severity="secondary" [outlined]="true" (onClick)="abrir(popover, $event)" />
+        </div>
+
+        <p-popover #popover appendTo="body">
+            <div class="flex flex-col gap-3" style="width: 18rem">
+                <label for="nombreVista" class="font-semibold">Nombre de la vista</label>
+                <input pInputText id="nombreVista" [(ngModel)]="nombre" placeholder="Ej. Gastos de coche 2025" (keydown.enter)="guardar(popover)" />
+                @if (vistaStore.modoLocal()) {
+                    <small class="text-500">Las vistas se guardarán solo en este navegador</small>
+                }
+                <div class="flex justify-end gap-2">
+                    <p-button label="Cancelar" [text]="true" size="small" (onClick)="popover.hide()" />
+                    <p-button label="Guardar" icon="pi pi-check" size="small" [disabled]="!nombre.trim()" (onClick)="guardar(popover)" />
+                </div>
+            </div>
+        </p-popover>
+    `
+})
+export class GuardarVistaComponent {
+    vistaStore = inject(VistaStore);
+    private router = inject(Router);
+    private route = inject(ActivatedRoute);
+    private messageService = inject(MessageService, { optional: true });
+
+    pagina = input.required<PaginaVista>();
+    estado = input.required<TableState<unknown>>();
+    columnas = input<TableColumnsState | null>(null);
+
+    nombre = '';
+
+    private vistaId = toSignal(this.route.queryParamMap.pipe(map((params) => params.get('vista'))));
+
+    vistaActiva = computed(() => {
+        const vista = this.vistaStore.getVista(this.vistaId());
+        return vista?.pagina === this.pagina() ? vista : null;
+    });
+
+    private vistaActivaId = computed(() => this.vistaActiva()?.id ?? null);
+
+    constructor() {
+        // Al abrir una vista se aplican sus columnas (el resto del estado ya viene en la URL)
+        effect(() => {
+            const id = this.vistaActivaId();
+            untracked(() => {
+                const vista = this.vistaStore.getVista(id);
+                if (vista) this.columnas()?.aplicarVisibles(vista.columnas);
+            });
+        });
+    }
+
+    modificada = computed(() => {
+        const vista = this.vistaActiva();
+        return !!vista && JSON.stringify(this.datos()) !== JSON.stringify(this.datosDe(vista));
+    });
+
+    abrir(popover: Popover, event: Event) {
+        this.nombre = '';
+        popover.toggle(event);
+    }
+
+    async guardar(popover: Popover) {
+        const nombre = this.nombre.trim();
+        if (!nombre) return;
+
+        try {
+            const vista = await this.vistaStore.createVista({ ...this.datos(), nombre, pagina: this.pagina() });
+            popover.hide();
+            this.router.navigate([], { relativeTo: this.route, queryParams: { vista: vista.id }, queryParamsHandling: 'merge', replaceUrl: true });
+            this.messageService?.add({ severity: 'success', summary: 'Éxito', detail: `Vista "${nombre}" guardada` });
+        } catch (error: any) {
+            this.messageService?.add({ severity: 'error', summary: 'Error', detail: error.userMessage || 'No se pudo guardar la vista' });
+        }
+    }
+
+    async actualizar(vista: VistaGuardada) {
+        try {
+            await this.vistaStore.updateVista(vista.id, this.datos());
+            this.messageService?.add({ severity: 'success', summary: 'Éxito', detail: `Vista "${vista.nombre}" actualizada` });
+        } catch (error: any) {
+            this.messageService?.add({ severity: 'error', summary: 'Error', detail: error.userMessage || 'No se pudo actualizar la vista' });
+        }
+    }
+
+    private datos(): Omit<VistaGuardadaCreate, 'nombre' | 'pagina'> {
+        const { filtros, search, sortColumn, sortOrder } = this.estado();
+        return { filtros: filtros as Partial<FiltrosAvanzados> | null, search, sortColumn, sortOrder, columnas: this.columnas()?.visibles().map((c) => c.campo) ?? null };
+    }
+
+    private datosDe(vista: VistaGuardada): Omit<VistaGuardadaCreate, 'nombre' | 'pagina'> {
+        const { filtros, search, sortColumn, sortOrder, columnas } = vista;
+        // Una vista sin columnas guardadas no cuenta como modificada por las columnas
+        return { filtros, search, sortColumn, sortOrder, columnas: columnas ?? this.datos().columnas };
+    }
+}
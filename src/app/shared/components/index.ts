@@ -1,5 +1,9 @@
 export * from './base/base-page.component';
 export * from './base/base-page-template.component';
+export * from './base/table-url-state';
+export * from './base/table-columns-state';
+export * from './base/table-inline-edit';
+export * from './base/atajo-teclado';
 export * from './skeleton-loader.component';
 export * from './create-modals/categoria-create-modal.component';
 export * from './create-modals/cliente-create-modal.component';
@@ -7,4 +11,16 @@ export * from './create-modals/persona-create-modal.component';
 export * from './create-modals/proveedor-create-modal.component';
 export * from './create-modals/cliente-create-modal.component';
 export * from './create-modals/cuenta-create-modal.component';
-export * from './create-modals/forma-pago-create-modal.component';
\ No newline at end of file
+export * from './create-modals/forma-pago-create-modal.component';
+export * from './export-menu.component';
+export * from './duplicate-warning.component';
+export * from './adjuntos/adjunto-miniatura.component';
+export * from './adjuntos/adjunto-viewer.component';
+export * from './adjuntos/adjuntos-input.component';
+export * from './movimiento-filtros.component';
+export * from './guardar-vista.component';
+export * from './column-chooser.component';
+export * from './acciones-masivas.component';
+export * from './editor-celda.component';
+export * from './plantillas-chips.component';
+export * from './guardar-plantilla.component';
@@ -0,0 +1,179 @@
+import { Component, computed, inject, input, model, signal, ChangeDetectionStrategy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ButtonModule } from 'primeng/button';
+import { ChipModule } from 'primeng/chip';
+import { AutoCompleteModule, AutoCompleteCompleteEvent } from 'primeng/autocomplete';
+import { DatePickerModule } from 'primeng/datepicker';
+import { InputNumberModule } from 'primeng/inputnumber';
+import { SelectButtonModule } from 'primeng/selectbutton';
+import { ToggleSwitchModule } from 'primeng/toggleswitch';
+import { CatalogRef } from '@/core/models/common.model';
+import { CampoCatalogoFiltro, ChipFiltro, FiltrosAvanzados } from '@/core/models/movimiento-filters.model';
+import { PRESETS_FECHA, chipsFiltros, filtrosVacios, fromFechaIso, quitarChip, toFechaIso } from '@/shared/utils/movimiento-filters.util';
+import { CategoriaStore } from '@/features/categorias/store/categoria.store';
+import { CuentaStore } from '@/features/cuentas/store/cuenta.store';
+import { ProveedorStore } from '@/features/proveedores/store/proveedor.store';
+import { ClienteStore } from '@/features/clientes/store/cliente.store';
+import { PersonaStore } from '@/features/personas/store/persona.store';
+import { FormaPagoStore } from '@/features/formas-pago/store/forma-pago.store';
+import { MonedaStore } from '@/core/stores/moneda.store';
+
+interface CatalogoFiltro {
+    search(query: string, limit: number): Promise<CatalogRef[]>;
+    getRecent(limit: number): Promise<CatalogRef[]>;
+}
+
+/**
+ * Panel plegable de filtros avanzados para los listados de gastos e ingresos
+ * Los cambios del panel se aplican con "Aplicar"; los chips de filtros activos se quitan al momento
+ */
+@Component({
+    selector: 'app-movimiento-filtros',
+    standalone: true,
+    imports: [CommonModule, FormsModule, ButtonModule, ChipModule, AutoCompleteModule, DatePickerModule, InputNumberModule, SelectButtonModule, ToggleSwitchModule],
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    template: `
+        <div class="flex flex-wrap items-center gap-2">
+            <p-button [label]="chips().length > 0 ? 'Filtros (' + chips().length + ')' : 'Filtros'" icon="pi pi-filter" severity="secondary" [outlined]="!abierto()" size="small" (onClick)="toggle()" />
+            @for (chip of chips(); track chip.campo + (chip.id ?? '')) {
+                <p-chip [label]="chip.etiqueta" [removable]="true" (onRemove)="quitar(chip)" />
+            }
+            @if (chips().length > 1) {
+                <p-button label="Quitar todos" [text]="true" size="small" (onClick)="limpiar()" />
+            }
+        </div>
+
+        @if (abierto()) {
+            <div class="grid grid-cols-12 gap-4 mt-4 p-4 border border-surface rounded-border">
+                <div class="col-span-12">
+                    <label class="block font-bold mb-2">Fecha</label>
+                    <div class="flex flex-wrap items-center gap-3">
+                        <p-selectbutton [options]="presets" [(ngModel)]="borrador.preset" optionLabel="label" optionValue="value" (onChange)="onPreset()" />
+                        <p-datepicker [(ngModel)]="desde" dateFormat="dd/mm/yy" placeholder="Desde" [showIcon]="true" [showButtonBar]="true" (ngModelChange)="borrador.preset = null" appendTo="body" />
+                        <p-datepicker [(ngModel)]="hasta" dateFormat="dd/mm/yy" placeholder="Hasta" [showIcon]="true" [showButtonBar]="true" (ngModelChange)="borrador.preset = null" appendTo="body" />
+                    </div>
+                </div>
+
+                @for (campo of campos(); track campo.campo) {
+                    <div class="col-span-12 md:col-span-6 lg:col-span-4">
+                        <label class="block font-bold mb-2">{{ campo.label }}</label>
+                        <p-autoComplete
+                            [(ngModel)]="borrador[campo.campo]"
+                            [multiple]="true"
+                            [suggestions]="sugerencias()[campo.campo] ?? []"
+                            (completeMethod)="buscar(campo.campo, $event)"
+                            optionLabel="nombre"
+                            dataKey="id"
+                            [dropdown]="true"
+                            [forceSelection]="true"
+                            [placeholder]="'Cualquier ' + campo.label.toLowerCase()"
+                            appendTo="body"
+                            fluid
+                        />
+                    </div>
+                }
+
+                <div class="col-span-12 md:col-span-6 lg:col-span-4">
+                    <label class="block font-bold mb-2">Importe</label>
+                    <div class="flex gap-2">
+                        <p-inputNumber [(ngModel)]="borrador.importeMin" mode="currency" [currency]="monedaStore.monedaBase()" locale="es-ES" [min]="0" placeholder="Mínimo" fluid />
+                        <p-inputNumber [(ngModel)]="borrador.importeMax" mode="currency" [currency]="monedaStore.monedaBase()" locale="es-ES" [min]="0" placeholder="Máximo" fluid />
+                    </div>
+                    @if (importeInvalido()) {
+                        <small class="text-red-500">El mínimo no puede superar al máximo.</small>
+                    }
+                </div>
+
+                <div class="col-span-12 md:col-span-6 lg:col-span-4 flex items-center gap-2 md:mt-6">
+                    <p-toggleswitch [(ngModel)]="borrador.conDescripcion" inputId="conDescripcion" />
+                    <label for="conDescripcion">Solo con descripción</label>
+                </div>
+
+                <div class="col-span-12 flex justify-end gap-2">
+                    <p-button label="Limpiar" icon="pi pi-times" [text]="true" (onClick)="borrador = vacios()" />
+                    <p-button label="Aplicar" icon="pi pi-check" [disabled]="importeInvalido()" (onClick)="aplicar()" />
+                </div>
+            </div>
+        }
+    `
+})
+export class MovimientoFiltrosComponent {
+    tipo = input<'gasto' | 'ingreso'>('gasto');
+    filtros = model<FiltrosAvanzados>(filtrosVacios());
+    abierto = model<boolean>(false);
+
+    sugerencias = signal<Partial<Record<CampoCatalogoFiltro, CatalogRef[]>>>({});
+    borrador: FiltrosAvanzados = filtrosVacios();
+    desde: Date | null = null;
+    hasta: Date | null = null;
+
+    readonly presets = PRESETS_FECHA;
+    readonly vacios = filtrosVacios;
+
+    monedaStore = inject(MonedaStore);
+
+    private catalogos: Record<CampoCatalogoFiltro, CatalogoFiltro> = {
+        categorias: inject(CategoriaStore),
+        cuentas: inject(CuentaStore),
+        proveedores: inject(ProveedorStore),
+        clientes: inject(ClienteStore),
+        personas: inject(PersonaStore),
+        formasPago: inject(FormaPagoStore)
+    };
+
+    chips = computed(() => chipsFiltros(this.filtros(), this.monedaStore.monedaBase()));
+
+    // Los gastos se filtran por proveedor y los ingresos por cliente
+    campos = computed<{ campo: CampoCatalogoFiltro; label: string }[]>(() => [
+        { campo: 'categorias', label: 'Categoría' },
+        { campo: 'cuentas', label: 'Cuenta' },
+        this.tipo() === 'gasto' ? { campo: 'proveedores', label: 'Proveedor' } : { campo: 'clientes', label: 'Cliente' },
+        { campo: 'personas', label: 'Persona' },
+        { campo: 'formasPago', label: 'Forma de Pago' }
+    ]);
+
+    toggle() {
+        if (!this.abierto()) {
+            const filtros = this.filtros();
+            this.borrador = { ...filtros };
+            this.desde = filtros.fechaInicio ? fromFechaIso(filtros.fechaInicio) : null;
+            this.hasta = filtros.fechaFin ? fromFechaIso(filtros.fechaFin) : null;
+        }
+        this.abierto.set(!this.abierto());
+    }
+
+    onPreset() {
+        this.desde = null;
+        this.hasta = null;
+    }
+
+    importeInvalido(): boolean {
+        const { importeMin, importeMax } = this.borrador;
+        return importeMin != null && importeMax != null && importeMin > importeMax;
+    }
+
+    buscar(campo: CampoCatalogoFiltro, event: AutoCompleteCompleteEvent) {
+        const query = event.query?.trim();
+        const catalogo = this.catalogos[campo];
+        const peticion = !query || query.length < 2 ? catalogo.getRecent(10) : catalogo.search(query, 10);
+        peticion.then((data) => this.sugerencias.update((s) => ({ ...s, [campo]: data }))).catch(() => this.sugerencias.update((s) => ({ ...s, [campo]: [] })));
+    }
+
+    aplicar() {
+        this.filtros.set({
+            ...this.borrador,
+            fechaInicio: this.borrador.preset || !this.desde ? null : toFechaIso(this.desde),
+            fechaFin: this.borrador.preset || !this.hasta ? null : toFechaIso(this.hasta)
+        });
+        this.abierto.set(false);
+    }
+
+    quitar(chip: ChipFiltro) {
+        this.filtros.set(quitarChip(this.filtros(), chip));
+    }
+
+    limpiar() {
+        this.filtros.set(filtrosVacios());
+    }
+}
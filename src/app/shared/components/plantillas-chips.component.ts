@@ -0,0 +1,64 @@
+import { Component, computed, inject, input, output, ChangeDetectionStrategy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ButtonModule } from 'primeng/button';
+import { ChipModule } from 'primeng/chip';
+import { TooltipModule } from 'primeng/tooltip';
+import { PlantillaStore } from '@/core/stores/plantilla.store';
+import { PlantillaMovimiento, TipoPlantilla } from '@/core/models/plantilla.model';
+import { ImportePipe } from '@/shared/pipes/importe.pipe';
+
+/**
+ * Plantillas de un tipo como chips de acción rápida
+ * Con importe, el clic crea el movimiento con fecha de hoy (`crear`); sin importe, o con el lápiz, lo abre en el formulario (`rellenar`)
+ * En el formulario (`soloRellenar`) el clic siempre rellena los campos
+ */
+@Component({
+    selector: 'app-plantillas-chips',
+    standalone: true,
+    imports: [CommonModule, ButtonModule, ChipModule, TooltipModule, ImportePipe],
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    template: `
+        @if (plantillas().length > 0) {
+            <div class="flex flex-wrap items-center gap-2">
+                <span class="text-sm text-muted-color"><i class="pi pi-bolt mr-1"></i>Plantillas</span>
+                @for (plantilla of plantillas(); track plantilla.id) {
+                    <p-chip [removable]="!soloRellenar()" (onRemove)="plantillaStore.deletePlantilla(plantilla)">
+                        <button type="button" class="flex items-center gap-2 p-0 border-0 bg-transparent cursor-pointer" style="color: inherit" [pTooltip]="ayuda(plantilla)" tooltipPosition="top" (click)="usar(plantilla)">
+                            <span class="font-medium">{{ plantilla.nombre }}</span>
+                            @if (plantilla.importe) {
+                                <span class="text-muted-color">{{ plantilla.importe | importe }}</span>
+                            }
+                        </button>
+                        @if (!soloRellenar() && plantilla.importe) {
+                            <p-button icon="pi pi-pencil" [text]="true" [rounded]="true" size="small" severity="secondary" pTooltip="Revisar antes de crear" (onClick)="rellenar.emit(plantilla)" />
+                        }
+                    </p-chip>
+                }
+            </div>
+        }
+    `
+})
+export class PlantillasChipsComponent {
+    plantillaStore = inject(PlantillaStore);
+
+    tipo = input.required<TipoPlantilla>();
+    soloRellenar = input(false);
+
+    crear = output<PlantillaMovimiento>();
+    rellenar = output<PlantillaMovimiento>();
+
+    plantillas = computed(() => this.plantillaStore.plantillasPorTipo()[this.tipo()]);
+
+    usar(plantilla: PlantillaMovimiento) {
+        if (plantilla.importe && !this.soloRellenar()) {
+            this.crear.emit(plantilla);
+        } else {
+            this.rellenar.emit(plantilla);
+        }
+    }
+
+    ayuda(plantilla: PlantillaMovimiento): string {
+        if (this.soloRellenar()) return 'Rellenar el formulario con esta plantilla';
+        return plantilla.importe ? 'Crear con fecha de hoy' : 'Abrir el formulario con estos datos';
+    }
+}
@@ -0,0 +1,23 @@
+import { Pipe, PipeTransform, inject } from '@angular/core';
+import { MonedaStore } from '@/core/stores/moneda.store';
+import { CodigoMoneda } from '@/core/models/moneda.model';
+import { formatearImporte } from '@/shared/utils/monedas.util';
+
+/**
+ * Importe con su moneda: `{{ gasto.importe | importe: gasto.moneda }}`
+ * Sin moneda se usa la moneda base del perfil (totales, presupuestos, metas...)
+ * Impuro para seguir el cambio de moneda base sin recargar la página
+ */
+@Pipe({
+    name: 'importe',
+    standalone: true,
+    pure: false
+})
+export class ImportePipe implements PipeTransform {
+    private monedaStore = inject(MonedaStore);
+
+    transform(valor: number | null | undefined, moneda?: CodigoMoneda | null, digitos = '1.2-2'): string {
+        if (valor === null || valor === undefined || Number.isNaN(valor)) return '';
+        return formatearImporte(valor, moneda || this.monedaStore.monedaBase(), digitos);
+    }
+}
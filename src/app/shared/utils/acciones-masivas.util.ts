@@ -0,0 +1,85 @@
+import { CambioMasivo, FalloMasivo, ProgresoMasivo, ResultadoMasivo } from '@/core/models/accion-masiva.model';
+import { fromFechaIso, toFechaIso } from './movimiento-filters.util';
+
+// Peticiones simultáneas de una acción masiva: sin endpoint por lotes no saturamos la API
+const CONCURRENCIA_MASIVA = 4;
+
+// Campos comunes de gastos e ingresos que se pueden cambiar en bloque
+interface MovimientoMasivo {
+    id: string;
+    fecha: string;
+    conceptoId: string;
+    conceptoNombre: string;
+    categoriaId: string;
+    categoriaNombre: string;
+    cuentaId: string;
+    cuentaNombre: string;
+    personaId: string;
+    personaNombre: string;
+}
+
+/**
+ * Ejecuta una tarea por id con concurrencia limitada
+ * Un fallo no detiene la cola: se anota con su mensaje y se sigue con el resto
+ */
+export async function ejecutarEnCola(ids: string[], tarea: (id: string) => Promise<unknown>, onProgreso?: (progreso: ProgresoMasivo) => void, concurrencia = CONCURRENCIA_MASIVA): Promise<ResultadoMasivo> {
+    const correctos: string[] = [];
+    const fallidos: FalloMasivo[] = [];
+    const pendientes = [...ids];
+
+    const trabajador = async () => {
+        for (let id = pendientes.shift(); id !== undefined; id = pendientes.shift()) {
+            try {
+                await tarea(id);
+                correctos.push(id);
+            } catch (error: any) {
+                fallidos.push({ id, error: error?.userMessage || error?.message || 'Error desconocido' });
+            }
+            onProgreso?.({ hechos: correctos.length + fallidos.length, total: ids.length });
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrencia, ids.length) }, trabajador));
+    return { correctos, fallidos };
+}
+
+/**
+ * Suma días a una fecha ISO conservando la parte horaria si la trae
+ */
+export function desplazarFecha(fecha: string, dias: number): string {
+    const dia = fromFechaIso(fecha.substring(0, 10));
+    dia.setDate(dia.getDate() + dias);
+    return toFechaIso(dia) + fecha.substring(10);
+}
+
+export function aplicarCambioMasivo<T extends MovimientoMasivo>(movimiento: T, cambio: CambioMasivo): T {
+    switch (cambio.tipo) {
+        case 'concepto':
+            return { ...movimiento, conceptoId: cambio.concepto.id, conceptoNombre: cambio.concepto.nombre, categoriaId: cambio.categoria.id, categoriaNombre: cambio.categoria.nombre };
+        case 'cuenta':
+            return { ...movimiento, cuentaId: cambio.cuenta.id, cuentaNombre: cambio.cuenta.nombre };
+        case 'persona':
+            return { ...movimiento, personaId: cambio.persona.id, personaNombre: cambio.persona.nombre };
+        case 'fecha':
+            return { ...movimiento, fecha: desplazarFecha(movimiento.fecha, cambio.dias) };
+    }
+}
+
+/**
+ * Rollback de una acción masiva: vuelve a poner la versión anterior de los ids indicados
+ * Las filas eliminadas reaparecen en su posición original y se respetan las filas añadidas mientras tanto
+ */
+export function restaurarFilas<T extends { id: string }>(actuales: T[], anteriores: T[], ids: Set<string>): T[] {
+    const idsAnteriores = new Set(anteriores.map((item) => item.id));
+    const porId = new Map(actuales.map((item) => [item.id, item]));
+    const nuevas = actuales.filter((item) => !idsAnteriores.has(item.id));
+
+    return [
+        ...nuevas,
+        ...anteriores.flatMap((item) => {
+            if (ids.has(item.id)) return [item];
+            const actual = porId.get(item.id);
+            return actual ? [actual] : [];
+        })
+    ];
+}
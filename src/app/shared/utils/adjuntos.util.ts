@@ -0,0 +1,63 @@
+export const TIPOS_ADJUNTO_ACEPTADOS = 'image/*,application/pdf';
+
+// Límite por fichero tras reducir las imágenes
+export const MAX_TAMANO_ADJUNTO = 10 * 1024 * 1024;
+
+// Lado mayor de las imágenes antes de subirlas
+const MAX_LADO_IMAGEN = 1600;
+const CALIDAD_JPEG = 0.8;
+
+export function esImagen(tipoContenido: string): boolean {
+    return tipoContenido.startsWith('image/');
+}
+
+export function esPdf(tipoContenido: string): boolean {
+    return tipoContenido === 'application/pdf';
+}
+
+/**
+ * Devuelve el motivo por el que no se acepta el fichero o null si es válido
+ */
+export function validarAdjunto(file: File): string | null {
+    if (!esImagen(file.type) && !esPdf(file.type)) return `${file.name}: solo se admiten imágenes y PDF`;
+    if (file.size > MAX_TAMANO_ADJUNTO) return `${file.name}: supera el máximo de ${formatearTamano(MAX_TAMANO_ADJUNTO)}`;
+    return null;
+}
+
+export function formatearTamano(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Reduce una imagen a MAX_LADO_IMAGEN px y la recomprime en JPEG
+ * PDFs, GIFs, SVGs e imágenes ya pequeñas se devuelven sin tocar; si el navegador falla también
+ */
+export async function reducirImagen(file: File): Promise<File> {
+    if (!esImagen(file.type) || file.type === 'image/gif' || file.type === 'image/svg+xml') return file;
+
+    try {
+        const bitmap = await createImageBitmap(file);
+        const escala = Math.min(1, MAX_LADO_IMAGEN / Math.max(bitmap.width, bitmap.height));
+
+        if (escala === 1 && file.size <= 1024 * 1024) {
+            bitmap.close();
+            return file;
+        }
+
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(bitmap.width * escala);
+        canvas.height = Math.round(bitmap.height * escala);
+        canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+        bitmap.close();
+
+        const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', CALIDAD_JPEG));
+        if (!blob || blob.size >= file.size) return file;
+
+        const nombre = file.name.replace(/\.[^.]+$/, '') + '.jpg';
+        return new File([blob], nombre, { type: 'image/jpeg', lastModified: file.lastModified });
+    } catch {
+        return file;
+    }
+}
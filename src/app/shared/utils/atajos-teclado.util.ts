@@ -0,0 +1,26 @@
+export type AtajoFormulario = 'guardar' | 'guardar-y-nuevo';
+
+/**
+ * El foco está en un campo donde las teclas sueltas se escriben (inputs, textareas, editores)
+ */
+export function escribiendoTexto(event: KeyboardEvent): boolean {
+    const elemento = event.target as HTMLElement | null;
+    if (!elemento) return false;
+    return elemento.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(elemento.tagName);
+}
+
+/**
+ * Hay un diálogo o panel modal abierto (su máscara está en el DOM)
+ */
+export function hayModalAbierto(): boolean {
+    return typeof document !== 'undefined' && !!document.querySelector('.p-overlay-mask');
+}
+
+/**
+ * Ctrl/Cmd+Enter guarda y Ctrl/Cmd+Shift+Enter guarda y empieza otro
+ * Llevan modificador, así que funcionan también con el foco en un campo
+ */
+export function atajoFormulario(event: KeyboardEvent): AtajoFormulario | null {
+    if (event.key !== 'Enter' || !(event.ctrlKey || event.metaKey)) return null;
+    return event.shiftKey ? 'guardar-y-nuevo' : 'guardar';
+}
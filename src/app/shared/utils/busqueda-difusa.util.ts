@@ -0,0 +1,36 @@
+import { normalizeText } from './text-similarity.util';
+
+/**
+ * Puntuación de una búsqueda difusa: las letras de la consulta deben aparecer en orden en el texto
+ * Puntúan más las letras seguidas y las que empiezan palabra; 0 si no coincide
+ */
+export function puntuacionDifusa(texto: string, consulta: string): number {
+    const t = normalizeText(texto);
+    const q = normalizeText(consulta).replace(/ /g, '');
+    if (!q) return 1;
+
+    let puntos = 0;
+    let anterior = -2;
+    let j = 0;
+    for (let i = 0; i < t.length && j < q.length; i++) {
+        if (t[i] !== q[j]) continue;
+
+        puntos += 1;
+        if (i === anterior + 1) puntos += 2;
+        if (i === 0 || t[i - 1] === ' ') puntos += 3;
+        anterior = i;
+        j++;
+    }
+    return j === q.length ? puntos : 0;
+}
+
+/**
+ * Elementos que coinciden con la consulta, de mejor a peor coincidencia
+ */
+export function filtrarDifuso<T>(items: T[], consulta: string, texto: (item: T) => string): T[] {
+    return items
+        .map((item) => ({ item, puntos: puntuacionDifusa(texto(item), consulta) }))
+        .filter((r) => r.puntos > 0)
+        .sort((a, b) => b.puntos - a.puntos)
+        .map((r) => r.item);
+}
@@ -0,0 +1,114 @@
+import { Gasto } from '@/core/models';
+import { CatalogRef } from '@/core/models/common.model';
+import { CuotaGasto, Liquidacion, RepartoGasto, SaldoPersona, TransferenciaSugerida } from '@/core/models/gasto-compartido.model';
+
+// Diferencias por debajo de medio céntimo se consideran saldadas
+const TOLERANCIA = 0.005;
+
+const redondear = (valor: number) => Math.round(valor * 100) / 100;
+
+/**
+ * Devuelve el mensaje de error del reparto o null si es válido
+ */
+export function validarRepartoCompartido(reparto: RepartoGasto, importe: number): string | null {
+    const { modo, participantes } = reparto;
+
+    if (participantes.length === 0) return 'Añade al menos una persona al reparto';
+    if (participantes.some((p) => !p.personaId)) return 'Todas las líneas del reparto necesitan una persona';
+    if (new Set(participantes.map((p) => p.personaId)).size !== participantes.length) return 'Una persona aparece más de una vez en el reparto';
+    if (participantes.some((p) => !p.valor || p.valor <= 0)) return 'Todas las partes deben ser mayores que 0';
+
+    const suma = participantes.reduce((total, p) => total + p.valor, 0);
+    if (modo === 'porcentaje' && Math.abs(suma - 100) > TOLERANCIA) return 'Los porcentajes deben sumar 100%';
+    if (modo === 'fijo' && Math.abs(suma - importe) > TOLERANCIA) return 'Las partes deben sumar el importe del gasto';
+
+    return null;
+}
+
+/**
+ * Parte del gasto que corresponde a cada persona
+ * En reparto por porcentaje el redondeo se ajusta en la última persona para cuadrar el total
+ */
+export function cuotasGasto(gasto: Pick<Gasto, 'importe' | 'compartido'>): CuotaGasto[] {
+    const reparto = gasto.compartido;
+    if (!reparto || reparto.participantes.length === 0) return [];
+
+    if (reparto.modo === 'fijo') {
+        return reparto.participantes.map((p) => ({ persona: { id: p.personaId, nombre: p.personaNombre }, importe: redondear(p.valor) }));
+    }
+
+    let asignado = 0;
+    return reparto.participantes.map((p, index) => {
+        const esUltima = index === reparto.participantes.length - 1;
+        const importe = esUltima ? redondear(gasto.importe - asignado) : redondear((gasto.importe * p.valor) / 100);
+        asignado += importe;
+        return { persona: { id: p.personaId, nombre: p.personaNombre }, importe };
+    });
+}
+
+/**
+ * Saldo de cada persona: lo que ha pagado por los demás menos lo que le corresponde
+ * Las liquidaciones cuentan como un pago del deudor al acreedor
+ * `convertir` pasa cada importe a una moneda común; lo que no se puede convertir (null) no entra en los saldos
+ */
+export function calcularSaldos(gastos: Gasto[], liquidaciones: Liquidacion[], convertir: (importe: number, moneda?: string) => number | null = (importe) => importe): SaldoPersona[] {
+    const saldos = new Map<string, SaldoPersona>();
+
+    const saldoDe = (persona: CatalogRef) => {
+        let saldo = saldos.get(persona.id);
+        if (!saldo) {
+            saldo = { persona, pagado: 0, consumido: 0, saldo: 0 };
+            saldos.set(persona.id, saldo);
+        }
+        return saldo;
+    };
+
+    for (const gasto of gastos) {
+        const cuotas = cuotasGasto(gasto);
+        const pagado = convertir(gasto.importe, gasto.moneda);
+        if (cuotas.length === 0 || !gasto.personaId || pagado === null) continue;
+
+        saldoDe({ id: gasto.personaId, nombre: gasto.personaNombre }).pagado += pagado;
+        cuotas.forEach((cuota) => (saldoDe(cuota.persona).consumido += convertir(cuota.importe, gasto.moneda) ?? 0));
+    }
+
+    for (const liquidacion of liquidaciones) {
+        const importe = convertir(liquidacion.importe, liquidacion.moneda);
+        if (importe === null) continue;
+
+        saldoDe({ id: liquidacion.deudorId, nombre: liquidacion.deudorNombre }).pagado += importe;
+        saldoDe({ id: liquidacion.acreedorId, nombre: liquidacion.acreedorNombre }).consumido += importe;
+    }
+
+    return [...saldos.values()]
+        .map((s) => ({ ...s, pagado: redondear(s.pagado), consumido: redondear(s.consumido), saldo: redondear(s.pagado - s.consumido) }))
+        .sort((a, b) => b.saldo - a.saldo);
+}
+
+/**
+ * Plan para dejar todos los saldos a cero con pocas transferencias
+ * Empareja siempre al mayor deudor con el mayor acreedor (como mucho n - 1 pagos)
+ */
+export function planLiquidacion(saldos: SaldoPersona[]): TransferenciaSugerida[] {
+    const acreedores = saldos.filter((s) => s.saldo > TOLERANCIA).map((s) => ({ persona: s.persona, pendiente: s.saldo }));
+    const deudores = saldos.filter((s) => s.saldo < -TOLERANCIA).map((s) => ({ persona: s.persona, pendiente: -s.saldo }));
+    const plan: TransferenciaSugerida[] = [];
+
+    while (acreedores.length > 0 && deudores.length > 0) {
+        acreedores.sort((a, b) => b.pendiente - a.pendiente);
+        deudores.sort((a, b) => b.pendiente - a.pendiente);
+
+        const acreedor = acreedores[0];
+        const deudor = deudores[0];
+        const importe = redondear(Math.min(acreedor.pendiente, deudor.pendiente));
+
+        plan.push({ deudor: deudor.persona, acreedor: acreedor.persona, importe });
+        acreedor.pendiente -= importe;
+        deudor.pendiente -= importe;
+
+        if (acreedor.pendiente <= TOLERANCIA) acreedores.shift();
+        if (deudor.pendiente <= TOLERANCIA) deudores.shift();
+    }
+
+    return plan;
+}
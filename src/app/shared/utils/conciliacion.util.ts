@@ -0,0 +1,34 @@
+import { MovimientoCuenta } from '@/core/models/cuenta.model';
+import { ConciliacionCreate } from '@/core/models/conciliacion.model';
+import { sumarMovimientos } from './movimientos-cuenta.util';
+
+export interface ResumenConciliacion {
+    // Saldo de partida más los movimientos marcados
+    saldoConciliado: number;
+    // Lo que falta para cuadrar con el banco: positivo si el banco tiene más dinero
+    diferencia: number;
+}
+
+const redondear = (importe: number) => Math.round(importe * 100) / 100;
+
+// Los ids solo son únicos dentro de cada tipo de movimiento
+export function claveMovimiento(movimiento: Pick<MovimientoCuenta, 'tipo' | 'id'>): string {
+    return `${movimiento.tipo}:${movimiento.id}`;
+}
+
+export function resumenConciliacion(saldoInicial: number, marcados: MovimientoCuenta[], saldoBanco: number): ResumenConciliacion {
+    const saldoConciliado = redondear(saldoInicial + sumarMovimientos(marcados));
+    return { saldoConciliado, diferencia: redondear(saldoBanco - saldoConciliado) };
+}
+
+/**
+ * Separa los movimientos marcados por tipo para enviarlos a la API
+ */
+export function idsConciliacion(marcados: MovimientoCuenta[]): Pick<ConciliacionCreate, 'gastoIds' | 'ingresoIds' | 'traspasoIds'> {
+    const ids = (...tipos: MovimientoCuenta['tipo'][]) => marcados.filter((m) => tipos.includes(m.tipo)).map((m) => m.id);
+    return {
+        gastoIds: ids('gasto'),
+        ingresoIds: ids('ingreso'),
+        traspasoIds: ids('traspaso-entrada', 'traspaso-salida')
+    };
+}
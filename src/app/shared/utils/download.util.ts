@@ -0,0 +1,14 @@
+/**
+ * Descarga un Blob en el navegador con el nombre de fichero indicado
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', fileName);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+}
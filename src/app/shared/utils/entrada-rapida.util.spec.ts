@@ -0,0 +1,90 @@
+import { CatalogRef } from '@/core/models/common.model';
+import { CoincidenciaCatalogo, asignarCoincidencias, parsearFecha, parsearImporte } from './entrada-rapida.util';
+
+describe('entrada-rapida.util', () => {
+    describe('parsearImporte', () => {
+        it('acepta coma o punto decimal y el símbolo del euro', () => {
+            expect(parsearImporte('34,50')).toBe(34.5);
+            expect(parsearImporte('34.50')).toBe(34.5);
+            expect(parsearImporte('12€')).toBe(12);
+            expect(parsearImporte('7')).toBe(7);
+        });
+
+        it('lee los puntos como separador de miles', () => {
+            expect(parsearImporte('1.234')).toBe(1234);
+            expect(parsearImporte('1.234,5')).toBe(1234.5);
+        });
+
+        it('descarta lo que no es un importe positivo', () => {
+            expect(parsearImporte('0')).toBeNull();
+            expect(parsearImporte('34,505')).toBeNull();
+            expect(parsearImporte('15/3')).toBeNull();
+            expect(parsearImporte('mercadona')).toBeNull();
+        });
+    });
+
+    describe('parsearFecha', () => {
+        // Miércoles
+        const hoy = new Date(2025, 2, 12);
+
+        it('entiende hoy, ayer y anteayer', () => {
+            expect(parsearFecha('hoy', hoy)).toBe('2025-03-12');
+            expect(parsearFecha('Ayer', hoy)).toBe('2025-03-11');
+            expect(parsearFecha('anteayer', hoy)).toBe('2025-03-10');
+        });
+
+        it('un día de la semana es el último anterior a hoy', () => {
+            expect(parsearFecha('lunes', hoy)).toBe('2025-03-10');
+            expect(parsearFecha('miércoles', hoy)).toBe('2025-03-05');
+        });
+
+        it('día/mes sin año es del año en curso salvo que quede en el futuro', () => {
+            expect(parsearFecha('1/3', hoy)).toBe('2025-03-01');
+            expect(parsearFecha('15/3', hoy)).toBe('2024-03-15');
+        });
+
+        it('respeta el año indicado con cuatro o dos cifras', () => {
+            expect(parsearFecha('15-3-2025', hoy)).toBe('2025-03-15');
+            expect(parsearFecha('5/1/24', hoy)).toBe('2024-01-05');
+        });
+
+        it('descarta fechas imposibles y palabras sueltas', () => {
+            expect(parsearFecha('31/2', hoy)).toBeNull();
+            expect(parsearFecha('mercadona', hoy)).toBeNull();
+        });
+    });
+
+    describe('asignarCoincidencias', () => {
+        const item = (id: string): CatalogRef => ({ id, nombre: id });
+        const coincidencia = (campo: CoincidenciaCatalogo['campo'], termino: string, id: string, puntos: number): CoincidenciaCatalogo => ({ campo, termino, item: item(id), puntos });
+
+        it('una misma palabra puede ser proveedor y concepto', () => {
+            const asignadas = asignarCoincidencias([coincidencia('proveedor', 'mercadona', 'prov-mercadona', 2), coincidencia('concepto', 'mercadona', 'conc-mercadona', 2)]);
+
+            expect(asignadas.proveedor?.id).toBe('prov-mercadona');
+            expect(asignadas.concepto?.id).toBe('conc-mercadona');
+        });
+
+        it('una palabra usada como forma de pago no se reutiliza en otro catálogo', () => {
+            const asignadas = asignarCoincidencias([coincidencia('formaPago', 'tarjeta', 'fp-tarjeta', 2), coincidencia('cuenta', 'tarjeta', 'cu-tarjeta', 1), coincidencia('concepto', 'tarjeta', 'conc-tarjeta', 1)]);
+
+            expect(asignadas.formaPago?.id).toBe('fp-tarjeta');
+            expect(asignadas.cuenta).toBeUndefined();
+            expect(asignadas.concepto).toBeUndefined();
+        });
+
+        it('cada catálogo se queda con su mejor coincidencia por encima del umbral', () => {
+            const asignadas = asignarCoincidencias([coincidencia('proveedor', 'merca', 'prov-a', 0.6), coincidencia('proveedor', 'mercadona', 'prov-b', 2), coincidencia('cuenta', 'casa', 'cu-casa', 0.2)]);
+
+            expect(asignadas.proveedor?.id).toBe('prov-b');
+            expect(asignadas.cuenta).toBeUndefined();
+        });
+
+        it('en caso de empate gana el catálogo de más prioridad', () => {
+            const asignadas = asignarCoincidencias([coincidencia('proveedor', 'bbva', 'prov-bbva', 2), coincidencia('cuenta', 'bbva', 'cu-bbva', 2)]);
+
+            expect(asignadas.cuenta?.id).toBe('cu-bbva');
+            expect(asignadas.proveedor).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,156 @@
+import { CatalogRef } from '@/core/models/common.model';
+import { toFechaIso } from './movimiento-filters.util';
+import { normalizeText, textSimilarity } from './text-similarity.util';
+
+// Catálogos en los que se buscan las palabras de la entrada rápida, por prioridad en caso de empate
+export const CAMPOS_ENTRADA_RAPIDA = ['formaPago', 'cuenta', 'proveedor', 'concepto'] as const;
+
+export type CampoEntradaRapida = (typeof CAMPOS_ENTRADA_RAPIDA)[number];
+
+// Una misma palabra puede ser proveedor y concepto a la vez ("mercadona")
+const CAMPOS_COMPARTIDOS: CampoEntradaRapida[] = ['proveedor', 'concepto'];
+
+/**
+ * Resultado de analizar "34,50 mercadona tarjeta ayer"
+ */
+export interface EntradaRapida {
+    importe: number | null;
+    // yyyy-MM-dd
+    fecha: string | null;
+    // Palabras que quedan para buscar en los catálogos (normalizadas)
+    terminos: string[];
+}
+
+export interface CoincidenciaCatalogo<T extends CatalogRef = CatalogRef> {
+    campo: CampoEntradaRapida;
+    termino: string;
+    item: T;
+    puntos: number;
+}
+
+const DIAS_SEMANA = ['domingo', 'lunes', 'martes', 'miercoles', 'jueves', 'viernes', 'sabado'];
+const DIAS_RELATIVOS = new Map([
+    ['hoy', 0],
+    ['ayer', 1],
+    ['anteayer', 2]
+]);
+const PALABRAS_VACIAS = new Set(['el', 'la', 'los', 'las', 'de', 'del', 'en', 'con', 'por', 'para', 'euro', 'euros', 'eur']);
+const LONGITUD_MINIMA = 3;
+// Por debajo de esta similitud una palabra no se asigna a un catálogo
+const UMBRAL_COINCIDENCIA = 0.5;
+
+function restarDias(fecha: Date, dias: number): Date {
+    return new Date(fecha.getFullYear(), fecha.getMonth(), fecha.getDate() - dias);
+}
+
+/**
+ * Importe con coma decimal ("34,50", "1.234,5") o punto decimal ("34.50"), con o sin "€"
+ * "1.234" se lee como miles
+ */
+export function parsearImporte(token: string): number | null {
+    const limpio = token.replace(/€/g, '');
+    let importe: number | null = null;
+
+    if (/^\d{1,3}(\.\d{3})+(,\d{1,2})?$/.test(limpio)) {
+        importe = Number(limpio.replace(/\./g, '').replace(',', '.'));
+    } else if (/^\d+(,\d{1,2})?$/.test(limpio)) {
+        importe = Number(limpio.replace(',', '.'));
+    } else if (/^\d+\.\d{1,2}$/.test(limpio)) {
+        importe = Number(limpio);
+    }
+
+    return importe !== null && importe > 0 ? importe : null;
+}
+
+/**
+ * Fecha relativa a `hoy`: "hoy", "ayer", "anteayer", un día de la semana ("lunes" = el último lunes antes de hoy)
+ * o día/mes con año opcional ("15/3", "15-3-2025"); sin año, una fecha futura se entiende del año pasado
+ */
+export function parsearFecha(token: string, hoy: Date): string | null {
+    const palabra = normalizeText(token);
+
+    const relativo = DIAS_RELATIVOS.get(palabra);
+    if (relativo !== undefined) return toFechaIso(restarDias(hoy, relativo));
+
+    const diaSemana = DIAS_SEMANA.indexOf(palabra);
+    if (diaSemana >= 0) {
+        return toFechaIso(restarDias(hoy, (hoy.getDay() - diaSemana + 7) % 7 || 7));
+    }
+
+    const partes = token.match(/^(\d{1,2})[/-](\d{1,2})(?:[/-](\d{4}|\d{2}))?$/);
+    if (!partes) return null;
+
+    const dia = Number(partes[1]);
+    const mes = Number(partes[2]) - 1;
+    const conAnio = partes[3] !== undefined;
+    const anio = conAnio ? Number(partes[3].length === 2 ? `20${partes[3]}` : partes[3]) : hoy.getFullYear();
+
+    let fecha = new Date(anio, mes, dia);
+    // Descarta fechas imposibles como 31/2
+    if (fecha.getMonth() !== mes || fecha.getDate() !== dia) return null;
+    if (!conAnio && fecha > hoy) fecha = new Date(anio - 1, mes, dia);
+
+    return toFechaIso(fecha);
+}
+
+/**
+ * Separa importe y fecha (el primero de cada uno) del resto de palabras
+ */
+export function analizarEntradaRapida(texto: string, hoy: Date = new Date()): EntradaRapida {
+    const entrada: EntradaRapida = { importe: null, fecha: null, terminos: [] };
+
+    for (const token of texto.trim().split(/\s+/).filter(Boolean)) {
+        if (entrada.importe === null) {
+            const importe = parsearImporte(token);
+            if (importe !== null) {
+                entrada.importe = importe;
+                continue;
+            }
+        }
+
+        if (entrada.fecha === null) {
+            const fecha = parsearFecha(token, hoy);
+            if (fecha) {
+                entrada.fecha = fecha;
+                continue;
+            }
+        }
+
+        // Los números sobrantes (una fecha imposible, un segundo importe) no se buscan en los catálogos
+        const palabra = normalizeText(token);
+        if (palabra.length >= LONGITUD_MINIMA && !PALABRAS_VACIAS.has(palabra) && !/^[\d ]+$/.test(palabra)) {
+            entrada.terminos.push(palabra);
+        }
+    }
+
+    return entrada;
+}
+
+/**
+ * Parecido entre una palabra y un nombre del catálogo; el nombre exacto puntúa por encima de "lo contiene"
+ */
+export function puntuarCoincidencia(termino: string, nombre: string): number {
+    return normalizeText(nombre) === normalizeText(termino) ? 2 : textSimilarity(termino, nombre);
+}
+
+/**
+ * Asigna a cada catálogo su mejor coincidencia; cada palabra se usa para un solo catálogo,
+ * salvo proveedor y concepto, que pueden salir de la misma palabra
+ */
+export function asignarCoincidencias<T extends CatalogRef>(coincidencias: CoincidenciaCatalogo<T>[]): Partial<Record<CampoEntradaRapida, T>> {
+    const asignadas: Partial<Record<CampoEntradaRapida, T>> = {};
+    const usadas = new Map<string, CampoEntradaRapida[]>();
+    const compatible = (campos: CampoEntradaRapida[], campo: CampoEntradaRapida) => CAMPOS_COMPARTIDOS.includes(campo) && campos.every((c) => CAMPOS_COMPARTIDOS.includes(c));
+
+    coincidencias
+        .filter((c) => c.puntos >= UMBRAL_COINCIDENCIA)
+        .sort((a, b) => b.puntos - a.puntos || CAMPOS_ENTRADA_RAPIDA.indexOf(a.campo) - CAMPOS_ENTRADA_RAPIDA.indexOf(b.campo))
+        .forEach((c) => {
+            const campos = usadas.get(c.termino) ?? [];
+            if (asignadas[c.campo] || (campos.length > 0 && !compatible(campos, c.campo))) return;
+            asignadas[c.campo] = c.item;
+            usadas.set(c.termino, [...campos, c.campo]);
+        });
+
+    return asignadas;
+}
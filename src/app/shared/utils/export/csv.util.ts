@@ -0,0 +1,42 @@
+import { ExportColumn } from '@/core/models/export.model';
+
+/**
+ * Escapa un campo según RFC 4180:
+ * se entrecomilla si contiene delimitador, comillas o saltos de línea y las comillas se duplican
+ */
+export function escapeCsvField(value: string, delimiter: string): string {
+    if (value.includes('"') || value.includes(delimiter) || value.includes('\n') || value.includes('\r')) {
+        return `"${value.replace(/"/g, '""')}"`;
+    }
+
+    return value;
+}
+
+/**
+ * Genera el contenido CSV (con BOM UTF-8 y CRLF) para las filas indicadas
+ * Con delimitador ';' los importes usan coma decimal y las fechas dd/MM/yyyy (Excel en español)
+ */
+export function buildCsv<T>(rows: T[], columns: ExportColumn<T>[], delimiter: ',' | ';' = ','): string {
+    const spanishExcel = delimiter === ';';
+
+    const formatCell = (column: ExportColumn<T>, row: T): string => {
+        const raw = column.value(row);
+        if (raw === null || raw === undefined) return '';
+
+        if (column.type === 'number' && typeof raw === 'number') {
+            const fixed = raw.toFixed(2);
+            return spanishExcel ? fixed.replace('.', ',') : fixed;
+        }
+
+        if (column.type === 'date' && spanishExcel) {
+            const [anio, mes, dia] = String(raw).split('T')[0].split('-');
+            return dia && mes && anio ? `${dia}/${mes}/${anio}` : String(raw);
+        }
+
+        return String(raw);
+    };
+
+    const lines = [columns.map((c) => escapeCsvField(c.header, delimiter)).join(delimiter), ...rows.map((row) => columns.map((c) => escapeCsvField(formatCell(c, row), delimiter)).join(delimiter))];
+
+    return '\uFEFF' + lines.join('\r\n') + '\r\n';
+}
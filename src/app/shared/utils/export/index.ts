@@ -0,0 +1,4 @@
+export * from './csv.util';
+export * from './xlsx.util';
+export * from './ofx.util';
+export * from './zip.util';
@@ -0,0 +1,98 @@
+import { OfxTransaction } from '@/core/models/export.model';
+import { MONEDA_POR_DEFECTO } from '@/core/models/moneda.model';
+
+function ofxDate(fecha: string): string {
+    return fecha.split('T')[0].replace(/-/g, '');
+}
+
+function sanitize(value: string, maxLength: number): string {
+    return value
+        .replace(/[<>&]/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .slice(0, maxLength);
+}
+
+function buildStatement(cuentaId: string, cuentaNombre: string, moneda: string, transacciones: OfxTransaction[], index: number): string {
+    const fechas = transacciones.map((t) => ofxDate(t.fecha)).sort();
+    const saldo = transacciones.reduce((sum, t) => sum + t.importe, 0);
+
+    const trns = transacciones
+        .map((t) =>
+            [
+                '<STMTTRN>',
+                `<TRNTYPE>${t.importe < 0 ? 'DEBIT' : 'CREDIT'}`,
+                `<DTPOSTED>${ofxDate(t.fecha)}`,
+                `<TRNAMT>${t.importe.toFixed(2)}`,
+                `<FITID>${sanitize(t.id, 255)}`,
+                `<NAME>${sanitize(t.nombre || '-', 32)}`,
+                t.memo ? `<MEMO>${sanitize(t.memo, 255)}` : '',
+                '</STMTTRN>'
+            ]
+                .filter(Boolean)
+                .join('\r\n')
+        )
+        .join('\r\n');
+
+    return [
+        '<STMTTRNRS>',
+        `<TRNUID>${index + 1}`,
+        '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+        '<STMTRS>',
+        `<CURDEF>${moneda}`,
+        '<BANKACCTFROM>',
+        '<BANKID>AHORROLAND',
+        `<ACCTID>${sanitize(cuentaNombre || cuentaId, 22)}`,
+        '<ACCTTYPE>CHECKING',
+        '</BANKACCTFROM>',
+        '<BANKTRANLIST>',
+        `<DTSTART>${fechas[0]}`,
+        `<DTEND>${fechas[fechas.length - 1]}`,
+        trns,
+        '</BANKTRANLIST>',
+        `<LEDGERBAL><BALAMT>${saldo.toFixed(2)}<DTASOF>${fechas[fechas.length - 1]}</LEDGERBAL>`,
+        '</STMTRS>',
+        '</STMTTRNRS>'
+    ].join('\r\n');
+}
+
+/**
+ * Genera un fichero OFX 1.0.2 (SGML) con un extracto por cuenta
+ * Cada extracto declara una sola moneda (CURDEF): si una cuenta trae movimientos en varias, se separan en un extracto por moneda
+ */
+export function buildOfx(transacciones: OfxTransaction[]): string {
+    const porCuenta = new Map<string, OfxTransaction[]>();
+    transacciones.forEach((t) => {
+        const clave = `${t.cuentaId}|${t.moneda || MONEDA_POR_DEFECTO}`;
+        const lista = porCuenta.get(clave) ?? [];
+        lista.push(t);
+        porCuenta.set(clave, lista);
+    });
+
+    const now = new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14);
+    const statements = [...porCuenta.values()].map((lista, i) => buildStatement(lista[0].cuentaId, lista[0].cuentaNombre, lista[0].moneda || MONEDA_POR_DEFECTO, lista, i)).join('\r\n');
+
+    return [
+        'OFXHEADER:100',
+        'DATA:OFXSGML',
+        'VERSION:102',
+        'SECURITY:NONE',
+        'ENCODING:UTF-8',
+        'CHARSET:NONE',
+        'COMPRESSION:NONE',
+        'OLDFILEUID:NONE',
+        'NEWFILEUID:NONE',
+        '',
+        '<OFX>',
+        '<SIGNONMSGSRSV1><SONRS>',
+        '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+        `<DTSERVER>${now}`,
+        '<LANGUAGE>SPA',
+        '</SONRS></SIGNONMSGSRSV1>',
+        '<BANKMSGSRSV1>',
+        statements,
+        '</BANKMSGSRSV1>',
+        '</OFX>',
+        ''
+    ].join('\r\n');
+}
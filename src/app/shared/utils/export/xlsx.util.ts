@@ -0,0 +1,92 @@
+import { ExportColumn } from '@/core/models/export.model';
+import { buildZip } from './zip.util';
+
+// Índices de estilo definidos en STYLES_XML (cellXfs)
+const STYLE_HEADER = 1;
+const STYLE_DATE = 2;
+const STYLE_NUMBER = 3;
+
+const CONTENT_TYPES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/></Types>`;
+
+const ROOT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`;
+
+const WORKBOOK_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`;
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="4"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/><xf numFmtId="14" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/><xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs></styleSheet>`;
+
+function escapeXml(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function columnLetter(index: number): string {
+    let letter = '';
+    let n = index + 1;
+    while (n > 0) {
+        const rem = (n - 1) % 26;
+        letter = String.fromCharCode(65 + rem) + letter;
+        n = Math.floor((n - 1) / 26);
+    }
+
+    return letter;
+}
+
+/**
+ * Convierte 'yyyy-MM-dd' al número de serie de Excel (días desde 1899-12-30)
+ */
+function toExcelDate(value: string): number | null {
+    const [anio, mes, dia] = value.split('T')[0].split('-').map(Number);
+    if (!anio || !mes || !dia) return null;
+
+    return Math.round((Date.UTC(anio, mes - 1, dia) - Date.UTC(1899, 11, 30)) / 86400000);
+}
+
+function buildCell<T>(column: ExportColumn<T>, row: T, ref: string): string {
+    const raw = column.value(row);
+    if (raw === null || raw === undefined || raw === '') return '';
+
+    if (column.type === 'number' && typeof raw === 'number') {
+        return `<c r="${ref}" s="${STYLE_NUMBER}"><v>${raw}</v></c>`;
+    }
+
+    if (column.type === 'date') {
+        const serial = toExcelDate(String(raw));
+        if (serial !== null) {
+            return `<c r="${ref}" s="${STYLE_DATE}"><v>${serial}</v></c>`;
+        }
+    }
+
+    return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(raw))}</t></is></c>`;
+}
+
+/**
+ * Genera un libro XLSX mínimo (una hoja) con cabecera en negrita, fechas y números con formato
+ */
+export function buildXlsx<T>(rows: T[], columns: ExportColumn<T>[], sheetName: string = 'Datos'): Uint8Array<ArrayBuffer> {
+    const header = columns.map((c, i) => `<c r="${columnLetter(i)}1" t="inlineStr" s="${STYLE_HEADER}"><is><t>${escapeXml(c.header)}</t></is></c>`).join('');
+
+    const body = rows
+        .map((row, r) => {
+            const cells = columns.map((c, i) => buildCell(c, row, `${columnLetter(i)}${r + 2}`)).join('');
+            return `<row r="${r + 2}">${cells}</row>`;
+        })
+        .join('');
+
+    const sheetXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData><row r="1">${header}</row>${body}</sheetData></worksheet>`;
+
+    const workbookXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets></workbook>`;
+
+    return buildZip([
+        { path: '[Content_Types].xml', content: CONTENT_TYPES_XML },
+        { path: '_rels/.rels', content: ROOT_RELS_XML },
+        { path: 'xl/workbook.xml', content: workbookXml },
+        { path: 'xl/_rels/workbook.xml.rels', content: WORKBOOK_RELS_XML },
+        { path: 'xl/styles.xml', content: STYLES_XML },
+        { path: 'xl/worksheets/sheet1.xml', content: sheetXml }
+    ]);
+}
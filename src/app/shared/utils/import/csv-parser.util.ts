@@ -0,0 +1,140 @@
+import { CsvParseOptions, MovimientoBancario } from '@/core/models/importacion.model';
+
+/**
+ * Detecta el delimitador más probable (';', ',' o tabulador) a partir de la primera línea
+ */
+export function detectCsvDelimiter(text: string): string {
+    const firstLine = text.split(/\r?\n/).find((l) => l.trim().length > 0) ?? '';
+    const candidates = [';', ',', '\t'];
+
+    return candidates.reduce((best, c) => (firstLine.split(c).length > firstLine.split(best).length ? c : best), ';');
+}
+
+/**
+ * Parser CSV compatible con RFC 4180 (comillas dobles, saltos de línea dentro de campos)
+ */
+export function parseCsv(text: string, delimiter: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    const input = text.replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+            continue;
+        }
+
+        if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (field.length > 0 || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    return rows.filter((r) => r.some((c) => c.trim().length > 0));
+}
+
+/**
+ * Convierte importes en formato español ("1.234,56", "-12,5 €") o anglosajón ("1,234.56")
+ */
+export function parseImporte(value: string | undefined): number | null {
+    if (!value) return null;
+
+    let clean = value.replace(/[€$£\s]/g, '');
+    if (!clean) return null;
+
+    const lastComma = clean.lastIndexOf(',');
+    const lastDot = clean.lastIndexOf('.');
+
+    if (lastComma > lastDot) {
+        clean = clean.replace(/\./g, '').replace(',', '.');
+    } else {
+        clean = clean.replace(/,/g, '');
+    }
+
+    const result = Number(clean);
+
+    return Number.isFinite(result) ? result : null;
+}
+
+/**
+ * Convierte fechas dd/mm/yyyy, dd-mm-yy o yyyy-mm-dd a 'yyyy-MM-dd'
+ */
+export function parseFecha(value: string | undefined): string | null {
+    if (!value) return null;
+    const trimmed = value.trim();
+
+    const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+    if (iso) {
+        return toIsoDate(+iso[1], +iso[2], +iso[3]);
+    }
+
+    const es = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})$/);
+    if (es) {
+        const anio = es[3].length === 2 ? 2000 + +es[3] : +es[3];
+        return toIsoDate(anio, +es[2], +es[1]);
+    }
+
+    return null;
+}
+
+export function toIsoDate(anio: number, mes: number, dia: number): string | null {
+    const date = new Date(Date.UTC(anio, mes - 1, dia));
+    if (date.getUTCFullYear() !== anio || date.getUTCMonth() !== mes - 1 || date.getUTCDate() !== dia) {
+        return null;
+    }
+
+    return `${anio}-${String(mes).padStart(2, '0')}-${String(dia).padStart(2, '0')}`;
+}
+
+/**
+ * Aplica el mapeo de columnas a las filas del CSV
+ * Las filas que no se pueden interpretar se devuelven con fecha vacía o importe NaN para que la vista previa las marque
+ */
+export function mapCsvRows(rows: string[][], options: CsvParseOptions): MovimientoBancario[] {
+    const { mapping, hasHeader } = options;
+    const data = hasHeader ? rows.slice(1) : rows;
+    const cell = (row: string[], index: number | null) => (index === null ? undefined : row[index]?.trim());
+
+    return data.map((row) => {
+        let importe: number | null;
+        if (mapping.importe !== null) {
+            importe = parseImporte(cell(row, mapping.importe));
+        } else {
+            const cargo = parseImporte(cell(row, mapping.cargo)) ?? 0;
+            const abono = parseImporte(cell(row, mapping.abono)) ?? 0;
+            importe = abono - Math.abs(cargo);
+        }
+
+        return {
+            fecha: parseFecha(cell(row, mapping.fecha)) ?? '',
+            importe: importe ?? NaN,
+            descripcion: cell(row, mapping.descripcion) ?? ''
+        };
+    });
+}
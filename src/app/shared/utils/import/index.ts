@@ -0,0 +1,3 @@
+export * from './csv-parser.util';
+export * from './ofx-parser.util';
+export * from './norma43-parser.util';
@@ -0,0 +1,61 @@
+import { MovimientoBancario } from '@/core/models/importacion.model';
+import { toIsoDate } from './csv-parser.util';
+
+// Posiciones (base 0) de los registros de 80 caracteres del cuaderno AEB 43
+const REG_CABECERA_CUENTA = '11';
+const REG_MOVIMIENTO = '22';
+const REG_CONCEPTO_COMPLEMENTARIO = '23';
+
+function n43Fecha(aammdd: string): string {
+    const anio = 2000 + Number(aammdd.slice(0, 2));
+
+    return toIsoDate(anio, Number(aammdd.slice(2, 4)), Number(aammdd.slice(4, 6))) ?? '';
+}
+
+/**
+ * Comprueba si el contenido parece un fichero Norma 43 (primer registro de cabecera de cuenta '11')
+ */
+export function isNorma43(text: string): boolean {
+    const firstLine = text.split(/\r?\n/).find((l) => l.trim().length > 0) ?? '';
+
+    // Entidad, oficina, cuenta y fechas de inicio y fin son numéricos
+    return new RegExp(`^${REG_CABECERA_CUENTA}\\d{30}`).test(firstLine);
+}
+
+/**
+ * Parser del formato AEB Norma 43 (extractos de cuenta de la banca española)
+ * Registro 22: fecha operación (11-16), clave debe/haber (28: 1 = cargo, 2 = abono), importe (29-42, 2 decimales)
+ * Registro 23: conceptos complementarios (5-42 y 43-80) que se concatenan a la descripción
+ */
+export function parseNorma43(text: string): MovimientoBancario[] {
+    const movimientos: MovimientoBancario[] = [];
+    const lines = text.split(/\r?\n/).filter((l) => l.trim().length > 0);
+
+    for (const rawLine of lines) {
+        const line = rawLine.padEnd(80, ' ');
+        const tipo = line.slice(0, 2);
+
+        if (tipo === REG_MOVIMIENTO) {
+            const signo = line.charAt(27) === '1' ? -1 : 1;
+            const importe = (Number(line.slice(28, 42)) / 100) * signo;
+            const referencia1 = line.slice(52, 64).trim();
+            const referencia2 = line.slice(64, 80).trim();
+
+            movimientos.push({
+                fecha: n43Fecha(line.slice(10, 16)),
+                importe: Number.isFinite(importe) ? importe : NaN,
+                descripcion: referencia2 || referencia1,
+                referencia: [line.slice(42, 52).trim(), referencia1].filter((v) => v && !/^0+$/.test(v)).join('/') || undefined
+            });
+        } else if (tipo === REG_CONCEPTO_COMPLEMENTARIO && movimientos.length > 0) {
+            const ultimo = movimientos[movimientos.length - 1];
+            const conceptos = [line.slice(4, 42).trim(), line.slice(42, 80).trim()].filter(Boolean).join(' ');
+            const codigo = line.slice(2, 4);
+
+            // El primer concepto complementario sustituye a la referencia como descripción principal
+            ultimo.descripcion = codigo === '01' ? conceptos : `${ultimo.descripcion} ${conceptos}`.trim();
+        }
+    }
+
+    return movimientos;
+}
@@ -0,0 +1,34 @@
+import { MovimientoBancario } from '@/core/models/importacion.model';
+import { parseImporte, toIsoDate } from './csv-parser.util';
+
+function readTag(block: string, tag: string): string | undefined {
+    // Válido tanto para OFX 1.x (SGML, sin cierre) como 2.x (XML)
+    const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+
+    return match ? match[1].trim() : undefined;
+}
+
+function decodeEntities(value: string): string {
+    return value.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+}
+
+/**
+ * Extrae los movimientos (STMTTRN) de un fichero OFX
+ */
+export function parseOfx(text: string): MovimientoBancario[] {
+    const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) ?? [];
+
+    return blocks.map((block) => {
+        const dt = readTag(block, 'DTPOSTED') ?? '';
+        const fecha = dt.length >= 8 ? toIsoDate(+dt.slice(0, 4), +dt.slice(4, 6), +dt.slice(6, 8)) : null;
+        const nombre = decodeEntities(readTag(block, 'NAME') ?? '');
+        const memo = decodeEntities(readTag(block, 'MEMO') ?? '');
+
+        return {
+            fecha: fecha ?? '',
+            importe: parseImporte(readTag(block, 'TRNAMT')) ?? NaN,
+            descripcion: [nombre, memo].filter((v, i, arr) => v && arr.indexOf(v) === i).join(' - '),
+            referencia: readTag(block, 'FITID')
+        };
+    });
+}
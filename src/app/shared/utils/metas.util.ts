@@ -0,0 +1,68 @@
+import { HistoricoMensual } from '@/core/models/dashboard.model';
+import { MetaAhorro, ProgresoMeta } from '@/core/models/meta-ahorro.model';
+import { Frecuencia, TraspasoProgramado } from '@/core/models/traspaso-programado.model';
+
+const MS_POR_MES = (365.25 / 12) * 24 * 60 * 60 * 1000;
+
+// Veces que se ejecuta al mes un traspaso de cada frecuencia
+const EJECUCIONES_POR_MES: Record<Frecuencia, number> = {
+    DIARIO: 365.25 / 12,
+    SEMANAL: 52 / 12,
+    MENSUAL: 1,
+    ANUAL: 1 / 12
+};
+
+export function mesesEntre(desde: Date, hasta: Date): number {
+    return (hasta.getTime() - desde.getTime()) / MS_POR_MES;
+}
+
+export function sumarMeses(fecha: Date, meses: number): Date {
+    return new Date(fecha.getTime() + meses * MS_POR_MES);
+}
+
+export function importeMensual(importe: number, frecuencia: Frecuencia): number {
+    return importe * EJECUCIONES_POR_MES[frecuencia];
+}
+
+/**
+ * Balance medio de los meses del histórico; es el ritmo de ahorro real del usuario
+ */
+export function ahorroMensualMedio(historico: HistoricoMensual[]): number {
+    if (historico.length === 0) return 0;
+    return historico.reduce((total, h) => total + h.balance, 0) / historico.length;
+}
+
+/**
+ * Calcula el progreso de una meta: aportación necesaria hasta la fecha objetivo
+ * y fecha estimada de consecución según la tendencia del histórico
+ */
+export function calcularProgresoMeta(meta: MetaAhorro, saldo: number, historico: HistoricoMensual[], aportacion: TraspasoProgramado | null = null, hoy: Date = new Date()): ProgresoMeta {
+    const saldoActual = Math.max(saldo, 0);
+    const restante = Math.max(meta.importeObjetivo - saldoActual, 0);
+    const completada = restante === 0;
+    const mesesRestantes = Math.max(mesesEntre(hoy, new Date(meta.fechaObjetivo)), 0);
+    const ritmo = ahorroMensualMedio(historico);
+
+    let fechaEstimada: Date | null = null;
+    if (completada) {
+        fechaEstimada = hoy;
+    } else if (ritmo > 0) {
+        fechaEstimada = sumarMeses(hoy, restante / ritmo);
+    }
+
+    return {
+        meta,
+        saldoActual,
+        restante,
+        porcentaje: meta.importeObjetivo > 0 ? Math.min((saldoActual / meta.importeObjetivo) * 100, 100) : 0,
+        completada,
+        mesesRestantes,
+        // Con la fecha ya vencida hay que aportar todo lo que falta de una vez
+        aportacionMensualNecesaria: completada ? 0 : restante / Math.max(mesesRestantes, 1),
+        aportacionMensualProgramada: aportacion?.activo ? importeMensual(aportacion.importe, aportacion.frecuencia) : null,
+        aportacion,
+        ahorroMensualMedio: ritmo,
+        fechaEstimada,
+        enPlazo: fechaEstimada !== null && fechaEstimada.getTime() <= new Date(meta.fechaObjetivo).getTime()
+    };
+}
@@ -0,0 +1,45 @@
+import { formatCurrency, getCurrencySymbol } from '@angular/common';
+import { CodigoMoneda, TipoCambio } from '@/core/models/moneda.model';
+
+const LOCALE = 'es-ES';
+
+/**
+ * Importe con el símbolo de su moneda en formato español ("1.234,50 €", "12,00 US$")
+ */
+export function formatearImporte(importe: number, moneda: CodigoMoneda, digitos = '1.2-2'): string {
+    return formatCurrency(importe, LOCALE, getCurrencySymbol(moneda, 'wide', LOCALE), moneda, digitos);
+}
+
+function tasaDirecta(de: CodigoMoneda, a: CodigoMoneda, tipos: TipoCambio[]): number | null {
+    const directo = tipos.find((t) => t.monedaOrigen === de && t.monedaDestino === a);
+    if (directo?.tasa) return directo.tasa;
+    const inverso = tipos.find((t) => t.monedaOrigen === a && t.monedaDestino === de);
+    return inverso?.tasa ? 1 / inverso.tasa : null;
+}
+
+/**
+ * Cuántas unidades de `a` vale una de `de`
+ * Usa el tipo directo, el inverso o, si no hay, el paso por una tercera moneda; null si no se puede calcular
+ */
+export function buscarTasa(de: CodigoMoneda, a: CodigoMoneda, tipos: TipoCambio[]): number | null {
+    if (de === a) return 1;
+
+    const directa = tasaDirecta(de, a, tipos);
+    if (directa !== null) return directa;
+
+    const intermedias = new Set(tipos.flatMap((t) => [t.monedaOrigen, t.monedaDestino]));
+    for (const intermedia of intermedias) {
+        const primera = tasaDirecta(de, intermedia, tipos);
+        const segunda = primera !== null ? tasaDirecta(intermedia, a, tipos) : null;
+        if (primera !== null && segunda !== null) return primera * segunda;
+    }
+    return null;
+}
+
+/**
+ * Convierte un importe entre monedas redondeando a céntimos; null si falta el tipo de cambio
+ */
+export function convertirImporte(importe: number, de: CodigoMoneda, a: CodigoMoneda, tipos: TipoCambio[]): number | null {
+    const tasa = buscarTasa(de, a, tipos);
+    return tasa === null ? null : Math.round(importe * tasa * 100) / 100;
+}
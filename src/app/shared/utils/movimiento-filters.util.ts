@@ -0,0 +1,166 @@
+import { HttpParams } from '@angular/common/http';
+import { CampoCatalogoFiltro, ChipFiltro, FiltrosAvanzados, MovimientoFilters, PresetFecha } from '@/core/models/movimiento-filters.model';
+import { CodigoMoneda } from '@/core/models/moneda.model';
+import { formatearImporte } from './monedas.util';
+
+export const PRESETS_FECHA: { label: string; value: PresetFecha }[] = [
+    { label: 'Este mes', value: 'este-mes' },
+    { label: 'Mes pasado', value: 'mes-pasado' },
+    { label: 'Último trimestre', value: 'ultimo-trimestre' },
+    { label: 'Año fiscal', value: 'anio-fiscal' }
+];
+
+const ETIQUETAS_CATALOGO: Record<CampoCatalogoFiltro, string> = {
+    categorias: 'Categoría',
+    cuentas: 'Cuenta',
+    proveedores: 'Proveedor',
+    clientes: 'Cliente',
+    personas: 'Persona',
+    formasPago: 'Forma de pago'
+};
+
+export function filtrosVacios(): FiltrosAvanzados {
+    return {
+        preset: null,
+        fechaInicio: null,
+        fechaFin: null,
+        categorias: [],
+        cuentas: [],
+        proveedores: [],
+        clientes: [],
+        personas: [],
+        formasPago: [],
+        importeMin: null,
+        importeMax: null,
+        conDescripcion: false
+    };
+}
+
+// 'yyyy-MM-dd' en hora local (toISOString desplazaría el día según la zona horaria)
+export function toFechaIso(fecha: Date): string {
+    const mes = String(fecha.getMonth() + 1).padStart(2, '0');
+    const dia = String(fecha.getDate()).padStart(2, '0');
+    return `${fecha.getFullYear()}-${mes}-${dia}`;
+}
+
+export function fromFechaIso(fecha: string): Date {
+    const [anio, mes, dia] = fecha.split('-').map(Number);
+    return new Date(anio, mes - 1, dia);
+}
+
+/**
+ * Rango de fechas de un preset
+ * El último trimestre es el trimestre natural ya cerrado y el año fiscal coincide con el año natural
+ */
+export function rangoPreset(preset: PresetFecha, hoy: Date = new Date()): { fechaInicio: string; fechaFin: string } {
+    const anio = hoy.getFullYear();
+    const mes = hoy.getMonth();
+
+    switch (preset) {
+        case 'este-mes':
+            return { fechaInicio: toFechaIso(new Date(anio, mes, 1)), fechaFin: toFechaIso(new Date(anio, mes + 1, 0)) };
+        case 'mes-pasado':
+            return { fechaInicio: toFechaIso(new Date(anio, mes - 1, 1)), fechaFin: toFechaIso(new Date(anio, mes, 0)) };
+        case 'ultimo-trimestre': {
+            const inicioTrimestreActual = mes - (mes % 3);
+            return { fechaInicio: toFechaIso(new Date(anio, inicioTrimestreActual - 3, 1)), fechaFin: toFechaIso(new Date(anio, inicioTrimestreActual, 0)) };
+        }
+        case 'anio-fiscal':
+            return { fechaInicio: toFechaIso(new Date(anio, 0, 1)), fechaFin: toFechaIso(new Date(anio, 11, 31)) };
+    }
+}
+
+/**
+ * Deja solo los filtros activos (para guardarlos en la URL); null si no hay ninguno
+ */
+export function compactarFiltros(filtros: FiltrosAvanzados): Partial<FiltrosAvanzados> | null {
+    const activos = Object.entries(filtros).filter(([, valor]) => valor !== null && valor !== false && !(Array.isArray(valor) && valor.length === 0));
+    return activos.length > 0 ? (Object.fromEntries(activos) as Partial<FiltrosAvanzados>) : null;
+}
+
+/**
+ * Convierte la selección del panel en los filtros que se envían a la API
+ */
+export function toMovimientoFilters(filtros: FiltrosAvanzados): MovimientoFilters {
+    const ids = (refs: { id: string }[]) => (refs.length > 0 ? refs.map((r) => r.id) : undefined);
+    const rango = filtros.preset ? rangoPreset(filtros.preset) : { fechaInicio: filtros.fechaInicio, fechaFin: filtros.fechaFin };
+
+    return {
+        fechaInicio: rango.fechaInicio || undefined,
+        fechaFin: rango.fechaFin || undefined,
+        categoriaIds: ids(filtros.categorias),
+        cuentaIds: ids(filtros.cuentas),
+        proveedorIds: ids(filtros.proveedores),
+        clienteIds: ids(filtros.clientes),
+        personaIds: ids(filtros.personas),
+        formaPagoIds: ids(filtros.formasPago),
+        importeMin: filtros.importeMin ?? undefined,
+        importeMax: filtros.importeMax ?? undefined,
+        conDescripcion: filtros.conDescripcion || undefined
+    };
+}
+
+/**
+ * Añade los filtros a los query params; las listas se envían repitiendo el parámetro (?cuentaIds=a&cuentaIds=b)
+ */
+export function filtrosToParams(params: HttpParams, filters?: MovimientoFilters): HttpParams {
+    if (!filters) return params;
+
+    Object.entries(filters).forEach(([clave, valor]) => {
+        if (valor === undefined || valor === null || valor === '') return;
+        if (Array.isArray(valor)) {
+            valor.forEach((v) => (params = params.append(clave, v)));
+        } else {
+            params = params.set(clave, String(valor));
+        }
+    });
+    return params;
+}
+
+/**
+ * Chips de los filtros activos, en el orden del panel
+ */
+export function chipsFiltros(filtros: FiltrosAvanzados, moneda: CodigoMoneda): ChipFiltro[] {
+    const chips: ChipFiltro[] = [];
+
+    if (filtros.preset) {
+        chips.push({ campo: 'fechas', etiqueta: PRESETS_FECHA.find((p) => p.value === filtros.preset)!.label });
+    } else if (filtros.fechaInicio || filtros.fechaFin) {
+        chips.push({ campo: 'fechas', etiqueta: `${formatearFecha(filtros.fechaInicio) || '…'} – ${formatearFecha(filtros.fechaFin) || '…'}` });
+    }
+
+    (Object.keys(ETIQUETAS_CATALOGO) as CampoCatalogoFiltro[]).forEach((campo) => {
+        filtros[campo].forEach((ref) => chips.push({ campo, etiqueta: `${ETIQUETAS_CATALOGO[campo]}: ${ref.nombre}`, id: ref.id }));
+    });
+
+    if (filtros.importeMin != null || filtros.importeMax != null) {
+        const min = filtros.importeMin != null ? formatearImporte(filtros.importeMin, moneda) : '…';
+        const max = filtros.importeMax != null ? formatearImporte(filtros.importeMax, moneda) : '…';
+        chips.push({ campo: 'importe', etiqueta: `Importe: ${min} – ${max}` });
+    }
+
+    if (filtros.conDescripcion) {
+        chips.push({ campo: 'conDescripcion', etiqueta: 'Con descripción' });
+    }
+
+    return chips;
+}
+
+export function quitarChip(filtros: FiltrosAvanzados, chip: ChipFiltro): FiltrosAvanzados {
+    switch (chip.campo) {
+        case 'fechas':
+            return { ...filtros, preset: null, fechaInicio: null, fechaFin: null };
+        case 'importe':
+            return { ...filtros, importeMin: null, importeMax: null };
+        case 'conDescripcion':
+            return { ...filtros, conDescripcion: false };
+        default:
+            return { ...filtros, [chip.campo]: filtros[chip.campo].filter((ref) => ref.id !== chip.id) };
+    }
+}
+
+function formatearFecha(fecha: string | null): string {
+    if (!fecha) return '';
+    const [anio, mes, dia] = fecha.split('-');
+    return `${dia}/${mes}/${anio}`;
+}
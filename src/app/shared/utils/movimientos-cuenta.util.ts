@@ -0,0 +1,73 @@
+import { MovimientoCuenta, TipoMovimientoCuenta } from '@/core/models/cuenta.model';
+import { Gasto } from '@/core/models/gasto.model';
+import { Ingreso } from '@/core/models/ingreso.model';
+import { Traspaso } from '@/core/models/traspaso.model';
+
+export const TIPOS_MOVIMIENTO_CUENTA: Record<TipoMovimientoCuenta, { etiqueta: string; severity: 'danger' | 'success' | 'info' }> = {
+    gasto: { etiqueta: 'Gasto', severity: 'danger' },
+    ingreso: { etiqueta: 'Ingreso', severity: 'success' },
+    'traspaso-entrada': { etiqueta: 'Traspaso recibido', severity: 'info' },
+    'traspaso-salida': { etiqueta: 'Traspaso enviado', severity: 'info' }
+};
+
+const redondear = (importe: number) => Math.round(importe * 100) / 100;
+
+// La API puede devolver la fecha con hora; el libro trabaja por días (yyyy-MM-dd)
+const dia = (fecha: string) => fecha.slice(0, 10);
+
+/**
+ * Gastos, ingresos y traspasos de una cuenta como movimientos con signo, ordenados por fecha
+ * En un traspaso entre monedas, a la cuenta de destino llega `importeDestino`
+ */
+export function movimientosDeCuenta(cuentaId: string, gastos: Gasto[], ingresos: Ingreso[], traspasos: Traspaso[]): MovimientoCuenta[] {
+    const movimientos: MovimientoCuenta[] = [
+        ...gastos.map((g) => ({ id: g.id, tipo: 'gasto' as const, fecha: dia(g.fecha), descripcion: g.descripcion || g.conceptoNombre, importe: -g.importe, conciliado: g.conciliado })),
+        ...ingresos.map((i) => ({ id: i.id, tipo: 'ingreso' as const, fecha: dia(i.fecha), descripcion: i.descripcion || i.conceptoNombre, importe: i.importe, conciliado: i.conciliado }))
+    ];
+
+    traspasos.forEach((t) => {
+        if (t.cuentaOrigenId === cuentaId) {
+            movimientos.push({ id: t.id, tipo: 'traspaso-salida', fecha: dia(t.fecha), descripcion: t.descripcion || `Traspaso a ${t.cuentaDestinoNombre}`, importe: -t.importe, conciliado: t.conciliado });
+        }
+        if (t.cuentaDestinoId === cuentaId) {
+            movimientos.push({ id: t.id, tipo: 'traspaso-entrada', fecha: dia(t.fecha), descripcion: t.descripcion || `Traspaso de ${t.cuentaOrigenNombre}`, importe: t.importeDestino ?? t.importe, conciliado: t.conciliado });
+        }
+    });
+
+    return movimientos.sort((a, b) => a.fecha.localeCompare(b.fecha));
+}
+
+export function sumarMovimientos(movimientos: MovimientoCuenta[]): number {
+    return redondear(movimientos.reduce((total, m) => total + m.importe, 0));
+}
+
+/**
+ * Movimiento del libro de la cuenta con el saldo que deja
+ */
+export interface ApunteCuenta extends MovimientoCuenta {
+    saldo: number;
+}
+
+/**
+ * Libro cronológico con saldo acumulado
+ * Se calcula hacia atrás desde el saldo actual, así que `movimientos` tiene que incluir todos los posteriores al primero
+ */
+export function libroCuenta(saldoActual: number, movimientos: MovimientoCuenta[]): ApunteCuenta[] {
+    let saldo = saldoActual;
+    const apuntes: ApunteCuenta[] = [];
+
+    for (let i = movimientos.length - 1; i >= 0; i--) {
+        apuntes.unshift({ ...movimientos[i], saldo: redondear(saldo) });
+        saldo -= movimientos[i].importe;
+    }
+    return apuntes;
+}
+
+/**
+ * Saldo al cierre de cada día con movimientos, empezando por el saldo anterior al primero
+ */
+export function evolucionSaldo(saldoInicial: number, apuntes: ApunteCuenta[], fechaInicio: string): { fecha: string; saldo: number }[] {
+    const porDia = new Map<string, number>([[fechaInicio, saldoInicial]]);
+    apuntes.forEach((apunte) => porDia.set(apunte.fecha, apunte.saldo));
+    return [...porDia].map(([fecha, saldo]) => ({ fecha, saldo }));
+}
@@ -0,0 +1,20 @@
+// Prefijo de los ids que devuelve el outbox para movimientos creados sin conexión
+export const PREFIJO_ID_OFFLINE = 'temp_offline_';
+
+export function esIdOffline(id: string | null | undefined): boolean {
+    return !!id && id.startsWith(PREFIJO_ID_OFFLINE);
+}
+
+/**
+ * Aplica a una lista los ids resueltos por el outbox:
+ * un id real sustituye al temporal y `null` elimina el registro descartado
+ */
+export function aplicarReemplazos<T extends { id: string }>(items: T[], reemplazos: Record<string, string | null>): T[] {
+    if (!items.some((item) => item.id in reemplazos)) return items;
+
+    return items.flatMap((item) => {
+        if (!(item.id in reemplazos)) return [item];
+        const id = reemplazos[item.id];
+        return id ? [{ ...item, id }] : [];
+    });
+}
@@ -0,0 +1,27 @@
+import { CAMPOS_PLANTILLA, DatosPlantilla, PlantillaMovimiento, PlantillaMovimientoCreate, TipoPlantilla } from '@/core/models/plantilla.model';
+
+function copiarCampos(origen: DatosPlantilla): DatosPlantilla {
+    const datos: DatosPlantilla = {};
+    CAMPOS_PLANTILLA.forEach((campo) => {
+        if (origen[campo]) datos[campo] = origen[campo];
+    });
+    return datos;
+}
+
+/**
+ * Plantilla a partir de un gasto o ingreso: catálogos y, si se pide, el importe (nunca la fecha ni la descripción)
+ */
+export function plantillaDesdeMovimiento(movimiento: DatosPlantilla & { importe?: number }, tipo: TipoPlantilla, nombre: string, conImporte: boolean): PlantillaMovimientoCreate {
+    return { ...copiarCampos(movimiento), nombre, tipo, importe: conImporte && movimiento.importe ? movimiento.importe : null };
+}
+
+/**
+ * Datos de un movimiento nuevo con los campos de la plantilla y la fecha de hoy
+ */
+export function movimientoDesdePlantilla(plantilla: PlantillaMovimiento): DatosPlantilla & { importe?: number; fecha: string } {
+    return {
+        ...copiarCampos(plantilla),
+        ...(plantilla.importe ? { importe: plantilla.importe } : {}),
+        fecha: new Date().toISOString().split('T')[0]
+    };
+}
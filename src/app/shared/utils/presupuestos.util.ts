@@ -0,0 +1,63 @@
+import { Alerta, CategoriaGasto } from '@/core/models/dashboard.model';
+import { EstadoPresupuesto, Presupuesto, ProgresoPresupuesto } from '@/core/models/presupuesto.model';
+import { CodigoMoneda } from '@/core/models/moneda.model';
+import { formatearImporte } from './monedas.util';
+
+// Porcentaje consumido a partir del cual se avisa
+export const UMBRAL_AVISO_PRESUPUESTO = 80;
+
+export function estadoPresupuesto(porcentaje: number): EstadoPresupuesto {
+    if (porcentaje > 100) return 'danger';
+    if (porcentaje >= UMBRAL_AVISO_PRESUPUESTO) return 'warning';
+    return 'ok';
+}
+
+/**
+ * Cruza cada presupuesto con lo gastado en su categoría durante el mes
+ * gastosPorCuenta usa '' como clave para el total de todas las cuentas
+ */
+export function calcularProgresos(presupuestos: Presupuesto[], gastosPorCuenta: Record<string, CategoriaGasto[]>): ProgresoPresupuesto[] {
+    return presupuestos
+        .map((presupuesto) => {
+            const categorias = gastosPorCuenta[presupuesto.cuentaId ?? ''] ?? [];
+            const gastado = categorias.find((c) => c.categoriaId === presupuesto.categoriaId)?.totalGastado ?? 0;
+            const porcentaje = presupuesto.limiteMensual > 0 ? (gastado / presupuesto.limiteMensual) * 100 : 0;
+
+            return {
+                presupuesto,
+                gastado,
+                restante: presupuesto.limiteMensual - gastado,
+                porcentaje,
+                estado: estadoPresupuesto(porcentaje)
+            };
+        })
+        .sort((a, b) => b.porcentaje - a.porcentaje);
+}
+
+/**
+ * Alertas del dashboard para los presupuestos en aviso o superados
+ * `moneda` es la de los límites y el gasto calculado (la moneda base)
+ */
+export function alertasPresupuestos(progresos: ProgresoPresupuesto[], moneda: CodigoMoneda): Alerta[] {
+    const formato = (valor: number) => formatearImporte(valor, moneda);
+
+    return progresos
+        .filter((p) => p.estado !== 'ok')
+        .map(({ presupuesto, gastado, porcentaje, estado }) => {
+            const ambito = presupuesto.cuentaNombre ? `${presupuesto.categoriaNombre} (${presupuesto.cuentaNombre})` : presupuesto.categoriaNombre;
+
+            return estado === 'danger'
+                ? {
+                      tipo: 'danger',
+                      titulo: `Presupuesto superado: ${ambito}`,
+                      mensaje: `Llevas ${formato(gastado)} de ${formato(presupuesto.limiteMensual)} este mes (${Math.round(porcentaje)}%).`,
+                      icono: '🚨'
+                  }
+                : {
+                      tipo: 'warning',
+                      titulo: `Presupuesto casi agotado: ${ambito}`,
+                      mensaje: `Has consumido el ${Math.round(porcentaje)}% del presupuesto mensual (${formato(gastado)} de ${formato(presupuesto.limiteMensual)}).`,
+                      icono: '⚠️'
+                  };
+        });
+}
@@ -0,0 +1,76 @@
+import { CampoAccionRegla, MovimientoEvaluable, Regla, ResultadoReglas } from '@/core/models/regla.model';
+import { normalizeText } from './text-similarity.util';
+
+export const CAMPOS_ACCION_REGLA: CampoAccionRegla[] = ['concepto', 'categoria', 'proveedor', 'cliente', 'persona', 'formaPago'];
+
+/**
+ * Devuelve el mensaje de error de una expresión regular o null si es válida
+ */
+export function validarRegex(patron: string): string | null {
+    try {
+        new RegExp(patron, 'i');
+        return null;
+    } catch (error: any) {
+        return error?.message || 'Expresión regular no válida';
+    }
+}
+
+/**
+ * Comprueba si un movimiento cumple todas las condiciones de la regla
+ * El texto se busca en la descripción y en el nombre del concepto
+ */
+export function cumpleRegla(regla: Regla, movimiento: MovimientoEvaluable): boolean {
+    const { ambito, texto, modoTexto, importeMin, importeMax, cuenta } = regla.condiciones;
+
+    if (ambito !== 'ambos' && ambito !== movimiento.tipo) return false;
+    if (cuenta && cuenta.id !== movimiento.cuentaId) return false;
+    if (importeMin !== null && movimiento.importe < importeMin) return false;
+    if (importeMax !== null && movimiento.importe > importeMax) return false;
+
+    if (texto?.trim()) {
+        const candidatos = [movimiento.descripcion, movimiento.conceptoNombre].filter((t): t is string => !!t);
+
+        if (modoTexto === 'regex') {
+            if (validarRegex(texto) !== null) return false;
+            const regex = new RegExp(texto, 'i');
+            if (!candidatos.some((t) => regex.test(t))) return false;
+        } else {
+            const buscado = normalizeText(texto);
+            if (!candidatos.some((t) => normalizeText(t).includes(buscado))) return false;
+        }
+    }
+
+    return true;
+}
+
+/**
+ * Evalúa las reglas en orden: cada campo lo fija la primera regla activa que lo defina
+ * Las acciones de proveedor solo aplican a gastos y las de cliente a ingresos
+ */
+export function evaluarReglas(reglas: Regla[], movimiento: MovimientoEvaluable): ResultadoReglas {
+    const resultado: ResultadoReglas = { acciones: {}, origen: {} };
+
+    for (const regla of reglas) {
+        if (!regla.activa || !cumpleRegla(regla, movimiento)) continue;
+
+        for (const campo of CAMPOS_ACCION_REGLA) {
+            if (campo === 'proveedor' && movimiento.tipo !== 'gasto') continue;
+            if (campo === 'cliente' && movimiento.tipo !== 'ingreso') continue;
+
+            const valor = regla.acciones[campo];
+            if (valor && !resultado.acciones[campo]) {
+                resultado.acciones[campo] = valor;
+                resultado.origen[campo] = regla;
+            }
+        }
+    }
+
+    return resultado;
+}
+
+/**
+ * Nombres únicos de las reglas que han intervenido en un resultado
+ */
+export function reglasAplicadas(resultado: ResultadoReglas): string[] {
+    return [...new Set(Object.values(resultado.origen).map((r) => r!.nombre))];
+}
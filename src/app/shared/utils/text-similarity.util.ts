@@ -0,0 +1,47 @@
+/**
+ * Normaliza un texto para compararlo: minúsculas, sin tildes, sin signos y espacios colapsados
+ */
+export function normalizeText(value: string | null | undefined): string {
+    return (value ?? '')
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim();
+}
+
+function bigrams(value: string): Map<string, number> {
+    const result = new Map<string, number>();
+    const compact = value.replace(/\s+/g, ' ');
+
+    for (let i = 0; i < compact.length - 1; i++) {
+        const bigram = compact.slice(i, i + 2);
+        result.set(bigram, (result.get(bigram) ?? 0) + 1);
+    }
+
+    return result;
+}
+
+/**
+ * Similitud entre 0 y 1 (coeficiente de Dice sobre bigramas)
+ * Si un texto contiene al otro completo se considera similitud máxima ("MERCADONA" vs "COMPRA MERCADONA VALENCIA")
+ */
+export function textSimilarity(a: string | null | undefined, b: string | null | undefined): number {
+    const x = normalizeText(a);
+    const y = normalizeText(b);
+
+    if (!x || !y) return 0;
+    if (x === y || x.includes(y) || y.includes(x)) return 1;
+
+    const bx = bigrams(x);
+    const by = bigrams(y);
+    let interseccion = 0;
+
+    for (const [bigram, count] of bx) {
+        interseccion += Math.min(count, by.get(bigram) ?? 0);
+    }
+
+    const total = x.length - 1 + (y.length - 1);
+
+    return total > 0 ? (2 * interseccion) / total : 0;
+}